@@ -0,0 +1,116 @@
+/*
+ * 勤怠管理システムのサービスワーカー（PWA）
+ *
+ * - アプリの画面（index.html・ビルドしたJS/CSS・manifest・アイコン）をキャッシュし、ホーム画面から素早く起動できるようにする
+ * - 画面の遷移はネットワーク優先（デプロイした最新の画面を使う）、通信できない場合はキャッシュした index.html で起動する
+ * - ビルドしたファイル（/assets/、ファイル名にハッシュ付き）はキャッシュ優先
+ * - APIなど別オリジンへの通信と GET 以外の通信はキャッシュしない（打刻は画面側で端末に保存して再送する）
+ *
+ * 注意: キャッシュの内容を変える場合は CACHE_VERSION を上げる（古いキャッシュは activate 時に削除する）
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `kintai-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `kintai-assets-${CACHE_VERSION}`;
+
+/** インストール時にキャッシュする画面のファイル */
+const SHELL_FILES = ['/index.html', '/manifest.webmanifest', '/vite.svg'];
+
+/** キャッシュするビルドしたファイルの上限（古いビルドのファイルから削除する） */
+const MAX_ASSET_ENTRIES = 60;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('kintai-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * キャッシュしたビルドしたファイルを上限まで減らす（古く登録したものから削除）。
+ */
+const trimAssetCache = async () => {
+  const cache = await caches.open(ASSET_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_ASSET_ENTRIES)).map((key) => cache.delete(key)));
+};
+
+/**
+ * 画面の遷移（ネットワーク優先）。SPAのためどのパスも index.html としてキャッシュする。
+ */
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/**
+ * ビルドしたファイル（キャッシュ優先）。
+ */
+const handleAsset = async (request) => {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    await trimAssetCache();
+  }
+  return response;
+};
+
+/**
+ * その他の同じオリジンのファイル（ネットワーク優先、通信できない場合はキャッシュ）。
+ */
+const handleStatic = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  } else if (url.pathname !== '/sw.js') {
+    event.respondWith(handleStatic(request));
+  }
+});
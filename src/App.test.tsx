@@ -0,0 +1,59 @@
+/**
+ * App（従業員用ルート）のユニットテスト。
+ *
+ * 対象: EmployeeRoutes
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（画面遷移・権限ロール）
+ *
+ * 管理者の権限ロールの権限は管理者画面のみに適用し、権限を持たない従業員も従業員画面を表示できる。
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { ProtectedRoute } from './components/ProtectedRoute';
+import { EmployeeRoutes } from './App';
+
+vi.mock('./contexts/AuthContext', () => ({
+  AuthProvider: ({ children }: { children: React.ReactNode }) => <>{children}</>,
+  useAuth: () => ({
+    isAuthenticated: true,
+    userRole: 'employee',
+    isLoading: false,
+    adminPermissions: new Set()
+  })
+}));
+vi.mock('./components/Layout', () => ({
+  Layout: ({ children }: { children: React.ReactNode }) => <>{children}</>
+}));
+vi.mock('./pages/employee/Attendance', () => ({ Attendance: () => <div>勤怠画面</div> }));
+vi.mock('./pages/employee/LeaveRequest', () => ({ LeaveRequest: () => <div>休暇申請画面</div> }));
+vi.mock('./pages/employee/Payslips', () => ({ Payslips: () => <div>給与明細画面</div> }));
+
+const renderEmployeeRoute = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route
+          path="/employee/*"
+          element={
+            <ProtectedRoute requiredRole="employee">
+              <EmployeeRoutes />
+            </ProtectedRoute>
+          }
+        />
+        <Route path="/login" element={<div>ログイン画面</div>} />
+        <Route path="/admin/*" element={<div>管理者画面</div>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('EmployeeRoutes', () => {
+  it('管理者の権限を持たない従業員が勤怠画面を表示できる', () => {
+    renderEmployeeRoute('/employee/attendance');
+    expect(screen.getByText('勤怠画面')).toBeInTheDocument();
+  });
+
+  it('未定義のパス（ホーム画面から起動した時など）は勤怠画面に移動する', () => {
+    renderEmployeeRoute('/employee/unknown');
+    expect(screen.getByText('勤怠画面')).toBeInTheDocument();
+  });
+});
@@ -9,37 +9,71 @@ import { SignUp } from './pages/SignUp';
 import { PasswordReset } from './pages/PasswordReset';
 import { EmployeeList } from './pages/admin/EmployeeList';
 import { EmployeeRegistration } from './pages/admin/EmployeeRegistration';
+import { EmployeeImport } from './pages/admin/EmployeeImport';
 import { EmployeePayroll } from './pages/admin/EmployeePayroll';
 import { AllowanceMaster } from './pages/admin/AllowanceMaster';
 import { DeductionMaster } from './pages/admin/DeductionMaster';
 import { RequestApproval } from './pages/admin/RequestApproval';
 import { AttendanceList } from './pages/admin/AttendanceList';
+import { AttendanceImport } from './pages/admin/AttendanceImport';
 import { EmployeeAttendance } from './pages/admin/EmployeeAttendance';
 import { WorkLocationMaster } from './pages/admin/WorkLocationMaster';
+import { PayrollClosingMaster } from './pages/admin/PayrollClosingMaster';
+import { CompanyHolidayMaster } from './pages/admin/CompanyHolidayMaster';
+import { ShiftSchedule } from './pages/admin/ShiftSchedule';
+import { BankTransferExport } from './pages/admin/BankTransferExport';
+import { PayrollRun } from './pages/admin/PayrollRun';
+import { StandardRemuneration } from './pages/admin/StandardRemuneration';
+import { InsuranceRateMaster } from './pages/admin/InsuranceRateMaster';
+import { OvertimeMonitor } from './pages/admin/OvertimeMonitor';
+import { OvertimeAgreementMaster } from './pages/admin/OvertimeAgreementMaster';
+import { LeaveTypeMaster } from './pages/admin/LeaveTypeMaster';
+import { ApprovalRouteMaster } from './pages/admin/ApprovalRouteMaster';
+import { DepartmentMaster } from './pages/admin/DepartmentMaster';
+import { PaidLeaveCompliance } from './pages/admin/PaidLeaveCompliance';
 import { Attendance } from './pages/employee/Attendance';
 import { LeaveRequest } from './pages/employee/LeaveRequest';
+import { Payslips } from './pages/employee/Payslips';
+import { KioskStamp } from './pages/kiosk/KioskStamp';
 import { getLoginUserType, getGoogleLoginInProgress, removeLoginUserType, removeGoogleLoginInProgress, saveGoogleLoginInProgress } from './utils/storageHelper';
 import { log, error as logError, warn } from './utils/logger';
+import { isStandaloneDisplay } from './utils/pwa';
 
 /**
  * 管理者用ルートコンポーネント。
  * 管理者向けの画面ルーティングを定義します。
+ * 各画面は管理者の権限ロールに応じた権限で保護します（ナビゲーションの出し分けは utils/permission の ADMIN_PATH_PERMISSIONS）。
  *
  * @returns {JSX.Element} 管理者用ルートコンポーネント。
  */
 const AdminRoutes = () => (
   <Layout>
     <Routes>
-      <Route path="/employees" element={<EmployeeList />} />
-      <Route path="/employees/register" element={<EmployeeRegistration />} />
-      <Route path="/employees/edit/:id" element={<EmployeeRegistration />} />
-      <Route path="/employees/:employeeId/payroll" element={<EmployeePayroll />} />
-      <Route path="/attendance" element={<AttendanceList />} />
-      <Route path="/employee-attendance" element={<EmployeeAttendance />} />
-      <Route path="/allowances" element={<AllowanceMaster />} />
-      <Route path="/deductions" element={<DeductionMaster />} />
-      <Route path="/work-locations" element={<WorkLocationMaster />} />
-      <Route path="/requests" element={<RequestApproval />} />
+      <Route path="/employees" element={<ProtectedRoute requiredPermission="employees.view"><EmployeeList /></ProtectedRoute>} />
+      <Route path="/employees/register" element={<ProtectedRoute requiredPermission="employees.edit"><EmployeeRegistration /></ProtectedRoute>} />
+      <Route path="/employees/edit/:id" element={<ProtectedRoute requiredPermission="employees.edit"><EmployeeRegistration /></ProtectedRoute>} />
+      <Route path="/employees/import" element={<ProtectedRoute requiredPermission="employees.edit"><EmployeeImport /></ProtectedRoute>} />
+      <Route path="/employees/:employeeId/payroll" element={<ProtectedRoute requiredPermission="salary.view"><EmployeePayroll /></ProtectedRoute>} />
+      <Route path="/attendance" element={<ProtectedRoute requiredPermission="attendance.view"><AttendanceList /></ProtectedRoute>} />
+      <Route path="/attendance/import" element={<ProtectedRoute requiredPermission="attendance.edit"><AttendanceImport /></ProtectedRoute>} />
+      <Route path="/employee-attendance" element={<ProtectedRoute requiredPermission="attendance.view"><EmployeeAttendance /></ProtectedRoute>} />
+      <Route path="/shifts" element={<ProtectedRoute requiredPermission="shifts.manage"><ShiftSchedule /></ProtectedRoute>} />
+      <Route path="/payroll-run" element={<ProtectedRoute requiredPermission="salary.edit"><PayrollRun /></ProtectedRoute>} />
+      <Route path="/bank-transfer" element={<ProtectedRoute requiredPermission="salary.edit"><BankTransferExport /></ProtectedRoute>} />
+      <Route path="/standard-remuneration" element={<ProtectedRoute requiredPermission="salary.view"><StandardRemuneration /></ProtectedRoute>} />
+      <Route path="/overtime-monitor" element={<ProtectedRoute requiredPermission="attendance.view"><OvertimeMonitor /></ProtectedRoute>} />
+      <Route path="/paid-leave-compliance" element={<ProtectedRoute requiredPermission="attendance.view"><PaidLeaveCompliance /></ProtectedRoute>} />
+      <Route path="/allowances" element={<ProtectedRoute requiredPermission="masters.salary"><AllowanceMaster /></ProtectedRoute>} />
+      <Route path="/deductions" element={<ProtectedRoute requiredPermission="masters.salary"><DeductionMaster /></ProtectedRoute>} />
+      <Route path="/work-locations" element={<ProtectedRoute requiredPermission="masters.organization"><WorkLocationMaster /></ProtectedRoute>} />
+      <Route path="/payroll-closing" element={<ProtectedRoute requiredPermission="masters.salary"><PayrollClosingMaster /></ProtectedRoute>} />
+      <Route path="/company-holidays" element={<ProtectedRoute requiredPermission="masters.attendance"><CompanyHolidayMaster /></ProtectedRoute>} />
+      <Route path="/insurance-rates" element={<ProtectedRoute requiredPermission="masters.salary"><InsuranceRateMaster /></ProtectedRoute>} />
+      <Route path="/overtime-agreements" element={<ProtectedRoute requiredPermission="masters.attendance"><OvertimeAgreementMaster /></ProtectedRoute>} />
+      <Route path="/leave-types" element={<ProtectedRoute requiredPermission="masters.attendance"><LeaveTypeMaster /></ProtectedRoute>} />
+      <Route path="/approval-routes" element={<ProtectedRoute requiredPermission="masters.organization"><ApprovalRouteMaster /></ProtectedRoute>} />
+      <Route path="/departments" element={<ProtectedRoute requiredPermission="masters.organization"><DepartmentMaster /></ProtectedRoute>} />
+      <Route path="/requests" element={<ProtectedRoute requiredPermission="requests.approve"><RequestApproval /></ProtectedRoute>} />
       <Route path="*" element={<Navigate to="/admin/employees" replace />} />
     </Routes>
   </Layout>
@@ -48,14 +82,16 @@ const AdminRoutes = () => (
 /**
  * 従業員用ルートコンポーネント。
  * 従業員向けの画面ルーティングを定義します。
+ * 管理者の権限ロールによる権限は管理者画面のみに適用し、従業員画面には適用しません（従業員の権限は空のため）。
  *
  * @returns {JSX.Element} 従業員用ルートコンポーネント。
  */
-const EmployeeRoutes = () => (
+export const EmployeeRoutes = () => (
   <Layout>
     <Routes>
       <Route path="/attendance" element={<Attendance />} />
       <Route path="/leave" element={<LeaveRequest />} />
+      <Route path="/payslips" element={<Payslips />} />
       <Route path="*" element={<Navigate to="/employee/attendance" replace />} />
     </Routes>
   </Layout>
@@ -400,6 +436,13 @@ const AppRoutes = () => {
       });
       return <Navigate to={targetPath} replace />;
     }
+
+    // ホーム画面から起動した場合（PWA）は、ログイン済みなら打刻画面をすぐに表示する
+    // 注意: manifestのstart_urlは打刻画面だが、ルート（/）を開いた状態で追加した端末でも打刻画面から始める
+    if (location.pathname === '/' && isStandaloneDisplay() && isAuthenticated && userRole) {
+      log('App.tsx: Launched from home screen - redirecting to /employee/attendance');
+      return <Navigate to="/employee/attendance" replace />;
+    }
     
     // ログイン処理中の場合は、Login.tsxの遷移処理を待つ（ログイン画面を表示する）
     // Login.tsxのuseEffectで遷移処理が実行されるため、Routesをレンダリングする必要がある
@@ -464,6 +507,8 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      {/* 共用の打刻端末（ログイン不要。端末の登録・解除は画面内で管理者のログインを確認する） */}
+      <Route path="/kiosk" element={<KioskStamp />} />
       <Route path="/" element={<Navigate to="/login" replace />} />
       <Route path="*" element={<Navigate to="/login" replace />} />
     </Routes>
@@ -0,0 +1,376 @@
+/**
+ * CSV出力モーダルコンポーネント。
+ * 出力する列・並び順・見出し・文字コードを選んでCSVを出力します。選んだ設定はテンプレートとして保存（API・会社全体で共有）できます。
+ * 弥生給与・freee人事労務の取込用の組み込みのテンプレートも選べます。
+ */
+
+import { useEffect, useState } from 'react';
+import { fontSizes } from '../config/fontSizes';
+import { Button, CancelButton } from './Button';
+import {
+  buildCsv,
+  downloadCsv,
+  encodeCsv,
+  expandCsvColumnSelection,
+  type CsvColumn,
+  type CsvColumnSelection,
+  type CsvEncoding,
+  type CsvExportTarget
+} from '../utils/csvExport';
+import { getCsvExportPresets } from '../utils/csvExportColumns';
+import {
+  createCsvExportTemplate,
+  deleteCsvExportTemplate,
+  getCsvExportTemplates,
+  updateCsvExportTemplate,
+  type CsvExportTemplate
+} from '../utils/csvExportTemplateApi';
+
+/**
+ * CSV出力モーダルコンポーネントのプロパティを表すインターフェース。
+ */
+interface CsvExportModalProps<T> {
+  /** モーダルの表示状態。 */
+  isOpen: boolean;
+  /** モーダルのタイトル。 */
+  title: string;
+  /** 出力対象（テンプレートの保存先）。 */
+  target: CsvExportTarget;
+  /** 出力する行。 */
+  rows: T[];
+  /** 列の定義。 */
+  columns: CsvColumn<T>[];
+  /** ファイル名（拡張子なし）。 */
+  fileName: string;
+  /** 閉じる時の処理を行う関数。 */
+  onClose: () => void;
+  /** 出力・保存の結果を通知する関数（スナックバーに表示する）。 */
+  onNotify: (message: string, type: 'success' | 'error') => void;
+  /** モバイル表示かどうか。デフォルトは画面幅に基づいて自動判定。 */
+  isMobile?: boolean;
+}
+
+/** 列の選択状態（出力しない列も並び順を保持する） */
+interface ColumnState extends CsvColumnSelection {
+  label: string;
+  enabled: boolean;
+}
+
+/**
+ * 列の選択状態を作る（テンプレートの列を保存した順に先頭に並べ、残りの列は出力しない列として後ろに並べる）。
+ * テンプレートの「allowance:*」などは、出力する明細に含まれる手当・控除の列に展開する。
+ *
+ * @param {CsvColumn<T>[]} columns - 列の定義。
+ * @param {CsvColumnSelection[] | null} selection - テンプレートの列。null の場合は全列を出力する。
+ * @returns {ColumnState[]} 列の選択状態。
+ */
+const toColumnStates = <T,>(columns: CsvColumn<T>[], selection: CsvColumnSelection[] | null): ColumnState[] => {
+  if (!selection) {
+    return columns.map(column => ({ key: column.key, header: column.label, label: column.label, enabled: true }));
+  }
+  const expanded = expandCsvColumnSelection(columns, selection);
+  const selected = expanded.flatMap(item => {
+    const column = columns.find(c => c.key === item.key);
+    return column ? [{ key: column.key, header: item.header, label: column.label, enabled: true }] : [];
+  });
+  const rest = columns
+    .filter(column => !expanded.some(item => item.key === column.key))
+    .map(column => ({ key: column.key, header: column.label, label: column.label, enabled: false }));
+  return [...selected, ...rest];
+};
+
+/**
+ * CSV出力モーダルコンポーネント。
+ * 背景をクリックすると閉じます。
+ *
+ * @param {CsvExportModalProps<T>} props - CSV出力モーダルのプロパティ。
+ * @returns {JSX.Element | null} CSV出力モーダルコンポーネント。isOpenがfalseの場合はnullを返します。
+ */
+export const CsvExportModal = <T,>({
+  isOpen,
+  title,
+  target,
+  rows,
+  columns,
+  fileName,
+  onClose,
+  onNotify,
+  isMobile = window.innerWidth <= 768
+}: CsvExportModalProps<T>) => {
+  const [columnStates, setColumnStates] = useState<ColumnState[]>([]);
+  const [encoding, setEncoding] = useState<CsvEncoding>('utf8');
+  const [templates, setTemplates] = useState<CsvExportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const presets = getCsvExportPresets(target);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setColumnStates(toColumnStates(columns, null));
+    setEncoding('utf8');
+    setTemplateId('');
+    setTemplateName('');
+  }, [isOpen, columns, target]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getCsvExportTemplates(target);
+        if (!cancelled) setTemplates(response);
+      } catch (error) {
+        // 取得に失敗しても組み込みのテンプレート・既定の列で出力できる
+        if (!cancelled) onNotify(error instanceof Error ? error.message : '保存したテンプレートの取得に失敗しました', 'error');
+      }
+    })();
+    return () => { cancelled = true; };
+    // onNotify は呼び出し元で毎回作られるため、依存配列に含めない（開くたびに1回だけ取得する）
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, target]);
+
+  if (!isOpen) return null;
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) {
+      setColumnStates(toColumnStates(columns, preset.columns));
+      setEncoding(preset.encoding);
+      setTemplateName('');
+      return;
+    }
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      setColumnStates(toColumnStates(columns, null));
+      setEncoding('utf8');
+      setTemplateName('');
+      return;
+    }
+    setColumnStates(toColumnStates(columns, template.columns));
+    setEncoding(template.encoding);
+    setTemplateName(template.name);
+  };
+
+  const updateColumn = (index: number, patch: Partial<ColumnState>) => {
+    setColumnStates(prev => prev.map((column, i) => (i === index ? { ...column, ...patch } : column)));
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    setColumnStates(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const selection = columnStates.filter(column => column.enabled).map(({ key, header }) => ({ key, header }));
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) {
+      onNotify('テンプレート名を入力してください', 'error');
+      return;
+    }
+    if (selection.length === 0) {
+      onNotify('出力する列を1つ以上選択してください', 'error');
+      return;
+    }
+    // 同じ名前のテンプレートがあれば上書きする
+    const existing = templates.find(t => t.name === name);
+    const payload = { name, target, columns: selection, encoding };
+    setIsSavingTemplate(true);
+    try {
+      const saved = existing
+        ? await updateCsvExportTemplate(existing.id, payload)
+        : await createCsvExportTemplate(payload);
+      setTemplates(prev => (existing ? prev.map(t => (t.id === saved.id ? saved : t)) : [...prev, saved]));
+      setTemplateId(saved.id);
+      onNotify(`テンプレート「${name}」を保存しました`, 'success');
+    } catch (error) {
+      onNotify(error instanceof Error ? error.message : 'テンプレートの保存に失敗しました', 'error');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    setIsSavingTemplate(true);
+    try {
+      await deleteCsvExportTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      setTemplateId('');
+      setTemplateName('');
+      onNotify(`テンプレート「${template.name}」を削除しました`, 'success');
+    } catch (error) {
+      onNotify(error instanceof Error ? error.message : 'テンプレートの削除に失敗しました', 'error');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (selection.length === 0) {
+      onNotify('出力する列を1つ以上選択してください', 'error');
+      return;
+    }
+    const { bytes, unmappable } = encodeCsv(buildCsv(rows, columns, selection), encoding);
+    downloadCsv(bytes, `${fileName}.csv`, encoding);
+    if (unmappable.length > 0) {
+      onNotify(`Shift_JISに変換できない文字（${unmappable.join(' ')}）を「?」にして出力しました`, 'error');
+    } else {
+      onNotify(`${rows.length}件をCSVに出力しました`, 'success');
+    }
+    onClose();
+  };
+
+  const inputStyle = {
+    padding: '0.25rem 0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input
+  };
+  const smallButtonStyle = { padding: '0.25rem 0.5rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 10000,
+        padding: isMobile ? '1rem' : '1.4rem'
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          padding: isMobile ? '1.5rem' : '1.4rem',
+          width: '100%',
+          maxWidth: '600px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={{ marginBottom: '1rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+          {title}
+        </h3>
+        <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+          出力件数: {rows.length}件。取込先の会計ソフトの列の並び・見出しに合わせて、列を選択・並べ替えてください。
+        </p>
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+          <label style={{ fontSize: fontSizes.label }}>テンプレート</label>
+          <select value={templateId} onChange={(e) => applyTemplate(e.target.value)} style={inputStyle}>
+            <option value="">（既定の列）</option>
+            {presets.length > 0 && (
+              <optgroup label="組み込み">
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
+            {templates.length > 0 && (
+              <optgroup label="保存したテンプレート">
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {templates.some(t => t.id === templateId) && (
+            <Button variant="secondary" type="button" onClick={handleDeleteTemplate} disabled={isSavingTemplate} style={smallButtonStyle}>
+              削除
+            </Button>
+          )}
+        </div>
+
+        <div style={{ border: '1px solid #e5e7eb', borderRadius: '4px', marginBottom: '1rem' }}>
+          {columnStates.map((column, index) => (
+            <div
+              key={column.key}
+              style={{
+                display: 'flex',
+                gap: '0.5rem',
+                alignItems: 'center',
+                padding: '0.25rem 0.5rem',
+                borderBottom: index < columnStates.length - 1 ? '1px solid #f3f4f6' : 'none',
+                backgroundColor: column.enabled ? 'white' : '#f9fafb'
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={column.enabled}
+                onChange={(e) => updateColumn(index, { enabled: e.target.checked })}
+                aria-label={`${column.label}を出力する`}
+              />
+              <span style={{ width: isMobile ? '6rem' : '9rem', fontSize: fontSizes.small, color: column.enabled ? '#1f2937' : '#9ca3af' }}>
+                {column.label}
+              </span>
+              <input
+                type="text"
+                value={column.header}
+                disabled={!column.enabled}
+                onChange={(e) => updateColumn(index, { header: e.target.value })}
+                aria-label={`${column.label}の見出し`}
+                style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+              />
+              <Button variant="secondary" type="button" disabled={index === 0} onClick={() => moveColumn(index, -1)} style={smallButtonStyle} aria-label="上へ">
+                ↑
+              </Button>
+              <Button variant="secondary" type="button" disabled={index === columnStates.length - 1} onClick={() => moveColumn(index, 1)} style={smallButtonStyle} aria-label="下へ">
+                ↓
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem', fontSize: fontSizes.medium }}>
+          <span style={{ fontSize: fontSizes.label }}>文字コード</span>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+            <input type="radio" name="csvEncoding" checked={encoding === 'utf8'} onChange={() => setEncoding('utf8')} />
+            UTF-8（BOM付き）
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+            <input type="radio" name="csvEncoding" checked={encoding === 'shift_jis'} onChange={() => setEncoding('shift_jis')} />
+            Shift_JIS
+          </label>
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+          <input
+            type="text"
+            value={templateName}
+            placeholder="テンプレート名（例: 経理部 月次集計用）"
+            onChange={(e) => setTemplateName(e.target.value)}
+            style={{ ...inputStyle, flex: 1, minWidth: '12rem' }}
+          />
+          <Button variant="secondary" type="button" onClick={handleSaveTemplate} disabled={isSavingTemplate} style={{ ...smallButtonStyle, padding: '0.5rem 1rem' }}>
+            テンプレートに保存
+          </Button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '1rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+          <CancelButton fullWidth type="button" onClick={onClose} />
+          <Button variant="primary" fullWidth type="button" onClick={handleExport} disabled={rows.length === 0}>
+            CSV出力
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
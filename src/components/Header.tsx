@@ -3,6 +3,7 @@ import { useNavigate, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { fontSizes } from '../config/fontSizes';
 import { MenuIcon, CloseIcon } from './Icons';
+import { canAccessAdminPath, ADMIN_ROLE_LABELS } from '../utils/permission';
 
 /**
  * ヘッダーコンポーネントのプロパティを表すインターフェース。
@@ -25,11 +26,12 @@ interface HeaderProps {
  * @returns {JSX.Element} ヘッダーコンポーネント。
  */
 export const Header: React.FC<HeaderProps> = ({ isMobile = false, userRole: propUserRole, pendingRequestCount = 0 }) => {
-  const { logout, userRole: contextUserRole, userId, userName } = useAuth();
+  const { logout, userRole: contextUserRole, userId, userName, adminRole, adminPermissions } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const userRole = propUserRole || contextUserRole || 'employee';
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const canAccess = (path: string) => canAccessAdminPath(adminPermissions, path);
 
   const handleLogout = () => {
     setIsMenuOpen(false);
@@ -92,7 +94,7 @@ export const Header: React.FC<HeaderProps> = ({ isMobile = false, userRole: prop
                   opacity: 0.9
                 }}
               >
-                （{userRole === 'admin' ? '管理者' : '従業員'}）
+                （{userRole === 'admin' ? (adminRole ? ADMIN_ROLE_LABELS[adminRole] : '管理者') : '従業員'}）
               </span>
           </div>
         </div>
@@ -218,114 +220,238 @@ export const Header: React.FC<HeaderProps> = ({ isMobile = false, userRole: prop
               <div style={{ borderTop: '1px solid #e5e7eb', paddingTop: '1rem', marginTop: '1rem' }}>
                 {userRole === 'admin' ? (
                   <>
-                    <Link
-                      to="/admin/employees"
-                      onClick={closeMenu}
-                      style={{
-                        display: 'block',
-                        padding: '0.75rem 1rem',
-                        textDecoration: 'none',
-                        color: location.pathname.startsWith('/admin/employees') ? '#8b5a2b' : '#1f2937',
-                        fontSize: fontSizes.navLink.desktop,
-                        fontWeight: location.pathname.startsWith('/admin/employees') ? 'bold' : 'normal',
-                        backgroundColor: location.pathname.startsWith('/admin/employees') ? '#f9f3eb' : 'transparent',
-                        borderRadius: '4px',
-                        marginBottom: '0.5rem'
-                      }}
-                    >
-                      従業員一覧
-                    </Link>
-                    <Link
-                      to="/admin/attendance"
-                      onClick={closeMenu}
-                      style={{
-                        display: 'block',
-                        padding: '0.75rem 1rem',
-                        textDecoration: 'none',
-                        color: location.pathname.startsWith('/admin/attendance') ? '#8b5a2b' : '#1f2937',
-                        fontSize: fontSizes.navLink.desktop,
-                        fontWeight: location.pathname.startsWith('/admin/attendance') ? 'bold' : 'normal',
-                        backgroundColor: location.pathname.startsWith('/admin/attendance') ? '#f9f3eb' : 'transparent',
-                        borderRadius: '4px',
-                        marginBottom: '0.5rem'
-                      }}
-                    >
-                      勤怠情報一覧
-                    </Link>
-                    <Link
-                      to="/admin/requests"
-                      onClick={closeMenu}
-                      style={{
-                        display: 'block',
-                        padding: '0.75rem 1rem',
-                        textDecoration: 'none',
-                        color: location.pathname.startsWith('/admin/requests') ? '#8b5a2b' : '#1f2937',
-                        fontSize: fontSizes.navLink.desktop,
-                        fontWeight: location.pathname.startsWith('/admin/requests') ? 'bold' : 'normal',
-                        backgroundColor: location.pathname.startsWith('/admin/requests') ? '#f9f3eb' : 'transparent',
-                        borderRadius: '4px',
-                        marginBottom: '0.5rem',
-                        position: 'relative'
-                      }}
-                    >
-                      申請一覧
-                      {pendingRequestCount > 0 && (
-                        <span
-                          style={{
-                            position: 'absolute',
-                            top: '0.5rem',
-                            right: '1rem',
-                            backgroundColor: '#dc2626',
-                            color: '#ffffff',
-                            borderRadius: '50%',
-                            width: '1.25rem',
-                            height: '1.25rem',
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            fontSize: fontSizes.badge,
-                            fontWeight: 'bold',
-                            lineHeight: '1'
-                          }}
-                        >
-                          {pendingRequestCount > 9 ? '9+' : pendingRequestCount}
-                        </span>
-                      )}
-                    </Link>
-                    <Link
-                      to="/admin/allowances"
-                      onClick={closeMenu}
-                      style={{
-                        display: 'block',
-                        padding: '0.75rem 1rem',
-                        textDecoration: 'none',
-                        color: location.pathname.startsWith('/admin/allowances') ? '#8b5a2b' : '#1f2937',
-                        fontSize: fontSizes.navLink.desktop,
-                        fontWeight: location.pathname.startsWith('/admin/allowances') ? 'bold' : 'normal',
-                        backgroundColor: location.pathname.startsWith('/admin/allowances') ? '#f9f3eb' : 'transparent',
-                        borderRadius: '4px',
-                        marginBottom: '0.5rem'
-                      }}
-                    >
-                      手当マスタ
-                    </Link>
-                    <Link
-                      to="/admin/deductions"
-                      onClick={closeMenu}
-                      style={{
-                        display: 'block',
-                        padding: '0.75rem 1rem',
-                        textDecoration: 'none',
-                        color: location.pathname.startsWith('/admin/deductions') ? '#8b5a2b' : '#1f2937',
-                        fontSize: fontSizes.navLink.desktop,
-                        fontWeight: location.pathname.startsWith('/admin/deductions') ? 'bold' : 'normal',
-                        backgroundColor: location.pathname.startsWith('/admin/deductions') ? '#f9f3eb' : 'transparent',
-                        borderRadius: '4px',
-                        marginBottom: '0.5rem'
-                      }}
-                    >
-                      控除マスタ
-                    </Link>
+                    {canAccess('/admin/employees') && (
+                      <Link
+                        to="/admin/employees"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/employees') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/employees') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/employees') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        従業員一覧
+                      </Link>
+                    )}
+                    {canAccess('/admin/attendance') && (
+                      <Link
+                        to="/admin/attendance"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/attendance') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/attendance') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/attendance') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        勤怠情報一覧
+                      </Link>
+                    )}
+                    {canAccess('/admin/shifts') && (
+                      <Link
+                        to="/admin/shifts"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/shifts') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/shifts') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/shifts') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        シフト
+                      </Link>
+                    )}
+                    {canAccess('/admin/payroll-run') && (
+                      <Link
+                        to="/admin/payroll-run"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/payroll-run') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/payroll-run') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/payroll-run') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        一括給与計算
+                      </Link>
+                    )}
+                    {canAccess('/admin/bank-transfer') && (
+                      <Link
+                        to="/admin/bank-transfer"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/bank-transfer') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/bank-transfer') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/bank-transfer') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        振込データ
+                      </Link>
+                    )}
+                    {canAccess('/admin/standard-remuneration') && (
+                      <Link
+                        to="/admin/standard-remuneration"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/standard-remuneration') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/standard-remuneration') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/standard-remuneration') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        社会保険
+                      </Link>
+                    )}
+                    {canAccess('/admin/overtime-monitor') && (
+                      <Link
+                        to="/admin/overtime-monitor"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/overtime-monitor') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/overtime-monitor') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/overtime-monitor') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        時間外労働
+                      </Link>
+                    )}
+                    {canAccess('/admin/paid-leave-compliance') && (
+                      <Link
+                        to="/admin/paid-leave-compliance"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/paid-leave-compliance') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/paid-leave-compliance') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/paid-leave-compliance') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        有給取得義務
+                      </Link>
+                    )}
+                    {canAccess('/admin/requests') && (
+                      <Link
+                        to="/admin/requests"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/requests') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/requests') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/requests') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem',
+                          position: 'relative'
+                        }}
+                      >
+                        申請一覧
+                        {pendingRequestCount > 0 && (
+                          <span
+                            style={{
+                              position: 'absolute',
+                              top: '0.5rem',
+                              right: '1rem',
+                              backgroundColor: '#dc2626',
+                              color: '#ffffff',
+                              borderRadius: '50%',
+                              width: '1.25rem',
+                              height: '1.25rem',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              fontSize: fontSizes.badge,
+                              fontWeight: 'bold',
+                              lineHeight: '1'
+                            }}
+                          >
+                            {pendingRequestCount > 9 ? '9+' : pendingRequestCount}
+                          </span>
+                        )}
+                      </Link>
+                    )}
+                    {canAccess('/admin/allowances') && (
+                      <Link
+                        to="/admin/allowances"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/allowances') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/allowances') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/allowances') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        手当マスタ
+                      </Link>
+                    )}
+                    {canAccess('/admin/deductions') && (
+                      <Link
+                        to="/admin/deductions"
+                        onClick={closeMenu}
+                        style={{
+                          display: 'block',
+                          padding: '0.75rem 1rem',
+                          textDecoration: 'none',
+                          color: location.pathname.startsWith('/admin/deductions') ? '#8b5a2b' : '#1f2937',
+                          fontSize: fontSizes.navLink.desktop,
+                          fontWeight: location.pathname.startsWith('/admin/deductions') ? 'bold' : 'normal',
+                          backgroundColor: location.pathname.startsWith('/admin/deductions') ? '#f9f3eb' : 'transparent',
+                          borderRadius: '4px',
+                          marginBottom: '0.5rem'
+                        }}
+                      >
+                        控除マスタ
+                      </Link>
+                    )}
                   </>
                 ) : (
                   <>
@@ -363,6 +489,23 @@ export const Header: React.FC<HeaderProps> = ({ isMobile = false, userRole: prop
                     >
                       休暇申請
                     </Link>
+                    <Link
+                      to="/employee/payslips"
+                      onClick={closeMenu}
+                      style={{
+                        display: 'block',
+                        padding: '0.75rem 1rem',
+                        textDecoration: 'none',
+                        color: location.pathname.startsWith('/employee/payslips') ? '#8b5a2b' : '#1f2937',
+                        fontSize: fontSizes.navLink.desktop,
+                        fontWeight: location.pathname.startsWith('/employee/payslips') ? 'bold' : 'normal',
+                        backgroundColor: location.pathname.startsWith('/employee/payslips') ? '#f9f3eb' : 'transparent',
+                        borderRadius: '4px',
+                        marginBottom: '0.5rem'
+                      }}
+                    >
+                      給与明細
+                    </Link>
                   </>
                 )}
               </div>
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { Link, useLocation } from 'react-router-dom';
 import { fontSizes } from '../config/fontSizes';
+import { useAuth } from '../contexts/AuthContext';
+import { canAccessAdminPath } from '../utils/permission';
 
 /**
  * ナビゲーションコンポーネントのプロパティを表すインターフェース。
@@ -15,9 +17,13 @@ interface NavigationProps {
   pendingRequestCount?: number;
 }
 
+/** マスタメニュー配下の画面パス（いずれかを表示中はマスタメニューを選択状態にする） */
+const MASTER_MENU_PATHS = ['/admin/allowances', '/admin/deductions', '/admin/work-locations', '/admin/payroll-closing', '/admin/company-holidays', '/admin/insurance-rates', '/admin/overtime-agreements', '/admin/leave-types', '/admin/approval-routes', '/admin/departments'];
+
 /**
  * 管理者用ナビゲーションコンポーネント。
- * 管理者向けのメニュー項目（従業員一覧、勤怠情報一覧、申請一覧、マスタ）を表示します。
+ * 管理者向けのメニュー項目（従業員一覧、勤怠情報一覧、シフト、一括給与計算、振込データ、社会保険、時間外労働、有給取得義務、申請一覧、マスタ）を表示します。
+ * 管理者の権限ロールで表示できない画面のメニュー項目は表示しません。
  *
  * @param {Object} props - コンポーネントのプロパティ。
  * @param {boolean} props.isMobile - モバイル表示かどうか。
@@ -30,7 +36,11 @@ const AdminNavigation: React.FC<{ isMobile: boolean; location: ReturnType<typeof
   location,
   pendingRequestCount: _pendingRequestCount = 0
 }) => {
+  const { adminPermissions } = useAuth();
+  const canAccess = (path: string) => canAccessAdminPath(adminPermissions, path);
+  const hasMasterMenu = MASTER_MENU_PATHS.some(canAccess);
   const [showMasterMenu, setShowMasterMenu] = useState(false);
+  const isMasterMenuActive = MASTER_MENU_PATHS.some(path => location.pathname.startsWith(path));
   const masterButtonRef = useRef<HTMLDivElement>(null);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
 
@@ -53,145 +63,313 @@ const AdminNavigation: React.FC<{ isMobile: boolean; location: ReturnType<typeof
           flexWrap: isMobile ? 'nowrap' : 'wrap'
         }}
       >
-        <Link
-          to="/admin/employees"
-          style={{
-            textDecoration: 'none',
-            color: location.pathname.startsWith('/admin/employees') ? '#4b3b2b' : '#6b5b4b',
-            padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
-            fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-            whiteSpace: 'nowrap',
-            display: 'inline-block',
-            borderBottom: location.pathname.startsWith('/admin/employees')
-              ? '2px solid #8b5a2b'
-              : '2px solid transparent',
-            fontWeight: location.pathname.startsWith('/admin/employees') ? 'bold' : 'normal',
-            opacity: location.pathname.startsWith('/admin/employees') ? 1 : 0.85
-          }}
-          onMouseEnter={(e) => {
-            if (!location.pathname.startsWith('/admin/employees')) {
-              e.currentTarget.style.backgroundColor = '#f3f4f6';
-              e.currentTarget.style.transform = 'scale(1.02)';
-            }
-          }}
-          onMouseLeave={(e) => {
-            e.currentTarget.style.backgroundColor = 'transparent';
-            e.currentTarget.style.transform = 'scale(1)';
-          }}
-        >
-          従業員一覧
-        </Link>
-        <Link
-          to="/admin/attendance"
-          style={{
-            textDecoration: 'none',
-            color: location.pathname.startsWith('/admin/attendance') ? '#4b3b2b' : '#6b5b4b',
-            padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
-            fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-            whiteSpace: 'nowrap',
-            display: 'inline-block',
-            borderBottom: location.pathname.startsWith('/admin/attendance')
-              ? '2px solid #8b5a2b'
-              : '2px solid transparent',
-            fontWeight: location.pathname.startsWith('/admin/attendance') ? 'bold' : 'normal',
-            opacity: location.pathname.startsWith('/admin/attendance') ? 1 : 0.85
-          }}
-          onMouseEnter={(e) => {
-            if (!location.pathname.startsWith('/admin/attendance')) {
-              e.currentTarget.style.backgroundColor = '#f3f4f6';
-              e.currentTarget.style.transform = 'scale(1.02)';
-            }
-          }}
-          onMouseLeave={(e) => {
-            e.currentTarget.style.backgroundColor = 'transparent';
-            e.currentTarget.style.transform = 'scale(1)';
-          }}
-        >
-          勤怠情報一覧
-        </Link>
-        <Link
-          to="/admin/requests"
-          style={{
-            textDecoration: 'none',
-            color: location.pathname.startsWith('/admin/requests') ? '#4b3b2b' : '#6b5b4b',
-            padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
-            fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-            whiteSpace: 'nowrap',
-            display: 'inline-block',
-            borderBottom: location.pathname.startsWith('/admin/requests')
-              ? '2px solid #8b5a2b'
-              : '2px solid transparent',
-            fontWeight: location.pathname.startsWith('/admin/requests') ? 'bold' : 'normal',
-            opacity: location.pathname.startsWith('/admin/requests') ? 1 : 0.85,
-            position: 'relative'
-          }}
-          onMouseEnter={(e) => {
-            if (!location.pathname.startsWith('/admin/requests')) {
-              e.currentTarget.style.backgroundColor = '#f3f4f6';
-              e.currentTarget.style.transform = 'scale(1.02)';
-            }
-          }}
-          onMouseLeave={(e) => {
-            e.currentTarget.style.backgroundColor = 'transparent';
-            e.currentTarget.style.transform = 'scale(1)';
-          }}
-        >
-          申請一覧
-        </Link>
-        <div
-          ref={masterButtonRef}
-          style={{
-            position: 'relative',
-            display: 'inline-block'
-          }}
-          onMouseEnter={() => setShowMasterMenu(true)}
-          onMouseLeave={() => {
-            // 少し遅延を入れて、メニューに移動する時間を与える
-            setTimeout(() => {
-              const menuElement = document.querySelector('[data-master-menu]');
-              if (!menuElement || !menuElement.matches(':hover')) {
-                setShowMasterMenu(false);
+        {canAccess('/admin/employees') && (
+          <Link
+            to="/admin/employees"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/employees') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/employees')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/employees') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/employees') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/employees')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
               }
-            }, 100);
-          }}
-        >
-          <div
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            従業員一覧
+          </Link>
+        )}
+        {canAccess('/admin/attendance') && (
+          <Link
+            to="/admin/attendance"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/attendance') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/attendance')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/attendance') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/attendance') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/attendance')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            勤怠情報一覧
+          </Link>
+        )}
+        {canAccess('/admin/shifts') && (
+          <Link
+            to="/admin/shifts"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/shifts') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/shifts')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/shifts') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/shifts') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/shifts')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            シフト
+          </Link>
+        )}
+        {canAccess('/admin/payroll-run') && (
+          <Link
+            to="/admin/payroll-run"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/payroll-run') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/payroll-run')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/payroll-run') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/payroll-run') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/payroll-run')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            一括給与計算
+          </Link>
+        )}
+        {canAccess('/admin/bank-transfer') && (
+          <Link
+            to="/admin/bank-transfer"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/bank-transfer') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/bank-transfer')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/bank-transfer') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/bank-transfer') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/bank-transfer')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            振込データ
+          </Link>
+        )}
+        {canAccess('/admin/standard-remuneration') && (
+          <Link
+            to="/admin/standard-remuneration"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/standard-remuneration') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/standard-remuneration')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/standard-remuneration') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/standard-remuneration') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/standard-remuneration')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            社会保険
+          </Link>
+        )}
+        {canAccess('/admin/overtime-monitor') && (
+          <Link
+            to="/admin/overtime-monitor"
+            style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/overtime-monitor') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/overtime-monitor')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/overtime-monitor') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/overtime-monitor') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/overtime-monitor')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            時間外労働
+          </Link>
+        )}
+        {canAccess('/admin/paid-leave-compliance') && (
+          <Link
+            to="/admin/paid-leave-compliance"
             style={{
+              textDecoration: 'none',
+              color: location.pathname.startsWith('/admin/paid-leave-compliance') ? '#4b3b2b' : '#6b5b4b',
               padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
               fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-              color:
-                location.pathname.startsWith('/admin/allowances') ||
-                location.pathname.startsWith('/admin/deductions') ||
-                location.pathname.startsWith('/admin/work-locations')
-                  ? '#4b3b2b'
-                  : '#6b5b4b',
-              cursor: 'pointer',
               whiteSpace: 'nowrap',
               display: 'inline-block',
-              fontWeight:
-                location.pathname.startsWith('/admin/allowances') ||
-                location.pathname.startsWith('/admin/deductions') ||
-                location.pathname.startsWith('/admin/work-locations')
-                  ? 'bold'
-                  : 'normal',
+              borderBottom: location.pathname.startsWith('/admin/paid-leave-compliance')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/paid-leave-compliance') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/paid-leave-compliance') ? 1 : 0.85
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/paid-leave-compliance')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
+            }}
+          >
+            有給取得義務
+          </Link>
+        )}
+        {canAccess('/admin/requests') && (
+          <Link
+            to="/admin/requests"
+            style={{
               textDecoration: 'none',
-              borderBottom:
-                location.pathname.startsWith('/admin/allowances') ||
-                location.pathname.startsWith('/admin/deductions') ||
-                location.pathname.startsWith('/admin/work-locations')
-                  ? '2px solid #8b5a2b'
-                  : '2px solid transparent',
-              opacity:
-                location.pathname.startsWith('/admin/allowances') ||
-                location.pathname.startsWith('/admin/deductions') ||
-                location.pathname.startsWith('/admin/work-locations')
-                  ? 1
-                  : 0.85
+              color: location.pathname.startsWith('/admin/requests') ? '#4b3b2b' : '#6b5b4b',
+              padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+              fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+              whiteSpace: 'nowrap',
+              display: 'inline-block',
+              borderBottom: location.pathname.startsWith('/admin/requests')
+                ? '2px solid #8b5a2b'
+                : '2px solid transparent',
+              fontWeight: location.pathname.startsWith('/admin/requests') ? 'bold' : 'normal',
+              opacity: location.pathname.startsWith('/admin/requests') ? 1 : 0.85,
+              position: 'relative'
+            }}
+            onMouseEnter={(e) => {
+              if (!location.pathname.startsWith('/admin/requests')) {
+                e.currentTarget.style.backgroundColor = '#f3f4f6';
+                e.currentTarget.style.transform = 'scale(1.02)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent';
+              e.currentTarget.style.transform = 'scale(1)';
             }}
           >
-            マスタ
+            申請一覧
+          </Link>
+        )}
+        {hasMasterMenu && (
+          <div
+            ref={masterButtonRef}
+            style={{
+              position: 'relative',
+              display: 'inline-block'
+            }}
+            onMouseEnter={() => setShowMasterMenu(true)}
+            onMouseLeave={() => {
+              // 少し遅延を入れて、メニューに移動する時間を与える
+              setTimeout(() => {
+                const menuElement = document.querySelector('[data-master-menu]');
+                if (!menuElement || !menuElement.matches(':hover')) {
+                  setShowMasterMenu(false);
+                }
+              }, 100);
+            }}
+          >
+            <div
+              style={{
+                padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+                fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                color: isMasterMenuActive ? '#4b3b2b' : '#6b5b4b',
+                cursor: 'pointer',
+                whiteSpace: 'nowrap',
+                display: 'inline-block',
+                fontWeight: isMasterMenuActive ? 'bold' : 'normal',
+                textDecoration: 'none',
+                borderBottom: isMasterMenuActive ? '2px solid #8b5a2b' : '2px solid transparent',
+                opacity: isMasterMenuActive ? 1 : 0.85
+              }}
+            >
+              マスタ
+            </div>
           </div>
-        </div>
+        )}
       </div>
       {showMasterMenu &&
         createPortal(
@@ -221,62 +399,215 @@ const AdminNavigation: React.FC<{ isMobile: boolean; location: ReturnType<typeof
               }, 100);
             }}
           >
-            <Link
-              to="/admin/allowances"
-              style={{
-                textDecoration: 'none',
-                color: '#8b5a2b',
-                padding: '0.75rem 1rem',
-                fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-                display: 'block',
-                borderBottom: '1px solid #e5e7eb'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = '#f9fafb';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              手当マスタ
-            </Link>
-            <Link
-              to="/admin/deductions"
-              style={{
-                textDecoration: 'none',
-                color: '#8b5a2b',
-                padding: '0.75rem 1rem',
-                fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-                display: 'block',
-                borderBottom: '1px solid #e5e7eb'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = '#f9fafb';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              控除マスタ
-            </Link>
-            <Link
-              to="/admin/work-locations"
-              style={{
-                textDecoration: 'none',
-                color: '#8b5a2b',
-                padding: '0.75rem 1rem',
-                fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
-                display: 'block'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = '#f9fafb';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              勤務拠点マスタ
-            </Link>
+            {canAccess('/admin/allowances') && (
+              <Link
+                to="/admin/allowances"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                手当マスタ
+              </Link>
+            )}
+            {canAccess('/admin/deductions') && (
+              <Link
+                to="/admin/deductions"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                控除マスタ
+              </Link>
+            )}
+            {canAccess('/admin/work-locations') && (
+              <Link
+                to="/admin/work-locations"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                勤務拠点マスタ
+              </Link>
+            )}
+            {canAccess('/admin/payroll-closing') && (
+              <Link
+                to="/admin/payroll-closing"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                締め日設定
+              </Link>
+            )}
+            {canAccess('/admin/company-holidays') && (
+              <Link
+                to="/admin/company-holidays"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                休日カレンダー
+              </Link>
+            )}
+            {canAccess('/admin/insurance-rates') && (
+              <Link
+                to="/admin/insurance-rates"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                保険料率マスタ
+              </Link>
+            )}
+            {canAccess('/admin/overtime-agreements') && (
+              <Link
+                to="/admin/overtime-agreements"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                36協定マスタ
+              </Link>
+            )}
+            {canAccess('/admin/leave-types') && (
+              <Link
+                to="/admin/leave-types"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                休暇種別マスタ
+              </Link>
+            )}
+            {canAccess('/admin/approval-routes') && (
+              <Link
+                to="/admin/approval-routes"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block',
+                  borderBottom: '1px solid #e5e7eb'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                承認ルートマスタ
+              </Link>
+            )}
+            {canAccess('/admin/departments') && (
+              <Link
+                to="/admin/departments"
+                style={{
+                  textDecoration: 'none',
+                  color: '#8b5a2b',
+                  padding: '0.75rem 1rem',
+                  fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+                  display: 'block'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f9fafb';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'transparent';
+                }}
+              >
+                部署マスタ
+              </Link>
+            )}
           </div>,
           document.body
         )}
@@ -361,6 +692,34 @@ const EmployeeNavigation: React.FC<{ isMobile: boolean; location: ReturnType<typ
       >
         休暇申請
       </Link>
+      <Link
+        to="/employee/payslips"
+        style={{
+          textDecoration: 'none',
+          color: location.pathname.startsWith('/employee/payslips') ? '#4b3b2b' : '#6b5b4b',
+          padding: isMobile ? '0.5rem 0.25rem' : '0.5rem 0.5rem',
+          fontSize: isMobile ? fontSizes.navLink.mobile : fontSizes.navLink.desktop,
+          whiteSpace: 'nowrap',
+          display: 'inline-block',
+          borderBottom: location.pathname.startsWith('/employee/payslips')
+            ? '2px solid #8b5a2b'
+            : '2px solid transparent',
+          fontWeight: location.pathname.startsWith('/employee/payslips') ? 'bold' : 'normal',
+          opacity: location.pathname.startsWith('/employee/payslips') ? 1 : 0.85
+        }}
+        onMouseEnter={(e) => {
+          if (!location.pathname.startsWith('/employee/payslips')) {
+            e.currentTarget.style.backgroundColor = '#f3f4f6';
+            e.currentTarget.style.transform = 'scale(1.02)';
+          }
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'transparent';
+          e.currentTarget.style.transform = 'scale(1)';
+        }}
+      >
+        給与明細
+      </Link>
     </div>
   );
 };
@@ -0,0 +1,166 @@
+/**
+ * 給与明細書・賞与明細書の表示コンポーネント。
+ * 管理者の給与明細画面と従業員の給与明細画面で同じレイアウトを使います（PDF出力は payslipPdf で同じ項目を描画します）。
+ */
+
+import React, { forwardRef } from 'react';
+import { fontSizes } from '../config/fontSizes';
+import { formatCurrency, formatMinutesToHHHMM } from '../utils/formatters';
+import type { PayslipLine, PayslipViewData } from '../utils/payslip';
+
+/**
+ * 明細書の表示コンポーネントのプロパティを表すインターフェース。
+ */
+interface PayslipViewProps {
+  /** 明細書に表示する内容。 */
+  data: PayslipViewData;
+  /** モバイル表示かどうか。デフォルトはfalse。 */
+  isMobile?: boolean;
+  /** 支給・控除と差引支給額の間に表示する要素（時間外・深夜手当の内訳など）。 */
+  children?: React.ReactNode;
+}
+
+const sectionStyle: React.CSSProperties = { border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' };
+const sectionHeaderStyle: React.CSSProperties = { backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' };
+const totalRowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', marginTop: '0.5rem', borderTop: '2px solid #1f2937' };
+const totalTextStyle: React.CSSProperties = { fontWeight: 'bold', fontSize: '1.125rem' };
+
+/**
+ * 明細書の表示コンポーネント。
+ * ref は明細書全体の要素を指します。
+ *
+ * @param {PayslipViewProps} props - 明細書の表示コンポーネントのプロパティ。
+ * @returns {JSX.Element} 明細書の表示コンポーネント。
+ */
+export const PayslipView = forwardRef<HTMLDivElement, PayslipViewProps>(({ data, isMobile = false, children }, ref) => {
+  const isBonus = data.attendance === null;
+  const rowPadding = isBonus ? '0.75rem 0' : '0.5rem 0';
+
+  const renderLines = (lines: PayslipLine[], boldLabel: boolean) =>
+    lines
+      .filter(line => line.alwaysShow || line.amount !== 0)
+      .map(line => (
+        <div key={line.label} style={{ display: 'flex', justifyContent: 'space-between', padding: rowPadding, borderBottom: '1px solid #e5e7eb' }}>
+          <div style={boldLabel ? { fontWeight: 'bold' } : undefined}>{line.label}</div>
+          <div style={{ fontWeight: 'bold' }}>{formatCurrency(line.amount)}</div>
+        </div>
+      ));
+
+  const attendanceItem = (label: string, value: React.ReactNode) => (
+    <div>
+      <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>{label}</div>
+      <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{value}</div>
+    </div>
+  );
+
+  const earningsSection = (
+    <div style={isBonus ? { ...sectionStyle, marginBottom: '2rem' } : { ...sectionStyle, flex: 1 }}>
+      <div style={sectionHeaderStyle}>支給</div>
+      <div style={{ padding: '1rem' }}>
+        {renderLines(data.earnings, isBonus)}
+        <div style={totalRowStyle}>
+          <div style={totalTextStyle}>総支給額</div>
+          <div style={totalTextStyle}>{formatCurrency(data.totalEarnings)}</div>
+        </div>
+      </div>
+    </div>
+  );
+
+  const deductionsSection = (
+    <div style={isBonus ? { ...sectionStyle, marginBottom: '2rem' } : { ...sectionStyle, flex: 1 }}>
+      <div style={sectionHeaderStyle}>控除</div>
+      <div style={{ padding: '1rem' }}>
+        {renderLines(data.deductions, false)}
+        <div style={totalRowStyle}>
+          <div style={totalTextStyle}>控除合計</div>
+          <div style={totalTextStyle}>{formatCurrency(data.totalDeductions)}</div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div ref={ref} style={{
+      backgroundColor: 'white',
+      padding: '2rem',
+      borderRadius: '8px',
+      fontFamily: 'sans-serif',
+      color: '#1f2937'
+    }}>
+      <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
+        <h1 style={{ fontSize: '2rem', fontWeight: 'bold', margin: 0 }}>
+          {data.title}
+        </h1>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '2rem' }}>
+        <div>
+          <div style={{ fontSize: '1.125rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>
+            {data.companyName}
+          </div>
+          <div style={{ fontSize: fontSizes.large }}>
+            氏名 {data.employeeName}様
+          </div>
+        </div>
+        <div style={{ textAlign: isMobile ? 'left' : 'right' }}>
+          <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>
+            {data.period}
+          </div>
+          {!isBonus && data.periodRange && (
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              給与計算期間: {data.periodRange}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {data.attendance ? (
+        <>
+          {/* 勤務セクション */}
+          <div style={{ ...sectionStyle, marginBottom: '2rem' }}>
+            <div style={sectionHeaderStyle}>勤務</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '1rem', padding: '1rem', marginBottom: '1rem' }}>
+              {attendanceItem('出勤日数', data.attendance.workingDays)}
+              {attendanceItem('休日出勤', data.attendance.holidayWork)}
+              {attendanceItem('有給休暇', data.attendance.paidLeave)}
+              {attendanceItem('有給残日数', data.attendance.paidLeaveRemaining)}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', padding: '0 1rem 1rem 1rem' }}>
+              {attendanceItem('稼働時間', formatMinutesToHHHMM(data.attendance.totalWorkMinutes))}
+              {attendanceItem('普通残業時間', formatMinutesToHHHMM(data.attendance.normalOvertime))}
+              {attendanceItem('深夜残業時間', formatMinutesToHHHMM(data.attendance.lateNightOvertime))}
+            </div>
+          </div>
+
+          {/* 支給・控除セクション（横並び） */}
+          <div style={{ display: 'flex', gap: '1rem', marginBottom: '2rem', flexDirection: isMobile ? 'column' : 'row' }}>
+            {earningsSection}
+            {deductionsSection}
+          </div>
+        </>
+      ) : (
+        <>
+          {earningsSection}
+          {deductionsSection}
+        </>
+      )}
+
+      {children}
+
+      {/* 差引支給額 */}
+      <div style={{
+        padding: '1.5rem',
+        backgroundColor: '#d1fae5',
+        borderRadius: '4px',
+        textAlign: 'center'
+      }}>
+        <div style={{ fontSize: fontSizes.medium, color: '#065f46', marginBottom: '0.5rem' }}>差引支給額</div>
+        <div style={{ fontSize: '2rem', fontWeight: 'bold', color: '#065f46' }}>
+          {formatCurrency(data.netPay)}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+PayslipView.displayName = 'PayslipView';
@@ -1,6 +1,7 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { log } from '../utils/logger';
+import { getAdminHomePath, type AdminPermission } from '../utils/permission';
 
 /**
  * 保護されたルートコンポーネントのプロパティを表すインターフェース。
@@ -10,17 +11,20 @@ interface ProtectedRouteProps {
   children: React.ReactNode;
   /** 必要なユーザーロール。指定しない場合は認証済みであればアクセス可能。 */
   requiredRole?: 'admin' | 'employee';
+  /** 必要な管理者画面の権限。権限が無い場合は表示できる最初の管理者画面に移動する。 */
+  requiredPermission?: AdminPermission;
 }
 
 /**
  * 保護されたルートコンポーネント。
  * 認証状態とユーザーロールをチェックし、条件を満たさない場合はログインページにリダイレクトします。
+ * 管理者画面の権限が足りない場合は、権限のある管理者画面にリダイレクトします。
  *
  * @param {ProtectedRouteProps} props - 保護されたルートのプロパティ。
  * @returns {JSX.Element | null} 認証済みの場合は子要素、未認証の場合はリダイレクト、読み込み中はnullを返します。
  */
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
-  const { isAuthenticated, userRole, isLoading } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole, requiredPermission }) => {
+  const { isAuthenticated, userRole, isLoading, adminPermissions } = useAuth();
   const location = useLocation();
 
   // 認証状態の復元中は何も表示しない（リダイレクトしない）
@@ -57,6 +61,14 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requir
     // 従業員が従業員画面にアクセスする場合は、そのまま許可
   }
 
+  // 権限チェック（管理者の権限ロールごとの権限マトリクス）
+  // 注意: フロントエンドでの出し分けのみ。APIでも同じ権限で拒否される
+  if (requiredPermission && !adminPermissions.has(requiredPermission)) {
+    const homePath = getAdminHomePath(adminPermissions);
+    log('ProtectedRoute: Permission denied. requiredPermission:', requiredPermission, 'redirect:', homePath);
+    return <Navigate to={homePath ?? '/login'} replace />;
+  }
+
   log('ProtectedRoute: Access granted. userRole:', userRole, 'requiredRole:', requiredRole, 'path:', location.pathname);
   return <>{children}</>;
 };
@@ -0,0 +1,34 @@
+/**
+ * 源泉徴収税額表の読み込み。
+ *
+ * 税額表は適用開始日ごとに withholdingTaxTables/ 配下の JSON で管理する。
+ * 税制改正で税額表が改訂された場合は、新しい適用開始日の JSON を追加してこの一覧に登録する
+ * （支給日時点で有効な表が {@link getWithholdingTaxTable} で選ばれるため、計算処理の変更は不要）。
+ *
+ * - monthly.kou: 国税庁告示「電算機計算の特例」の控除額・税率。
+ *   令和8年分以降は、令和7年度改正後の給与所得控除（最低保障額65万円）・基礎控除（58万円、合計所得金額2,350万円以下）を
+ *   令和2年分以降の特例と同じ方法で月額に換算した値（基礎控除の特例による上乗せは年末調整で精算するため含めない）。
+ * - monthly.otsu / bonus.rates: 国税庁公表の月額表 乙欄・賞与に対する源泉徴収税額の算出率の表を転記する。
+ *   未登録の行・欄（令和2年分の月額表 乙欄の88,000円以上・賞与の算出率の表の甲欄、令和8年分の月額表 乙欄・賞与の算出率の表）は
+ *   該当する計算ができないため、画面では手入力となる（前月の給与が無い・10倍を超える賞与は月額表 甲欄で計算できる）。
+ * - 令和2年分以降の表は令和7年12月31日支払分まで、令和8年1月1日支払分から令和8年分以降の表を使う。
+ */
+
+import { resolveWithholdingTaxTable, type WithholdingTaxTable } from '../utils/withholdingTax';
+import table2020 from './withholdingTaxTables/2020.json';
+import table2026 from './withholdingTaxTables/2026.json';
+
+/** 登録済みの源泉徴収税額表 */
+export const WITHHOLDING_TAX_TABLES: WithholdingTaxTable[] = [
+  table2020 as WithholdingTaxTable,
+  table2026 as WithholdingTaxTable
+];
+
+/**
+ * 支給日時点で有効な源泉徴収税額表を取得する。
+ *
+ * @param {string} paymentDate - 支給日（YYYY-MM-DD）。
+ * @returns {WithholdingTaxTable | null} 税額表。適用できる表が無い場合は null。
+ */
+export const getWithholdingTaxTable = (paymentDate: string): WithholdingTaxTable | null =>
+  resolveWithholdingTaxTable(WITHHOLDING_TAX_TABLES, paymentDate);
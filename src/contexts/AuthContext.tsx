@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
 import { signIn, signOut, getCurrentUser, fetchAuthSession, signInWithRedirect, fetchUserAttributes, resetPassword, confirmResetPassword, signUp, confirmSignUp } from 'aws-amplify/auth';
 import { Hub } from 'aws-amplify/utils';
 import { Amplify } from 'aws-amplify';
@@ -9,6 +9,7 @@ import { translateApiError } from '../utils/apiErrorTranslator';
 import { Snackbar } from '../components/Snackbar';
 import { ProgressBar } from '../components/ProgressBar';
 import { saveLoginUserType, saveGoogleLoginInProgress, getLoginUserType, getGoogleLoginInProgress } from '../utils/storageHelper';
+import { getAdminPermissions, type AdminRole, type AdminPermission } from '../utils/permission';
 
 /**
  * ユーザーのロールを表す型。
@@ -27,6 +28,12 @@ interface AuthContextType {
   userId: string | null;
   /** ユーザー名（従業員名）。 */
   userName: string | null;
+  /** 管理者の権限ロール。未設定（従来の管理者）は null。 */
+  adminRole: AdminRole | null;
+  /** 管理者の権限（従業員は空）。 */
+  adminPermissions: Set<AdminPermission>;
+  /** 管理者画面の権限を持っているかを判定する関数。 */
+  hasPermission: (permission: AdminPermission) => boolean;
   /** 認証状態の復元中かどうか。 */
   isLoading: boolean;
   /** ログイン処理を行う関数（メール/パスワード）。 */
@@ -60,6 +67,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [userRole, setUserRole] = useState<UserRole>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [userName, setUserName] = useState<string | null>(null); // ユーザー名（従業員名）
+  const [adminRole, setAdminRole] = useState<AdminRole | null>(null); // 管理者の権限ロール
   const [isLoading, setIsLoading] = useState<boolean>(true); // 初期状態は読み込み中
   const [isAmplifyConfigured, setIsAmplifyConfigured] = useState<boolean>(false); // Amplifyが設定されているかどうか
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
@@ -84,6 +92,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setUserRole(null);
         setUserId(null);
         setUserName(null);
+        setAdminRole(null);
       }
     }
   }, []); // マウント時のみ実行
@@ -113,12 +122,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         employeeId: authInfo.employeeId,
         requestedBy: displayName, // 姓・名の順序で結合した表示名
         role: authInfo.role,
+        adminRole: authInfo.adminRole ?? null,
         email: authInfo.email
       };
       localStorage.setItem('userInfo', JSON.stringify(userInfo));
       
-      // ユーザー名を設定
+      // ユーザー名と権限ロールを設定
       setUserName(displayName);
+      setAdminRole(authInfo.adminRole ?? null);
       
       return authInfo.role as UserRole;
     } catch (err) {
@@ -240,6 +251,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setUserRole(null);
         setUserId(null);
         setUserName(null);
+        setAdminRole(null);
         setIsLoading(false);
         return;
       }
@@ -278,6 +290,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUserRole(null);
           setUserId(null);
           setUserName(null);
+          setAdminRole(null);
           setIsLoading(false);
           return;
         }
@@ -334,6 +347,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUserRole(null);
           setUserId(null);
           setUserName(null);
+          setAdminRole(null);
           localStorage.removeItem('auth');
           localStorage.removeItem('userInfo');
           setIsLoading(false);
@@ -575,6 +589,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             setUserRole(null);
             setUserId(null);
             setUserName(null);
+            setAdminRole(null);
             localStorage.removeItem('auth');
             localStorage.removeItem('userInfo');
             setIsLoading(false);
@@ -644,6 +659,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUserRole(null);
           setUserId(null);
           setUserName(null);
+          setAdminRole(null);
           localStorage.removeItem('auth');
           localStorage.removeItem('userInfo');
           // Googleログイン中の場合は、googleLoginInProgressフラグを削除（エラー時は処理を中断）
@@ -865,6 +881,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUserRole(null);
           setUserId(null);
           setUserName(null);
+          setAdminRole(null);
           localStorage.removeItem('auth');
           localStorage.removeItem('userInfo');
           break;
@@ -887,6 +904,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 employeeId: authInfo.employeeId,
                 requestedBy: displayName, // 姓・名の順序で結合した表示名
                 role: authInfo.role,
+                adminRole: authInfo.adminRole ?? null,
                 email: authInfo.email
               };
               localStorage.setItem('userInfo', JSON.stringify(userInfo));
@@ -895,6 +913,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               setIsAuthenticated(true);
               setUserRole(authInfo.role as UserRole);
               setUserName(displayName);
+              setAdminRole(authInfo.adminRole ?? null);
               
               // ローカルストレージのauthも更新
               const authData = localStorage.getItem('auth');
@@ -1050,6 +1069,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUserRole(null);
           setUserId(null);
           setUserName(null);
+          setAdminRole(null);
           localStorage.removeItem('auth');
           localStorage.removeItem('userInfo');
           
@@ -1308,12 +1328,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // 管理者の権限（権限ロールから権限マトリクスで求める）
+  const adminPermissions = useMemo(
+    () => (userRole === 'admin' ? getAdminPermissions(adminRole) : new Set<AdminPermission>()),
+    [userRole, adminRole]
+  );
+  const hasPermission = useCallback((permission: AdminPermission) => adminPermissions.has(permission), [adminPermissions]);
+
   return (
     <AuthContext.Provider value={{ 
       isAuthenticated, 
       userRole, 
       userId,
       userName,
+      adminRole,
+      adminPermissions,
+      hasPermission,
       isLoading, 
       login, 
       signInWithGoogle, 
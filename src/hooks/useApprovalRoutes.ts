@@ -0,0 +1,49 @@
+/**
+ * 承認ルート取得カスタムフック
+ * 申請一覧画面で、申請ごとの承認ステップと承認者を判定するために承認ルートを読み込みます。
+ */
+
+import { useEffect, useState } from 'react';
+import { getApprovalRoutes, type ApprovalRoute } from '../utils/approvalRouteApi';
+import { error as logError } from '../utils/logger';
+
+/** フックの戻り値 */
+export interface UseApprovalRoutesReturn {
+  /** 承認ルート（無効なものを含む）。取得失敗時は空配列（＝管理者の誰でも1回で承認）。 */
+  routes: ApprovalRoute[];
+  /** 取得が完了したかどうか（失敗時も true）。 */
+  isLoaded: boolean;
+}
+
+/**
+ * 承認ルートを取得するカスタムフック。
+ * 取得に失敗しても画面は表示できるよう、空配列にフォールバックします。
+ *
+ * @returns {UseApprovalRoutesReturn} 承認ルートと取得完了フラグ。
+ * @example
+ * ```tsx
+ * const { routes } = useApprovalRoutes();
+ * const route = findApprovalRoute(routes, { requestType: 'leave', days: 5 });
+ * ```
+ */
+export const useApprovalRoutes = (): UseApprovalRoutesReturn => {
+  const [routes, setRoutes] = useState<ApprovalRoute[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getApprovalRoutes();
+        if (!cancelled) setRoutes(response);
+      } catch (error) {
+        logError('Failed to fetch approval routes:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { routes, isLoaded };
+};
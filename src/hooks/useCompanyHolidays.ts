@@ -0,0 +1,49 @@
+/**
+ * 会社休日取得カスタムフック
+ * 所定労働日数や休日出勤を判定する画面（出勤簿・給与明細）で会社休日（年末年始・お盆 等）を読み込みます。
+ */
+
+import { useEffect, useState } from 'react';
+import { getCompanyHolidays, type CompanyHoliday } from '../utils/companyHolidayApi';
+import { error as logError } from '../utils/logger';
+
+/** フックの戻り値 */
+export interface UseCompanyHolidaysReturn {
+  /** 会社休日。取得失敗時は空配列（＝土日・祝日のみで判定）。 */
+  companyHolidays: CompanyHoliday[];
+  /** 取得が完了したかどうか（失敗時も true）。 */
+  isLoaded: boolean;
+}
+
+/**
+ * 会社休日を取得するカスタムフック。
+ * 取得に失敗しても画面は表示できるよう、空配列にフォールバックします。
+ *
+ * @returns {UseCompanyHolidaysReturn} 会社休日と取得完了フラグ。
+ * @example
+ * ```tsx
+ * const { companyHolidays } = useCompanyHolidays();
+ * const holiday = isNonWorkingDay('2025-12-30', companyHolidays);
+ * ```
+ */
+export const useCompanyHolidays = (): UseCompanyHolidaysReturn => {
+  const [companyHolidays, setCompanyHolidays] = useState<CompanyHoliday[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getCompanyHolidays();
+        if (!cancelled) setCompanyHolidays(response.holidays);
+      } catch (error) {
+        logError('Failed to fetch company holidays:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { companyHolidays, isLoaded };
+};
@@ -0,0 +1,49 @@
+/**
+ * 部署取得カスタムフック
+ * 従業員・勤怠・申請・振込の一覧画面で、部署での絞り込みと小計のために部署マスタを読み込みます。
+ */
+
+import { useEffect, useState } from 'react';
+import { getDepartments, type Department } from '../utils/departmentApi';
+import { error as logError } from '../utils/logger';
+
+/** フックの戻り値 */
+export interface UseDepartmentsReturn {
+  /** 部署（無効なものを含む）。取得失敗時は空配列（＝部署での絞り込みなし）。 */
+  departments: Department[];
+  /** 取得が完了したかどうか（失敗時も true）。 */
+  isLoaded: boolean;
+}
+
+/**
+ * 部署を取得するカスタムフック。
+ * 取得に失敗しても一覧は表示できるよう、空配列にフォールバックします。
+ *
+ * @returns {UseDepartmentsReturn} 部署と取得完了フラグ。
+ * @example
+ * ```tsx
+ * const { departments } = useDepartments();
+ * const inDepartment = createDepartmentFilter(departments, filterDepartmentId);
+ * ```
+ */
+export const useDepartments = (): UseDepartmentsReturn => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getDepartments();
+        if (!cancelled) setDepartments(response);
+      } catch (error) {
+        logError('Failed to fetch departments:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { departments, isLoaded };
+};
@@ -0,0 +1,41 @@
+/**
+ * 無操作リセットカスタムフック
+ * 共用端末で、操作が無いまま一定時間が過ぎたら入力途中の内容を消して最初の画面に戻すためのロジックを提供します。
+ */
+
+import { useEffect, useRef } from 'react';
+
+/** 操作とみなすイベント */
+const ACTIVITY_EVENTS: Array<keyof WindowEventMap> = ['pointerdown', 'keydown', 'touchstart', 'wheel'];
+
+/**
+ * 操作が無いまま一定時間が過ぎたら処理を呼ぶカスタムフック。
+ * タッチ・クリック・キー入力のたびに待ち時間をやり直します。
+ *
+ * @param {boolean} enabled - 待つかどうか（最初の画面など、戻す必要が無い間は false）。
+ * @param {number} timeoutMs - 操作が無い状態を待つ時間（ミリ秒）。
+ * @param {() => void} onTimeout - 時間が過ぎた時に呼ぶ処理。
+ * @example
+ * ```tsx
+ * useInactivityReset(step !== 'idle', KIOSK_INACTIVITY_TIMEOUT_MS, () => resetToIdle());
+ * ```
+ */
+export const useInactivityReset = (enabled: boolean, timeoutMs: number, onTimeout: () => void): void => {
+  // 時間が過ぎた時の処理は最新のものを呼ぶ（イベントの登録し直しを避ける）
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timer = window.setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    const handleActivity = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [enabled, timeoutMs]);
+};
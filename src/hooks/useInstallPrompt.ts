@@ -0,0 +1,81 @@
+/**
+ * ホーム画面への追加カスタムフック
+ * 勤怠画面をホーム画面に追加する案内（ブラウザのインストールの案内・iOSの共有メニューの手順）を提供します。
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  dismissInstallGuide,
+  getPwaInstallMethod,
+  hasInstallPrompt,
+  isInstallGuideDismissed,
+  isIosDevice,
+  isStandaloneDisplay,
+  showInstallPrompt,
+  subscribeInstallPrompt,
+  type PwaInstallMethod
+} from '../utils/pwa';
+
+/** フックの戻り値 */
+export interface UseInstallPromptReturn {
+  /** ホーム画面への追加の方法 */
+  installMethod: PwaInstallMethod;
+  /** 案内を表示するかどうか（追加できる端末で、案内を閉じていない場合） */
+  shouldShowGuide: boolean;
+  /** ブラウザのインストールの案内を表示する（追加した場合は true） */
+  install: () => Promise<boolean>;
+  /** 案内を閉じる（次回以降は表示しない） */
+  dismiss: () => void;
+}
+
+/**
+ * ホーム画面への追加の案内を行うカスタムフック。
+ * ブラウザのインストールの案内は起動直後に届くため、setupPwa で保持したものを表示します。
+ *
+ * @returns {UseInstallPromptReturn} ホーム画面への追加の方法と案内の表示・閉じる関数。
+ * @example
+ * ```tsx
+ * const { installMethod, shouldShowGuide, install, dismiss } = useInstallPrompt();
+ *
+ * if (shouldShowGuide && installMethod === 'prompt') {
+ *   return <Button onClick={install}>ホーム画面に追加</Button>;
+ * }
+ * ```
+ */
+export const useInstallPrompt = (): UseInstallPromptReturn => {
+  const [hasPrompt, setHasPrompt] = useState<boolean>(hasInstallPrompt);
+  const [isStandalone, setIsStandalone] = useState<boolean>(isStandaloneDisplay);
+  const [isDismissed, setIsDismissed] = useState<boolean>(isInstallGuideDismissed);
+
+  useEffect(() => subscribeInstallPrompt(() => {
+    setHasPrompt(hasInstallPrompt());
+    setIsStandalone(isStandaloneDisplay());
+  }), []);
+
+  const installMethod = getPwaInstallMethod({
+    isStandalone,
+    hasPrompt,
+    isIos: isIosDevice(navigator.userAgent, navigator.maxTouchPoints ?? 0)
+  });
+
+  const install = useCallback(async () => {
+    const accepted = await showInstallPrompt();
+    if (accepted) {
+      dismissInstallGuide();
+      setIsDismissed(true);
+    }
+    return accepted;
+  }, []);
+
+  const dismiss = useCallback(() => {
+    dismissInstallGuide();
+    setIsDismissed(true);
+  }, []);
+
+  return {
+    installMethod,
+    shouldShowGuide: !isDismissed && (installMethod === 'prompt' || installMethod === 'ios'),
+    install,
+    dismiss
+  };
+};
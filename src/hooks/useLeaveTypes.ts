@@ -0,0 +1,74 @@
+/**
+ * 休暇種別取得カスタムフック
+ * 休暇申請・申請一覧の画面で、組み込みの休暇種別と休暇種別マスタの種別（代休・振替休日など）を読み込みます。
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { getLeaveTypes } from '../config/masterData';
+import { getLeaveTypeMasters, type LeaveTypeMaster } from '../utils/leaveTypeApi';
+import { getLeaveTypeCodeFromLabel, registerLeaveTypeLabels } from '../utils/codeTranslator';
+import type { LeaveTypeSetting } from '../utils/leaveBalance';
+import { error as logError } from '../utils/logger';
+
+/** 休暇種別の選択肢 */
+export interface LeaveTypeOption {
+  /** APIの休暇種別コード */
+  code: string;
+  /** 表示名（画面のフォームはこの値を保持する） */
+  label: string;
+  /** 休暇種別マスタの設定。組み込みの種別は null */
+  setting: LeaveTypeSetting | null;
+}
+
+/** フックの戻り値 */
+export interface UseLeaveTypesReturn {
+  /** 申請で選択できる休暇種別（組み込み → 休暇種別マスタの有効な種別の順） */
+  options: LeaveTypeOption[];
+  /** 休暇種別マスタ（無効な種別を含む）。取得失敗時は空配列（＝組み込みの種別のみ）。 */
+  leaveTypeMasters: LeaveTypeMaster[];
+  /** 取得が完了したかどうか（失敗時も true） */
+  isLoaded: boolean;
+}
+
+/**
+ * 休暇種別を取得するカスタムフック。
+ * 取得した種別は getLeaveTypeLabel / getLeaveTypeCodeFromLabel で変換できるよう登録します。
+ * 取得に失敗しても申請できるよう、組み込みの種別のみにフォールバックします。
+ *
+ * @returns {UseLeaveTypesReturn} 休暇種別の選択肢とマスタ。
+ * @example
+ * ```tsx
+ * const { options, leaveTypeMasters } = useLeaveTypes();
+ * const setting = leaveTypeMasters.find(t => t.code === request.leaveType) ?? null;
+ * ```
+ */
+export const useLeaveTypes = (): UseLeaveTypesReturn => {
+  const [leaveTypeMasters, setLeaveTypeMasters] = useState<LeaveTypeMaster[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getLeaveTypeMasters();
+        // 無効な種別も過去の申請の表示に使うため登録する
+        registerLeaveTypeLabels(response);
+        if (!cancelled) setLeaveTypeMasters(response);
+      } catch (error) {
+        logError('Failed to fetch leave types:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const options = useMemo<LeaveTypeOption[]>(() => [
+    ...getLeaveTypes().map(type => ({ code: getLeaveTypeCodeFromLabel(type.label), label: type.label, setting: null })),
+    ...leaveTypeMasters
+      .filter(type => type.isActive)
+      .map(type => ({ code: type.code, label: type.name, setting: type }))
+  ], [leaveTypeMasters]);
+
+  return { options, leaveTypeMasters, isLoaded };
+};
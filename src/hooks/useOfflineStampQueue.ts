@@ -0,0 +1,136 @@
+/**
+ * オフライン打刻カスタムフック
+ * 通信できない場所での打刻を端末に保存し、通信が回復したら自動で送信します。
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  clearFinishedOfflineStamps,
+  enqueueOfflineStamp,
+  loadOfflineStamps,
+  syncOfflineStamps,
+  type OfflineStamp,
+  type OfflineStampSyncResult,
+  type OfflineStampType
+} from '../utils/offlineStampQueue';
+import type { StampLocation } from '../utils/attendanceApi';
+import { error as logError } from '../utils/logger';
+
+/** オンラインでも送信できなかった打刻（電波が弱い等）を再送する間隔（ミリ秒） */
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/** フックの戻り値 */
+export interface UseOfflineStampQueueReturn {
+  /** 端末に保存した打刻（打刻した順。送信済み・却下を含む） */
+  stamps: OfflineStamp[];
+  /** 送信待ちの打刻があるかどうか */
+  hasPendingStamps: boolean;
+  /** 端末がオンラインかどうか */
+  isOnline: boolean;
+  /** 送信中かどうか */
+  isSyncing: boolean;
+  /** 打刻を端末に保存し、オンラインなら送信する */
+  enqueue: (type: OfflineStampType, location: StampLocation | null, stampedAt: Date) => void;
+  /** 送信待ちの打刻を送信する */
+  sync: () => Promise<OfflineStampSyncResult | null>;
+  /** 送信済み・却下の打刻を消去する */
+  clearFinished: () => void;
+}
+
+/**
+ * 端末に保存した打刻の保存・送信を行うカスタムフック。
+ * 画面の表示時と、端末がオンラインに戻った時（online イベント）に送信待ちの打刻を自動で送信します。
+ * オンラインのまま送信できなかった打刻は一定間隔で再送します。
+ *
+ * @param {string | null} employeeId - 従業員ID（未取得の場合は null）。
+ * @param {(result: OfflineStampSyncResult) => void} onSynced - 1件以上送信・却下した後に呼ぶ処理（勤怠の再取得など）。
+ * @returns {UseOfflineStampQueueReturn} 保存した打刻と保存・送信の関数。
+ * @example
+ * ```tsx
+ * const { stamps, enqueue, hasPendingStamps } = useOfflineStampQueue(employeeId, () => refreshAttendanceData());
+ *
+ * if (!navigator.onLine || hasPendingStamps) {
+ *   enqueue('clockIn', stampLocation ?? null, pressedAt);
+ * }
+ * ```
+ */
+export const useOfflineStampQueue = (
+  employeeId: string | null,
+  onSynced: (result: OfflineStampSyncResult) => void
+): UseOfflineStampQueueReturn => {
+  const [stamps, setStamps] = useState<OfflineStamp[]>(() => (employeeId ? loadOfflineStamps(employeeId) : []));
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  // 送信後の処理は最新のものを呼ぶ（online イベントの登録し直しを避ける）
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const reload = useCallback(() => {
+    setStamps(employeeId ? loadOfflineStamps(employeeId) : []);
+  }, [employeeId]);
+
+  const sync = useCallback(async (): Promise<OfflineStampSyncResult | null> => {
+    if (!employeeId || !navigator.onLine) return null;
+    setIsSyncing(true);
+    try {
+      const result = await syncOfflineStamps(employeeId);
+      if (result.synced > 0 || result.rejected > 0) onSyncedRef.current(result);
+      return result;
+    } catch (error) {
+      logError('Failed to sync offline stamps:', error);
+      return null;
+    } finally {
+      setIsSyncing(false);
+      reload();
+    }
+  }, [employeeId, reload]);
+
+  useEffect(() => {
+    reload();
+    sync();
+  }, [reload, sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const hasPendingStamps = stamps.some(stamp => stamp.status === 'pending');
+  useEffect(() => {
+    if (!hasPendingStamps || !isOnline) return;
+    const timer = window.setInterval(() => sync(), RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [hasPendingStamps, isOnline, sync]);
+
+  const enqueue = useCallback((type: OfflineStampType, location: StampLocation | null, stampedAt: Date) => {
+    if (!employeeId) return;
+    enqueueOfflineStamp(employeeId, type, location, stampedAt);
+    reload();
+    sync();
+  }, [employeeId, reload, sync]);
+
+  const clearFinished = useCallback(() => {
+    if (!employeeId) return;
+    clearFinishedOfflineStamps(employeeId);
+    reload();
+  }, [employeeId, reload]);
+
+  return {
+    stamps,
+    hasPendingStamps,
+    isOnline,
+    isSyncing,
+    enqueue,
+    sync,
+    clearFinished
+  };
+};
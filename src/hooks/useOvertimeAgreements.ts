@@ -0,0 +1,49 @@
+/**
+ * 36協定取得カスタムフック
+ * 時間外労働の上限を判定する画面（時間外労働の監視・勤怠画面）で会社の36協定の履歴を読み込みます。
+ */
+
+import { useEffect, useState } from 'react';
+import { getOvertimeAgreements, type OvertimeAgreement } from '../utils/overtimeAgreementApi';
+import { error as logError } from '../utils/logger';
+
+/** フックの戻り値 */
+export interface UseOvertimeAgreementsReturn {
+  /** 36協定の履歴。取得失敗時は空配列（＝法定の上限で判定）。 */
+  agreements: OvertimeAgreement[];
+  /** 取得が完了したかどうか（失敗時も true）。判定に使う勤怠の取得期間が決まるまで待つ用途。 */
+  isLoaded: boolean;
+}
+
+/**
+ * 36協定の履歴を取得するカスタムフック。
+ * 取得に失敗しても画面は表示できるよう、空配列（法定の上限）にフォールバックします。
+ *
+ * @returns {UseOvertimeAgreementsReturn} 36協定と取得完了フラグ。
+ * @example
+ * ```tsx
+ * const { agreements, isLoaded } = useOvertimeAgreements();
+ * const status = evaluateOvertimeLimits(records, '2025-06', agreements);
+ * ```
+ */
+export const useOvertimeAgreements = (): UseOvertimeAgreementsReturn => {
+  const [agreements, setAgreements] = useState<OvertimeAgreement[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getOvertimeAgreements();
+        if (!cancelled) setAgreements(response);
+      } catch (error) {
+        logError('Failed to fetch overtime agreements:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { agreements, isLoaded };
+};
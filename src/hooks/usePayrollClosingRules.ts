@@ -0,0 +1,49 @@
+/**
+ * 給与締め日設定取得カスタムフック
+ * 給与期間を計算する画面（出勤簿・給与明細）で会社の締め日設定の履歴を読み込みます。
+ */
+
+import { useEffect, useState } from 'react';
+import { getPayrollClosingRules, type PayrollClosingRule } from '../utils/payrollClosingApi';
+import { error as logError } from '../utils/logger';
+
+/** フックの戻り値 */
+export interface UsePayrollClosingRulesReturn {
+  /** 締め日設定の履歴。取得失敗時は空配列（＝25日締め扱い）。 */
+  closingRules: PayrollClosingRule[];
+  /** 取得が完了したかどうか（失敗時も true）。期間計算に依存する取得処理の開始条件に使う。 */
+  isLoaded: boolean;
+}
+
+/**
+ * 締め日設定の履歴を取得するカスタムフック。
+ * 取得に失敗しても画面は表示できるよう、空配列（既定の25日締め）にフォールバックします。
+ *
+ * @returns {UsePayrollClosingRulesReturn} 締め日設定と取得完了フラグ。
+ * @example
+ * ```tsx
+ * const { closingRules, isLoaded } = usePayrollClosingRules();
+ * const { startDate, endDate } = getPayrollPeriodBounds(year, month, closingRules);
+ * ```
+ */
+export const usePayrollClosingRules = (): UsePayrollClosingRulesReturn => {
+  const [closingRules, setClosingRules] = useState<PayrollClosingRule[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getPayrollClosingRules();
+        if (!cancelled) setClosingRules(response.rules);
+      } catch (error) {
+        logError('Failed to fetch payroll closing rules:', error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { closingRules, isLoaded };
+};
@@ -0,0 +1,126 @@
+/**
+ * QRコード読み取りカスタムフック
+ * 端末のカメラで社員証のQRコードを読み取るためのロジックを提供します。
+ * ブラウザの BarcodeDetector を使うため、対応していないブラウザ（iOS の Safari 等）では使えません。
+ * その場合は USB・Bluetooth のQRコードリーダー（キーボード入力）で読み取ってください。
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { error as logError } from '../utils/logger';
+
+/**
+ * ブラウザの BarcodeDetector（TypeScript の標準の型に無いため、使う範囲だけ定義する）。
+ */
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+/** 読み取りの間隔（ミリ秒） */
+const SCAN_INTERVAL_MS = 300;
+
+/** フックの戻り値 */
+export interface UseQrScannerReturn {
+  /** カメラの映像を表示する video 要素に渡す ref */
+  videoRef: React.RefObject<HTMLVideoElement>;
+  /** カメラでの読み取りに対応しているかどうか */
+  isSupported: boolean;
+  /** 読み取り中かどうか */
+  isScanning: boolean;
+  /** カメラを起動できなかった場合のメッセージ */
+  error: string | null;
+  /** カメラを起動して読み取りを始める */
+  start: () => Promise<void>;
+  /** 読み取りを止めてカメラを閉じる */
+  stop: () => void;
+}
+
+/**
+ * カメラでQRコードを読み取るカスタムフック。
+ * 読み取ったらカメラを閉じ、読み取った内容を渡して処理を呼びます。
+ *
+ * @param {(value: string) => void} onDetected - QRコードを読み取った時に呼ぶ処理。
+ * @returns {UseQrScannerReturn} カメラの映像の ref と読み取りの開始・停止の関数。
+ * @example
+ * ```tsx
+ * const { videoRef, isSupported, start } = useQrScanner((cardCode) => submit({ cardCode }));
+ *
+ * return isSupported ? <video ref={videoRef} muted playsInline /> : null;
+ * ```
+ */
+export const useQrScanner = (onDetected: (value: string) => void): UseQrScannerReturn => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // 読み取った時の処理は最新のものを呼ぶ
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  const Detector = (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  const isSupported = !!Detector && !!navigator.mediaDevices?.getUserMedia;
+
+  const stop = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsScanning(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!Detector || !navigator.mediaDevices?.getUserMedia || streamRef.current) return;
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false });
+      streamRef.current = stream;
+      const video = videoRef.current;
+      if (!video) {
+        stop();
+        return;
+      }
+      video.srcObject = stream;
+      await video.play();
+      setIsScanning(true);
+
+      const detector = new Detector({ formats: ['qr_code'] });
+      let detecting = false;
+      timerRef.current = window.setInterval(async () => {
+        if (detecting || video.readyState < 2) return;
+        detecting = true;
+        try {
+          const [code] = await detector.detect(video);
+          if (code?.rawValue) {
+            stop();
+            onDetectedRef.current(code.rawValue);
+          }
+        } catch (detectError) {
+          logError('Failed to detect QR code:', detectError);
+        } finally {
+          detecting = false;
+        }
+      }, SCAN_INTERVAL_MS);
+    } catch (cameraError) {
+      logError('Failed to start camera:', cameraError);
+      setError('カメラを起動できませんでした。カメラの使用を許可するか、QRコードリーダーで読み取ってください。');
+      stop();
+    }
+  }, [Detector, stop]);
+
+  // 画面を離れる時はカメラを閉じる
+  useEffect(() => stop, [stop]);
+
+  return {
+    videoRef,
+    isSupported,
+    isScanning,
+    error,
+    start,
+    stop
+  };
+};
@@ -0,0 +1,505 @@
+/**
+ * ファイル名: ApprovalRouteMaster.tsx
+ * 画面名: 承認ルートマスタ画面
+ * 説明: 休暇申請・打刻修正申請の多段階承認のルート（ステップと承認者）を管理する画面
+ * 機能:
+ *   - 承認ルートの新規登録・編集・削除
+ *   - 申請種別と条件（休暇の日数・休暇種別）によるルートの適用
+ *   - ステップ（チームリーダー → 人事 など）ごとの承認者の割り当て
+ *   - 新しい申請への適用可否（無効化）の設定
+ */
+
+import { useState, useEffect } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { Button, RegisterButton, UpdateButton, CancelButton, EditButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getApprovalRoutes,
+  createApprovalRoute,
+  updateApprovalRoute,
+  deleteApprovalRoute,
+  type ApprovalRoute
+} from '../../utils/approvalRouteApi';
+import { APPROVAL_REQUEST_TYPE_LABELS, type ApprovalRequestType } from '../../utils/approvalRoute';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { useLeaveTypes } from '../../hooks/useLeaveTypes';
+import { error as logError } from '../../utils/logger';
+
+/** 入力フォームの状態（数値は入力中の文字列のまま保持） */
+interface ApprovalRouteForm {
+  name: string;
+  requestType: ApprovalRequestType;
+  leaveDaysOver: string;
+  leaveTypes: string[];
+  steps: Array<{ name: string; approverEmployeeIds: string[] }>;
+  isActive: boolean;
+}
+
+const createEmptyForm = (): ApprovalRouteForm => ({
+  name: '',
+  requestType: 'leave',
+  leaveDaysOver: '',
+  leaveTypes: [],
+  steps: [{ name: '', approverEmployeeIds: [] }],
+  isActive: true
+});
+
+/**
+ * 承認ルートマスタ画面コンポーネント。
+ * 当てはまる承認ルートが無い申請は、従来どおり管理者の誰でも1回で承認できます。
+ *
+ * @returns {JSX.Element} 承認ルートマスタ画面コンポーネント。
+ */
+export const ApprovalRouteMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [routes, setRoutes] = useState<ApprovalRoute[]>([]);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [formData, setFormData] = useState<ApprovalRouteForm>(createEmptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+  const { options: leaveTypeOptions } = useLeaveTypes();
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 承認ルートと承認者の候補（管理者）をAPIから取得
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [routeList, employeeList] = await Promise.all([getApprovalRoutes(), getEmployees()]);
+        setRoutes(routeList);
+        setEmployees(employeeList);
+      } catch (error) {
+        logError('Failed to fetch approval routes:', error);
+        setSnackbar({ message: '承認ルートの取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  /** 承認者に割り当てられる従業員（在籍中の管理者） */
+  const approverCandidates = employees.filter(emp => emp.isAdmin && !emp.leaveDate);
+
+  const employeeName = (employeeId: string): string => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : '不明な従業員';
+  };
+
+  const leaveTypeName = (code: string): string =>
+    leaveTypeOptions.find(option => option.code === code)?.label ?? code;
+
+  const showError = (message: string) => {
+    setSnackbar({ message, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  const updateStep = (index: number, step: Partial<ApprovalRouteForm['steps'][number]>) => {
+    setFormData({
+      ...formData,
+      steps: formData.steps.map((current, i) => i === index ? { ...current, ...step } : current)
+    });
+  };
+
+  const toggleApprover = (index: number, employeeId: string) => {
+    const { approverEmployeeIds } = formData.steps[index];
+    updateStep(index, {
+      approverEmployeeIds: approverEmployeeIds.includes(employeeId)
+        ? approverEmployeeIds.filter(id => id !== employeeId)
+        : [...approverEmployeeIds, employeeId]
+    });
+  };
+
+  const toggleLeaveType = (code: string) => {
+    setFormData({
+      ...formData,
+      leaveTypes: formData.leaveTypes.includes(code)
+        ? formData.leaveTypes.filter(c => c !== code)
+        : [...formData.leaveTypes, code]
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    if (!name) {
+      showError('承認ルート名を入力してください');
+      return;
+    }
+    if (routes.some(route => route.id !== editingId && route.name === name)) {
+      showError('同じ名前の承認ルートが登録されています');
+      return;
+    }
+    const isLeave = formData.requestType === 'leave';
+    const leaveDaysOver = Number(formData.leaveDaysOver);
+    if (isLeave && formData.leaveDaysOver !== '' && (isNaN(leaveDaysOver) || leaveDaysOver < 0 || leaveDaysOver % 0.5 !== 0)) {
+      showError('日数の条件は0.5日単位で入力してください');
+      return;
+    }
+    const steps = formData.steps.map(step => ({ ...step, name: step.name.trim() }));
+    if (steps.some(step => !step.name)) {
+      showError('ステップ名を入力してください');
+      return;
+    }
+    const stepWithoutApprover = steps.find(step => step.approverEmployeeIds.length === 0);
+    if (stepWithoutApprover) {
+      showError(`${stepWithoutApprover.name}の承認者を選択してください`);
+      return;
+    }
+
+    const payload = {
+      name,
+      requestType: formData.requestType,
+      conditions: {
+        leaveDaysOver: isLeave && formData.leaveDaysOver !== '' ? leaveDaysOver : null,
+        leaveTypes: isLeave ? formData.leaveTypes : []
+      },
+      steps,
+      isActive: formData.isActive
+    };
+
+    try {
+      if (editingId) {
+        // 編集モード（申請済みの申請は申請時のルートのステップで承認を続ける）
+        const updated = await updateApprovalRoute(editingId, payload);
+        setRoutes(routes.map(route => route.id === editingId ? updated : route));
+        setSnackbar({ message: '承認ルートを更新しました', type: 'success' });
+      } else {
+        const created = await createApprovalRoute(payload);
+        setRoutes([...routes, created]);
+        setSnackbar({ message: '承認ルートを登録しました', type: 'success' });
+      }
+      setFormData(createEmptyForm());
+      setEditingId(null);
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save approval route:', error);
+      const errorMessage = error instanceof Error ? error.message : '承認ルートの保存に失敗しました';
+      showError(errorMessage);
+    }
+  };
+
+  const handleEdit = (route: ApprovalRoute) => {
+    setFormData({
+      name: route.name,
+      requestType: route.requestType,
+      leaveDaysOver: route.conditions.leaveDaysOver === null ? '' : String(route.conditions.leaveDaysOver),
+      leaveTypes: route.conditions.leaveTypes,
+      steps: route.steps.map(step => ({ name: step.name, approverEmployeeIds: step.approverEmployeeIds })),
+      isActive: route.isActive
+    });
+    setEditingId(route.id);
+  };
+
+  const handleCancel = () => {
+    setFormData(createEmptyForm());
+    setEditingId(null);
+  };
+
+  const handleDelete = (route: ApprovalRoute) => {
+    setConfirmModal({ isOpen: true, id: route.id, name: route.name });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteApprovalRoute(confirmModal.id);
+        setRoutes(routes.filter(route => route.id !== confirmModal.id));
+        setSnackbar({ message: '承認ルートを削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete approval route:', error);
+        const errorMessage = error instanceof Error ? error.message : '承認ルートの削除に失敗しました';
+        showError(errorMessage);
+      }
+    }
+  };
+
+  /** 登録済みの承認ルートの条件の説明 */
+  const describeConditions = (route: ApprovalRoute): string => {
+    if (route.requestType !== 'leave') return '条件なし';
+    const { leaveDaysOver, leaveTypes } = route.conditions;
+    const parts = [
+      leaveDaysOver !== null ? `${leaveDaysOver}日を超える` : null,
+      leaveTypes.length > 0 ? leaveTypes.map(leaveTypeName).join('・') : null
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' / ') : '条件なし';
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' };
+
+  const checkboxLabelStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: fontSizes.label };
+
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    fontSize: fontSizes.badge,
+    color,
+    fontWeight: 'bold',
+    padding: '0.125rem 0.5rem',
+    backgroundColor,
+    borderRadius: '4px',
+    display: 'inline-block'
+  });
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`承認ルート「${confirmModal.name}」を削除しますか？承認中の申請で使われている場合は削除できないため、無効にしてください。`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        承認ルートマスタ
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        申請はステップ順に承認し、最後のステップの承認で承認済みになります。条件が当てはまるルートが複数ある場合は、休暇種別の指定があるもの、日数の条件が大きいものを使います。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            {editingId ? '承認ルートの編集' : '承認ルートの登録'}
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={labelStyle}>承認ルート名 *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="休暇（3日超）"
+                  style={inputStyle}
+                  required
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>申請種別 *</label>
+                <select
+                  value={formData.requestType}
+                  onChange={(e) => setFormData({ ...formData, requestType: e.target.value as ApprovalRequestType })}
+                  style={{ ...inputStyle, fontSize: fontSizes.select }}
+                >
+                  {(Object.keys(APPROVAL_REQUEST_TYPE_LABELS) as ApprovalRequestType[]).map(type => (
+                    <option key={type} value={type}>{APPROVAL_REQUEST_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {formData.requestType === 'leave' && (
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>休暇の日数（この日数を超える申請に適用）</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.leaveDaysOver}
+                  onChange={(e) => setFormData({ ...formData, leaveDaysOver: e.target.value })}
+                  placeholder="日数を問わない"
+                  style={{ ...inputStyle, marginBottom: '0.75rem' }}
+                />
+                <label style={labelStyle}>休暇種別（未選択はすべての種別）</label>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem 1rem' }}>
+                  {leaveTypeOptions.map(option => (
+                    <label key={option.code} style={checkboxLabelStyle}>
+                      <input
+                        type="checkbox"
+                        checked={formData.leaveTypes.includes(option.code)}
+                        onChange={() => toggleLeaveType(option.code)}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={labelStyle}>承認ステップ *</label>
+              {formData.steps.map((step, index) => (
+                <div
+                  key={index}
+                  style={{ backgroundColor: 'white', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '0.75rem', marginBottom: '0.75rem' }}
+                >
+                  <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+                    <span style={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={step.name}
+                      onChange={(e) => updateStep(index, { name: e.target.value })}
+                      placeholder={index === 0 ? 'チームリーダー' : '人事'}
+                      style={inputStyle}
+                      required
+                    />
+                    {formData.steps.length > 1 && (
+                      <DeleteButton
+                        type="button"
+                        onClick={() => setFormData({ ...formData, steps: formData.steps.filter((_, i) => i !== index) })}
+                      />
+                    )}
+                  </div>
+                  <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginBottom: '0.25rem' }}>
+                    承認者（いずれか1人の承認で次のステップへ進みます）
+                  </div>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem 1rem' }}>
+                    {approverCandidates.map(emp => (
+                      <label key={emp.id} style={checkboxLabelStyle}>
+                        <input
+                          type="checkbox"
+                          checked={step.approverEmployeeIds.includes(emp.id)}
+                          onChange={() => toggleApprover(index, emp.id)}
+                        />
+                        {emp.firstName} {emp.lastName}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="secondary"
+                type="button"
+                onClick={() => setFormData({ ...formData, steps: [...formData.steps, { name: '', approverEmployeeIds: [] }] })}
+                style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+              >
+                ステップを追加
+              </Button>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              新しい申請に適用する
+            </label>
+            <div style={{ display: 'flex', gap: '0.4rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+              {editingId && (
+                <CancelButton
+                  fullWidth
+                  type="button"
+                  onClick={handleCancel}
+                />
+              )}
+              {editingId ? (
+                <UpdateButton
+                  fullWidth
+                  type="submit"
+                />
+              ) : (
+                <RegisterButton
+                  fullWidth
+                  type="submit"
+                />
+              )}
+            </div>
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            登録済みの承認ルート
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {isLoading ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>読み込み中...</p>
+            ) : routes.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された承認ルートがありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {routes.map((route) => (
+                  <div
+                    key={route.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      opacity: route.isActive ? 1 : 0.6
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>{route.name}</div>
+                      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.25rem' }}>
+                        <span style={badgeStyle('#dbeafe', '#1e40af')}>{APPROVAL_REQUEST_TYPE_LABELS[route.requestType]}</span>
+                        {!route.isActive && <span style={badgeStyle('#fee2e2', '#991b1b')}>無効</span>}
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginBottom: '0.25rem' }}>
+                        {describeConditions(route)}
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#374151' }}>
+                        {route.steps.map((step, index) => (
+                          <div key={index}>
+                            {index + 1}. {step.name}（{step.approverEmployeeIds.map(employeeName).join('・')}）
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <EditButton
+                        onClick={() => handleEdit(route)}
+                      />
+                      <DeleteButton
+                        onClick={() => handleDelete(route)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
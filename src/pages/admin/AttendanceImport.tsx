@@ -0,0 +1,557 @@
+/**
+ * ファイル名: AttendanceImport.tsx
+ * 画面名: 過去勤怠CSV取込画面
+ * 説明: 他の勤怠システムから出力した過去の打刻（出勤・退勤・休憩）をCSVで取り込む画面（導入時の移行用）
+ * 機能:
+ *   - ひな形CSVのダウンロード（UTF-8 BOM付き）
+ *   - CSVの列と取込項目の対応付け（見出しから自動で対応付け、画面で変更可能）
+ *   - 従業員ID・メールアドレスでの従業員の照合と、日付をまたぐ時刻（「翌朝」表記・24時以降・出勤より前の時刻）の翌日扱い
+ *   - 勤怠が登録済みの日の競合レポートと、日ごとの対応（登録済みを残す・上書き・統合）の選択
+ *   - 給与明細がロックされた締め月の日は修正理由の入力を必須にする
+ *   - 確認後の一括登録と日ごとの結果の表示、取り込めなかった行のCSV出力（元の列とエラー内容）
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { BackButton, Button } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { getUserInfo } from '../../config/apiConfig';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getAttendanceList, updateAttendance, type AttendanceLog } from '../../utils/attendanceApi';
+import { getPayrollLocks, type PayrollPeriodLock } from '../../utils/payrollApi';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { autoMapCsvColumns, buildCsvImportErrorReport, decodeCsvBytes, parseCsv, type CsvColumnMapping } from '../../utils/csvImport';
+import { downloadCsv, encodeCsv, escapeCsvCell } from '../../utils/csvExport';
+import {
+  ATTENDANCE_IMPORT_FIELDS,
+  buildAttendanceImportPlan,
+  buildAttendanceImportRequest,
+  describeAttendanceImportRecord,
+  getAttendanceImportDateRange,
+  mergeAttendanceImportRecord,
+  type AttendanceImportAction,
+  type AttendanceImportFieldKey,
+  type AttendanceImportResolution
+} from '../../utils/attendanceImport';
+import { error as logError } from '../../utils/logger';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+
+/** 取込内容ごとの表示名と表示色 */
+const ACTION_BADGES: Record<AttendanceImportAction, { label: string; background: string; color: string }> = {
+  create: { label: '新規登録', background: '#dbeafe', color: '#1e40af' },
+  conflict: { label: '登録済み', background: '#fef3c7', color: '#92400e' },
+  unchanged: { label: '変更なし', background: '#f3f4f6', color: '#4b5563' },
+  error: { label: 'エラー', background: '#fee2e2', color: '#991b1b' }
+};
+
+/** 登録済みの勤怠がある日の対応の表示名 */
+const RESOLUTION_LABELS: Record<AttendanceImportResolution, string> = {
+  keep: '登録済みを残す',
+  overwrite: 'CSVで上書き',
+  merge: '統合（空欄を埋める）'
+};
+
+/** 読み込んだCSV */
+interface LoadedCsv {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/** 日ごとの登録結果 */
+interface ImportResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 過去勤怠CSV取込画面コンポーネント。
+ *
+ * @returns {JSX.Element} 過去勤怠CSV取込画面コンポーネント。
+ */
+export const AttendanceImport: React.FC = () => {
+  const navigate = useNavigate();
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const { closingRules } = usePayrollClosingRules();
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [csv, setCsv] = useState<LoadedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping<AttendanceImportFieldKey> | null>(null);
+  /** 取込期間の登録済みの勤怠 */
+  const [logs, setLogs] = useState<AttendanceLog[]>([]);
+  /** 取込期間のうち給与明細がロックされた従業員・締め月 */
+  const [payrollLocks, setPayrollLocks] = useState<PayrollPeriodLock[]>([]);
+  /** 登録済みの勤怠がある日の対応（キーは日ごとの取込内容のキー）。未選択の日は登録済みを残す */
+  const [resolutions, setResolutions] = useState<Record<string, AttendanceImportResolution>>({});
+  /** ロックされた締め月の勤怠を修正する理由 */
+  const [reason, setReason] = useState<string>('');
+  /** 登録結果（キーは日ごとの取込内容のキー）。登録前は null */
+  const [results, setResults] = useState<Record<string, ImportResult> | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [showConfirm, setShowConfirm] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => setIsMobile(window.innerWidth <= 768);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      try {
+        const employeeList = await getEmployees();
+        // 閲覧範囲が限られた管理者は、見られる従業員の勤怠のみ取り込める
+        const visibleEmployeeIds = getVisibleEmployeeIds(employeeList, getUserInfo().employeeId);
+        setEmployees(visibleEmployeeIds ? employeeList.filter(employee => visibleEmployeeIds.has(employee.id)) : employeeList);
+      } catch (error) {
+        logError('Failed to fetch employees for attendance import:', error);
+        setSnackbar({ message: `従業員の取得に失敗しました: ${translateApiError(error)}`, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchEmployees();
+  }, []);
+
+  const dateRange = useMemo(
+    () => (csv && mapping ? getAttendanceImportDateRange(csv.rows, mapping) : null),
+    [csv, mapping]
+  );
+
+  /** 取込期間の登録済みの勤怠と給与明細のロックを読み込む（CSVを選び直すたびに読み込み直し、登録後の取込も競合を判定し直す） */
+  const loadExisting = useCallback(async (startDate: string, endDate: string) => {
+    setIsLoading(true);
+    try {
+      const response = await getAttendanceList(undefined, startDate, endDate);
+      setLogs(response.logs);
+      try {
+        setPayrollLocks(await getPayrollLocks(startDate, endDate));
+      } catch (error) {
+        logError('Failed to fetch payroll locks:', error);
+        // 取得できない場合もAPI側でロック中の修正は理由が無ければ拒否される
+        setPayrollLocks([]);
+      }
+    } catch (error) {
+      logError('Failed to fetch attendance list for import:', error);
+      setLogs([]);
+      setSnackbar({ message: `登録済みの勤怠の取得に失敗しました: ${translateApiError(error)}`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const rangeStart = dateRange?.startDate ?? null;
+  const rangeEnd = dateRange?.endDate ?? null;
+  useEffect(() => {
+    if (!rangeStart || !rangeEnd) {
+      setLogs([]);
+      setPayrollLocks([]);
+      return;
+    }
+    loadExisting(rangeStart, rangeEnd);
+  }, [rangeStart, rangeEnd, loadExisting]);
+
+  const plan = useMemo(
+    () => (csv && mapping
+      ? buildAttendanceImportPlan(csv.rows, mapping, { employees, logs, payrollLocks, closingRules })
+      : []),
+    [csv, mapping, employees, logs, payrollLocks, closingRules]
+  );
+
+  const summary = useMemo(() => ({
+    create: plan.filter(day => day.action === 'create').length,
+    conflict: plan.filter(day => day.action === 'conflict').length,
+    unchanged: plan.filter(day => day.action === 'unchanged').length,
+    error: plan.filter(day => day.action === 'error').length
+  }), [plan]);
+
+  /** 登録する日と勤怠記録更新APIのリクエスト */
+  const targets = plan.flatMap(day => {
+    const request = buildAttendanceImportRequest(day, resolutions[day.key] ?? 'keep');
+    return request ? [{ day, request }] : [];
+  });
+  const needsReason = targets.some(target => target.day.isLocked);
+
+  const handleDownloadTemplate = () => {
+    const header = `${ATTENDANCE_IMPORT_FIELDS.map(field => escapeCsvCell(field.label)).join(',')}\r\n`;
+    downloadCsv(encodeCsv(header, 'utf8').bytes, '勤怠取込ひな形.csv', 'utf8');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const [headers = [], ...rows] = parseCsv(decodeCsvBytes(new Uint8Array(await file.arrayBuffer())));
+      if (rows.length === 0) {
+        setSnackbar({ message: 'CSVに取り込む行がありません（1行目は見出し行にしてください）', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+      setCsv({ fileName: file.name, headers, rows });
+      setMapping(autoMapCsvColumns(headers, ATTENDANCE_IMPORT_FIELDS));
+      setResolutions({});
+      setResults(null);
+    } catch (error) {
+      logError('Failed to read attendance import file:', error);
+      setSnackbar({ message: 'CSVファイルの読み込みに失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  /**
+   * 登録済みの勤怠がある日の対応をまとめて変更する。
+   *
+   * @param {AttendanceImportResolution} resolution - 対応。
+   */
+  const handleResolveAll = (resolution: AttendanceImportResolution) => {
+    setResolutions(Object.fromEntries(plan.filter(day => day.action === 'conflict').map(day => [day.key, resolution])));
+  };
+
+  const handleImport = async () => {
+    setShowConfirm(false);
+    setIsImporting(true);
+    const nextResults: Record<string, ImportResult> = {};
+    // 1日ずつ登録し、失敗した日があっても残りの日の登録を続ける
+    for (const { day, request } of targets) {
+      try {
+        await updateAttendance({ ...request, ...(day.isLocked ? { reason: reason.trim() } : {}) });
+        nextResults[day.key] = { success: true, message: day.action === 'create' ? '登録しました' : '更新しました' };
+      } catch (error) {
+        logError('Failed to import attendance:', error);
+        nextResults[day.key] = { success: false, message: error instanceof Error ? error.message : '勤怠の保存に失敗しました' };
+      }
+      setResults({ ...nextResults });
+    }
+    setIsImporting(false);
+
+    const failureCount = Object.values(nextResults).filter(result => !result.success).length;
+    const successCount = Object.keys(nextResults).length - failureCount;
+    setSnackbar(failureCount === 0
+      ? { message: `${successCount}日分の勤怠を登録しました`, type: 'success' }
+      : { message: `${successCount}日分を登録し、${failureCount}日分の登録に失敗しました`, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  /** 取り込めなかった行（入力エラーと登録の失敗） */
+  const failedRows = csv
+    ? plan.flatMap(day => {
+        const messages = day.action === 'error'
+          ? day.errors
+          : results?.[day.key] && !results[day.key].success ? [results[day.key].message] : [];
+        return messages.length > 0 ? day.rowNumbers.map(rowNumber => ({ cells: csv.rows[rowNumber - 2], messages })) : [];
+      }).sort((a, b) => csv.rows.indexOf(a.cells) - csv.rows.indexOf(b.cells))
+    : [];
+
+  const handleDownloadErrors = () => {
+    if (!csv) return;
+    const report = buildCsvImportErrorReport(csv.headers, failedRows);
+    downloadCsv(encodeCsv(report, 'utf8').bytes, `取込エラー_${csv.fileName.replace(/\.csv$/i, '')}.csv`, 'utf8');
+  };
+
+  const handleReset = () => {
+    setCsv(null);
+    setMapping(null);
+    setResolutions({});
+    setReason('');
+    setResults(null);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0.125rem 0.5rem',
+    borderRadius: '4px',
+    backgroundColor,
+    color,
+    fontSize: fontSizes.badge,
+    fontWeight: 'bold',
+    whiteSpace: 'nowrap'
+  });
+
+  const cellStyle: React.CSSProperties = { padding: '0.75rem', verticalAlign: 'top' };
+
+  return (
+    <div>
+      {(isLoading || isImporting) && <ProgressBar isLoading={true} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      <ConfirmModal
+        isOpen={showConfirm}
+        title="過去勤怠の取込"
+        message={`${targets.length}日分の勤怠を登録しますか？` +
+          (summary.conflict > 0 ? `登録済みの${summary.conflict}日は選んだ対応で取り込みます。` : '') +
+          (summary.error > 0 ? `エラーの${summary.error}日は取り込みません。` : '')}
+        confirmText="取込"
+        onConfirm={handleImport}
+        onCancel={() => setShowConfirm(false)}
+        isMobile={isMobile}
+      />
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        flexWrap: 'wrap',
+        gap: '1rem'
+      }}>
+        <h2 style={{ margin: 0, fontSize: isMobile ? '1.25rem' : '1.05rem' }}>
+          過去勤怠CSV取込
+        </h2>
+        <BackButton onClick={() => navigate('/admin/attendance')} />
+      </div>
+
+      <div style={{ backgroundColor: '#f9fafb', padding: '1rem', borderRadius: '8px', marginBottom: '1rem' }}>
+        <p style={{ margin: '0 0 0.75rem 0', fontSize: fontSizes.small, color: '#6b7280', lineHeight: 1.6 }}>
+          他の勤怠システムから出力した、1行目を見出し行にしたCSV（UTF-8 または Excel で保存した Shift_JIS）を選んでください。
+          従業員は従業員IDまたはメールアドレスで照合し、同じ従業員・勤務日の行（出退勤の行と休憩の行など）は1日分にまとめます。
+          「翌朝04:00」「28:00」のような表記と、出勤時刻より前の退勤・休憩の時刻は翌日の時刻として取り込みます。
+        </p>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isLoading || isImporting}
+            style={{ fontSize: fontSizes.medium }}
+          />
+          <Button
+            variant="secondary"
+            type="button"
+            onClick={handleDownloadTemplate}
+            style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+          >
+            ひな形CSVをダウンロード
+          </Button>
+          {csv && (
+            <span style={{ fontSize: fontSizes.medium, color: '#1f2937' }}>
+              {csv.fileName}（{csv.rows.length}行{dateRange ? `・${dateRange.startDate}〜${dateRange.endDate}` : ''}）
+            </span>
+          )}
+        </div>
+      </div>
+
+      {csv && mapping && (
+        <>
+          <details style={{ marginBottom: '1rem', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '0.75rem 1rem', backgroundColor: 'white' }}>
+            <summary style={{ cursor: 'pointer', fontWeight: 'bold', fontSize: fontSizes.label }}>
+              列の対応（{ATTENDANCE_IMPORT_FIELDS.filter(field => mapping[field.key] !== null).length}/{ATTENDANCE_IMPORT_FIELDS.length}項目）
+            </summary>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : 'repeat(3, 1fr)',
+              gap: '0.5rem 1rem',
+              marginTop: '0.75rem'
+            }}>
+              {ATTENDANCE_IMPORT_FIELDS.map(field => (
+                <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: fontSizes.small }}>
+                  <span style={{ width: '8rem', flexShrink: 0 }}>{field.label}</span>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                    disabled={isImporting || !!results}
+                    style={{ ...inputStyle, flex: 1, minWidth: 0, padding: '0.25rem', backgroundColor: 'white' }}
+                  >
+                    <option value="">（取り込まない）</option>
+                    {csv.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `${index + 1}列目`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </details>
+
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+            gap: '0.75rem',
+            marginBottom: '1rem'
+          }}>
+            {(['create', 'conflict', 'unchanged', 'error'] as AttendanceImportAction[]).map(action => (
+              <div key={action} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+                <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{ACTION_BADGES[action].label}</div>
+                <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: ACTION_BADGES[action].color }}>
+                  {summary[action]}日
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {summary.conflict > 0 && !results && (
+            <div style={{
+              padding: '0.75rem 1rem',
+              border: '1px solid #fcd34d',
+              borderRadius: '8px',
+              backgroundColor: '#fffbeb',
+              marginBottom: '1rem',
+              fontSize: fontSizes.small,
+              color: '#92400e',
+              display: 'flex',
+              gap: '0.75rem',
+              alignItems: 'center',
+              flexWrap: 'wrap'
+            }}>
+              <span>勤怠が登録済みの日が{summary.conflict}日あります。日ごとに対応を選ぶか、まとめて変更してください。</span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && handleResolveAll(e.target.value as AttendanceImportResolution)}
+                disabled={isImporting}
+                style={{ ...inputStyle, padding: '0.25rem', backgroundColor: 'white' }}
+              >
+                <option value="">まとめて変更…</option>
+                {(Object.keys(RESOLUTION_LABELS) as AttendanceImportResolution[]).map(resolution => (
+                  <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {needsReason && !results && (
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', fontSize: fontSizes.label, fontWeight: 'bold', color: '#991b1b', marginBottom: '0.25rem' }}>
+                修正理由（給与明細がロックされた締め月の日を含むため必須）
+              </label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="例: 旧勤怠システムからの移行"
+                disabled={isImporting}
+                style={{ ...inputStyle, width: '100%', maxWidth: '32rem' }}
+              />
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            {!results && (
+              <Button
+                variant="primary"
+                type="button"
+                onClick={() => setShowConfirm(true)}
+                disabled={isLoading || isImporting || targets.length === 0 || (needsReason && !reason.trim())}
+                style={{ backgroundColor: '#16a34a', border: '1px solid #16a34a', color: 'white' }}
+              >
+                {targets.length}日分を登録
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              type="button"
+              onClick={handleDownloadErrors}
+              disabled={isImporting || failedRows.length === 0}
+            >
+              取り込めなかった{failedRows.length}行をCSV出力
+            </Button>
+            {results && !isImporting && (
+              <Button variant="secondary" type="button" onClick={handleReset}>
+                別のファイルを取り込む
+              </Button>
+            )}
+          </div>
+
+          <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white', fontSize: fontSizes.tableCell }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+                  <th style={{ ...cellStyle, textAlign: 'right', width: '3rem' }}>行</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>取込内容</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>従業員</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>勤務日</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>登録済み</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>CSV</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>対応</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>エラー・注意</th>
+                  {results && <th style={{ ...cellStyle, textAlign: 'left' }}>結果</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map(day => {
+                  const badge = ACTION_BADGES[day.action];
+                  const resolution = resolutions[day.key] ?? 'keep';
+                  const result = results?.[day.key];
+                  return (
+                    <tr key={day.key} style={{ borderBottom: '1px solid #e5e7eb', backgroundColor: day.action === 'error' ? '#fef2f2' : 'white' }}>
+                      <td style={{ ...cellStyle, textAlign: 'right', color: '#6b7280' }}>{day.rowNumbers.join(', ')}</td>
+                      <td style={cellStyle}>
+                        <span style={badgeStyle(badge.background, badge.color)}>{badge.label}</span>
+                        {day.isLocked && <div style={{ marginTop: '0.25rem' }}><span style={badgeStyle('#fee2e2', '#991b1b')}>ロック中</span></div>}
+                      </td>
+                      <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                        {day.employeeName || '-'}
+                        {day.employeeId && <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{day.employeeId}</div>}
+                      </td>
+                      <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{day.workDate || '-'}</td>
+                      <td style={cellStyle}>
+                        {day.existing
+                          ? describeAttendanceImportRecord({ clockIn: day.existing.clockIn, clockOut: day.existing.clockOut, breaks: day.existing.breaks }, day.workDate)
+                          : '-'}
+                      </td>
+                      <td style={cellStyle}>
+                        {day.action === 'error' ? '-' : describeAttendanceImportRecord(day.record, day.workDate)}
+                      </td>
+                      <td style={cellStyle}>
+                        {day.action === 'conflict' && day.existing ? (
+                          <>
+                            <select
+                              value={resolution}
+                              onChange={(e) => setResolutions({ ...resolutions, [day.key]: e.target.value as AttendanceImportResolution })}
+                              disabled={isImporting || !!results}
+                              style={{ ...inputStyle, padding: '0.25rem', backgroundColor: 'white' }}
+                            >
+                              {(Object.keys(RESOLUTION_LABELS) as AttendanceImportResolution[]).map(option => (
+                                <option key={option} value={option}>{RESOLUTION_LABELS[option]}</option>
+                              ))}
+                            </select>
+                            {resolution === 'merge' && (
+                              <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+                                統合後: {describeAttendanceImportRecord(mergeAttendanceImportRecord(day.existing, day.record), day.workDate)}
+                              </div>
+                            )}
+                          </>
+                        ) : day.action === 'create' ? '登録' : '-'}
+                      </td>
+                      <td style={cellStyle}>
+                        {day.errors.map(message => <div key={message} style={{ color: '#991b1b' }}>{message}</div>)}
+                        {day.warnings.map(message => <div key={message} style={{ color: '#92400e' }}>{message}</div>)}
+                      </td>
+                      {results && (
+                        <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                          {result && (
+                            <span style={result.success ? badgeStyle('#d1fae5', '#065f46') : badgeStyle('#fee2e2', '#991b1b')}>
+                              {result.success ? result.message : `失敗: ${result.message}`}
+                            </span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
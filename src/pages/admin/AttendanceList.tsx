@@ -8,21 +8,37 @@
  *   - 従業員名・IDでの検索
  *   - 勤怠情報の詳細表示
  *   - ソート機能
+ *   - 部署（配下の部署を含む）での絞り込みと部署別の小計
+ *   - 閲覧範囲が「自分と部下のみ」の管理者は部下の勤怠のみ表示
+ *   - 勤怠の修正権限が無い権限ロール（給与担当など）は閲覧のみ
+ *   - 給与明細がロックされた締め月の勤怠は、警告を表示し修正理由の入力を必須にする
+ *   - 検索結果のCSV出力（列の選択・並べ替え、UTF-8 BOM付き/Shift_JIS、テンプレートの保存）
+ *   - 他の勤怠システムの過去の打刻のCSV取込画面への遷移（勤怠の修正権限がある場合のみ）
  */
 
 import { useState, useEffect } from 'react';
-import { formatTime, formatDate, formatJSTDateTime, parseJSTDateTime, extractTimeFromJST } from '../../utils/formatters';
+import { useNavigate } from 'react-router-dom';
+import { formatTime, formatDate, formatJSTDateTime, parseJSTDateTime, extractTimeFromJST, formatMinutesToTime } from '../../utils/formatters';
 import { fontSizes } from '../../config/fontSizes';
 import { Button, CancelButton, EditButton, SearchButton, ClearButton, SaveButton } from '../../components/Button';
 import { Snackbar } from '../../components/Snackbar';
 import { useSort } from '../../hooks/useSort';
 import { ChevronDownIcon, ChevronUpIcon } from '../../components/Icons';
 import { getAttendanceList, updateAttendance, updateAttendanceMemo, AttendanceLog as ApiAttendanceLog, Break as ApiBreak, BreakRequest, DayTypeOverride } from '../../utils/attendanceApi';
-import { getEmployees } from '../../utils/employeeApi';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getPayrollLocks, type PayrollPeriodLock } from '../../utils/payrollApi';
+import { isWorkDateInLockedPayrollPeriod } from '../../utils/payrollStatus';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useDepartments } from '../../hooks/useDepartments';
+import { createDepartmentFilter, flattenDepartmentTree, getVisibleEmployeeIds, groupRowsByDepartment, NO_DEPARTMENT_KEY } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { useAuth } from '../../contexts/AuthContext';
 import { log, error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import { getAttendanceStatusLabel } from '../../utils/codeTranslator';
 import { ProgressBar } from '../../components/ProgressBar';
+import { CsvExportModal } from '../../components/CsvExportModal';
+import { ATTENDANCE_CSV_COLUMNS, type AttendanceCsvRow } from '../../utils/csvExportColumns';
 
 /**
  * 休憩時間を表すインターフェース。
@@ -116,7 +132,11 @@ const formatBreaksCompareBlock = (breaks: Break[]): string => {
  * @returns {JSX.Element} 勤怠情報一覧画面コンポーネント。
  */
 export const AttendanceList: React.FC = () => {
+  const navigate = useNavigate();
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const { hasPermission } = useAuth();
+  /** 勤怠（打刻・休憩・メモ）を修正できるか（権限ロール） */
+  const canEditAttendance = hasPermission('attendance.edit');
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [attendanceLogs, setAttendanceLogs] = useState<AttendanceLog[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -187,6 +207,18 @@ export const AttendanceList: React.FC = () => {
   const [attendanceBeforeEdit, setAttendanceBeforeEdit] = useState<AttendanceEditData | null>(null);
   /** 編集フォームと保存確認の切り替え。 */
   const [editAttendanceStep, setEditAttendanceStep] = useState<'form' | 'confirm'>('form');
+  /** 従業員一覧（部署での絞り込み・閲覧範囲の判定用） */
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  /** 部署での絞り込み（空はすべて、NO_DEPARTMENT_KEY は部署未設定）。取得済みの一覧をその場で絞り込む */
+  const [filterDepartmentId, setFilterDepartmentId] = useState<string>('');
+  const { departments } = useDepartments();
+  const { closingRules } = usePayrollClosingRules();
+  /** 給与明細がロックされた従業員・締め月（表示中の期間） */
+  const [payrollLocks, setPayrollLocks] = useState<PayrollPeriodLock[]>([]);
+  /** ロックされた締め月の勤怠を修正する理由。 */
+  const [editReason, setEditReason] = useState<string>('');
+  /** CSV出力モーダルの表示状態 */
+  const [showCsvExport, setShowCsvExport] = useState(false);
   // 勤怠の代理追加（打刻忘れの後入力）は、2026-07-22に従業員別の出勤簿画面（EmployeeAttendance.tsx）へ移設した。
 
   useEffect(() => {
@@ -254,6 +286,7 @@ export const AttendanceList: React.FC = () => {
       const employeeNameMap: Record<string, string> = {};
       try {
         const employeeList = await getEmployees();
+        setEmployees(employeeList);
         employeeList.forEach(emp => {
           employeeNameMap[emp.id] = `${emp.firstName} ${emp.lastName}`;
         });
@@ -272,6 +305,14 @@ export const AttendanceList: React.FC = () => {
         return uiLog;
       });
       setAttendanceLogs(convertedLogs);
+
+      try {
+        setPayrollLocks(await getPayrollLocks(start, end));
+      } catch (error) {
+        logError('Failed to fetch payroll locks:', error);
+        // 取得できない場合もAPI側でロック中の修正は理由が無ければ拒否される
+        setPayrollLocks([]);
+      }
     } catch (error) {
       logError('Failed to fetch attendance list:', error);
       const errorMessage = translateApiError(error);
@@ -288,9 +329,25 @@ export const AttendanceList: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // 初期表示時のみ実行
 
-  // APIでフィルタリング済みのため、フィルタリングは不要
-  // 検索結果は既にattendanceLogsに含まれている
-  const filteredLogs = attendanceLogs;
+  // 期間はAPIでフィルタリング済み。部署と閲覧範囲の絞り込みのみフロントエンドで行う
+  const departmentIdOf = (employeeId: string | undefined) =>
+    employees.find(emp => emp.id === employeeId)?.departmentId ?? null;
+  const visibleEmployeeIds = getVisibleEmployeeIds(employees, getUserInfo().employeeId);
+  const matchesDepartment = createDepartmentFilter(departments, filterDepartmentId);
+  const filteredLogs = attendanceLogs.filter(log =>
+    (!visibleEmployeeIds || (!!log.employeeId && visibleEmployeeIds.has(log.employeeId))) &&
+    matchesDepartment(departmentIdOf(log.employeeId))
+  );
+
+  /** 部署別の小計（勤務日数・労働・残業・深夜の分） */
+  const departmentSubtotals = groupRowsByDepartment(filteredLogs, log => departmentIdOf(log.employeeId), departments)
+    .map(group => ({
+      label: group.label,
+      days: group.rows.length,
+      workMinutes: group.rows.reduce((sum, log) => sum + (log.totalWorkMinutes ?? 0), 0),
+      overtimeMinutes: group.rows.reduce((sum, log) => sum + (log.overtimeMinutes ?? 0), 0),
+      lateNightMinutes: group.rows.reduce((sum, log) => sum + (log.lateNightMinutes ?? 0), 0)
+    }));
 
   // 検索条件をクリア
   const handleClearSearch = async () => {
@@ -371,7 +428,8 @@ export const AttendanceList: React.FC = () => {
         workTime: '-',
         overtime: '-',
         lateNight: '-',
-        breakTime
+        breakTime,
+        breakMinutes
       };
     }
     
@@ -400,10 +458,32 @@ export const AttendanceList: React.FC = () => {
       workTime,
       overtime,
       lateNight,
-      breakTime
+      breakTime,
+      breakMinutes
     };
   };
 
+  /** CSV出力する行（検索結果を表示中の並び順で出力する） */
+  const csvRows: AttendanceCsvRow[] = sortedLogs.map(log => {
+    const departmentId = departmentIdOf(log.employeeId);
+    // 労働時間が未計算（未退勤など）の日は、残業・深夜も空にする
+    const isCalculated = log.totalWorkMinutes !== undefined && log.totalWorkMinutes !== null;
+    return {
+      date: log.date,
+      employeeId: log.employeeId ?? '',
+      employeeName: log.employeeName ?? '',
+      departmentName: departments.find(department => department.id === departmentId)?.name ?? '',
+      clockIn: log.clockIn,
+      clockOut: log.clockOut,
+      workMinutes: log.totalWorkMinutes ?? null,
+      overtimeMinutes: isCalculated ? log.overtimeMinutes ?? 0 : null,
+      lateNightMinutes: isCalculated ? log.lateNightMinutes ?? 0 : null,
+      breakMinutes: calculateWorkTimes(log).breakMinutes,
+      isHolidayWork: !!log.isHolidayWork,
+      memo: log.memo ?? null
+    };
+  });
+
   // モーダルを閉じる
   const handleCancel = () => {
     setShowModal(false);
@@ -411,6 +491,7 @@ export const AttendanceList: React.FC = () => {
     setEditingAttendanceData(null);
     setAttendanceBeforeEdit(null);
     setEditAttendanceStep('form');
+    setEditReason('');
   };
 
   const handleBackToAttendanceForm = () => {
@@ -428,6 +509,7 @@ export const AttendanceList: React.FC = () => {
     setEditingAttendanceData(cloneAttendanceEditData(data));
     setAttendanceBeforeEdit(cloneAttendanceEditData(data));
     setEditAttendanceStep('form');
+    setEditReason('');
     setShowModal(true);
   };
 
@@ -467,6 +549,7 @@ export const AttendanceList: React.FC = () => {
       const apiClockIn = convertTimeToJST(editingAttendanceData.clockIn, log.date);
       const apiClockOut = convertTimeToJST(editingAttendanceData.clockOut, log.date);
       const apiBreaks = convertBreakToApiFormat(editingAttendanceData.breaks, log.date);
+      const isLockedPeriod = isWorkDateInLockedPayrollPeriod(payrollLocks, log.employeeId, log.date, closingRules);
 
       // API呼び出し
       const updatedApiLog = await updateAttendance({
@@ -475,7 +558,8 @@ export const AttendanceList: React.FC = () => {
         clockIn: apiClockIn,
         clockOut: apiClockOut,
         breaks: apiBreaks,
-        dayTypeOverride: editingAttendanceData.dayTypeOverride
+        dayTypeOverride: editingAttendanceData.dayTypeOverride,
+        ...(isLockedPeriod ? { reason: editReason.trim() } : {})
       });
       
       // APIレスポンスをUI用の形式に変換してローカル状態を更新
@@ -491,6 +575,7 @@ export const AttendanceList: React.FC = () => {
       setEditingAttendanceData(null);
       setAttendanceBeforeEdit(null);
       setEditAttendanceStep('form');
+      setEditReason('');
       setSnackbar({ message: '勤務情報を更新しました', type: 'success' });
       setTimeout(() => setSnackbar(null), 3000);
     } catch (error) {
@@ -520,6 +605,20 @@ export const AttendanceList: React.FC = () => {
           onClose={() => setSnackbar(null)}
         />
       )}
+      <CsvExportModal
+        isOpen={showCsvExport}
+        title="勤怠情報のCSV出力"
+        target="attendance"
+        rows={csvRows}
+        columns={ATTENDANCE_CSV_COLUMNS}
+        fileName={`勤怠一覧_${searchStartDate}_${searchEndDate}`}
+        onClose={() => setShowCsvExport(false)}
+        onNotify={(message, type) => {
+          setSnackbar({ message, type });
+          setTimeout(() => setSnackbar(null), 3000);
+        }}
+        isMobile={isMobile}
+      />
       <h2 style={{ 
         marginBottom: isMobile ? '1rem' : '1.4rem', 
         marginTop: isMobile ? '0.5rem' : '0.75rem',
@@ -616,6 +715,32 @@ export const AttendanceList: React.FC = () => {
                     }}
                   />
                 </div>
+                <div style={{ flex: '1', minWidth: '100%' }}>
+                  <label style={{ display: 'block', marginBottom: '0.25rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                    部署
+                  </label>
+                  <select
+                    value={filterDepartmentId}
+                    onChange={(e) => setFilterDepartmentId(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '0.5rem 0.75rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      fontSize: '0.875rem',
+                      boxSizing: 'border-box',
+                      backgroundColor: 'white'
+                    }}
+                  >
+                    <option value="">すべて</option>
+                    {flattenDepartmentTree(departments).map(({ department, depth }) => (
+                      <option key={department.id} value={department.id}>
+                        {'　'.repeat(depth)}{department.name}
+                      </option>
+                    ))}
+                    <option value={NO_DEPARTMENT_KEY}>部署未設定</option>
+                  </select>
+                </div>
                 <div style={{ 
                   fontSize: fontSizes.medium, 
                   color: '#6b7280',
@@ -632,6 +757,25 @@ export const AttendanceList: React.FC = () => {
                     onClick={handleClearSearch}
                     fullWidth
                   />
+                  <Button
+                    variant="secondary"
+                    onClick={() => setShowCsvExport(true)}
+                    disabled={filteredLogs.length === 0}
+                    fullWidth
+                    style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                  >
+                    CSV出力
+                  </Button>
+                  {canEditAttendance && (
+                    <Button
+                      variant="secondary"
+                      onClick={() => navigate('/admin/attendance/import')}
+                      fullWidth
+                      style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                    >
+                      CSV取込
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
@@ -683,6 +827,33 @@ export const AttendanceList: React.FC = () => {
               }}
             />
           </div>
+          <div style={{ flex: isMobile ? '1' : '0 0 auto', minWidth: isMobile ? '100%' : '170px' }}>
+            <label style={{ display: 'block', marginBottom: '0.25rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+              部署
+            </label>
+            <select
+              value={filterDepartmentId}
+              onChange={(e) => setFilterDepartmentId(e.target.value)}
+              style={{
+                width: isMobile ? '100%' : '200px',
+                padding: '0.5rem 0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: '0.875rem',
+                boxSizing: 'border-box',
+                height: 'calc(0.5rem * 2 + 0.875rem + 2px)',
+                backgroundColor: 'white'
+              }}
+            >
+              <option value="">すべて</option>
+              {flattenDepartmentTree(departments).map(({ department, depth }) => (
+                <option key={department.id} value={department.id}>
+                  {'　'.repeat(depth)}{department.name}
+                </option>
+              ))}
+              <option value={NO_DEPARTMENT_KEY}>部署未設定</option>
+            </select>
+          </div>
           <div style={{ 
             fontSize: fontSizes.medium, 
             color: '#6b7280',
@@ -700,11 +871,63 @@ export const AttendanceList: React.FC = () => {
             <ClearButton
               onClick={handleClearSearch}
             />
+            <Button
+              variant="secondary"
+              onClick={() => setShowCsvExport(true)}
+              disabled={filteredLogs.length === 0}
+              style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+            >
+              CSV出力
+            </Button>
+            {canEditAttendance && (
+              <Button
+                variant="secondary"
+                onClick={() => navigate('/admin/attendance/import')}
+                style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+              >
+                CSV取込
+              </Button>
+            )}
           </div>
           </div>
         )}
       </div>
 
+      {/* 部署別の小計（部署マスタがある場合のみ） */}
+      {departments.length > 0 && departmentSubtotals.length > 0 && (
+        <div style={{
+          backgroundColor: '#f9fafb',
+          padding: '0.75rem 1rem',
+          borderRadius: '8px',
+          marginBottom: '1rem',
+          overflowX: 'auto'
+        }}>
+          <div style={{ fontWeight: 'bold', fontSize: fontSizes.label, marginBottom: '0.5rem' }}>部署別小計</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: fontSizes.tableCell, minWidth: '480px' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #d1d5db', color: '#6b7280' }}>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'left' }}>部署</th>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>勤務日数</th>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>労働時間</th>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>残業時間</th>
+                <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>深夜時間</th>
+              </tr>
+            </thead>
+            <tbody>
+              {departmentSubtotals.map(subtotal => (
+                <tr key={subtotal.label} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                  <td style={{ padding: '0.25rem 0.5rem' }}>{subtotal.label}</td>
+                  <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{subtotal.days}</td>
+                  <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{formatMinutesToTime(subtotal.workMinutes)}</td>
+                  <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{formatMinutesToTime(subtotal.overtimeMinutes)}</td>
+                  <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{formatMinutesToTime(subtotal.lateNightMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* 勤怠情報一覧 */}
       <div style={{
         backgroundColor: '#f9fafb',
@@ -825,11 +1048,12 @@ export const AttendanceList: React.FC = () => {
                   ) : (
                     <span
                       onClick={() => {
+                        if (!canEditAttendance) return;
                         setEditingMemoLogId(log.id);
                         setEditingMemo(log.memo || '');
                       }}
                       style={{
-                        cursor: 'pointer',
+                        cursor: canEditAttendance ? 'pointer' : 'default',
                         padding: '0.25rem 0.5rem',
                         borderRadius: '4px',
                         border: '1px solid transparent',
@@ -845,16 +1069,18 @@ export const AttendanceList: React.FC = () => {
                         e.currentTarget.style.borderColor = 'transparent';
                       }}
                     >
-                      {log.memo || '（クリックして編集）'}
+                      {log.memo || (canEditAttendance ? '（クリックして編集）' : '-')}
                     </span>
                   )}
                 </div>
-                <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
-                  <EditButton
-                    onClick={() => openAttendanceEdit(log)}
-                    size="small"
-                  />
-                </div>
+                {canEditAttendance && (
+                  <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+                    <EditButton
+                      onClick={() => openAttendanceEdit(log)}
+                      size="small"
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -977,11 +1203,12 @@ export const AttendanceList: React.FC = () => {
                         ) : (
                           <div
                             onClick={() => {
+                              if (!canEditAttendance) return;
                               setEditingMemoLogId(log.id);
                               setEditingMemo(log.memo || '');
                             }}
                             style={{
-                              cursor: 'pointer',
+                              cursor: canEditAttendance ? 'pointer' : 'default',
                               padding: '0.25rem 0.5rem',
                               borderRadius: '4px',
                               minHeight: '1.5rem',
@@ -999,9 +1226,9 @@ export const AttendanceList: React.FC = () => {
                               e.currentTarget.style.backgroundColor = 'transparent';
                               e.currentTarget.style.borderColor = 'transparent';
                             }}
-                            title={log.memo || '（クリックして編集）'}
+                            title={log.memo || (canEditAttendance ? '（クリックして編集）' : '-')}
                           >
-                            {log.memo || '（クリックして編集）'}
+                            {log.memo || (canEditAttendance ? '（クリックして編集）' : '-')}
                         </div>
                         )}
                       </td>
@@ -1018,7 +1245,7 @@ export const AttendanceList: React.FC = () => {
                         }) : '-'}
                       </td>
                       <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                        {isMobile ? (
+                        {!canEditAttendance ? null : isMobile ? (
                           <EditButton
                             onClick={() => openAttendanceEdit(log)}
                             size="small"
@@ -1078,6 +1305,22 @@ export const AttendanceList: React.FC = () => {
               if (!log) return null;
               const before = attendanceBeforeEdit;
               const after = editingAttendanceData;
+              const isLockedPeriod = !!log.employeeId &&
+                isWorkDateInLockedPayrollPeriod(payrollLocks, log.employeeId, log.date, closingRules);
+              const lockedPeriodWarning = isLockedPeriod && (
+                <div style={{
+                  marginBottom: '1rem',
+                  padding: '0.75rem 1rem',
+                  backgroundColor: '#fef3c7',
+                  border: '1px solid #fcd34d',
+                  borderRadius: '4px',
+                  color: '#92400e',
+                  fontSize: fontSizes.medium,
+                  lineHeight: 1.6
+                }}>
+                  この日の給与明細は振込済みでロックされています。修正しても給与明細は変わらないため、必要に応じて給与明細画面で調整明細を作成してください。
+                </div>
+              );
 
               if (editAttendanceStep === 'confirm') {
                 return (
@@ -1090,6 +1333,12 @@ export const AttendanceList: React.FC = () => {
                         <strong>日付:</strong> {formatDate(log.date)}
                       </div>
                     </div>
+                    {lockedPeriodWarning}
+                    {isLockedPeriod && (
+                      <div style={{ marginBottom: '1rem', fontSize: fontSizes.medium, color: '#374151' }}>
+                        <strong>修正理由:</strong> {editReason.trim()}
+                      </div>
+                    )}
                     <p style={{ fontSize: fontSizes.medium, color: '#374151', marginBottom: '1rem', lineHeight: 1.6 }}>
                       以下の内容で保存します。<strong>変更前</strong>と<strong>変更後</strong>をご確認ください。
                     </p>
@@ -1197,6 +1446,7 @@ export const AttendanceList: React.FC = () => {
                       <strong>日付:</strong> {formatDate(log.date)}
               </div>
             </div>
+                  {lockedPeriodWarning}
                   
                   <div style={{ marginBottom: '1rem' }}>
                     <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
@@ -1356,6 +1606,29 @@ export const AttendanceList: React.FC = () => {
                       + 休憩時間を追加
                     </button>
                   </div>
+
+                  {isLockedPeriod && (
+                    <div style={{ marginBottom: '1rem' }}>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                        修正理由 <span style={{ color: '#dc2626' }}>*</span>
+                      </label>
+                      <textarea
+                        value={editReason}
+                        onChange={(e) => setEditReason(e.target.value)}
+                        rows={3}
+                        placeholder="例: 打刻漏れの申告により退勤時刻を修正"
+                        style={{
+                          width: '100%',
+                          padding: '0.5rem',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          fontSize: fontSizes.input,
+                          boxSizing: 'border-box',
+                          resize: 'vertical'
+                        }}
+                      />
+                    </div>
+                  )}
                   
             <div style={{ display: 'flex', gap: '1rem', flexDirection: isMobile ? 'column-reverse' : 'row', justifyContent: 'flex-end' }}>
               <CancelButton
@@ -1368,12 +1641,14 @@ export const AttendanceList: React.FC = () => {
                 type="button"
                 variant="primary"
                 onClick={() => setEditAttendanceStep('confirm')}
+                disabled={isLockedPeriod && !editReason.trim()}
                 style={{
                   minWidth: '100px',
                   fontSize: fontSizes.button,
                   backgroundColor: '#16a34a',
                   border: '1px solid #16a34a',
-                  color: 'white'
+                  color: 'white',
+                  ...(isLockedPeriod && !editReason.trim() ? { opacity: 0.5, cursor: 'not-allowed' } : {})
                 }}
               >
                 確認
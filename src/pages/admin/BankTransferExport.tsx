@@ -0,0 +1,615 @@
+/**
+ * ファイル名: BankTransferExport.tsx
+ * 画面名: 振込データ作成画面
+ * 説明: 登録済みの給与・賞与明細の差引支給額から、全銀協フォーマットの総合振込データを作成する画面
+ * 機能:
+ *   - 振込元口座（振込依頼人）の設定
+ *   - 対象年月・明細種別（給与／賞与）の振込対象一覧表示
+ *   - 口座未登録・口座不備・支給額0円の従業員の除外表示
+ *   - 振込データ（Shift_JIS 固定長）のダウンロード
+ *   - 合計照合表のPDF出力
+ *   - 部署別の差引支給額の小計（閲覧範囲が「自分と部下のみ」の管理者は部下の明細のみ）
+ *   - 未公開（下書き・確定）の明細の除外表示と、振込済みの明細のロック（ロック後の訂正は調整明細で行う）
+ *   - 調整明細は訂正元の明細との差引支給額の差額を振り込む（振込済み（ロック）の明細は対象外）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { Button, SaveButton, PdfExportButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { formatCurrency } from '../../utils/formatters';
+import { getEmployees, type BankAccount, type BankAccountType, type EmployeeResponse } from '../../utils/employeeApi';
+import { getPayrollList, updatePayrollStatus, type PayrollListResponse } from '../../utils/payrollApi';
+import { getPayrollStatusLabel } from '../../utils/codeTranslator';
+import { getAdjustmentDifference, isPayrollStatementLocked } from '../../utils/payrollStatus';
+import { getTransferSource, updateTransferSource, type TransferSource } from '../../utils/transferSourceApi';
+import {
+  buildZenginRecords,
+  encodeZenginFile,
+  summarizeTransfersByBank,
+  toZenginKana,
+  validateBankAccount,
+  BANK_ACCOUNT_TYPE_LABELS,
+  type ZenginTransferItem
+} from '../../utils/zenginTransfer';
+import { exportTransferSheetPdf, formatBankAccountLabel } from '../../utils/transferSheetPdf';
+import { getPdfExportErrorMessage } from '../../utils/pdfLayout';
+import { useDepartments } from '../../hooks/useDepartments';
+import { getVisibleEmployeeIds, groupRowsByDepartment } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+
+/** 振込元口座の初期値（未設定） */
+const EMPTY_TRANSFER_SOURCE: TransferSource = {
+  requesterCode: '',
+  accountHolder: '',
+  bankCode: '',
+  bankName: '',
+  branchCode: '',
+  branchName: '',
+  accountType: 'ORDINARY',
+  accountNumber: ''
+};
+
+/** 振込対象一覧の1行 */
+interface TransferRow {
+  employee: EmployeeResponse;
+  payroll: PayrollListResponse;
+  /** 調整明細の訂正元の明細。通常の明細の場合は null */
+  original: PayrollListResponse | null;
+  /** 振込金額（調整明細は訂正元の明細との差引支給額の差額） */
+  amount: number;
+  /** 除外理由。振込対象の場合は null */
+  excludedReason: string | null;
+}
+
+/**
+ * 振込対象一覧の1行を作る。
+ *
+ * @param {EmployeeResponse} employee - 従業員。
+ * @param {PayrollListResponse} payroll - 明細。
+ * @param {PayrollListResponse | null | undefined} original - 調整明細の訂正元の明細。通常の明細の場合は null。
+ * @returns {TransferRow} 振込対象一覧の1行。
+ */
+const buildTransferRow = (
+  employee: EmployeeResponse,
+  payroll: PayrollListResponse,
+  original: PayrollListResponse | null | undefined
+): TransferRow => {
+  const isAdjustment = !!payroll.adjustsPayrollId;
+  const amount = isAdjustment && original ? getAdjustmentDifference(payroll, original).netPay : payroll.netPay;
+  let excludedReason: string | null = null;
+  if (isAdjustment && !original) {
+    excludedReason = '訂正元の明細が見つかりません';
+  } else if (isPayrollStatementLocked(payroll.status)) {
+    excludedReason = '振込済み（ロック）';
+  } else if (payroll.status === 'draft' || !payroll.status) {
+    excludedReason = '明細が未確定（下書き）';
+  } else if (payroll.status !== 'published') {
+    excludedReason = '明細が未公開';
+  } else if (amount <= 0) {
+    excludedReason = isAdjustment ? '訂正元の明細との差額が0円以下' : '差引支給額が0円以下';
+  } else {
+    const errors = validateBankAccount(employee.bankAccount);
+    if (errors.length > 0) excludedReason = errors[0];
+  }
+  return { employee, payroll, original: original ?? null, amount, excludedReason };
+};
+
+/**
+ * 振込データ作成画面コンポーネント。
+ * 給与明細として公開済みの明細のみを対象とし、下書き・確定の明細と勤怠集計のプレビューは含めません。
+ * 振込済み（ロック）の明細は対象外とし、その訂正の調整明細は訂正元の明細との差額を振り込みます。
+ *
+ * @returns {JSX.Element} 振込データ作成画面コンポーネント。
+ */
+export const BankTransferExport: React.FC = () => {
+  const today = new Date();
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [year, setYear] = useState<number>(today.getFullYear());
+  const [month, setMonth] = useState<number>(today.getMonth() + 1);
+  const [statementType, setStatementType] = useState<'salary' | 'bonus'>('salary');
+  const [transferDate, setTransferDate] = useState<string>(
+    `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-25`
+  );
+  const [transferSource, setTransferSource] = useState<TransferSource>(EMPTY_TRANSFER_SOURCE);
+  const [rows, setRows] = useState<TransferRow[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{
+    isOpen: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+  const { departments } = useDepartments();
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 振込元口座を取得
+  useEffect(() => {
+    const fetchTransferSource = async () => {
+      try {
+        const source = await getTransferSource();
+        if (source) setTransferSource({ ...EMPTY_TRANSFER_SOURCE, ...source });
+      } catch (error) {
+        logError('Failed to fetch transfer source:', error);
+      }
+    };
+    fetchTransferSource();
+  }, []);
+
+  // 対象年月・明細種別の登録済み明細を取得
+  useEffect(() => {
+    const fetchRows = async () => {
+      setIsLoading(true);
+      try {
+        const fiscalYear = month >= 4 ? year : year - 1;
+        const allEmployees = await getEmployees();
+        const visibleEmployeeIds = getVisibleEmployeeIds(allEmployees, getUserInfo().employeeId);
+        const employees = visibleEmployeeIds ? allEmployees.filter(emp => visibleEmployeeIds.has(emp.id)) : allEmployees;
+        const results = await Promise.all(
+          employees.map(async employee => {
+            const records = await getPayrollList(employee.id, fiscalYear);
+            // 対象年月・明細種別の明細と、その訂正の調整明細（調整明細の訂正元は直前の明細または調整明細）
+            return records
+              .filter(r => r.year === year && r.month === month && r.statementType === statementType)
+              .map(payroll => buildTransferRow(
+                employee,
+                payroll,
+                payroll.adjustsPayrollId ? records.find(r => r.payrollId === payroll.adjustsPayrollId) : null
+              ));
+          })
+        );
+        setRows(results.flat());
+      } catch (error) {
+        logError('Failed to fetch payroll statements for transfer:', error);
+        setRows([]);
+        setSnackbar({ message: '給与明細の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchRows();
+  }, [year, month, statementType]);
+
+  const transferItems = useMemo<ZenginTransferItem[]>(
+    () => rows
+      .filter(row => row.excludedReason === null && row.employee.bankAccount)
+      .map(row => ({ ...(row.employee.bankAccount as BankAccount), amount: row.amount })),
+    [rows]
+  );
+
+  /** 部署別の差引支給額の小計（振込対象・対象外を含む登録済み明細） */
+  const departmentSubtotals = useMemo(
+    () => groupRowsByDepartment(rows, row => row.employee.departmentId, departments).map(group => ({
+      label: group.label,
+      count: group.rows.length,
+      amount: group.rows.reduce((sum, row) => sum + row.amount, 0)
+    })),
+    [rows, departments]
+  );
+
+  const totals = useMemo(() => {
+    const statementTotal = rows.reduce((sum, row) => sum + row.amount, 0);
+    const transferTotal = transferItems.reduce((sum, item) => sum + item.amount, 0);
+    const excludedRows = rows.filter(row => row.excludedReason !== null);
+    const excludedTotal = excludedRows.reduce((sum, row) => sum + row.amount, 0);
+    return {
+      statementCount: rows.length,
+      statementTotal,
+      transferCount: transferItems.length,
+      transferTotal,
+      excludedCount: excludedRows.length,
+      excludedTotal,
+      isBalanced: statementTotal === transferTotal + excludedTotal
+    };
+  }, [rows, transferItems]);
+
+  const bankSummary = useMemo(() => summarizeTransfersByBank(transferItems), [transferItems]);
+
+  const sourceErrors = useMemo(() => {
+    const errors = validateBankAccount(transferSource);
+    if (!/^\d{10}$/.test(transferSource.requesterCode)) {
+      errors.unshift('振込依頼人コードは10桁の数字で入力してください');
+    }
+    return errors;
+  }, [transferSource]);
+
+  const statementLabel = statementType === 'salary' ? '給与' : '賞与';
+
+  const handleSaveTransferSource = async () => {
+    if (sourceErrors.length > 0) {
+      setSnackbar({ message: sourceErrors[0], type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    try {
+      const saved = await updateTransferSource({
+        ...transferSource,
+        accountHolder: toZenginKana(transferSource.accountHolder).trim()
+      });
+      setTransferSource({ ...EMPTY_TRANSFER_SOURCE, ...saved });
+      setSnackbar({ message: '振込元口座を保存しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save transfer source:', error);
+      const errorMessage = error instanceof Error ? error.message : '振込元口座の保存に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDownload = () => {
+    if (sourceErrors.length > 0) {
+      setSnackbar({ message: `振込元口座: ${sourceErrors[0]}`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (transferItems.length === 0) {
+      setSnackbar({ message: '振込対象がありません', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    try {
+      const records = buildZenginRecords(transferSource, transferDate, transferItems);
+      const blob = new Blob([encodeZenginFile(records)], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `振込データ_${statementLabel}_${year}${String(month).padStart(2, '0')}.txt`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setSnackbar({ message: `${transferItems.length}件の振込データを出力しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to build transfer file:', error);
+      const errorMessage = error instanceof Error ? error.message : '振込データの作成に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  /** 振込対象の明細（ロックした明細は振込済みとして対象外になる） */
+  const unlockedTransferRows = useMemo(
+    () => rows.filter(row => row.excludedReason === null),
+    [rows]
+  );
+
+  const lockStatements = async (targetRows: TransferRow[]) => {
+    setIsLoading(true);
+    const lockedIds = new Set<string>();
+    try {
+      for (const row of targetRows) {
+        await updatePayrollStatus(row.payroll.payrollId, 'locked');
+        lockedIds.add(row.payroll.payrollId);
+      }
+      setSnackbar({ message: `${lockedIds.size}件の明細をロックしました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to lock payroll statements:', error);
+      const errorMessage = translateApiError(error);
+      setSnackbar({
+        message: lockedIds.size > 0 ? `${lockedIds.size}件の明細をロックしましたが、残りのロックに失敗しました: ${errorMessage}` : errorMessage,
+        type: 'error'
+      });
+      setTimeout(() => setSnackbar(null), 5000);
+    } finally {
+      // 途中で失敗した場合も、ロックできた明細は画面に反映する
+      if (lockedIds.size > 0) {
+        setRows(prev => prev.map(row =>
+          lockedIds.has(row.payroll.payrollId)
+            ? buildTransferRow(row.employee, { ...row.payroll, status: 'locked' }, row.original)
+            : row
+        ));
+      }
+      setIsLoading(false);
+    }
+  };
+
+  const handleLockStatements = () => {
+    if (unlockedTransferRows.length === 0) return;
+    const targetRows = unlockedTransferRows;
+    setConfirmModal({
+      isOpen: true,
+      title: '振込済みとしてロック',
+      message: `振込対象の${targetRows.length}件の明細を振込済みとしてロックしますか？ロックした明細は編集できなくなり、訂正は調整明細で行います。`,
+      onConfirm: () => {
+        setConfirmModal(null);
+        lockStatements(targetRows);
+      }
+    });
+  };
+
+  const handleExportSheet = async () => {
+    try {
+      await exportTransferSheetPdf({
+        year,
+        month,
+        statementLabel,
+        transferDate,
+        source: transferSource,
+        totals,
+        bankSummary,
+        rows: rows.map(row => ({
+          employeeName: `${row.employee.firstName} ${row.employee.lastName}${row.payroll.adjustsPayrollId ? '（調整）' : ''}`,
+          bankAccount: row.employee.bankAccount,
+          netPay: row.amount,
+          excludedReason: row.excludedReason
+        }))
+      });
+    } catch (error) {
+      logError('Failed to export reconciliation sheet:', error);
+      setSnackbar({ message: getPdfExportErrorMessage(error, '照合表の出力に失敗しました'), type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.25rem',
+    fontSize: fontSizes.medium,
+    color: '#6b7280'
+  };
+
+  const sourceField = (label: string, field: keyof TransferSource, maxLength?: number) => (
+    <div>
+      <label style={labelStyle}>{label}</label>
+      <input
+        type="text"
+        value={transferSource[field] ?? ''}
+        onChange={(e) => setTransferSource({ ...transferSource, [field]: e.target.value })}
+        maxLength={maxLength}
+        style={inputStyle}
+      />
+    </div>
+  );
+
+  return (
+    <div>
+      {isLoading && <ProgressBar isLoading={isLoading} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title={confirmModal.title}
+          message={confirmModal.message}
+          onConfirm={confirmModal.onConfirm}
+          onCancel={() => setConfirmModal(null)}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        振込データ作成
+      </h2>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '360px 1fr',
+        gap: '1.5rem',
+        alignItems: 'start'
+      }}>
+        {/* 振込元口座 */}
+        <div style={{ backgroundColor: '#f9fafb', padding: '1rem', borderRadius: '8px' }}>
+          <h3 style={{ marginTop: 0, marginBottom: '1rem', fontSize: fontSizes.large }}>振込元口座</h3>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            {sourceField('振込依頼人コード（10桁）', 'requesterCode', 10)}
+            {sourceField('振込依頼人名（カナ）', 'accountHolder', 40)}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '0.5rem' }}>
+              {sourceField('金融機関コード', 'bankCode', 4)}
+              {sourceField('金融機関名（カナ）', 'bankName', 15)}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '0.5rem' }}>
+              {sourceField('支店コード', 'branchCode', 3)}
+              {sourceField('支店名（カナ）', 'branchName', 15)}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '0.5rem' }}>
+              <div>
+                <label style={labelStyle}>預金種目</label>
+                <select
+                  value={transferSource.accountType}
+                  onChange={(e) => setTransferSource({ ...transferSource, accountType: e.target.value as BankAccountType })}
+                  style={{ ...inputStyle, backgroundColor: 'white' }}
+                >
+                  {(Object.keys(BANK_ACCOUNT_TYPE_LABELS) as BankAccountType[]).map(type => (
+                    <option key={type} value={type}>{BANK_ACCOUNT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              {sourceField('口座番号', 'accountNumber', 7)}
+            </div>
+            <SaveButton type="button" fullWidth onClick={handleSaveTransferSource} />
+          </div>
+        </div>
+
+        {/* 振込対象 */}
+        <div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'end', marginBottom: '1rem' }}>
+            <div>
+              <label style={labelStyle}>対象年月</label>
+              <div style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+                <input
+                  type="number"
+                  value={year}
+                  onChange={(e) => setYear(Number(e.target.value))}
+                  style={{ ...inputStyle, width: '6rem' }}
+                />
+                <span>年</span>
+                <select value={month} onChange={(e) => setMonth(Number(e.target.value))} style={{ ...inputStyle, width: '5rem', backgroundColor: 'white' }}>
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+                <span>月</span>
+              </div>
+            </div>
+            <div>
+              <label style={labelStyle}>明細種別</label>
+              <select
+                value={statementType}
+                onChange={(e) => setStatementType(e.target.value as 'salary' | 'bonus')}
+                style={{ ...inputStyle, width: '7rem', backgroundColor: 'white' }}
+              >
+                <option value="salary">給与</option>
+                <option value="bonus">賞与</option>
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>振込指定日</label>
+              <input
+                type="date"
+                value={transferDate}
+                onChange={(e) => setTransferDate(e.target.value)}
+                style={{ ...inputStyle, width: '11rem' }}
+              />
+            </div>
+            <Button variant="primary" type="button" onClick={handleDownload} disabled={isLoading}>
+              振込データ出力
+            </Button>
+            <Button variant="secondary" type="button" onClick={handleLockStatements} disabled={isLoading || unlockedTransferRows.length === 0}>
+              振込済みとしてロック
+            </Button>
+            <PdfExportButton type="button" title="合計照合表をPDF出力" onClick={handleExportSheet} disabled={isLoading || rows.length === 0} />
+          </div>
+
+          {/* 合計照合 */}
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: isMobile ? '1fr' : 'repeat(3, 1fr)',
+            gap: '0.75rem',
+            marginBottom: '1rem'
+          }}>
+            {[
+              { label: '登録済み明細', count: totals.statementCount, amount: totals.statementTotal, color: '#1f2937' },
+              { label: '振込対象', count: totals.transferCount, amount: totals.transferTotal, color: '#065f46' },
+              { label: '対象外', count: totals.excludedCount, amount: totals.excludedTotal, color: '#991b1b' }
+            ].map(item => (
+              <div key={item.label} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+                <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{item.label}</div>
+                <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: item.color }}>
+                  {item.count}件 / {formatCurrency(item.amount)}
+                </div>
+              </div>
+            ))}
+          </div>
+          {departments.length > 0 && departmentSubtotals.length > 0 && (
+            <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px', marginBottom: '1rem' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white', fontSize: fontSizes.tableCell }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+                    <th style={{ padding: '0.5rem 0.75rem', textAlign: 'left', whiteSpace: 'nowrap' }}>部署</th>
+                    <th style={{ padding: '0.5rem 0.75rem', textAlign: 'right', whiteSpace: 'nowrap' }}>件数</th>
+                    <th style={{ padding: '0.5rem 0.75rem', textAlign: 'right', whiteSpace: 'nowrap' }}>差引支給額</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {departmentSubtotals.map(subtotal => (
+                    <tr key={subtotal.label} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                      <td style={{ padding: '0.5rem 0.75rem' }}>{subtotal.label}</td>
+                      <td style={{ padding: '0.5rem 0.75rem', textAlign: 'right' }}>{subtotal.count}件</td>
+                      <td style={{ padding: '0.5rem 0.75rem', textAlign: 'right' }}>{formatCurrency(subtotal.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {!totals.isBalanced && (
+            <div style={{ padding: '0.75rem', marginBottom: '1rem', backgroundColor: '#fee2e2', color: '#991b1b', borderRadius: '8px' }}>
+              明細合計と「振込対象＋対象外」の合計が一致しません
+            </div>
+          )}
+
+          <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+                  <th style={{ padding: '0.75rem', textAlign: 'left', whiteSpace: 'nowrap' }}>従業員</th>
+                  <th style={{ padding: '0.75rem', textAlign: 'left', whiteSpace: 'nowrap' }}>振込先</th>
+                  <th style={{ padding: '0.75rem', textAlign: 'left', whiteSpace: 'nowrap' }}>口座名義</th>
+                  <th style={{ padding: '0.75rem', textAlign: 'right', whiteSpace: 'nowrap' }}>差引支給額</th>
+                  <th style={{ padding: '0.75rem', textAlign: 'left', whiteSpace: 'nowrap' }}>状態</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} style={{ padding: '2rem', textAlign: 'center', color: '#6b7280' }}>
+                      {year}年{month}月の{statementLabel}明細は登録されていません
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map(row => {
+                    const account = row.employee.bankAccount;
+                    return (
+                      <tr key={row.payroll.payrollId} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                        <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
+                          {row.employee.firstName} {row.employee.lastName}
+                          {row.payroll.adjustsPayrollId ? '（調整）' : ''}
+                        </td>
+                        <td style={{ padding: '0.75rem', whiteSpace: 'nowrap', fontSize: fontSizes.small }}>
+                          {account ? formatBankAccountLabel(account) : '-'}
+                        </td>
+                        <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>{account?.accountHolder ?? '-'}</td>
+                        <td style={{ padding: '0.75rem', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                          {formatCurrency(row.amount)}
+                          {row.original && (
+                            <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                              訂正元との差額（{formatCurrency(row.original.netPay)} → {formatCurrency(row.payroll.netPay)}）
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
+                          {row.excludedReason === null ? (
+                            <span style={{ padding: '0.25rem 0.5rem', borderRadius: '4px', backgroundColor: '#d1fae5', color: '#065f46', fontSize: fontSizes.badge }}>
+                              振込対象
+                            </span>
+                          ) : isPayrollStatementLocked(row.payroll.status) ? (
+                            <span style={{ padding: '0.25rem 0.5rem', borderRadius: '4px', backgroundColor: '#f3f4f6', color: '#374151', fontSize: fontSizes.badge }}>
+                              振込済み（{getPayrollStatusLabel('locked')}）
+                            </span>
+                          ) : (
+                            <span style={{ padding: '0.25rem 0.5rem', borderRadius: '4px', backgroundColor: '#fee2e2', color: '#991b1b', fontSize: fontSizes.badge }}>
+                              対象外: {row.excludedReason}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,333 @@
+/**
+ * ファイル名: CompanyHolidayMaster.tsx
+ * 画面名: 休日カレンダー画面
+ * 説明: 所定労働日数・休日出勤の判定に使う休日（国民の祝日・会社休日）を確認・管理する画面
+ * 機能:
+ *   - 会社休日（年末年始・お盆 等）の期間登録
+ *   - 会社休日の一覧表示・削除
+ *   - 指定年の国民の祝日・振替休日の一覧表示（自動算出のため編集不可）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getCompanyHolidays,
+  createCompanyHoliday,
+  deleteCompanyHoliday,
+  type CompanyHoliday
+} from '../../utils/companyHolidayApi';
+import { getNationalHolidays } from '../../utils/holidayCalendar';
+import { error as logError } from '../../utils/logger';
+
+const DAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+/** YYYY-MM-DD を「2025年12月29日(月)」形式に変換 */
+const formatDateWithDay = (ymd: string): string => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return `${y}年${m}月${d}日(${DAY_NAMES[new Date(y, m - 1, d).getDay()]})`;
+};
+
+/** 会社休日の期間表示（1日だけの場合は開始日のみ） */
+const formatHolidayRange = (holiday: Pick<CompanyHoliday, 'startDate' | 'endDate'>): string =>
+  holiday.startDate === holiday.endDate
+    ? formatDateWithDay(holiday.startDate)
+    : `${formatDateWithDay(holiday.startDate)} 〜 ${formatDateWithDay(holiday.endDate)}`;
+
+/**
+ * 休日カレンダー画面コンポーネント。
+ * 国民の祝日は自動算出し、会社独自の休業日のみ登録・削除できます。
+ *
+ * @returns {JSX.Element} 休日カレンダー画面コンポーネント。
+ */
+export const CompanyHolidayMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [holidays, setHolidays] = useState<CompanyHoliday[]>([]);
+  const [_isLoading, setIsLoading] = useState<boolean>(true);
+  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  const [formData, setFormData] = useState<{ name: string; startDate: string; endDate: string }>({
+    name: '',
+    startDate: '',
+    endDate: ''
+  });
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 会社休日をAPIから取得
+  useEffect(() => {
+    const fetchHolidays = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getCompanyHolidays();
+        setHolidays(response.holidays);
+      } catch (error) {
+        logError('Failed to fetch company holidays:', error);
+        setSnackbar({ message: '会社休日の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHolidays();
+  }, []);
+
+  /** 選択年にかかる会社休日（開始日の昇順） */
+  const yearHolidays = useMemo(() => {
+    const yearStart = `${selectedYear}-01-01`;
+    const yearEnd = `${selectedYear}-12-31`;
+    return holidays
+      .filter(h => h.startDate <= yearEnd && h.endDate >= yearStart)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }, [holidays, selectedYear]);
+
+  const nationalHolidays = useMemo(
+    () => Array.from(getNationalHolidays(selectedYear).entries()),
+    [selectedYear]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    const endDate = formData.endDate || formData.startDate;
+    if (!name || !formData.startDate) {
+      setSnackbar({ message: '名称と開始日を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (endDate < formData.startDate) {
+      setSnackbar({ message: '終了日は開始日以降の日付を指定してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (holidays.some(h => h.startDate <= endDate && h.endDate >= formData.startDate)) {
+      setSnackbar({ message: '登録済みの会社休日と期間が重なっています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    try {
+      const created = await createCompanyHoliday({ name, startDate: formData.startDate, endDate });
+      setHolidays([...holidays, created]);
+      setFormData({ name: '', startDate: '', endDate: '' });
+      setSnackbar({ message: '会社休日を登録しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save company holiday:', error);
+      const errorMessage = error instanceof Error ? error.message : '会社休日の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDelete = (holiday: CompanyHoliday) => {
+    setConfirmModal({ isOpen: true, id: holiday.id, name: holiday.name });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteCompanyHoliday(confirmModal.id);
+        setHolidays(holidays.filter(h => h.id !== confirmModal.id));
+        setSnackbar({ message: '会社休日を削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete company holiday:', error);
+        const errorMessage = error instanceof Error ? error.message : '会社休日の削除に失敗しました';
+        setSnackbar({ message: errorMessage, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`「${confirmModal.name}」を削除しますか？`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        休日カレンダー
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        土日・国民の祝日・会社休日は所定労働日数から除かれ、出勤した場合は休日出勤として集計されます。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            会社休日の登録
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                名称 *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="例: 年末年始休暇"
+                style={inputStyle}
+                required
+              />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  開始日 *
+                </label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  style={inputStyle}
+                  required
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  終了日
+                </label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.startDate || undefined}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              1日だけの休日は終了日を空欄にしてください。
+            </p>
+            <RegisterButton
+              fullWidth
+              type="submit"
+            />
+          </form>
+        </div>
+        <div>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '0.7rem' }}>
+            <h3 style={{ margin: 0, fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+              {selectedYear}年の休日
+            </h3>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(Number(e.target.value))}
+              style={{
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: fontSizes.input
+              }}
+            >
+              {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - 2 + i).map(year => (
+                <option key={year} value={year}>{year}年</option>
+              ))}
+            </select>
+          </div>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>会社休日</div>
+            {yearHolidays.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された会社休日がありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', marginBottom: '1.5rem' }}>
+                {yearHolidays.map((holiday) => (
+                  <div
+                    key={holiday.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center'
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>{holiday.name}</div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        {formatHolidayRange(holiday)}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <DeleteButton
+                        onClick={() => handleDelete(holiday)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div style={{ fontWeight: 'bold', margin: '1rem 0 0.5rem 0' }}>国民の祝日（自動算出）</div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+              <tbody>
+                {nationalHolidays.map(([ymd, name]) => (
+                  <tr key={ymd} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                    <td style={{ padding: '0.5rem', color: '#dc2626', whiteSpace: 'nowrap' }}>
+                      {formatDateWithDay(ymd)}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>{name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+/**
+ * ファイル名: DepartmentMaster.tsx
+ * 画面名: 部署マスタ画面
+ * 説明: 従業員の所属部署をツリー構造（本社 > 営業部 > 第一営業課 など）で管理する画面
+ * 機能:
+ *   - 部署の新規登録・編集・削除
+ *   - 親部署・表示順の設定
+ *   - 所属部署としての選択可否（無効化）の設定
+ */
+
+import { useState, useEffect } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, UpdateButton, CancelButton, EditButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getDepartments,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  type Department
+} from '../../utils/departmentApi';
+import { flattenDepartmentTree, getDepartmentWithDescendantIds, wouldCreateDepartmentCycle } from '../../utils/department';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { error as logError } from '../../utils/logger';
+
+/** 入力フォームの状態（数値は入力中の文字列のまま保持） */
+interface DepartmentForm {
+  name: string;
+  parentId: string;
+  displayOrder: string;
+  isActive: boolean;
+}
+
+const createEmptyForm = (): DepartmentForm => ({
+  name: '',
+  parentId: '',
+  displayOrder: '1',
+  isActive: true
+});
+
+/**
+ * 部署マスタ画面コンポーネント。
+ * 登録した部署は、従業員の所属部署と一覧画面の部署での絞り込み・小計に使われます。
+ *
+ * @returns {JSX.Element} 部署マスタ画面コンポーネント。
+ */
+export const DepartmentMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [formData, setFormData] = useState<DepartmentForm>(createEmptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 部署と所属人数の集計に使う従業員をAPIから取得
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [departmentList, employeeList] = await Promise.all([getDepartments(), getEmployees()]);
+        setDepartments(departmentList);
+        setEmployees(employeeList);
+      } catch (error) {
+        logError('Failed to fetch departments:', error);
+        setSnackbar({ message: '部署の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const departmentTree = flattenDepartmentTree(departments);
+
+  /** 部署に所属する在籍中の従業員数（配下の部署を含む） */
+  const countMembers = (departmentId: string): number => {
+    const ids = getDepartmentWithDescendantIds(departments, departmentId);
+    return employees.filter(emp => !emp.leaveDate && emp.departmentId && ids.has(emp.departmentId)).length;
+  };
+
+  const showError = (message: string) => {
+    setSnackbar({ message, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    const parentId = formData.parentId || null;
+    if (!name) {
+      showError('部署名を入力してください');
+      return;
+    }
+    if (departments.some(d => d.id !== editingId && d.parentId === parentId && d.name === name)) {
+      showError('同じ親部署に同じ名前の部署が登録されています');
+      return;
+    }
+    if (editingId && wouldCreateDepartmentCycle(departments, editingId, parentId)) {
+      showError('自分自身や配下の部署は親部署にできません');
+      return;
+    }
+    const displayOrder = Number(formData.displayOrder);
+    if (!Number.isInteger(displayOrder) || displayOrder < 1) {
+      showError('表示順は1以上の整数で入力してください');
+      return;
+    }
+
+    const payload = { name, parentId, displayOrder, isActive: formData.isActive };
+
+    try {
+      if (editingId) {
+        const updated = await updateDepartment(editingId, payload);
+        setDepartments(departments.map(d => d.id === editingId ? updated : d));
+        setSnackbar({ message: '部署を更新しました', type: 'success' });
+      } else {
+        const created = await createDepartment(payload);
+        setDepartments([...departments, created]);
+        setSnackbar({ message: '部署を登録しました', type: 'success' });
+      }
+      setFormData(createEmptyForm());
+      setEditingId(null);
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save department:', error);
+      const errorMessage = error instanceof Error ? error.message : '部署の保存に失敗しました';
+      showError(errorMessage);
+    }
+  };
+
+  const handleEdit = (department: Department) => {
+    setFormData({
+      name: department.name,
+      parentId: department.parentId ?? '',
+      displayOrder: String(department.displayOrder),
+      isActive: department.isActive
+    });
+    setEditingId(department.id);
+  };
+
+  const handleCancel = () => {
+    setFormData(createEmptyForm());
+    setEditingId(null);
+  };
+
+  const handleDelete = (department: Department) => {
+    if (departments.some(d => d.parentId === department.id)) {
+      showError('配下の部署がある部署は削除できません');
+      return;
+    }
+    setConfirmModal({ isOpen: true, id: department.id, name: department.name });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteDepartment(confirmModal.id);
+        setDepartments(departments.filter(d => d.id !== confirmModal.id));
+        setSnackbar({ message: '部署を削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete department:', error);
+        const errorMessage = error instanceof Error ? error.message : '部署の削除に失敗しました';
+        showError(errorMessage);
+      }
+    }
+  };
+
+  /** 親部署に選べる部署（編集中の部署と配下の部署を除く） */
+  const parentCandidates = departmentTree.filter(({ department }) =>
+    !editingId || !wouldCreateDepartmentCycle(departments, editingId, department.id)
+  );
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' };
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`部署「${confirmModal.name}」を削除しますか？所属する従業員がいる場合は削除できないため、無効にしてください。`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        部署マスタ
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        部署を選んだ絞り込みや部署別の小計には、配下の部署に所属する従業員も含まれます。使わなくなった部署は無効にすると、所属部署として選べなくなります。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            {editingId ? '部署の編集' : '部署の登録'}
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={labelStyle}>部署名 *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="営業部"
+                style={inputStyle}
+                required
+              />
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={labelStyle}>親部署</label>
+                <select
+                  value={formData.parentId}
+                  onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
+                  style={{ ...inputStyle, fontSize: fontSizes.select, backgroundColor: 'white' }}
+                >
+                  <option value="">なし（最上位）</option>
+                  {parentCandidates.map(({ department, path }) => (
+                    <option key={department.id} value={department.id}>{path}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>表示順 *</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.displayOrder}
+                  onChange={(e) => setFormData({ ...formData, displayOrder: e.target.value })}
+                  style={inputStyle}
+                  required
+                />
+              </div>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              所属部署として選択できる
+            </label>
+            <div style={{ display: 'flex', gap: '0.4rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+              {editingId && (
+                <CancelButton
+                  fullWidth
+                  type="button"
+                  onClick={handleCancel}
+                />
+              )}
+              {editingId ? (
+                <UpdateButton
+                  fullWidth
+                  type="submit"
+                />
+              ) : (
+                <RegisterButton
+                  fullWidth
+                  type="submit"
+                />
+              )}
+            </div>
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            登録済みの部署
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {isLoading ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>読み込み中...</p>
+            ) : departmentTree.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された部署がありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                {departmentTree.map(({ department, depth }) => (
+                  <div
+                    key={department.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '0.75rem 1rem',
+                      marginLeft: `${depth * 1.5}rem`,
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      opacity: department.isActive ? 1 : 0.6
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold' }}>
+                        {department.name}
+                        {!department.isActive && (
+                          <span style={{
+                            marginLeft: '0.5rem',
+                            fontSize: fontSizes.badge,
+                            color: '#991b1b',
+                            padding: '0.125rem 0.5rem',
+                            backgroundColor: '#fee2e2',
+                            borderRadius: '4px'
+                          }}>
+                            無効
+                          </span>
+                        )}
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        所属 {countMembers(department.id)}人（配下の部署を含む）
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <EditButton
+                        onClick={() => handleEdit(department)}
+                      />
+                      <DeleteButton
+                        onClick={() => handleDelete(department)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
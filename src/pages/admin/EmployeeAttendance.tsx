@@ -6,13 +6,14 @@
  *   - 特定従業員の出勤簿表示
  *   - 年月での検索機能
  *   - サマリー情報表示
- *   - PDF出力機能
+ *   - PDF出力機能（文字と表で描画し、日数が多い場合は改ページして列見出しを繰り返す）
+ *   - 勤怠の代理入力（勤怠の修正権限を持つ権限ロールのみ。給与明細がロックされた締め月の日付は修正理由が必要）
+ *   - 閲覧範囲外の従業員（拠点管理者の他拠点・部下のみの管理者の部下以外）の出勤簿は URL を直接指定しても表示しない
  */
 
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { useAuth } from '../../contexts/AuthContext';
 import { Snackbar } from '../../components/Snackbar';
 import { ProgressBar } from '../../components/ProgressBar';
 import { PdfExportButton } from '../../components/Button';
@@ -27,8 +28,12 @@ import {
   type DailyLaborRow,
   type DayTypeOverride
 } from '../../utils/attendanceApi';
-import { getEmployees } from '../../utils/employeeApi';
+import { getEmployees, type PrescribedWorkContract } from '../../utils/employeeApi';
 import { getPaidLeaveBalance, PaidLeaveBalance } from '../../utils/paidLeaveApi';
+import { getLeaveRequestList } from '../../utils/leaveRequestApi';
+import { mergeHourlyPaidLeaveIntoDailyLabor } from '../../utils/hourlyPaidLeave';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
 import { error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import {
@@ -38,9 +43,19 @@ import {
   formatPayrollPeriodRangeJapanese,
   getPayrollPeriodBounds,
   computePayrollPeriodDayStats,
-  prescribedWorkingMinutesFromScheduledWeekdays
+  prescribedWorkingMinutesFromScheduledWeekdays,
+  listScheduledWorkDates,
+  resolvePayrollClosingDay,
+  describePayrollPeriodRule
 } from '../../utils/payrollPeriod';
 import { sumAttendanceTableColumnTotals } from '../../utils/attendanceTableTotals';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { getShifts, type Shift } from '../../utils/shiftApi';
+import { getPayrollLocks, type PayrollPeriodLock } from '../../utils/payrollApi';
+import { isWorkDateInLockedPayrollPeriod } from '../../utils/payrollStatus';
+import { compareShiftWithStamp, formatShiftTimeRange, type ShiftDeviation } from '../../utils/shiftComparison';
+import { createPdfLayout, getPdfExportErrorMessage, loadPdfAssets, type PdfTableRow } from '../../utils/pdfLayout';
 
 /**
  * 休憩時間を表すインターフェース。
@@ -169,16 +184,113 @@ const formatMinutesCell = (minutes: number | null | undefined): string => {
   return formatMinutesToTime(minutes);
 };
 
+/**
+ * 出勤簿の1日分の時間欄（画面の表とPDFで共通）。
+ * 日別労働内訳（API dailyLabor）があれば打刻労働・有給時間・稼働時間はそれを使い、無ければ勤怠ログの労働時間を使う。
+ */
+const getAttendanceRowCells = (log: AttendanceLog | undefined, dl: DailyLaborRow | undefined) => {
+  let stampWork = '-';
+  let paidLeaveDisp = '-';
+  let laborTotal = '-';
+  let overtime = '-';
+  let lateNight = '-';
+  let breakTime = '-';
+
+  if (dl) {
+    stampWork = formatMinutesCell(dl.timeRecordMinutes);
+    paidLeaveDisp = formatMinutesToTime(dl.paidLeaveMinutes);
+    laborTotal = formatMinutesToTime(dl.laborMinutes);
+  } else if (log) {
+    const tw = log.totalWorkMinutes;
+    if (tw !== undefined && tw !== null) {
+      stampWork = formatMinutesToTime(tw);
+      laborTotal = formatMinutesToTime(tw);
+    }
+  }
+
+  if (log) {
+    overtime = formatMinutesToTime(log.overtimeMinutes ?? 0);
+    lateNight = formatMinutesToTime(log.lateNightMinutes ?? 0);
+
+    let breakMinutes = 0;
+    log.breaks.forEach(breakItem => {
+      if (!breakItem.startIso || !breakItem.endIso) return;
+      try {
+        const startDate = parseJSTDateTime(breakItem.startIso);
+        const endDate = parseJSTDateTime(breakItem.endIso);
+        if (startDate && endDate) {
+          breakMinutes += Math.max(0, Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60)));
+        }
+      } catch {
+        if (breakItem.start && breakItem.end) {
+          const [bStartHour, bStartMinute] = breakItem.start.split(':').map(Number);
+          const [bEndHour, bEndMinute] = breakItem.end.split(':').map(Number);
+          breakMinutes += Math.max(0, (bEndHour * 60 + bEndMinute) - (bStartHour * 60 + bStartMinute));
+        }
+      }
+    });
+    breakTime = formatMinutesToTime(breakMinutes);
+  }
+
+  return { stampWork, paidLeaveDisp, laborTotal, overtime, lateNight, breakTime };
+};
+
+/**
+ * 勤務状況欄の予定シフトと遅刻・早退・シフト外勤務を文字で返す（PDF用。画面は ShiftDeviationCell で表示する）。
+ */
+const formatShiftDeviationText = (shift?: Shift, deviation?: ShiftDeviation): string => {
+  const parts: string[] = [];
+  if (shift) parts.push(`予定 ${formatShiftTimeRange(shift)}`);
+  if (deviation?.isLate) parts.push(`遅刻 ${formatMinutesToTime(deviation.lateMinutes)}`);
+  if (deviation?.isEarlyLeave) parts.push(`早退 ${formatMinutesToTime(deviation.earlyLeaveMinutes)}`);
+  if (deviation?.isUnscheduled) parts.push('予定外');
+  return parts.join(' ');
+};
+
+/**
+ * 勤務状況欄に表示する予定シフトと、遅刻・早退・シフト外勤務のバッジ。
+ */
+const ShiftDeviationCell: React.FC<{ shift?: Shift; deviation?: ShiftDeviation }> = ({ shift, deviation }) => {
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0.1rem 0.4rem',
+    marginLeft: '0.25rem',
+    borderRadius: '4px',
+    fontSize: fontSizes.badge,
+    backgroundColor,
+    color,
+    whiteSpace: 'nowrap'
+  });
+  if (!shift && !deviation?.isUnscheduled) return null;
+  return (
+    <div style={{ marginTop: '0.25rem', fontSize: fontSizes.small, color: '#6b7280', whiteSpace: 'nowrap' }}>
+      {shift && <span>予定 {formatShiftTimeRange(shift)}</span>}
+      {deviation?.isLate && <span style={badgeStyle('#fee2e2', '#991b1b')}>遅刻 {formatMinutesToTime(deviation.lateMinutes)}</span>}
+      {deviation?.isEarlyLeave && <span style={badgeStyle('#fef3c7', '#92400e')}>早退 {formatMinutesToTime(deviation.earlyLeaveMinutes)}</span>}
+      {deviation?.isUnscheduled && <span style={badgeStyle('#e0e7ff', '#3730a3')}>予定外</span>}
+    </div>
+  );
+};
+
 /**
  * 管理者用出勤簿画面コンポーネント。
  */
 export const EmployeeAttendance: React.FC = () => {
   const [searchParams] = useSearchParams();
-  const employeeId = searchParams.get('employeeId');
+  const requestedEmployeeId = searchParams.get('employeeId');
+  /** URL で指定された従業員が閲覧範囲内かどうかの確認結果（確認中は null） */
+  const [scopeCheck, setScopeCheck] = useState<{ employeeId: string; isVisible: boolean } | null>(null);
+  /** 表示する従業員のID（閲覧範囲内と確認できるまでは null とし、出勤簿等を取得しない） */
+  const employeeId = scopeCheck?.isVisible && scopeCheck.employeeId === requestedEmployeeId ? requestedEmployeeId : null;
   
   const [logs, setLogs] = useState<AttendanceLog[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const { hasPermission } = useAuth();
+  /** 勤怠の代理入力ができるか（権限ロール） */
+  const canEditAttendance = hasPermission('attendance.edit');
+  const { closingRules, isLoaded: isClosingRulesLoaded } = usePayrollClosingRules();
+  const { companyHolidays } = useCompanyHolidays();
   const initialClosingYm = getPayrollClosingYearMonthFromDate(new Date());
   const [selectedYear, setSelectedYear] = useState<number>(initialClosingYm.year);
   const [selectedMonth, setSelectedMonth] = useState<number>(initialClosingYm.month);
@@ -186,24 +298,33 @@ export const EmployeeAttendance: React.FC = () => {
   const [showSummary, setShowSummary] = useState<boolean>(false);
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [employeeName, setEmployeeName] = useState<string>('');
+  // 所定労働時間の契約履歴（規定稼働時間の算出用）
+  const [workContract, setWorkContract] = useState<{ contracts: PrescribedWorkContract[]; fallbackHours: number | null }>({
+    contracts: [],
+    fallbackHours: null
+  });
   /** 対象期間の日別労働内訳（API dailyLabor） */
   const [dailyLaborByDate, setDailyLaborByDate] = useState<Record<string, DailyLaborRow>>({});
-  const pdfContentRef = useRef<HTMLDivElement>(null);
   /** 勤怠の代理追加モーダルの表示状態（打刻忘れの後入力）。従業員はこの画面の employeeId に固定。 */
   const [showAddModal, setShowAddModal] = useState(false);
   /** 勤怠の代理追加フォーム（従業員は固定のため含めない）。 */
-  const [addForm, setAddForm] = useState<{ date: string; clockIn: string; clockOut: string; dayTypeOverride: DayTypeOverride | null }>({
+  const [addForm, setAddForm] = useState<{ date: string; clockIn: string; clockOut: string; dayTypeOverride: DayTypeOverride | null; reason: string }>({
     date: '',
     clockIn: '',
     clockOut: '',
-    dayTypeOverride: null
+    dayTypeOverride: null,
+    reason: ''
   });
+  /** 代理追加する日付の締め月のうち、給与明細がロックされた従業員・締め月。 */
+  const [addPayrollLocks, setAddPayrollLocks] = useState<PayrollPeriodLock[]>([]);
   /** 代理追加の保存中フラグ（二重送信防止）。 */
   const [isAdding, setIsAdding] = useState(false);
   /** 追加成功後に出勤簿を再取得するためのトリガー。 */
   const [reloadFlag, setReloadFlag] = useState(0);
   /** 有給残高（残日数・次回失効・繰越）。取得失敗時は null。 */
   const [paidLeaveBalance, setPaidLeaveBalance] = useState<PaidLeaveBalance | null>(null);
+  // 給与期間のシフト（打刻との照合に使用）
+  const [shifts, setShifts] = useState<Shift[]>([]);
 
   // 有給残高（残日数・次回失効・付与ごとの繰越と有効期限）を取得。取得時にサーバー側で自動付与が冪等同期される。
   useEffect(() => {
@@ -233,38 +354,59 @@ export const EmployeeAttendance: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // 従業員名を取得
+  // 従業員名を取得（閲覧範囲外の従業員は表示しない）
   useEffect(() => {
     const fetchEmployeeName = async () => {
-      if (!employeeId) return;
+      if (!requestedEmployeeId) return;
       
       try {
         const employees = await getEmployees();
-        const employee = employees.find(emp => emp.id === employeeId);
+        const visibleEmployeeIds = getVisibleEmployeeIds(employees, getUserInfo().employeeId);
+        const isVisible = !visibleEmployeeIds || visibleEmployeeIds.has(requestedEmployeeId);
+        setScopeCheck({ employeeId: requestedEmployeeId, isVisible });
+        const employee = isVisible ? employees.find(emp => emp.id === requestedEmployeeId) : undefined;
         if (employee) {
           setEmployeeName(`${employee.firstName} ${employee.lastName}`);
+          setWorkContract({
+            contracts: employee.workContracts ?? [],
+            fallbackHours: employee.prescribedWorkHours ?? null
+          });
         }
       } catch (error) {
         logError('Failed to fetch employee name:', error);
+        // 閲覧範囲を確認できない場合は表示しない
+        setScopeCheck({ employeeId: requestedEmployeeId, isVisible: false });
+        setSnackbar({ message: '従業員情報の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
       }
     };
 
     fetchEmployeeName();
-  }, [employeeId]);
+  }, [requestedEmployeeId]);
 
-  // 出勤簿データを取得（前月26日〜当月25日＝給与期間。2ヶ月分APIを結合）
+  // 締め日設定の取得後、本日が属する締め月を初期表示にする（25日締め以外の会社で月がずれるのを防ぐ）
+  useEffect(() => {
+    if (!isClosingRulesLoaded) return;
+    const closingYm = getPayrollClosingYearMonthFromDate(new Date(), closingRules);
+    setSelectedYear(closingYm.year);
+    setSelectedMonth(closingYm.month);
+  }, [isClosingRulesLoaded, closingRules]);
+
+  // 出勤簿データを取得（締め日設定に従う給与期間。期間は必ず前月・当月に収まるため2ヶ月分APIを結合）
   useEffect(() => {
     const fetchMonthAttendance = async () => {
-      if (!employeeId) {
+      if (!isClosingRulesLoaded) return;
+      if (!requestedEmployeeId) {
         setSnackbar({ message: '従業員IDが指定されていません。', type: 'error' });
         setTimeout(() => setSnackbar(null), 5000);
         return;
       }
+      if (!employeeId) return;
 
       try {
         setIsLoading(true);
 
-        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth);
+        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
         const prevMonth = selectedMonth === 1 ? 12 : selectedMonth - 1;
         const prevYear = selectedMonth === 1 ? selectedYear - 1 : selectedYear;
         const yearStr = String(selectedYear);
@@ -272,9 +414,11 @@ export const EmployeeAttendance: React.FC = () => {
         const prevYearStr = String(prevYear);
         const prevMonthStr = String(prevMonth).padStart(2, '0');
 
-        const [prevRes, currentRes] = await Promise.all([
+        const [prevRes, currentRes, leaveRequests] = await Promise.all([
           getAttendanceMyRecords(prevYearStr, prevMonthStr, employeeId),
-          getAttendanceMyRecords(yearStr, monthStr, employeeId)
+          getAttendanceMyRecords(yearStr, monthStr, employeeId),
+          // 時間単位の有給の合算に使う。取得できなくても出勤簿は表示する
+          getLeaveRequestList(employeeId).then(response => response.requests).catch(() => [])
         ]);
 
         const filterPeriod = (log: ApiAttendanceLog) => {
@@ -283,7 +427,13 @@ export const EmployeeAttendance: React.FC = () => {
         };
         const periodLogs = [...(prevRes.logs || []), ...(currentRes.logs || [])].filter(filterPeriod);
 
-        const combinedDaily = [...(prevRes.dailyLabor ?? []), ...(currentRes.dailyLabor ?? [])];
+        // 時間単位の有給は日数換算ではなく取得時間数で打刻に合算する
+        const stamps = Object.fromEntries(periodLogs.map(log => [log.workDate, { clockIn: log.clockIn, clockOut: log.clockOut }]));
+        const combinedDaily = mergeHourlyPaidLeaveIntoDailyLabor(
+          [...(prevRes.dailyLabor ?? []), ...(currentRes.dailyLabor ?? [])],
+          leaveRequests,
+          stamps
+        );
         const laborMap: Record<string, DailyLaborRow> = {};
         combinedDaily
           .filter(d => d.workDate >= startDate && d.workDate <= endDate)
@@ -308,7 +458,51 @@ export const EmployeeAttendance: React.FC = () => {
     };
 
     fetchMonthAttendance();
-  }, [employeeId, selectedYear, selectedMonth, reloadFlag]);
+  }, [employeeId, requestedEmployeeId, selectedYear, selectedMonth, reloadFlag, isClosingRulesLoaded, closingRules]);
+
+  // 給与期間のシフトを取得（照合用の補助情報のため、失敗しても出勤簿は表示する）
+  useEffect(() => {
+    if (!isClosingRulesLoaded || !employeeId) return;
+    let cancelled = false;
+    (async () => {
+      const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
+      try {
+        const response = await getShifts(startDate, endDate, employeeId);
+        if (!cancelled) setShifts(response.shifts);
+      } catch (error) {
+        if (!cancelled) setShifts([]);
+        logError('Failed to fetch shifts:', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId, selectedYear, selectedMonth, isClosingRulesLoaded, closingRules]);
+
+  // 代理追加する日付の給与明細のロックを取得（ロックされた締め月の追加は修正理由が必要）
+  useEffect(() => {
+    if (!showAddModal || !addForm.date) {
+      setAddPayrollLocks([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const locks = await getPayrollLocks(addForm.date, addForm.date);
+        if (!cancelled) setAddPayrollLocks(locks);
+      } catch (error) {
+        logError('Failed to fetch payroll locks:', error);
+        // 取得できない場合もAPI側でロック中の修正は理由が無ければ拒否される
+        if (!cancelled) setAddPayrollLocks([]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [showAddModal, addForm.date]);
+
+  const isAddLockedPeriod = !!employeeId && !!addForm.date &&
+    isWorkDateInLockedPayrollPeriod(addPayrollLocks, employeeId, addForm.date, closingRules);
 
   // 時刻文字列（HH:mm）を、指定日付のJST日時文字列（YYYY-MM-DD HH:MM:SS）へ変換する。
   const convertTimeToJST = (timeStr: string | null, dateStr: string): string | null => {
@@ -339,6 +533,11 @@ export const EmployeeAttendance: React.FC = () => {
       setTimeout(() => setSnackbar(null), 3000);
       return;
     }
+    if (isAddLockedPeriod && !addForm.reason.trim()) {
+      setSnackbar({ message: '給与明細がロックされた期間のため、修正理由を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
     setIsAdding(true);
     try {
       await updateAttendance({
@@ -346,7 +545,8 @@ export const EmployeeAttendance: React.FC = () => {
         workDate: addForm.date,
         clockIn: convertTimeToJST(addForm.clockIn, addForm.date),
         clockOut: addForm.clockOut ? convertTimeToJST(addForm.clockOut, addForm.date) : null,
-        dayTypeOverride: addForm.dayTypeOverride
+        dayTypeOverride: addForm.dayTypeOverride,
+        ...(isAddLockedPeriod ? { reason: addForm.reason.trim() } : {})
       });
       setShowAddModal(false);
       setSnackbar({ message: '勤怠を追加しました', type: 'success' });
@@ -365,13 +565,13 @@ export const EmployeeAttendance: React.FC = () => {
 
   // 勤怠の代理追加モーダルを開く（打刻忘れの後入力）。
   const openAddAttendance = () => {
-    setAddForm({ date: '', clockIn: '', clockOut: '', dayTypeOverride: null });
+    setAddForm({ date: '', clockIn: '', clockOut: '', dayTypeOverride: null, reason: '' });
     setShowAddModal(true);
   };
 
-  /** 給与期間（前月26〜当月25）の全日を表形式用に列挙 */
+  /** 給与期間（締め日設定に従う）の全日を表形式用に列挙 */
   const getCalendarDays = () =>
-    enumeratePayrollPeriodDates(selectedYear, selectedMonth).map(date => ({
+    enumeratePayrollPeriodDates(selectedYear, selectedMonth, closingRules).map(date => ({
       date,
       isCurrentMonth: true
     }));
@@ -383,86 +583,151 @@ export const EmployeeAttendance: React.FC = () => {
   };
 
   const tableTotals = useMemo(() => {
-    const dates = enumeratePayrollPeriodDates(selectedYear, selectedMonth);
+    const dates = enumeratePayrollPeriodDates(selectedYear, selectedMonth, closingRules);
     return sumAttendanceTableColumnTotals(dates, dailyLaborByDate, d => logs.find(l => l.date === d));
-  }, [selectedYear, selectedMonth, dailyLaborByDate, logs]);
+  }, [selectedYear, selectedMonth, closingRules, dailyLaborByDate, logs]);
 
-  const periodDayStats = useMemo(() => {
-    const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth);
-    return computePayrollPeriodDayStats(logs, startDate, endDate);
-  }, [logs, selectedYear, selectedMonth]);
+  // 勤務日ごとの予定シフトと照合結果。期間内にシフトが1件も無い従業員はシフト運用外とみなし照合しない
+  const shiftByDate = useMemo(() => new Map(shifts.map(shift => [shift.workDate, shift])), [shifts]);
+  const shiftDeviationByDate = useMemo(() => {
+    const result: Record<string, ShiftDeviation> = {};
+    if (shifts.length === 0) return result;
+    logs.forEach(log => {
+      result[log.date] = compareShiftWithStamp(
+        shiftByDate.get(log.date),
+        { clockIn: log.clockInIso, clockOut: log.clockOutIso }
+      );
+    });
+    return result;
+  }, [shifts, shiftByDate, logs]);
+  const shiftDeviationCounts = useMemo(() => {
+    const deviations = Object.values(shiftDeviationByDate);
+    return {
+      late: deviations.filter(d => d.isLate).length,
+      earlyLeave: deviations.filter(d => d.isEarlyLeave).length,
+      unscheduled: deviations.filter(d => d.isUnscheduled).length
+    };
+  }, [shiftDeviationByDate]);
 
-  // PDF出力処理
-  const handleExportPDF = async () => {
-    const pdfEl = pdfContentRef.current;
-    if (!pdfEl) {
-      setSnackbar({ message: 'PDF出力に失敗しました。', type: 'error' });
-      setTimeout(() => setSnackbar(null), 5000);
-      return;
-    }
+  const periodDayStats = useMemo(() => {
+    const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
+    return computePayrollPeriodDayStats(logs, startDate, endDate, companyHolidays);
+  }, [logs, selectedYear, selectedMonth, closingRules, companyHolidays]);
 
-    // 変更前のインラインスタイル（画面外配置用）。finally で必ず戻す（空文字にすると React が再適用せず二重表示になる）
-    const styleSnapshot = pdfEl.style.cssText;
+  // 規定稼働時間: 所定労働日ごとに、その日に適用される契約の所定労働時間を合計（期間途中の契約変更に対応）
+  const prescribedWorkingMinutes = useMemo(() => {
+    const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
+    return prescribedWorkingMinutesFromScheduledWeekdays(
+      listScheduledWorkDates(startDate, endDate, companyHolidays),
+      workContract.contracts,
+      workContract.fallbackHours
+    );
+  }, [selectedYear, selectedMonth, closingRules, companyHolidays, workContract]);
 
+  // PDF出力処理（出勤簿を文字と表で描画する。日数が多い場合は改ページし、列見出しを繰り返す）
+  const handleExportPDF = async () => {
     try {
       setIsLoading(true);
-
-      // PDF出力用の要素を一時的に表示
-      pdfEl.style.position = 'fixed';
-      pdfEl.style.left = '0';
-      pdfEl.style.top = '0';
-      pdfEl.style.visibility = 'visible';
-      pdfEl.style.zIndex = '9999';
-      pdfEl.style.backgroundColor = '#ffffff';
-      pdfEl.style.width = '100%';
-      pdfEl.style.padding = '2rem';
-
-      // 少し待ってからキャプチャ（レンダリングを待つ）
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      const canvas = await html2canvas(pdfEl, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff'
+      const layout = createPdfLayout({ orientation: 'landscape', ...(await loadPdfAssets()) });
+      const hasShifts = shifts.length > 0;
+      layout.startSection({
+        title: '出勤簿',
+        subtitle: `氏名 ${employeeName}`,
+        rightText: `締め月 ${selectedYear}年${selectedMonth}月`
       });
+      layout.keyValueGrid([
+        { label: '所定労働日数', value: String(periodDayStats.prescribedWorkingDays) },
+        { label: '実働日数', value: String(periodDayStats.workingDays) },
+        { label: '平日出勤日数', value: String(periodDayStats.weekdayWorkDays) },
+        { label: '休日出勤日数', value: String(periodDayStats.holidayWorkingDays) },
+        { label: '欠勤日数', value: String(summary?.absenceDays ?? '-') },
+        { label: '遅刻回数', value: hasShifts ? String(shiftDeviationCounts.late) : '-' },
+        { label: '早退回数', value: hasShifts ? String(shiftDeviationCounts.earlyLeave) : '-' },
+        { label: 'シフト外勤務日数', value: hasShifts ? String(shiftDeviationCounts.unscheduled) : '-' },
+        { label: '規定稼働時間', value: formatMinutesToTime(prescribedWorkingMinutes) },
+        { label: '稼働時間', value: formatMinutesToTime(tableTotals.laborMinutes) },
+        { label: '実残業時間', value: formatMinutesToTime(tableTotals.overtimeMinutes) },
+        { label: '深夜残業時間', value: formatMinutesToTime(tableTotals.lateNightMinutes) },
+        { label: '休憩時間', value: formatMinutesToTime(tableTotals.breakMinutes) },
+        { label: '有給使用日数（本日時点）', value: `${summary?.usedPaidLeaveDays ?? '-'}日` },
+        { label: '残有給日数（本日時点）', value: `${summary?.remainingPaidLeaveDays ?? '-'}日` }
+      ], 5);
 
-      // キャプチャ直後に画面外へ戻す（PDF生成失敗時は finally でも同様に復元）
-      pdfEl.style.cssText = styleSnapshot;
+      const dayRows: PdfTableRow[] = calendarDays
+        .filter(day => day.isCurrentMonth)
+        .map(calendarDay => {
+          const log = getLogByDate(calendarDay.date);
+          const cells = getAttendanceRowCells(log, dailyLaborByDate[calendarDay.date]);
+          const dayOfWeek = new Date(calendarDay.date).getDay();
+          const dateColor = dayOfWeek === 0 ? '#dc2626' : dayOfWeek === 6 ? '#2563eb' : undefined;
+          const shiftText = formatShiftDeviationText(shiftByDate.get(calendarDay.date), shiftDeviationByDate[calendarDay.date]);
+          return {
+            cells: [
+              formatDate(calendarDay.date),
+              log?.clockInIso ? formatTimeWithNextDay(log.clockInIso) : '-',
+              log?.clockOutIso ? formatTimeWithNextDay(log.clockOutIso) : '-',
+              cells.stampWork,
+              cells.paidLeaveDisp,
+              cells.laborTotal,
+              cells.overtime,
+              cells.lateNight,
+              cells.breakTime,
+              [log?.status || '-', shiftText].filter(Boolean).join('\n'),
+              log?.memo && String(log.memo).trim() !== '' ? log.memo : '-'
+            ],
+            fillColor: dayOfWeek === 0 ? '#fef2f2' : dayOfWeek === 6 ? '#eff6ff' : undefined,
+            textColors: [dateColor]
+          };
+        });
+      dayRows.push({
+        cells: [
+          '小計',
+          '—',
+          '—',
+          formatMinutesToTime(tableTotals.stampMinutes),
+          formatMinutesToTime(tableTotals.paidLeaveMinutes),
+          formatMinutesToTime(tableTotals.laborMinutes),
+          formatMinutesToTime(tableTotals.overtimeMinutes),
+          formatMinutesToTime(tableTotals.lateNightMinutes),
+          formatMinutesToTime(tableTotals.breakMinutes),
+          '—',
+          '—'
+        ],
+        fillColor: '#f3f4f6',
+        bold: true
+      });
+      layout.table(
+        [
+          { header: '日付', width: 11 },
+          { header: '出勤時刻', width: 8, align: 'center' },
+          { header: '退勤時刻', width: 8, align: 'center' },
+          { header: '打刻労働', width: 7, align: 'center' },
+          { header: '有給時間', width: 7, align: 'center' },
+          { header: '稼働時間', width: 7, align: 'center' },
+          { header: '残業時間', width: 7, align: 'center' },
+          { header: '深夜時間', width: 7, align: 'center' },
+          { header: '休憩時間', width: 7, align: 'center' },
+          { header: '勤務状況', width: 15, align: 'center' },
+          { header: 'メモ', width: 16 }
+        ],
+        dayRows,
+        { fontSize: 8 }
+      );
 
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('landscape', 'mm', 'a4');
-      
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgScaledWidth = imgWidth * ratio;
-      const imgScaledHeight = imgHeight * ratio;
-      const x = (pdfWidth - imgScaledWidth) / 2;
-      const y = (pdfHeight - imgScaledHeight) / 2;
-
-      pdf.addImage(imgData, 'PNG', x, y, imgScaledWidth, imgScaledHeight);
-      
-      const fileName = `出勤簿_${employeeName}_${selectedYear}年${selectedMonth}月.pdf`;
-      pdf.save(fileName);
+      layout.finish().save(`出勤簿_${employeeName}_${selectedYear}年${selectedMonth}月.pdf`);
       
       setSnackbar({ message: 'PDFを出力しました。', type: 'success' });
       setTimeout(() => setSnackbar(null), 5000);
     } catch (error) {
       logError('Failed to export PDF:', error);
-      setSnackbar({ message: 'PDF出力に失敗しました。', type: 'error' });
+      setSnackbar({ message: getPdfExportErrorMessage(error, 'PDF出力に失敗しました。'), type: 'error' });
       setTimeout(() => setSnackbar(null), 5000);
     } finally {
       setIsLoading(false);
-      if (pdfContentRef.current) {
-        pdfContentRef.current.style.cssText = styleSnapshot;
-      }
     }
   };
 
-  if (!employeeId) {
+  if (!requestedEmployeeId) {
     return (
       <div style={{ padding: '2rem', textAlign: 'center' }}>
         <p>従業員IDが指定されていません。</p>
@@ -470,6 +735,22 @@ export const EmployeeAttendance: React.FC = () => {
     );
   }
 
+  if (!employeeId) {
+    const isOutOfScope = scopeCheck?.employeeId === requestedEmployeeId && !scopeCheck.isVisible;
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        {snackbar && (
+          <Snackbar
+            message={snackbar.message}
+            type={snackbar.type}
+            onClose={() => setSnackbar(null)}
+          />
+        )}
+        <p>{isOutOfScope ? 'この従業員の出勤簿を表示する権限がありません。' : '読み込み中...'}</p>
+      </div>
+    );
+  }
+
   return (
     <div style={{ padding: isMobile ? '1rem' : '1.4rem' }}>
       {isLoading && <ProgressBar isLoading={isLoading} />}
@@ -535,7 +816,7 @@ export const EmployeeAttendance: React.FC = () => {
               />
             </div>
 
-            <div style={{ marginBottom: '1.5rem' }}>
+            <div style={{ marginBottom: isAddLockedPeriod ? '1rem' : '1.5rem' }}>
               <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>勤務区分（残業計算）</label>
               <select
                 value={addForm.dayTypeOverride ?? 'auto'}
@@ -551,6 +832,35 @@ export const EmployeeAttendance: React.FC = () => {
               </select>
             </div>
 
+            {isAddLockedPeriod && (
+              <>
+                <div style={{
+                  marginBottom: '1rem',
+                  padding: '0.75rem 1rem',
+                  backgroundColor: '#fef3c7',
+                  border: '1px solid #fcd34d',
+                  borderRadius: '4px',
+                  color: '#92400e',
+                  fontSize: fontSizes.medium,
+                  lineHeight: 1.6
+                }}>
+                  この日の給与明細は振込済みでロックされています。追加しても給与明細は変わらないため、必要に応じて給与明細画面で調整明細を作成してください。
+                </div>
+                <div style={{ marginBottom: '1.5rem' }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                    修正理由 <span style={{ color: '#dc2626' }}>*</span>
+                  </label>
+                  <textarea
+                    value={addForm.reason}
+                    onChange={(e) => setAddForm({ ...addForm, reason: e.target.value })}
+                    rows={3}
+                    placeholder="例: 打刻忘れの申告により出勤を追加"
+                    style={{ width: '100%', padding: '0.5rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: fontSizes.input, boxSizing: 'border-box', resize: 'vertical' }}
+                  />
+                </div>
+              </>
+            )}
+
             <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
               <button
                 onClick={() => setShowAddModal(false)}
@@ -561,8 +871,12 @@ export const EmployeeAttendance: React.FC = () => {
               </button>
               <button
                 onClick={handleAddAttendance}
-                disabled={isAdding}
-                style={{ padding: '0.5rem 1rem', backgroundColor: '#8b5a2b', color: '#fff', border: 'none', borderRadius: '4px', fontSize: fontSizes.button, cursor: isAdding ? 'not-allowed' : 'pointer' }}
+                disabled={isAdding || (isAddLockedPeriod && !addForm.reason.trim())}
+                style={{
+                  padding: '0.5rem 1rem', backgroundColor: '#8b5a2b', color: '#fff', border: 'none', borderRadius: '4px', fontSize: fontSizes.button,
+                  cursor: isAdding ? 'not-allowed' : 'pointer',
+                  ...(isAddLockedPeriod && !addForm.reason.trim() ? { opacity: 0.5, cursor: 'not-allowed' } : {})
+                }}
               >
                 {isAdding ? '追加中...' : '追加'}
               </button>
@@ -580,7 +894,7 @@ export const EmployeeAttendance: React.FC = () => {
           fontSize: fontSizes.medium,
           color: '#4b5563'
         }}>
-          対象期間（前月26日〜当月25日）: {formatPayrollPeriodRangeJapanese(selectedYear, selectedMonth)}
+          対象期間（{describePayrollPeriodRule(resolvePayrollClosingDay(selectedYear, selectedMonth, closingRules))}）: {formatPayrollPeriodRangeJapanese(selectedYear, selectedMonth, closingRules)}
         </p>
         
         {/* 年月選択とPDF出力ボタン */}
@@ -697,20 +1011,22 @@ export const EmployeeAttendance: React.FC = () => {
 
           <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
             {/* 打刻忘れなどを後から代理入力するための「勤怠を追加」導線（勤怠情報一覧から移設） */}
-            <button
-              onClick={openAddAttendance}
-              style={{
-                padding: '0.5rem 1rem',
-                backgroundColor: '#8b5a2b',
-                color: '#fff',
-                border: 'none',
-                borderRadius: '4px',
-                fontSize: fontSizes.button,
-                cursor: 'pointer'
-              }}
-            >
-              ＋ 勤怠を追加
-            </button>
+            {canEditAttendance && (
+              <button
+                onClick={openAddAttendance}
+                style={{
+                  padding: '0.5rem 1rem',
+                  backgroundColor: '#8b5a2b',
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.button,
+                  cursor: 'pointer'
+                }}
+              >
+                ＋ 勤怠を追加
+              </button>
+            )}
             <PdfExportButton
               onClick={handleExportPDF}
               disabled={isLoading}
@@ -822,6 +1138,18 @@ export const EmployeeAttendance: React.FC = () => {
                   <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>欠勤日数:</span>
                   <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{summary?.absenceDays ?? '-'}</span>
                 </div>
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>遅刻回数:</span>
+                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{shifts.length > 0 ? shiftDeviationCounts.late : '-'}</span>
+                </div>
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>早退回数:</span>
+                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{shifts.length > 0 ? shiftDeviationCounts.earlyLeave : '-'}</span>
+                </div>
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>シフト外勤務日数:</span>
+                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{shifts.length > 0 ? shiftDeviationCounts.unscheduled : '-'}</span>
+                </div>
               </div>
             </div>
 
@@ -842,11 +1170,9 @@ export const EmployeeAttendance: React.FC = () => {
               </h4>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>規定稼働時間（所定労働日数×7:30）:</span>
+                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>規定稼働時間（所定労働日数×所定労働時間）:</span>
                   <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(
-                      prescribedWorkingMinutesFromScheduledWeekdays(periodDayStats.prescribedWorkingDays)
-                    )}
+                    {formatMinutesToTime(prescribedWorkingMinutes)}
                   </span>
                 </div>
                 <div style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -939,362 +1265,6 @@ export const EmployeeAttendance: React.FC = () => {
           </div>
         )}
 
-        {/* サマリー情報と出勤簿テーブル（PDF出力用のrefを追加） */}
-        <div ref={pdfContentRef} style={{ position: 'absolute', left: '-9999px', top: '-9999px', width: '800px', backgroundColor: '#ffffff' }}>
-          {/* タイトル */}
-          <h2 style={{ margin: 0, fontSize: '1.25rem', marginBottom: '1rem', textAlign: 'center' }}>
-            出勤簿
-          </h2>
-          
-          {/* サマリー情報 */}
-          <div style={{
-            display: 'grid',
-            gridTemplateColumns: '1fr 1fr',
-            gap: '1rem',
-            marginBottom: '1.5rem',
-            backgroundColor: '#ffffff',
-            padding: '1rem'
-          }}>
-            {/* ユーザー情報 */}
-            <div style={{
-              backgroundColor: '#ffffff',
-              padding: '1rem',
-              borderRadius: '4px',
-              border: '1px solid #d1d5db'
-            }}>
-              <h4 style={{ 
-                marginBottom: '0.75rem', 
-                fontSize: fontSizes.badge,
-                fontWeight: 'bold',
-                color: '#1f2937'
-              }}>
-                ユーザー情報
-              </h4>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>締め月:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{selectedYear}年{selectedMonth}月</span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>氏名:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{employeeName || '-'}</span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>所定労働日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{periodDayStats.prescribedWorkingDays}日</span>
-                </div>
-              </div>
-            </div>
-
-            {/* 基本項目 */}
-            <div style={{
-              backgroundColor: '#ffffff',
-              padding: '1rem',
-              borderRadius: '4px',
-              border: '1px solid #d1d5db'
-            }}>
-              <h4 style={{ 
-                marginBottom: '0.75rem', 
-                fontSize: fontSizes.badge,
-                fontWeight: 'bold',
-                color: '#1f2937'
-              }}>
-                基本項目
-              </h4>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>実働日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{periodDayStats.workingDays}</span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>平日出勤日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{periodDayStats.weekdayWorkDays}</span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>休日出勤日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{periodDayStats.holidayWorkingDays}</span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>欠勤日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>{summary?.absenceDays ?? '-'}</span>
-                </div>
-              </div>
-            </div>
-
-            {/* 労働時間 */}
-            <div style={{
-              backgroundColor: '#ffffff',
-              padding: '1rem',
-              borderRadius: '4px',
-              border: '1px solid #d1d5db'
-            }}>
-              <h4 style={{ 
-                marginBottom: '0.75rem', 
-                fontSize: fontSizes.badge,
-                fontWeight: 'bold',
-                color: '#1f2937'
-              }}>
-                労働時間
-              </h4>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>規定稼働時間（所定労働日数×7:30）:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(
-                      prescribedWorkingMinutesFromScheduledWeekdays(periodDayStats.prescribedWorkingDays)
-                    )}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>打刻労働（合計）:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.stampMinutes)}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>有給時間（換算）:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.paidLeaveMinutes)}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>稼働時間:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.laborMinutes)}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>実残業時間:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.overtimeMinutes)}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>深夜残業時間:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.lateNightMinutes)}
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>休憩時間:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(tableTotals.breakMinutes)}
-                  </span>
-                </div>
-              </div>
-            </div>
-
-            {/* 本日時点休暇残日数 */}
-            <div style={{
-              backgroundColor: '#ffffff',
-              padding: '1rem',
-              borderRadius: '4px',
-              border: '1px solid #d1d5db'
-            }}>
-              <h4 style={{ 
-                marginBottom: '0.75rem', 
-                fontSize: fontSizes.badge,
-                fontWeight: 'bold',
-                color: '#1f2937'
-              }}>
-                本日時点休暇残日数
-              </h4>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>使用日数:</span>
-                  <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold', color: '#000000' }}>
-                    {summary?.usedPaidLeaveDays ?? '-'}日
-                  </span>
-                </div>
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>残有給日数:</span>
-                  <span style={{ 
-                    fontSize: fontSizes.badge, 
-                    fontWeight: 'bold', 
-                    color: '#000000'
-                  }}>
-                    {summary?.remainingPaidLeaveDays ?? '-'}日
-                  </span>
-                </div>
-              </div>
-            </div>
-          </div>
-
-          {/* 出勤簿テーブル */}
-          <div style={{ backgroundColor: '#ffffff', padding: '1rem', borderRadius: '4px', border: '1px solid #d1d5db' }}>
-            <div style={{ overflowX: 'auto' }}>
-              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: fontSizes.medium }}>
-                <thead>
-                  <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #d1d5db' }}>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>日付</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>出勤時刻</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>退勤時刻</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>打刻労働</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>有給時間</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>稼働時間</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>残業時間</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>深夜時間</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>休憩時間</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'center', fontWeight: 'bold', whiteSpace: 'nowrap' }}>勤務状況</th>
-                    <th style={{ padding: '0.75rem', textAlign: 'left', fontWeight: 'bold', minWidth: '120px' }}>メモ</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {calendarDays
-                    .filter(day => day.isCurrentMonth)
-                    .map((calendarDay) => {
-                      const log = getLogByDate(calendarDay.date);
-                      const dl = dailyLaborByDate[calendarDay.date];
-                      const date = new Date(calendarDay.date);
-                      const dayOfWeek = date.getDay();
-                      const isSunday = dayOfWeek === 0;
-                      const isSaturday = dayOfWeek === 6;
-                      
-                      let stampWork = '-';
-                      let paidLeaveDisp = '-';
-                      let laborTotal = '-';
-                      let overtime = '-';
-                      let lateNight = '-';
-                      let breakTime = '-';
-                      
-                      if (dl) {
-                        stampWork = formatMinutesCell(dl.timeRecordMinutes);
-                        paidLeaveDisp = formatMinutesToTime(dl.paidLeaveMinutes);
-                        laborTotal = formatMinutesToTime(dl.laborMinutes);
-                      } else if (log) {
-                        const tw = log.totalWorkMinutes;
-                        if (tw !== undefined && tw !== null) {
-                          stampWork = formatMinutesToTime(tw);
-                          laborTotal = formatMinutesToTime(tw);
-                        }
-                      }
-                      
-                      if (log) {
-                        if (log.overtimeMinutes !== undefined && log.overtimeMinutes !== null) {
-                          overtime = formatMinutesToTime(log.overtimeMinutes);
-                        } else {
-                          overtime = '00:00';
-                        }
-                        
-                        if (log.lateNightMinutes !== undefined && log.lateNightMinutes !== null) {
-                          lateNight = formatMinutesToTime(log.lateNightMinutes);
-                        } else {
-                          lateNight = '00:00';
-                        }
-                        
-                        if (log.breaks && log.breaks.length > 0) {
-                          let breakMinutes = 0;
-                          log.breaks.forEach(breakItem => {
-                            if (breakItem.startIso && breakItem.endIso) {
-                              try {
-                                const startDate = breakItem.startIso ? parseJSTDateTime(breakItem.startIso) : null;
-                                const endDate = breakItem.endIso ? parseJSTDateTime(breakItem.endIso) : null;
-                                if (startDate && endDate) {
-                                  const diffMs = endDate.getTime() - startDate.getTime();
-                                  const diffMinutes = Math.floor(diffMs / (1000 * 60));
-                                  breakMinutes += Math.max(0, diffMinutes);
-                                }
-                              } catch (error) {
-                                if (breakItem.start && breakItem.end) {
-                                  const [bStartHour, bStartMinute] = breakItem.start.split(':').map(Number);
-                                  const [bEndHour, bEndMinute] = breakItem.end.split(':').map(Number);
-                                  const bStartMinutes = bStartHour * 60 + bStartMinute;
-                                  const bEndMinutes = bEndHour * 60 + bEndMinute;
-                                  breakMinutes += Math.max(0, bEndMinutes - bStartMinutes);
-                                }
-                              }
-                            }
-                          });
-                          breakTime = formatMinutesToTime(breakMinutes);
-                        } else {
-                          breakTime = '00:00';
-                        }
-                      }
-                      
-                      return (
-                        <tr 
-                          key={calendarDay.date}
-                          style={{ 
-                            borderBottom: '1px solid #e5e7eb',
-                            backgroundColor: isSunday ? '#fef2f2' : isSaturday ? '#eff6ff' : '#ffffff'
-                          }}
-                        >
-                          <td style={{ 
-                            padding: '0.75rem',
-                            borderRight: '1px solid #e5e7eb',
-                            color: isSunday ? '#dc2626' : isSaturday ? '#2563eb' : '#1f2937',
-                            fontWeight: (isSunday || isSaturday) ? 'bold' : 'normal',
-                            backgroundColor: 'transparent'
-                          }}>
-                            {formatDate(calendarDay.date)}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {log?.clockInIso ? formatTimeWithNextDay(log.clockInIso) : '-'}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {log?.clockOutIso ? formatTimeWithNextDay(log.clockOutIso) : '-'}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {stampWork}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {paidLeaveDisp}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {laborTotal}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {overtime}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {lateNight}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {breakTime}
-                          </td>
-                          <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
-                            {log?.status || '-'}
-                          </td>
-                          <td style={{
-                            padding: '0.75rem',
-                            textAlign: 'left',
-                            backgroundColor: 'transparent',
-                            maxWidth: '240px',
-                            wordBreak: 'break-word',
-                            whiteSpace: 'pre-wrap',
-                            color: '#374151',
-                            fontSize: fontSizes.small
-                          }}>
-                            {log?.memo && String(log.memo).trim() !== '' ? log.memo : '-'}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                    <tr
-                      style={{
-                        borderTop: '2px solid #d1d5db',
-                        backgroundColor: '#f3f4f6',
-                        fontWeight: 'bold'
-                      }}
-                    >
-                      <td style={{ padding: '0.75rem', borderRight: '1px solid #e5e7eb', color: '#111827' }}>小計</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#9ca3af' }}>—</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#9ca3af' }}>—</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.stampMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.paidLeaveMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.laborMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.overtimeMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.lateNightMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#111827' }}>{formatMinutesToTime(tableTotals.breakMinutes)}</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'center', color: '#9ca3af' }}>—</td>
-                      <td style={{ padding: '0.75rem', textAlign: 'left', color: '#9ca3af', fontSize: fontSizes.small }}>—</td>
-                    </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-        </div>
-
         {/* 出勤簿テーブル（表示用） */}
         <div style={{ backgroundColor: '#ffffff', padding: '1rem', borderRadius: '4px', border: '1px solid #d1d5db' }}>
           <div style={{ overflowX: 'auto' }}>
@@ -1325,67 +1295,8 @@ export const EmployeeAttendance: React.FC = () => {
                     const isSunday = dayOfWeek === 0;
                     const isSaturday = dayOfWeek === 6;
                     
-                    let stampWork = '-';
-                    let paidLeaveDisp = '-';
-                    let laborTotal = '-';
-                    let overtime = '-';
-                    let lateNight = '-';
-                    let breakTime = '-';
-                    
-                    if (dl) {
-                      stampWork = formatMinutesCell(dl.timeRecordMinutes);
-                      paidLeaveDisp = formatMinutesToTime(dl.paidLeaveMinutes);
-                      laborTotal = formatMinutesToTime(dl.laborMinutes);
-                    } else if (log) {
-                      const tw = log.totalWorkMinutes;
-                      if (tw !== undefined && tw !== null) {
-                        stampWork = formatMinutesToTime(tw);
-                        laborTotal = formatMinutesToTime(tw);
-                      }
-                    }
-                    
-                    if (log) {
-                      if (log.overtimeMinutes !== undefined && log.overtimeMinutes !== null) {
-                        overtime = formatMinutesToTime(log.overtimeMinutes);
-                      } else {
-                        overtime = '00:00';
-                      }
-                      
-                      if (log.lateNightMinutes !== undefined && log.lateNightMinutes !== null) {
-                        lateNight = formatMinutesToTime(log.lateNightMinutes);
-                      } else {
-                        lateNight = '00:00';
-                      }
-                      
-                      if (log.breaks && log.breaks.length > 0) {
-                        let breakMinutes = 0;
-                        log.breaks.forEach(breakItem => {
-                          if (breakItem.startIso && breakItem.endIso) {
-                            try {
-                              const startDate = breakItem.startIso ? parseJSTDateTime(breakItem.startIso) : null;
-                              const endDate = breakItem.endIso ? parseJSTDateTime(breakItem.endIso) : null;
-                              if (startDate && endDate) {
-                                const diffMs = endDate.getTime() - startDate.getTime();
-                                const diffMinutes = Math.floor(diffMs / (1000 * 60));
-                                breakMinutes += Math.max(0, diffMinutes);
-                              }
-                            } catch (error) {
-                              if (breakItem.start && breakItem.end) {
-                                const [bStartHour, bStartMinute] = breakItem.start.split(':').map(Number);
-                                const [bEndHour, bEndMinute] = breakItem.end.split(':').map(Number);
-                                const bStartMinutes = bStartHour * 60 + bStartMinute;
-                                const bEndMinutes = bEndHour * 60 + bEndMinute;
-                                breakMinutes += Math.max(0, bEndMinutes - bStartMinutes);
-                              }
-                            }
-                          }
-                        });
-                        breakTime = formatMinutesToTime(breakMinutes);
-                      } else {
-                        breakTime = '00:00';
-                      }
-                    }
-                    
+                    const { stampWork, paidLeaveDisp, laborTotal, overtime, lateNight, breakTime } = getAttendanceRowCells(log, dl);
+
                     return (
                       <tr 
                         key={calendarDay.date}
@@ -1429,6 +1340,7 @@ export const EmployeeAttendance: React.FC = () => {
                         </td>
                         <td style={{ padding: '0.75rem', textAlign: 'center', backgroundColor: 'transparent' }}>
                           {log?.status || '-'}
+                          <ShiftDeviationCell shift={shiftByDate.get(calendarDay.date)} deviation={shiftDeviationByDate[calendarDay.date]} />
                         </td>
                         <td style={{
                           padding: '0.75rem',
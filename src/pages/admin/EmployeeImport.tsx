@@ -0,0 +1,430 @@
+/**
+ * ファイル名: EmployeeImport.tsx
+ * 画面名: 従業員CSV一括取込画面
+ * 説明: CSV（Excel で保存したファイルを含む）から従業員を一括で登録・更新する画面
+ * 機能:
+ *   - ひな形CSVのダウンロード（UTF-8 BOM付き）
+ *   - CSVの列と取込項目の対応付け（見出しから自動で対応付け、画面で変更可能）
+ *   - 全行の入力チェック（従業員登録画面と同じチェック）と新規登録・更新の差分の確認（登録前の確認）
+ *   - 確認後の一括登録・更新と行ごとの結果の表示
+ *   - 取り込めなかった行のCSV出力（元の列とエラー内容）
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { BackButton, Button } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { createEmployee, getEmployees, updateEmployee, type EmployeeResponse } from '../../utils/employeeApi';
+import { getAllowances } from '../../utils/allowanceApi';
+import { getWorkLocations } from '../../utils/workLocationApi';
+import { useDepartments } from '../../hooks/useDepartments';
+import { autoMapCsvColumns, buildCsvImportErrorReport, decodeCsvBytes, parseCsv, type CsvColumnMapping } from '../../utils/csvImport';
+import { downloadCsv, encodeCsv, escapeCsvCell } from '../../utils/csvExport';
+import {
+  buildEmployeeImportPlan,
+  EMPLOYEE_IMPORT_FIELDS,
+  type EmployeeImportAction,
+  type EmployeeImportFieldKey
+} from '../../utils/employeeImport';
+import { error as logError } from '../../utils/logger';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+
+/** 取込内容ごとの表示名と表示色 */
+const ACTION_BADGES: Record<EmployeeImportAction, { label: string; background: string; color: string }> = {
+  create: { label: '新規登録', background: '#dbeafe', color: '#1e40af' },
+  update: { label: '更新', background: '#fef3c7', color: '#92400e' },
+  unchanged: { label: '変更なし', background: '#f3f4f6', color: '#4b5563' },
+  error: { label: 'エラー', background: '#fee2e2', color: '#991b1b' }
+};
+
+/** 読み込んだCSV */
+interface LoadedCsv {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/** 行ごとの登録結果 */
+interface ImportResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 従業員CSV一括取込画面コンポーネント。
+ *
+ * @returns {JSX.Element} 従業員CSV一括取込画面コンポーネント。
+ */
+export const EmployeeImport: React.FC = () => {
+  const navigate = useNavigate();
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [allowances, setAllowances] = useState<Array<{ id: string; name: string }>>([]);
+  const [workLocations, setWorkLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const { departments } = useDepartments();
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [csv, setCsv] = useState<LoadedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping<EmployeeImportFieldKey> | null>(null);
+  /** 登録結果（キーはCSVの行番号）。登録前は null */
+  const [results, setResults] = useState<Record<number, ImportResult> | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [showConfirm, setShowConfirm] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => setIsMobile(window.innerWidth <= 768);
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  /** 既存の従業員とマスタを読み込む（登録後は更新・新規の判定をやり直すため再読込する） */
+  const loadMasters = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [employeeList, allowanceResponse, workLocationResponse] = await Promise.all([
+        getEmployees(),
+        getAllowances(),
+        getWorkLocations()
+      ]);
+      setEmployees(employeeList);
+      setAllowances(allowanceResponse.allowances.map(allowance => ({ id: allowance.id, name: allowance.name })));
+      setWorkLocations(workLocationResponse.workLocations.map(location => ({ id: location.id, name: location.name })));
+    } catch (error) {
+      logError('Failed to load masters for employee import:', error);
+      setSnackbar({ message: `従業員・マスタの取得に失敗しました: ${translateApiError(error)}`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMasters();
+  }, [loadMasters]);
+
+  const plan = useMemo(
+    () => (csv && mapping
+      ? buildEmployeeImportPlan(csv.rows, mapping, {
+          employees,
+          allowances,
+          workLocations,
+          departments: departments.map(department => ({ id: department.id, name: department.name }))
+        })
+      : []),
+    [csv, mapping, employees, allowances, workLocations, departments]
+  );
+
+  const summary = useMemo(() => ({
+    create: plan.filter(row => row.action === 'create').length,
+    update: plan.filter(row => row.action === 'update').length,
+    unchanged: plan.filter(row => row.action === 'unchanged').length,
+    error: plan.filter(row => row.action === 'error').length
+  }), [plan]);
+
+  /** 登録・更新する行 */
+  const targetRows = plan.filter(row => row.action === 'create' || row.action === 'update');
+
+  const handleDownloadTemplate = () => {
+    const header = `${EMPLOYEE_IMPORT_FIELDS.map(field => escapeCsvCell(field.label)).join(',')}\r\n`;
+    downloadCsv(encodeCsv(header, 'utf8').bytes, '従業員取込ひな形.csv', 'utf8');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const [headers = [], ...rows] = parseCsv(decodeCsvBytes(new Uint8Array(await file.arrayBuffer())));
+      if (rows.length === 0) {
+        setSnackbar({ message: 'CSVに取り込む行がありません（1行目は見出し行にしてください）', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+      setCsv({ fileName: file.name, headers, rows });
+      setMapping(autoMapCsvColumns(headers, EMPLOYEE_IMPORT_FIELDS));
+      setResults(null);
+    } catch (error) {
+      logError('Failed to read employee import file:', error);
+      setSnackbar({ message: 'CSVファイルの読み込みに失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleImport = async () => {
+    setShowConfirm(false);
+    setIsImporting(true);
+    const nextResults: Record<number, ImportResult> = {};
+    // 1件ずつ登録し、失敗した行があっても残りの行の登録を続ける
+    for (const row of targetRows) {
+      if (!row.request) continue;
+      try {
+        if (row.employeeId) {
+          await updateEmployee(row.employeeId, row.request);
+          nextResults[row.rowNumber] = { success: true, message: '更新しました' };
+        } else {
+          await createEmployee(row.request);
+          nextResults[row.rowNumber] = { success: true, message: '登録しました' };
+        }
+      } catch (error) {
+        logError('Failed to import employee:', error);
+        nextResults[row.rowNumber] = { success: false, message: error instanceof Error ? error.message : '従業員の保存に失敗しました' };
+      }
+      setResults({ ...nextResults });
+    }
+    setIsImporting(false);
+
+    const failureCount = Object.values(nextResults).filter(result => !result.success).length;
+    const successCount = Object.keys(nextResults).length - failureCount;
+    setSnackbar(failureCount === 0
+      ? { message: `${successCount}件の従業員を登録・更新しました`, type: 'success' }
+      : { message: `${successCount}件を登録・更新し、${failureCount}件の登録に失敗しました`, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  /** 取り込めなかった行（入力エラーと登録の失敗） */
+  const failedRows = csv
+    ? plan.flatMap(row => {
+        const messages = row.action === 'error'
+          ? row.errors
+          : results?.[row.rowNumber] && !results[row.rowNumber].success ? [results[row.rowNumber].message] : [];
+        return messages.length > 0 ? [{ cells: csv.rows[row.rowNumber - 2], messages }] : [];
+      })
+    : [];
+
+  const handleDownloadErrors = () => {
+    if (!csv) return;
+    const report = buildCsvImportErrorReport(csv.headers, failedRows);
+    downloadCsv(encodeCsv(report, 'utf8').bytes, `取込エラー_${csv.fileName.replace(/\.csv$/i, '')}.csv`, 'utf8');
+  };
+
+  const handleReset = () => {
+    setCsv(null);
+    setMapping(null);
+    // 登録後は新規登録した従業員を既存の従業員として扱うため読み込み直す
+    if (results) loadMasters();
+    setResults(null);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0.125rem 0.5rem',
+    borderRadius: '4px',
+    backgroundColor,
+    color,
+    fontSize: fontSizes.badge,
+    fontWeight: 'bold',
+    whiteSpace: 'nowrap'
+  });
+
+  const cellStyle: React.CSSProperties = { padding: '0.75rem', verticalAlign: 'top' };
+
+  return (
+    <div>
+      {(isLoading || isImporting) && <ProgressBar isLoading={true} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      <ConfirmModal
+        isOpen={showConfirm}
+        title="従業員の一括取込"
+        message={`新規登録${summary.create}件・更新${summary.update}件を実行しますか？` +
+          (summary.error > 0 ? `エラーの${summary.error}件は取り込みません。` : '')}
+        confirmText="取込"
+        onConfirm={handleImport}
+        onCancel={() => setShowConfirm(false)}
+        isMobile={isMobile}
+      />
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        flexWrap: 'wrap',
+        gap: '1rem'
+      }}>
+        <h2 style={{ margin: 0, fontSize: isMobile ? '1.25rem' : '1.05rem' }}>
+          従業員CSV一括取込
+        </h2>
+        <BackButton onClick={() => navigate('/admin/employees')} />
+      </div>
+
+      <div style={{ backgroundColor: '#f9fafb', padding: '1rem', borderRadius: '8px', marginBottom: '1rem' }}>
+        <p style={{ margin: '0 0 0.75rem 0', fontSize: fontSizes.small, color: '#6b7280', lineHeight: 1.6 }}>
+          1行目を見出し行にしたCSV（UTF-8 または Excel で保存した Shift_JIS）を選んでください。
+          従業員IDの列に値がある行と、メールアドレスが登録済みの従業員と一致する行は更新、それ以外は新規登録になります。
+          更新では空欄の項目は変更しません。手当・勤務拠点・部署は名称で指定し、複数の手当は「、」で区切ります。
+        </p>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isLoading || isImporting}
+            style={{ fontSize: fontSizes.medium }}
+          />
+          <Button
+            variant="secondary"
+            type="button"
+            onClick={handleDownloadTemplate}
+            style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+          >
+            ひな形CSVをダウンロード
+          </Button>
+          {csv && (
+            <span style={{ fontSize: fontSizes.medium, color: '#1f2937' }}>
+              {csv.fileName}（{csv.rows.length}行）
+            </span>
+          )}
+        </div>
+      </div>
+
+      {csv && mapping && (
+        <>
+          <details style={{ marginBottom: '1rem', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '0.75rem 1rem', backgroundColor: 'white' }}>
+            <summary style={{ cursor: 'pointer', fontWeight: 'bold', fontSize: fontSizes.label }}>
+              列の対応（{EMPLOYEE_IMPORT_FIELDS.filter(field => mapping[field.key] !== null).length}/{EMPLOYEE_IMPORT_FIELDS.length}項目）
+            </summary>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : 'repeat(3, 1fr)',
+              gap: '0.5rem 1rem',
+              marginTop: '0.75rem'
+            }}>
+              {EMPLOYEE_IMPORT_FIELDS.map(field => (
+                <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: fontSizes.small }}>
+                  <span style={{ width: '8rem', flexShrink: 0 }}>{field.label}</span>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                    disabled={isImporting || !!results}
+                    style={{ ...inputStyle, flex: 1, minWidth: 0, padding: '0.25rem', backgroundColor: 'white' }}
+                  >
+                    <option value="">（取り込まない）</option>
+                    {csv.headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `${index + 1}列目`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </details>
+
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+            gap: '0.75rem',
+            marginBottom: '1rem'
+          }}>
+            {(['create', 'update', 'unchanged', 'error'] as EmployeeImportAction[]).map(action => (
+              <div key={action} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+                <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{ACTION_BADGES[action].label}</div>
+                <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: ACTION_BADGES[action].color }}>
+                  {summary[action]}件
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            {!results && (
+              <Button
+                variant="primary"
+                type="button"
+                onClick={() => setShowConfirm(true)}
+                disabled={isLoading || isImporting || targetRows.length === 0}
+                style={{ backgroundColor: '#16a34a', border: '1px solid #16a34a', color: 'white' }}
+              >
+                {targetRows.length}件を登録・更新
+              </Button>
+            )}
+            <Button
+              variant="secondary"
+              type="button"
+              onClick={handleDownloadErrors}
+              disabled={isImporting || failedRows.length === 0}
+            >
+              取り込めなかった{failedRows.length}行をCSV出力
+            </Button>
+            {results && !isImporting && (
+              <Button variant="secondary" type="button" onClick={handleReset}>
+                別のファイルを取り込む
+              </Button>
+            )}
+          </div>
+
+          <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white', fontSize: fontSizes.tableCell }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+                  <th style={{ ...cellStyle, textAlign: 'right', width: '3rem' }}>行</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>取込内容</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>従業員</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>登録・変更する項目</th>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>エラー・注意</th>
+                  {results && <th style={{ ...cellStyle, textAlign: 'left' }}>結果</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map(row => {
+                  const badge = ACTION_BADGES[row.action];
+                  const result = results?.[row.rowNumber];
+                  return (
+                    <tr key={row.rowNumber} style={{ borderBottom: '1px solid #e5e7eb', backgroundColor: row.action === 'error' ? '#fef2f2' : 'white' }}>
+                      <td style={{ ...cellStyle, textAlign: 'right', color: '#6b7280' }}>{row.rowNumber}</td>
+                      <td style={cellStyle}><span style={badgeStyle(badge.background, badge.color)}>{badge.label}</span></td>
+                      <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                        {row.employeeName || '-'}
+                        {row.employeeId && <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{row.employeeId}</div>}
+                      </td>
+                      <td style={cellStyle}>
+                        {row.action === 'error' || row.changes.length === 0 ? '-' : (
+                          <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+                            {row.changes.map(change => (
+                              <li key={change.label}>
+                                {change.label}: {row.action === 'update' && <span style={{ color: '#6b7280' }}>{change.before || '（空）'} → </span>}
+                                {change.after || '（空）'}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td style={cellStyle}>
+                        {row.errors.map(message => <div key={message} style={{ color: '#991b1b' }}>{message}</div>)}
+                        {row.warnings.map(message => <div key={message} style={{ color: '#92400e' }}>{message}</div>)}
+                      </td>
+                      {results && (
+                        <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                          {result && (
+                            <span style={result.success ? badgeStyle('#d1fae5', '#065f46') : badgeStyle('#fee2e2', '#991b1b')}>
+                              {result.success ? result.message : `失敗: ${result.message}`}
+                            </span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -4,9 +4,12 @@
  * 説明: 従業員の一覧表示、検索、編集、給与明細へのアクセスを提供する画面
  * 機能:
  *   - 従業員一覧の表示
- *   - 検索・フィルター機能（雇用形態、在籍状況）
+ *   - 検索・フィルター機能（雇用形態、在籍状況、部署（配下の部署を含む））
+ *   - 閲覧範囲が「自分と部下のみ」の管理者は部下のみ表示
  *   - 従業員情報の登録・編集（モーダル）
+ *   - CSV一括取込画面への遷移
  *   - 給与明細へのリンク
+ *   - 権限ロールによる登録・編集ボタンと給与項目の出し分け
  *   - 管理者フラグ、基本給の管理
  */
 
@@ -25,6 +28,11 @@ import { ChevronDownIcon, ChevronUpIcon } from '../../components/Icons';
 import { createEmployee, updateEmployee, getEmployees, CreateEmployeeRequest } from '../../utils/employeeApi';
 import { getAllowances } from '../../utils/allowanceApi';
 import { getWorkLocations } from '../../utils/workLocationApi';
+import { useDepartments } from '../../hooks/useDepartments';
+import { createDepartmentFilter, flattenDepartmentTree, getVisibleEmployeeIds, wouldCreateReportingCycle, NO_DEPARTMENT_KEY, type EmployeeViewScope } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { useAuth } from '../../contexts/AuthContext';
+import type { AdminRole } from '../../utils/permission';
 import { error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import { getPaidLeaveBalance, PaidLeaveBalance } from '../../utils/paidLeaveApi';
@@ -71,6 +79,14 @@ interface Employee {
   defaultBreakTime: number;
   /** 勤務拠点ID。nullの場合は未設定。 */
   workLocationId?: string | null;
+  /** 所属部署ID。nullの場合は未設定。 */
+  departmentId?: string | null;
+  /** 上長の従業員ID。nullの場合は未設定。 */
+  managerEmployeeId?: string | null;
+  /** 管理者の閲覧範囲。 */
+  viewScope?: EmployeeViewScope;
+  /** 管理者の権限ロール。nullの場合はシステム管理者。 */
+  adminRole?: AdminRole | null;
   /** 有給情報の配列。 */
   paidLeaves: Array<{
     grantDate: string;  // 有給付与日（YYYY-MM-DD）
@@ -90,6 +106,11 @@ interface Employee {
  */
 export const EmployeeList: React.FC = () => {
   const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  /** 従業員の登録・編集ができるか（権限ロール） */
+  const canEditEmployees = hasPermission('employees.edit');
+  /** 給与（基本給・手当・給与明細）を表示できるか（権限ロール） */
+  const canViewSalary = hasPermission('salary.view');
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
   const employmentTypes = getEmploymentTypes();
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -99,6 +120,10 @@ export const EmployeeList: React.FC = () => {
   const [workLocations, setWorkLocations] = useState<Array<{ id: string; name: string }>>([]);
   const [filterEmploymentTypes, setFilterEmploymentTypes] = useState<string[]>(employmentTypes.map(t => t.code));
   const [showActiveOnly, setShowActiveOnly] = useState(true);
+  /** 部署での絞り込み（空はすべて、NO_DEPARTMENT_KEY は部署未設定） */
+  const [filterDepartmentId, setFilterDepartmentId] = useState<string>('');
+  const { departments } = useDepartments();
+  const departmentTree = flattenDepartmentTree(departments);
   const [showModal, setShowModal] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
   const [isEditingMode, setIsEditingMode] = useState<boolean>(false);
@@ -268,10 +293,17 @@ export const EmployeeList: React.FC = () => {
   };
 
 
+  /** ログイン中の管理者が見られる従業員（閲覧範囲が全従業員なら null） */
+  const visibleEmployeeIds = getVisibleEmployeeIds(employees, getUserInfo().employeeId);
+  const matchesDepartment = createDepartmentFilter(departments, filterDepartmentId);
+  const getDepartmentPath = (departmentId: string | null | undefined): string =>
+    departmentTree.find(item => item.department.id === departmentId)?.path ?? '-';
+
   const filteredEmployees = employees.filter(emp => {
     const matchType = filterEmploymentTypes.length === 0 || filterEmploymentTypes.includes(emp.employmentType);
     const matchActive = !showActiveOnly || !emp.leaveDate;
-    return matchType && matchActive;
+    const matchScope = !visibleEmployeeIds || visibleEmployeeIds.has(emp.id);
+    return matchType && matchActive && matchesDepartment(emp.departmentId) && matchScope;
   });
 
   // ソート機能を共通フックから取得
@@ -337,6 +369,10 @@ export const EmployeeList: React.FC = () => {
       setSnackbar({ message: '必須項目を入力してください', type: 'error' });
       return;
     }
+    if (editingEmployee && wouldCreateReportingCycle(employees, editingEmployee.id, formData.managerEmployeeId ?? null)) {
+      setSnackbar({ message: '本人またはその部下は上長に設定できません', type: 'error' });
+      return;
+    }
 
     try {
       const payload: CreateEmployeeRequest = {
@@ -351,6 +387,10 @@ export const EmployeeList: React.FC = () => {
         baseSalary: formData.baseSalary,
         defaultBreakTime: formData.defaultBreakTime,
         workLocationId: formData.workLocationId ?? null,
+        departmentId: formData.departmentId ?? null,
+        managerEmployeeId: formData.managerEmployeeId ?? null,
+        viewScope: formData.viewScope,
+        adminRole: formData.isAdmin ? formData.adminRole ?? null : null,
         // 新規登録では有給入力欄が無いため paidLeaves は空。編集時のみ手動付与(EMP-)を送信する。
         // バックエンドの更新処理は EMP- のみ置換し、自動付与(AUTO-)は保持する。
         paidLeaves: formData.paidLeaves
@@ -420,9 +460,20 @@ export const EmployeeList: React.FC = () => {
         <h2 style={{ margin: 0, fontSize: isMobile ? '1.25rem' : '1.05rem' }}>
           従業員一覧
         </h2>
-        <NewRegisterButton
-          onClick={handleNewEmployee}
-        />
+        {canEditEmployees && (
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/admin/employees/import')}
+              style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+            >
+              CSV一括取込
+            </Button>
+            <NewRegisterButton
+              onClick={handleNewEmployee}
+            />
+          </div>
+        )}
       </div>
 
       {/* 検索・フィルター */}
@@ -512,6 +563,34 @@ export const EmployeeList: React.FC = () => {
                     ))}
                   </div>
                 </div>
+                <div style={{ 
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: '0.25rem'
+                }}>
+                  <label style={{ display: 'block', marginBottom: '0.25rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                    部署
+                  </label>
+                  <select
+                    value={filterDepartmentId}
+                    onChange={(e) => setFilterDepartmentId(e.target.value)}
+                    style={{
+                      padding: '0.5rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      fontSize: fontSizes.select,
+                      backgroundColor: 'white'
+                    }}
+                  >
+                    <option value="">すべて</option>
+                    {departmentTree.map(({ department, depth }) => (
+                      <option key={department.id} value={department.id}>
+                        {'　'.repeat(depth)}{department.name}
+                      </option>
+                    ))}
+                    <option value={NO_DEPARTMENT_KEY}>部署未設定</option>
+                  </select>
+                </div>
                 <div style={{ 
                   display: 'flex',
                   flexDirection: 'column',
@@ -600,6 +679,36 @@ export const EmployeeList: React.FC = () => {
               ))}
             </div>
           </div>
+          <div style={{ 
+            flex: isMobile ? '1' : '0 0 auto',
+            minWidth: isMobile ? '100%' : 'auto',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.25rem'
+          }}>
+            <label style={{ display: 'block', marginBottom: '0.25rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+              部署
+            </label>
+            <select
+              value={filterDepartmentId}
+              onChange={(e) => setFilterDepartmentId(e.target.value)}
+              style={{
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: fontSizes.select,
+                backgroundColor: 'white'
+              }}
+            >
+              <option value="">すべて</option>
+              {departmentTree.map(({ department, depth }) => (
+                <option key={department.id} value={department.id}>
+                  {'　'.repeat(depth)}{department.name}
+                </option>
+              ))}
+              <option value={NO_DEPARTMENT_KEY}>部署未設定</option>
+            </select>
+          </div>
           <div style={{ 
             flex: isMobile ? '1' : '0 0 auto',
             minWidth: isMobile ? '100%' : 'auto',
@@ -697,22 +806,24 @@ export const EmployeeList: React.FC = () => {
                     </div>
                   </div>
                   <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
-                    <Button
-                      variant="primary"
-                      size="small"
-                      onClick={() => navigate(`/admin/employees/${emp.id}/payroll`)}
-                      title="給与明細を閲覧"
-                      style={{
-                        display: 'inline-flex',
-                        alignItems: 'center',
-                        gap: '0.05rem',
-                        minWidth: '100px',
-                        fontSize: fontSizes.button
-                      }}
-                    >
-                      <ViewIcon size={16} color="#2563eb" />
-                      明細
-                    </Button>
+                    {canViewSalary && (
+                      <Button
+                        variant="primary"
+                        size="small"
+                        onClick={() => navigate(`/admin/employees/${emp.id}/payroll`)}
+                        title="給与明細を閲覧"
+                        style={{
+                          display: 'inline-flex',
+                          alignItems: 'center',
+                          gap: '0.05rem',
+                          minWidth: '100px',
+                          fontSize: fontSizes.button
+                        }}
+                      >
+                        <ViewIcon size={16} color="#2563eb" />
+                        明細
+                      </Button>
+                    )}
                     <Button
                       variant="primary"
                       size="small"
@@ -761,6 +872,10 @@ export const EmployeeList: React.FC = () => {
                     <span style={{ color: '#6b7280' }}>入社日:</span>{' '}
                     {formatDate(emp.joinDate)}
                   </div>
+                  <div>
+                    <span style={{ color: '#6b7280' }}>部署:</span>{' '}
+                    {getDepartmentPath(emp.departmentId)}
+                  </div>
                   <div>
                     <span style={{ color: '#6b7280' }}>メール:</span>{' '}
                     {emp.email}
@@ -810,6 +925,7 @@ export const EmployeeList: React.FC = () => {
                   >
                     {getSortIcon('employmentType')} 雇用形態
                   </th>
+                  <th style={{ padding: '0.75rem', textAlign: 'left' }}>部署</th>
                   <th 
                     style={{ padding: '0.75rem', textAlign: 'left', cursor: 'pointer', userSelect: 'none' }}
                     onClick={() => handleSort('email')}
@@ -835,7 +951,9 @@ export const EmployeeList: React.FC = () => {
                   >
                     {getSortIcon('updatedAt')} 更新日時
                   </th>
-                  <th style={{ padding: '0.75rem', textAlign: 'center' }}>給与明細</th>
+                  {canViewSalary && (
+                    <th style={{ padding: '0.75rem', textAlign: 'center' }}>給与明細</th>
+                  )}
                   <th style={{ padding: '0.75rem', textAlign: 'center' }}>従業員情報</th>
                 </tr>
               </thead>
@@ -872,6 +990,9 @@ export const EmployeeList: React.FC = () => {
                         {getEmploymentTypeLabel(emp.employmentType)}
                       </span>
                     </td>
+                    <td style={{ padding: '0.75rem' }}>
+                      {getDepartmentPath(emp.departmentId)}
+                    </td>
                     <td style={{ padding: '0.75rem' }}>
                       {emp.email}
                     </td>
@@ -893,24 +1014,26 @@ export const EmployeeList: React.FC = () => {
                         minute: '2-digit'
                       }) : '-'}
                     </td>
-                    <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                      <Button
-                        variant="primary"
-                        size="small"
-                        onClick={() => navigate(`/admin/employees/${emp.id}/payroll`)}
-                        title="給与明細を閲覧"
-                        style={{
-                          display: 'inline-flex',
-                          alignItems: 'center',
-                          gap: '0.05rem',
-                          minWidth: '100px',
-                          fontSize: fontSizes.button
-                        }}
-                      >
-                        <ViewIcon size={16} color="#2563eb" />
-                        閲覧
-                      </Button>
-                    </td>
+                    {canViewSalary && (
+                      <td style={{ padding: '0.75rem', textAlign: 'center' }}>
+                        <Button
+                          variant="primary"
+                          size="small"
+                          onClick={() => navigate(`/admin/employees/${emp.id}/payroll`)}
+                          title="給与明細を閲覧"
+                          style={{
+                            display: 'inline-flex',
+                            alignItems: 'center',
+                            gap: '0.05rem',
+                            minWidth: '100px',
+                            fontSize: fontSizes.button
+                          }}
+                        >
+                          <ViewIcon size={16} color="#2563eb" />
+                          閲覧
+                        </Button>
+                      </td>
+                    )}
                     <td style={{ padding: '0.75rem', textAlign: 'center' }}>
                       <Button
                         variant="primary"
@@ -1113,26 +1236,75 @@ export const EmployeeList: React.FC = () => {
                 )}
               </div>
 
-              <div style={{ marginBottom: '1rem' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
-                  <label style={{ fontWeight: 'bold' }}>
-                    給与 {!editingEmployee && '*'}
-                  </label>
-                </div>
-                {isEditingMode || !editingEmployee ? (
-                  <>
-                    {formData.employmentType === 'FULL_TIME' ? (
-                      <>
-                        <div style={{ marginBottom: '0.75rem' }}>
+              {canViewSalary && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                    <label style={{ fontWeight: 'bold' }}>
+                      給与 {!editingEmployee && '*'}
+                    </label>
+                  </div>
+                  {isEditingMode || !editingEmployee ? (
+                    <>
+                      {formData.employmentType === 'FULL_TIME' ? (
+                        <>
+                          <div style={{ marginBottom: '0.75rem' }}>
+                            <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                              基本給（月給）
+                            </label>
+                            <input
+                              type="number"
+                              value={formData.baseSalary || ''}
+                              onChange={(e) => setFormData({ ...formData, baseSalary: Number(e.target.value) })}
+                              min="0"
+                              step="1000"
+                              style={{
+                                width: '100%',
+                                padding: '0.75rem',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '4px',
+                                fontSize: fontSizes.input,
+                                boxSizing: 'border-box'
+                              }}
+                              required
+                            />
+                          </div>
+                          <div style={{
+                            padding: '0.75rem',
+                            backgroundColor: '#f9fafb',
+                            borderRadius: '4px',
+                            border: '1px solid #e5e7eb'
+                          }}>
+                            <div style={{ marginBottom: '0.5rem' }}>
+                              <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>日給: </span>
+                              <span style={{ fontWeight: 'bold' }}>
+                                {formatCurrency(Math.round(formData.baseSalary / 20.5))}円
+                              </span>
+                              <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.5rem' }}>
+                                （基本給 ÷ 20.5）
+                              </span>
+                            </div>
+                            <div>
+                              <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>時給: </span>
+                              <span style={{ fontWeight: 'bold' }}>
+                                {formatCurrency(Math.round((formData.baseSalary / 20.5) / 7.5))}円
+                              </span>
+                              <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.5rem' }}>
+                                （日給 ÷ 7.5）
+                              </span>
+                            </div>
+                          </div>
+                        </>
+                      ) : (
+                        <div>
                           <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
-                            基本給（月給）
+                            時給
                           </label>
                           <input
                             type="number"
                             value={formData.baseSalary || ''}
                             onChange={(e) => setFormData({ ...formData, baseSalary: Number(e.target.value) })}
                             min="0"
-                            step="1000"
+                            step="10"
                             style={{
                               width: '100%',
                               padding: '0.75rem',
@@ -1144,69 +1316,22 @@ export const EmployeeList: React.FC = () => {
                             required
                           />
                         </div>
-                        <div style={{
-                          padding: '0.75rem',
-                          backgroundColor: '#f9fafb',
-                          borderRadius: '4px',
-                          border: '1px solid #e5e7eb'
-                        }}>
-                          <div style={{ marginBottom: '0.5rem' }}>
-                            <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>日給: </span>
-                            <span style={{ fontWeight: 'bold' }}>
-                              {formatCurrency(Math.round(formData.baseSalary / 20.5))}円
-                            </span>
-                            <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.5rem' }}>
-                              （基本給 ÷ 20.5）
-                            </span>
-                          </div>
-                          <div>
-                            <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>時給: </span>
-                            <span style={{ fontWeight: 'bold' }}>
-                              {formatCurrency(Math.round((formData.baseSalary / 20.5) / 7.5))}円
-                            </span>
-                            <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.5rem' }}>
-                              （日給 ÷ 7.5）
-                            </span>
-                          </div>
-                        </div>
-                      </>
-                    ) : (
-                      <div>
-                        <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
-                          時給
-                        </label>
-                        <input
-                          type="number"
-                          value={formData.baseSalary || ''}
-                          onChange={(e) => setFormData({ ...formData, baseSalary: Number(e.target.value) })}
-                          min="0"
-                          step="10"
-                          style={{
-                            width: '100%',
-                            padding: '0.75rem',
-                            border: '1px solid #d1d5db',
-                            borderRadius: '4px',
-                            fontSize: fontSizes.input,
-                            boxSizing: 'border-box'
-                          }}
-                          required
-                        />
-                      </div>
-                    )}
-                  </>
-                ) : (
-                  <div style={{
-                    padding: '0.75rem',
-                    backgroundColor: '#f9fafb',
-                    borderRadius: '4px',
-                    border: '1px solid #e5e7eb',
-                    fontSize: fontSizes.input,
-                    fontWeight: 'bold'
-                  }}>
-                    {formatCurrency(formData.baseSalary || 0)}{formData.employmentType === 'FULL_TIME' ? '/月' : '/時'}
-                  </div>
-                )}
-              </div>
+                      )}
+                    </>
+                  ) : (
+                    <div style={{
+                      padding: '0.75rem',
+                      backgroundColor: '#f9fafb',
+                      borderRadius: '4px',
+                      border: '1px solid #e5e7eb',
+                      fontSize: fontSizes.input,
+                      fontWeight: 'bold'
+                    }}>
+                      {formatCurrency(formData.baseSalary || 0)}{formData.employmentType === 'FULL_TIME' ? '/月' : '/時'}
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div style={{ marginBottom: '1rem' }}>
                 <label style={{ fontWeight: 'bold' }}>
@@ -1625,105 +1750,194 @@ export const EmployeeList: React.FC = () => {
 
               <div style={{ marginBottom: '1rem' }}>
                 <label style={{ fontWeight: 'bold' }}>
-                  手当（複数選択可能）
+                  所属部署
                 </label>
                 {isEditingMode || !editingEmployee ? (
+                  <select
+                    value={formData.departmentId || ''}
+                    onChange={(e) => setFormData({ ...formData, departmentId: e.target.value || null })}
+                    style={{
+                      width: '100%',
+                      padding: '0.75rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      fontSize: fontSizes.input,
+                      boxSizing: 'border-box',
+                      marginTop: '0.5rem',
+                      backgroundColor: 'white'
+                    }}
+                  >
+                    <option value="">未設定</option>
+                    {departmentTree
+                      .filter(({ department }) => department.isActive || department.id === formData.departmentId)
+                      .map(({ department, path }) => (
+                        <option key={department.id} value={department.id}>
+                          {path}
+                        </option>
+                      ))}
+                  </select>
+                ) : (
                   <div style={{
-                    display: 'flex',
-                    flexWrap: 'wrap',
-                    gap: '0.75rem',
-                    padding: '1rem',
-                    backgroundColor: 'white',
+                    padding: '0.75rem',
+                    backgroundColor: '#f9fafb',
                     borderRadius: '4px',
-                    border: '1px solid #d1d5db',
-                    minHeight: '80px',
+                    border: '1px solid #e5e7eb',
+                    fontSize: fontSizes.input,
                     marginTop: '0.5rem'
                   }}>
-                    {allowances.length === 0 ? (
-                      <p style={{ color: '#6b7280', fontSize: fontSizes.medium }}>
-                        手当マスタで手当を登録してください
-                      </p>
-                    ) : (
-                      allowances.map((allowance) => {
-                        const isSelected = formData.allowances.includes(allowance.id);
-                        return (
-                          <button
-                            key={allowance.id}
-                            type="button"
-                            onClick={() => handleAllowanceToggle(allowance.id)}
-                            style={{
-                              padding: '0.25rem 0.75rem',
-                              borderRadius: '16px',
-                              background: isSelected ? allowance.color + '20' : 'white',
-                              backgroundColor: isSelected ? allowance.color + '20' : 'white',
-                              color: isSelected ? allowance.color : '#6b7280',
-                              border: isSelected ? `1px solid ${allowance.color}40` : '1px solid #d1d5db',
-                              fontSize: fontSizes.input,
-                              fontWeight: isSelected ? 'bold' : 'normal',
-                              cursor: 'pointer',
-                              display: 'flex',
-                              alignItems: 'center',
-                              gap: '0.5rem',
-                              boxShadow: 'none',
-                              minHeight: 'auto',
-                              minWidth: 'auto'
-                            }}
-                          >
-                            <div style={{
-                              width: '12px',
-                              height: '12px',
-                              borderRadius: '50%',
-                              backgroundColor: allowance.color
-                            }} />
-                            {allowance.name}
-                          </button>
-                        );
-                      })
-                    )}
+                    {formData.departmentId ? getDepartmentPath(formData.departmentId) : '未設定'}
                   </div>
+                )}
+              </div>
+
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ fontWeight: 'bold' }}>
+                  上長
+                </label>
+                {isEditingMode || !editingEmployee ? (
+                  <select
+                    value={formData.managerEmployeeId || ''}
+                    onChange={(e) => setFormData({ ...formData, managerEmployeeId: e.target.value || null })}
+                    style={{
+                      width: '100%',
+                      padding: '0.75rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      fontSize: fontSizes.input,
+                      boxSizing: 'border-box',
+                      marginTop: '0.5rem',
+                      backgroundColor: 'white'
+                    }}
+                  >
+                    <option value="">未設定</option>
+                    {employees
+                      .filter(emp => emp.id !== editingEmployee?.id && (!emp.leaveDate || emp.id === formData.managerEmployeeId))
+                      .map(emp => (
+                        <option key={emp.id} value={emp.id}>
+                          {emp.firstName} {emp.lastName}
+                        </option>
+                      ))}
+                  </select>
                 ) : (
                   <div style={{
                     padding: '0.75rem',
                     backgroundColor: '#f9fafb',
                     borderRadius: '4px',
                     border: '1px solid #e5e7eb',
-                    minHeight: '60px',
+                    fontSize: fontSizes.input,
                     marginTop: '0.5rem'
                   }}>
-                    {formData.allowances.length > 0 ? (
-                      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
-                        {formData.allowances.map((allowanceId) => {
-                          const allowance = getAllowanceById(allowanceId);
-                          if (!allowance) return null;
+                    {(() => {
+                      const manager = employees.find(emp => emp.id === formData.managerEmployeeId);
+                      return manager ? `${manager.firstName} ${manager.lastName}` : '未設定';
+                    })()}
+                  </div>
+                )}
+              </div>
+
+              {canViewSalary && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <label style={{ fontWeight: 'bold' }}>
+                    手当（複数選択可能）
+                  </label>
+                  {isEditingMode || !editingEmployee ? (
+                    <div style={{
+                      display: 'flex',
+                      flexWrap: 'wrap',
+                      gap: '0.75rem',
+                      padding: '1rem',
+                      backgroundColor: 'white',
+                      borderRadius: '4px',
+                      border: '1px solid #d1d5db',
+                      minHeight: '80px',
+                      marginTop: '0.5rem'
+                    }}>
+                      {allowances.length === 0 ? (
+                        <p style={{ color: '#6b7280', fontSize: fontSizes.medium }}>
+                          手当マスタで手当を登録してください
+                        </p>
+                      ) : (
+                        allowances.map((allowance) => {
+                          const isSelected = formData.allowances.includes(allowance.id);
                           return (
-                            <span
-                              key={allowanceId}
+                            <button
+                              key={allowance.id}
+                              type="button"
+                              onClick={() => handleAllowanceToggle(allowance.id)}
                               style={{
                                 padding: '0.25rem 0.75rem',
                                 borderRadius: '16px',
-                                backgroundColor: allowance.color + '20',
-                                color: allowance.color,
+                                background: isSelected ? allowance.color + '20' : 'white',
+                                backgroundColor: isSelected ? allowance.color + '20' : 'white',
+                                color: isSelected ? allowance.color : '#6b7280',
+                                border: isSelected ? `1px solid ${allowance.color}40` : '1px solid #d1d5db',
                                 fontSize: fontSizes.input,
-                                fontWeight: 'bold',
-                                border: `1px solid ${allowance.color}40`
+                                fontWeight: isSelected ? 'bold' : 'normal',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '0.5rem',
+                                boxShadow: 'none',
+                                minHeight: 'auto',
+                                minWidth: 'auto'
                               }}
                             >
+                              <div style={{
+                                width: '12px',
+                                height: '12px',
+                                borderRadius: '50%',
+                                backgroundColor: allowance.color
+                              }} />
                               {allowance.name}
-                            </span>
+                            </button>
                           );
-                        })}
-                      </div>
-                    ) : (
-                      <span style={{ color: '#9ca3af', fontSize: fontSizes.medium }}>-</span>
-                    )}
-                  </div>
-                )}
-              </div>
+                        })
+                      )}
+                    </div>
+                  ) : (
+                    <div style={{
+                      padding: '0.75rem',
+                      backgroundColor: '#f9fafb',
+                      borderRadius: '4px',
+                      border: '1px solid #e5e7eb',
+                      minHeight: '60px',
+                      marginTop: '0.5rem'
+                    }}>
+                      {formData.allowances.length > 0 ? (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                          {formData.allowances.map((allowanceId) => {
+                            const allowance = getAllowanceById(allowanceId);
+                            if (!allowance) return null;
+                            return (
+                              <span
+                                key={allowanceId}
+                                style={{
+                                  padding: '0.25rem 0.75rem',
+                                  borderRadius: '16px',
+                                  backgroundColor: allowance.color + '20',
+                                  color: allowance.color,
+                                  fontSize: fontSizes.input,
+                                  fontWeight: 'bold',
+                                  border: `1px solid ${allowance.color}40`
+                                }}
+                              >
+                                {allowance.name}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      ) : (
+                        <span style={{ color: '#9ca3af', fontSize: fontSizes.medium }}>-</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div style={{ display: 'flex', gap: '1rem', flexDirection: isMobile ? 'column-reverse' : 'row', justifyContent: isMobile ? 'stretch' : 'flex-end', flexWrap: 'wrap' }}>
                 {isMobile ? (
                   <>
-                    {editingEmployee && !isEditingMode && (
+                    {editingEmployee && !isEditingMode && canEditEmployees && (
                       <EditButton
                         onClick={handleStartEdit}
                         fullWidth
@@ -1753,7 +1967,7 @@ export const EmployeeList: React.FC = () => {
                       type="button"
                       onClick={handleCancel}
                     />
-                    {editingEmployee && !isEditingMode && (
+                    {editingEmployee && !isEditingMode && canEditEmployees && (
                       <EditButton
                         onClick={handleStartEdit}
                         fullWidth={false}
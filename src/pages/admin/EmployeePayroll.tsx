@@ -5,33 +5,59 @@
  * 機能:
  *   - 給与明細のプレビュー表示
  *   - 給与明細の編集（基本情報は編集不可）
- *   - PDF出力機能
+ *   - PDF出力機能（プレビューと同じ内容を文字と表で描画する）
  *   - 年月での検索機能
  *   - 過去の明細一覧表示
  *   - 手当マスタからの参照
  *   - 控除マスタからの参照
+ *   - 登録・編集は給与の計算権限を持つ権限ロールのみ
+ *   - 明細の状態管理（下書き → 確定 → 公開。公開済・ロックの明細だけ従業員の給与明細画面に表示）
+ *   - 振込済みでロックされた明細は編集不可。訂正は調整明細の作成で行い、訂正元との差額を表示
+ *   - 閲覧範囲外の従業員の給与明細は URL を直接指定しても表示しない
  */
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { useAuth } from '../../contexts/AuthContext';
 import { EditIcon, ViewIcon, InfoIcon } from '../../components/Icons';
 import { error as logError, log } from '../../utils/logger';
 import { PdfExportButton, RegisterButton, UpdateButton, Button, EditButton, BackButton } from '../../components/Button';
 import { ProgressBar } from '../../components/ProgressBar';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
 import { formatCurrency, formatMinutesToHHHMM } from '../../utils/formatters';
 import { fontSizes } from '../../config/fontSizes';
 import { getCurrentFiscalYear } from '../../utils/fiscalYear';
 import { dummyEmployees } from '../../data/dummyData';
-import { apiRequest } from '../../config/apiConfig';
-import { getPayrollList, getPayrollDetailByPeriod, getPayrollDetailById, createPayroll, updatePayroll, PayrollDetailResponse, convertPayrollListResponseToRecord, convertPayrollDetailByPeriodToRecord, convertPayrollApiResponseToRecord } from '../../utils/payrollApi';
-import { getStatementTypeLabel } from '../../utils/codeTranslator';
+import { apiRequest, getUserInfo } from '../../config/apiConfig';
+import { getPayrollList, getPayrollDetailByPeriod, getPayrollDetailById, createPayroll, updatePayroll, updatePayrollStatus, PayrollDetailResponse, type PayrollStatementStatus, convertPayrollListResponseToRecord, convertPayrollDetailByPeriodToRecord, convertPayrollApiResponseToRecord } from '../../utils/payrollApi';
+import { getStatementTypeLabel, getPayrollStatusLabel } from '../../utils/codeTranslator';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+import { getPayrollStatusActions, getAdjustmentDifference, isPayrollStatementLocked } from '../../utils/payrollStatus';
+import { getPayslipTitle, type PayslipViewData } from '../../utils/payslip';
+import { PayslipView } from '../../components/PayslipView';
+import { exportPayslipsPdf, type PayslipPdfSection } from '../../utils/payslipPdf';
+import { getPdfExportErrorMessage } from '../../utils/pdfLayout';
 import { getAllowances } from '../../utils/allowanceApi';
 import { getDeductions } from '../../utils/deductionApi';
 import { getAttendanceMyRecords, isHolidayWorkLog, type AttendanceLog } from '../../utils/attendanceApi';
-import { getPayrollPeriodBounds, mergePayrollPeriodSummary } from '../../utils/payrollPeriod';
-import { getEmployee, EmployeeResponse } from '../../utils/employeeApi';
+import { getPayrollPeriodBounds, mergePayrollPeriodSummary, formatPayrollPeriodRangeJapanese, PRESCRIBED_WORK_MINUTES_PER_WEEKDAY } from '../../utils/payrollPeriod';
+import { aggregateOvertimeMinutes, calculateOvertimePremiums, OVERTIME_PREMIUM_RATES, type OvertimeMinutes } from '../../utils/overtimePremium';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { getEmployee, getEmployees, EmployeeResponse } from '../../utils/employeeApi';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { calculateTaxableAmount, calculateBonusWithholdingTax, INCOME_TAX_DEDUCTION_NAME } from '../../utils/withholdingTax';
+import { getWithholdingTaxTable } from '../../config/withholdingTaxTables';
+import { getInsuranceRates, type InsuranceRate } from '../../utils/socialInsuranceApi';
+import {
+  calculateBaseSalary,
+  calculateSalaryIncomeTax,
+  calculateSalaryOvertimeRate,
+  calculateSalarySocialInsurance,
+  getMonthlyPrescribedMinutes,
+  overtimeMinutesOfDetail
+} from '../../utils/payrollCalculation';
 
 /**
  * 手当を表すインターフェース。
@@ -75,6 +101,10 @@ interface PayrollDetail {
   normalOvertime: number;
   /** 深夜残業時間（分）。 */
   lateNightOvertime: number;
+  /** 法定休日労働時間（分、深夜帯を含む）。 */
+  legalHolidayWork?: number;
+  /** 法定休日労働のうち深夜帯の時間（分）。 */
+  legalHolidayLateNight?: number;
   /** 月の総稼働時間（分）。 */
   totalWorkMinutes: number;
   /** 打刻のみの稼働（分）— プレビュー・内訳用。 */
@@ -172,6 +202,10 @@ interface PayrollRecord {
   createdAt?: string;
   /** 給与詳細APIの source（未登録プレビュー時は computed で payrollId が空のことがある）。 */
   payrollSource?: 'snapshot' | 'computed';
+  /** 状態（公開済・ロックの明細だけ従業員の給与明細画面に表示される。ロックは編集不可）。 */
+  status?: PayrollStatementStatus;
+  /** 調整明細の場合、訂正元（ロック済み）の給与明細ID。 */
+  adjustsPayrollId?: string | null;
 }
 
 /**
@@ -179,6 +213,14 @@ interface PayrollRecord {
  */
 type ViewMode = 'list' | 'preview' | 'edit' | 'new';
 
+/** 明細の状態バッジの色 */
+const PAYROLL_STATUS_BADGE_STYLES: Record<PayrollStatementStatus, { backgroundColor: string; color: string }> = {
+  draft: { backgroundColor: '#f3f4f6', color: '#6b7280' },
+  confirmed: { backgroundColor: '#dbeafe', color: '#1e40af' },
+  published: { backgroundColor: '#d1fae5', color: '#065f46' },
+  locked: { backgroundColor: '#fee2e2', color: '#991b1b' }
+};
+
 /**
  * 従業員給与明細画面コンポーネント。
  * 特定の従業員の給与明細を表示・編集します。
@@ -187,8 +229,17 @@ type ViewMode = 'list' | 'preview' | 'edit' | 'new';
  * @returns {JSX.Element} 従業員給与明細画面コンポーネント。
  */
 export const EmployeePayroll: React.FC = () => {
-  const { employeeId } = useParams<{ employeeId: string }>();
+  const { employeeId: requestedEmployeeId } = useParams<{ employeeId: string }>();
+  /** URL で指定された従業員が閲覧範囲内かどうかの確認結果（確認中は null） */
+  const [scopeCheck, setScopeCheck] = useState<{ employeeId: string; isVisible: boolean } | null>(null);
+  /** 表示する従業員のID（閲覧範囲内と確認できるまでは undefined とし、給与明細等を取得しない） */
+  const employeeId = scopeCheck?.isVisible && scopeCheck.employeeId === requestedEmployeeId ? requestedEmployeeId : undefined;
   const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  /** 給与明細の登録・編集ができるか（権限ロール） */
+  const canEditSalary = hasPermission('salary.edit');
+  const { closingRules, isLoaded: isClosingRulesLoaded } = usePayrollClosingRules();
+  const { companyHolidays } = useCompanyHolidays();
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedRecord, setSelectedRecord] = useState<PayrollRecord | null>(null);
@@ -200,7 +251,12 @@ export const EmployeePayroll: React.FC = () => {
   // 年の入力中の一時的な値（APIを叩かないため）
   const [yearInputValue, setYearInputValue] = useState<string>('');
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'error' | 'success' } | null>(null);
-  const payslipRef = useRef<HTMLDivElement>(null);
+  const [confirmModal, setConfirmModal] = useState<{
+    isOpen: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
   
   // ローカルストレージから年度検索条件を読み込む
   const loadFiscalYearSearchCondition = (): number => {
@@ -256,6 +312,15 @@ export const EmployeePayroll: React.FC = () => {
   const [deductions, setDeductions] = useState<Deduction[]>([]);
   const [isLoadingDeductions, setIsLoadingDeductions] = useState<boolean>(false);
 
+  // 保険料率マスタ（社会保険料の自動計算用）
+  const [insuranceRates, setInsuranceRates] = useState<InsuranceRate[]>([]);
+  // 社会保険料を自動入力した値（控除IDごと）。入力値がこの値のままなら再計算時に更新する
+  const autoFilledDeductionsRef = useRef<Record<string, number>>({});
+
+  // 所得税の自動計算の根拠（編集フォームに表示）
+  const [withholdingNote, setWithholdingNote] = useState<string | null>(null);
+  const [isCalculatingIncomeTax, setIsCalculatingIncomeTax] = useState<boolean>(false);
+
   // 従業員名を取得（ダミーデータから、将来的にAPIから取得）
   const [employeeName, setEmployeeName] = useState<string>('従業員');
   const [companyName] = useState<string>('株式会社A・1インテリア');
@@ -272,63 +337,54 @@ export const EmployeePayroll: React.FC = () => {
   
   log(`[EmployeePayroll] Component initialized. employeeId=${employeeId}, payrollRecords.length=${payrollRecords.length}`);
 
+  // URL で指定された従業員が閲覧範囲内か確認する（部署で閲覧範囲が限られる管理者は範囲外の給与明細を表示しない）
+  useEffect(() => {
+    const checkScope = async () => {
+      if (!requestedEmployeeId) return;
+
+      try {
+        const employees = await getEmployees();
+        const visibleEmployeeIds = getVisibleEmployeeIds(employees, getUserInfo().employeeId);
+        const isVisible = !visibleEmployeeIds || visibleEmployeeIds.has(requestedEmployeeId);
+        setScopeCheck({ employeeId: requestedEmployeeId, isVisible });
+      } catch (error) {
+        logError('Failed to check employee scope:', error);
+        // 閲覧範囲を確認できない場合は表示しない
+        setScopeCheck({ employeeId: requestedEmployeeId, isVisible: false });
+        setSnackbar({ message: '従業員情報の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    };
+
+    checkScope();
+  }, [requestedEmployeeId]);
+
   /**
    * 給与計算関数
    * 基本給、時間外手当、深夜手当を計算します
    * 
    * @param employee 従業員情報
-   * @param normalOvertimeMinutes 普通残業時間（分）
-   * @param lateNightOvertimeMinutes 深夜残業時間（分）
+   * @param overtimeMinutes 割増の対象となる時間（分）
    * @param currentAllowances 現在の手当金額（残業代に含む手当を含む）
    * @param allowanceMasters 手当マスタ一覧（残業代に含む判定用）
    * @param actualWorkHoursMinutes 実労働時間（分、パートタイム従業員の基本給計算用）
+   * @param monthlyPrescribedMinutes 月平均所定労働時間（分、残業単価の時間換算用）
    * @returns { baseSalary: number, overtimeAllowance: number, lateNightAllowance: number }
    */
   const calculatePayroll = (
     employee: EmployeeResponse | null,
-    normalOvertimeMinutes: number,
-    lateNightOvertimeMinutes: number,
+    overtimeMinutes: OvertimeMinutes,
     currentAllowances: { [key: string]: number },
     allowanceMasters: Allowance[],
-    actualWorkHoursMinutes: number = 0
+    actualWorkHoursMinutes: number = 0,
+    monthlyPrescribedMinutes: number = PRESCRIBED_WORK_MINUTES_PER_WEEKDAY * 20.5
   ): { baseSalary: number; overtimeAllowance: number; lateNightAllowance: number } => {
-    // 基本給
-    // パートタイム従業員の場合は時給×稼働時間、正社員の場合は月額基本給
-    let baseSalary = 0;
-    if (employee?.employmentType === 'PART_TIME') {
-      // パートタイム: 時給（baseSalary）× 稼働時間（時間）
-      const hourlyRate = employee.baseSalary || 0;
-      const workHours = actualWorkHoursMinutes / 60; // 分を時間に変換
-      baseSalary = Math.round(hourlyRate * workHours);
-    } else {
-      // 正社員: 月額基本給
-      baseSalary = employee?.baseSalary || 0;
-    }
-
-    // 残業代に含む手当（*マークが付いている手当）の金額合計を取得
-    const allowancesForOvertime = allowanceMasters
-      .filter(allowance => allowance.includeInOvertime)
-      .reduce((sum, allowance) => {
-        const amount = currentAllowances[allowance.id] || 0;
-        return sum + amount;
-      }, 0);
-
-    // 残業単価（時給単価） = (基本給 + 残業代に含む手当の金額合計) ÷ 20.5 ÷ 7.5
-    const overtimeRateHourly = (baseSalary + allowancesForOvertime) / 20.5 / 7.5;
-    // 端数処理: 切り上げ（1円単位）
-    const overtimeRateHourlyRounded = Math.ceil(overtimeRateHourly);
-    // 残業単価（分単価）= 残業単価（時給単価）÷ 60
-    const overtimeRatePerMinute = overtimeRateHourlyRounded / 60;
-
-    // 時間外手当の計算
-    // 簡易版: normalOvertimeMinutes（普通残業時間、分単位）に平均単価率1.25倍を適用
-    // 注意: 仕様書では時間帯別・曜日別の単価率があるが、簡易版として平均1.25倍を使用
-    // 時間外手当 = 残業単価（分単価）× 1.25倍 × 普通残業時間（分）
-    const overtimeAllowance = Math.ceil(overtimeRatePerMinute * 1.25 * normalOvertimeMinutes);
-
-    // 深夜手当の計算
-    // 深夜手当 = 残業単価（分単価）× 1.50倍 × 深夜残業時間（分）
-    const lateNightAllowance = Math.ceil(overtimeRatePerMinute * 1.50 * lateNightOvertimeMinutes);
+    // 基本給（パートタイムは時給×稼働時間、正社員は月額基本給）
+    const baseSalary = calculateBaseSalary(employee, actualWorkHoursMinutes);
+    // 残業単価（時給単価） = (基本給 + 残業代に含む手当の金額合計) ÷ 月平均所定労働時間（切り上げ）。パートタイムは時給 + 手当の時間換算
+    const hourlyBase = calculateSalaryOvertimeRate(employee, baseSalary, currentAllowances, allowanceMasters, monthlyPrescribedMinutes);
+    // 時間外手当・深夜手当（時間外 25%、月60時間超 50%、法定休日 35%、深夜 25% の割増）
+    const { overtimeAllowance, lateNightAllowance } = calculateOvertimePremiums(hourlyBase, overtimeMinutes);
 
     return {
       baseSalary,
@@ -344,6 +400,7 @@ export const EmployeePayroll: React.FC = () => {
    * @param allowanceMasters 手当マスタ一覧（残業代に含む判定用）
    * @param actualWorkHoursMinutes 実労働時間（分、パートタイム従業員の基本給計算用）
    * @param formBaseSalary フォームで入力された基本給（オプション、指定されていない場合は従業員情報から取得）
+   * @param monthlyPrescribedMinutes 月平均所定労働時間（分、従業員の契約）
    * @returns 残業単価（円/時間、切り上げ済み）
    */
   const calculateOvertimeRate = (
@@ -351,35 +408,14 @@ export const EmployeePayroll: React.FC = () => {
     currentAllowances: { [key: string]: number },
     allowanceMasters: Allowance[],
     actualWorkHoursMinutes: number = 0,
-    formBaseSalary?: number
+    formBaseSalary?: number,
+    monthlyPrescribedMinutes: number = PRESCRIBED_WORK_MINUTES_PER_WEEKDAY * 20.5
   ): number => {
-    // 基本給
-    let baseSalary = 0;
-    if (formBaseSalary !== undefined) {
-      // フォームで入力された基本給を使用
-      baseSalary = formBaseSalary;
-    } else if (employee?.employmentType === 'PART_TIME') {
-      // パートタイム: 時給（baseSalary）× 稼働時間（時間）
-      const hourlyRate = employee.baseSalary || 0;
-      const workHours = actualWorkHoursMinutes / 60; // 分を時間に変換
-      baseSalary = Math.round(hourlyRate * workHours);
-    } else {
-      // 正社員: 月額基本給
-      baseSalary = employee?.baseSalary || 0;
-    }
-
-    // 残業代に含む手当（*マークが付いている手当）の金額合計を取得
-    const allowancesForOvertime = allowanceMasters
-      .filter(allowance => allowance.includeInOvertime)
-      .reduce((sum, allowance) => {
-        const amount = currentAllowances[allowance.id] || 0;
-        return sum + amount;
-      }, 0);
-
-    // 残業単価 = (基本給 + 残業代に含む手当の金額合計) ÷ 20.5 ÷ 7.5
-    const overtimeRate = (baseSalary + allowancesForOvertime) / 20.5 / 7.5;
-    // 端数処理: 切り上げ（1円単位）
-    return Math.ceil(overtimeRate);
+    // 基本給（フォームで入力された基本給を優先する）
+    const baseSalary = formBaseSalary !== undefined ? formBaseSalary : calculateBaseSalary(employee, actualWorkHoursMinutes);
+    // 残業単価 = (基本給 + 残業代に含む手当の金額合計) ÷ 月平均所定労働時間（端数処理: 切り上げ（1円単位））
+    // パートタイムは 時給 + 残業代に含む手当の金額合計 ÷ 月平均所定労働時間
+    return calculateSalaryOvertimeRate(employee, baseSalary, currentAllowances, allowanceMasters, monthlyPrescribedMinutes);
   };
 
   /**
@@ -613,13 +649,13 @@ export const EmployeePayroll: React.FC = () => {
   useEffect(() => {
     const fetchDataForPeriod = async () => {
       // 新規登録モードで給与明細の場合のみ実行
-      if (viewMode !== 'new' || recordType !== 'payroll' || !employeeId) {
+      if (viewMode !== 'new' || recordType !== 'payroll' || !employeeId || !isClosingRulesLoaded) {
         return;
       }
 
       try {
-        // 給与計算期間: 前月26日〜当月25日 → 2ヶ月分の勤怠を取得して集計
-        const { startDate, endDate } = getPayrollPeriodBounds(newPeriod.year, newPeriod.month);
+        // 給与計算期間: 締め日設定に従う（前月・当月に収まる）→ 2ヶ月分の勤怠を取得して集計
+        const { startDate, endDate } = getPayrollPeriodBounds(newPeriod.year, newPeriod.month, closingRules);
         const prevMonth = newPeriod.month === 1 ? 12 : newPeriod.month - 1;
         const prevYear = newPeriod.month === 1 ? newPeriod.year - 1 : newPeriod.year;
         const yearStr = String(newPeriod.year);
@@ -640,7 +676,7 @@ export const EmployeePayroll: React.FC = () => {
           setEmployeeName(`${employeeResponse.firstName} ${employeeResponse.lastName}`);
         }
 
-        // 前月26日〜当月25日の期間でログをフィルタして結合（workDate は YYYY-MM-DD 想定）
+        // 給与期間でログをフィルタして結合（workDate は YYYY-MM-DD 想定）
         const filterByPeriod = (log: AttendanceLog) => {
           const d = log.workDate;
           return d >= startDate && d <= endDate;
@@ -664,11 +700,11 @@ export const EmployeePayroll: React.FC = () => {
         // 期間内の勤務情報をログから集計
         const actualWorkDays = combinedLogs.filter(log => log.clockIn && log.clockOut).length;
         const actualWorkHoursMinutes = mergedSummary.actualWorkHours;
-        const actualOvertimeHours = combinedLogs.reduce((sum, log) => sum + (log.overtimeMinutes ?? 0), 0);
-        const lateNightOvertime = combinedLogs.reduce((sum, log) => sum + (log.lateNightMinutes ?? 0), 0);
+        // 時間外・深夜・法定休日の時間（法定休日労働は時間外労働から除いて集計）
+        const overtimeMinutes = aggregateOvertimeMinutes(combinedLogs, companyHolidays);
         // 休日出勤日数はバックエンドが返す isHolidayWork（dayTypeOverride 反映済みの確定判定）を使う。
         // フロント独自の曜日判定（二重計算）を排除し、土曜の通常出勤（weekday扱い）も正しく除外される。
-        const holidayWorkDays = combinedLogs.filter(isHolidayWorkLog).length;
+        const holidayWorkDays = combinedLogs.filter(log => isHolidayWorkLog(log, companyHolidays)).length;
 
         // 有給・有給残はAPIの当月サマリーを参照（期間別集計はバックエンド対応が望ましい）
         const summary = currentAttendanceResponse.summary;
@@ -688,6 +724,8 @@ export const EmployeePayroll: React.FC = () => {
               paidLeaveRemainingDate: d.paidLeaveRemainingDate ?? '',
               normalOvertime: d.normalOvertime ?? 0,
               lateNightOvertime: d.lateNightOvertime ?? 0,
+              legalHolidayWork: d.legalHolidayWork ?? 0,
+              legalHolidayLateNight: d.legalHolidayLateNight ?? 0,
               ...timeFields,
               baseSalary: d.baseSalary ?? 0,
               overtimeAllowance: d.overtimeAllowance ?? 0,
@@ -747,29 +785,30 @@ export const EmployeePayroll: React.FC = () => {
         
         // 給与計算（基本給、時間外手当、深夜手当）
         // 既存の給与明細がある場合はAPIの金額を使用、ない場合は計算した値を使用
-        const normalOvertimeMinutes = actualOvertimeHours; // 分単位（前月26日〜当月25日で集計済み）
         const payrollCalculation = existingPayrollDetail ? {
           baseSalary: existingPayrollDetail.baseSalary,
           overtimeAllowance: existingPayrollDetail.overtimeAllowance,
           lateNightAllowance: existingPayrollDetail.lateNightAllowance
         } : calculatePayroll(
           employeeResponse,
-          normalOvertimeMinutes,
-          lateNightOvertime,
+          overtimeMinutes,
           currentAllowances,
           allowances,
-          actualWorkHoursMinutes
+          actualWorkHoursMinutes,
+          getMonthlyPrescribedMinutes(employeeResponse, newPeriod.year, companyHolidays)
         );
         
-        // フォームデータを更新（勤務情報は前月26日〜当月25日で集計した値を使用）
+        // フォームデータを更新（勤務情報は給与期間で集計した値を使用）
         setFormData({
           workingDays: actualWorkDays,
           holidayWork: holidayWorkDays,
           paidLeave: summary.usedPaidLeaveDays || 0,
           paidLeaveRemaining: summary.remainingPaidLeaveDays || 0,
           paidLeaveRemainingDate: summary.paidLeaveExpirationDate || '',
-          normalOvertime: normalOvertimeMinutes, // 分単位
-          lateNightOvertime, // 分単位
+          normalOvertime: overtimeMinutes.overtime, // 分単位
+          lateNightOvertime: overtimeMinutes.lateNightOvertime, // 分単位
+          legalHolidayWork: overtimeMinutes.legalHolidayWork, // 分単位
+          legalHolidayLateNight: overtimeMinutes.legalHolidayLateNight, // 分単位
           totalWorkMinutes: actualWorkHoursMinutes, // 分単位（打刻＋有給換算を含む）
           timeRecordWorkMinutes: mergedSummary.timeRecordOnlyMinutes,
           paidLeaveWorkMinutes: mergedSummary.paidLeaveConvertedMinutes,
@@ -808,7 +847,15 @@ export const EmployeePayroll: React.FC = () => {
     };
 
     fetchDataForPeriod();
-  }, [newPeriod.year, newPeriod.month, viewMode, recordType, employeeId, allowances, deductions]);
+  }, [newPeriod.year, newPeriod.month, viewMode, recordType, employeeId, allowances, deductions, isClosingRulesLoaded, closingRules, companyHolidays]);
+
+  // 残業単価の時間換算に使う月平均所定労働時間（新規作成時は入力中の年、プレビュー・編集時は明細の年で算出）
+  const targetYear = viewMode !== 'new' && selectedRecord ? selectedRecord.year : newPeriod.year;
+  const monthlyPrescribedMinutes = getMonthlyPrescribedMinutes(employeeInfo, targetYear, companyHolidays);
+  // 残業単価の算出式（ツールチップ表示用。パートタイムは時給に残業代に含む手当の時間換算を加える）
+  const overtimeRateFormula = employeeInfo?.employmentType === 'PART_TIME'
+    ? `残業単価（時給単価） = 時給 + 残業代に含む手当（*マーク付き）の金額合計 ÷ 月平均所定労働時間（${formatMinutesToHHHMM(Math.round(monthlyPrescribedMinutes))}）`
+    : `残業単価（時給単価） = (基本給 + 残業代に含む手当（*マーク付き）の金額合計) ÷ 月平均所定労働時間（${formatMinutesToHHHMM(Math.round(monthlyPrescribedMinutes))}）`;
 
   // 残業単価を計算（給与明細の場合のみ）
   useEffect(() => {
@@ -818,7 +865,8 @@ export const EmployeePayroll: React.FC = () => {
         formData.allowances || {},
         allowances,
         formData.totalWorkMinutes || 0,
-        formData.baseSalary
+        formData.baseSalary,
+        monthlyPrescribedMinutes
       );
       setOvertimeRate(calculatedRate);
     } else {
@@ -832,27 +880,25 @@ export const EmployeePayroll: React.FC = () => {
     formData.allowances,
     formData.totalWorkMinutes,
     formData.baseSalary,
-    allowances
+    allowances,
+    monthlyPrescribedMinutes
   ]);
 
   // 残業単価の変更に合わせて時間外手当と深夜手当を自動更新
   useEffect(() => {
     if (((viewMode === 'new' && recordType === 'payroll') || (viewMode === 'edit' && selectedRecord?.type !== 'bonus')) && overtimeRate !== null) {
-      // 残業単価（分単価）= 残業単価（時給単価）÷ 60
-      const overtimeRatePerMinute = overtimeRate / 60;
-      
-      // 時間外手当 = 残業単価（分単価）× 1.25倍 × 普通残業時間（分）
-      // formData.normalOvertimeは分単位で保存されている
-      const calculatedOvertimeAllowance = Math.ceil(overtimeRatePerMinute * 1.25 * (formData.normalOvertime || 0));
-
-      // 深夜手当 = 残業単価（分単価）× 1.50倍 × 深夜残業時間（分）
-      // formData.lateNightOvertimeは分単位で保存されている
-      const calculatedLateNightAllowance = Math.ceil(overtimeRatePerMinute * 1.50 * (formData.lateNightOvertime || 0));
+      // 時間外 25%、月60時間超 50%、法定休日 35%、深夜 25% の割増（formData の時間は分単位）
+      const { overtimeAllowance, lateNightAllowance } = calculateOvertimePremiums(overtimeRate, {
+        overtime: formData.normalOvertime || 0,
+        lateNightOvertime: formData.lateNightOvertime || 0,
+        legalHolidayWork: formData.legalHolidayWork || 0,
+        legalHolidayLateNight: formData.legalHolidayLateNight || 0
+      });
 
       setFormData(prev => ({
         ...prev,
-        overtimeAllowance: calculatedOvertimeAllowance,
-        lateNightAllowance: calculatedLateNightAllowance
+        overtimeAllowance,
+        lateNightAllowance
       }));
     }
   }, [
@@ -861,7 +907,9 @@ export const EmployeePayroll: React.FC = () => {
     selectedRecord?.type,
     overtimeRate,
     formData.normalOvertime,
-    formData.lateNightOvertime
+    formData.lateNightOvertime,
+    formData.legalHolidayWork,
+    formData.legalHolidayLateNight
   ]);
 
   useEffect(() => {
@@ -968,6 +1016,19 @@ export const EmployeePayroll: React.FC = () => {
     fetchDeductions();
   }, []);
 
+  // 保険料率マスタをAPIから取得（未登録・取得失敗時は社会保険料を手入力）
+  useEffect(() => {
+    const fetchInsuranceRates = async () => {
+      try {
+        setInsuranceRates(await getInsuranceRates());
+      } catch (error) {
+        logError('Failed to fetch insurance rates:', error);
+      }
+    };
+
+    fetchInsuranceRates();
+  }, []);
+
   // 給与明細一覧をAPIから取得
   useEffect(() => {
     const fetchPayrollRecords = async () => {
@@ -979,6 +1040,8 @@ export const EmployeePayroll: React.FC = () => {
         let employeeNameForRecords = '従業員';
         try {
           const employeeResponse = await getEmployee(employeeId);
+          // プレビューの時間外・深夜手当の内訳（残業単価の時間換算）に使う
+          setEmployeeInfo(employeeResponse);
           if (employeeResponse.firstName && employeeResponse.lastName) {
             const fullName = `${employeeResponse.firstName} ${employeeResponse.lastName}`;
             setEmployeeName(fullName);
@@ -1148,7 +1211,8 @@ export const EmployeePayroll: React.FC = () => {
         detail: uiDetail,
         memo: record.memo ?? undefined,
         updatedBy: record.updatedBy ?? undefined,
-        payrollSource: convertedRecord.payrollSource
+        payrollSource: convertedRecord.payrollSource,
+        status: convertedRecord.status ?? record.status
       };
       
       setSelectedRecord(fullRecord);
@@ -1232,7 +1296,8 @@ export const EmployeePayroll: React.FC = () => {
         detail: uiDetail,
         memo: record.memo ?? undefined,
         updatedBy: record.updatedBy ?? undefined,
-        payrollSource: convertedRecord.payrollSource
+        payrollSource: convertedRecord.payrollSource,
+        status: convertedRecord.status ?? record.status
       };
       
       setSelectedRecord(fullRecord);
@@ -1326,10 +1391,8 @@ export const EmployeePayroll: React.FC = () => {
           // 出勤簿データから勤務情報を取得
           const summary = attendanceResponse.summary;
           
-          // 深夜残業時間をlogsから集計（lateNightMinutesを合計）
-          const lateNightOvertime = attendanceResponse.logs.reduce((total, log) => {
-            return total + (log.lateNightMinutes || 0);
-          }, 0);
+          // 時間外・深夜・法定休日の時間をlogsから集計（法定休日労働は時間外労働から除く）
+          const overtimeMinutes = aggregateOvertimeMinutes(attendanceResponse.logs, companyHolidays);
           
           // 手当マスタと控除マスタから動的に生成される項目に0を自動セット
           const initialAllowances: { [key: string]: number } = {};
@@ -1343,15 +1406,14 @@ export const EmployeePayroll: React.FC = () => {
           });
           
           // 給与計算（基本給、時間外手当、深夜手当）
-          const normalOvertimeMinutes = summary.actualOvertimeHours || 0; // 分単位
           const actualWorkHoursMinutes = summary.actualWorkHours || 0; // 分単位（パートタイム従業員の基本給計算用）
           const payrollCalculation = calculatePayroll(
             employeeResponse,
-            normalOvertimeMinutes,
-            lateNightOvertime,
+            overtimeMinutes,
             initialAllowances,
             allowances,
-            actualWorkHoursMinutes
+            actualWorkHoursMinutes,
+            getMonthlyPrescribedMinutes(employeeResponse, newPeriod.year, companyHolidays)
           );
           
           setFormData({
@@ -1360,8 +1422,10 @@ export const EmployeePayroll: React.FC = () => {
             paidLeave: summary.usedPaidLeaveDays || 0,
             paidLeaveRemaining: summary.remainingPaidLeaveDays || 0,
             paidLeaveRemainingDate: summary.paidLeaveExpirationDate || '',
-            normalOvertime: normalOvertimeMinutes, // 分単位
-            lateNightOvertime: lateNightOvertime, // 分単位
+            normalOvertime: overtimeMinutes.overtime, // 分単位
+            lateNightOvertime: overtimeMinutes.lateNightOvertime, // 分単位
+            legalHolidayWork: overtimeMinutes.legalHolidayWork, // 分単位
+            legalHolidayLateNight: overtimeMinutes.legalHolidayLateNight, // 分単位
             totalWorkMinutes: actualWorkHoursMinutes, // 分単位
             baseSalary: payrollCalculation.baseSalary,
             overtimeAllowance: payrollCalculation.overtimeAllowance,
@@ -1464,6 +1528,116 @@ export const EmployeePayroll: React.FC = () => {
     window.history.pushState({ viewMode: 'new' }, '', window.location.pathname);
   };
 
+  // 表示中の明細が変わったら自動計算の根拠をクリア
+  useEffect(() => {
+    setWithholdingNote(null);
+    autoFilledDeductionsRef.current = {};
+  }, [viewMode, selectedRecord?.id]);
+
+  const isSalaryForm = (viewMode === 'new' && recordType === 'payroll') || (viewMode === 'edit' && selectedRecord?.type !== 'bonus');
+  const formYear = viewMode === 'new' ? newPeriod.year : selectedRecord?.year ?? newPeriod.year;
+  const formMonth = viewMode === 'new' ? newPeriod.month : selectedRecord?.month ?? newPeriod.month;
+
+  /**
+   * 標準報酬月額・保険料率から計算した社会保険料（控除IDごと）と、その根拠。
+   * 健康保険・厚生年金は標準報酬月額が、雇用保険はその月の総支給額が計算の基礎となる。
+   */
+  const socialInsuranceCalculation = useMemo(() => {
+    if (!isSalaryForm) return null;
+    return calculateSalarySocialInsurance(employeeInfo, insuranceRates, deductions, formYear, formMonth, formData.totalEarnings);
+  }, [isSalaryForm, employeeInfo, insuranceRates, formYear, formMonth, formData.totalEarnings, deductions]);
+
+  // 新規登録時は計算した社会保険料を控除に自動入力する（手入力で変更した項目はそのまま）
+  useEffect(() => {
+    if (viewMode !== 'new' || !socialInsuranceCalculation) return;
+    const computed = socialInsuranceCalculation.values;
+    setFormData(prev => {
+      const next = { ...prev.deductions };
+      let changed = false;
+      Object.entries(computed).forEach(([id, value]) => {
+        const current = prev.deductions[id];
+        const lastAutoFilled = autoFilledDeductionsRef.current[id];
+        if ((!current || current === lastAutoFilled) && current !== value) {
+          next[id] = value;
+          changed = true;
+        }
+        if (!current || current === lastAutoFilled) {
+          autoFilledDeductionsRef.current[id] = value;
+        }
+      });
+      return changed ? { ...prev, deductions: next } : prev;
+    });
+  }, [viewMode, socialInsuranceCalculation]);
+
+  /**
+   * 源泉徴収税額表から所得税を計算し、控除の「所得税」欄に設定する。
+   * 給与は月額表、賞与は前月の給与明細（登録済みのもの）を使って算出率の表で計算する。
+   */
+  const handleCalculateIncomeTax = async () => {
+    const isBonusForm = !((viewMode === 'new' && recordType === 'payroll') || (viewMode === 'edit' && selectedRecord?.type !== 'bonus'));
+    const incomeTaxDeduction = deductions.find(d => d.name === INCOME_TAX_DEDUCTION_NAME);
+    if (!employeeId || !incomeTaxDeduction) {
+      setSnackbar({ message: `控除マスタに「${INCOME_TAX_DEDUCTION_NAME}」が登録されていません`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    const period = viewMode === 'new' ? newPeriod : { year: selectedRecord?.year ?? newPeriod.year, month: selectedRecord?.month ?? newPeriod.month };
+    const table = getWithholdingTaxTable(`${period.year}-${String(period.month).padStart(2, '0')}-01`);
+    const column = employeeInfo?.withholdingColumn ?? 'KOU';
+    const dependents = column === 'KOU' ? employeeInfo?.dependents ?? 0 : 0;
+
+    setIsCalculatingIncomeTax(true);
+    try {
+      let taxable: number;
+      let result = null;
+      if (!isBonusForm) {
+        const salaryIncomeTax = calculateSalaryIncomeTax(
+          employeeInfo,
+          table,
+          formData.totalEarnings,
+          allowances.map(a => ({ name: a.name, amount: formData.allowances[a.id] || 0 })),
+          deductions.map(d => ({ name: d.name, amount: formData.deductions[d.id] || 0 }))
+        );
+        taxable = salaryIncomeTax?.taxable ?? 0;
+        result = salaryIncomeTax?.result ?? null;
+      } else {
+        taxable = calculateTaxableAmount(
+          bonusFormData.totalEarnings,
+          [],
+          deductions.map(d => ({ name: d.name, amount: bonusFormData.deductions[d.id] || 0 }))
+        );
+        // 前月の給与（登録済みの給与明細のみ。未登録の場合は前月給与なしとして計算）
+        const previousYear = period.month === 1 ? period.year - 1 : period.year;
+        const previousMonth = period.month === 1 ? 12 : period.month - 1;
+        const previous = await getPayrollDetailByPeriod(employeeId, previousYear, previousMonth);
+        const previousTaxable = previous.source === 'snapshot' && previous.statementType === 'salary'
+          ? calculateTaxableAmount(previous.detail.totalEarnings, previous.detail.allowances || [], previous.detail.deductions || [])
+          : 0;
+        result = table ? calculateBonusWithholdingTax(table, taxable, previousTaxable, column, dependents) : null;
+      }
+
+      if (!result) {
+        setSnackbar({ message: '源泉徴収税額表に該当するデータが登録されていません。所得税を手入力してください', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+
+      if (isBonusForm) {
+        setBonusFormData(prev => ({ ...prev, deductions: { ...prev.deductions, [incomeTaxDeduction.id]: result.tax } }));
+      } else {
+        setFormData(prev => ({ ...prev, deductions: { ...prev.deductions, [incomeTaxDeduction.id]: result.tax } }));
+      }
+      setWithholdingNote(`${result.basis}（課税対象額 ${formatCurrency(taxable)}）`);
+    } catch (error) {
+      logError('Failed to calculate income tax:', error);
+      setSnackbar({ message: '所得税の計算に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsCalculatingIncomeTax(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!employeeId) {
       setSnackbar({ message: '従業員IDが取得できませんでした', type: 'error' });
@@ -1717,8 +1891,19 @@ export const EmployeePayroll: React.FC = () => {
         
         const shouldCreateFromEdit =
           !selectedRecord.id || selectedRecord.payrollSource === 'computed';
+        // ロックされた明細は変更せず、訂正後の内容で調整明細を作成する
+        const isAdjustment = isPayrollStatementLocked(selectedRecord.status);
 
-        if (shouldCreateFromEdit) {
+        if (isAdjustment) {
+          await createPayroll({
+            employeeId,
+            year: selectedRecord.year,
+            month: selectedRecord.month,
+            statementType,
+            detail: detailPayload,
+            adjustsPayrollId: selectedRecord.id
+          });
+        } else if (shouldCreateFromEdit) {
           await createPayroll({
             employeeId,
             year: selectedRecord.year,
@@ -1756,12 +1941,16 @@ export const EmployeePayroll: React.FC = () => {
         });
         setPayrollRecords(mappedRecords);
         
-        const updatedRecord = mappedRecords.find(
-          r =>
-            r.year === selectedRecord.year &&
-            r.month === selectedRecord.month &&
-            r.type === selectedRecord.type
-        );
+        const updatedRecord = isAdjustment
+          ? mappedRecords.filter(r => r.adjustsPayrollId === selectedRecord.id).pop()
+          : mappedRecords.find(r =>
+              selectedRecord.id
+                ? r.id === selectedRecord.id
+                : r.year === selectedRecord.year &&
+                  r.month === selectedRecord.month &&
+                  r.type === selectedRecord.type &&
+                  !r.adjustsPayrollId
+            );
         if (updatedRecord) {
           let resolvedRecord: ReturnType<typeof convertPayrollApiResponseToRecord> | ReturnType<typeof convertPayrollDetailByPeriodToRecord>;
           if (updatedRecord.id) {
@@ -1792,7 +1981,8 @@ export const EmployeePayroll: React.FC = () => {
             detail: uiDetail,
             memo: updatedRecord.memo ?? undefined,
             updatedBy: updatedRecord.updatedBy ?? undefined,
-            payrollSource: resolvedRecord.payrollSource
+            payrollSource: resolvedRecord.payrollSource,
+            status: resolvedRecord.status ?? updatedRecord.status
           };
           setSelectedRecord(fullRecord);
         } else {
@@ -1806,7 +1996,7 @@ export const EmployeePayroll: React.FC = () => {
         window.history.pushState({ viewMode: 'preview', recordId: recordToUse.id }, '', window.location.pathname);
         
         const typeLabel = getStatementTypeLabel((selectedRecord.type === 'payroll' ? 'salary' : selectedRecord.type) || 'salary');
-        const doneLabel = shouldCreateFromEdit ? '登録' : '更新';
+        const doneLabel = isAdjustment ? '調整明細として登録' : shouldCreateFromEdit ? '登録' : '更新';
         setSnackbar({ message: `${typeLabel}を${doneLabel}しました`, type: 'success' });
         setTimeout(() => setSnackbar(null), 3000);
       }
@@ -1869,35 +2059,95 @@ export const EmployeePayroll: React.FC = () => {
     }
   };
 
+  /** 明細の状態変更（確定・公開・公開取り消しなど。公開済の明細だけ従業員の給与明細画面に表示される） */
+  const changeStatus = async (record: PayrollRecord, nextStatus: PayrollStatementStatus) => {
+    if (!record.id) return;
+    setIsLoadingPayroll(true);
+    try {
+      await updatePayrollStatus(record.id, nextStatus);
+      setSelectedRecord(prev => (prev && prev.id === record.id ? { ...prev, status: nextStatus } : prev));
+      setPayrollRecords(prev => prev.map(r => (r.id === record.id ? { ...r, status: nextStatus } : r)));
+      setSnackbar({ message: `明細を${getPayrollStatusLabel(nextStatus)}にしました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to update payroll status:', error);
+      setSnackbar({ message: translateApiError(error), type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoadingPayroll(false);
+    }
+  };
+
+  /** 状態変更の確認モーダルを表示する */
+  const handleChangeStatus = (record: PayrollRecord, nextStatus: PayrollStatementStatus) => {
+    if (!record.id) return;
+    setConfirmModal({
+      isOpen: true,
+      title: nextStatus === 'published' ? '明細の公開' : '明細の状態変更',
+      message: nextStatus === 'published'
+        ? `${record.period}の明細を公開しますか？公開すると従業員の給与明細画面に表示されます。`
+        : `${record.period}の明細の状態を「${getPayrollStatusLabel(nextStatus)}」に変更しますか？`,
+      onConfirm: () => {
+        setConfirmModal(null);
+        changeStatus(record, nextStatus);
+      }
+    });
+  };
+
+  // PDF出力（プレビューと同じ内容を文字と表で描画する。調整明細の差額・時間外・深夜手当の内訳も表として出力する）
   const handleExportPDF = async () => {
-    if (!payslipRef.current || !selectedRecord) return;
+    if (!selectedRecord || !currentRecord || !previewPayslipData) return;
 
-    try {
-      const canvas = await html2canvas(payslipRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false
+    const sections: PayslipPdfSection[] = [];
+    if (adjustedOriginal && adjustmentDifference) {
+      sections.push({
+        title: `${adjustedOriginal.period}の明細（振込済み）の訂正`,
+        columns: [
+          { header: '項目', width: 3 },
+          { header: '差額', width: 2, align: 'right' }
+        ],
+        rows: [
+          { cells: ['総支給額', formatSignedCurrency(adjustmentDifference.totalEarnings)] },
+          { cells: ['控除合計', formatSignedCurrency(adjustmentDifference.totalDeductions)] },
+          { cells: ['差引支給額', formatSignedCurrency(adjustmentDifference.netPay)], bold: true }
+        ]
+      });
+    }
+    if (currentRecord.type !== 'bonus' && currentRecord.detail && overtimePremiumBreakdown && overtimePremiumBreakdown.lines.length > 0) {
+      const notes = [`残業単価 ${formatCurrency(overtimePremiumBreakdown.hourlyBase)}/時間（月平均所定労働時間 ${formatMinutesToHHHMM(Math.round(monthlyPrescribedMinutes))}）`];
+      if (overtimePremiumBreakdown.overtimeAllowance !== currentRecord.detail.overtimeAllowance ||
+        overtimePremiumBreakdown.lateNightAllowance !== currentRecord.detail.lateNightAllowance) {
+        notes.push(`計算値（時間外手当 ${formatCurrency(overtimePremiumBreakdown.overtimeAllowance)}・深夜手当 ${formatCurrency(overtimePremiumBreakdown.lateNightAllowance)}）と明細の金額が異なります`);
+      }
+      sections.push({
+        title: '時間外・深夜手当の内訳',
+        note: notes.join('\n'),
+        columns: [
+          { header: '区分', width: 4 },
+          { header: '時間', width: 2, align: 'right' },
+          { header: '支給率', width: 2, align: 'right' },
+          { header: '金額', width: 2, align: 'right' }
+        ],
+        rows: overtimePremiumBreakdown.lines.map(line => ({
+          cells: [line.label, formatMinutesToHHHMM(line.minutes), `${line.percent}%`, formatCurrency(line.amount)]
+        }))
       });
+    }
 
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgX = (pdfWidth - imgWidth * ratio) / 2;
-      const imgY = 0;
-
-      pdf.addImage(imgData, 'PNG', imgX, imgY, imgWidth * ratio, imgHeight * ratio);
-      pdf.save(`${selectedRecord.employeeName}_${selectedRecord.period.replace(/\s/g, '_')}.pdf`);
+    try {
+      setIsLoadingPayroll(true);
+      await exportPayslipsPdf(
+        [{ data: previewPayslipData, sections }],
+        `${selectedRecord.employeeName}_${selectedRecord.period.replace(/\s/g, '_')}.pdf`
+      );
     } catch (err) {
       logError('PDF出力エラー:', err);
-      alert('PDF出力に失敗しました');
+      alert(getPdfExportErrorMessage(err));
+    } finally {
+      setIsLoadingPayroll(false);
     }
   };
 
-
   // 期間文字列から年月を抽出してソート用の数値を取得
   const getPeriodSortValue = (period: string): number => {
     const yearMatch = period.match(/(\d{4})年/);
@@ -2023,14 +2273,69 @@ export const EmployeePayroll: React.FC = () => {
     };
   };
 
-  /** 給与計算期間を「前月26日 〜 当月25日」形式で返す（例: 2025年 10月 → 2025年9月26日 〜 2025年10月25日） */
+  /** 給与計算期間を締め日設定に従って返す（例: 25日締めの 2025年 10月 → 2025年9月26日 〜 2025年10月25日） */
   const getPayrollPeriodDateRange = (period: string): string => {
     const ym = extractYearMonthFromPeriod(period);
     if (!ym) return '';
-    const { year, month } = ym;
-    const prevMonth = month === 1 ? 12 : month - 1;
-    const prevYear = month === 1 ? year - 1 : year;
-    return `${prevYear}年${prevMonth}月26日 〜 ${year}年${month}月25日`;
+    return formatPayrollPeriodRangeJapanese(ym.year, ym.month, closingRules);
+  };
+
+  /** プレビュー中の明細を明細書の表示データにする（手当・控除はマスタの並び順） */
+  const buildPreviewPayslipData = (record: PayrollRecord): PayslipViewData | null => {
+    const base = {
+      title: getPayslipTitle(record.type === 'bonus' ? 'bonus' : 'salary', !!record.adjustsPayrollId),
+      companyName: record.companyName,
+      employeeName: record.employeeName && record.employeeName !== '従業員' ? record.employeeName : employeeName,
+      period: record.period
+    };
+    const toDeductionLines = (values: { [key: string]: number } | Array<{ name: string; amount: number }> | undefined) => {
+      if (Array.isArray(values)) {
+        return values.map(item => ({ label: item.name, amount: item.amount }));
+      }
+      return deductions.map(deduction => ({ label: deduction.name, amount: values?.[deduction.id] || 0 }));
+    };
+
+    if (record.type === 'bonus') {
+      const bonusAmount = record.bonusDetail ? record.bonusDetail.bonus : record.detail?.baseSalary || 0;
+      return {
+        ...base,
+        attendance: null,
+        earnings: [{ label: '賞与', amount: bonusAmount, alwaysShow: true }],
+        totalEarnings: record.bonusDetail?.totalEarnings ?? record.detail?.totalEarnings ?? 0,
+        deductions: toDeductionLines(record.bonusDetail?.deductions ?? record.detail?.deductions),
+        totalDeductions: record.bonusDetail?.totalDeductions ?? record.detail?.totalDeductions ?? 0,
+        netPay: record.bonusDetail?.netPay || record.detail?.netPay || 0
+      };
+    }
+    if (!record.detail) return null;
+    const detail = record.detail;
+    return {
+      ...base,
+      periodRange: getPayrollPeriodDateRange(record.period),
+      attendance: {
+        workingDays: detail.workingDays,
+        holidayWork: detail.holidayWork,
+        paidLeave: detail.paidLeave,
+        paidLeaveRemaining: detail.paidLeaveRemaining,
+        totalWorkMinutes: detail.totalWorkMinutes,
+        normalOvertime: detail.normalOvertime,
+        lateNightOvertime: detail.lateNightOvertime
+      },
+      earnings: [
+        { label: '基本給', amount: detail.baseSalary, alwaysShow: true },
+        { label: '時間外手当', amount: detail.overtimeAllowance, alwaysShow: true },
+        { label: '深夜手当', amount: detail.lateNightAllowance, alwaysShow: true },
+        // APIからは名称をキーとして返ってくるため、名称でも検索
+        ...allowances.map(allowance => ({
+          label: `${allowance.name}${allowance.includeInOvertime ? '*' : ''}`,
+          amount: detail.allowances?.[allowance.name] || detail.allowances?.[allowance.id] || 0
+        }))
+      ],
+      totalEarnings: detail.totalEarnings,
+      deductions: toDeductionLines(detail.deductions),
+      totalDeductions: detail.totalDeductions,
+      netPay: detail.netPay
+    };
   };
 
   // プレビュー画面で選択中の年月
@@ -2087,10 +2392,73 @@ export const EmployeePayroll: React.FC = () => {
       }) : 
       null);
 
+  // 時間外手当・深夜手当の内訳（給与明細のみ）。プレビューで計算根拠を確認できるようにする
+  const overtimePremiumBreakdown = currentRecord && 'detail' in currentRecord && currentRecord.detail && employeeInfo
+    ? calculateOvertimePremiums(
+        overtimeRate ?? calculateOvertimeRate(
+          employeeInfo,
+          currentRecord.detail.allowances || {},
+          allowances,
+          currentRecord.detail.totalWorkMinutes || 0,
+          currentRecord.detail.baseSalary,
+          monthlyPrescribedMinutes
+        ),
+        overtimeMinutesOfDetail(currentRecord.detail)
+      )
+    : null;
+
+  const previewPayslipData = viewMode === 'preview' && currentRecord ? buildPreviewPayslipData(currentRecord) : null;
+
+  // 調整明細の訂正元（一覧にある場合のみ）との差額
+  const formatSignedCurrency = (amount: number) => `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+  const adjustedOriginal = previewPayslipData && selectedRecord?.adjustsPayrollId
+    ? payrollRecords.find(r => r.id === selectedRecord.adjustsPayrollId)
+    : undefined;
+  const adjustmentDifference = previewPayslipData && adjustedOriginal
+    ? getAdjustmentDifference(previewPayslipData, {
+        totalEarnings: adjustedOriginal.totalEarnings ?? 0,
+        totalDeductions: adjustedOriginal.totalDeductions ?? 0,
+        netPay: adjustedOriginal.netPay ?? 0
+      })
+    : null;
+
+  if (!requestedEmployeeId) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        <p>従業員IDが指定されていません。</p>
+      </div>
+    );
+  }
+
+  if (!employeeId) {
+    const isOutOfScope = scopeCheck?.employeeId === requestedEmployeeId && !scopeCheck.isVisible;
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        {snackbar && (
+          <Snackbar
+            message={snackbar.message}
+            type={snackbar.type}
+            onClose={() => setSnackbar(null)}
+          />
+        )}
+        <p>{isOutOfScope ? 'この従業員の給与明細を表示する権限がありません。' : '読み込み中...'}</p>
+      </div>
+    );
+  }
+
   return (
     <div style={{ position: 'relative', display: 'flex', flexDirection: 'column', height: isMobile ? 'auto' : '100%' }}>
       {/* ローディング表示 */}
       {(isLoadingPayroll || isLoadingAllowances || isLoadingDeductions) && <ProgressBar isLoading={true} />}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title={confirmModal.title}
+          message={confirmModal.message}
+          onConfirm={confirmModal.onConfirm}
+          onCancel={() => setConfirmModal(null)}
+        />
+      )}
       {/* スナックバー */}
       {snackbar && (
         <div
@@ -2168,7 +2536,7 @@ export const EmployeePayroll: React.FC = () => {
             '給与明細一覧'
           }
         </h2>
-        {viewMode === 'list' && (
+        {viewMode === 'list' && canEditSalary && (
           <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
             <button
               onClick={(e) => {
@@ -2430,6 +2798,17 @@ export const EmployeePayroll: React.FC = () => {
                               color: record.type === 'bonus' ? '#92400e' : '#1e40af'
                             }}>
                               {getStatementTypeLabel((record.type === 'payroll' ? 'salary' : record.type) || 'salary')}
+                              {record.adjustsPayrollId ? '（調整）' : ''}
+                            </span>
+                            <span style={{
+                              display: 'inline-block',
+                              padding: '0.25rem 0.5rem',
+                              borderRadius: '4px',
+                              fontSize: '0.75rem',
+                              fontWeight: 'bold',
+                              ...PAYROLL_STATUS_BADGE_STYLES[record.status ?? 'draft']
+                            }}>
+                              {getPayrollStatusLabel(record.status ?? 'draft')}
                             </span>
                         </div>
                         <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>
@@ -2547,36 +2926,38 @@ export const EmployeePayroll: React.FC = () => {
                           <ViewIcon size={16} color="#2563eb" />
                           閲覧
                         </Button>
-                        <button
-                          onClick={() => handleEdit(record)}
-                          style={{
-                            padding: '0.5rem 1rem',
-                            background: 'transparent',
-                            backgroundColor: 'transparent',
-                            border: '1px solid #2563eb',
-                            borderRadius: '4px',
-                            cursor: 'pointer',
-                            display: 'inline-flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            color: '#2563eb',
-                            transition: 'background-color 0.2s',
-                            boxShadow: 'none',
-                            minHeight: 'auto',
-                            minWidth: 'auto',
-                            flex: 1
-                          }}
-                          onMouseEnter={(e) => {
-                            e.currentTarget.style.backgroundColor = '#eff6ff';
-                          }}
-                          onMouseLeave={(e) => {
-                            e.currentTarget.style.backgroundColor = 'transparent';
-                          }}
-                          title="編集"
-                        >
-                          <EditIcon size={16} color="#2563eb" />
-                          編集
-                        </button>
+                        {canEditSalary && (
+                          <button
+                            onClick={() => handleEdit(record)}
+                            style={{
+                              padding: '0.5rem 1rem',
+                              background: 'transparent',
+                              backgroundColor: 'transparent',
+                              border: '1px solid #2563eb',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              display: 'inline-flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              color: '#2563eb',
+                              transition: 'background-color 0.2s',
+                              boxShadow: 'none',
+                              minHeight: 'auto',
+                              minWidth: 'auto',
+                              flex: 1
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor = '#eff6ff';
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor = 'transparent';
+                            }}
+                            title={isPayrollStatementLocked(record.status) ? '調整明細を作成' : '編集'}
+                          >
+                            <EditIcon size={16} color="#2563eb" />
+                            {isPayrollStatementLocked(record.status) ? '調整明細を作成' : '編集'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   );
@@ -2607,6 +2988,7 @@ export const EmployeePayroll: React.FC = () => {
                         {getSortIcon('period')} 期間
                       </th>
                       <th style={{ padding: '0.75rem', textAlign: 'center', width: '100px', minWidth: '100px', maxWidth: '100px' }}>種類</th>
+                      <th style={{ padding: '0.75rem', textAlign: 'center', width: '100px', minWidth: '100px', maxWidth: '100px' }}>状態</th>
                       <th 
                         style={{ padding: '0.75rem', textAlign: 'right', cursor: 'pointer', userSelect: 'none', width: '150px', minWidth: '150px', maxWidth: '150px'  }}
                         onClick={() => handleSort('totalEarnings')}
@@ -2634,7 +3016,9 @@ export const EmployeePayroll: React.FC = () => {
                         {getSortIcon('updatedAt')} 更新日時
                       </th>
                       <th style={{ padding: '0.75rem', textAlign: 'center' ,width: '100px', minWidth: '100px', maxWidth: '100px' }}>明細詳細</th>
-                      <th style={{ padding: '0.75rem', textAlign: 'center' ,width: '100px', minWidth: '100px', maxWidth: '100px' }}>編集</th>
+                      {canEditSalary && (
+                        <th style={{ padding: '0.75rem', textAlign: 'center' ,width: '100px', minWidth: '100px', maxWidth: '100px' }}>編集</th>
+                      )}
                     </tr>
                   </thead>
                   <tbody>
@@ -2657,6 +3041,19 @@ export const EmployeePayroll: React.FC = () => {
                               color: record.type === 'bonus' ? '#92400e' : '#1e40af'
                             }}>
                               {getStatementTypeLabel((record.type === 'payroll' ? 'salary' : record.type) || 'salary')}
+                              {record.adjustsPayrollId ? '（調整）' : ''}
+                            </span>
+                          </td>
+                          <td style={{ padding: '0.75rem', textAlign: 'center', width: '100px', minWidth: '100px', maxWidth: '100px' }}>
+                            <span style={{
+                              display: 'inline-block',
+                              padding: '0.25rem 0.5rem',
+                              borderRadius: '4px',
+                              fontSize: '0.875rem',
+                              fontWeight: 'bold',
+                              ...PAYROLL_STATUS_BADGE_STYLES[record.status ?? 'draft']
+                            }}>
+                              {getPayrollStatusLabel(record.status ?? 'draft')}
                             </span>
                           </td>
                         <td style={{ padding: '0.75rem', textAlign: 'right' }}>
@@ -2774,43 +3171,45 @@ export const EmployeePayroll: React.FC = () => {
                             閲覧
                           </Button>
                         </td>
-                        <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                          {isMobile ? (
-                            <EditButton
-                              onClick={() => handleEdit(record)}
-                              size="small"
-                            />
-                          ) : (
-                            <button
-                              onClick={() => handleEdit(record)}
-                              style={{
-                                padding: '0.75rem',
-                                background: 'transparent',
-                                backgroundColor: 'transparent',
-                                border: 'none',
-                                borderRadius: '4px',
-                                cursor: 'pointer',
-                                display: 'inline-flex',
-                                alignItems: 'center',
-                                justifyContent: 'center',
-                                color: '#2563eb',
-                                transition: 'background-color 0.2s',
-                                boxShadow: 'none',
-                                minHeight: 'auto',
-                                minWidth: 'auto'
-                              }}
-                              onMouseEnter={(e) => {
-                                e.currentTarget.style.backgroundColor = '#eff6ff';
-                              }}
-                              onMouseLeave={(e) => {
-                                e.currentTarget.style.backgroundColor = 'transparent';
-                              }}
-                              title="編集"
-                            >
-                              <EditIcon size={28} color="#2563eb" />
-                            </button>
-                          )}
-                        </td>
+                        {canEditSalary && (
+                          <td style={{ padding: '0.75rem', textAlign: 'center' }}>
+                            {isMobile ? (
+                              <EditButton
+                                onClick={() => handleEdit(record)}
+                                size="small"
+                              />
+                            ) : (
+                              <button
+                                onClick={() => handleEdit(record)}
+                                style={{
+                                  padding: '0.75rem',
+                                  background: 'transparent',
+                                  backgroundColor: 'transparent',
+                                  border: 'none',
+                                  borderRadius: '4px',
+                                  cursor: 'pointer',
+                                  display: 'inline-flex',
+                                  alignItems: 'center',
+                                  justifyContent: 'center',
+                                  color: '#2563eb',
+                                  transition: 'background-color 0.2s',
+                                  boxShadow: 'none',
+                                  minHeight: 'auto',
+                                  minWidth: 'auto'
+                                }}
+                                onMouseEnter={(e) => {
+                                  e.currentTarget.style.backgroundColor = '#eff6ff';
+                                }}
+                                onMouseLeave={(e) => {
+                                  e.currentTarget.style.backgroundColor = 'transparent';
+                                }}
+                                title={isPayrollStatementLocked(record.status) ? '調整明細を作成' : '編集'}
+                              >
+                                <EditIcon size={28} color="#2563eb" />
+                              </button>
+                            )}
+                          </td>
+                        )}
                       </tr>
                       );
                     })}
@@ -2939,272 +3338,57 @@ export const EmployeePayroll: React.FC = () => {
             </div>
           )}
           {/* プレビュー画面 */}
-          {viewMode === 'preview' && currentRecord && (
-            <div ref={payslipRef} style={{
-              backgroundColor: 'white',
-              padding: '2rem',
-              borderRadius: '8px',
-              fontFamily: 'sans-serif',
-              color: '#1f2937'
-            }}>
-              <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
-                <h1 style={{ fontSize: '2rem', fontWeight: 'bold', margin: 0 }}>
-                  {getStatementTypeLabel((currentRecord.type === 'payroll' ? 'salary' : currentRecord.type) || 'salary')}書
-                </h1>
-              </div>
-
-              <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '2rem' }}>
-                <div>
-                  <div style={{ fontSize: '1.125rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>
-                    {currentRecord.companyName}
-                  </div>
-                  <div style={{ fontSize: fontSizes.large }}>
-                    氏名 {((currentRecord.employeeName && currentRecord.employeeName !== '従業員') ? currentRecord.employeeName : employeeName)}様
-                  </div>
-                </div>
-                <div style={{ textAlign: isMobile ? 'left' : 'right' }}>
-                  <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>
-                    {currentRecord.period}
-                  </div>
-                  {currentRecord.type !== 'bonus' && (
-                    <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
-                      給与計算期間: {getPayrollPeriodDateRange(currentRecord.period)}
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {currentRecord.type === 'bonus' ? (
-                // 賞与明細のプレビュー
-                <>
-                  {/* 支給セクション */}
-                  <div style={{ marginBottom: '2rem', border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
-                    <div style={{ backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' }}>
-                      支給
-                    </div>
-                    <div style={{ padding: '1rem' }}>
-                      {/* bonusDetailがある場合はそれを使用、ない場合はdetail.baseSalaryから賞与を取得 */}
-                      {(() => {
-                        let bonusAmount = 0;
-                        let totalEarnings = 0;
-                        if (currentRecord.bonusDetail) {
-                          bonusAmount = currentRecord.bonusDetail.bonus;
-                          totalEarnings = currentRecord.bonusDetail.totalEarnings;
-                        } else if (currentRecord.detail) {
-                          // detail.baseSalaryから賞与を取得
-                          bonusAmount = currentRecord.detail.baseSalary || 0;
-                          totalEarnings = currentRecord.detail.totalEarnings || 0;
-                        }
-                        return (
-                          <>
-                      <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                        <div style={{ fontWeight: 'bold' }}>賞与</div>
-                              <div style={{ fontWeight: 'bold' }}>{formatCurrency(bonusAmount)}</div>
-                      </div>
-                      <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', marginTop: '0.5rem', borderTop: '2px solid #1f2937' }}>
-                        <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>総支給額</div>
-                              <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>{formatCurrency(totalEarnings)}</div>
-                      </div>
-                          </>
-                        );
-                      })()}
-                    </div>
-                  </div>
-
-                  {/* 控除セクション */}
-                  <div style={{ marginBottom: '2rem', border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
-                    <div style={{ backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' }}>
-                      控除
-                    </div>
-                    <div style={{ padding: '1rem' }}>
-                      {/* 控除マスタから動的に表示 */}
-                      {(() => {
-                        let deductionsObj: { [key: string]: number } = {};
-                        let totalDeductions = 0;
-                        if (currentRecord.bonusDetail) {
-                          deductionsObj = currentRecord.bonusDetail.deductions || {};
-                          totalDeductions = currentRecord.bonusDetail.totalDeductions || 0;
-                        } else if (currentRecord.detail) {
-                          // detailから控除を取得（配列形式またはオブジェクト形式に対応）
-                          if (Array.isArray(currentRecord.detail.deductions)) {
-                            deductionsObj = {};
-                            currentRecord.detail.deductions.forEach(item => {
-                              const deduction = deductions.find(d => d.name === item.name);
-                              if (deduction) {
-                                deductionsObj[deduction.id] = item.amount;
-                              }
-                            });
-                          } else {
-                            deductionsObj = currentRecord.detail.deductions || {};
-                          }
-                          totalDeductions = currentRecord.detail.totalDeductions || 0;
-                        }
-                        return (
-                          <>
-                            {deductions.map(deduction => {
-                              const amount = deductionsObj[deduction.id] || 0;
-                              if (amount === 0) return null;
-                              return (
-                                <div key={deduction.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                                  <div>{deduction.name}</div>
-                                  <div style={{ fontWeight: 'bold' }}>{formatCurrency(amount)}</div>
-                      </div>
-                              );
-                            })}
-                      <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', marginTop: '0.5rem', borderTop: '2px solid #1f2937' }}>
-                        <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>控除合計</div>
-                              <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>{formatCurrency(totalDeductions)}</div>
-                      </div>
-                          </>
-                        );
-                      })()}
-                    </div>
-                  </div>
-
-                  {/* 差引支給額 */}
-                  <div style={{ 
-                    padding: '1.5rem', 
-                    backgroundColor: '#d1fae5', 
-                    borderRadius: '4px',
-                    textAlign: 'center'
-                  }}>
-                    <div style={{ fontSize: fontSizes.medium, color: '#065f46', marginBottom: '0.5rem' }}>差引支給額</div>
-                    <div style={{ fontSize: '2rem', fontWeight: 'bold', color: '#065f46' }}>
-                      {formatCurrency(
-                        currentRecord.bonusDetail?.netPay || 
-                        currentRecord.detail?.netPay || 
-                        0
-                      )}
-                    </div>
-                  </div>
-                </>
-              ) : 'detail' in currentRecord && currentRecord.detail ? (
-                // 給与明細のプレビュー（既存）
-                <>
-              {/* 勤務セクション */}
-              <div style={{ marginBottom: '2rem', border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
-                <div style={{ backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' }}>
-                  勤務
-                </div>
-                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '1rem', padding: '1rem', marginBottom: '1rem' }}>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>出勤日数</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{currentRecord.detail.workingDays}</div>
-                  </div>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>休日出勤</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{currentRecord.detail.holidayWork}</div>
-                  </div>
+          {viewMode === 'preview' && currentRecord && previewPayslipData && (
+            <PayslipView data={previewPayslipData} isMobile={isMobile}>
+              {/* 調整明細の訂正元との差額 */}
+              {adjustedOriginal && adjustmentDifference && (
+                <div style={{ marginBottom: '2rem', padding: '1rem', border: '1px solid #fcd34d', backgroundColor: '#fffbeb', borderRadius: '4px', fontSize: fontSizes.medium }}>
+                  <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>{adjustedOriginal.period}の明細（振込済み）の訂正</div>
                   <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>有給休暇</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{currentRecord.detail.paidLeave}</div>
-                  </div>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>有給残日数</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>
-                      {currentRecord.detail.paidLeaveRemaining}
-                    </div>
-                  </div>
-                </div>
-                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '1rem', padding: '0 1rem 1rem 1rem' }}>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>
-                      稼働時間
-                    </div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>
-                      {formatMinutesToHHHMM(currentRecord.detail.totalWorkMinutes)}
-                    </div>
-                  </div>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>普通残業時間</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{formatMinutesToHHHMM(currentRecord.detail.normalOvertime)}</div>
-                  </div>
-                  <div>
-                    <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>深夜残業時間</div>
-                    <div style={{ fontSize: '1.125rem', fontWeight: 'bold' }}>{formatMinutesToHHHMM(currentRecord.detail.lateNightOvertime)}</div>
+                    総支給額 {formatSignedCurrency(adjustmentDifference.totalEarnings)} ／ 控除合計 {formatSignedCurrency(adjustmentDifference.totalDeductions)} ／ 差引支給額 <strong>{formatSignedCurrency(adjustmentDifference.netPay)}</strong>
                   </div>
                 </div>
-              </div>
-
-              {/* 支給・控除セクション（横並び） */}
-              <div style={{ display: 'flex', gap: '1rem', marginBottom: '2rem', flexDirection: isMobile ? 'column' : 'row' }}>
-                {/* 支給セクション */}
-                <div style={{ flex: 1, border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
-                  <div style={{ backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' }}>
-                    支給
-                  </div>
-                  <div style={{ padding: '1rem' }}>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                      <div>基本給</div>
-                      <div style={{ fontWeight: 'bold' }}>{formatCurrency(currentRecord.detail.baseSalary)}</div>
-                    </div>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                      <div>時間外手当</div>
-                      <div style={{ fontWeight: 'bold' }}>{formatCurrency(currentRecord.detail.overtimeAllowance)}</div>
-                    </div>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                      <div>深夜手当</div>
-                      <div style={{ fontWeight: 'bold' }}>{formatCurrency(currentRecord.detail.lateNightAllowance)}</div>
-                    </div>
-                    {/* 手当マスタから動的に表示 */}
-                    {allowances.map(allowance => {
-                      // APIからは名称をキーとして返ってくるため、名称で検索
-                      const amount = currentRecord.detail?.allowances?.[allowance.name] || currentRecord.detail?.allowances?.[allowance.id] || 0;
-                      if (amount === 0) return null;
-                      return (
-                        <div key={allowance.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                          <div>{allowance.name}{allowance.includeInOvertime ? '*' : ''}</div>
-                          <div style={{ fontWeight: 'bold' }}>{formatCurrency(amount)}</div>
-                        </div>
-                      );
-                    })}
-                    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', marginTop: '0.5rem', borderTop: '2px solid #1f2937' }}>
-                      <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>総支給額</div>
-                      <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>{formatCurrency(currentRecord.detail.totalEarnings)}</div>
-                    </div>
-                  </div>
-                </div>
-
-                {/* 控除セクション */}
-                <div style={{ flex: 1, border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
+              )}
+              {/* 時間外・深夜手当の内訳 */}
+              {currentRecord.type !== 'bonus' && currentRecord.detail && overtimePremiumBreakdown && overtimePremiumBreakdown.lines.length > 0 && (
+                <div style={{ marginBottom: '2rem', border: '1px solid #e5e7eb', borderRadius: '4px', overflow: 'hidden' }}>
                   <div style={{ backgroundColor: '#f3f4f6', padding: '0.75rem', fontWeight: 'bold', borderBottom: '1px solid #e5e7eb' }}>
-                    控除
+                    時間外・深夜手当の内訳
                   </div>
-                  <div style={{ padding: '1rem' }}>
-                    {/* 控除マスタから動的に表示 */}
-                    {deductions.map(deduction => {
-                      const amount = currentRecord.detail?.deductions?.[deduction.id] || 0;
-                      if (amount === 0) return null;
-                      return (
-                        <div key={deduction.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e5e7eb' }}>
-                          <div>{deduction.name}</div>
-                          <div style={{ fontWeight: 'bold' }}>{formatCurrency(amount)}</div>
-                        </div>
-                      );
-                    })}
-                    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '0.75rem 0', marginTop: '0.5rem', borderTop: '2px solid #1f2937' }}>
-                      <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>控除合計</div>
-                      <div style={{ fontWeight: 'bold', fontSize: '1.125rem' }}>{formatCurrency(currentRecord.detail.totalDeductions)}</div>
+                  <div style={{ padding: '1rem', overflowX: 'auto' }}>
+                    <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginBottom: '0.5rem' }}>
+                      残業単価 {formatCurrency(overtimePremiumBreakdown.hourlyBase)}/時間（月平均所定労働時間 {formatMinutesToHHHMM(Math.round(monthlyPrescribedMinutes))}）
                     </div>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: fontSizes.medium }}>
+                      <thead>
+                        <tr style={{ borderBottom: '1px solid #e5e7eb', color: '#6b7280' }}>
+                          <th style={{ textAlign: 'left', padding: '0.5rem 0', fontWeight: 'normal' }}>区分</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem 0', fontWeight: 'normal' }}>時間</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem 0', fontWeight: 'normal' }}>支給率</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem 0', fontWeight: 'normal' }}>金額</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {overtimePremiumBreakdown.lines.map(line => (
+                          <tr key={line.label} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                            <td style={{ padding: '0.5rem 0' }}>{line.label}</td>
+                            <td style={{ textAlign: 'right', padding: '0.5rem 0' }}>{formatMinutesToHHHMM(line.minutes)}</td>
+                            <td style={{ textAlign: 'right', padding: '0.5rem 0' }}>{line.percent}%</td>
+                            <td style={{ textAlign: 'right', padding: '0.5rem 0', fontWeight: 'bold' }}>{formatCurrency(line.amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {(overtimePremiumBreakdown.overtimeAllowance !== currentRecord.detail.overtimeAllowance ||
+                      overtimePremiumBreakdown.lateNightAllowance !== currentRecord.detail.lateNightAllowance) && (
+                      <div style={{ fontSize: fontSizes.small, color: '#d97706', marginTop: '0.5rem' }}>
+                        計算値（時間外手当 {formatCurrency(overtimePremiumBreakdown.overtimeAllowance)}・深夜手当 {formatCurrency(overtimePremiumBreakdown.lateNightAllowance)}）と明細の金額が異なります
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-
-              {/* 差引支給額 */}
-              <div style={{ 
-                padding: '1.5rem', 
-                backgroundColor: '#d1fae5', 
-                borderRadius: '4px',
-                textAlign: 'center'
-              }}>
-                <div style={{ fontSize: fontSizes.medium, color: '#065f46', marginBottom: '0.5rem' }}>差引支給額</div>
-                <div style={{ fontSize: '2rem', fontWeight: 'bold', color: '#065f46' }}>
-                  {formatCurrency(currentRecord.detail.netPay)}
-                </div>
-              </div>
-                </>
-              ) : null}
-            </div>
+              )}
+            </PayslipView>
           )}
 
           {/* プレビュー画面のフッター */}
@@ -3241,41 +3425,57 @@ export const EmployeePayroll: React.FC = () => {
                     whiteSpace: 'nowrap'
                   }}
                 />
-                <button
-                  onClick={() => handleEdit(currentRecord)}
-                  style={{
-                    padding: '0.75rem 1.5rem',
-                    background: 'white',
-                    backgroundColor: 'white',
-                    border: '1px solid #2563eb',
-                    borderRadius: '4px',
-                    cursor: 'pointer',
-                    display: 'inline-flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    gap: '0.5rem',
-                    color: '#2563eb',
-                    transition: 'background-color 0.2s, border-color 0.2s',
-                    whiteSpace: 'nowrap',
-                    boxShadow: 'none',
-                    minHeight: 'auto',
-                    minWidth: 'auto',
-                    fontSize: isMobile ? '0.875rem' : '0.7rem',
-                    fontWeight: 'bold'
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = '#eff6ff';
-                    e.currentTarget.style.borderColor = '#1d4ed8';
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = 'white';
-                    e.currentTarget.style.borderColor = '#2563eb';
-                  }}
-                  title="編集"
-                >
-                  <EditIcon size={isMobile ? 20 : 24} color="#2563eb" />
-                  編集
-                </button>
+                {canEditSalary && currentRecord.id && currentRecord.payrollSource !== 'computed' &&
+                  getPayrollStatusActions(currentRecord.status).map(action => (
+                    <Button
+                      key={action.status}
+                      variant={action.status === 'draft' || (action.status === 'confirmed' && currentRecord.status === 'published') ? 'secondary' : 'primary'}
+                      onClick={() => handleChangeStatus(currentRecord, action.status)}
+                      style={{
+                        fontSize: isMobile ? '0.875rem' : '0.7rem',
+                        whiteSpace: 'nowrap'
+                      }}
+                    >
+                      {action.label}
+                    </Button>
+                  ))}
+                {canEditSalary && (
+                  <button
+                    onClick={() => handleEdit(currentRecord)}
+                    style={{
+                      padding: '0.75rem 1.5rem',
+                      background: 'white',
+                      backgroundColor: 'white',
+                      border: '1px solid #2563eb',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      display: 'inline-flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      gap: '0.5rem',
+                      color: '#2563eb',
+                      transition: 'background-color 0.2s, border-color 0.2s',
+                      whiteSpace: 'nowrap',
+                      boxShadow: 'none',
+                      minHeight: 'auto',
+                      minWidth: 'auto',
+                      fontSize: isMobile ? '0.875rem' : '0.7rem',
+                      fontWeight: 'bold'
+                    }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = '#eff6ff';
+                      e.currentTarget.style.borderColor = '#1d4ed8';
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = 'white';
+                      e.currentTarget.style.borderColor = '#2563eb';
+                    }}
+                    title={isPayrollStatementLocked(currentRecord.status) ? '調整明細を作成' : '編集'}
+                  >
+                    <EditIcon size={isMobile ? 20 : 24} color="#2563eb" />
+                    {isPayrollStatementLocked(currentRecord.status) ? '調整明細を作成' : '編集'}
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -3288,8 +3488,21 @@ export const EmployeePayroll: React.FC = () => {
               borderRadius: '8px'
             }}>
               <h3 style={{ marginBottom: '1.05rem', fontSize: isMobile ? '1.125rem' : '0.875rem' }}>
-                {viewMode === 'new' ? `${getStatementTypeLabel(recordType === 'bonus' ? 'bonus' : 'salary')}登録` : `${getStatementTypeLabel((selectedRecord?.type === 'payroll' ? 'salary' : selectedRecord?.type) || 'salary')}編集`}
+                {viewMode === 'new' ? `${getStatementTypeLabel(recordType === 'bonus' ? 'bonus' : 'salary')}登録` : `${getStatementTypeLabel((selectedRecord?.type === 'payroll' ? 'salary' : selectedRecord?.type) || 'salary')}${isPayrollStatementLocked(selectedRecord?.status) ? '調整明細作成' : '編集'}`}
               </h3>
+              {viewMode === 'edit' && isPayrollStatementLocked(selectedRecord?.status) && (
+                <div style={{
+                  marginBottom: '1rem',
+                  padding: '0.75rem 1rem',
+                  backgroundColor: '#fef3c7',
+                  border: '1px solid #fcd34d',
+                  borderRadius: '4px',
+                  color: '#92400e',
+                  fontSize: fontSizes.medium
+                }}>
+                  この明細は振込済みのためロックされています。保存すると元の明細は変更せず、訂正後の内容で調整明細を作成します。
+                </div>
+              )}
 
               {/* 給与明細の場合のみ勤務情報を表示 */}
               {((viewMode === 'new' && recordType === 'payroll') || (viewMode === 'edit' && selectedRecord?.type !== 'bonus')) && (
@@ -3443,7 +3656,8 @@ export const EmployeePayroll: React.FC = () => {
                             formData.allowances || {},
                             allowances,
                             finalMinutes,
-                            formData.baseSalary
+                            formData.baseSalary,
+                            monthlyPrescribedMinutes
                           );
                           setOvertimeRate(calculatedRate);
                         }
@@ -3582,7 +3796,7 @@ export const EmployeePayroll: React.FC = () => {
                         fontSize: fontSizes.small, 
                         color: '#6b7280'
                       }}>
-                        残業単価: {formatCurrency(overtimeRate)}/時間
+                        残業単価: {formatCurrency(overtimeRate)}/時間（月平均所定労働時間 {formatMinutesToHHHMM(Math.round(monthlyPrescribedMinutes))}）
                       </div>
                     </div>
                   )}
@@ -3618,7 +3832,8 @@ export const EmployeePayroll: React.FC = () => {
                             formData.allowances || {},
                             allowances,
                             formData.totalWorkMinutes || 0,
-                            formData.baseSalary
+                            formData.baseSalary,
+                            monthlyPrescribedMinutes
                           );
                           setOvertimeRate(calculatedRate);
                         }}
@@ -3635,7 +3850,7 @@ export const EmployeePayroll: React.FC = () => {
                     <div>
                       <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', fontSize: fontSizes.label }}>
                         時間外手当
-                        <Tooltip content={`【算出ロジック】\n残業単価（時給単価） = (基本給 + 残業代に含む手当（*マーク付き）の金額合計) ÷ 20.5 ÷ 7.5\n残業単価（分単価） = 残業単価（時給単価） ÷ 60\n時間外手当 = 残業単価（分単価） × 1.25倍 × 普通残業時間（分）\n\n※端数処理: 切り上げ（1円単位）\n※簡易版として平均単価率1.25倍を使用（時間帯別・曜日別の単価率は未実装）`}>
+                        <Tooltip content={`【算出ロジック】\n${overtimeRateFormula}\n時間外手当 = 残業単価 × 普通残業時間 × ${100 + OVERTIME_PREMIUM_RATES.overtime}%（月60時間超は ${100 + OVERTIME_PREMIUM_RATES.overtimeOver60Hours}%）+ 残業単価 × 法定休日労働時間 × ${100 + OVERTIME_PREMIUM_RATES.legalHoliday}%\n\n※端数処理: 切り上げ（1円単位）\n※月平均所定労働時間 = 年間の所定労働時間 ÷ 12\n※法定休日は日曜日。月60時間の判定に法定休日労働は含めない`}>
                           <InfoIcon size={16} color="#3b82f6" />
                         </Tooltip>
                       </label>
@@ -3662,7 +3877,7 @@ export const EmployeePayroll: React.FC = () => {
                     <div>
                       <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', fontSize: fontSizes.label }}>
                         深夜手当
-                        <Tooltip content={`【算出ロジック】\n残業単価（時給単価） = (基本給 + 残業代に含む手当（*マーク付き）の金額合計) ÷ 20.5 ÷ 7.5\n残業単価（分単価） = 残業単価（時給単価） ÷ 60\n深夜手当 = 残業単価（分単価） × 1.50倍 × 深夜残業時間（分）\n\n※端数処理: 切り上げ（1円単位）\n※深夜時間帯: 22:00-04:59`}>
+                        <Tooltip content={`【算出ロジック】\n${overtimeRateFormula}\n深夜手当 = 残業単価 × 深夜残業時間 × ${100 + OVERTIME_PREMIUM_RATES.overtime + OVERTIME_PREMIUM_RATES.lateNight}%（月60時間超は ${100 + OVERTIME_PREMIUM_RATES.overtimeOver60Hours + OVERTIME_PREMIUM_RATES.lateNight}%）+ 残業単価 × 法定休日の深夜時間 × ${OVERTIME_PREMIUM_RATES.lateNight}%\n\n※端数処理: 切り上げ（1円単位）\n※深夜時間帯: 22:00-04:59`}>
                           <InfoIcon size={16} color="#3b82f6" />
                         </Tooltip>
                       </label>
@@ -3715,7 +3930,8 @@ export const EmployeePayroll: React.FC = () => {
                               formData.allowances,
                               allowances,
                               formData.totalWorkMinutes || 0,
-                              formData.baseSalary
+                              formData.baseSalary,
+                              monthlyPrescribedMinutes
                             );
                             setOvertimeRate(calculatedRate);
                           }}
@@ -3769,6 +3985,27 @@ export const EmployeePayroll: React.FC = () => {
                 {/* 控除 */}
                 <div style={{ flex: 1, padding: '1rem', backgroundColor: 'white', borderRadius: '4px' }}>
                   <h4 style={{ marginBottom: '1rem', fontSize: isMobile ? fontSizes.h4.mobile : fontSizes.h4.desktop, fontWeight: 'bold' }}>控除</h4>
+                  <div style={{ marginBottom: '1rem' }}>
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      onClick={handleCalculateIncomeTax}
+                      disabled={isCalculatingIncomeTax}
+                      title="社会保険料等を控除した後の金額と扶養親族等の数から源泉徴収税額表で計算します"
+                    >
+                      {isCalculatingIncomeTax ? '計算中...' : `${INCOME_TAX_DEDUCTION_NAME}を自動計算`}
+                    </Button>
+                    {withholdingNote && (
+                      <div style={{ marginTop: '0.5rem', fontSize: fontSizes.small, color: '#6b7280' }}>
+                        {withholdingNote}
+                      </div>
+                    )}
+                    {socialInsuranceCalculation && (
+                      <div style={{ marginTop: '0.5rem', fontSize: fontSizes.small, color: '#6b7280' }}>
+                        社会保険料: {socialInsuranceCalculation.note}
+                      </div>
+                    )}
+                  </div>
                   {/* 給与明細の場合 */}
                   {((viewMode === 'new' && recordType === 'payroll') || (viewMode === 'edit' && selectedRecord?.type !== 'bonus')) ? (
                   <div style={{ 
@@ -3806,6 +4043,12 @@ export const EmployeePayroll: React.FC = () => {
                             boxSizing: 'border-box'
                           }}
                         />
+                        {socialInsuranceCalculation?.values[deduction.id] !== undefined &&
+                          (formData.deductions[deduction.id] || 0) !== socialInsuranceCalculation.values[deduction.id] && (
+                          <div style={{ marginTop: '0.25rem', fontSize: fontSizes.small, color: '#d97706' }}>
+                            計算値 {formatCurrency(socialInsuranceCalculation.values[deduction.id])} と異なります
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
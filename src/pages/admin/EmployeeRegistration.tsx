@@ -9,6 +9,10 @@
  *   - 基本給（時給）の設定
  *   - 管理者フラグの設定
  *   - 手当の複数選択
+ *   - 所定労働時間（1日）の契約履歴の設定
+ *   - 給与振込先口座の設定
+ *   - 所属部署・上長・管理者の閲覧範囲の設定
+ *   - 打刻端末の本人確認（社員コード・PIN・社員証のQRコード）の設定
  */
 
 import { useState, useEffect } from 'react';
@@ -18,9 +22,18 @@ import { Button, CancelButton } from '../../components/Button';
 import { fontSizes } from '../../config/fontSizes';
 import { getEmploymentTypes } from '../../config/masterData';
 import { formatCurrency } from '../../utils/formatters';
-import { createEmployee, updateEmployee, getEmployee, CreateEmployeeRequest } from '../../utils/employeeApi';
+import { createEmployee, updateEmployee, getEmployee, getEmployees, CreateEmployeeRequest, type EmployeeResponse, type PrescribedWorkContract, type BankAccount, type BankAccountType, type SocialInsuranceSettings, type StandardRemunerationRecord, type StandardRemunerationReason } from '../../utils/employeeApi';
+import { toZenginKana, BANK_ACCOUNT_TYPE_LABELS } from '../../utils/zenginTransfer';
+import { validateEmployeeRequest } from '../../utils/employeeValidation';
+import { normalizeKioskInput, KIOSK_PIN_MAX_LENGTH, KIOSK_PIN_MIN_LENGTH } from '../../utils/kiosk';
+import { WITHHOLDING_COLUMN_LABELS, type WithholdingColumn } from '../../utils/withholdingTax';
+import { findStandardRemunerationGrade, gradeToDecision, PREFECTURES, STANDARD_REMUNERATION_REASON_LABELS } from '../../utils/socialInsurance';
+import { resolvePrescribedWorkMinutesPerDay } from '../../utils/payrollPeriod';
 import { getAllowances } from '../../utils/allowanceApi';
 import { getWorkLocations } from '../../utils/workLocationApi';
+import { useDepartments } from '../../hooks/useDepartments';
+import { flattenDepartmentTree, EMPLOYEE_VIEW_SCOPE_LABELS, type EmployeeViewScope } from '../../utils/department';
+import { ADMIN_ROLE_LABELS, ADMIN_ROLE_DESCRIPTIONS, DEFAULT_ADMIN_ROLE, type AdminRole } from '../../utils/permission';
 import { error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 
@@ -66,6 +79,35 @@ interface Employee {
   isAdmin: boolean;
   /** 勤務拠点ID。nullの場合は未設定。 */
   workLocationId: string | null;
+  /** 所属部署ID。nullの場合は未設定。 */
+  departmentId: string | null;
+  /** 上長の従業員ID。nullの場合は未設定。 */
+  managerEmployeeId: string | null;
+  /** 管理者の閲覧範囲。 */
+  viewScope: EmployeeViewScope;
+  adminRole: AdminRole;
+  /** 所定労働時間の契約履歴（適用開始日つき）。空の場合は1日7.5時間。 */
+  workContracts: PrescribedWorkContract[];
+  /** 給与振込先口座。全項目が空の場合は未登録として保存する。 */
+  bankAccount: BankAccount;
+  /** 源泉徴収税額表の区分（甲欄・乙欄）。 */
+  withholdingColumn: WithholdingColumn;
+  /** 源泉控除対象の扶養親族等の数。 */
+  dependents: number;
+  /** 生年月日（YYYY-MM-DD）。未入力の場合は空文字。 */
+  birthDate: string;
+  /** 社会保険の加入情報と標準報酬月額の履歴。 */
+  socialInsurance: SocialInsuranceSettings;
+  /** 社員コード（打刻端末で入力する数字）。未入力の場合は空文字。 */
+  employeeCode: string;
+  /** 新しい打刻端末のPIN。空文字の場合は変更しない。 */
+  kioskPin: string;
+  /** 打刻端末のPINを設定済みかどうか。 */
+  hasKioskPin: boolean;
+  /** 設定済みの打刻端末のPINを削除するかどうか。 */
+  clearKioskPin: boolean;
+  /** 社員証のQRコードの内容。未入力の場合は空文字。 */
+  kioskCardCode: string;
   /** 有給情報の配列。 */
   paidLeaves: Array<{
     grantDate: string;  // 有給付与日（YYYY-MM-DD）
@@ -73,6 +115,31 @@ interface Employee {
   }>;
 }
 
+/** 振込先口座の初期値（未登録） */
+const EMPTY_BANK_ACCOUNT: BankAccount = {
+  bankCode: '',
+  bankName: '',
+  branchCode: '',
+  branchName: '',
+  accountType: 'ORDINARY',
+  accountNumber: '',
+  accountHolder: ''
+};
+
+/** 社会保険の加入情報の初期値（未加入） */
+const EMPTY_SOCIAL_INSURANCE: SocialInsuranceSettings = {
+  healthInsuranceEnrolled: false,
+  employmentInsuranceEnrolled: false,
+  prefecture: '東京都',
+  standardRemunerations: []
+};
+
+/**
+ * 振込先口座が未入力かどうか（預金種目は既定値があるため判定に含めない）。
+ */
+const isBankAccountEmpty = (account: BankAccount): boolean =>
+  !account.bankCode && !account.bankName && !account.branchCode && !account.branchName && !account.accountNumber && !account.accountHolder;
+
 /**
  * 従業員登録・編集画面コンポーネント。
  * 従業員の新規登録および既存従業員の情報編集を行います。
@@ -90,6 +157,9 @@ export const EmployeeRegistration: React.FC = () => {
   const [allowances, setAllowances] = useState<Allowance[]>([]);
   const [isLoadingAllowances, setIsLoadingAllowances] = useState<boolean>(true);
   const [workLocations, setWorkLocations] = useState<Array<{ id: string; name: string }>>([]);
+  const { departments } = useDepartments();
+  /** 上長の候補と上長の循環チェックに使う従業員一覧 */
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
 
   const [formData, setFormData] = useState<Employee>({
     id: '',
@@ -104,6 +174,21 @@ export const EmployeeRegistration: React.FC = () => {
     defaultBreakTime: 60,
     isAdmin: false,
     workLocationId: null,
+    departmentId: null,
+    managerEmployeeId: null,
+    viewScope: 'all',
+    adminRole: DEFAULT_ADMIN_ROLE,
+    workContracts: [],
+    bankAccount: EMPTY_BANK_ACCOUNT,
+    withholdingColumn: 'KOU',
+    dependents: 0,
+    birthDate: '',
+    socialInsurance: EMPTY_SOCIAL_INSURANCE,
+    employeeCode: '',
+    kioskPin: '',
+    hasKioskPin: false,
+    clearKioskPin: false,
+    kioskCardCode: '',
     paidLeaves: []
   });
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
@@ -154,6 +239,30 @@ export const EmployeeRegistration: React.FC = () => {
             baseSalary: employee.baseSalary,
             defaultBreakTime: employee.defaultBreakTime,
             workLocationId: employee.workLocationId ?? null,
+            departmentId: employee.departmentId ?? null,
+            managerEmployeeId: employee.managerEmployeeId ?? null,
+            viewScope: employee.viewScope ?? 'all',
+            adminRole: employee.adminRole ?? DEFAULT_ADMIN_ROLE,
+            // 契約履歴が未登録の従業員は、既存の所定労働時間を入社日からの契約として表示する
+            workContracts: employee.workContracts && employee.workContracts.length > 0
+              ? employee.workContracts
+              : employee.prescribedWorkHours
+                ? [{ effectiveFrom: employee.joinDate, prescribedWorkHours: employee.prescribedWorkHours }]
+                : [],
+            bankAccount: employee.bankAccount
+              ? { ...EMPTY_BANK_ACCOUNT, ...employee.bankAccount }
+              : EMPTY_BANK_ACCOUNT,
+            withholdingColumn: employee.withholdingColumn ?? 'KOU',
+            dependents: employee.dependents ?? 0,
+            birthDate: employee.birthDate ?? '',
+            socialInsurance: employee.socialInsurance
+              ? { ...EMPTY_SOCIAL_INSURANCE, ...employee.socialInsurance }
+              : EMPTY_SOCIAL_INSURANCE,
+            employeeCode: employee.employeeCode ?? '',
+            kioskPin: '',
+            hasKioskPin: employee.hasKioskPin ?? false,
+            clearKioskPin: false,
+            kioskCardCode: employee.kioskCardCode ?? '',
             paidLeaves: employee.paidLeaves
           });
         } catch (error) {
@@ -231,48 +340,86 @@ export const EmployeeRegistration: React.FC = () => {
     loadWorkLocations();
   }, []);
 
+  // 上長の候補として従業員一覧を取得
+  useEffect(() => {
+    const loadEmployees = async () => {
+      try {
+        setEmployees(await getEmployees());
+      } catch (error) {
+        logError('Failed to load employees:', error);
+      }
+    };
+    loadEmployees();
+  }, []);
+
   // 給与計算（正社員の場合）
   const calculateDailySalary = (baseSalary: number): number => {
     return Math.round(baseSalary / 20.5);
   };
 
+  // 本日時点で適用される1日の所定労働時間（時間）。契約が無い場合は 7.5
+  const currentPrescribedWorkHours =
+    resolvePrescribedWorkMinutesPerDay(new Date().toISOString().split('T')[0], formData.workContracts) / 60;
+
   const calculateHourlySalary = (baseSalary: number, employmentType: 'FULL_TIME' | 'PART_TIME'): number => {
     if (employmentType === 'FULL_TIME') {
       const dailySalary = calculateDailySalary(baseSalary);
-      return Math.round(dailySalary / 7.5);
+      return Math.round(dailySalary / currentPrescribedWorkHours);
     }
     return baseSalary; // パートの場合は時給がbaseSalary
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.firstName || !formData.lastName || !formData.email || !formData.joinDate) {
-      setSnackbar({ message: '必須項目を入力してください', type: 'error' });
-      return;
-    }
-    if (formData.baseSalary <= 0) {
-      setSnackbar({ message: '給与を入力してください', type: 'error' });
+    const bankAccount = isBankAccountEmpty(formData.bankAccount)
+      ? null
+      : { ...formData.bankAccount, accountHolder: toZenginKana(formData.bankAccount.accountHolder).trim() };
+    const socialInsurance = formData.socialInsurance.healthInsuranceEnrolled || formData.socialInsurance.employmentInsuranceEnrolled
+      ? {
+          ...formData.socialInsurance,
+          standardRemunerations: [...formData.socialInsurance.standardRemunerations].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+        }
+      : null;
+    const payload: CreateEmployeeRequest = {
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+      employmentType: formData.employmentType,
+      email: formData.email,
+      joinDate: formData.joinDate,
+      leaveDate: formData.leaveDate || null,
+      allowances: formData.allowances,
+      isAdmin: formData.isAdmin,
+      baseSalary: formData.baseSalary,
+      defaultBreakTime: formData.defaultBreakTime,
+      workLocationId: formData.workLocationId || null,
+      departmentId: formData.departmentId || null,
+      managerEmployeeId: formData.managerEmployeeId || null,
+      viewScope: formData.isAdmin ? formData.viewScope : 'all',
+      adminRole: formData.isAdmin ? formData.adminRole : null,
+      // 契約履歴に加え、本日時点の所定労働時間を従来項目にも送る（契約履歴未対応の参照元向け）
+      workContracts: [...formData.workContracts].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+      prescribedWorkHours: formData.workContracts.length > 0 ? currentPrescribedWorkHours : undefined,
+      bankAccount,
+      withholdingColumn: formData.withholdingColumn,
+      dependents: formData.withholdingColumn === 'KOU' ? formData.dependents : 0,
+      birthDate: formData.birthDate || null,
+      socialInsurance,
+      employeeCode: normalizeKioskInput(formData.employeeCode) || null,
+      // PINは入力した場合のみ送る（未入力は変更しない。削除する場合は null）
+      kioskPin: formData.clearKioskPin ? null : normalizeKioskInput(formData.kioskPin) || undefined,
+      kioskCardCode: formData.kioskCardCode.trim() || null,
+      // 新規登録では有給入力欄が無いため paidLeaves は空。編集時のみ手動付与(EMP-)を送信する。
+      // バックエンドの更新処理は EMP- のみ置換し、自動付与(AUTO-)は保持する。
+      paidLeaves: formData.paidLeaves
+    };
+    // 入力チェックはCSV一括取込と共通（最初のエラーのみ表示する）
+    const errors = validateEmployeeRequest(payload, { employees, employeeId: isEditing ? id : null });
+    if (errors.length > 0) {
+      setSnackbar({ message: errors[0], type: 'error' });
       return;
     }
 
     try {
-      const payload: CreateEmployeeRequest = {
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        employmentType: formData.employmentType,
-        email: formData.email,
-        joinDate: formData.joinDate,
-        leaveDate: formData.leaveDate || null,
-        allowances: formData.allowances,
-        isAdmin: formData.isAdmin,
-        baseSalary: formData.baseSalary,
-        defaultBreakTime: formData.defaultBreakTime,
-        workLocationId: formData.workLocationId || null,
-        // 新規登録では有給入力欄が無いため paidLeaves は空。編集時のみ手動付与(EMP-)を送信する。
-        // バックエンドの更新処理は EMP- のみ置換し、自動付与(AUTO-)は保持する。
-        paidLeaves: formData.paidLeaves
-      };
-
       if (isEditing && id) {
         // 更新
         await updateEmployee(id, payload);
@@ -302,6 +449,104 @@ export const EmployeeRegistration: React.FC = () => {
     }));
   };
 
+  // 所定労働時間の契約の追加（新規登録時は入社日、それ以外は本日を適用開始日の初期値にする）
+  const handleAddWorkContract = () => {
+    setFormData(prev => ({
+      ...prev,
+      workContracts: [
+        ...prev.workContracts,
+        {
+          effectiveFrom: prev.workContracts.length === 0 && prev.joinDate
+            ? prev.joinDate
+            : new Date().toISOString().split('T')[0],
+          prescribedWorkHours: 7.5
+        }
+      ]
+    }));
+  };
+
+  // 所定労働時間の契約の更新
+  const handleUpdateWorkContract = (index: number, field: keyof PrescribedWorkContract, value: string | number) => {
+    setFormData(prev => ({
+      ...prev,
+      workContracts: prev.workContracts.map((contract, i) =>
+        i === index ? { ...contract, [field]: value } : contract
+      )
+    }));
+  };
+
+  // 所定労働時間の契約の削除
+  const handleRemoveWorkContract = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      workContracts: prev.workContracts.filter((_, i) => i !== index)
+    }));
+  };
+
+  // 振込先口座の項目の更新
+  const handleUpdateBankAccount = (field: keyof BankAccount, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      bankAccount: { ...prev.bankAccount, [field]: value }
+    }));
+  };
+
+  // 社会保険の加入情報の更新
+  const handleUpdateSocialInsurance = <K extends keyof SocialInsuranceSettings>(field: K, value: SocialInsuranceSettings[K]) => {
+    setFormData(prev => ({
+      ...prev,
+      socialInsurance: { ...prev.socialInsurance, [field]: value }
+    }));
+  };
+
+  // 標準報酬月額の履歴の追加（初回は入社月の資格取得時決定）
+  const handleAddStandardRemuneration = () => {
+    setFormData(prev => {
+      const isFirst = prev.socialInsurance.standardRemunerations.length === 0;
+      const record: StandardRemunerationRecord = {
+        effectiveFrom: (isFirst && prev.joinDate ? prev.joinDate : new Date().toISOString()).slice(0, 7),
+        remuneration: 0,
+        healthGrade: 1,
+        reason: isFirst ? 'ACQUISITION' : 'REVISION'
+      };
+      return {
+        ...prev,
+        socialInsurance: {
+          ...prev.socialInsurance,
+          standardRemunerations: [...prev.socialInsurance.standardRemunerations, record]
+        }
+      };
+    });
+  };
+
+  // 標準報酬月額の履歴の更新（報酬月額の変更時は等級を再決定する）
+  const handleUpdateStandardRemuneration = (index: number, field: keyof StandardRemunerationRecord, value: string | number) => {
+    setFormData(prev => ({
+      ...prev,
+      socialInsurance: {
+        ...prev.socialInsurance,
+        standardRemunerations: prev.socialInsurance.standardRemunerations.map((record, i) => {
+          if (i !== index) return record;
+          const updated = { ...record, [field]: value };
+          return field === 'remuneration'
+            ? { ...updated, healthGrade: findStandardRemunerationGrade(Number(value) || 0).healthGrade }
+            : updated;
+        })
+      }
+    }));
+  };
+
+  // 標準報酬月額の履歴の削除
+  const handleRemoveStandardRemuneration = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      socialInsurance: {
+        ...prev.socialInsurance,
+        standardRemunerations: prev.socialInsurance.standardRemunerations.filter((_, i) => i !== index)
+      }
+    }));
+  };
+
   // 有給情報の追加（編集時のみ使用。新規登録では有給入力欄は表示しない）
   const handleAddPaidLeave = () => {
     setFormData(prev => ({
@@ -499,7 +744,7 @@ export const EmployeeRegistration: React.FC = () => {
                       {formatCurrency(calculateHourlySalary(formData.baseSalary, 'FULL_TIME'))}円
                     </span>
                     <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.5rem' }}>
-                      （日給 ÷ 7.5）
+                      （日給 ÷ 所定労働時間 {currentPrescribedWorkHours}時間）
                     </span>
                   </div>
                 </div>
@@ -589,6 +834,28 @@ export const EmployeeRegistration: React.FC = () => {
             />
           </div>
 
+          <div style={{ marginBottom: '1rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              生年月日
+            </label>
+            <input
+              type="date"
+              value={formData.birthDate}
+              onChange={(e) => setFormData({ ...formData, birthDate: e.target.value })}
+              style={{
+                width: '100%',
+                padding: '0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: fontSizes.input,
+                boxSizing: 'border-box'
+              }}
+            />
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              介護保険料（40歳以上65歳未満）の計算に使用します
+            </div>
+          </div>
+
           <div style={{ marginBottom: '1rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
               勤務拠点
@@ -618,6 +885,63 @@ export const EmployeeRegistration: React.FC = () => {
             </div>
           </div>
 
+          <div style={{ marginBottom: '1rem', display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr', gap: '1rem' }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                所属部署
+              </label>
+              <select
+                value={formData.departmentId || ''}
+                onChange={(e) => setFormData({ ...formData, departmentId: e.target.value || null })}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.input,
+                  boxSizing: 'border-box',
+                  backgroundColor: 'white'
+                }}
+              >
+                <option value="">未設定</option>
+                {flattenDepartmentTree(departments)
+                  .filter(({ department }) => department.isActive || department.id === formData.departmentId)
+                  .map(({ department, path }) => (
+                    <option key={department.id} value={department.id}>
+                      {path}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                上長
+              </label>
+              <select
+                value={formData.managerEmployeeId || ''}
+                onChange={(e) => setFormData({ ...formData, managerEmployeeId: e.target.value || null })}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.input,
+                  boxSizing: 'border-box',
+                  backgroundColor: 'white'
+                }}
+              >
+                <option value="">未設定</option>
+                {employees
+                  .filter(emp => emp.id !== id && (!emp.leaveDate || emp.id === formData.managerEmployeeId))
+                  .map(emp => (
+                    <option key={emp.id} value={emp.id}>
+                      {emp.firstName} {emp.lastName}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
           <div style={{ marginBottom: '1.5rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
               手当（複数選択可能）
@@ -707,6 +1031,60 @@ export const EmployeeRegistration: React.FC = () => {
               />
               管理者権限を付与する
             </label>
+            {formData.isAdmin && (
+              <div style={{ marginTop: '0.75rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  権限ロール
+                </label>
+                <select
+                  value={formData.adminRole}
+                  onChange={(e) => setFormData({ ...formData, adminRole: e.target.value as AdminRole })}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map(role => (
+                    <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+                  {ADMIN_ROLE_DESCRIPTIONS[formData.adminRole]}
+                </div>
+              </div>
+            )}
+            {formData.isAdmin && (
+              <div style={{ marginTop: '0.75rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  閲覧範囲
+                </label>
+                <select
+                  value={formData.viewScope}
+                  onChange={(e) => setFormData({ ...formData, viewScope: e.target.value as EmployeeViewScope })}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  {(Object.keys(EMPLOYEE_VIEW_SCOPE_LABELS) as EmployeeViewScope[]).map(scope => (
+                    <option key={scope} value={scope}>{EMPLOYEE_VIEW_SCOPE_LABELS[scope]}</option>
+                  ))}
+                </select>
+                <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+                  「自分と部下のみ」の場合、従業員・勤怠・申請・振込の一覧には上長として設定された部下（間接の部下を含む）だけを表示します
+                </div>
+              </div>
+            )}
           </div>
 
           {/* 有給情報の入力欄は「編集時のみ」表示（新規登録では非表示。有給は労基法準拠で自動付与されるため）。
@@ -821,6 +1199,599 @@ export const EmployeeRegistration: React.FC = () => {
           </div>
           )}
 
+          <div style={{ marginBottom: '1.5rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+              <label style={{ fontWeight: 'bold' }}>
+                所定労働時間（1日）
+              </label>
+              <Button
+                variant="primary"
+                type="button"
+                onClick={handleAddWorkContract}
+                style={{
+                  padding: '0.5rem 1rem',
+                  fontSize: fontSizes.button,
+                  boxShadow: 'none',
+                  minHeight: 'auto',
+                  minWidth: 'auto'
+                }}
+              >
+                + 追加
+              </Button>
+            </div>
+            <div style={{
+              padding: '1rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #d1d5db'
+            }}>
+              {formData.workContracts.length === 0 ? (
+                <p style={{ color: '#6b7280', fontSize: fontSizes.medium, textAlign: 'center', padding: '1rem' }}>
+                  未設定のため1日7.5時間として扱います。契約時間が異なる場合は「+ 追加」ボタンで登録してください。
+                </p>
+              ) : (
+                formData.workContracts.map((contract, index) => (
+                  <div
+                    key={index}
+                    style={{
+                      display: 'grid',
+                      gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr auto',
+                      gap: '0.75rem',
+                      padding: '0.75rem',
+                      marginBottom: index < formData.workContracts.length - 1 ? '0.75rem' : 0,
+                      borderBottom: index < formData.workContracts.length - 1 ? '1px solid #e5e7eb' : 'none',
+                      alignItems: 'end'
+                    }}
+                  >
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                        適用開始日
+                      </label>
+                      <input
+                        type="date"
+                        value={contract.effectiveFrom}
+                        onChange={(e) => handleUpdateWorkContract(index, 'effectiveFrom', e.target.value)}
+                        style={{
+                          width: '100%',
+                          padding: '0.75rem',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          fontSize: fontSizes.input,
+                          boxSizing: 'border-box'
+                        }}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                        時間
+                      </label>
+                      <input
+                        type="number"
+                        value={contract.prescribedWorkHours || ''}
+                        onChange={(e) => handleUpdateWorkContract(index, 'prescribedWorkHours', Number(e.target.value))}
+                        min="0.25"
+                        max="24"
+                        step="0.25"
+                        style={{
+                          width: '100%',
+                          padding: '0.75rem',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          fontSize: fontSizes.input,
+                          boxSizing: 'border-box'
+                        }}
+                        placeholder="例: 6"
+                      />
+                    </div>
+                    <div>
+                      <Button
+                        variant="icon-delete"
+                        type="button"
+                        onClick={() => handleRemoveWorkContract(index)}
+                        title="削除"
+                        style={{
+                          boxShadow: 'none',
+                          minHeight: 'auto',
+                          minWidth: 'auto'
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              契約変更時は行を追加し、変更日を適用開始日に指定してください（給与期間の途中で変わった場合は日ごとに按分されます）
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              打刻端末
+            </label>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+              gap: '0.75rem',
+              padding: '1rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #d1d5db'
+            }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  社員コード
+                </label>
+                <input
+                  type="text"
+                  value={formData.employeeCode}
+                  onChange={(e) => setFormData({ ...formData, employeeCode: e.target.value })}
+                  inputMode="numeric"
+                  maxLength={20}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: 1024"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  PIN（{KIOSK_PIN_MIN_LENGTH}〜{KIOSK_PIN_MAX_LENGTH}桁の数字）
+                </label>
+                <input
+                  type="password"
+                  value={formData.kioskPin}
+                  onChange={(e) => setFormData({ ...formData, kioskPin: e.target.value, clearKioskPin: false })}
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  maxLength={KIOSK_PIN_MAX_LENGTH}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder={formData.hasKioskPin ? '設定済み（変更する場合のみ入力）' : '未設定'}
+                />
+                {formData.hasKioskPin && (
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.25rem', fontSize: fontSizes.medium }}>
+                    <input
+                      type="checkbox"
+                      checked={formData.clearKioskPin}
+                      onChange={(e) => setFormData({ ...formData, clearKioskPin: e.target.checked, kioskPin: '' })}
+                    />
+                    PINを削除
+                  </label>
+                )}
+              </div>
+              <div style={{ gridColumn: isMobile ? undefined : '1 / -1' }}>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  社員証のQRコードの内容
+                </label>
+                <input
+                  type="text"
+                  value={formData.kioskCardCode}
+                  onChange={(e) => setFormData({ ...formData, kioskCardCode: e.target.value })}
+                  // QRコードリーダーは読み取った内容の後に Enter を送るため、フォームを送信しない
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+                  maxLength={200}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="QRコードリーダーで社員証を読み取るか、QRコードの内容を入力"
+                />
+              </div>
+            </div>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              打刻端末では社員コードとPIN、または社員証のQRコードで本人を確認します。未入力の場合はその方法で打刻できません
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              給与振込先口座
+            </label>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+              gap: '0.75rem',
+              padding: '1rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #d1d5db'
+            }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  金融機関コード
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.bankCode ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('bankCode', e.target.value)}
+                  inputMode="numeric"
+                  maxLength={4}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: 0005"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  金融機関名（カナ）
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.bankName ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('bankName', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: ミツビシユーエフジエイ"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  支店コード
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.branchCode ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('branchCode', e.target.value)}
+                  inputMode="numeric"
+                  maxLength={3}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: 123"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  支店名（カナ）
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.branchName ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('branchName', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: シンジユク"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  預金種目
+                </label>
+                <select
+                  value={formData.bankAccount.accountType}
+                  onChange={(e) => handleUpdateBankAccount('accountType', e.target.value as BankAccountType)}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  {(Object.keys(BANK_ACCOUNT_TYPE_LABELS) as BankAccountType[]).map(type => (
+                    <option key={type} value={type}>{BANK_ACCOUNT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  口座番号
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.accountNumber ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('accountNumber', e.target.value)}
+                  inputMode="numeric"
+                  maxLength={7}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: 1234567"
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  口座名義（カナ）
+                </label>
+                <input
+                  type="text"
+                  value={formData.bankAccount.accountHolder ?? ''}
+                  onChange={(e) => handleUpdateBankAccount('accountHolder', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  placeholder="例: ヤマダ タロウ"
+                />
+              </div>
+            </div>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              未入力の場合は振込データの対象外になります。口座名義は保存時に半角カナへ変換されます
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+              源泉徴収
+            </label>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+              gap: '0.75rem',
+              padding: '1rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #d1d5db'
+            }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  税額表の区分
+                </label>
+                <select
+                  value={formData.withholdingColumn}
+                  onChange={(e) => setFormData({ ...formData, withholdingColumn: e.target.value as WithholdingColumn })}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  {(Object.keys(WITHHOLDING_COLUMN_LABELS) as WithholdingColumn[]).map(column => (
+                    <option key={column} value={column}>{WITHHOLDING_COLUMN_LABELS[column]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                  扶養親族等の数（人）
+                </label>
+                <input
+                  type="number"
+                  value={formData.withholdingColumn === 'KOU' ? formData.dependents : 0}
+                  onChange={(e) => setFormData({ ...formData, dependents: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  disabled={formData.withholdingColumn !== 'KOU'}
+                  min="0"
+                  step="1"
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                />
+              </div>
+            </div>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              扶養控除等申告書の提出がある場合は甲欄を選択してください。給与明細の所得税の自動計算に使用します
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+              <label style={{ fontWeight: 'bold' }}>
+                社会保険
+              </label>
+              <Button
+                variant="primary"
+                type="button"
+                onClick={handleAddStandardRemuneration}
+                style={{
+                  padding: '0.5rem 1rem',
+                  fontSize: fontSizes.button,
+                  boxShadow: 'none',
+                  minHeight: 'auto',
+                  minWidth: 'auto'
+                }}
+              >
+                + 標準報酬月額
+              </Button>
+            </div>
+            <div style={{
+              padding: '1rem',
+              backgroundColor: 'white',
+              borderRadius: '4px',
+              border: '1px solid #d1d5db'
+            }}>
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr 1fr',
+                gap: '0.75rem',
+                alignItems: 'center',
+                marginBottom: '0.75rem'
+              }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: fontSizes.medium }}>
+                  <input
+                    type="checkbox"
+                    checked={formData.socialInsurance.healthInsuranceEnrolled}
+                    onChange={(e) => handleUpdateSocialInsurance('healthInsuranceEnrolled', e.target.checked)}
+                  />
+                  健康保険・厚生年金に加入
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: fontSizes.medium }}>
+                  <input
+                    type="checkbox"
+                    checked={formData.socialInsurance.employmentInsuranceEnrolled}
+                    onChange={(e) => handleUpdateSocialInsurance('employmentInsuranceEnrolled', e.target.checked)}
+                  />
+                  雇用保険に加入
+                </label>
+                <select
+                  value={formData.socialInsurance.prefecture}
+                  onChange={(e) => handleUpdateSocialInsurance('prefecture', e.target.value)}
+                  title="健康保険料率の都道府県"
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  {PREFECTURES.map(prefecture => (
+                    <option key={prefecture} value={prefecture}>{prefecture}</option>
+                  ))}
+                </select>
+              </div>
+              {formData.socialInsurance.standardRemunerations.length === 0 ? (
+                <p style={{ color: '#6b7280', fontSize: fontSizes.medium, textAlign: 'center', padding: '1rem' }}>
+                  標準報酬月額が未登録です。資格取得時の報酬月額を「+ 標準報酬月額」ボタンで登録してください。
+                </p>
+              ) : (
+                formData.socialInsurance.standardRemunerations.map((record, index) => {
+                  const decision = gradeToDecision(record.healthGrade);
+                  return (
+                    <div
+                      key={index}
+                      style={{
+                        display: 'grid',
+                        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr 1fr auto',
+                        gap: '0.75rem',
+                        padding: '0.75rem',
+                        borderTop: '1px solid #e5e7eb',
+                        alignItems: 'end'
+                      }}
+                    >
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                          適用開始月
+                        </label>
+                        <input
+                          type="month"
+                          value={record.effectiveFrom}
+                          onChange={(e) => handleUpdateStandardRemuneration(index, 'effectiveFrom', e.target.value)}
+                          style={{
+                            width: '100%',
+                            padding: '0.75rem',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '4px',
+                            fontSize: fontSizes.input,
+                            boxSizing: 'border-box'
+                          }}
+                        />
+                      </div>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: fontSizes.medium, color: '#6b7280' }}>
+                          報酬月額
+                        </label>
+                        <input
+                          type="number"
+                          value={record.remuneration || ''}
+                          onChange={(e) => handleUpdateStandardRemuneration(index, 'remuneration', Number(e.target.value))}
+                          min="0"
+                          style={{
+                            width: '100%',
+                            padding: '0.75rem',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '4px',
+                            fontSize: fontSizes.input,
+                            boxSizing: 'border-box'
+                          }}
+                          placeholder="例: 300000"
+                        />
+                      </div>
+                      <div>
+                        <select
+                          value={record.reason}
+                          onChange={(e) => handleUpdateStandardRemuneration(index, 'reason', e.target.value as StandardRemunerationReason)}
+                          style={{
+                            width: '100%',
+                            padding: '0.75rem',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '4px',
+                            fontSize: fontSizes.input,
+                            boxSizing: 'border-box',
+                            backgroundColor: 'white'
+                          }}
+                        >
+                          {(Object.keys(STANDARD_REMUNERATION_REASON_LABELS) as StandardRemunerationReason[]).map(reason => (
+                            <option key={reason} value={reason}>{STANDARD_REMUNERATION_REASON_LABELS[reason]}</option>
+                          ))}
+                        </select>
+                        <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+                          健保{decision.healthGrade}級 {formatCurrency(decision.healthAmount)} / 厚年{decision.pensionGrade}級 {formatCurrency(decision.pensionAmount)}
+                        </div>
+                      </div>
+                      <div>
+                        <Button
+                          variant="icon-delete"
+                          type="button"
+                          onClick={() => handleRemoveStandardRemuneration(index)}
+                          title="削除"
+                          style={{
+                            boxShadow: 'none',
+                            minHeight: 'auto',
+                            minWidth: 'auto'
+                          }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280', marginTop: '0.25rem' }}>
+              都道府県は健康保険料率の区分です（保険料率マスタで料率を登録してください）。算定基礎届・月額変更届の結果は標準報酬月額管理画面から登録できます
+            </div>
+          </div>
+
           <div style={{ marginBottom: '1rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
               基本休憩時間（分）
@@ -0,0 +1,321 @@
+/**
+ * ファイル名: InsuranceRateMaster.tsx
+ * 画面名: 保険料率マスタ画面
+ * 説明: 給与明細の社会保険料の自動計算に使う、都道府県ごとの保険料率を管理する画面
+ * 機能:
+ *   - 適用開始月・都道府県ごとの保険料率（健康保険・介護保険・厚生年金・雇用保険）の登録
+ *   - 保険料率の一覧表示（適用開始月の新しい順）・削除
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getInsuranceRates,
+  createInsuranceRate,
+  deleteInsuranceRate,
+  type InsuranceRate
+} from '../../utils/socialInsuranceApi';
+import { PREFECTURES } from '../../utils/socialInsurance';
+import { error as logError } from '../../utils/logger';
+
+/** 入力フォームの状態（料率は入力中の文字列のまま保持） */
+interface RateForm {
+  effectiveFrom: string;
+  prefecture: string;
+  healthInsuranceRate: string;
+  nursingCareRate: string;
+  pensionRate: string;
+  employmentInsuranceRate: string;
+}
+
+const EMPTY_FORM: RateForm = {
+  effectiveFrom: '',
+  prefecture: '東京都',
+  healthInsuranceRate: '',
+  nursingCareRate: '',
+  pensionRate: '18.3',
+  employmentInsuranceRate: ''
+};
+
+/** YYYY-MM を「2025年3月分〜」形式に変換 */
+const formatEffectiveFrom = (ym: string): string => {
+  const [y, m] = ym.split('-').map(Number);
+  return `${y}年${m}月分〜`;
+};
+
+/**
+ * 保険料率マスタ画面コンポーネント。
+ * 協会けんぽ等の料率改定のたびに、適用開始月を指定して新しい料率を登録します。
+ *
+ * @returns {JSX.Element} 保険料率マスタ画面コンポーネント。
+ */
+export const InsuranceRateMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [rates, setRates] = useState<InsuranceRate[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [formData, setFormData] = useState<RateForm>(EMPTY_FORM);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 保険料率をAPIから取得
+  useEffect(() => {
+    const fetchRates = async () => {
+      setIsLoading(true);
+      try {
+        setRates(await getInsuranceRates());
+      } catch (error) {
+        logError('Failed to fetch insurance rates:', error);
+        setSnackbar({ message: '保険料率の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRates();
+  }, []);
+
+  /** 適用開始月の新しい順、同じ月は都道府県順 */
+  const sortedRates = useMemo(
+    () => [...rates].sort((a, b) =>
+      b.effectiveFrom.localeCompare(a.effectiveFrom) ||
+      PREFECTURES.indexOf(a.prefecture) - PREFECTURES.indexOf(b.prefecture)
+    ),
+    [rates]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = [formData.healthInsuranceRate, formData.nursingCareRate, formData.pensionRate, formData.employmentInsuranceRate].map(Number);
+    if (!formData.effectiveFrom || values.some(v => isNaN(v) || v < 0 || v >= 100)) {
+      setSnackbar({ message: '適用開始月と各保険料率（0〜100%）を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (rates.some(r => r.effectiveFrom === formData.effectiveFrom && r.prefecture === formData.prefecture)) {
+      setSnackbar({ message: '同じ適用開始月・都道府県の保険料率が登録されています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    try {
+      const [healthInsuranceRate, nursingCareRate, pensionRate, employmentInsuranceRate] = values;
+      const created = await createInsuranceRate({
+        effectiveFrom: formData.effectiveFrom,
+        prefecture: formData.prefecture,
+        healthInsuranceRate,
+        nursingCareRate,
+        pensionRate,
+        employmentInsuranceRate
+      });
+      setRates([...rates, created]);
+      setFormData({ ...EMPTY_FORM, prefecture: formData.prefecture, pensionRate: formData.pensionRate });
+      setSnackbar({ message: '保険料率を登録しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save insurance rate:', error);
+      const errorMessage = error instanceof Error ? error.message : '保険料率の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDelete = (rate: InsuranceRate) => {
+    setConfirmModal({ isOpen: true, id: rate.id, name: `${rate.prefecture} ${formatEffectiveFrom(rate.effectiveFrom)}` });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteInsuranceRate(confirmModal.id);
+        setRates(rates.filter(r => r.id !== confirmModal.id));
+        setSnackbar({ message: '保険料率を削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete insurance rate:', error);
+        const errorMessage = error instanceof Error ? error.message : '保険料率の削除に失敗しました';
+        setSnackbar({ message: errorMessage, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const rateFields: Array<{ key: keyof RateForm; label: string }> = [
+    { key: 'healthInsuranceRate', label: '健康保険料率（%）' },
+    { key: 'nursingCareRate', label: '介護保険料率（%）' },
+    { key: 'pensionRate', label: '厚生年金保険料率（%）' },
+    { key: 'employmentInsuranceRate', label: '雇用保険料率 被保険者負担（%）' }
+  ];
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`「${confirmModal.name}」の保険料率を削除しますか？`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        保険料率マスタ
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        健康保険・介護保険・厚生年金は労使合計の料率、雇用保険は被保険者負担分の料率を入力してください。給与明細では折半額を控除額として計算します。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            保険料率の登録
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  適用開始月 *
+                </label>
+                <input
+                  type="month"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  style={inputStyle}
+                  required
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  都道府県 *
+                </label>
+                <select
+                  value={formData.prefecture}
+                  onChange={(e) => setFormData({ ...formData, prefecture: e.target.value })}
+                  style={{ ...inputStyle, backgroundColor: 'white' }}
+                >
+                  {PREFECTURES.map(prefecture => (
+                    <option key={prefecture} value={prefecture}>{prefecture}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              {rateFields.map(field => (
+                <div key={field.key}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.medium }}>
+                    {field.label} *
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={formData[field.key]}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                    style={inputStyle}
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+            <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              料率は毎年3月分（雇用保険は4月分）から改定されます。改定後の料率を新しい適用開始月で追加してください。
+            </p>
+            <RegisterButton
+              fullWidth
+              type="submit"
+            />
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            登録済みの保険料率
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {isLoading ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>読み込み中...</p>
+            ) : sortedRates.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された保険料率がありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {sortedRates.map((rate) => (
+                  <div
+                    key={rate.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center'
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>
+                        {rate.prefecture}（{formatEffectiveFrom(rate.effectiveFrom)}）
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        健康保険 {rate.healthInsuranceRate}% / 介護保険 {rate.nursingCareRate}% / 厚生年金 {rate.pensionRate}% / 雇用保険 {rate.employmentInsuranceRate}%
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <DeleteButton
+                        onClick={() => handleDelete(rate)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,468 @@
+/**
+ * ファイル名: LeaveTypeMaster.tsx
+ * 画面名: 休暇種別マスタ画面
+ * 説明: 組み込みの休暇種別（有給・特別休暇・病気休暇・欠勤・その他）以外に会社が設ける休暇種別を管理する画面
+ * 機能:
+ *   - 休暇種別（代休・振替休日・慶弔休暇など）の新規登録・編集・削除
+ *   - 有給/無給、残高の規則（休日出勤で付与・振替・1回あたりの日数）と有効日数の設定
+ *   - 申請での選択可否（無効化）の設定
+ */
+
+import { useState, useEffect } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, UpdateButton, CancelButton, EditButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { getLeaveTypes } from '../../config/masterData';
+import {
+  getLeaveTypeMasters,
+  createLeaveTypeMaster,
+  updateLeaveTypeMaster,
+  deleteLeaveTypeMaster,
+  type LeaveTypeMaster as LeaveTypeMasterItem
+} from '../../utils/leaveTypeApi';
+import { LEAVE_BALANCE_RULE_LABELS, type LeaveBalanceRule } from '../../utils/leaveBalance';
+import { getLeaveTypeCodeFromLabel, registerLeaveTypeLabels } from '../../utils/codeTranslator';
+import { error as logError } from '../../utils/logger';
+
+/** 入力フォームの状態（数値は入力中の文字列のまま保持） */
+interface LeaveTypeForm {
+  code: string;
+  name: string;
+  isPaid: boolean;
+  balanceRule: LeaveBalanceRule;
+  fixedDays: string;
+  expirationDays: string;
+  isActive: boolean;
+}
+
+const createEmptyForm = (): LeaveTypeForm => ({
+  code: '',
+  name: '',
+  isPaid: false,
+  balanceRule: 'none',
+  fixedDays: '',
+  expirationDays: '',
+  isActive: true
+});
+
+/** 有効日数を入力する規則 */
+const RULES_WITH_EXPIRATION: LeaveBalanceRule[] = ['holidayWork', 'substitute'];
+
+/** 残高の規則の補足（有効日数の意味） */
+const RULE_HINTS: Record<LeaveBalanceRule, string> = {
+  none: '残高を持たず、日数の制限なく申請できます。',
+  holidayWork: '休日出勤1日につき1日を付与します。有効日数は休日出勤日からの日数です（空欄は無期限）。',
+  substitute: '申請時に振り替える休日出勤日を指定します。有効日数は休日出勤日の前後の日数です（空欄は無期限）。',
+  perEvent: '1回の申請で取得できる日数の上限です（忌引・結婚など事由ごとに種別を分けてください）。'
+};
+
+/** 組み込みの休暇種別の表示名（同じ名前は登録できない） */
+const BUILT_IN_LABELS = getLeaveTypes().map(type => type.label);
+
+/** 組み込みの休暇種別のコード */
+const BUILT_IN_CODES = BUILT_IN_LABELS.map(getLeaveTypeCodeFromLabel);
+
+/** 登録済みの休暇種別の規則の説明 */
+const describeRule = (leaveType: LeaveTypeMasterItem): string => {
+  switch (leaveType.balanceRule) {
+    case 'perEvent':
+      return `1回${leaveType.fixedDays}日まで`;
+    case 'holidayWork':
+    case 'substitute':
+      return `${LEAVE_BALANCE_RULE_LABELS[leaveType.balanceRule]} / ${leaveType.expirationDays === null ? '無期限' : `${leaveType.expirationDays}日以内`}`;
+    default:
+      return LEAVE_BALANCE_RULE_LABELS.none;
+  }
+};
+
+/**
+ * 休暇種別マスタ画面コンポーネント。
+ * 登録した休暇種別は、休暇申請と申請一覧（代理登録）の休暇種別に表示されます。
+ *
+ * @returns {JSX.Element} 休暇種別マスタ画面コンポーネント。
+ */
+export const LeaveTypeMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeMasterItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [formData, setFormData] = useState<LeaveTypeForm>(createEmptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 休暇種別をAPIから取得
+  useEffect(() => {
+    const fetchLeaveTypes = async () => {
+      setIsLoading(true);
+      try {
+        setLeaveTypes(await getLeaveTypeMasters());
+      } catch (error) {
+        logError('Failed to fetch leave types:', error);
+        setSnackbar({ message: '休暇種別の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLeaveTypes();
+  }, []);
+
+  // 一覧の変更をラベル変換に反映する
+  useEffect(() => {
+    registerLeaveTypeLabels(leaveTypes);
+  }, [leaveTypes]);
+
+  const showError = (message: string) => {
+    setSnackbar({ message, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = formData.code.trim();
+    const name = formData.name.trim();
+    const others = leaveTypes.filter(t => t.id !== editingId);
+    if (!editingId && !/^[a-z][a-z0-9_]*$/.test(code)) {
+      showError('コードは英小文字で始まる英小文字・数字・_で入力してください');
+      return;
+    }
+    if (!editingId && (BUILT_IN_CODES.includes(code) || others.some(t => t.code === code))) {
+      showError('同じコードの休暇種別が登録されています');
+      return;
+    }
+    if (!name) {
+      showError('休暇種別名を入力してください');
+      return;
+    }
+    if (BUILT_IN_LABELS.includes(name) || others.some(t => t.name === name)) {
+      showError('同じ名前の休暇種別が登録されています');
+      return;
+    }
+
+    const fixedDays = Number(formData.fixedDays);
+    if (formData.balanceRule === 'perEvent' && (formData.fixedDays === '' || isNaN(fixedDays) || fixedDays <= 0 || fixedDays % 0.5 !== 0)) {
+      showError('1回あたりの日数は0.5日単位で入力してください');
+      return;
+    }
+    const usesExpiration = RULES_WITH_EXPIRATION.includes(formData.balanceRule);
+    const expirationDays = Number(formData.expirationDays);
+    if (usesExpiration && formData.expirationDays !== '' && (!Number.isInteger(expirationDays) || expirationDays <= 0)) {
+      showError('有効日数は1以上の整数で入力してください');
+      return;
+    }
+
+    const payload = {
+      name,
+      isPaid: formData.isPaid,
+      balanceRule: formData.balanceRule,
+      fixedDays: formData.balanceRule === 'perEvent' ? fixedDays : null,
+      expirationDays: usesExpiration && formData.expirationDays !== '' ? expirationDays : null,
+      isActive: formData.isActive
+    };
+
+    try {
+      if (editingId) {
+        // 編集モード（コードは変更しない）
+        const updated = await updateLeaveTypeMaster(editingId, payload);
+        setLeaveTypes(leaveTypes.map(t => t.id === editingId ? updated : t));
+        setSnackbar({ message: '休暇種別を更新しました', type: 'success' });
+      } else {
+        const created = await createLeaveTypeMaster({ code, ...payload });
+        setLeaveTypes([...leaveTypes, created]);
+        setSnackbar({ message: '休暇種別を登録しました', type: 'success' });
+      }
+      setFormData(createEmptyForm());
+      setEditingId(null);
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save leave type:', error);
+      const errorMessage = error instanceof Error ? error.message : '休暇種別の保存に失敗しました';
+      showError(errorMessage);
+    }
+  };
+
+  const handleEdit = (leaveType: LeaveTypeMasterItem) => {
+    setFormData({
+      code: leaveType.code,
+      name: leaveType.name,
+      isPaid: leaveType.isPaid,
+      balanceRule: leaveType.balanceRule,
+      fixedDays: leaveType.fixedDays === null ? '' : String(leaveType.fixedDays),
+      expirationDays: leaveType.expirationDays === null ? '' : String(leaveType.expirationDays),
+      isActive: leaveType.isActive
+    });
+    setEditingId(leaveType.id);
+  };
+
+  const handleCancel = () => {
+    setFormData(createEmptyForm());
+    setEditingId(null);
+  };
+
+  const handleDelete = (leaveType: LeaveTypeMasterItem) => {
+    setConfirmModal({ isOpen: true, id: leaveType.id, name: leaveType.name });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteLeaveTypeMaster(confirmModal.id);
+        setLeaveTypes(leaveTypes.filter(t => t.id !== confirmModal.id));
+        setSnackbar({ message: '休暇種別を削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete leave type:', error);
+        const errorMessage = error instanceof Error ? error.message : '休暇種別の削除に失敗しました';
+        showError(errorMessage);
+      }
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = { display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' };
+
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    fontSize: fontSizes.badge,
+    color,
+    fontWeight: 'bold',
+    padding: '0.125rem 0.5rem',
+    backgroundColor,
+    borderRadius: '4px',
+    display: 'inline-block'
+  });
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`休暇種別「${confirmModal.name}」を削除しますか？申請で使われている場合は削除できないため、無効にしてください。`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        休暇種別マスタ
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        {BUILT_IN_LABELS.join('・')}に加えて申請できる休暇種別を登録します。有給の残高は有給休暇の付与で管理します。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            {editingId ? '休暇種別の編集' : '休暇種別の登録'}
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={labelStyle}>コード *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  placeholder="compensatory"
+                  disabled={!!editingId}
+                  style={{ ...inputStyle, backgroundColor: editingId ? '#f3f4f6' : 'white' }}
+                  required
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>休暇種別名 *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="代休"
+                  style={inputStyle}
+                  required
+                />
+              </div>
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={formData.isPaid}
+                onChange={(e) => setFormData({ ...formData, isPaid: e.target.checked })}
+              />
+              有給（賃金を支払う休暇）
+            </label>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={labelStyle}>残高の規則 *</label>
+              <select
+                value={formData.balanceRule}
+                onChange={(e) => setFormData({ ...formData, balanceRule: e.target.value as LeaveBalanceRule })}
+                style={{ ...inputStyle, fontSize: fontSizes.select }}
+              >
+                {(Object.keys(LEAVE_BALANCE_RULE_LABELS) as LeaveBalanceRule[]).map(rule => (
+                  <option key={rule} value={rule}>{LEAVE_BALANCE_RULE_LABELS[rule]}</option>
+                ))}
+              </select>
+              <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                {RULE_HINTS[formData.balanceRule]}
+              </p>
+            </div>
+            {formData.balanceRule === 'perEvent' && (
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>1回あたりの日数 *</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.fixedDays}
+                  onChange={(e) => setFormData({ ...formData, fixedDays: e.target.value })}
+                  style={inputStyle}
+                  required
+                />
+              </div>
+            )}
+            {RULES_WITH_EXPIRATION.includes(formData.balanceRule) && (
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>有効日数</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.expirationDays}
+                  onChange={(e) => setFormData({ ...formData, expirationDays: e.target.value })}
+                  placeholder="無期限"
+                  style={inputStyle}
+                />
+              </div>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              申請で選択できる
+            </label>
+            <div style={{ display: 'flex', gap: '0.4rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+              {editingId && (
+                <CancelButton
+                  fullWidth
+                  type="button"
+                  onClick={handleCancel}
+                />
+              )}
+              {editingId ? (
+                <UpdateButton
+                  fullWidth
+                  type="submit"
+                />
+              ) : (
+                <RegisterButton
+                  fullWidth
+                  type="submit"
+                />
+              )}
+            </div>
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            登録済みの休暇種別
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {isLoading ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>読み込み中...</p>
+            ) : leaveTypes.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された休暇種別がありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {leaveTypes.map((leaveType) => (
+                  <div
+                    key={leaveType.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      opacity: leaveType.isActive ? 1 : 0.6
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>
+                        {leaveType.name}
+                        <span style={{ marginLeft: '0.5rem', fontSize: fontSizes.small, color: '#6b7280', fontWeight: 'normal' }}>
+                          {leaveType.code}
+                        </span>
+                      </div>
+                      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.25rem' }}>
+                        {leaveType.isPaid ? (
+                          <span style={badgeStyle('#d1fae5', '#059669')}>有給</span>
+                        ) : (
+                          <span style={badgeStyle('#f3f4f6', '#6b7280')}>無給</span>
+                        )}
+                        {!leaveType.isActive && <span style={badgeStyle('#fee2e2', '#991b1b')}>無効</span>}
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        {describeRule(leaveType)}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <EditButton
+                        onClick={() => handleEdit(leaveType)}
+                      />
+                      <DeleteButton
+                        onClick={() => handleDelete(leaveType)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
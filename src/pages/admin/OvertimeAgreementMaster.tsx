@@ -0,0 +1,342 @@
+/**
+ * ファイル名: OvertimeAgreementMaster.tsx
+ * 画面名: 36協定マスタ画面
+ * 説明: 時間外労働の上限監視に使う、会社の36協定（時間外・休日労働に関する協定）の上限時間を管理する画面
+ * 機能:
+ *   - 起算月ごとの上限時間（原則・特別条項）と警告の閾値の登録
+ *   - 36協定の一覧表示（起算月の新しい順）・削除
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getOvertimeAgreements,
+  createOvertimeAgreement,
+  deleteOvertimeAgreement,
+  type OvertimeAgreement
+} from '../../utils/overtimeAgreementApi';
+import { STATUTORY_OVERTIME_LIMITS, type OvertimeAgreementLimits } from '../../utils/overtimeLimit';
+import { error as logError } from '../../utils/logger';
+
+/** 数値の上限項目（入力中の文字列のまま保持） */
+type LimitKey = Exclude<keyof OvertimeAgreementLimits, 'specialClauseEnabled'>;
+
+/** 入力フォームの状態 */
+interface AgreementForm {
+  effectiveFrom: string;
+  specialClauseEnabled: boolean;
+  limits: Record<LimitKey, string>;
+}
+
+const createEmptyForm = (): AgreementForm => ({
+  effectiveFrom: '',
+  specialClauseEnabled: STATUTORY_OVERTIME_LIMITS.specialClauseEnabled,
+  limits: {
+    monthlyLimitHours: String(STATUTORY_OVERTIME_LIMITS.monthlyLimitHours),
+    annualLimitHours: String(STATUTORY_OVERTIME_LIMITS.annualLimitHours),
+    specialMonthlyLimitHours: String(STATUTORY_OVERTIME_LIMITS.specialMonthlyLimitHours),
+    specialAverageLimitHours: String(STATUTORY_OVERTIME_LIMITS.specialAverageLimitHours),
+    specialAnnualLimitHours: String(STATUTORY_OVERTIME_LIMITS.specialAnnualLimitHours),
+    specialMaxExceedances: String(STATUTORY_OVERTIME_LIMITS.specialMaxExceedances),
+    warningPercent: String(STATUTORY_OVERTIME_LIMITS.warningPercent)
+  }
+});
+
+/** 原則の上限と警告の閾値（入力欄・法定の上限） */
+const BASIC_FIELDS: Array<{ key: LimitKey; label: string; max: number }> = [
+  { key: 'monthlyLimitHours', label: '時間外労働 月（時間）', max: 45 },
+  { key: 'annualLimitHours', label: '時間外労働 年（時間）', max: 360 },
+  { key: 'warningPercent', label: '警告の閾値（上限の%）', max: 100 }
+];
+
+/** 特別条項の上限（入力欄・法定の上限） */
+const SPECIAL_FIELDS: Array<{ key: LimitKey; label: string; max: number }> = [
+  { key: 'specialMonthlyLimitHours', label: '時間外・休日労働 月（時間未満）', max: 100 },
+  { key: 'specialAverageLimitHours', label: '時間外・休日労働 2〜6か月平均（時間）', max: 80 },
+  { key: 'specialAnnualLimitHours', label: '時間外労働 年（時間）', max: 720 },
+  { key: 'specialMaxExceedances', label: '月の上限を超える回数（年）', max: 6 }
+];
+
+/** YYYY-MM を「2025年4月起算」形式に変換 */
+const formatEffectiveFrom = (ym: string): string => {
+  const [y, m] = ym.split('-').map(Number);
+  return `${y}年${m}月起算`;
+};
+
+/**
+ * 36協定マスタ画面コンポーネント。
+ * 協定を締結・更新するたびに、起算月を指定して新しい上限時間を登録します。
+ *
+ * @returns {JSX.Element} 36協定マスタ画面コンポーネント。
+ */
+export const OvertimeAgreementMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [agreements, setAgreements] = useState<OvertimeAgreement[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [formData, setFormData] = useState<AgreementForm>(createEmptyForm);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 36協定をAPIから取得
+  useEffect(() => {
+    const fetchAgreements = async () => {
+      setIsLoading(true);
+      try {
+        setAgreements(await getOvertimeAgreements());
+      } catch (error) {
+        logError('Failed to fetch overtime agreements:', error);
+        setSnackbar({ message: '36協定の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAgreements();
+  }, []);
+
+  const sortedAgreements = useMemo(
+    () => [...agreements].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom)),
+    [agreements]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields = formData.specialClauseEnabled ? [...BASIC_FIELDS, ...SPECIAL_FIELDS] : BASIC_FIELDS;
+    const invalid = fields.find(field => {
+      const value = Number(formData.limits[field.key]);
+      return formData.limits[field.key] === '' || isNaN(value) || value <= 0 || value > field.max;
+    });
+    if (!formData.effectiveFrom || invalid) {
+      setSnackbar({
+        message: invalid ? `${invalid.label}は1〜${invalid.max}の範囲で入力してください` : '起算月を入力してください',
+        type: 'error'
+      });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (agreements.some(a => a.effectiveFrom === formData.effectiveFrom)) {
+      setSnackbar({ message: '同じ起算月の36協定が登録されています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    try {
+      const limit = (key: LimitKey) => Number(formData.limits[key]) || STATUTORY_OVERTIME_LIMITS[key];
+      const created = await createOvertimeAgreement({
+        effectiveFrom: formData.effectiveFrom,
+        monthlyLimitHours: limit('monthlyLimitHours'),
+        annualLimitHours: limit('annualLimitHours'),
+        specialClauseEnabled: formData.specialClauseEnabled,
+        specialMonthlyLimitHours: limit('specialMonthlyLimitHours'),
+        specialAverageLimitHours: limit('specialAverageLimitHours'),
+        specialAnnualLimitHours: limit('specialAnnualLimitHours'),
+        specialMaxExceedances: limit('specialMaxExceedances'),
+        warningPercent: limit('warningPercent')
+      });
+      setAgreements([...agreements, created]);
+      setFormData(createEmptyForm());
+      setSnackbar({ message: '36協定を登録しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save overtime agreement:', error);
+      const errorMessage = error instanceof Error ? error.message : '36協定の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDelete = (agreement: OvertimeAgreement) => {
+    setConfirmModal({ isOpen: true, id: agreement.id, name: formatEffectiveFrom(agreement.effectiveFrom) });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deleteOvertimeAgreement(confirmModal.id);
+        setAgreements(agreements.filter(a => a.id !== confirmModal.id));
+        setSnackbar({ message: '36協定を削除しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete overtime agreement:', error);
+        const errorMessage = error instanceof Error ? error.message : '36協定の削除に失敗しました';
+        setSnackbar({ message: errorMessage, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const renderLimitFields = (fields: Array<{ key: LimitKey; label: string }>) => (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+      {fields.map(field => (
+        <div key={field.key}>
+          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.medium }}>
+            {field.label} *
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={formData.limits[field.key]}
+            onChange={(e) => setFormData({ ...formData, limits: { ...formData.limits, [field.key]: e.target.value } })}
+            style={inputStyle}
+            required
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="削除確認"
+          message={`「${confirmModal.name}」の36協定を削除しますか？`}
+          confirmText="削除"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        36協定マスタ
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        労使で締結した協定の上限時間を入力してください。登録が無い期間は法定の上限（月45時間・年360時間、特別条項あり）で判定します。
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            36協定の登録
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                起算月 *
+              </label>
+              <input
+                type="month"
+                value={formData.effectiveFrom}
+                onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                style={inputStyle}
+                required
+              />
+            </div>
+            {renderLimitFields(BASIC_FIELDS)}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={formData.specialClauseEnabled}
+                onChange={(e) => setFormData({ ...formData, specialClauseEnabled: e.target.checked })}
+              />
+              特別条項あり
+            </label>
+            {formData.specialClauseEnabled && renderLimitFields(SPECIAL_FIELDS)}
+            <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              月・年は給与の締め月で数え、年は起算月から12か月です。法定の上限を超える値は登録できません。
+            </p>
+            <RegisterButton
+              fullWidth
+              type="submit"
+            />
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            登録済みの36協定
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {isLoading ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>読み込み中...</p>
+            ) : sortedAgreements.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された36協定がありません</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {sortedAgreements.map((agreement) => (
+                  <div
+                    key={agreement.id}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center'
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>
+                        {formatEffectiveFrom(agreement.effectiveFrom)}
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        月{agreement.monthlyLimitHours}時間 / 年{agreement.annualLimitHours}時間 / 警告 {agreement.warningPercent}%
+                      </div>
+                      <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                        {agreement.specialClauseEnabled
+                          ? `特別条項: 月${agreement.specialMonthlyLimitHours}時間未満 / 平均${agreement.specialAverageLimitHours}時間 / 年${agreement.specialAnnualLimitHours}時間 / 年${agreement.specialMaxExceedances}回まで`
+                          : '特別条項なし'}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <DeleteButton
+                        onClick={() => handleDelete(agreement)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+/**
+ * ファイル名: OvertimeMonitor.tsx
+ * 画面名: 時間外労働の監視画面
+ * 説明: 36協定の上限時間に対する従業員ごとの時間外・休日労働の状況を確認する画面
+ * 機能:
+ *   - 締め月を指定した全従業員の判定（範囲内・注意・特別条項・上限超過）の一覧表示
+ *   - 当月・年累計・2〜6か月平均・月の上限を超えた回数の表示
+ *   - 判定ごとの人数の集計と、注意以上の従業員のみの絞り込み
+ *   - 閲覧範囲による絞り込み（拠点管理者は同じ勤務拠点、閲覧範囲が「自分と部下のみ」の管理者は部下のみ）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { fontSizes } from '../../config/fontSizes';
+import { formatMinutesToHHHMM } from '../../utils/formatters';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getAttendanceList, type AttendanceLog } from '../../utils/attendanceApi';
+import { getPayrollClosingYearMonthFromDate } from '../../utils/payrollPeriod';
+import {
+  aggregateMonthlyOvertime,
+  evaluateOvertimeLimits,
+  getOvertimeMonitorPeriod,
+  resolveOvertimeAgreement,
+  OVERTIME_LIMIT_LEVEL_LABELS,
+  type OvertimeLimitCheck,
+  type OvertimeLimitLevel,
+  type OvertimeLimitStatus
+} from '../../utils/overtimeLimit';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { useOvertimeAgreements } from '../../hooks/useOvertimeAgreements';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+
+/** 判定ごとの表示色 */
+const LEVEL_COLORS: Record<OvertimeLimitLevel, { background: string; color: string }> = {
+  ok: { background: '#d1fae5', color: '#065f46' },
+  warning: { background: '#fef3c7', color: '#92400e' },
+  exceeded: { background: '#ffedd5', color: '#9a3412' },
+  violation: { background: '#fee2e2', color: '#991b1b' }
+};
+
+/** 重い判定から順に並べるための順位 */
+const LEVEL_RANK: Record<OvertimeLimitLevel, number> = { violation: 0, exceeded: 1, warning: 2, ok: 3 };
+
+/** 一覧の1行 */
+interface MonitorRow {
+  employee: EmployeeResponse;
+  status: OvertimeLimitStatus;
+}
+
+/** 判定の値を表示用に整形（時間は HHH:MM、回数は「n回」） */
+const formatCheckValue = (check: OvertimeLimitCheck, value: number): string =>
+  check.unit === 'times' ? `${value}回` : formatMinutesToHHHMM(value);
+
+/**
+ * 時間外労働の監視画面コンポーネント。
+ * 勤怠の時間外労働・法定休日労働を締め月ごとに集計し、36協定マスタの上限（未登録時は法定の上限）で判定します。
+ *
+ * @returns {JSX.Element} 時間外労働の監視画面コンポーネント。
+ */
+export const OvertimeMonitor: React.FC = () => {
+  const { closingRules, isLoaded: isClosingRulesLoaded } = usePayrollClosingRules();
+  const { companyHolidays } = useCompanyHolidays();
+  const { agreements, isLoaded: isAgreementsLoaded } = useOvertimeAgreements();
+  const initialClosingYm = getPayrollClosingYearMonthFromDate(new Date());
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [year, setYear] = useState<number>(initialClosingYm.year);
+  const [month, setMonth] = useState<number>(initialClosingYm.month);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [logs, setLogs] = useState<AttendanceLog[]>([]);
+  const [showAlertsOnly, setShowAlertsOnly] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 締め日設定の取得後、本日が属する締め月を初期表示にする（25日締め以外の会社で月がずれるのを防ぐ）
+  useEffect(() => {
+    if (!isClosingRulesLoaded) return;
+    const closingYm = getPayrollClosingYearMonthFromDate(new Date(), closingRules);
+    setYear(closingYm.year);
+    setMonth(closingYm.month);
+  }, [isClosingRulesLoaded, closingRules]);
+
+  const yearMonth = `${year}-${String(month).padStart(2, '0')}`;
+  const period = useMemo(
+    () => getOvertimeMonitorPeriod(agreements, year, month, closingRules),
+    [agreements, year, month, closingRules]
+  );
+
+  // 協定年度の起算月（または2〜6か月平均の最古の月）から締め月までの勤怠を取得
+  useEffect(() => {
+    if (!isClosingRulesLoaded || !isAgreementsLoaded) return;
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [employeeList, attendance] = await Promise.all([
+          getEmployees(),
+          getAttendanceList(undefined, period.startDate, period.endDate)
+        ]);
+        const visibleEmployeeIds = getVisibleEmployeeIds(employeeList, getUserInfo().employeeId);
+        setEmployees(visibleEmployeeIds ? employeeList.filter(employee => visibleEmployeeIds.has(employee.id)) : employeeList);
+        setLogs(attendance.logs);
+      } catch (error) {
+        logError('Failed to fetch attendance for overtime monitor:', error);
+        setEmployees([]);
+        setLogs([]);
+        setSnackbar({ message: '勤怠情報の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, [period, isClosingRulesLoaded, isAgreementsLoaded]);
+
+  const rows = useMemo<MonitorRow[]>(() => {
+    const logsByEmployee = new Map<string, AttendanceLog[]>();
+    logs.forEach(log => {
+      logsByEmployee.set(log.employeeId, [...(logsByEmployee.get(log.employeeId) ?? []), log]);
+    });
+    return employees
+      // 対象期間より前に退職した従業員は除く
+      .filter(employee => !employee.leaveDate || employee.leaveDate >= period.startDate)
+      .map(employee => {
+        const records = aggregateMonthlyOvertime(logsByEmployee.get(employee.id) ?? [], closingRules, companyHolidays);
+        return { employee, status: evaluateOvertimeLimits(records, yearMonth, agreements) };
+      })
+      .sort((a, b) =>
+        LEVEL_RANK[a.status.level] - LEVEL_RANK[b.status.level] ||
+        b.status.monthlyTotalMinutes - a.status.monthlyTotalMinutes
+      );
+  }, [employees, logs, period.startDate, closingRules, companyHolidays, yearMonth, agreements]);
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<OvertimeLimitLevel, number> = { violation: 0, exceeded: 0, warning: 0, ok: 0 };
+    rows.forEach(row => { counts[row.status.level] += 1; });
+    return counts;
+  }, [rows]);
+
+  const visibleRows = showAlertsOnly ? rows.filter(row => row.status.level !== 'ok') : rows;
+  const agreement = resolveOvertimeAgreement(agreements, yearMonth);
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const cellStyle: React.CSSProperties = { padding: '0.75rem', whiteSpace: 'nowrap' };
+
+  return (
+    <div>
+      {isLoading && <ProgressBar isLoading={isLoading} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        時間外労働の監視（36協定）
+      </h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem' }}>
+        <div style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+          <input
+            type="number"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            style={{ ...inputStyle, width: '6rem' }}
+          />
+          <span>年</span>
+          <select value={month} onChange={(e) => setMonth(Number(e.target.value))} style={{ ...inputStyle, width: '5rem', backgroundColor: 'white' }}>
+            {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <span>月締め</span>
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: fontSizes.medium }}>
+          <input
+            type="checkbox"
+            checked={showAlertsOnly}
+            onChange={(e) => setShowAlertsOnly(e.target.checked)}
+          />
+          注意以上のみ表示
+        </label>
+      </div>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+        {agreement.effectiveFrom ? '36協定' : '法定の上限'}: 月{agreement.monthlyLimitHours}時間・年{agreement.annualLimitHours}時間
+        {agreement.specialClauseEnabled
+          ? `（特別条項: 月${agreement.specialMonthlyLimitHours}時間未満・平均${agreement.specialAverageLimitHours}時間・年${agreement.specialAnnualLimitHours}時間・年${agreement.specialMaxExceedances}回まで）`
+          : '（特別条項なし）'}
+        。上限の{agreement.warningPercent}%で注意と判定します。
+      </p>
+
+      {/* 判定ごとの人数 */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+        gap: '0.75rem',
+        marginBottom: '1rem'
+      }}>
+        {(['violation', 'exceeded', 'warning', 'ok'] as OvertimeLimitLevel[]).map(level => (
+          <div key={level} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{OVERTIME_LIMIT_LEVEL_LABELS[level]}</div>
+            <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: LEVEL_COLORS[level].color }}>
+              {levelCounts[level]}人
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>従業員</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>判定</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>当月 時間外</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>当月 時間外・休日</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>年累計</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>月{agreement.monthlyLimitHours}時間超</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>注意・超過の項目</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={7} style={{ padding: '2rem', textAlign: 'center', color: '#6b7280' }}>
+                  {isLoading ? '読み込み中...' : '該当する従業員はいません'}
+                </td>
+              </tr>
+            ) : (
+              visibleRows.map(({ employee, status }) => (
+                <tr key={employee.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                  <td style={cellStyle}>{employee.firstName} {employee.lastName}</td>
+                  <td style={cellStyle}>
+                    <span style={{
+                      padding: '0.25rem 0.5rem',
+                      borderRadius: '4px',
+                      fontSize: fontSizes.badge,
+                      backgroundColor: LEVEL_COLORS[status.level].background,
+                      color: LEVEL_COLORS[status.level].color
+                    }}>
+                      {OVERTIME_LIMIT_LEVEL_LABELS[status.level]}
+                    </span>
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatMinutesToHHHMM(status.monthlyOvertimeMinutes)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatMinutesToHHHMM(status.monthlyTotalMinutes)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatMinutesToHHHMM(status.annualOvertimeMinutes)}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{status.exceedanceCount}回</td>
+                  <td style={{ ...cellStyle, whiteSpace: 'normal', fontSize: fontSizes.small }}>
+                    {status.checks
+                      .filter(check => check.level !== 'ok')
+                      .map(check => (
+                        <div key={check.label} style={{ color: LEVEL_COLORS[check.level].color }}>
+                          {check.label}: {formatCheckValue(check, check.value)} / {formatCheckValue(check, check.limit)}
+                        </div>
+                      ))}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,503 @@
+/**
+ * ファイル名: PaidLeaveCompliance.tsx
+ * 画面名: 有給取得義務の管理画面
+ * 説明: 年10日以上の有給が付与された従業員の、基準日から1年以内の5日取得の状況を確認する画面
+ * 機能:
+ *   - 従業員ごとの基準日・取得期限・取得日数・残りの必要日数と期限までの日数の表示
+ *   - 未達の従業員への時季指定（承認済みの有給申請として登録。所定休日は指定不可、登録結果は1日ごとに表示）
+ *   - 年次有給休暇管理簿（CSV）のダウンロード
+ *   - 閲覧範囲による絞り込み（拠点管理者は同じ勤務拠点、閲覧範囲が「自分と部下のみ」の管理者は部下のみ）
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { Button, CancelButton, RegisterButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { formatDate } from '../../utils/formatters';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getPaidLeaveBalance, type PaidLeaveBalance } from '../../utils/paidLeaveApi';
+import { getLeaveRequestList, createLeaveRequest, approveLeaveRequest, deleteLeaveRequest, type LeaveRequest } from '../../utils/leaveRequestApi';
+import {
+  evaluatePaidLeaveObligation,
+  findObligationGrant,
+  getDesignationNonWorkingReason,
+  buildPaidLeaveLedgerCsv,
+  DESIGNATED_LEAVE_REASON,
+  PAID_LEAVE_OBLIGATION_DAYS,
+  PAID_LEAVE_OBLIGATION_STATE_LABELS,
+  type PaidLeaveObligationState,
+  type PaidLeaveObligationStatus
+} from '../../utils/paidLeaveObligation';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+
+/** 状況ごとの表示色 */
+const STATE_COLORS: Record<PaidLeaveObligationState, { background: string; color: string }> = {
+  notApplicable: { background: '#f3f4f6', color: '#4b5563' },
+  fulfilled: { background: '#d1fae5', color: '#065f46' },
+  inProgress: { background: '#dbeafe', color: '#1e40af' },
+  urgent: { background: '#fef3c7', color: '#92400e' },
+  overdue: { background: '#fee2e2', color: '#991b1b' }
+};
+
+/** 対応が必要な順に並べるための順位 */
+const STATE_RANK: Record<PaidLeaveObligationState, number> = { overdue: 0, urgent: 1, inProgress: 2, fulfilled: 3, notApplicable: 4 };
+
+/** 従業員ごとの取得元データ */
+interface EmployeeLeaveData {
+  balance: PaidLeaveBalance | null;
+  requests: LeaveRequest[];
+}
+
+/** 一覧の1行 */
+interface ComplianceRow {
+  employee: EmployeeResponse;
+  status: PaidLeaveObligationStatus;
+  /** 対象付与の残日数 */
+  remainingDays: number | null;
+}
+
+/** 時季指定する1日分 */
+interface DesignationDay {
+  date: string;
+  isHalfDay: boolean;
+}
+
+/** 時季指定の1日分の登録結果 */
+interface DesignationResult {
+  date: string;
+  /** 登録できなかった理由。登録できた場合は null */
+  error: string | null;
+}
+
+const toYmd = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 有給取得義務の管理画面コンポーネント。
+ * 従業員ごとの有給残高（付与履歴）と休暇申請から年5日の取得状況を判定し、時季指定と管理簿の出力を行います。
+ *
+ * @returns {JSX.Element} 有給取得義務の管理画面コンポーネント。
+ */
+export const PaidLeaveCompliance: React.FC = () => {
+  const today = toYmd(new Date());
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [leaveData, setLeaveData] = useState<Record<string, EmployeeLeaveData>>({});
+  const [showPendingOnly, setShowPendingOnly] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [designation, setDesignation] = useState<{ row: ComplianceRow; days: DesignationDay[]; results?: DesignationResult[] } | null>(null);
+  const { companyHolidays, isLoaded: isCompanyHolidaysLoaded } = useCompanyHolidays();
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  /** 1人分の有給残高（付与履歴）と休暇申請を取得 */
+  const fetchEmployeeLeaveData = useCallback(async (employeeId: string): Promise<EmployeeLeaveData> => {
+    const [balance, requests] = await Promise.all([
+      getPaidLeaveBalance(employeeId).catch(() => null),
+      getLeaveRequestList(employeeId).then(response => response.requests).catch(() => [] as LeaveRequest[])
+    ]);
+    return { balance, requests };
+  }, []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const allEmployees = await getEmployees();
+        const visibleEmployeeIds = getVisibleEmployeeIds(allEmployees, getUserInfo().employeeId);
+        const employeeList = allEmployees.filter(employee =>
+          (!visibleEmployeeIds || visibleEmployeeIds.has(employee.id)) &&
+          (!employee.leaveDate || employee.leaveDate >= toYmd(new Date()))
+        );
+        const entries = await Promise.all(
+          employeeList.map(async employee => [employee.id, await fetchEmployeeLeaveData(employee.id)] as const)
+        );
+        setEmployees(employeeList);
+        setLeaveData(Object.fromEntries(entries));
+      } catch (error) {
+        logError('Failed to fetch paid leave compliance:', error);
+        setEmployees([]);
+        setLeaveData({});
+        setSnackbar({ message: '有給の取得状況の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchData();
+  }, [fetchEmployeeLeaveData]);
+
+  const rows = useMemo<ComplianceRow[]>(() => {
+    return employees
+      .map(employee => {
+        const data = leaveData[employee.id];
+        const grants = data?.balance?.grants ?? [];
+        const grant = findObligationGrant(grants, today);
+        return {
+          employee,
+          status: evaluatePaidLeaveObligation(grants, data?.requests ?? [], today),
+          remainingDays: grant ? grant.remainingDays : null
+        };
+      })
+      .sort((a, b) =>
+        STATE_RANK[a.status.state] - STATE_RANK[b.status.state] ||
+        (a.status.daysUntilDeadline ?? 0) - (b.status.daysUntilDeadline ?? 0)
+      );
+  }, [employees, leaveData, today]);
+
+  const stateCounts = useMemo(() => {
+    const counts: Record<PaidLeaveObligationState, number> = { overdue: 0, urgent: 0, inProgress: 0, fulfilled: 0, notApplicable: 0 };
+    rows.forEach(row => { counts[row.status.state] += 1; });
+    return counts;
+  }, [rows]);
+
+  const visibleRows = rows.filter(row =>
+    showPendingOnly ? row.status.state !== 'fulfilled' && row.status.state !== 'notApplicable' : row.status.state !== 'notApplicable'
+  );
+
+  const handleDownloadLedger = () => {
+    const csv = buildPaidLeaveLedgerCsv(rows.map(row => ({
+      employeeId: row.employee.id,
+      employeeName: `${row.employee.firstName} ${row.employee.lastName}`,
+      status: row.status,
+      remainingDays: row.remainingDays
+    })));
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `年次有給休暇管理簿_${today.replace(/-/g, '')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openDesignation = (row: ComplianceRow) => {
+    setDesignation({
+      row,
+      days: Array.from({ length: Math.ceil(row.status.requiredDays) }, () => ({ date: '', isHalfDay: false }))
+    });
+  };
+
+  const updateDesignationDay = (index: number, patch: Partial<DesignationDay>) => {
+    if (!designation) return;
+    setDesignation({
+      ...designation,
+      days: designation.days.map((day, i) => (i === index ? { ...day, ...patch } : day))
+    });
+  };
+
+  const handleDesignate = async () => {
+    if (!designation) return;
+    const { row, days } = designation;
+    const { baseDate, deadline } = row.status;
+    const dates = days.map(day => day.date);
+    if (dates.some(date => !date)) {
+      setSnackbar({ message: '指定日をすべて入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (new Set(dates).size !== dates.length) {
+      setSnackbar({ message: '同じ日が複数指定されています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (baseDate && deadline && dates.some(date => date < baseDate || date > deadline)) {
+      setSnackbar({ message: `指定日は基準日から取得期限（${formatDate(deadline)}）までの日にしてください`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    const takenDates = new Set(row.status.takenLeaves.map(leave => leave.startDate));
+    if (dates.some(date => takenDates.has(date))) {
+      setSnackbar({ message: '既に有給を取得している日が含まれています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    const nonWorkingDate = dates.find(date => getDesignationNonWorkingReason(date, companyHolidays) !== null);
+    if (nonWorkingDate) {
+      setSnackbar({
+        message: `${formatDate(nonWorkingDate)}は${getDesignationNonWorkingReason(nonWorkingDate, companyHolidays)}のため指定できません`,
+        type: 'error'
+      });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    setIsLoading(true);
+    // 1日ずつ登録し、失敗した日があっても残りの日の登録を続ける
+    const results: DesignationResult[] = [];
+    for (const day of days) {
+      let createdId: string | null = null;
+      try {
+        const created = await createLeaveRequest({
+          employeeId: row.employee.id,
+          startDate: day.date,
+          endDate: day.date,
+          leaveType: 'paid',
+          reason: DESIGNATED_LEAVE_REASON,
+          days: day.isHalfDay ? 0.5 : 1,
+          isHalfDay: day.isHalfDay
+        });
+        createdId = created.id;
+        // 時季指定は使用者が時季を定めるため、登録と同時に承認済みにする
+        await approveLeaveRequest(created.id);
+        results.push({ date: day.date, error: null });
+      } catch (error) {
+        logError('Failed to designate paid leave:', error);
+        // 承認できなかった申請は取り消し、未承認の申請を残さない
+        if (createdId) {
+          await deleteLeaveRequest(createdId).catch(deleteError => logError('Failed to roll back designated leave request:', deleteError));
+        }
+        results.push({ date: day.date, error: error instanceof Error ? error.message : '時季指定の登録に失敗しました' });
+      }
+    }
+
+    const failedDates = new Set(results.filter(result => result.error !== null).map(result => result.date));
+    if (failedDates.size === 0) {
+      setDesignation(null);
+      setSnackbar({ message: `${row.employee.firstName} ${row.employee.lastName}さんの時季指定を登録しました`, type: 'success' });
+    } else {
+      // 登録できなかった日だけを入力欄に残し、1日ごとの結果を表示する
+      setDesignation({ row, days: days.filter(day => failedDates.has(day.date)), results });
+      setSnackbar({ message: `${results.length}日中${failedDates.size}日の時季指定を登録できませんでした`, type: 'error' });
+    }
+    setTimeout(() => setSnackbar(null), 3000);
+    // 途中で失敗した場合も登録済みの分を反映する
+    const refreshed = await fetchEmployeeLeaveData(row.employee.id);
+    setLeaveData(prev => ({ ...prev, [row.employee.id]: refreshed }));
+    setIsLoading(false);
+  };
+
+  const formatCountdown = (status: PaidLeaveObligationStatus): string => {
+    if (status.daysUntilDeadline === null) return '-';
+    if (status.state === 'fulfilled') return '-';
+    return status.daysUntilDeadline >= 0 ? `あと${status.daysUntilDeadline}日` : `${-status.daysUntilDeadline}日超過`;
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const cellStyle: React.CSSProperties = { padding: '0.75rem', whiteSpace: 'nowrap' };
+
+  return (
+    <div>
+      {isLoading && <ProgressBar isLoading={isLoading} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {designation && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            zIndex: 10000,
+            padding: isMobile ? '1rem' : '1.4rem'
+          }}
+          onClick={() => setDesignation(null)}
+        >
+          <div
+            style={{
+              backgroundColor: 'white',
+              borderRadius: '8px',
+              padding: isMobile ? '1.5rem' : '1.4rem',
+              width: '100%',
+              maxWidth: '500px',
+              boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 style={{ marginBottom: '1rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+              {designation.row.employee.firstName} {designation.row.employee.lastName}さんの時季指定
+            </h3>
+            <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              取得期限 {designation.row.status.deadline && formatDate(designation.row.status.deadline)} までに残り{designation.row.status.requiredDays}日。
+              指定した日は承認済みの有給休暇として登録されます（土日・祝日・会社休日は指定できません）。
+            </p>
+            {designation.results && (
+              <ul style={{ margin: '0 0 1rem 0', paddingLeft: '1.25rem', fontSize: fontSizes.small }}>
+                {designation.results.map(result => (
+                  <li key={result.date} style={{ color: result.error ? '#991b1b' : '#065f46' }}>
+                    {formatDate(result.date)}: {result.error ? `登録できませんでした（${result.error}）` : '登録しました'}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '1rem' }}>
+              {designation.days.map((day, index) => (
+                <div key={index} style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                  <input
+                    type="date"
+                    value={day.date}
+                    min={designation.row.status.baseDate ?? undefined}
+                    max={designation.row.status.deadline ?? undefined}
+                    onChange={(e) => updateDesignationDay(index, { date: e.target.value })}
+                    style={{ ...inputStyle, flex: 1 }}
+                  />
+                  {day.date && getDesignationNonWorkingReason(day.date, companyHolidays) && (
+                    <span style={{ fontSize: fontSizes.small, color: '#991b1b', whiteSpace: 'nowrap' }}>
+                      {getDesignationNonWorkingReason(day.date, companyHolidays)}
+                    </span>
+                  )}
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: fontSizes.medium }}>
+                    <input
+                      type="checkbox"
+                      checked={day.isHalfDay}
+                      onChange={(e) => updateDesignationDay(index, { isHalfDay: e.target.checked })}
+                    />
+                    半日
+                  </label>
+                </div>
+              ))}
+            </div>
+            <p style={{ margin: '0 0 1.5rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              指定日数: {designation.days.reduce((sum, day) => sum + (day.isHalfDay ? 0.5 : 1), 0)}日
+            </p>
+            <div style={{ display: 'flex', gap: '1rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+              <CancelButton fullWidth type="button" onClick={() => setDesignation(null)} />
+              <RegisterButton fullWidth type="button" onClick={handleDesignate} disabled={isLoading || !isCompanyHolidaysLoaded} />
+            </div>
+          </div>
+        </div>
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        有給取得義務（年{PAID_LEAVE_OBLIGATION_DAYS}日）
+      </h2>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: fontSizes.medium }}>
+          <input
+            type="checkbox"
+            checked={showPendingOnly}
+            onChange={(e) => setShowPendingOnly(e.target.checked)}
+          />
+          未達のみ表示
+        </label>
+        <Button
+          variant="secondary"
+          type="button"
+          onClick={handleDownloadLedger}
+          disabled={rows.length === 0}
+          style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+        >
+          年次有給休暇管理簿（CSV）
+        </Button>
+      </div>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+        10日以上付与された日を基準日とし、1年以内に承認済みの有給を{PAID_LEAVE_OBLIGATION_DAYS}日取得しているかを判定します（{formatDate(today)}時点）。
+      </p>
+
+      {/* 状況ごとの人数 */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+        gap: '0.75rem',
+        marginBottom: '1rem'
+      }}>
+        {(['overdue', 'urgent', 'inProgress', 'fulfilled'] as PaidLeaveObligationState[]).map(state => (
+          <div key={state} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+            <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{PAID_LEAVE_OBLIGATION_STATE_LABELS[state]}</div>
+            <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: STATE_COLORS[state].color }}>
+              {stateCounts[state]}人
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>従業員</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>状況</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>基準日</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>取得期限</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>期限まで</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>取得日数</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>残り必要日数</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>有給残</th>
+              <th style={{ ...cellStyle, textAlign: 'center' }}>時季指定</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={9} style={{ padding: '2rem', textAlign: 'center', color: '#6b7280' }}>
+                  {isLoading ? '読み込み中...' : '該当する従業員はいません'}
+                </td>
+              </tr>
+            ) : (
+              visibleRows.map(row => {
+                const { employee, status } = row;
+                return (
+                  <tr key={employee.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                    <td style={cellStyle}>{employee.firstName} {employee.lastName}</td>
+                    <td style={cellStyle}>
+                      <span style={{
+                        padding: '0.25rem 0.5rem',
+                        borderRadius: '4px',
+                        fontSize: fontSizes.badge,
+                        backgroundColor: STATE_COLORS[status.state].background,
+                        color: STATE_COLORS[status.state].color
+                      }}>
+                        {PAID_LEAVE_OBLIGATION_STATE_LABELS[status.state]}
+                      </span>
+                    </td>
+                    <td style={cellStyle}>{status.baseDate && formatDate(status.baseDate)}</td>
+                    <td style={cellStyle}>{status.deadline && formatDate(status.deadline)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right', color: STATE_COLORS[status.state].color }}>{formatCountdown(status)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{status.takenDays}日</td>
+                    <td style={{ ...cellStyle, textAlign: 'right', fontWeight: status.requiredDays > 0 ? 'bold' : 'normal' }}>
+                      {status.requiredDays}日
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.remainingDays === null ? '-' : `${row.remainingDays}日`}</td>
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>
+                      {status.requiredDays > 0 && (
+                        <Button
+                          variant="secondary"
+                          type="button"
+                          onClick={() => openDesignation(row)}
+                          style={{ padding: '0.25rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                        >
+                          指定
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,346 @@
+/**
+ * ファイル名: PayrollClosingMaster.tsx
+ * 画面名: 締め日設定画面
+ * 説明: 出勤簿・給与明細の給与期間を決める会社単位の締め日を管理する画面
+ * 機能:
+ *   - 締め日（1〜28日・末日）と適用開始月の登録
+ *   - 締め日設定の履歴一覧（現在適用中の設定を表示）
+ *   - 適用開始前の設定の取消
+ *   - 適用開始月の給与期間プレビュー
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { RegisterButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  getPayrollClosingRules,
+  createPayrollClosingRule,
+  deletePayrollClosingRule,
+  type PayrollClosingDay,
+  type PayrollClosingRule
+} from '../../utils/payrollClosingApi';
+import {
+  getPayrollClosingYearMonthFromDate,
+  formatPayrollPeriodRangeJapanese,
+  formatPayrollClosingDayLabel,
+  describePayrollPeriodRule,
+  resolvePayrollClosingDay
+} from '../../utils/payrollPeriod';
+import { error as logError } from '../../utils/logger';
+
+/** 締め日の選択肢（1〜28日＋末日） */
+const CLOSING_DAY_OPTIONS: PayrollClosingDay[] = [
+  ...Array.from({ length: 28 }, (_, i) => i + 1),
+  'END_OF_MONTH'
+];
+
+/** YYYY-MM を「2025年10月」形式に変換 */
+const formatYearMonth = (ym: string): string => {
+  const [y, m] = ym.split('-').map(Number);
+  return `${y}年${m}月`;
+};
+
+/**
+ * 締め日設定画面コンポーネント。
+ * 締め日の変更は適用開始月（締め月）を指定して登録し、それより前の給与期間は元の締め日のまま扱われます。
+ *
+ * @returns {JSX.Element} 締め日設定画面コンポーネント。
+ */
+export const PayrollClosingMaster: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [rules, setRules] = useState<PayrollClosingRule[]>([]);
+  const [_isLoading, setIsLoading] = useState<boolean>(true);
+  const currentClosingYm = useMemo(() => getPayrollClosingYearMonthFromDate(new Date(), rules), [rules]);
+  const currentYmKey = `${currentClosingYm.year}-${String(currentClosingYm.month).padStart(2, '0')}`;
+  const [formData, setFormData] = useState<{ closingDay: PayrollClosingDay; effectiveFrom: string }>(() => {
+    const next = new Date();
+    next.setMonth(next.getMonth() + 1, 1);
+    return {
+      closingDay: 25,
+      effectiveFrom: `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`
+    };
+  });
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; id: string; label: string } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 締め日設定の履歴をAPIから取得
+  useEffect(() => {
+    const fetchRules = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getPayrollClosingRules();
+        setRules(response.rules);
+      } catch (error) {
+        logError('Failed to fetch payroll closing rules:', error);
+        setSnackbar({ message: '締め日設定の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchRules();
+  }, []);
+
+  /** 適用開始月の新しい順 */
+  const sortedRules = useMemo(
+    () => [...rules].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom)),
+    [rules]
+  );
+
+  /** 現在の締め月に適用されている設定（無ければ既定の25日締め） */
+  const activeRule = useMemo(
+    () => sortedRules.find(r => r.effectiveFrom <= currentYmKey) ?? null,
+    [sortedRules, currentYmKey]
+  );
+
+  /** 登録後の適用開始月の給与期間（切替月は前月の締め日の翌日から始まる） */
+  const previewRange = useMemo(() => {
+    if (!/^\d{4}-\d{2}$/.test(formData.effectiveFrom)) return '';
+    const [y, m] = formData.effectiveFrom.split('-').map(Number);
+    const simulated = [
+      ...rules.filter(r => r.effectiveFrom !== formData.effectiveFrom),
+      { closingDay: formData.closingDay, effectiveFrom: formData.effectiveFrom }
+    ];
+    return formatPayrollPeriodRangeJapanese(y, m, simulated);
+  }, [rules, formData]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{4}-\d{2}$/.test(formData.effectiveFrom)) {
+      setSnackbar({ message: '適用開始月を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    // 締め済みの期間の境界を変えないよう、適用開始は現在の締め月より後に限る
+    if (formData.effectiveFrom <= currentYmKey) {
+      setSnackbar({ message: '適用開始月は現在の締め月より後の月を指定してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (rules.some(r => r.effectiveFrom === formData.effectiveFrom)) {
+      setSnackbar({ message: '同じ適用開始月の設定が既に登録されています', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+
+    try {
+      const created = await createPayrollClosingRule({
+        closingDay: formData.closingDay,
+        effectiveFrom: formData.effectiveFrom
+      });
+      setRules([...rules, created]);
+      setSnackbar({ message: '締め日設定を登録しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save payroll closing rule:', error);
+      const errorMessage = error instanceof Error ? error.message : '締め日設定の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDelete = (rule: PayrollClosingRule) => {
+    setConfirmModal({
+      isOpen: true,
+      id: rule.id,
+      label: `${formatYearMonth(rule.effectiveFrom)}〜 ${formatPayrollClosingDayLabel(rule.closingDay)}`
+    });
+  };
+
+  const confirmDelete = async () => {
+    if (confirmModal) {
+      try {
+        await deletePayrollClosingRule(confirmModal.id);
+        setRules(rules.filter(r => r.id !== confirmModal.id));
+        setSnackbar({ message: '締め日設定を取り消しました', type: 'success' });
+        setTimeout(() => setSnackbar(null), 3000);
+        setConfirmModal(null);
+      } catch (error) {
+        logError('Failed to delete payroll closing rule:', error);
+        const errorMessage = error instanceof Error ? error.message : '締め日設定の取消に失敗しました';
+        setSnackbar({ message: errorMessage, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    }
+  };
+
+  const activeClosingDay = resolvePayrollClosingDay(currentClosingYm.year, currentClosingYm.month, rules);
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title="締め日設定の取消確認"
+          message={`${confirmModal.label} の設定を取り消しますか？`}
+          confirmText="取消"
+          onConfirm={confirmDelete}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        締め日設定
+      </h2>
+      <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.medium, color: '#4b5563' }}>
+        現在の締め日: <strong>{formatPayrollClosingDayLabel(activeClosingDay)}</strong>
+        （{describePayrollPeriodRule(activeClosingDay)}）
+        {!activeRule && ' ※未設定のため既定値'}
+      </p>
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr',
+        gap: isMobile ? '1.5rem' : '2rem'
+      }}>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            締め日の変更
+          </h3>
+          <form onSubmit={handleSubmit} style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                締め日 *
+              </label>
+              <select
+                value={String(formData.closingDay)}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setFormData({
+                    ...formData,
+                    closingDay: value === 'END_OF_MONTH' ? 'END_OF_MONTH' : Number(value)
+                  });
+                }}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.input,
+                  boxSizing: 'border-box'
+                }}
+              >
+                {CLOSING_DAY_OPTIONS.map(option => (
+                  <option key={String(option)} value={String(option)}>
+                    {formatPayrollClosingDayLabel(option)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                適用開始（締め月） *
+              </label>
+              <input
+                type="month"
+                value={formData.effectiveFrom}
+                onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.input,
+                  boxSizing: 'border-box'
+                }}
+                required
+              />
+              {previewRange && (
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                  {formatYearMonth(formData.effectiveFrom)}分の給与期間: {previewRange}
+                </p>
+              )}
+              <p style={{ margin: '0.25rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                適用開始より前の給与期間は、登録済みの締め日のまま変わりません。
+              </p>
+            </div>
+            <RegisterButton
+              fullWidth
+              type="submit"
+            />
+          </form>
+        </div>
+        <div>
+          <h3 style={{ marginBottom: '0.7rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+            締め日設定の履歴
+          </h3>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px',
+            maxHeight: isMobile ? '400px' : '600px',
+            overflowY: 'auto'
+          }}>
+            {sortedRules.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>登録された締め日設定がありません（25日締め）</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {sortedRules.map((rule) => {
+                  const isActive = activeRule?.id === rule.id;
+                  const isScheduled = rule.effectiveFrom > currentYmKey;
+                  return (
+                    <div
+                      key={rule.id}
+                      style={{
+                        backgroundColor: 'white',
+                        padding: '1rem',
+                        borderRadius: '8px',
+                        border: isActive ? '2px solid #8b5a2b' : '1px solid #e5e7eb',
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center'
+                      }}
+                    >
+                      <div>
+                        <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>
+                          {formatPayrollClosingDayLabel(rule.closingDay)}
+                          {isActive && <span style={{ marginLeft: '0.5rem', fontSize: fontSizes.small, color: '#8b5a2b' }}>適用中</span>}
+                          {isScheduled && <span style={{ marginLeft: '0.5rem', fontSize: fontSizes.small, color: '#2563eb' }}>予約</span>}
+                        </div>
+                        <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>
+                          {formatYearMonth(rule.effectiveFrom)}締め分から（{describePayrollPeriodRule(rule.closingDay)}）
+                        </div>
+                      </div>
+                      {isScheduled && (
+                        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                          <DeleteButton
+                            onClick={() => handleDelete(rule)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
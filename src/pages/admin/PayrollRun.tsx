@@ -0,0 +1,581 @@
+/**
+ * ファイル名: PayrollRun.tsx
+ * 画面名: 給与一括計算画面
+ * 説明: 対象年月の全従業員の給与明細を勤怠集計から計算し、確認のうえ一括で登録する画面
+ * 機能:
+ *   - 対象年月の給与期間に在籍している従業員の給与明細の計算（未登録の明細は勤怠集計のプレビューを給与明細画面と同じ計算で計算し直す）
+ *   - 出勤日数0日・差引支給額0円以下・前月比20%を超える増減の明細の強調表示
+ *   - 登録する明細の選択と一括登録（従業員ごとの登録結果の表示）
+ *   - 閲覧範囲が「自分と部下のみ」の管理者は部下の明細のみ
+ *   - 登録済みの明細書の一括PDF出力（全員分を1つのPDF、または従業員ごとのPDFをまとめたZIP）
+ *   - 計算した明細の給与集計のCSV出力（列の選択・並べ替え、UTF-8 BOM付き/Shift_JIS、テンプレートの保存）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { Button } from '../../components/Button';
+import { CsvExportModal } from '../../components/CsvExportModal';
+import { fontSizes } from '../../config/fontSizes';
+import { formatCurrency } from '../../utils/formatters';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getPayrollDetailByPeriod, createPayroll, type PayrollDetailByPeriodResponse } from '../../utils/payrollApi';
+import { getPayrollPeriodBounds, formatPayrollPeriodRangeJapanese } from '../../utils/payrollPeriod';
+import { buildPayslipViewData } from '../../utils/payslip';
+import { recalculateSalaryDetail, type SalaryCalculationContext } from '../../utils/payrollCalculation';
+import { getAllowances } from '../../utils/allowanceApi';
+import { getDeductions } from '../../utils/deductionApi';
+import { getInsuranceRates } from '../../utils/socialInsuranceApi';
+import { getWithholdingTaxTable } from '../../config/withholdingTaxTables';
+import { exportPayslipsPdf, exportPayslipsZip } from '../../utils/payslipPdf';
+import { getPdfExportErrorMessage } from '../../utils/pdfLayout';
+import {
+  detectPayrollRunAnomalies,
+  formatNetPaySwingRate,
+  getNetPaySwingRate,
+  isEmployedInPayrollPeriod,
+  PAYROLL_RUN_NET_PAY_SWING_THRESHOLD,
+  type PayrollRunAnomaly
+} from '../../utils/payrollRun';
+import { buildPayrollCsvColumns, type PayrollCsvRow } from '../../utils/csvExportColumns';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { useDepartments } from '../../hooks/useDepartments';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+
+/** 明細書に表示する会社名 */
+const COMPANY_NAME = '株式会社A・1インテリア';
+
+/** 一括計算の1行（従業員ごと） */
+interface PayrollRunRow {
+  employee: EmployeeResponse;
+  /** 当月の給与明細（登録済みまたは計算プレビュー）。取得に失敗した場合は null */
+  statement: PayrollDetailByPeriodResponse | null;
+  /** 前月に登録済みの給与明細の差引支給額。無い場合は null */
+  previousNetPay: number | null;
+  anomalies: PayrollRunAnomaly[];
+  /** 計算（取得）に失敗した理由 */
+  fetchError: string | null;
+}
+
+/** 従業員ごとの登録結果 */
+interface PayrollRunResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 給与一括計算画面コンポーネント。
+ * 従業員ごとに給与明細画面で登録する代わりに、対象年月の全従業員の給与明細をまとめて登録します。
+ * 登録済みの明細は変更しません（修正は従業員ごとの給与明細画面で行います）。
+ *
+ * @returns {JSX.Element} 給与一括計算画面コンポーネント。
+ */
+export const PayrollRun: React.FC = () => {
+  const navigate = useNavigate();
+  const today = new Date();
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [year, setYear] = useState<number>(today.getFullYear());
+  const [month, setMonth] = useState<number>(today.getMonth() + 1);
+  const [rows, setRows] = useState<PayrollRunRow[]>([]);
+  /** 登録する従業員ID */
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  /** 一括登録の結果（従業員IDごと） */
+  const [results, setResults] = useState<Record<string, PayrollRunResult>>({});
+  /** 計算済みの対象年月（計算後に年月を変えた場合は登録させない） */
+  const [calculatedPeriod, setCalculatedPeriod] = useState<{ year: number; month: number } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isRegistering, setIsRegistering] = useState<boolean>(false);
+  /** 明細書PDFの出力形式（single: 全員分を1つのPDF / zip: 従業員ごとのPDFをまとめたZIP） */
+  const [pdfOutputMode, setPdfOutputMode] = useState<'single' | 'zip'>('single');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  /** CSV出力モーダルの表示状態 */
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{
+    isOpen: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+  } | null>(null);
+  const { closingRules, isLoaded: isClosingRulesLoaded } = usePayrollClosingRules();
+  const { companyHolidays, isLoaded: isCompanyHolidaysLoaded } = useCompanyHolidays();
+  const { departments } = useDepartments();
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  /** 対象年月の全従業員の給与明細を計算（取得）する */
+  const handleCalculate = async () => {
+    setIsLoading(true);
+    setResults({});
+    try {
+      const { startDate, endDate } = getPayrollPeriodBounds(year, month, closingRules);
+      const previousYear = month === 1 ? year - 1 : year;
+      const previousMonth = month === 1 ? 12 : month - 1;
+      const [allEmployees, allowanceResponse, deductionResponse, insuranceRates] = await Promise.all([
+        getEmployees(),
+        getAllowances(),
+        getDeductions(),
+        // 保険料率が未登録・取得失敗の場合は社会保険料を計算し直さない
+        getInsuranceRates().catch(error => {
+          logError('Failed to fetch insurance rates:', error);
+          return [];
+        })
+      ]);
+      const calculationContext: Omit<SalaryCalculationContext, 'employee'> = {
+        year,
+        month,
+        allowanceMasters: allowanceResponse.allowances,
+        deductionMasters: deductionResponse.deductions,
+        companyHolidays,
+        insuranceRates,
+        withholdingTable: getWithholdingTaxTable(`${year}-${String(month).padStart(2, '0')}-01`)
+      };
+      const visibleEmployeeIds = getVisibleEmployeeIds(allEmployees, getUserInfo().employeeId);
+      const employees = allEmployees
+        .filter(emp => !visibleEmployeeIds || visibleEmployeeIds.has(emp.id))
+        .filter(emp => isEmployedInPayrollPeriod(emp, startDate, endDate));
+
+      const calculatedRows = await Promise.all(
+        employees.map(async (employee): Promise<PayrollRunRow> => {
+          try {
+            const [fetchedStatement, previous] = await Promise.all([
+              getPayrollDetailByPeriod(employee.id, year, month),
+              getPayrollDetailByPeriod(employee.id, previousYear, previousMonth).catch(() => null)
+            ]);
+            // 未登録の給与明細は、給与明細画面と同じ計算（割増・社会保険料・所得税）で計算し直してから確認・登録する
+            const statement = fetchedStatement.source === 'computed' && fetchedStatement.statementType === 'salary'
+              ? { ...fetchedStatement, detail: recalculateSalaryDetail(fetchedStatement.detail, { ...calculationContext, employee }) }
+              : fetchedStatement;
+            // 前月比は前月に登録済みの給与明細がある場合のみ
+            const previousNetPay = previous && previous.source === 'snapshot' && previous.statementType === 'salary'
+              ? previous.detail.netPay
+              : null;
+            return {
+              employee,
+              statement,
+              previousNetPay,
+              anomalies: detectPayrollRunAnomalies(statement.detail, previousNetPay),
+              fetchError: null
+            };
+          } catch (error) {
+            logError('Failed to calculate payroll for employee:', employee.id, error);
+            return { employee, statement: null, previousNetPay: null, anomalies: [], fetchError: translateApiError(error) };
+          }
+        })
+      );
+
+      setRows(calculatedRows);
+      // 未登録（計算プレビュー）の明細をすべて登録対象にする
+      setSelectedIds(new Set(
+        calculatedRows.filter(row => row.statement?.source === 'computed').map(row => row.employee.id)
+      ));
+      setCalculatedPeriod({ year, month });
+    } catch (error) {
+      logError('Failed to calculate payroll run:', error);
+      setRows([]);
+      setSelectedIds(new Set());
+      setCalculatedPeriod(null);
+      setSnackbar({ message: '従業員一覧・手当／控除マスタの取得に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const registrableRows = useMemo(
+    () => rows.filter(row => row.statement?.source === 'computed' && !results[row.employee.id]?.success),
+    [rows, results]
+  );
+  const selectedRows = registrableRows.filter(row => selectedIds.has(row.employee.id));
+  const isPeriodChanged = !!calculatedPeriod && (calculatedPeriod.year !== year || calculatedPeriod.month !== month);
+
+  const summary = useMemo(() => ({
+    total: rows.length,
+    registered: rows.filter(row => row.statement?.source === 'snapshot').length,
+    anomalies: rows.filter(row => row.anomalies.length > 0 || row.fetchError).length,
+    netPayTotal: rows.reduce((sum, row) => sum + (row.statement?.detail.netPay || 0), 0)
+  }), [rows]);
+
+  const toggleSelected = (employeeId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(employeeId)) {
+        next.delete(employeeId);
+      } else {
+        next.add(employeeId);
+      }
+      return next;
+    });
+  };
+
+  const isAllSelected = registrableRows.length > 0 && registrableRows.every(row => selectedIds.has(row.employee.id));
+
+  const handleToggleAll = () => {
+    setSelectedIds(isAllSelected ? new Set() : new Set(registrableRows.map(row => row.employee.id)));
+  };
+
+  /** 選択した明細を一括で登録する（1人の失敗で他の従業員の登録は止めない） */
+  const registerAll = async () => {
+    if (!calculatedPeriod || selectedRows.length === 0) return;
+    setIsRegistering(true);
+    const nextResults: Record<string, PayrollRunResult> = { ...results };
+    for (const row of selectedRows) {
+      if (!row.statement) continue;
+      try {
+        await createPayroll({
+          employeeId: row.employee.id,
+          year: calculatedPeriod.year,
+          month: calculatedPeriod.month,
+          statementType: row.statement.statementType,
+          detail: row.statement.detail
+        });
+        nextResults[row.employee.id] = { success: true, message: '登録しました' };
+      } catch (error) {
+        logError('Failed to create payroll in payroll run:', row.employee.id, error);
+        nextResults[row.employee.id] = { success: false, message: translateApiError(error) };
+      }
+      setResults({ ...nextResults });
+    }
+    setIsRegistering(false);
+
+    const successCount = selectedRows.filter(row => nextResults[row.employee.id]?.success).length;
+    const failureCount = selectedRows.length - successCount;
+    setSnackbar(failureCount === 0
+      ? { message: `${successCount}件の給与明細を登録しました`, type: 'success' }
+      : { message: `${successCount}件を登録し、${failureCount}件の登録に失敗しました`, type: 'error' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
+  /** 一括登録の確認モーダルを表示する */
+  const handleRegisterAll = () => {
+    if (!calculatedPeriod || selectedRows.length === 0) return;
+    const anomalyCount = selectedRows.filter(row => row.anomalies.length > 0).length;
+    setConfirmModal({
+      isOpen: true,
+      title: '給与明細の一括登録',
+      message: `${calculatedPeriod.year}年${calculatedPeriod.month}月の給与明細を${selectedRows.length}件登録しますか？` +
+        (anomalyCount > 0 ? `確認が必要な明細が${anomalyCount}件含まれています。` : ''),
+      onConfirm: () => {
+        setConfirmModal(null);
+        registerAll();
+      }
+    });
+  };
+
+  /** 明細書PDFの出力対象（登録済みの明細と、この画面で登録した明細） */
+  const exportableRows = rows.filter(row =>
+    row.statement && (row.statement.source === 'snapshot' || results[row.employee.id]?.success)
+  );
+
+  /** 給与集計のCSVに出力する行（計算できた明細。未登録の明細は計算プレビューの内容） */
+  const csvRows = useMemo<PayrollCsvRow[]>(() => {
+    if (!calculatedPeriod) return [];
+    return rows.flatMap(row => row.statement ? [{
+      employeeId: row.employee.id,
+      employeeName: `${row.employee.firstName} ${row.employee.lastName}`,
+      departmentName: departments.find(department => department.id === row.employee.departmentId)?.name ?? '',
+      year: calculatedPeriod.year,
+      month: calculatedPeriod.month,
+      statementType: row.statement.statementType,
+      status: row.statement.source === 'snapshot' || results[row.employee.id]?.success ? row.statement.status ?? 'draft' : null,
+      detail: row.statement.detail
+    }] : []);
+  }, [rows, results, calculatedPeriod, departments]);
+  const csvColumns = useMemo(() => buildPayrollCsvColumns(csvRows), [csvRows]);
+
+  /** 登録済みの明細書をまとめてPDFで出力する */
+  const handleExportPayslips = async () => {
+    if (!calculatedPeriod || exportableRows.length === 0) return;
+    setIsExporting(true);
+    try {
+      const periodRange = formatPayrollPeriodRangeJapanese(calculatedPeriod.year, calculatedPeriod.month, closingRules);
+      const payslips = exportableRows.flatMap(row => row.statement ? [{
+        data: buildPayslipViewData(
+          {
+            payrollId: row.statement.payrollId ?? '',
+            year: calculatedPeriod.year,
+            month: calculatedPeriod.month,
+            statementType: row.statement.statementType,
+            detail: row.statement.detail
+          },
+          { employeeName: `${row.employee.firstName} ${row.employee.lastName}`, companyName: COMPANY_NAME, periodRange }
+        )
+      }] : []);
+      const baseName = `給与明細書_${calculatedPeriod.year}年${calculatedPeriod.month}月`;
+      if (pdfOutputMode === 'zip') {
+        await exportPayslipsZip(payslips, `${baseName}.zip`);
+      } else {
+        await exportPayslipsPdf(payslips, `${baseName}.pdf`);
+      }
+      setSnackbar({ message: `${payslips.length}件の明細書を出力しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to export payslips in payroll run:', error);
+      setSnackbar({ message: getPdfExportErrorMessage(error), type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const badgeStyle = (backgroundColor: string, color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0.125rem 0.5rem',
+    borderRadius: '4px',
+    backgroundColor,
+    color,
+    fontSize: fontSizes.badge,
+    fontWeight: 'bold',
+    whiteSpace: 'nowrap'
+  });
+
+  const cellStyle: React.CSSProperties = { padding: '0.75rem', whiteSpace: 'nowrap' };
+
+  const renderStatus = (row: PayrollRunRow) => {
+    const result = results[row.employee.id];
+    if (result) {
+      return result.success
+        ? <span style={badgeStyle('#d1fae5', '#065f46')}>{result.message}</span>
+        : <span style={badgeStyle('#fee2e2', '#991b1b')}>登録失敗: {result.message}</span>;
+    }
+    if (row.fetchError) return <span style={badgeStyle('#fee2e2', '#991b1b')}>計算失敗: {row.fetchError}</span>;
+    if (row.statement?.source === 'snapshot') return <span style={badgeStyle('#f3f4f6', '#4b5563')}>登録済み</span>;
+    return <span style={badgeStyle('#dbeafe', '#1e40af')}>未登録</span>;
+  };
+
+  return (
+    <div>
+      {(isLoading || isRegistering || isExporting) && <ProgressBar isLoading={true} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title={confirmModal.title}
+          message={confirmModal.message}
+          onConfirm={confirmModal.onConfirm}
+          onCancel={() => setConfirmModal(null)}
+        />
+      )}
+      {calculatedPeriod && (
+        <CsvExportModal
+          isOpen={showCsvExport}
+          title="給与集計のCSV出力"
+          target="payroll"
+          rows={csvRows}
+          columns={csvColumns}
+          fileName={`給与集計_${calculatedPeriod.year}年${calculatedPeriod.month}月`}
+          onClose={() => setShowCsvExport(false)}
+          onNotify={(message, type) => {
+            setSnackbar({ message, type });
+            setTimeout(() => setSnackbar(null), 3000);
+          }}
+          isMobile={isMobile}
+        />
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        給与一括計算
+      </h2>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem' }}>
+        <div style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+          <input
+            type="number"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            style={{ ...inputStyle, width: '6rem' }}
+          />
+          <span>年</span>
+          <select value={month} onChange={(e) => setMonth(Number(e.target.value))} style={{ ...inputStyle, width: '5rem', backgroundColor: 'white' }}>
+            {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <span>月</span>
+        </div>
+        <Button variant="primary" type="button" onClick={handleCalculate} disabled={isLoading || isRegistering || !isClosingRulesLoaded || !isCompanyHolidaysLoaded}>
+          計算する
+        </Button>
+        <Button
+          variant="primary"
+          type="button"
+          onClick={handleRegisterAll}
+          disabled={isLoading || isRegistering || isPeriodChanged || selectedRows.length === 0}
+          style={{ backgroundColor: '#16a34a', border: '1px solid #16a34a', color: 'white' }}
+        >
+          選択した{selectedRows.length}件を一括登録
+        </Button>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select
+            value={pdfOutputMode}
+            onChange={(e) => setPdfOutputMode(e.target.value as 'single' | 'zip')}
+            style={{ ...inputStyle, backgroundColor: 'white' }}
+            aria-label="明細書PDFの出力形式"
+          >
+            <option value="single">全員分を1つのPDF</option>
+            <option value="zip">従業員ごとのPDF（ZIP）</option>
+          </select>
+          <Button
+            variant="secondary"
+            type="button"
+            onClick={handleExportPayslips}
+            disabled={isLoading || isRegistering || isExporting || isPeriodChanged || exportableRows.length === 0}
+          >
+            登録済み{exportableRows.length}件の明細書を出力
+          </Button>
+        </div>
+        <Button
+          variant="secondary"
+          type="button"
+          onClick={() => setShowCsvExport(true)}
+          disabled={isLoading || isPeriodChanged || csvRows.length === 0}
+        >
+          CSV出力
+        </Button>
+      </div>
+      {isPeriodChanged && (
+        <div style={{ padding: '0.75rem', marginBottom: '1rem', backgroundColor: '#fef3c7', color: '#92400e', borderRadius: '8px', fontSize: fontSizes.medium }}>
+          対象年月が変更されました。登録するには「計算する」で再計算してください。
+        </div>
+      )}
+
+      {calculatedPeriod && (
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: isMobile ? '1fr 1fr' : 'repeat(4, 1fr)',
+          gap: '0.75rem',
+          marginBottom: '1rem'
+        }}>
+          {[
+            { label: '対象従業員', value: `${summary.total}人`, color: '#1f2937' },
+            { label: '登録済み', value: `${summary.registered}件`, color: '#4b5563' },
+            { label: '要確認', value: `${summary.anomalies}件`, color: summary.anomalies > 0 ? '#92400e' : '#065f46' },
+            { label: '差引支給額合計', value: formatCurrency(summary.netPayTotal), color: '#1f2937' }
+          ].map(item => (
+            <div key={item.label} style={{ padding: '0.75rem', border: '1px solid #e5e7eb', borderRadius: '8px', backgroundColor: 'white' }}>
+              <div style={{ fontSize: fontSizes.small, color: '#6b7280' }}>{item.label}</div>
+              <div style={{ fontSize: fontSizes.large, fontWeight: 'bold', color: item.color }}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white', fontSize: fontSizes.tableCell }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f9fafb', borderBottom: '2px solid #e5e7eb' }}>
+              <th style={{ ...cellStyle, textAlign: 'center', width: '40px' }}>
+                <input
+                  type="checkbox"
+                  checked={isAllSelected}
+                  onChange={handleToggleAll}
+                  disabled={registrableRows.length === 0 || isRegistering}
+                  aria-label="すべて選択"
+                />
+              </th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>従業員</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>出勤日数</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>総支給額</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>控除合計</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>差引支給額</th>
+              <th style={{ ...cellStyle, textAlign: 'right' }}>前月比</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>確認事項</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>状態</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={9} style={{ padding: '2rem', textAlign: 'center', color: '#6b7280' }}>
+                  {calculatedPeriod ? '対象の従業員がいません' : '対象年月を選んで「計算する」を押してください'}
+                </td>
+              </tr>
+            ) : (
+              rows.map(row => {
+                const detail = row.statement?.detail;
+                const isRegistrable = registrableRows.includes(row);
+                const swingRate = detail ? getNetPaySwingRate(detail.netPay || 0, row.previousNetPay) : null;
+                const hasAnomaly = row.anomalies.length > 0 || !!row.fetchError;
+                return (
+                  <tr
+                    key={row.employee.id}
+                    style={{ borderBottom: '1px solid #e5e7eb', backgroundColor: hasAnomaly ? '#fffbeb' : 'white' }}
+                  >
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>
+                      <input
+                        type="checkbox"
+                        checked={isRegistrable && selectedIds.has(row.employee.id)}
+                        onChange={() => toggleSelected(row.employee.id)}
+                        disabled={!isRegistrable || isRegistering}
+                        aria-label={`${row.employee.firstName} ${row.employee.lastName}を登録する`}
+                      />
+                    </td>
+                    <td style={cellStyle}>
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/admin/employees/${row.employee.id}/payroll`)}
+                        style={{ background: 'none', border: 'none', padding: 0, color: '#2563eb', cursor: 'pointer', fontSize: 'inherit', textDecoration: 'underline' }}
+                      >
+                        {row.employee.firstName} {row.employee.lastName}
+                      </button>
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: 'right', color: detail && !detail.workingDays ? '#b45309' : undefined }}>
+                      {detail ? `${detail.workingDays}日` : '-'}
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{detail ? formatCurrency(detail.totalEarnings || 0) : '-'}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{detail ? formatCurrency(detail.totalDeductions || 0) : '-'}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{detail ? formatCurrency(detail.netPay || 0) : '-'}</td>
+                    <td style={{
+                      ...cellStyle,
+                      textAlign: 'right',
+                      color: swingRate !== null && Math.abs(swingRate) > PAYROLL_RUN_NET_PAY_SWING_THRESHOLD ? '#b45309' : '#6b7280'
+                    }}>
+                      {swingRate === null ? '-' : formatNetPaySwingRate(swingRate)}
+                    </td>
+                    <td style={cellStyle}>
+                      <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+                        {row.anomalies.map(anomaly => (
+                          <span key={anomaly.type} style={badgeStyle('#fef3c7', '#92400e')}>{anomaly.message}</span>
+                        ))}
+                      </div>
+                    </td>
+                    <td style={cellStyle}>{renderStatus(row)}</td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -6,14 +6,20 @@
  *   - すべての申請を一覧表示
  *   - 申請の承認・却下
  *   - 未対応申請のバッチ表示
+ *   - 休暇申請の代理登録（休暇種別マスタの種別は残日数・振替元・日数上限を確認）
+ *   - 承認ルートによる多段階承認（自分の承認ステップの申請のみ表示・ステップごとの承認履歴）
+ *   - 部署（配下の部署を含む）での絞り込み、閲覧範囲が「自分と部下のみ」の管理者は部下の申請のみ表示
+ *   - 検索結果の休暇申請の休暇履歴のCSV出力（列の選択・並べ替え、UTF-8 BOM付き/Shift_JIS、テンプレートの保存）
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Snackbar } from '../../components/Snackbar';
 import { ConfirmModal } from '../../components/ConfirmModal';
+import { CsvExportModal } from '../../components/CsvExportModal';
+import { LEAVE_CSV_COLUMNS, type LeaveCsvRow } from '../../utils/csvExportColumns';
 import { formatDate } from '../../utils/formatters';
 import { fontSizes } from '../../config/fontSizes';
-import { getRequestStatuses, getRequestTypes, getRequestStatusStyle, getLeaveTypes } from '../../config/masterData';
+import { getRequestStatuses, getRequestTypes, getRequestStatusStyle } from '../../config/masterData';
 import { ChevronDownIcon, ChevronUpIcon } from '../../components/Icons';
 import { ApproveButton, BulkApproveButton, CancelApprovalButton, SelectAllButton, SearchButton, ClearButton, Button, RegisterButton, CancelButton } from '../../components/Button';
 import { 
@@ -21,8 +27,25 @@ import {
   updateApplicationStatus
 } from '../../utils/applicationApi';
 import { getEmployees, EmployeeResponse } from '../../utils/employeeApi';
-import { createLeaveRequest } from '../../utils/leaveRequestApi';
+import { createLeaveRequest, getLeaveRequestList } from '../../utils/leaveRequestApi';
 import { getLeaveTypeLabel, getLeaveTypeCodeFromLabel } from '../../utils/codeTranslator';
+import { getAttendanceList, isHolidayWorkLog } from '../../utils/attendanceApi';
+import { validateLeaveRequestRule, addDaysToYmd, COMPENSATORY_LEAVE_LOOKBACK_DAYS } from '../../utils/leaveBalance';
+import { useLeaveTypes } from '../../hooks/useLeaveTypes';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { useApprovalRoutes } from '../../hooks/useApprovalRoutes';
+import {
+  getApprovalProgress,
+  isAwaitingApprover,
+  resolveRequestApprovalRoute,
+  MISSING_APPROVAL_ROUTE,
+  type ApprovalHistoryEntry,
+  type RequestApprovalRoute
+} from '../../utils/approvalRoute';
+import type { ApprovalRoute } from '../../utils/approvalRouteApi';
+import { getUserInfo } from '../../config/apiConfig';
+import { useDepartments } from '../../hooks/useDepartments';
+import { createDepartmentFilter, flattenDepartmentTree, getVisibleEmployeeIds, NO_DEPARTMENT_KEY } from '../../utils/department';
 import { log, error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import { ProgressBar } from '../../components/ProgressBar';
@@ -44,6 +67,10 @@ interface UnifiedRequest {
   status: '申請中' | '承認' | '取消' | '削除済み';
   /** 申請日時。 */
   requestedAt: string;
+  /** 申請時に決まった承認ルートのID（承認ルートが無い申請は null）。 */
+  approvalRouteId: string | null;
+  /** ステップごとの承認履歴。 */
+  approvalHistory: ApprovalHistoryEntry[];
   /** 休暇申請のフィールド（休暇申請の場合に存在）。 */
   leaveData?: {
     /** 開始日。 */
@@ -52,12 +79,16 @@ interface UnifiedRequest {
     endDate: string;
     /** 日数。 */
     days: number;
-    /** 休暇種別。 */
-    leaveType: '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他';
+    /** 休暇種別（表示名。組み込みの種別または休暇種別マスタの名称）。 */
+    leaveType: string;
     /** 理由。 */
     reason: string;
     /** 半休かどうか。 */
     isHalfDay?: boolean;
+    /** 時間単位の有給の時間帯（例: 09:00〜11:00（2時間））。時間単位以外は undefined。 */
+    hourlyLabel?: string;
+    /** 振替休日の振替元の休日出勤日。 */
+    substituteWorkDate?: string;
   };
   /** 打刻修正申請のフィールド（打刻修正申請の場合に存在）。 */
   attendanceData?: {
@@ -184,24 +215,41 @@ export const RequestApproval: React.FC = () => {
   const [selectedRequestIds, setSelectedRequestIds] = useState<Set<string>>(new Set());
   const [isSearchExpanded, setIsSearchExpanded] = useState<boolean>(false); // モバイル時の検索条件の展開状態
   const [showRegisterModal, setShowRegisterModal] = useState<boolean>(false);
-  const leaveTypes = getLeaveTypes();
+  /** CSV出力モーダルの表示状態 */
+  const [showCsvExport, setShowCsvExport] = useState<boolean>(false);
+  const { options: leaveTypeOptions, leaveTypeMasters, isLoaded: leaveTypesLoaded } = useLeaveTypes();
+  const { companyHolidays } = useCompanyHolidays();
+  const { routes: approvalRoutes } = useApprovalRoutes();
+  /** ログイン中の管理者の従業員ID（承認ステップの承認者かどうかの判定に使う） */
+  const myEmployeeId = getUserInfo().employeeId;
+  /** 自分が承認するステップの申請のみ表示するかどうか */
+  const [showOnlyMyTurn, setShowOnlyMyTurn] = useState<boolean>(true);
+  /** 部署での絞り込み（空はすべて、NO_DEPARTMENT_KEY は部署未設定） */
+  const [filterDepartmentId, setFilterDepartmentId] = useState<string>('');
+  const { departments } = useDepartments();
+  const defaultLeaveType = leaveTypeOptions[0]?.label || getLeaveTypeLabel('paid');
   const [registerFormData, setRegisterFormData] = useState<{
     employeeId: string;
     startDate: string;
     endDate: string;
     days: number;
-    type: '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他';
+    type: string;
     reason: string;
     isHalfDay: boolean;
+    substituteWorkDate?: string;
   }>({
     employeeId: '',
     startDate: '',
     endDate: '',
     days: 0,
-    type: getLeaveTypeLabel(leaveTypes[0]?.code || 'paid') as '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他',
+    type: defaultLeaveType,
     reason: '',
     isHalfDay: false
   });
+  /** 代理登録で選択中の休暇種別の設定（休暇種別マスタの種別のみ） */
+  const registerLeaveTypeSetting = leaveTypeMasters.find(t => t.code === getLeaveTypeCodeFromLabel(registerFormData.type)) ?? null;
+  /** 無給の休暇種別の表示名（一覧で「（無給）」を付ける） */
+  const unpaidLeaveTypeLabels = new Set(leaveTypeMasters.filter(t => !t.isPaid).map(t => t.name));
 
   // 申請一覧（APIから取得）
   const [allRequests, setAllRequests] = useState<UnifiedRequest[]>([]);
@@ -245,7 +293,9 @@ export const RequestApproval: React.FC = () => {
             employeeId: apiReq.employeeId,
             employeeName: employeeMap.get(apiReq.employeeId) || apiReq.employeeName || '不明な従業員',
             status: apiReq.status === 'pending' ? '申請中' : apiReq.status === 'approved' ? '承認' : apiReq.status === 'rejected' ? '取消' : '削除済み',
-            requestedAt: apiReq.requestedAt
+            requestedAt: apiReq.requestedAt,
+            approvalRouteId: apiReq.approvalRouteId ?? null,
+            approvalHistory: apiReq.approvalHistory ?? []
           };
 
           if (apiReq.type === 'leave_request' && apiReq.leaveData) {
@@ -253,9 +303,13 @@ export const RequestApproval: React.FC = () => {
               startDate: apiReq.leaveData.startDate,
               endDate: apiReq.leaveData.endDate,
               days: apiReq.leaveData.days,
-              leaveType: getLeaveTypeLabel(apiReq.leaveData.leaveType) as '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他',
+              leaveType: getLeaveTypeLabel(apiReq.leaveData.leaveType),
               reason: apiReq.leaveData.reason,
-              isHalfDay: apiReq.leaveData.isHalfDay
+              isHalfDay: apiReq.leaveData.isHalfDay,
+              substituteWorkDate: apiReq.leaveData.substituteWorkDate ?? undefined,
+              hourlyLabel: apiReq.leaveData.isHourly
+                ? `${apiReq.leaveData.startTime}〜${apiReq.leaveData.endTime}（${apiReq.leaveData.hours}時間）`
+                : undefined
             };
           } else if (apiReq.type === 'attendance_correction_request' && apiReq.attendanceData) {
             baseRequest.attendanceData = {
@@ -283,13 +337,14 @@ export const RequestApproval: React.FC = () => {
       }
   }, [apiSearchYearMonthFrom, apiSearchYearMonthTo, apiFilterType, apiFilterStatus]);
 
-  // 初期表示時にAPIを呼ぶ
+  // 初期表示時にAPIを呼ぶ（休暇種別マスタの名称で表示するため、種別の取得後に行う）
   useEffect(() => {
+    if (!leaveTypesLoaded) return;
     if (isInitialMount.current) {
       isInitialMount.current = false;
     fetchApplications();
     }
-  }, [fetchApplications]); // 初期表示時のみ実行（isInitialMountガードにより2回目以降は何もしない）
+  }, [fetchApplications, leaveTypesLoaded]); // 初期表示時のみ実行（isInitialMountガードにより2回目以降は何もしない）
 
   // 検索ボタン押下時の処理
   const handleSearch = () => {
@@ -331,8 +386,99 @@ export const RequestApproval: React.FC = () => {
     });
   }, [searchYearMonthFrom, searchYearMonthTo, filterType, filterStatus]);
     
-  // フィルタリング処理（フロントエンド側のフィルタリングは不要、APIでフィルタリング済み）
-  const filteredRequests = allRequests;
+  /**
+   * 申請の承認ルートを返す。
+   * 申請時に決まったルートを使い、ルートの記録が無い申請は現在のルート定義から条件で選ぶ。
+   * 記録されたルートが削除されている申請は承認できない（MISSING_APPROVAL_ROUTE）。
+   */
+  const getRouteOf = (request: UnifiedRequest): RequestApprovalRoute<ApprovalRoute> =>
+    resolveRequestApprovalRoute(approvalRoutes, request.approvalRouteId, {
+      requestType: request.type === '休暇申請' ? 'leave' : 'attendance',
+      days: request.leaveData?.days,
+      leaveType: request.leaveData ? getLeaveTypeCodeFromLabel(request.leaveData.leaveType) : undefined
+    });
+
+  /** 承認待ちの表示（承認ルートが削除された申請はその旨を表示する） */
+  const getAwaitingLabel = (request: UnifiedRequest): string => {
+    const route = getRouteOf(request);
+    if (route === MISSING_APPROVAL_ROUTE) return '承認ルートが削除されたため承認できません';
+    return `${getApprovalProgress(route, request.approvalHistory).currentStep?.name ?? ''}の承認待ち`;
+  };
+
+  /** 申請中で、承認待ちのステップの承認者に自分が含まれるかどうか（承認ルートが無い申請は常に true） */
+  const isMyTurn = (request: UnifiedRequest): boolean =>
+    request.status === '申請中' && isAwaitingApprover(getRouteOf(request), request.approvalHistory, myEmployeeId);
+
+  /**
+   * 承認待ちのステップに対する自分の承認・却下の履歴を作る。
+   * 承認ルートが無い申請は履歴を作らない（entry は null）。
+   */
+  const buildStepAction = (request: UnifiedRequest, action: ApprovalHistoryEntry['action']) => {
+    const progress = getApprovalProgress(getRouteOf(request), request.approvalHistory);
+    const me = employees.find(emp => emp.id === myEmployeeId);
+    const entry: ApprovalHistoryEntry | null = progress.currentStep && progress.currentStepIndex !== null
+      ? {
+          stepIndex: progress.currentStepIndex,
+          stepName: progress.currentStep.name,
+          approverEmployeeId: myEmployeeId ?? '',
+          approverName: me ? `${me.firstName} ${me.lastName}` : '',
+          action,
+          actedAt: new Date().toISOString()
+        }
+      : null;
+    return { progress, entry };
+  };
+
+  // フィルタリング処理（検索条件はAPIでフィルタリング済み。自分の承認待ち・部署・閲覧範囲の絞り込みはフロントエンドで行う）
+  const visibleEmployeeIds = getVisibleEmployeeIds(employees, myEmployeeId);
+  const matchesDepartment = createDepartmentFilter(departments, filterDepartmentId);
+  const filteredRequests = allRequests.filter(request =>
+    (!showOnlyMyTurn || isMyTurn(request)) &&
+    (!visibleEmployeeIds || visibleEmployeeIds.has(request.employeeId)) &&
+    matchesDepartment(employees.find(emp => emp.id === request.employeeId)?.departmentId)
+  );
+  /** 自分が承認できる申請（一括承認の対象） */
+  const myPendingRequests = filteredRequests.filter(isMyTurn);
+  /** 休暇履歴のCSVに出力する行（検索結果の休暇申請） */
+  const leaveCsvRows: LeaveCsvRow[] = filteredRequests.flatMap(request => request.leaveData ? [{
+    employeeId: request.employeeId,
+    employeeName: request.employeeName,
+    leaveType: request.leaveData.leaveType,
+    startDate: request.leaveData.startDate,
+    endDate: request.leaveData.endDate,
+    days: request.leaveData.days,
+    isHalfDay: !!request.leaveData.isHalfDay,
+    hourlyLabel: request.leaveData.hourlyLabel ?? null,
+    status: request.status,
+    requestedAt: request.requestedAt,
+    reason: request.leaveData.reason
+  }] : []);
+
+  /** 承認ルートのステップごとの承認者・承認日時（承認ルートが無い申請は表示しない） */
+  const renderApprovalSteps = (request: UnifiedRequest) => {
+    const route = getRouteOf(request);
+    if (!route || route === MISSING_APPROVAL_ROUTE) return null;
+    const { currentStepIndex } = getApprovalProgress(route, request.approvalHistory);
+    const formatActedAt = (actedAt: string) =>
+      `${formatDate(actedAt)} ${new Date(actedAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`;
+    return (
+      <div style={{ marginTop: '0.25rem', fontSize: fontSizes.small, color: '#6b7280' }}>
+        {route.steps.map((step, index) => {
+          const approval = request.approvalHistory.find(entry => entry.stepIndex === index && entry.action === 'approve');
+          const rejection = request.approvalHistory.find(entry => entry.stepIndex === index && entry.action === 'reject');
+          return (
+            <div key={index}>
+              {index + 1}. {step.name}: {approval
+                ? `✓ ${approval.approverName} ${formatActedAt(approval.actedAt)}`
+                : rejection
+                  ? `✕ ${rejection.approverName} ${formatActedAt(rejection.actedAt)}（却下）`
+                  : request.status === '申請中' && currentStepIndex === index ? '承認待ち' : '-'}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
 
   // 日付フォーマット関数（yyyy/mm/dd形式）
 
@@ -340,19 +486,29 @@ export const RequestApproval: React.FC = () => {
   const handleApprove = async (request: UnifiedRequest) => {
     setIsLoading(true);
     try {
+      const { progress, entry } = buildStepAction(request, 'approve');
       await updateApplicationStatus({
         requestId: request.id,
         type: request.type === '休暇申請' ? 'leave' : 'attendance',
-        action: 'approve'
+        action: 'approve',
+        stepIndex: entry?.stepIndex
       });
 
-      // ローカル状態を更新
+      // ローカル状態を更新（最終ステップ以外の承認は申請中のまま次のステップへ進む）
       setAllRequests(prev =>
-        prev.map(req => req.id === request.id ? { ...req, status: '承認' as const } : req)
+        prev.map(req => req.id === request.id
+          ? {
+              ...req,
+              status: progress.isFinalStep ? '承認' as const : req.status,
+              approvalHistory: entry ? [...req.approvalHistory, entry] : req.approvalHistory
+            }
+          : req)
       );
 
       setSnackbar({ 
-        message: request.type === '休暇申請' ? '休暇申請を承認しました' : '打刻修正申請を承認しました', 
+        message: !progress.isFinalStep && entry
+          ? `${entry.stepName}の承認を記録しました（${progress.approvedSteps + 1}/${progress.totalSteps}）`
+          : request.type === '休暇申請' ? '休暇申請を承認しました' : '打刻修正申請を承認しました', 
         type: 'success' 
       });
       setTimeout(() => setSnackbar(null), 3000);
@@ -376,15 +532,20 @@ export const RequestApproval: React.FC = () => {
       onConfirm: async () => {
         setIsLoading(true);
         try {
+          // 申請中の取消は承認待ちのステップでの却下として履歴に残す
+          const { entry } = request.status === '申請中' ? buildStepAction(request, 'reject') : { entry: null };
           await updateApplicationStatus({
             requestId: request.id,
             type: request.type === '休暇申請' ? 'leave' : 'attendance',
-            action: 'reject'
+            action: 'reject',
+            stepIndex: entry?.stepIndex
           });
 
           // ローカル状態を更新
           setAllRequests(prev =>
-            prev.map(req => req.id === request.id ? { ...req, status: '取消' as const } : req)
+            prev.map(req => req.id === request.id
+              ? { ...req, status: '取消' as const, approvalHistory: entry ? [...req.approvalHistory, entry] : req.approvalHistory }
+              : req)
           );
 
           setSnackbar({ 
@@ -422,20 +583,19 @@ export const RequestApproval: React.FC = () => {
 
   // 全選択/全解除
   const handleSelectAll = () => {
-    const pendingRequests = filteredRequests.filter(req => req.status === '申請中');
-    const pendingRequestIds = new Set(pendingRequests.map(req => req.id));
-    const allSelected = pendingRequests.length > 0 && 
-                        pendingRequests.every(req => selectedRequestIds.has(req.id));
+    const pendingRequestIds = new Set(myPendingRequests.map(req => req.id));
+    const allSelected = myPendingRequests.length > 0 && 
+                        myPendingRequests.every(req => selectedRequestIds.has(req.id));
     
     if (allSelected) {
-      // 全解除：フィルタリングされた申請中の申請の選択を解除
+      // 全解除：自分が承認できる申請の選択を解除
       setSelectedRequestIds(prev => {
         const newSet = new Set(prev);
         pendingRequestIds.forEach(id => newSet.delete(id));
         return newSet;
       });
     } else {
-      // 全選択：フィルタリングされた申請中の申請をすべて選択
+      // 全選択：自分が承認できる申請をすべて選択
       setSelectedRequestIds(prev => {
         const newSet = new Set(prev);
         pendingRequestIds.forEach(id => newSet.add(id));
@@ -446,9 +606,7 @@ export const RequestApproval: React.FC = () => {
 
   // 一括承認
   const handleBulkApprove = () => {
-    const selectedPendingRequests = filteredRequests.filter(
-      req => req.status === '申請中' && selectedRequestIds.has(req.id)
-    );
+    const selectedPendingRequests = myPendingRequests.filter(req => selectedRequestIds.has(req.id));
     
     if (selectedPendingRequests.length === 0) {
       setSnackbar({ message: '承認する申請を選択してください', type: 'error' });
@@ -463,24 +621,30 @@ export const RequestApproval: React.FC = () => {
       onConfirm: async () => {
         setIsLoading(true);
         try {
-          // すべての申請を並列で承認
+          // すべての申請を並列で承認（それぞれ承認待ちのステップを承認する）
+          const actions = new Map(selectedPendingRequests.map(request => [request.id, buildStepAction(request, 'approve')]));
           await Promise.all(
             selectedPendingRequests.map(request =>
               updateApplicationStatus({
                 requestId: request.id,
                 type: request.type === '休暇申請' ? 'leave' : 'attendance',
-                action: 'approve'
+                action: 'approve',
+                stepIndex: actions.get(request.id)?.entry?.stepIndex
               })
             )
           );
 
-          // ローカル状態を更新
+          // ローカル状態を更新（最終ステップ以外の承認は申請中のまま次のステップへ進む）
           setAllRequests(prev =>
-            prev.map(req => 
-              selectedPendingRequests.some(selected => selected.id === req.id)
-                ? { ...req, status: '承認' as const }
-                : req
-            )
+            prev.map(req => {
+              const stepAction = actions.get(req.id);
+              if (!stepAction) return req;
+              return {
+                ...req,
+                status: stepAction.progress.isFinalStep ? '承認' as const : req.status,
+                approvalHistory: stepAction.entry ? [...req.approvalHistory, stepAction.entry] : req.approvalHistory
+              };
+            })
           );
 
           setSelectedRequestIds(new Set());
@@ -564,11 +728,42 @@ export const RequestApproval: React.FC = () => {
     setIsLoading(true);
     try {
       // UIの日本語ラベルをAPIの英語コードに変換
-      const apiLeaveType = getLeaveTypeCodeFromLabel(registerFormData.type) as 'paid' | 'special' | 'sick' | 'absence' | 'other';
+      const apiLeaveType = getLeaveTypeCodeFromLabel(registerFormData.type);
 
       // 日数を計算
       const days = registerFormData.isHalfDay ? 0.5 : 
         Math.ceil((new Date(finalEndDate).getTime() - new Date(registerFormData.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1;
+
+      // 休暇種別マスタの種別は、従業員の申請と休日出勤から規則（残日数・振替元・日数上限）を確認する
+      if (registerLeaveTypeSetting) {
+        const [leaveResponse, holidayWorkDates] = await Promise.all([
+          getLeaveRequestList(registerFormData.employeeId),
+          registerLeaveTypeSetting.balanceRule === 'holidayWork'
+            ? getAttendanceList(
+                registerFormData.employeeId,
+                addDaysToYmd(registerFormData.startDate, -(registerLeaveTypeSetting.expirationDays ?? COMPENSATORY_LEAVE_LOOKBACK_DAYS)),
+                registerFormData.startDate
+              ).then(response => response.logs.filter(l => isHolidayWorkLog(l, companyHolidays)).map(l => l.workDate))
+            : Promise.resolve([])
+        ]);
+        const ruleError = validateLeaveRequestRule(
+          registerLeaveTypeSetting,
+          {
+            startDate: registerFormData.startDate,
+            endDate: finalEndDate,
+            days,
+            leaveType: apiLeaveType,
+            status: 'pending',
+            substituteWorkDate: registerFormData.substituteWorkDate
+          },
+          { holidayWorkDates, requests: leaveResponse.requests }
+        );
+        if (ruleError) {
+          setSnackbar({ message: ruleError, type: 'error' });
+          setTimeout(() => setSnackbar(null), 5000);
+          return;
+        }
+      }
       
       await createLeaveRequest({
         employeeId: registerFormData.employeeId,
@@ -577,7 +772,8 @@ export const RequestApproval: React.FC = () => {
         leaveType: apiLeaveType,
         reason: registerFormData.reason,
         days: days,
-        isHalfDay: registerFormData.isHalfDay
+        isHalfDay: registerFormData.isHalfDay,
+        ...(registerLeaveTypeSetting?.balanceRule === 'substitute' ? { substituteWorkDate: registerFormData.substituteWorkDate } : {})
       });
 
       // 申請一覧を再取得
@@ -589,7 +785,7 @@ export const RequestApproval: React.FC = () => {
         startDate: '',
         endDate: '',
         days: 0,
-        type: getLeaveTypeLabel(leaveTypes[0]?.code || 'paid') as '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他',
+        type: defaultLeaveType,
         reason: '',
         isHalfDay: false
       });
@@ -616,7 +812,7 @@ export const RequestApproval: React.FC = () => {
       startDate: '',
       endDate: '',
       days: 0,
-      type: getLeaveTypeLabel(leaveTypes[0]?.code || 'paid') as '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他',
+      type: defaultLeaveType,
       reason: '',
       isHalfDay: false
     });
@@ -632,6 +828,20 @@ export const RequestApproval: React.FC = () => {
           onClose={() => setSnackbar(null)}
         />
       )}
+      <CsvExportModal
+        isOpen={showCsvExport}
+        title="休暇履歴のCSV出力"
+        target="leave"
+        rows={leaveCsvRows}
+        columns={LEAVE_CSV_COLUMNS}
+        fileName={`休暇履歴_${apiSearchYearMonthFrom}_${apiSearchYearMonthTo}`}
+        onClose={() => setShowCsvExport(false)}
+        onNotify={(message, type) => {
+          setSnackbar({ message, type });
+          setTimeout(() => setSnackbar(null), 3000);
+        }}
+        isMobile={isMobile}
+      />
       {confirmModal && (
         <ConfirmModal
           isOpen={confirmModal.isOpen}
@@ -817,6 +1027,15 @@ export const RequestApproval: React.FC = () => {
                     onClick={handleSearch}
                     fullWidth
                   />
+                  <Button
+                    variant="secondary"
+                    onClick={() => setShowCsvExport(true)}
+                    disabled={leaveCsvRows.length === 0}
+                    fullWidth
+                    style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                  >
+                    CSV出力
+                  </Button>
                 </div>
               </div>
             )}
@@ -936,11 +1155,54 @@ export const RequestApproval: React.FC = () => {
             <ClearButton
               onClick={handleClearSearch}
             />
+            <Button
+              variant="secondary"
+              onClick={() => setShowCsvExport(true)}
+              disabled={leaveCsvRows.length === 0}
+              style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+            >
+              CSV出力
+            </Button>
           </div>
           </div>
         )}
       </div>
-        {filteredRequests.filter(req => req.status === '申請中').length > 0 && (
+        <div style={{ marginBottom: '0.75rem', display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+          <input
+            type="checkbox"
+            id="showOnlyMyTurn"
+            checked={showOnlyMyTurn}
+            onChange={(e) => setShowOnlyMyTurn(e.target.checked)}
+            style={{ width: '18px', height: '18px', cursor: 'pointer' }}
+          />
+          <label htmlFor="showOnlyMyTurn" style={{ fontSize: fontSizes.label, cursor: 'pointer', marginRight: '1rem' }}>
+            自分の承認待ちのみ表示
+          </label>
+          <label htmlFor="filterDepartment" style={{ fontSize: fontSizes.label, fontWeight: 'bold' }}>
+            部署
+          </label>
+          <select
+            id="filterDepartment"
+            value={filterDepartmentId}
+            onChange={(e) => setFilterDepartmentId(e.target.value)}
+            style={{
+              padding: '0.375rem 0.5rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: fontSizes.select,
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="">すべて</option>
+            {flattenDepartmentTree(departments).map(({ department, depth }) => (
+              <option key={department.id} value={department.id}>
+                {'　'.repeat(depth)}{department.name}
+              </option>
+            ))}
+            <option value={NO_DEPARTMENT_KEY}>部署未設定</option>
+          </select>
+        </div>
+        {myPendingRequests.length > 0 && (
           <div style={{
             marginBottom: '1rem',
             display: 'flex',
@@ -949,9 +1211,8 @@ export const RequestApproval: React.FC = () => {
             flexWrap: 'wrap'
           }}>
             {(() => {
-              const pendingRequests = filteredRequests.filter(req => req.status === '申請中');
-              const allSelected = pendingRequests.length > 0 && 
-                                pendingRequests.every(req => selectedRequestIds.has(req.id));
+              const allSelected = myPendingRequests.length > 0 && 
+                                myPendingRequests.every(req => selectedRequestIds.has(req.id));
               return (
                 <SelectAllButton
                   onClick={handleSelectAll}
@@ -1020,9 +1281,11 @@ export const RequestApproval: React.FC = () => {
                 <div style={{ marginBottom: '0.75rem' }}>
                   <div style={{ fontSize: fontSizes.medium, color: '#6b7280', marginBottom: '0.25rem' }}>詳細</div>
                   <div style={{ fontSize: fontSizes.medium }}>
-                    {request.leaveData.leaveType} / {formatDate(request.leaveData.startDate)}
-                    {request.leaveData.startDate !== request.leaveData.endDate ? ` ～ ${formatDate(request.leaveData.endDate)}` : ''} / {request.leaveData.days}日{request.leaveData.isHalfDay ? '（半休）' : ''}
+                    {request.leaveData.leaveType}{unpaidLeaveTypeLabels.has(request.leaveData.leaveType) ? '（無給）' : ''} / {formatDate(request.leaveData.startDate)}
+                    {request.leaveData.startDate !== request.leaveData.endDate ? ` ～ ${formatDate(request.leaveData.endDate)}` : ''} / {request.leaveData.hourlyLabel ?? `${request.leaveData.days}日${request.leaveData.isHalfDay ? '（半休）' : ''}`}
+                    {request.leaveData.substituteWorkDate ? ` / 振替元 ${formatDate(request.leaveData.substituteWorkDate)}` : ''}
                   </div>
+                  {renderApprovalSteps(request)}
                 </div>
               )}
               {request.type === '打刻修正申請' && request.attendanceData && (
@@ -1031,9 +1294,10 @@ export const RequestApproval: React.FC = () => {
                   <div style={{ fontSize: fontSizes.medium }}>
                     修正対象日: {formatDate(request.attendanceData.date)}
                   </div>
+                  {renderApprovalSteps(request)}
                 </div>
               )}
-              {request.status === '申請中' && (
+              {isMyTurn(request) && (
                 <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem', alignItems: 'center' }}>
                   <input
                     type="checkbox"
@@ -1048,7 +1312,12 @@ export const RequestApproval: React.FC = () => {
                   <label style={{ fontSize: fontSizes.label, cursor: 'pointer' }}>一括承認対象</label>
                 </div>
               )}
-              {request.status === '申請中' && (
+              {request.status === '申請中' && !isMyTurn(request) && (
+                <div style={{ marginTop: '0.75rem', color: '#6b7280', fontSize: fontSizes.small }}>
+                  {getAwaitingLabel(request)}
+                </div>
+              )}
+              {isMyTurn(request) && (
                 <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem', flexDirection: 'column' }}>
                   <ApproveButton
                     onClick={() => handleApprove(request)}
@@ -1095,10 +1364,9 @@ export const RequestApproval: React.FC = () => {
               }}>
                 <th style={{ padding: '0.75rem', textAlign: 'center', width: '50px' }}>
                   {(() => {
-                    const pendingRequests = filteredRequests.filter(req => req.status === '申請中');
-                    const allSelected = pendingRequests.length > 0 && 
-                                      pendingRequests.every(req => selectedRequestIds.has(req.id));
-                    return pendingRequests.length > 0 ? (
+                    const allSelected = myPendingRequests.length > 0 && 
+                                      myPendingRequests.every(req => selectedRequestIds.has(req.id));
+                    return myPendingRequests.length > 0 ? (
                       <input
                         type="checkbox"
                         checked={allSelected}
@@ -1132,7 +1400,7 @@ export const RequestApproval: React.FC = () => {
                   }}
                 >
                   <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                    {request.status === '申請中' && (
+                    {isMyTurn(request) && (
                       <input
                         type="checkbox"
                         checked={selectedRequestIds.has(request.id)}
@@ -1153,8 +1421,9 @@ export const RequestApproval: React.FC = () => {
                   <td style={{ padding: '0.75rem', fontSize: fontSizes.tableCell, color: request.status === '削除済み' || request.status === '取消' ? '#9ca3af' : 'inherit' }}>
                     {request.type === '休暇申請' && request.leaveData && (
                       <div>
-                        {request.leaveData.leaveType} / {formatDate(request.leaveData.startDate)}
-                        {request.leaveData.startDate !== request.leaveData.endDate ? ` ～ ${formatDate(request.leaveData.endDate)}` : ''} / {request.leaveData.days}日{request.leaveData.isHalfDay ? '（半休）' : ''}
+                        {request.leaveData.leaveType}{unpaidLeaveTypeLabels.has(request.leaveData.leaveType) ? '（無給）' : ''} / {formatDate(request.leaveData.startDate)}
+                        {request.leaveData.startDate !== request.leaveData.endDate ? ` ～ ${formatDate(request.leaveData.endDate)}` : ''} / {request.leaveData.hourlyLabel ?? `${request.leaveData.days}日${request.leaveData.isHalfDay ? '（半休）' : ''}`}
+                        {request.leaveData.substituteWorkDate ? ` / 振替元 ${formatDate(request.leaveData.substituteWorkDate)}` : ''}
                       </div>
                     )}
                     {request.type === '打刻修正申請' && request.attendanceData && (
@@ -1162,6 +1431,7 @@ export const RequestApproval: React.FC = () => {
                         修正対象日: {formatDate(request.attendanceData.date)}
                       </div>
                     )}
+                    {renderApprovalSteps(request)}
                   </td>
                   <td style={{ padding: '0.75rem' }}>
                     <span style={{
@@ -1175,17 +1445,21 @@ export const RequestApproval: React.FC = () => {
                     </span>
                   </td>
                   <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                    {request.status === '申請中' ? (
+                    {isMyTurn(request) ? (
                       <ApproveButton
                         onClick={() => handleApprove(request)}
                         isTableButton
                       />
+                    ) : request.status === '申請中' ? (
+                      <span style={{ color: '#6b7280', fontSize: fontSizes.small }}>
+                        {getAwaitingLabel(request)}
+                      </span>
                     ) : (
                       <span style={{ color: '#9ca3af' }}>-</span>
                     )}
                   </td>
                   <td style={{ padding: '0.75rem', textAlign: 'center' }}>
-                    {(request.status === '申請中' || request.status === '承認') ? (
+                    {(isMyTurn(request) || request.status === '承認') ? (
                       <CancelApprovalButton
                         onClick={() => handleCancelApproval(request)}
                         isTableButton
@@ -1269,7 +1543,7 @@ export const RequestApproval: React.FC = () => {
                 </label>
                 <select
                   value={registerFormData.type}
-                  onChange={(e) => setRegisterFormData({ ...registerFormData, type: e.target.value as '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他' })}
+                  onChange={(e) => setRegisterFormData({ ...registerFormData, type: e.target.value })}
                   style={{
                     width: '100%',
                     padding: '0.5rem',
@@ -1279,11 +1553,39 @@ export const RequestApproval: React.FC = () => {
                     fontSize: fontSizes.select
                   }}
                 >
-                  {leaveTypes.map((type) => (
-                    <option key={type.code} value={type.code}>{type.label}</option>
+                  {leaveTypeOptions.map((type) => (
+                    <option key={type.code} value={type.label}>
+                      {type.label}{type.setting && !type.setting.isPaid ? '（無給）' : ''}
+                    </option>
                   ))}
                 </select>
+                {registerLeaveTypeSetting?.balanceRule === 'perEvent' && (
+                  <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                    1回につき{registerLeaveTypeSetting.fixedDays}日まで取得できます。
+                  </p>
+                )}
               </div>
+              {registerLeaveTypeSetting?.balanceRule === 'substitute' && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                    振替元の休日出勤日 *
+                  </label>
+                  <input
+                    type="date"
+                    value={registerFormData.substituteWorkDate ?? ''}
+                    onChange={(e) => setRegisterFormData({ ...registerFormData, substituteWorkDate: e.target.value })}
+                    style={{
+                      width: '100%',
+                      padding: '0.75rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      fontSize: fontSizes.input,
+                      boxSizing: 'border-box'
+                    }}
+                    required
+                  />
+                </div>
+              )}
               <div style={{ marginBottom: '1rem' }}>
                 <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
                   休暇区分 *
@@ -0,0 +1,752 @@
+/**
+ * ファイル名: ShiftSchedule.tsx
+ * 画面名: シフト管理画面
+ * 説明: 従業員の勤務予定（シフト）を週・月単位のグリッドで作成・編集する画面
+ * 機能:
+ *   - 週表示・月表示の切り替え
+ *   - セルクリックによるシフトの登録・変更・削除
+ *   - 週のシフトのコピー（前週から取り込み／翌週以降へ展開）
+ *   - 勤務拠点での絞り込み
+ *   - 勤務拠点別の配置人数表示
+ *   - 閲覧範囲による絞り込み（拠点管理者は同じ勤務拠点、閲覧範囲が「自分と部下のみ」の管理者は部下のみ）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { Button, CancelButton, SaveButton, DeleteButton } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { getEmployees, type EmployeeResponse } from '../../utils/employeeApi';
+import { getWorkLocations, type WorkLocation } from '../../utils/workLocationApi';
+import { getShifts, upsertShifts, deleteShift, type Shift, type UpsertShiftRequest } from '../../utils/shiftApi';
+import { formatShiftTimeRange, getShiftWorkMinutes } from '../../utils/shiftComparison';
+import { getHolidayName } from '../../utils/holidayCalendar';
+import { formatMinutesToTime } from '../../utils/formatters';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+
+const DAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+/** 勤務拠点未指定を表す絞り込み・集計用のキー */
+const NO_LOCATION_KEY = '__none__';
+
+const parseYmd = (ymd: string): Date => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const formatYmd = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const addDays = (ymd: string, days: number): string => {
+  const d = parseYmd(ymd);
+  d.setDate(d.getDate() + days);
+  return formatYmd(d);
+};
+
+/** 指定日を含む週の月曜日 */
+const startOfWeek = (ymd: string): string => {
+  const d = parseYmd(ymd);
+  const diff = (d.getDay() + 6) % 7;
+  d.setDate(d.getDate() - diff);
+  return formatYmd(d);
+};
+
+/** シフト編集フォームの状態 */
+interface ShiftEditor {
+  shiftId: string | null;
+  employeeId: string;
+  employeeName: string;
+  workDate: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  workLocationId: string | null;
+  memo: string;
+}
+
+/**
+ * シフト管理画面コンポーネント。
+ * シフトは従業員1人1日につき1件で、出勤簿の遅刻・早退・シフト外勤務の判定に使われます。
+ *
+ * @returns {JSX.Element} シフト管理画面コンポーネント。
+ */
+export const ShiftSchedule: React.FC = () => {
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [viewType, setViewType] = useState<'week' | 'month'>('week');
+  const [displayMode, setDisplayMode] = useState<'employee' | 'location'>('employee');
+  const [anchorDate, setAnchorDate] = useState<string>(() => startOfWeek(formatYmd(new Date())));
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [workLocations, setWorkLocations] = useState<WorkLocation[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [reloadFlag, setReloadFlag] = useState(0);
+  const [editor, setEditor] = useState<ShiftEditor | null>(null);
+  const [copyWeeks, setCopyWeeks] = useState<number>(1);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; title: string; message: string; onConfirm: () => void } | null>(null);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const { companyHolidays } = useCompanyHolidays();
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  /** 表示期間（週表示は月〜日、月表示は1日〜末日） */
+  const range = useMemo(() => {
+    if (viewType === 'week') {
+      return { startDate: anchorDate, endDate: addDays(anchorDate, 6) };
+    }
+    const d = parseYmd(anchorDate);
+    return {
+      startDate: formatYmd(new Date(d.getFullYear(), d.getMonth(), 1)),
+      endDate: formatYmd(new Date(d.getFullYear(), d.getMonth() + 1, 0))
+    };
+  }, [viewType, anchorDate]);
+
+  const dates = useMemo(() => {
+    const list: string[] = [];
+    for (let ymd = range.startDate; ymd <= range.endDate; ymd = addDays(ymd, 1)) {
+      list.push(ymd);
+    }
+    return list;
+  }, [range]);
+
+  // 従業員と勤務拠点を取得
+  useEffect(() => {
+    const fetchMasters = async () => {
+      try {
+        const [employeeList, locationResponse] = await Promise.all([getEmployees(), getWorkLocations()]);
+        const visibleEmployeeIds = getVisibleEmployeeIds(employeeList, getUserInfo().employeeId);
+        setEmployees(visibleEmployeeIds ? employeeList.filter(employee => visibleEmployeeIds.has(employee.id)) : employeeList);
+        setWorkLocations(locationResponse.workLocations);
+      } catch (error) {
+        logError('Failed to fetch employees or work locations:', error);
+        setSnackbar({ message: '従業員・勤務拠点の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    };
+    fetchMasters();
+  }, []);
+
+  // 表示期間のシフトを取得
+  useEffect(() => {
+    const fetchShifts = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getShifts(range.startDate, range.endDate);
+        setShifts(response.shifts);
+      } catch (error) {
+        logError('Failed to fetch shifts:', error);
+        setSnackbar({ message: 'シフトの取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchShifts();
+  }, [range, reloadFlag]);
+
+  /** 従業員ID＋勤務日 → シフト */
+  const shiftMap = useMemo(() => {
+    const map = new Map<string, Shift>();
+    shifts.forEach(shift => map.set(`${shift.employeeId}_${shift.workDate}`, shift));
+    return map;
+  }, [shifts]);
+
+  const locationNameMap = useMemo(
+    () => new Map(workLocations.map(location => [location.id, location.name])),
+    [workLocations]
+  );
+
+  /** 表示期間に在籍し、絞り込み条件に合う従業員 */
+  const visibleEmployees = useMemo(() => {
+    return employees
+      .filter(emp => emp.joinDate <= range.endDate && (!emp.leaveDate || emp.leaveDate >= range.startDate))
+      .filter(emp => {
+        if (!locationFilter) return true;
+        if (locationFilter === NO_LOCATION_KEY) return !emp.workLocationId;
+        return emp.workLocationId === locationFilter;
+      });
+  }, [employees, range, locationFilter]);
+
+  /** 勤務拠点別・日別の配置人数（シフトの勤務拠点で集計） */
+  const staffingRows = useMemo(() => {
+    const rows = [
+      ...workLocations.map(location => ({ key: location.id, name: location.name })),
+      { key: NO_LOCATION_KEY, name: '拠点未指定' }
+    ];
+    return rows.map(row => ({
+      ...row,
+      counts: dates.map(date =>
+        shifts.filter(s => s.workDate === date && (s.workLocationId ?? NO_LOCATION_KEY) === row.key).length
+      )
+    }));
+  }, [workLocations, shifts, dates]);
+
+  const movePeriod = (direction: -1 | 1) => {
+    if (viewType === 'week') {
+      setAnchorDate(addDays(anchorDate, direction * 7));
+    } else {
+      const d = parseYmd(anchorDate);
+      setAnchorDate(formatYmd(new Date(d.getFullYear(), d.getMonth() + direction, 1)));
+    }
+  };
+
+  const changeViewType = (next: 'week' | 'month') => {
+    setViewType(next);
+    if (next === 'week') {
+      // 月表示から戻る場合、今日が表示月内なら今週、そうでなければ表示月の1日を含む週
+      const today = formatYmd(new Date());
+      setAnchorDate(startOfWeek(today >= range.startDate && today <= range.endDate ? today : range.startDate));
+    } else {
+      const d = parseYmd(anchorDate);
+      setAnchorDate(formatYmd(new Date(d.getFullYear(), d.getMonth(), 1)));
+    }
+  };
+
+  const periodLabel = viewType === 'week'
+    ? `${parseYmd(range.startDate).getMonth() + 1}月${parseYmd(range.startDate).getDate()}日 〜 ${parseYmd(range.endDate).getMonth() + 1}月${parseYmd(range.endDate).getDate()}日`
+    : `${parseYmd(range.startDate).getFullYear()}年${parseYmd(range.startDate).getMonth() + 1}月`;
+
+  const openEditor = (employee: EmployeeResponse, workDate: string) => {
+    const existing = shiftMap.get(`${employee.id}_${workDate}`);
+    setEditor({
+      shiftId: existing?.id ?? null,
+      employeeId: employee.id,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      workDate,
+      startTime: existing?.startTime ?? '09:00',
+      endTime: existing?.endTime ?? '18:00',
+      breakMinutes: existing?.breakMinutes ?? employee.defaultBreakTime ?? 60,
+      workLocationId: existing ? existing.workLocationId : employee.workLocationId ?? null,
+      memo: existing?.memo ?? ''
+    });
+  };
+
+  const handleSaveShift = async () => {
+    if (!editor) return;
+    if (!/^\d{2}:\d{2}$/.test(editor.startTime) || !/^\d{2}:\d{2}$/.test(editor.endTime)) {
+      setSnackbar({ message: '開始・終了時刻を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    if (editor.startTime === editor.endTime) {
+      setSnackbar({ message: '開始時刻と終了時刻が同じです', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    try {
+      await upsertShifts([{
+        employeeId: editor.employeeId,
+        workDate: editor.workDate,
+        startTime: editor.startTime,
+        endTime: editor.endTime,
+        breakMinutes: editor.breakMinutes,
+        workLocationId: editor.workLocationId,
+        memo: editor.memo || null
+      }]);
+      setEditor(null);
+      setReloadFlag(prev => prev + 1);
+      setSnackbar({ message: 'シフトを保存しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save shift:', error);
+      const errorMessage = error instanceof Error ? error.message : 'シフトの保存に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleDeleteShift = async () => {
+    if (!editor?.shiftId) return;
+    try {
+      await deleteShift(editor.shiftId);
+      setEditor(null);
+      setReloadFlag(prev => prev + 1);
+      setSnackbar({ message: 'シフトを削除しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to delete shift:', error);
+      const errorMessage = error instanceof Error ? error.message : 'シフトの削除に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  /**
+   * 週のシフトを別の週へコピーする（同じ従業員・同じ曜日に上書き）。
+   * @param sourceWeekStart コピー元の週の月曜日
+   * @param targetWeekStarts コピー先の週の月曜日
+   */
+  const copyWeek = async (sourceWeekStart: string, targetWeekStarts: string[]) => {
+    try {
+      const source = await getShifts(sourceWeekStart, addDays(sourceWeekStart, 6));
+      if (source.shifts.length === 0) {
+        setSnackbar({ message: 'コピー元の週にシフトがありません', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+      const payload: UpsertShiftRequest[] = targetWeekStarts.flatMap(targetStart => {
+        const offset = Math.round((parseYmd(targetStart).getTime() - parseYmd(sourceWeekStart).getTime()) / 86400000);
+        return source.shifts.map(shift => ({
+          employeeId: shift.employeeId,
+          workDate: addDays(shift.workDate, offset),
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          breakMinutes: shift.breakMinutes,
+          workLocationId: shift.workLocationId,
+          memo: shift.memo ?? null
+        }));
+      });
+      await upsertShifts(payload);
+      setReloadFlag(prev => prev + 1);
+      setSnackbar({ message: `${payload.length}件のシフトをコピーしました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to copy shifts:', error);
+      const errorMessage = error instanceof Error ? error.message : 'シフトのコピーに失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  const handleCopyFromPreviousWeek = () => {
+    setConfirmModal({
+      isOpen: true,
+      title: '前週のシフトをコピー',
+      message: '前週のシフトをこの週に取り込みます。同じ従業員・同じ曜日のシフトは上書きされます。よろしいですか？',
+      onConfirm: () => {
+        setConfirmModal(null);
+        copyWeek(addDays(anchorDate, -7), [anchorDate]);
+      }
+    });
+  };
+
+  const handleCopyToFollowingWeeks = () => {
+    const targets = Array.from({ length: copyWeeks }, (_, i) => addDays(anchorDate, (i + 1) * 7));
+    setConfirmModal({
+      isOpen: true,
+      title: 'この週のシフトを展開',
+      message: `この週のシフトを翌週から${copyWeeks}週分にコピーします。同じ従業員・同じ曜日のシフトは上書きされます。よろしいですか？`,
+      onConfirm: () => {
+        setConfirmModal(null);
+        copyWeek(anchorDate, targets);
+      }
+    });
+  };
+
+  const headerCellStyle = (date: string): React.CSSProperties => {
+    const dow = parseYmd(date).getDay();
+    const isHoliday = dow === 0 || getHolidayName(date, companyHolidays) !== null;
+    return {
+      padding: '0.5rem 0.25rem',
+      borderBottom: '2px solid #e5e7eb',
+      borderRight: '1px solid #e5e7eb',
+      textAlign: 'center',
+      whiteSpace: 'nowrap',
+      fontSize: fontSizes.small,
+      color: isHoliday ? '#dc2626' : dow === 6 ? '#2563eb' : '#1f2937',
+      backgroundColor: isHoliday ? '#fef2f2' : dow === 6 ? '#eff6ff' : '#f9fafb',
+      minWidth: viewType === 'week' ? '110px' : '64px'
+    };
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    backgroundColor: 'white'
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input,
+    boxSizing: 'border-box'
+  };
+
+  const toggleButtonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '0.5rem 1rem',
+    border: '1px solid #8b5a2b',
+    backgroundColor: active ? '#8b5a2b' : 'white',
+    color: active ? 'white' : '#8b5a2b',
+    cursor: 'pointer',
+    fontSize: fontSizes.button,
+    boxShadow: 'none',
+    minHeight: 'auto',
+    minWidth: 'auto'
+  });
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {confirmModal && (
+        <ConfirmModal
+          isOpen={confirmModal.isOpen}
+          title={confirmModal.title}
+          message={confirmModal.message}
+          confirmText="コピー"
+          onConfirm={confirmModal.onConfirm}
+          onCancel={() => setConfirmModal(null)}
+          isMobile={isMobile}
+        />
+      )}
+      {editor && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            zIndex: 10000,
+            padding: isMobile ? '1rem' : '1.4rem'
+          }}
+          onClick={() => setEditor(null)}
+        >
+          <div
+            style={{
+              backgroundColor: 'white',
+              borderRadius: '8px',
+              padding: isMobile ? '1.5rem' : '1.4rem',
+              width: '100%',
+              maxWidth: '500px',
+              boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1)'
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 style={{ marginBottom: '1rem', fontSize: isMobile ? fontSizes.h3.mobile : fontSizes.h3.desktop }}>
+              {editor.employeeName}{' '}{parseYmd(editor.workDate).getMonth() + 1}月{parseYmd(editor.workDate).getDate()}日({DAY_NAMES[parseYmd(editor.workDate).getDay()]})のシフト
+            </h3>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '1rem' }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>開始 *</label>
+                <input
+                  type="time"
+                  value={editor.startTime}
+                  onChange={(e) => setEditor({ ...editor, startTime: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>終了 *</label>
+                <input
+                  type="time"
+                  value={editor.endTime}
+                  onChange={(e) => setEditor({ ...editor, endTime: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <p style={{ margin: '-0.5rem 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+              {editor.startTime && editor.endTime && editor.startTime !== editor.endTime
+                ? `${formatShiftTimeRange(editor)}（実働 ${formatMinutesToTime(getShiftWorkMinutes(editor))}）`
+                : '終了が開始以前の場合は翌日の時刻として扱います'}
+            </p>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>休憩（分）</label>
+              <input
+                type="number"
+                value={editor.breakMinutes}
+                onChange={(e) => setEditor({ ...editor, breakMinutes: Math.max(0, Number(e.target.value)) })}
+                min="0"
+                step="15"
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>勤務拠点</label>
+              <select
+                value={editor.workLocationId ?? ''}
+                onChange={(e) => setEditor({ ...editor, workLocationId: e.target.value || null })}
+                style={{ ...inputStyle, backgroundColor: 'white' }}
+              >
+                <option value="">未指定</option>
+                {workLocations.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '1.5rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>メモ</label>
+              <input
+                type="text"
+                value={editor.memo}
+                onChange={(e) => setEditor({ ...editor, memo: e.target.value })}
+                maxLength={100}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ display: 'flex', gap: '1rem', flexDirection: isMobile ? 'column-reverse' : 'row' }}>
+              <CancelButton fullWidth type="button" onClick={() => setEditor(null)} />
+              {editor.shiftId && (
+                <DeleteButton fullWidth type="button" onClick={handleDeleteShift} />
+              )}
+              <SaveButton fullWidth type="button" onClick={handleSaveShift} />
+            </div>
+          </div>
+        </div>
+      )}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        シフト管理
+      </h2>
+      <div style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '0.75rem',
+        alignItems: 'center',
+        marginBottom: '1rem'
+      }}>
+        <div style={{ display: 'flex' }}>
+          <button type="button" style={{ ...toggleButtonStyle(viewType === 'week'), borderRadius: '4px 0 0 4px' }} onClick={() => changeViewType('week')}>週</button>
+          <button type="button" style={{ ...toggleButtonStyle(viewType === 'month'), borderRadius: '0 4px 4px 0' }} onClick={() => changeViewType('month')}>月</button>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Button variant="secondary" type="button" onClick={() => movePeriod(-1)} style={{ padding: '0.5rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+            ◀
+          </Button>
+          <span style={{ fontWeight: 'bold', minWidth: '10rem', textAlign: 'center' }}>{periodLabel}</span>
+          <Button variant="secondary" type="button" onClick={() => movePeriod(1)} style={{ padding: '0.5rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+            ▶
+          </Button>
+        </div>
+        <select value={locationFilter} onChange={(e) => setLocationFilter(e.target.value)} style={selectStyle}>
+          <option value="">全拠点の従業員</option>
+          {workLocations.map(location => (
+            <option key={location.id} value={location.id}>{location.name}</option>
+          ))}
+          <option value={NO_LOCATION_KEY}>拠点未設定の従業員</option>
+        </select>
+        <div style={{ display: 'flex' }}>
+          <button type="button" style={{ ...toggleButtonStyle(displayMode === 'employee'), borderRadius: '4px 0 0 4px' }} onClick={() => setDisplayMode('employee')}>従業員別</button>
+          <button type="button" style={{ ...toggleButtonStyle(displayMode === 'location'), borderRadius: '0 4px 4px 0' }} onClick={() => setDisplayMode('location')}>拠点別人数</button>
+        </div>
+      </div>
+      {viewType === 'week' && (
+        <div style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: '0.75rem',
+          alignItems: 'center',
+          marginBottom: '1rem',
+          padding: '0.75rem',
+          backgroundColor: '#f9fafb',
+          borderRadius: '8px'
+        }}>
+          <Button variant="secondary" type="button" onClick={handleCopyFromPreviousWeek} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+            前週のシフトをコピー
+          </Button>
+          <span style={{ color: '#6b7280' }}>|</span>
+          <span style={{ fontSize: fontSizes.medium }}>この週のシフトを翌週から</span>
+          <select value={copyWeeks} onChange={(e) => setCopyWeeks(Number(e.target.value))} style={selectStyle}>
+            {[1, 2, 3, 4].map(n => (
+              <option key={n} value={n}>{n}週分</option>
+            ))}
+          </select>
+          <Button variant="secondary" type="button" onClick={handleCopyToFollowingWeeks} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+            コピー
+          </Button>
+        </div>
+      )}
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '8px', opacity: isLoading ? 0.6 : 1 }}>
+        {displayMode === 'employee' ? (
+          <table style={{ borderCollapse: 'collapse', width: '100%', backgroundColor: 'white' }}>
+            <thead>
+              <tr>
+                <th style={{
+                  padding: '0.5rem',
+                  borderBottom: '2px solid #e5e7eb',
+                  borderRight: '1px solid #e5e7eb',
+                  backgroundColor: '#f9fafb',
+                  position: 'sticky',
+                  left: 0,
+                  zIndex: 1,
+                  textAlign: 'left',
+                  whiteSpace: 'nowrap',
+                  fontSize: fontSizes.small
+                }}>
+                  従業員
+                </th>
+                {dates.map(date => (
+                  <th key={date} style={headerCellStyle(date)} title={getHolidayName(date, companyHolidays) ?? undefined}>
+                    {parseYmd(date).getDate()}({DAY_NAMES[parseYmd(date).getDay()]})
+                  </th>
+                ))}
+                <th style={{ ...headerCellStyle(range.startDate), color: '#1f2937', backgroundColor: '#f9fafb', minWidth: '64px' }}>
+                  予定時間
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEmployees.length === 0 ? (
+                <tr>
+                  <td colSpan={dates.length + 2} style={{ padding: '2rem', textAlign: 'center', color: '#6b7280' }}>
+                    対象の従業員がいません
+                  </td>
+                </tr>
+              ) : (
+                visibleEmployees.map(employee => {
+                  const totalMinutes = dates.reduce((sum, date) => {
+                    const shift = shiftMap.get(`${employee.id}_${date}`);
+                    return sum + (shift ? getShiftWorkMinutes(shift) : 0);
+                  }, 0);
+                  return (
+                    <tr key={employee.id} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                      <td style={{
+                        padding: '0.5rem',
+                        borderRight: '1px solid #e5e7eb',
+                        position: 'sticky',
+                        left: 0,
+                        backgroundColor: 'white',
+                        whiteSpace: 'nowrap',
+                        fontSize: fontSizes.medium
+                      }}>
+                        {employee.firstName} {employee.lastName}
+                      </td>
+                      {dates.map(date => {
+                        const shift = shiftMap.get(`${employee.id}_${date}`);
+                        const isOutOfEmployment = date < employee.joinDate || (!!employee.leaveDate && date > employee.leaveDate);
+                        return (
+                          <td
+                            key={date}
+                            onClick={() => !isOutOfEmployment && openEditor(employee, date)}
+                            style={{
+                              padding: '0.25rem',
+                              borderRight: '1px solid #e5e7eb',
+                              textAlign: 'center',
+                              cursor: isOutOfEmployment ? 'not-allowed' : 'pointer',
+                              backgroundColor: isOutOfEmployment ? '#f3f4f6' : shift ? '#fdf6ee' : 'white',
+                              fontSize: fontSizes.small,
+                              verticalAlign: 'middle'
+                            }}
+                          >
+                            {shift ? (
+                              <div title={shift.memo ?? undefined}>
+                                <div style={{ fontWeight: 'bold', color: '#8b5a2b', whiteSpace: 'nowrap' }}>
+                                  {viewType === 'week' ? formatShiftTimeRange(shift) : shift.startTime}
+                                </div>
+                                {viewType === 'week' && shift.workLocationId && (
+                                  <div style={{ color: '#6b7280', whiteSpace: 'nowrap' }}>
+                                    {locationNameMap.get(shift.workLocationId) ?? ''}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <span style={{ color: '#d1d5db' }}>{isOutOfEmployment ? '' : '+'}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td style={{ padding: '0.5rem', textAlign: 'right', fontSize: fontSizes.small, whiteSpace: 'nowrap' }}>
+                        {formatMinutesToTime(totalMinutes)}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        ) : (
+          <table style={{ borderCollapse: 'collapse', width: '100%', backgroundColor: 'white' }}>
+            <thead>
+              <tr>
+                <th style={{
+                  padding: '0.5rem',
+                  borderBottom: '2px solid #e5e7eb',
+                  borderRight: '1px solid #e5e7eb',
+                  backgroundColor: '#f9fafb',
+                  position: 'sticky',
+                  left: 0,
+                  zIndex: 1,
+                  textAlign: 'left',
+                  whiteSpace: 'nowrap',
+                  fontSize: fontSizes.small
+                }}>
+                  勤務拠点
+                </th>
+                {dates.map(date => (
+                  <th key={date} style={headerCellStyle(date)}>
+                    {parseYmd(date).getDate()}({DAY_NAMES[parseYmd(date).getDay()]})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {staffingRows.map(row => (
+                <tr key={row.key} style={{ borderBottom: '1px solid #e5e7eb' }}>
+                  <td style={{
+                    padding: '0.5rem',
+                    borderRight: '1px solid #e5e7eb',
+                    position: 'sticky',
+                    left: 0,
+                    backgroundColor: 'white',
+                    whiteSpace: 'nowrap',
+                    fontSize: fontSizes.medium
+                  }}>
+                    {row.name}
+                  </td>
+                  {row.counts.map((count, i) => (
+                    <td key={dates[i]} style={{
+                      padding: '0.5rem',
+                      borderRight: '1px solid #e5e7eb',
+                      textAlign: 'center',
+                      fontWeight: count > 0 ? 'bold' : 'normal',
+                      color: count > 0 ? '#1f2937' : '#d1d5db'
+                    }}>
+                      {count > 0 ? `${count}人` : '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr style={{ backgroundColor: '#f9fafb' }}>
+                <td style={{
+                  padding: '0.5rem',
+                  borderRight: '1px solid #e5e7eb',
+                  position: 'sticky',
+                  left: 0,
+                  backgroundColor: '#f9fafb',
+                  fontWeight: 'bold',
+                  fontSize: fontSizes.medium
+                }}>
+                  合計
+                </td>
+                {dates.map((date, i) => (
+                  <td key={date} style={{ padding: '0.5rem', borderRight: '1px solid #e5e7eb', textAlign: 'center', fontWeight: 'bold' }}>
+                    {staffingRows.reduce((sum, row) => sum + row.counts[i], 0)}人
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+      <p style={{ marginTop: '0.5rem', fontSize: fontSizes.small, color: '#6b7280' }}>
+        セルをクリックするとシフトを登録・変更できます。出勤簿では打刻とシフトを照合し、遅刻・早退・シフト外勤務を表示します。
+      </p>
+    </div>
+  );
+};
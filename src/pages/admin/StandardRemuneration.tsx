@@ -0,0 +1,474 @@
+/**
+ * ファイル名: StandardRemuneration.tsx
+ * 画面名: 標準報酬月額管理画面
+ * 説明: 登録済みの給与明細から標準報酬月額を決定し、従業員の標準報酬月額の履歴に登録する画面
+ * 機能:
+ *   - 算定基礎届（定時決定）: 4〜6月の報酬の平均から9月分以降の等級を決定（個別・一括）
+ *   - 月額変更届（随時改定）: 固定的賃金の変動月から3か月の平均で改定の要否を判定し、4か月目から改定
+ *   - 閲覧範囲による絞り込み（拠点管理者は同じ勤務拠点、閲覧範囲が「自分と部下のみ」の管理者は部下のみ）
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Snackbar } from '../../components/Snackbar';
+import { useAuth } from '../../contexts/AuthContext';
+import { ProgressBar } from '../../components/ProgressBar';
+import { Button } from '../../components/Button';
+import { fontSizes } from '../../config/fontSizes';
+import { formatCurrency } from '../../utils/formatters';
+import { getEmployees, type EmployeeResponse, type StandardRemunerationRecord } from '../../utils/employeeApi';
+import { getPayrollDetailByPeriod } from '../../utils/payrollApi';
+import { addStandardRemuneration } from '../../utils/socialInsuranceApi';
+import {
+  calculateAnnualAverage,
+  evaluateMonthlyRevision,
+  findStandardRemunerationGrade,
+  gradeToDecision,
+  resolveStandardRemuneration,
+  MIN_PAYMENT_BASE_DAYS,
+  type MonthlyRemuneration
+} from '../../utils/socialInsurance';
+import { getVisibleEmployeeIds } from '../../utils/department';
+import { getUserInfo } from '../../config/apiConfig';
+import { error as logError } from '../../utils/logger';
+
+/** 算定基礎届の対象月 */
+const ANNUAL_MONTHS = [4, 5, 6];
+
+/** 算定基礎届の1行 */
+interface AnnualRow {
+  employee: EmployeeResponse;
+  months: Array<MonthlyRemuneration | null>;
+  average: number | null;
+  /** 対象外の理由。対象の場合は null */
+  excludedReason: string | null;
+}
+
+/** 月額変更届の判定結果 */
+type RevisionResult = ReturnType<typeof evaluateMonthlyRevision> & {
+  months: Array<MonthlyRemuneration | null>;
+  currentGrade: number | null;
+};
+
+const toYearMonth = (year: number, month: number): string => `${year}-${String(month).padStart(2, '0')}`;
+
+const formatYearMonth = (ym: string): string => {
+  const [y, m] = ym.split('-').map(Number);
+  return `${y}年${m}月`;
+};
+
+/** 等級の表示（健康保険・厚生年金） */
+const formatGrade = (healthGrade: number): string => {
+  const decision = gradeToDecision(healthGrade);
+  return `${decision.healthGrade}級 ${formatCurrency(decision.healthAmount)}（厚年${decision.pensionGrade}級）`;
+};
+
+const employeeName = (employee: EmployeeResponse): string => `${employee.firstName} ${employee.lastName}`;
+
+/**
+ * 登録済みの給与明細から1か月分の報酬と支払基礎日数を取得する。
+ * 月給制（正社員）は暦日数、時給制は出勤日数と有給休暇日数を支払基礎日数とする。
+ * 給与明細が未登録の月は null。
+ */
+const fetchMonthlyRemuneration = async (
+  employee: EmployeeResponse,
+  year: number,
+  month: number
+): Promise<MonthlyRemuneration | null> => {
+  const response = await getPayrollDetailByPeriod(employee.id, year, month);
+  if (response.source !== 'snapshot' || response.statementType !== 'salary') return null;
+  const baseDays = employee.employmentType === 'FULL_TIME'
+    ? new Date(year, month, 0).getDate()
+    : (response.detail.workingDays || 0) + (response.detail.paidLeave || 0);
+  return { year, month, remuneration: response.detail.totalEarnings, baseDays };
+};
+
+/**
+ * 標準報酬月額管理画面コンポーネント。
+ * 健康保険・厚生年金の被保険者（従業員登録で加入ありの従業員）を対象とします。
+ *
+ * @returns {JSX.Element} 標準報酬月額管理画面コンポーネント。
+ */
+export const StandardRemuneration: React.FC = () => {
+  const today = new Date();
+  const { hasPermission } = useAuth();
+  /** 標準報酬月額を登録できるか（権限ロール。閲覧のみの場合は決定・改定ボタンを無効にする） */
+  const canEditSalary = hasPermission('salary.edit');
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [tab, setTab] = useState<'annual' | 'revision'>('annual');
+  const [employees, setEmployees] = useState<EmployeeResponse[]>([]);
+  const [annualYear, setAnnualYear] = useState<number>(today.getMonth() + 1 >= 7 ? today.getFullYear() : today.getFullYear() - 1);
+  const [annualRows, setAnnualRows] = useState<AnnualRow[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [revisionEmployeeId, setRevisionEmployeeId] = useState<string>('');
+  const [revisionMonth, setRevisionMonth] = useState<string>('');
+  const [revisionResult, setRevisionResult] = useState<RevisionResult | null>(null);
+  // この画面で登録した後の標準報酬月額の履歴（従業員IDごと）
+  const [savedHistories, setSavedHistories] = useState<Record<string, StandardRemunerationRecord[]>>({});
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 健康保険・厚生年金の被保険者を取得
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      try {
+        const list = await getEmployees();
+        const visibleEmployeeIds = getVisibleEmployeeIds(list, getUserInfo().employeeId);
+        setEmployees(list.filter(employee =>
+          employee.socialInsurance?.healthInsuranceEnrolled && (!visibleEmployeeIds || visibleEmployeeIds.has(employee.id))
+        ));
+      } catch (error) {
+        logError('Failed to fetch employees:', error);
+        setSnackbar({ message: '従業員の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      }
+    };
+    fetchEmployees();
+  }, []);
+
+  // 算定基礎届: 4〜6月の給与明細を取得
+  useEffect(() => {
+    if (tab !== 'annual' || employees.length === 0) return;
+    const fetchAnnualRows = async () => {
+      setIsLoading(true);
+      try {
+        const rows = await Promise.all(employees.map(async (employee): Promise<AnnualRow> => {
+          const months = await Promise.all(ANNUAL_MONTHS.map(month => fetchMonthlyRemuneration(employee, annualYear, month)));
+          const history = employee.socialInsurance?.standardRemunerations ?? [];
+          let excludedReason: string | null = null;
+          if (employee.joinDate >= `${annualYear}-06-01`) {
+            excludedReason = '6月1日以降の資格取得';
+          } else if (history.some(r => r.reason === 'REVISION' && r.effectiveFrom >= toYearMonth(annualYear, 7) && r.effectiveFrom <= toYearMonth(annualYear, 9))) {
+            excludedReason = '7〜9月に随時改定あり';
+          }
+          const average = calculateAnnualAverage(months.filter((m): m is MonthlyRemuneration => m !== null));
+          return { employee, months, average, excludedReason };
+        }));
+        setAnnualRows(rows);
+      } catch (error) {
+        logError('Failed to fetch payroll for annual determination:', error);
+        setAnnualRows([]);
+        setSnackbar({ message: '給与明細の取得に失敗しました', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchAnnualRows();
+  }, [tab, employees, annualYear]);
+
+  const annualEffectiveFrom = toYearMonth(annualYear, 9);
+
+  /** 従業員の標準報酬月額の履歴（この画面での登録結果を優先） */
+  const historyOf = (employee: EmployeeResponse): StandardRemunerationRecord[] =>
+    savedHistories[employee.id] ?? employee.socialInsurance?.standardRemunerations ?? [];
+
+  /** 未決定で決定可能な行 */
+  const pendingAnnualRows = useMemo(
+    () => annualRows.filter(row =>
+      row.excludedReason === null &&
+      row.average !== null &&
+      !(savedHistories[row.employee.id] ?? row.employee.socialInsurance?.standardRemunerations ?? [])
+        .some(r => r.effectiveFrom === annualEffectiveFrom)
+    ),
+    [annualRows, annualEffectiveFrom, savedHistories]
+  );
+
+  /** 決定結果を保存し、一覧の従業員情報を更新する */
+  const saveDecision = async (employee: EmployeeResponse, record: StandardRemunerationRecord): Promise<void> => {
+    const history = await addStandardRemuneration(employee.id, record);
+    setSavedHistories(prev => ({ ...prev, [employee.id]: history }));
+  };
+
+  const handleAnnualDecide = async (rows: AnnualRow[]) => {
+    setIsSaving(true);
+    try {
+      for (const row of rows) {
+        if (row.average === null) continue;
+        await saveDecision(row.employee, {
+          effectiveFrom: annualEffectiveFrom,
+          remuneration: row.average,
+          healthGrade: findStandardRemunerationGrade(row.average).healthGrade,
+          reason: 'ANNUAL'
+        });
+      }
+      setSnackbar({ message: `${rows.length}件の標準報酬月額を決定しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save annual determination:', error);
+      const errorMessage = error instanceof Error ? error.message : '標準報酬月額の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEvaluateRevision = async () => {
+    const employee = employees.find(e => e.id === revisionEmployeeId);
+    if (!employee || !revisionMonth) {
+      setSnackbar({ message: '従業員と固定的賃金の変動月を選択してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const [year, month] = revisionMonth.split('-').map(Number);
+      const targets = [0, 1, 2].map(offset => new Date(year, month - 1 + offset, 1));
+      const months = await Promise.all(targets.map(d => fetchMonthlyRemuneration(employee, d.getFullYear(), d.getMonth() + 1)));
+      const current = resolveStandardRemuneration(historyOf(employee), year, month);
+      const available = months.filter((m): m is MonthlyRemuneration => m !== null);
+      const evaluation = current
+        ? evaluateMonthlyRevision(current.healthGrade, available)
+        : { average: null, decision: null, gradeDifference: 0, required: false, effectiveFrom: null };
+      setRevisionResult({ ...evaluation, months, currentGrade: current?.healthGrade ?? null });
+    } catch (error) {
+      logError('Failed to evaluate monthly revision:', error);
+      setRevisionResult(null);
+      setSnackbar({ message: '給与明細の取得に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApplyRevision = async () => {
+    const employee = employees.find(e => e.id === revisionEmployeeId);
+    if (!employee || !revisionResult?.required || !revisionResult.decision || !revisionResult.effectiveFrom || revisionResult.average === null) return;
+    setIsSaving(true);
+    try {
+      await saveDecision(employee, {
+        effectiveFrom: revisionResult.effectiveFrom,
+        remuneration: revisionResult.average,
+        healthGrade: revisionResult.decision.healthGrade,
+        reason: 'REVISION'
+      });
+      setSnackbar({ message: `${formatYearMonth(revisionResult.effectiveFrom)}分から標準報酬月額を改定しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to save monthly revision:', error);
+      const errorMessage = error instanceof Error ? error.message : '標準報酬月額の登録に失敗しました';
+      setSnackbar({ message: errorMessage, type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    borderBottom: '1px solid #e5e7eb',
+    fontSize: fontSizes.medium,
+    whiteSpace: 'nowrap'
+  };
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    backgroundColor: '#f3f4f6',
+    fontWeight: 'bold',
+    textAlign: 'left'
+  };
+  const inputStyle: React.CSSProperties = {
+    padding: '0.5rem',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    fontSize: fontSizes.input
+  };
+
+  /** 月ごとの報酬セル（支払基礎日数が不足する月は灰色） */
+  const renderMonthCell = (m: MonthlyRemuneration | null, key: string | number) => (
+    <td key={key} style={{ ...cellStyle, textAlign: 'right', color: m && m.baseDays >= MIN_PAYMENT_BASE_DAYS ? '#1f2937' : '#9ca3af' }}>
+      {m ? (
+        <>
+          {formatCurrency(m.remuneration)}
+          <div style={{ fontSize: fontSizes.small }}>{m.baseDays}日</div>
+        </>
+      ) : '未登録'}
+    </td>
+  );
+
+  const revisionEmployee = employees.find(e => e.id === revisionEmployeeId);
+
+  return (
+    <div>
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      {(isLoading || isSaving) && <ProgressBar isLoading={true} />}
+      <h2 style={{
+        marginBottom: isMobile ? '1rem' : '1.4rem',
+        marginTop: isMobile ? '0.5rem' : '0.75rem',
+        fontSize: isMobile ? '1.25rem' : '1.05rem'
+      }}>
+        標準報酬月額管理
+      </h2>
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        <Button variant={tab === 'annual' ? 'primary' : 'secondary'} onClick={() => setTab('annual')}>
+          算定基礎届（定時決定）
+        </Button>
+        <Button variant={tab === 'revision' ? 'primary' : 'secondary'} onClick={() => setTab('revision')}>
+          月額変更届（随時改定）
+        </Button>
+      </div>
+
+      {tab === 'annual' ? (
+        <div>
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap' }}>
+            <select value={annualYear} onChange={(e) => setAnnualYear(Number(e.target.value))} style={inputStyle}>
+              {Array.from({ length: 5 }, (_, i) => today.getFullYear() - 3 + i).map(year => (
+                <option key={year} value={year}>{year}年</option>
+              ))}
+            </select>
+            <span style={{ fontSize: fontSizes.medium, color: '#4b5563' }}>
+              4〜6月の報酬（支払基礎日数{MIN_PAYMENT_BASE_DAYS}日以上の月）の平均で、{annualYear}年9月分からの等級を決定します。
+            </span>
+            <Button
+              variant="primary"
+              onClick={() => handleAnnualDecide(pendingAnnualRows)}
+              disabled={isSaving || !canEditSalary || pendingAnnualRows.length === 0}
+            >
+              一括決定（{pendingAnnualRows.length}件）
+            </Button>
+          </div>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', backgroundColor: 'white' }}>
+              <thead>
+                <tr>
+                  <th style={headerCellStyle}>従業員</th>
+                  {ANNUAL_MONTHS.map(month => <th key={month} style={{ ...headerCellStyle, textAlign: 'right' }}>{month}月</th>)}
+                  <th style={{ ...headerCellStyle, textAlign: 'right' }}>報酬月額</th>
+                  <th style={headerCellStyle}>従前</th>
+                  <th style={headerCellStyle}>決定</th>
+                  <th style={headerCellStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {annualRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} style={{ ...cellStyle, textAlign: 'center', color: '#6b7280' }}>
+                      {isLoading ? '読み込み中...' : '対象の従業員がいません'}
+                    </td>
+                  </tr>
+                ) : annualRows.map(row => {
+                  const history = historyOf(row.employee);
+                  const previous = resolveStandardRemuneration(history, annualYear, 8);
+                  const decided = history.find(r => r.effectiveFrom === annualEffectiveFrom);
+                  const decision = row.average !== null ? findStandardRemunerationGrade(row.average) : null;
+                  return (
+                    <tr key={row.employee.id}>
+                      <td style={cellStyle}>{employeeName(row.employee)}</td>
+                      {row.months.map((m, i) => renderMonthCell(m, i))}
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>{row.average !== null ? formatCurrency(row.average) : '-'}</td>
+                      <td style={cellStyle}>{previous ? formatGrade(previous.healthGrade) : '未登録'}</td>
+                      <td style={cellStyle}>
+                        {row.excludedReason ? (
+                          <span style={{ color: '#6b7280' }}>対象外（{row.excludedReason}）</span>
+                        ) : decision ? formatGrade(decision.healthGrade) : (
+                          <span style={{ color: '#6b7280' }}>対象月なし（従前の等級で決定）</span>
+                        )}
+                      </td>
+                      <td style={cellStyle}>
+                        {decided ? (
+                          <span style={{ color: '#16a34a', fontWeight: 'bold' }}>決定済</span>
+                        ) : row.excludedReason === null && row.average !== null ? (
+                          <Button variant="secondary" size="small" onClick={() => handleAnnualDecide([row])} disabled={isSaving || !canEditSalary}>
+                            決定
+                          </Button>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap' }}>
+            <select value={revisionEmployeeId} onChange={(e) => { setRevisionEmployeeId(e.target.value); setRevisionResult(null); }} style={inputStyle}>
+              <option value="">従業員を選択</option>
+              {employees.map(employee => (
+                <option key={employee.id} value={employee.id}>{employeeName(employee)}</option>
+              ))}
+            </select>
+            <label style={{ fontSize: fontSizes.medium }}>
+              固定的賃金の変動月{' '}
+              <input
+                type="month"
+                value={revisionMonth}
+                onChange={(e) => { setRevisionMonth(e.target.value); setRevisionResult(null); }}
+                style={inputStyle}
+              />
+            </label>
+            <Button variant="primary" onClick={handleEvaluateRevision} disabled={isLoading}>
+              判定
+            </Button>
+          </div>
+          <p style={{ margin: '0 0 1rem 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+            昇給・降給などで固定的賃金が変動した場合、変動後の賃金が支払われた月から3か月（いずれも支払基礎日数{MIN_PAYMENT_BASE_DAYS}日以上）の平均が従前と2等級以上異なると、4か月目から改定します。
+          </p>
+          {revisionResult && revisionEmployee && (
+            <div style={{ backgroundColor: '#f9fafb', padding: isMobile ? '1rem' : '1.5rem', borderRadius: '8px' }}>
+              <table style={{ borderCollapse: 'collapse', backgroundColor: 'white', marginBottom: '1rem' }}>
+                <thead>
+                  <tr>
+                    {revisionResult.months.map((_, i) => {
+                      const d = new Date(Number(revisionMonth.split('-')[0]), Number(revisionMonth.split('-')[1]) - 1 + i, 1);
+                      return <th key={i} style={{ ...headerCellStyle, textAlign: 'right' }}>{d.getFullYear()}年{d.getMonth() + 1}月</th>;
+                    })}
+                    <th style={{ ...headerCellStyle, textAlign: 'right' }}>平均</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    {revisionResult.months.map((m, i) => renderMonthCell(m, i))}
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>
+                      {revisionResult.average !== null ? formatCurrency(revisionResult.average) : '-'}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              <div style={{ fontSize: fontSizes.medium, marginBottom: '0.5rem' }}>
+                従前: {revisionResult.currentGrade !== null ? formatGrade(revisionResult.currentGrade) : '未登録'}
+              </div>
+              {revisionResult.decision && (
+                <div style={{ fontSize: fontSizes.medium, marginBottom: '0.5rem' }}>
+                  改定後: {formatGrade(revisionResult.decision.healthGrade)}（{revisionResult.gradeDifference > 0 ? '+' : ''}{revisionResult.gradeDifference}等級）
+                </div>
+              )}
+              <div style={{
+                fontWeight: 'bold',
+                marginBottom: '1rem',
+                color: revisionResult.required ? '#dc2626' : '#6b7280'
+              }}>
+                {revisionResult.currentGrade === null
+                  ? '標準報酬月額が未登録のため判定できません（従業員登録で資格取得時の標準報酬月額を登録してください）'
+                  : revisionResult.average === null
+                    ? '3か月とも給与明細が登録され、支払基礎日数が基準を満たしている必要があります'
+                    : revisionResult.required
+                      ? `月額変更届の対象です（${formatYearMonth(revisionResult.effectiveFrom ?? '')}分から改定）`
+                      : '2等級以上の変動がないため、月額変更届の対象外です'}
+              </div>
+              {revisionResult.required && (
+                <Button variant="primary" onClick={handleApplyRevision} disabled={isSaving || !canEditSalary}>
+                  改定を登録
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
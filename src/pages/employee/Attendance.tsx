@@ -8,12 +8,16 @@
  *   - 過去の打刻状況一覧表示
  *   - 日付範囲でのフィルタリング
  *   - 労働時間の自動計算
+ *   - 通信できない場所での打刻（端末の日時・位置情報を付けて端末に保存し、通信の回復後に自動で送信。送信待ち・送信済み・却下を表示）
+ *   - ホーム画面への追加の案内（ブラウザのインストールの案内、iPhone・iPadは共有メニューからの追加手順。ホーム画面から起動した場合は表示しない）
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useGeolocation } from '../../hooks/useGeolocation';
+import { useOfflineStampQueue } from '../../hooks/useOfflineStampQueue';
+import { useInstallPrompt } from '../../hooks/useInstallPrompt';
 import { Button, CancelButton, RegisterButton, DeleteButton, EditButton } from '../../components/Button';
 import { Snackbar } from '../../components/Snackbar';
 import { ProgressBar } from '../../components/ProgressBar';
@@ -32,8 +36,16 @@ import {
   Break as ApiBreak,
   BreakRequest,
   AttendanceSummary,
-  type DailyLaborRow
+  type DailyLaborRow,
+  type StampLocation
 } from '../../utils/attendanceApi';
+import {
+  getStatusAfterOfflineStamps,
+  isNetworkError,
+  OFFLINE_STAMP_TYPE_LABELS,
+  type OfflineStampStatus,
+  type OfflineStampType
+} from '../../utils/offlineStampQueue';
 import {
   getPayrollClosingYearMonthFromDate,
   enumeratePayrollPeriodDates,
@@ -42,15 +54,34 @@ import {
   getPayrollPeriodBounds,
   isDateInPayrollPeriod,
   computePayrollPeriodDayStats,
-  prescribedWorkingMinutesFromScheduledWeekdays
+  prescribedWorkingMinutesFromScheduledWeekdays,
+  listScheduledWorkDates,
+  resolvePayrollClosingDay,
+  describePayrollPeriodRule
 } from '../../utils/payrollPeriod';
 import { sumAttendanceTableColumnTotals } from '../../utils/attendanceTableTotals';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import { getHolidayName } from '../../utils/holidayCalendar';
+import { getLeaveRequestList } from '../../utils/leaveRequestApi';
+import { mergeHourlyPaidLeaveIntoDailyLabor } from '../../utils/hourlyPaidLeave';
 import { error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import { getUserInfo } from '../../config/apiConfig';
 import { getPaidLeaveBalance, PaidLeaveBalance } from '../../utils/paidLeaveApi';
-import { getEmployee } from '../../utils/employeeApi';
+import { getEmployee, type PrescribedWorkContract } from '../../utils/employeeApi';
 import { getWorkLocations } from '../../utils/workLocationApi';
+import { getMyShifts, type Shift } from '../../utils/shiftApi';
+import { formatShiftTimeRange } from '../../utils/shiftComparison';
+import { useOvertimeAgreements } from '../../hooks/useOvertimeAgreements';
+import {
+  aggregateMonthlyOvertime,
+  evaluateOvertimeLimits,
+  getOvertimeMonitorPeriod,
+  OVERTIME_LIMIT_LEVEL_LABELS,
+  type OvertimeLimitLevel,
+  type OvertimeLimitStatus
+} from '../../utils/overtimeLimit';
 
 /**
  * 休憩時間を表すインターフェース。
@@ -94,6 +125,13 @@ interface AttendanceLog {
   lateNightMinutes?: number;
 }
 
+/** 端末に保存した打刻の状態ごとの表示名と表示色 */
+const OFFLINE_STAMP_STATUS_BADGES: Record<OfflineStampStatus, { label: string; background: string; color: string }> = {
+  pending: { label: '送信待ち', background: '#fef3c7', color: '#92400e' },
+  synced: { label: '送信済み', background: '#d1fae5', color: '#065f46' },
+  rejected: { label: '却下', background: '#fee2e2', color: '#991b1b' }
+};
+
 /**
  * APIのAttendanceLogをUI用のAttendanceLogに変換
  * タイムゾーン管理ガイドに基づき、すべての時刻はJSTで統一
@@ -229,6 +267,14 @@ const calculateWorkTime = (log: AttendanceLog): string => {
  */
 type ViewMode = 'stamp' | 'edit' | 'list';
 
+/** 36協定の判定ごとのメーターの色 */
+const OVERTIME_LEVEL_BAR_COLORS: Record<OvertimeLimitLevel, string> = {
+  ok: '#10b981',
+  warning: '#f59e0b',
+  exceeded: '#ea580c',
+  violation: '#dc2626'
+};
+
 /**
  * 勤怠画面コンポーネント。
  * 従業員の出勤・退勤打刻、打刻修正、打刻履歴確認を行います。
@@ -261,6 +307,8 @@ export const Attendance: React.FC = () => {
   const [editBreaks, setEditBreaks] = useState<Break[]>([]);
   const [selectedLog, setSelectedLog] = useState<AttendanceLog | null>(null);
   const [now, setNow] = useState<Date>(new Date());
+  const { closingRules, isLoaded: isClosingRulesLoaded } = usePayrollClosingRules();
+  const { companyHolidays } = useCompanyHolidays();
   const initialClosingYm = getPayrollClosingYearMonthFromDate(new Date());
   const [selectedYear, setSelectedYear] = useState<number>(initialClosingYm.year);
   const [selectedMonth, setSelectedMonth] = useState<number>(initialClosingYm.month);
@@ -272,12 +320,61 @@ export const Attendance: React.FC = () => {
   const [missingClockOutError, setMissingClockOutError] = useState<{ date: string; clockIn: string } | null>(null);
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [workLocationId, setWorkLocationId] = useState<string | null | undefined>(undefined);
+  // 所定労働時間の契約履歴（規定稼働時間の算出用）
+  const [workContract, setWorkContract] = useState<{ contracts: PrescribedWorkContract[]; fallbackHours: number | null }>({
+    contracts: [],
+    fallbackHours: null
+  });
   // 有効な勤務拠点が1つでも登録されているか。登録がある場合は全従業員で打刻時の位置情報が必須になる
   // （バックエンドの位置チェックの発動条件と揃える）。
   const [hasActiveWorkLocation, setHasActiveWorkLocation] = useState<boolean>(false);
+  // 本日から2週間分の自分のシフト（打刻画面に表示）
+  const [upcomingShifts, setUpcomingShifts] = useState<Shift[]>([]);
+  // 当締め月の36協定の上限に対する時間外労働の状況（打刻画面に表示）
+  const [overtimeStatus, setOvertimeStatus] = useState<OvertimeLimitStatus | null>(null);
+  const { agreements: overtimeAgreements, isLoaded: isOvertimeAgreementsLoaded } = useOvertimeAgreements();
 
   const { getLocation, isLoading: isGeolocationLoading } = useGeolocation();
 
+  // 通信できない場所での打刻は端末に保存し、通信の回復後に送信する（送信後は最新の勤怠を取得して反映）
+  const {
+    stamps: offlineStamps,
+    hasPendingStamps,
+    isOnline,
+    isSyncing,
+    enqueue: enqueueOfflineStamp,
+    sync: syncOfflineStamps,
+    clearFinished: clearFinishedOfflineStamps
+  } = useOfflineStampQueue(getEmployeeId(), (result) => {
+    refreshAttendanceData();
+    if (result.rejected > 0) {
+      setSnackbar({ message: `端末に保存した打刻のうち${result.rejected}件が受け付けられませんでした。打刻修正から修正してください`, type: 'error' });
+      setTimeout(() => setSnackbar(null), 5000);
+    } else {
+      setSnackbar({ message: `端末に保存した打刻を${result.synced}件送信しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  });
+
+  // ホーム画面への追加の案内（ホーム画面から起動すると、ログイン済みなら打刻画面がすぐに表示される）
+  const {
+    installMethod,
+    shouldShowGuide: shouldShowInstallGuide,
+    install: installApp,
+    dismiss: dismissInstallGuide
+  } = useInstallPrompt();
+
+  /**
+   * ブラウザのインストールの案内を表示する。
+   */
+  const handleInstallApp = async () => {
+    const accepted = await installApp();
+    if (accepted) {
+      setSnackbar({ message: 'ホーム画面に追加しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
   // 従業員の勤務拠点と、勤務拠点マスタの登録有無を取得
   useEffect(() => {
     const employeeId = getEmployeeId();
@@ -286,6 +383,10 @@ export const Attendance: React.FC = () => {
       try {
         const employee = await getEmployee(employeeId);
         setWorkLocationId(employee.workLocationId ?? null);
+        setWorkContract({
+          contracts: employee.workContracts ?? [],
+          fallbackHours: employee.prescribedWorkHours ?? null
+        });
       } catch {
         setWorkLocationId(null);
       }
@@ -300,6 +401,58 @@ export const Attendance: React.FC = () => {
     fetchEmployeeAndWorkLocations();
   }, [getEmployeeId]);
 
+  // 打刻画面表示時に、本日から2週間分の自分のシフトを取得
+  useEffect(() => {
+    if (viewMode !== 'stamp') return;
+    let cancelled = false;
+    (async () => {
+      const toYmd = (d: Date) =>
+        `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+      const start = new Date();
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 13);
+      try {
+        const response = await getMyShifts(toYmd(start), toYmd(end));
+        if (!cancelled) {
+          setUpcomingShifts([...response.shifts].sort((a, b) => a.workDate.localeCompare(b.workDate)));
+        }
+      } catch (error) {
+        // シフトは補助情報のため、失敗しても打刻は行えるようにする
+        if (!cancelled) setUpcomingShifts([]);
+        logError('Failed to fetch upcoming shifts:', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode]);
+
+  // 打刻画面表示時に、当締め月の36協定の上限に対する時間外労働を集計
+  useEffect(() => {
+    if (viewMode !== 'stamp' || !isClosingRulesLoaded || !isOvertimeAgreementsLoaded) return;
+    const employeeId = getEmployeeId();
+    if (!employeeId) return;
+    let cancelled = false;
+    (async () => {
+      const { year, month } = getPayrollClosingYearMonthFromDate(new Date(), closingRules);
+      const period = getOvertimeMonitorPeriod(overtimeAgreements, year, month, closingRules);
+      try {
+        const response = await getAttendanceList(employeeId, period.startDate, period.endDate);
+        if (cancelled) return;
+        const records = aggregateMonthlyOvertime(response.logs, closingRules, companyHolidays);
+        setOvertimeStatus(
+          evaluateOvertimeLimits(records, `${year}-${String(month).padStart(2, '0')}`, overtimeAgreements)
+        );
+      } catch (error) {
+        // 上限の表示は補助情報のため、失敗しても打刻は行えるようにする
+        if (!cancelled) setOvertimeStatus(null);
+        logError('Failed to fetch overtime status:', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, getEmployeeId, closingRules, isClosingRulesLoaded, companyHolidays, overtimeAgreements, isOvertimeAgreementsLoaded]);
+
   // 有給残高（残日数・次回失効・付与ごとの繰越と有効期限）を取得。取得時にサーバー側で自動付与が冪等同期される。
   useEffect(() => {
     const employeeId = getEmployeeId();
@@ -415,12 +568,23 @@ export const Attendance: React.FC = () => {
     fetchTodayAttendance();
   }, [viewMode, getEmployeeId]); // viewModeが'stamp'の時に実行
 
+  // 締め日設定の取得後、本日が属する締め月を初期表示にする（25日締め以外の会社で月がずれるのを防ぐ）
+  useEffect(() => {
+    if (!isClosingRulesLoaded) return;
+    const closingYm = getPayrollClosingYearMonthFromDate(new Date(), closingRules);
+    setSelectedYear(closingYm.year);
+    setSelectedMonth(closingYm.month);
+  }, [isClosingRulesLoaded, closingRules]);
+
   // 出勤簿タブ：検索年月で勤怠記録一覧取得APIを呼び出す
   useEffect(() => {
     const fetchMonthAttendance = async () => {
       if (viewMode !== 'list') {
         return; // 出勤簿タブでない場合は実行しない
       }
+      if (!isClosingRulesLoaded) {
+        return; // 締め日設定の取得完了まで期間が確定しない
+      }
 
       const employeeId = getEmployeeId();
       if (!employeeId) {
@@ -433,7 +597,7 @@ export const Attendance: React.FC = () => {
       try {
         setIsLoading(true);
 
-        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth);
+        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
         const prevMonth = selectedMonth === 1 ? 12 : selectedMonth - 1;
         const prevYear = selectedMonth === 1 ? selectedYear - 1 : selectedYear;
         const yearStr = String(selectedYear);
@@ -441,9 +605,11 @@ export const Attendance: React.FC = () => {
         const prevYearStr = String(prevYear);
         const prevMonthStr = String(prevMonth).padStart(2, '0');
 
-        const [prevRes, currentRes] = await Promise.all([
+        const [prevRes, currentRes, leaveRequests] = await Promise.all([
           getAttendanceMyRecords(prevYearStr, prevMonthStr, employeeId),
-          getAttendanceMyRecords(yearStr, monthStr, employeeId)
+          getAttendanceMyRecords(yearStr, monthStr, employeeId),
+          // 時間単位の有給の合算に使う。取得できなくても出勤簿は表示する
+          getLeaveRequestList(employeeId).then(response => response.requests).catch(() => [])
         ]);
 
         const filterPeriod = (log: ApiAttendanceLog) => {
@@ -452,7 +618,13 @@ export const Attendance: React.FC = () => {
         };
         const periodLogs = [...(prevRes.logs || []), ...(currentRes.logs || [])].filter(filterPeriod);
 
-        const combinedDaily = [...(prevRes.dailyLabor ?? []), ...(currentRes.dailyLabor ?? [])];
+        // 時間単位の有給は日数換算ではなく取得時間数で打刻に合算する
+        const stamps = Object.fromEntries(periodLogs.map(log => [log.workDate, { clockIn: log.clockIn, clockOut: log.clockOut }]));
+        const combinedDaily = mergeHourlyPaidLeaveIntoDailyLabor(
+          [...(prevRes.dailyLabor ?? []), ...(currentRes.dailyLabor ?? [])],
+          leaveRequests,
+          stamps
+        );
         const laborMap: Record<string, DailyLaborRow> = {};
         combinedDaily
           .filter(d => d.workDate >= startDate && d.workDate <= endDate)
@@ -487,7 +659,7 @@ export const Attendance: React.FC = () => {
     };
 
     fetchMonthAttendance();
-  }, [viewMode, selectedYear, selectedMonth, getEmployeeId]); // viewModeが'list'の時、またはselectedYear/selectedMonthが変更された時に実行
+  }, [viewMode, selectedYear, selectedMonth, getEmployeeId, isClosingRulesLoaded, closingRules]); // viewModeが'list'の時、またはselectedYear/selectedMonthが変更された時に実行
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -672,8 +844,8 @@ export const Attendance: React.FC = () => {
         setTodayLog(logData);
       }
 
-      if (isDateInPayrollPeriod(searchDate, selectedYear, selectedMonth)) {
-        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth);
+      if (isDateInPayrollPeriod(searchDate, selectedYear, selectedMonth, closingRules)) {
+        const { startDate, endDate } = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
         const monthResponse = await getAttendanceList(employeeId, startDate, endDate);
         const convertedMonthLogs = monthResponse.logs.map(apiLog => convertApiLogToUiLog(apiLog));
         setLogs(convertedMonthLogs);
@@ -683,7 +855,45 @@ export const Attendance: React.FC = () => {
     }
   };
 
+  /**
+   * 打刻を送信する。オフラインの時、送信待ちの打刻がある時（打刻の順番を守るため）、通信できずに送信できなかった時は、
+   * 打刻した日時と位置情報を付けて端末に保存し、通信の回復後に送信する。
+   *
+   * @param {OfflineStampType} type - 打刻の種類。
+   * @param {Date} pressedAt - 打刻ボタンを押した日時。
+   * @param {StampLocation | undefined} location - 位置情報。
+   * @returns {Promise<boolean>} 送信した場合は true、端末に保存した場合は false。
+   */
+  const submitStamp = async (type: OfflineStampType, pressedAt: Date, location: StampLocation | undefined): Promise<boolean> => {
+    if (!navigator.onLine || hasPendingStamps) {
+      enqueueOfflineStamp(type, location ?? null, pressedAt);
+      return false;
+    }
+    try {
+      if (type === 'clockIn') await clockIn(location);
+      else if (type === 'clockOut') await clockOut(location);
+      else if (type === 'startBreak') await startBreak();
+      else await endBreak();
+      return true;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      enqueueOfflineStamp(type, location ?? null, pressedAt);
+      return false;
+    }
+  };
+
+  /**
+   * 打刻を端末に保存したことを知らせる。
+   *
+   * @param {OfflineStampType} type - 打刻の種類。
+   */
+  const notifyQueuedStamp = (type: OfflineStampType) => {
+    setSnackbar({ message: `${OFFLINE_STAMP_TYPE_LABELS[type]}の打刻を端末に保存しました。通信が回復すると自動で送信します`, type: 'success' });
+    setTimeout(() => setSnackbar(null), 3000);
+  };
+
   const handleClockIn = async () => {
+    const pressedAt = new Date();
     try {
       const employeeId = getEmployeeId();
       if (!employeeId) {
@@ -720,7 +930,10 @@ export const Attendance: React.FC = () => {
         }
       }
 
-      await clockIn(stampLocation);
+      if (!(await submitStamp('clockIn', pressedAt, stampLocation))) {
+        notifyQueuedStamp('clockIn');
+        return;
+      }
 
       // 最新の勤怠データを取得して反映
       await refreshAttendanceData();
@@ -736,7 +949,8 @@ export const Attendance: React.FC = () => {
   };
 
   const handleClockOut = async () => {
-    if (!todayLog) {
+    const pressedAt = new Date();
+    if (!todayLog && !hasPendingStamps) {
       setSnackbar({ message: '出勤打刻がされていません', type: 'error' });
       setTimeout(() => setSnackbar(null), 3000);
       return;
@@ -778,7 +992,10 @@ export const Attendance: React.FC = () => {
         }
       }
 
-      await clockOut(stampLocation);
+      if (!(await submitStamp('clockOut', pressedAt, stampLocation))) {
+        notifyQueuedStamp('clockOut');
+        return;
+      }
 
       // 最新の勤怠データを取得して反映
       await refreshAttendanceData();
@@ -869,19 +1086,19 @@ export const Attendance: React.FC = () => {
     return logs.find(log => log.date === date);
   };
 
-  const payrollPeriodBounds = getPayrollPeriodBounds(selectedYear, selectedMonth);
+  const payrollPeriodBounds = getPayrollPeriodBounds(selectedYear, selectedMonth, closingRules);
 
-  // 出勤簿は給与期間（前月26日〜当月25日）の日付を列挙
-  const calendarDays = enumeratePayrollPeriodDates(selectedYear, selectedMonth).map(ymd => ({
+  // 出勤簿は給与期間（締め日設定に従う）の日付を列挙
+  const calendarDays = enumeratePayrollPeriodDates(selectedYear, selectedMonth, closingRules).map(ymd => ({
     date: ymd,
     day: Number(ymd.slice(8, 10)),
     isCurrentMonth: true
   }));
 
   const tableTotals = useMemo(() => {
-    const dates = enumeratePayrollPeriodDates(selectedYear, selectedMonth);
+    const dates = enumeratePayrollPeriodDates(selectedYear, selectedMonth, closingRules);
     return sumAttendanceTableColumnTotals(dates, dailyLaborByDate, d => logs.find(l => l.date === d));
-  }, [selectedYear, selectedMonth, dailyLaborByDate, logs]);
+  }, [selectedYear, selectedMonth, closingRules, dailyLaborByDate, logs]);
 
   const monthLogs = logs.filter(
     log => log.date >= payrollPeriodBounds.startDate && log.date <= payrollPeriodBounds.endDate
@@ -892,9 +1109,16 @@ export const Attendance: React.FC = () => {
     const dayStats = computePayrollPeriodDayStats(
       logs,
       payrollPeriodBounds.startDate,
-      payrollPeriodBounds.endDate
+      payrollPeriodBounds.endDate,
+      companyHolidays
     );
     const { workingDays, weekdayWorkDays, holidayWorkingDays, prescribedWorkingDays } = dayStats;
+    // 所定労働日ごとに、その日に適用される契約の所定労働時間を合計（期間途中の契約変更に対応）
+    const prescribedWorkingMinutes = prescribedWorkingMinutesFromScheduledWeekdays(
+      listScheduledWorkDates(payrollPeriodBounds.startDate, payrollPeriodBounds.endDate, companyHolidays),
+      workContract.contracts,
+      workContract.fallbackHours
+    );
     const absenceDays = 0; // 欠勤日数（実装が必要な場合は追加）
 
     // サマリー未取得時のフォールバック：ログから集計（API仕様の区分に近づける）
@@ -924,7 +1148,8 @@ export const Attendance: React.FC = () => {
       totalWorkTime: `${String(workHours).padStart(2, '0')}:${String(workMins).padStart(2, '0')}`,
       totalNormalOvertime: `${String(otH).padStart(2, '0')}:${String(otM).padStart(2, '0')}`,
       totalLateNightOvertime: `${String(lnH).padStart(2, '0')}:${String(lnM).padStart(2, '0')}`,
-      prescribedWorkingDays
+      prescribedWorkingDays,
+      prescribedWorkingMinutes
     };
   };
 
@@ -941,7 +1166,8 @@ export const Attendance: React.FC = () => {
   
   // ステータスはcurrentLogのstatusを優先（currentLogが存在しない場合のみ「未出勤」）
   // 5時以降でも、既に退勤済みの場合は「退勤済み」と表示する
-  const currentStatus: AttendanceLog['status'] = currentLog?.status || '未出勤';
+  // 端末に保存した送信待ちの打刻がある場合は、その打刻の後のステータスにする
+  const currentStatus: AttendanceLog['status'] = getStatusAfterOfflineStamps(currentLog?.status || '未出勤', offlineStamps);
 
   // ステータスに応じたメッセージと色を取得
   const getStatusMessage = (status: AttendanceLog['status']): string => {
@@ -1249,19 +1475,11 @@ export const Attendance: React.FC = () => {
             </button>
             <button
               onClick={async () => {
-                if (!currentLog?.clockIn) {
-                  return;
-                }
-                if (currentLog.clockOut) {
+                // 出勤中（退勤前で、最後の休憩が終了している）の場合のみ休憩を開始できる。送信待ちの打刻も反映して判定する
+                if (currentStatus !== '出勤中') {
                   return;
                 }
-                // 最後の休憩が終了していない場合は休憩終了を促す
-                const lastBreak = currentLog.breaks && currentLog.breaks.length > 0 
-                  ? currentLog.breaks[currentLog.breaks.length - 1] 
-                  : null;
-                if (lastBreak && !lastBreak.end) {
-                  return; // 最後の休憩が終了していない場合は新しい休憩を開始できない
-                }
+                const pressedAt = new Date();
                 try {
                   // API仕様書に基づき、リクエストボディは不要です（日付と時刻はサーバー側で自動的に取得されます）
                   const employeeId = getEmployeeId();
@@ -1271,7 +1489,10 @@ export const Attendance: React.FC = () => {
                     return;
                   }
 
-                  await startBreak();
+                  if (!(await submitStamp('startBreak', pressedAt, undefined))) {
+                    notifyQueuedStamp('startBreak');
+                    return;
+                  }
 
                   // 最新の勤怠データを取得して反映
                   await refreshAttendanceData();
@@ -1321,6 +1542,7 @@ export const Attendance: React.FC = () => {
                 if (currentStatus !== '休憩中') {
                   return;
                 }
+                const pressedAt = new Date();
                 try {
                   // API仕様書に基づき、リクエストボディは不要です（日付と時刻はサーバー側で自動的に取得されます）
                   const employeeId = getEmployeeId();
@@ -1330,7 +1552,10 @@ export const Attendance: React.FC = () => {
                     return;
                   }
 
-                  await endBreak();
+                  if (!(await submitStamp('endBreak', pressedAt, undefined))) {
+                    notifyQueuedStamp('endBreak');
+                    return;
+                  }
 
                   // 最新の勤怠データを取得して反映
                   await refreshAttendanceData();
@@ -1376,6 +1601,120 @@ export const Attendance: React.FC = () => {
               休憩終了
             </button>
           </div>
+          {(!isOnline || offlineStamps.length > 0) && (
+            <div style={{
+              marginTop: '1rem',
+              padding: '0.75rem',
+              backgroundColor: 'white',
+              border: `1px solid ${isOnline ? '#e5e7eb' : '#fcd34d'}`,
+              borderRadius: '8px',
+              textAlign: 'left'
+            }}>
+              {!isOnline && (
+                <div style={{ color: '#92400e', fontSize: fontSizes.small, marginBottom: offlineStamps.length > 0 ? '0.5rem' : 0 }}>
+                  オフラインです。打刻は端末に保存し、通信が回復すると自動で送信します。
+                </div>
+              )}
+              {offlineStamps.length > 0 && (
+                <>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+                    <span style={{ fontWeight: 'bold', fontSize: fontSizes.small }}>
+                      端末に保存した打刻{isSyncing ? '（送信中...）' : ''}
+                    </span>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      {hasPendingStamps && isOnline && (
+                        <Button
+                          variant="secondary"
+                          onClick={() => syncOfflineStamps()}
+                          disabled={isSyncing}
+                          style={{ padding: '0.25rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                        >
+                          今すぐ送信
+                        </Button>
+                      )}
+                      {offlineStamps.some(stamp => stamp.status !== 'pending') && (
+                        <Button
+                          variant="secondary"
+                          onClick={clearFinishedOfflineStamps}
+                          style={{ padding: '0.25rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                        >
+                          送信済み・却下を消去
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                    {offlineStamps.map(stamp => {
+                      const badge = OFFLINE_STAMP_STATUS_BADGES[stamp.status];
+                      return (
+                        <li key={stamp.id} style={{ fontSize: fontSizes.small, color: '#1f2937' }}>
+                          <span style={{
+                            display: 'inline-block',
+                            minWidth: '4.5rem',
+                            padding: '0.125rem 0.5rem',
+                            marginRight: '0.5rem',
+                            borderRadius: '4px',
+                            backgroundColor: badge.background,
+                            color: badge.color,
+                            fontSize: fontSizes.badge,
+                            fontWeight: 'bold',
+                            textAlign: 'center'
+                          }}>
+                            {badge.label}
+                          </span>
+                          {formatDate(stamp.stampedAt.slice(0, 10))} {stamp.stampedAt.slice(11, 16)} {OFFLINE_STAMP_TYPE_LABELS[stamp.type]}
+                          {!stamp.location && (stamp.type === 'clockIn' || stamp.type === 'clockOut') && (
+                            <span style={{ color: '#6b7280' }}>（位置情報なし）</span>
+                          )}
+                          {stamp.status === 'rejected' && stamp.message && (
+                            <div style={{ color: '#991b1b', marginTop: '0.125rem' }}>
+                              {stamp.message}（打刻修正から修正してください）
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+          {shouldShowInstallGuide && !employeeIdParam && (
+            <div style={{
+              marginTop: '1rem',
+              padding: '0.75rem',
+              backgroundColor: '#eff6ff',
+              border: '1px solid #bfdbfe',
+              borderRadius: '8px',
+              textAlign: 'left',
+              fontSize: fontSizes.small
+            }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '0.25rem' }}>ホーム画面に追加</div>
+              <div style={{ color: '#1f2937', marginBottom: '0.5rem' }}>
+                {installMethod === 'ios'
+                  ? 'Safariの共有ボタン（□に↑）から「ホーム画面に追加」を選ぶと、次回からホーム画面のアイコンで打刻画面をすぐに開けます。'
+                  : 'ホーム画面に追加すると、次回からブラウザを開かずにアイコンから打刻画面をすぐに開けます（ログインの有効期間内はログイン不要）。'}
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                {installMethod === 'prompt' && (
+                  <Button
+                    variant="primary"
+                    onClick={handleInstallApp}
+                    style={{ padding: '0.25rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                  >
+                    ホーム画面に追加
+                  </Button>
+                )}
+                <Button
+                  variant="secondary"
+                  onClick={dismissInstallGuide}
+                  style={{ padding: '0.25rem 0.75rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}
+                >
+                  今後表示しない
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
         <div style={{
           backgroundColor: '#f9fafb',
@@ -1508,6 +1847,93 @@ export const Attendance: React.FC = () => {
             )}
           </div>
         </div>
+        {/* 今後のシフト */}
+        <div style={{
+          backgroundColor: '#f9fafb',
+          padding: isMobile ? '1.5rem' : '1rem',
+          borderRadius: '8px',
+          marginTop: '1rem'
+        }}>
+          <h3 style={{ marginBottom: '1rem', fontSize: fontSizes.medium }}>
+            今後のシフト（2週間）
+          </h3>
+          {upcomingShifts.length === 0 ? (
+            <p style={{ color: '#6b7280', textAlign: 'center' }}>予定されているシフトはありません</p>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {upcomingShifts.map(shift => (
+                <div
+                  key={shift.id}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    padding: '0.5rem 0.75rem',
+                    backgroundColor: 'white',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.medium
+                  }}
+                >
+                  <span style={{ color: getHolidayName(shift.workDate, companyHolidays) ? '#dc2626' : '#1f2937' }}>
+                    {formatDate(shift.workDate)}
+                  </span>
+                  <span style={{ fontWeight: 'bold' }}>{formatShiftTimeRange(shift)}</span>
+                  {shift.memo && (
+                    <span style={{ color: '#6b7280', fontSize: fontSizes.small }}>{shift.memo}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        {/* 時間外労働（36協定） */}
+        {overtimeStatus && (
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1.5rem' : '1rem',
+            borderRadius: '8px',
+            marginTop: '1rem'
+          }}>
+            <h3 style={{ marginBottom: '1rem', fontSize: fontSizes.medium, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              時間外労働（36協定）
+              <span style={{
+                padding: '0.125rem 0.5rem',
+                borderRadius: '9999px',
+                fontSize: fontSizes.badge,
+                backgroundColor: OVERTIME_LEVEL_BAR_COLORS[overtimeStatus.level],
+                color: 'white'
+              }}>
+                {OVERTIME_LIMIT_LEVEL_LABELS[overtimeStatus.level]}
+              </span>
+            </h3>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {overtimeStatus.checks.map(check => {
+                const formatValue = (value: number) =>
+                  check.unit === 'times' ? `${value}回` : formatMinutesToTime(value);
+                const percent = check.limit > 0 ? Math.min(100, (check.value / check.limit) * 100) : 0;
+                return (
+                  <div key={check.label} style={{ fontSize: fontSizes.medium }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.25rem' }}>
+                      <span>{check.label}</span>
+                      <span style={{ fontWeight: 'bold', color: check.level === 'ok' ? '#1f2937' : OVERTIME_LEVEL_BAR_COLORS[check.level] }}>
+                        {formatValue(check.value)} / {formatValue(check.limit)}
+                      </span>
+                    </div>
+                    <div style={{ height: '8px', backgroundColor: '#e5e7eb', borderRadius: '9999px', overflow: 'hidden' }}>
+                      <div style={{
+                        width: `${percent}%`,
+                        height: '100%',
+                        backgroundColor: OVERTIME_LEVEL_BAR_COLORS[check.level]
+                      }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
         </div>
       </div>
       )}
@@ -1705,7 +2131,7 @@ export const Attendance: React.FC = () => {
             fontSize: fontSizes.medium,
             color: '#4b5563'
           }}>
-            対象期間（前月26日〜当月25日）: {formatPayrollPeriodRangeJapanese(selectedYear, selectedMonth)}
+            対象期間（{describePayrollPeriodRule(resolvePayrollClosingDay(selectedYear, selectedMonth, closingRules))}）: {formatPayrollPeriodRangeJapanese(selectedYear, selectedMonth, closingRules)}
           </p>
           <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
                 <button
@@ -1943,11 +2369,9 @@ export const Attendance: React.FC = () => {
               </h4>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>規定稼働時間（所定労働日数×7:30）:</span>
+                  <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>規定稼働時間（所定労働日数×所定労働時間）:</span>
                   <span style={{ fontSize: fontSizes.medium, fontWeight: 'bold' }}>
-                    {formatMinutesToTime(
-                      prescribedWorkingMinutesFromScheduledWeekdays(statistics.prescribedWorkingDays)
-                    )}
+                    {formatMinutesToTime(statistics.prescribedWorkingMinutes)}
                   </span>
                 </div>
                 <div style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -2151,8 +2575,10 @@ export const Attendance: React.FC = () => {
                     const dl = dailyLaborByDate[calendarDay.date];
                     const date = new Date(calendarDay.date);
                     const dayOfWeek = date.getDay();
-                    const isSunday = dayOfWeek === 0;
-                    const isSaturday = dayOfWeek === 6;
+                    // 祝日・会社休日は日曜と同じ配色で表示する
+                    const holidayName = getHolidayName(calendarDay.date, companyHolidays);
+                    const isSunday = dayOfWeek === 0 || holidayName !== null;
+                    const isSaturday = dayOfWeek === 6 && holidayName === null;
                     // 退勤打刻がない日付かチェック
                     const needsCorrection = missingClockOutDates.includes(calendarDay.date);
                     
@@ -2243,6 +2669,11 @@ export const Attendance: React.FC = () => {
                         }}>
                           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
                             {formatDate(calendarDay.date)}
+                            {holidayName && (
+                              <span style={{ fontSize: fontSizes.small, fontWeight: 'normal' }}>
+                                {holidayName}
+                              </span>
+                            )}
                             {needsCorrection && (
                               <>
                                 <WarningIcon size={18} color="#f59e0b" />
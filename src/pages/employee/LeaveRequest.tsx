@@ -3,7 +3,8 @@
  * 画面名: 有給申請画面
  * 説明: 従業員の有給申請、有給残日数確認、過去の取得履歴確認を行う画面
  * 機能:
- *   - 有給申請（全休暇/半休の選択可能）
+ *   - 有給申請（全休暇/半休/時間単位の選択可能。時間単位は年5日分まで）
+ *   - 休暇種別マスタの休暇（代休・振替休日・慶弔休暇など）の申請と、種別ごとの規則（残日数・振替元・日数上限）の確認
  *   - 有給残日数の確認（有給期限表示）
  *   - 過去の有給取得履歴の確認
  *   - 申請履歴の表示
@@ -16,20 +17,43 @@ import { ProgressBar } from '../../components/ProgressBar';
 import { Button, ApplyButton, CancelApprovalButton, EditButton } from '../../components/Button';
 import { getCurrentFiscalYear, isInFiscalYear } from '../../utils/fiscalYear';
 import { fontSizes } from '../../config/fontSizes';
-import { getLeaveTypes, getRequestStatusStyle } from '../../config/masterData';
+import { getRequestStatusStyle } from '../../config/masterData';
 import { formatDate } from '../../utils/formatters';
 import { ConfirmModal } from '../../components/ConfirmModal';
 import { 
   getLeaveRequestList, 
   createLeaveRequest, 
   updateLeaveRequest, 
-  deleteLeaveRequest
+  deleteLeaveRequest,
+  type LeaveRequest as ApiLeaveRequest
 } from '../../utils/leaveRequestApi';
 import { error as logError } from '../../utils/logger';
 import { translateApiError } from '../../utils/apiErrorTranslator';
 import { getLeaveTypeLabel, getLeaveRequestStatusLabel, getLeaveTypeCodeFromLabel } from '../../utils/codeTranslator';
 import { getUserInfo } from '../../config/apiConfig';
 import { getPaidLeaveBalance, PaidLeaveBalance } from '../../utils/paidLeaveApi';
+import { getEmployee, type PrescribedWorkContract } from '../../utils/employeeApi';
+import { resolvePrescribedWorkMinutesPerDay } from '../../utils/payrollPeriod';
+import { getAttendanceList, isHolidayWorkLog } from '../../utils/attendanceApi';
+import { useLeaveTypes } from '../../hooks/useLeaveTypes';
+import { useCompanyHolidays } from '../../hooks/useCompanyHolidays';
+import {
+  calculateCompensatoryLeaveBalance,
+  validateLeaveRequestRule,
+  addDaysToYmd,
+  COMPENSATORY_LEAVE_LOOKBACK_DAYS,
+  type LeaveBalanceRequestLike
+} from '../../utils/leaveBalance';
+import {
+  getHourlyLeaveHoursPerDay,
+  calculateHourlyLeaveHours,
+  hourlyLeaveToDays,
+  formatPaidLeaveDaysAndHours,
+  allocatePaidLeaveHours,
+  getHourlyLeaveCapStatus,
+  HOURLY_PAID_LEAVE_MAX_DAYS_PER_YEAR,
+  type HourlyLeaveRequestLike
+} from '../../utils/hourlyPaidLeave';
 
 /**
  * 休暇申請を表すインターフェース。
@@ -45,14 +69,24 @@ interface LeaveRequest {
   endDate: string;
   /** 日数。 */
   days: number;
-  /** 休暇種別。 */
-  type: '有給' | '特別休暇' | '病気休暇' | '欠勤' | 'その他';
+  /** 休暇種別（表示名。組み込みの種別または休暇種別マスタの名称）。 */
+  type: string;
   /** 理由。 */
   reason: string;
   /** 申請ステータス。 */
   status: '申請中' | '承認' | '削除済み';
   /** 半休かどうか。 */
   isHalfDay?: boolean;
+  /** 時間単位の有給かどうか。 */
+  isHourly?: boolean;
+  /** 時間単位の開始時刻（HH:MM）。 */
+  startTime?: string;
+  /** 時間単位の終了時刻（HH:MM）。 */
+  endTime?: string;
+  /** 時間単位の取得時間数。 */
+  hours?: number;
+  /** 振替休日の振替元の休日出勤日。 */
+  substituteWorkDate?: string;
 }
 
 /**
@@ -60,6 +94,28 @@ interface LeaveRequest {
  */
 type ViewMode = 'apply' | 'history' | 'edit';
 
+/**
+ * APIの休暇申請から時間単位の項目を取り出す。
+ *
+ * @param {ApiLeaveRequest} req - APIの休暇申請。
+ * @returns {Pick<LeaveRequest, 'isHourly' | 'startTime' | 'endTime' | 'hours'>} 時間単位の項目。
+ */
+const hourlyFieldsOf = (req: ApiLeaveRequest): Pick<LeaveRequest, 'isHourly' | 'startTime' | 'endTime' | 'hours'> => ({
+  isHourly: req.isHourly ?? false,
+  startTime: req.startTime ?? undefined,
+  endTime: req.endTime ?? undefined,
+  hours: req.hours ?? undefined
+});
+
+/**
+ * 画面の申請ステータスをAPIのステータスに戻す。
+ *
+ * @param {LeaveRequest['status']} status - 画面の申請ステータス。
+ * @returns {ApiLeaveRequest['status']} APIのステータス。
+ */
+const toApiStatus = (status: LeaveRequest['status']): ApiLeaveRequest['status'] =>
+  status === '承認' ? 'approved' : status === '申請中' ? 'pending' : 'deleted';
+
 /**
  * 有給申請画面コンポーネント。
  * 従業員の有給申請、有給残日数確認、過去の取得履歴確認を行います。
@@ -97,8 +153,33 @@ export const LeaveRequest: React.FC = () => {
     fetchPaidLeaveBalance();
   }, []);
 
-  // APIから休暇申請一覧を取得
+  /** 所定労働時間の契約（時間単位の有給の1日分の時間数に使用） */
+  const [workContract, setWorkContract] = useState<{ contracts: PrescribedWorkContract[]; fallbackHours: number | null }>({
+    contracts: [],
+    fallbackHours: null
+  });
+
   useEffect(() => {
+    const employeeId = getEmployeeId();
+    if (!employeeId) return;
+    const fetchWorkContract = async () => {
+      try {
+        const employee = await getEmployee(employeeId);
+        setWorkContract({ contracts: employee.workContracts ?? [], fallbackHours: employee.prescribedWorkHours ?? null });
+      } catch (error) {
+        // 取得できない場合は既定の所定労働時間（7:30）で換算する
+        logError('Failed to fetch employee work contract:', error);
+      }
+    };
+    fetchWorkContract();
+  }, []);
+
+  const { options: leaveTypeOptions, leaveTypeMasters, isLoaded: leaveTypesLoaded } = useLeaveTypes();
+  const { companyHolidays } = useCompanyHolidays();
+
+  // APIから休暇申請一覧を取得（休暇種別マスタの名称で表示するため、種別の取得後に行う）
+  useEffect(() => {
+    if (!leaveTypesLoaded) return;
     const fetchLeaveRequests = async () => {
       setIsLoading(true);
       try {
@@ -111,7 +192,7 @@ export const LeaveRequest: React.FC = () => {
           return;
         }
         const response = await getLeaveRequestList(employeeId);
-        // APIから返される英語コード（paid, special, sick, absence, other）を日本語に変換
+        // APIから返される英語コード（paid, special, sick, absence, other、休暇種別マスタのコード）を日本語に変換
         // APIから返されるステータスコード（pending, approved, rejected, deleted）を日本語に変換
         const convertedRequests: LeaveRequest[] = response.requests.map(req => ({
           id: req.id || (req as unknown as { leaveRequestId?: string }).leaveRequestId || '', // idがundefinedの場合、leaveRequestIdをフォールバックとして使用
@@ -119,10 +200,12 @@ export const LeaveRequest: React.FC = () => {
           startDate: req.startDate,
           endDate: req.endDate,
           days: req.days,
-          type: getLeaveTypeLabel(req.leaveType) as LeaveRequest['type'], // 英語コード→日本語
+          type: getLeaveTypeLabel(req.leaveType), // 英語コード→日本語
           reason: req.reason,
           status: (req.status === 'rejected' ? '削除済み' : getLeaveRequestStatusLabel(req.status)) as LeaveRequest['status'], // 英語コード→日本語（rejectedは「取消」として扱うが、UIでは「削除済み」として表示）
-          isHalfDay: req.isHalfDay
+          isHalfDay: req.isHalfDay,
+          substituteWorkDate: req.substituteWorkDate ?? undefined,
+          ...hourlyFieldsOf(req)
         }));
         setRequests(convertedRequests);
       } catch (error) {
@@ -136,14 +219,14 @@ export const LeaveRequest: React.FC = () => {
     };
 
     fetchLeaveRequests();
-  }, [searchFiscalYear]);
-  const leaveTypes = getLeaveTypes();
+  }, [searchFiscalYear, leaveTypesLoaded]);
+  const defaultLeaveType = leaveTypeOptions[0]?.label || '有給';
   const [formData, setFormData] = useState<Omit<LeaveRequest, 'id' | 'status'>>({
     employeeId: getEmployeeId() || '',
     startDate: '',
     endDate: '',
     days: 0,
-    type: (leaveTypes[0]?.code || '有給') as LeaveRequest['type'],
+    type: defaultLeaveType,
     reason: '',
     isHalfDay: false
   });
@@ -161,9 +244,30 @@ export const LeaveRequest: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  const now = new Date();
+  const todayYmd = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  // 時間単位の有給の1日分の時間数（取得日の所定労働時間を切り上げ）
+  const hoursPerDay = getHourlyLeaveHoursPerDay(
+    resolvePrescribedWorkMinutesPerDay(
+      formData.startDate || todayYmd,
+      workContract.contracts,
+      workContract.fallbackHours
+    )
+  );
+
   // 全休暇の場合、開始日と終了日から日数を自動計算
   useEffect(() => {
-    if (!formData.isHalfDay && formData.startDate && formData.endDate) {
+    if (formData.isHourly) {
+      // 時間単位の場合は開始・終了時刻から時間数を求め、日数に換算する
+      const hours = calculateHourlyLeaveHours(formData.startTime ?? '', formData.endTime ?? '') ?? 0;
+      const days = hourlyLeaveToDays(hours, hoursPerDay);
+      setFormData(prev => {
+        if (prev.days !== days || prev.hours !== hours || prev.endDate !== prev.startDate) {
+          return { ...prev, days, hours, endDate: prev.startDate };
+        }
+        return prev;
+      });
+    } else if (!formData.isHalfDay && formData.startDate && formData.endDate) {
       const start = new Date(formData.startDate);
       const end = new Date(formData.endDate);
       const diffTime = Math.abs(end.getTime() - start.getTime());
@@ -184,7 +288,76 @@ export const LeaveRequest: React.FC = () => {
         return prev;
       });
     }
-  }, [formData.startDate, formData.endDate, formData.isHalfDay]);
+  }, [formData.startDate, formData.endDate, formData.isHalfDay, formData.isHourly, formData.startTime, formData.endTime, hoursPerDay]);
+
+  /** 時間単位の年間上限の判定用（画面の申請を API のコードに戻す） */
+  const hourlyRequests: HourlyLeaveRequestLike[] = requests.map(req => ({
+    id: req.id,
+    startDate: req.startDate,
+    leaveType: req.type === '有給' ? 'paid' : 'other',
+    status: req.status === '承認' ? 'approved' : req.status === '申請中' ? 'pending' : 'deleted',
+    isHourly: req.isHourly,
+    startTime: req.startTime,
+    endTime: req.endTime,
+    hours: req.hours
+  }));
+  const hourlyCapStatus = getHourlyLeaveCapStatus(
+    hourlyRequests,
+    paidLeaveBalance?.grants ?? [],
+    formData.startDate || todayYmd,
+    hoursPerDay,
+    editingRequestId ?? undefined
+  );
+
+  /** 選択中の休暇種別の設定（休暇種別マスタの種別のみ。組み込みの種別は null） */
+  const selectedLeaveTypeCode = getLeaveTypeCodeFromLabel(formData.type);
+  const selectedLeaveTypeSetting = leaveTypeMasters.find(t => t.code === selectedLeaveTypeCode) ?? null;
+
+  /** 休暇種別の規則の判定用（画面の申請を API のコードに戻す） */
+  const balanceRequests: LeaveBalanceRequestLike[] = requests.map(req => ({
+    id: req.id,
+    startDate: req.startDate,
+    endDate: req.endDate,
+    days: req.days,
+    leaveType: getLeaveTypeCodeFromLabel(req.type),
+    status: toApiStatus(req.status),
+    substituteWorkDate: req.substituteWorkDate
+  }));
+
+  /** 代休の付与に使う休日出勤日 */
+  const [holidayWorkDates, setHolidayWorkDates] = useState<string[]>([]);
+
+  useEffect(() => {
+    const compensatoryTypes = leaveTypeMasters.filter(t => t.balanceRule === 'holidayWork');
+    const employeeId = getEmployeeId();
+    if (compensatoryTypes.length === 0 || !employeeId) return;
+    // 最も長い有効日数まで遡る（無期限の種別がある場合は既定の日数）
+    const lookbackDays = compensatoryTypes.some(t => t.expirationDays === null)
+      ? COMPENSATORY_LEAVE_LOOKBACK_DAYS
+      : Math.max(...compensatoryTypes.map(t => t.expirationDays ?? 0));
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getAttendanceList(employeeId, addDaysToYmd(todayYmd, -lookbackDays), todayYmd);
+        if (!cancelled) {
+          setHolidayWorkDates(response.logs.filter(log => isHolidayWorkLog(log, companyHolidays)).map(log => log.workDate));
+        }
+      } catch (error) {
+        // 代休の残日数は表示できないが、他の休暇の申請は継続する
+        logError('Failed to fetch holiday work for compensatory leave:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [leaveTypeMasters, companyHolidays, todayYmd]);
+
+  const compensatoryBalance = selectedLeaveTypeSetting?.balanceRule === 'holidayWork'
+    ? calculateCompensatoryLeaveBalance(
+        selectedLeaveTypeSetting,
+        holidayWorkDates,
+        balanceRequests.filter(r => r.id !== editingRequestId),
+        formData.startDate || todayYmd
+      )
+    : null;
 
   // 有給残日数の計算（申請時のバリデーション用）
   // const totalPaidLeaveDays = 20; // 年間有給日数
@@ -202,8 +375,8 @@ export const LeaveRequest: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // 半休の場合は終了日を開始日と同じにする
-    const finalEndDate = formData.isHalfDay ? formData.startDate : formData.endDate;
+    // 半休・時間単位の場合は終了日を開始日と同じにする
+    const finalEndDate = formData.isHalfDay || formData.isHourly ? formData.startDate : formData.endDate;
     
     if (!formData.startDate || !formData.reason) {
       setSnackbar({ message: '必須項目を入力してください', type: 'error' });
@@ -211,12 +384,52 @@ export const LeaveRequest: React.FC = () => {
       return;
     }
 
-    if (!formData.isHalfDay && !formData.endDate) {
+    if (!formData.isHalfDay && !formData.isHourly && !formData.endDate) {
       setSnackbar({ message: '終了日を入力してください', type: 'error' });
       setTimeout(() => setSnackbar(null), 3000);
       return;
     }
 
+    if (formData.isHourly) {
+      const hours = calculateHourlyLeaveHours(formData.startTime ?? '', formData.endTime ?? '');
+      let hourlyError: string | null = null;
+      if (hours === null) {
+        hourlyError = '開始・終了時刻を1時間単位で入力してください';
+      } else if (hours >= hoursPerDay) {
+        hourlyError = `1日分（${hoursPerDay}時間）以上は全休暇で申請してください`;
+      } else if (hours > hourlyCapStatus.remainingHours) {
+        hourlyError = `時間単位の有給は年${HOURLY_PAID_LEAVE_MAX_DAYS_PER_YEAR}日分（${hourlyCapStatus.capHours}時間）までです（残り${hourlyCapStatus.remainingHours}時間）`;
+      } else if (paidLeaveBalance && allocatePaidLeaveHours(paidLeaveBalance.grants, hours, hoursPerDay, formData.startDate).shortageHours > 0) {
+        hourlyError = '有給の残りが不足しています';
+      }
+      if (hourlyError) {
+        setSnackbar({ message: hourlyError, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+    }
+
+    if (selectedLeaveTypeSetting) {
+      const ruleError = validateLeaveRequestRule(
+        selectedLeaveTypeSetting,
+        {
+          id: editingRequestId ?? undefined,
+          startDate: formData.startDate,
+          endDate: finalEndDate,
+          days: formData.days,
+          leaveType: selectedLeaveTypeCode,
+          status: 'pending',
+          substituteWorkDate: formData.substituteWorkDate
+        },
+        { holidayWorkDates, requests: balanceRequests }
+      );
+      if (ruleError) {
+        setSnackbar({ message: ruleError, type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+    }
+
     try {
       // 認可APIから取得したemployeeIdを使用
       const employeeId = getEmployeeId();
@@ -227,7 +440,13 @@ export const LeaveRequest: React.FC = () => {
       }
 
       // フォームの日本語コードを英語コードに変換してAPIに送信
-      const leaveTypeCode = getLeaveTypeCodeFromLabel(formData.type);
+      const leaveTypeCode = selectedLeaveTypeCode;
+      const hourlyPayload = formData.isHourly
+        ? { isHourly: true, startTime: formData.startTime, endTime: formData.endTime, hours: formData.hours }
+        : { isHourly: false };
+      const substitutePayload = selectedLeaveTypeSetting?.balanceRule === 'substitute'
+        ? { substituteWorkDate: formData.substituteWorkDate }
+        : {};
       
       // 編集モードの判定: editingRequestIdが設定されている場合、またはviewModeが'edit'の場合は更新APIを呼び出す
       if (editingRequestId || viewMode === 'edit') {
@@ -237,7 +456,7 @@ export const LeaveRequest: React.FC = () => {
           // 編集画面では、formDataの内容から該当する申請を特定する
           const matchingRequest = requests.find(r => 
             r.startDate === formData.startDate && 
-            r.endDate === (formData.isHalfDay ? formData.startDate : formData.endDate) &&
+            r.endDate === finalEndDate &&
             r.reason === formData.reason &&
             r.status === '申請中'
           );
@@ -265,10 +484,12 @@ export const LeaveRequest: React.FC = () => {
           employeeId: employeeId,
           startDate: formData.startDate,
           endDate: finalEndDate,
-          leaveType: leaveTypeCode as 'paid' | 'special' | 'sick' | 'absence' | 'other',
+          leaveType: leaveTypeCode,
           reason: formData.reason,
           days: formData.days,
-          isHalfDay: formData.isHalfDay
+          isHalfDay: formData.isHalfDay,
+          ...hourlyPayload,
+          ...substitutePayload
         });
 
         // 更新成功後、一覧を再取得して最新の状態を反映
@@ -281,10 +502,12 @@ export const LeaveRequest: React.FC = () => {
             startDate: req.startDate,
             endDate: req.endDate,
             days: req.days,
-            type: getLeaveTypeLabel(req.leaveType) as LeaveRequest['type'],
+            type: getLeaveTypeLabel(req.leaveType),
             reason: req.reason,
             status: (req.status === 'rejected' ? '削除済み' : getLeaveRequestStatusLabel(req.status)) as LeaveRequest['status'],
-            isHalfDay: req.isHalfDay
+            isHalfDay: req.isHalfDay,
+            substituteWorkDate: req.substituteWorkDate ?? undefined,
+            ...hourlyFieldsOf(req)
           }));
           setRequests(convertedRequests);
         }
@@ -296,10 +519,12 @@ export const LeaveRequest: React.FC = () => {
           employeeId: employeeId,
           startDate: formData.startDate,
           endDate: finalEndDate,
-          leaveType: leaveTypeCode as 'paid' | 'special' | 'sick' | 'absence' | 'other',
+          leaveType: leaveTypeCode,
           reason: formData.reason,
           days: formData.days,
-          isHalfDay: formData.isHalfDay
+          isHalfDay: formData.isHalfDay,
+          ...hourlyPayload,
+          ...substitutePayload
         });
 
         // APIレスポンスの英語コードを日本語に変換
@@ -309,10 +534,12 @@ export const LeaveRequest: React.FC = () => {
           startDate: apiRequest.startDate,
           endDate: apiRequest.endDate,
           days: apiRequest.days,
-          type: getLeaveTypeLabel(apiRequest.leaveType) as LeaveRequest['type'],
+          type: getLeaveTypeLabel(apiRequest.leaveType),
           reason: apiRequest.reason,
           status: (apiRequest.status === 'rejected' ? '削除済み' : getLeaveRequestStatusLabel(apiRequest.status)) as LeaveRequest['status'],
-          isHalfDay: apiRequest.isHalfDay
+          isHalfDay: apiRequest.isHalfDay,
+          substituteWorkDate: apiRequest.substituteWorkDate ?? undefined,
+          ...hourlyFieldsOf(apiRequest)
         };
 
         setRequests([newRequest, ...requests]);
@@ -325,7 +552,7 @@ export const LeaveRequest: React.FC = () => {
         startDate: '',
         endDate: '',
         days: 0,
-        type: (leaveTypes[0]?.code || '有給') as LeaveRequest['type'],
+        type: defaultLeaveType,
         reason: '',
         isHalfDay: false
       });
@@ -362,7 +589,12 @@ export const LeaveRequest: React.FC = () => {
         days: request.days,
         type: request.type,
         reason: request.reason,
-        isHalfDay: request.isHalfDay || false
+        isHalfDay: request.isHalfDay || false,
+        isHourly: request.isHourly || false,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        hours: request.hours,
+        substituteWorkDate: request.substituteWorkDate
       });
       setEditingRequestId(request.id);
       setViewMode('edit');
@@ -377,7 +609,7 @@ export const LeaveRequest: React.FC = () => {
       startDate: '',
       endDate: '',
       days: 0,
-      type: (leaveTypes[0]?.code || '有給') as LeaveRequest['type'],
+      type: defaultLeaveType,
       reason: '',
       isHalfDay: false
     });
@@ -437,8 +669,15 @@ export const LeaveRequest: React.FC = () => {
           <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem', alignItems: 'baseline', marginBottom: paidLeaveBalance.grants.length > 0 ? '1rem' : 0 }}>
             <div>
               <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginRight: '0.5rem' }}>有給残日数</span>
-              <span style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#92400e' }}>{paidLeaveBalance.totalRemaining}</span>
-              <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginLeft: '0.25rem' }}>日</span>
+              <span style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#92400e' }}>
+                {formatPaidLeaveDaysAndHours(paidLeaveBalance.totalRemaining, hoursPerDay)}
+              </span>
+            </div>
+            <div>
+              <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginRight: '0.5rem' }}>時間単位の残り</span>
+              <span style={{ fontSize: fontSizes.badge, fontWeight: 'bold', color: '#1f2937' }}>
+                {hourlyCapStatus.remainingHours}時間 / 年{hourlyCapStatus.capHours}時間
+              </span>
             </div>
             <div>
               <span style={{ fontSize: fontSizes.medium, color: '#6b7280', marginRight: '0.5rem' }}>次回失効</span>
@@ -467,7 +706,7 @@ export const LeaveRequest: React.FC = () => {
                       <tr key={g.grantLedgerId} style={{ borderBottom: '1px solid #f3f4f6' }}>
                         <td style={{ padding: '0.5rem 0.75rem', whiteSpace: 'nowrap' }}>{formatDate(g.grantDate)}</td>
                         <td style={{ padding: '0.5rem 0.75rem', whiteSpace: 'nowrap', textAlign: 'right' }}>{g.grantDays}日</td>
-                        <td style={{ padding: '0.5rem 0.75rem', whiteSpace: 'nowrap', textAlign: 'right', fontWeight: 'bold' }}>{g.remainingDays}日</td>
+                        <td style={{ padding: '0.5rem 0.75rem', whiteSpace: 'nowrap', textAlign: 'right', fontWeight: 'bold' }}>{formatPaidLeaveDaysAndHours(g.remainingDays, hoursPerDay)}</td>
                         <td style={{ padding: '0.5rem 0.75rem', whiteSpace: 'nowrap' }}>{g.expirationDate ? formatDate(g.expirationDate) : '—'}</td>
                       </tr>
                     ))}
@@ -553,7 +792,11 @@ export const LeaveRequest: React.FC = () => {
               </label>
               <select
                 value={formData.type}
-                onChange={(e) => setFormData({ ...formData, type: e.target.value as LeaveRequest['type'] })}
+                onChange={(e) => {
+                  const type = e.target.value;
+                  // 時間単位は有給のみ
+                  setFormData({ ...formData, type, isHourly: type === '有給' ? formData.isHourly : false });
+                }}
                 style={{
                   width: '100%',
                   padding: '0.5rem',
@@ -563,11 +806,53 @@ export const LeaveRequest: React.FC = () => {
                   fontSize: fontSizes.select
                 }}
               >
-                {leaveTypes.map((type) => (
-                  <option key={type.code} value={type.code}>{type.label}</option>
+                {leaveTypeOptions.map((type) => (
+                  <option key={type.code} value={type.label}>
+                    {type.label}{type.setting && !type.setting.isPaid ? '（無給）' : ''}
+                  </option>
                 ))}
+                {/* 無効にした種別の申請を編集する場合 */}
+                {!leaveTypeOptions.some(type => type.label === formData.type) && (
+                  <option value={formData.type}>{formData.type}</option>
+                )}
               </select>
+              {selectedLeaveTypeSetting?.balanceRule === 'perEvent' && (
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                  {selectedLeaveTypeSetting.name}は1回につき{selectedLeaveTypeSetting.fixedDays}日まで取得できます。
+                </p>
+              )}
+              {compensatoryBalance && (
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                  {selectedLeaveTypeSetting?.name}の残り {compensatoryBalance.remainingDays}日
+                  {compensatoryBalance.nextExpirationDate ? `（次回失効 ${formatDate(compensatoryBalance.nextExpirationDate)}）` : ''}。
+                  休日出勤1日につき1日付与され、{selectedLeaveTypeSetting?.expirationDays === null ? '失効しません' : `休日出勤日から${selectedLeaveTypeSetting?.expirationDays}日で失効します`}。
+                </p>
+              )}
             </div>
+            {selectedLeaveTypeSetting?.balanceRule === 'substitute' && (
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                  振替元の休日出勤日 *
+                </label>
+                <input
+                  type="date"
+                  value={formData.substituteWorkDate ?? ''}
+                  onChange={(e) => setFormData({ ...formData, substituteWorkDate: e.target.value })}
+                  style={{
+                    width: '100%',
+                    padding: '0.75rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '4px',
+                    fontSize: fontSizes.input,
+                    boxSizing: 'border-box'
+                  }}
+                  required
+                />
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                  休日出勤1日につき1日を、{selectedLeaveTypeSetting.expirationDays === null ? '' : `休日出勤日の前後${selectedLeaveTypeSetting.expirationDays}日以内の`}勤務日と振り替えます（全休暇で1日ずつ申請してください）。
+                </p>
+              </div>
+            )}
             <div style={{ marginBottom: '1rem' }}>
               <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
                 休暇区分 *
@@ -579,15 +864,15 @@ export const LeaveRequest: React.FC = () => {
                   cursor: 'pointer',
                   padding: '0.5rem',
                   borderRadius: '4px',
-                  backgroundColor: !formData.isHalfDay ? '#dbeafe' : 'transparent',
-                  border: `2px solid ${!formData.isHalfDay ? '#2563eb' : '#d1d5db'}`,
+                  backgroundColor: !formData.isHalfDay && !formData.isHourly ? '#dbeafe' : 'transparent',
+                  border: `2px solid ${!formData.isHalfDay && !formData.isHourly ? '#2563eb' : '#d1d5db'}`,
                   fontSize: fontSizes.label
                 }}>
                   <input
                     type="radio"
-                    checked={!formData.isHalfDay}
+                    checked={!formData.isHalfDay && !formData.isHourly}
                     onChange={() => {
-                      setFormData({ ...formData, isHalfDay: false });
+                      setFormData({ ...formData, isHalfDay: false, isHourly: false });
                     }}
                     style={{ marginRight: '0.5rem' }}
                   />
@@ -607,12 +892,34 @@ export const LeaveRequest: React.FC = () => {
                     type="radio"
                     checked={formData.isHalfDay}
                     onChange={() => {
-                      setFormData({ ...formData, isHalfDay: true, days: 0.5, endDate: formData.startDate });
+                      setFormData({ ...formData, isHalfDay: true, isHourly: false, days: 0.5, endDate: formData.startDate });
                     }}
                     style={{ marginRight: '0.5rem' }}
                   />
                   半休（0.5日）
                 </label>
+                {formData.type === '有給' && (
+                  <label style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    cursor: 'pointer',
+                    padding: '0.5rem',
+                    borderRadius: '4px',
+                    backgroundColor: formData.isHourly ? '#dbeafe' : 'transparent',
+                    border: `2px solid ${formData.isHourly ? '#2563eb' : '#d1d5db'}`,
+                    fontSize: fontSizes.label
+                  }}>
+                    <input
+                      type="radio"
+                      checked={formData.isHourly ?? false}
+                      onChange={() => {
+                        setFormData({ ...formData, isHalfDay: false, isHourly: true, endDate: formData.startDate });
+                      }}
+                      style={{ marginRight: '0.5rem' }}
+                    />
+                    時間単位
+                  </label>
+                )}
               </div>
             </div>
             <div style={{ marginBottom: '1rem' }}>
@@ -636,7 +943,38 @@ export const LeaveRequest: React.FC = () => {
                 required
               />
             </div>
-            {!formData.isHalfDay && (
+            {formData.isHourly && (
+              <div style={{ marginBottom: '1rem' }}>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem' }}>
+                  {([['startTime', '開始時刻 *'], ['endTime', '終了時刻 *']] as const).map(([key, label]) => (
+                    <div key={key}>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+                        {label}
+                      </label>
+                      <input
+                        type="time"
+                        step={3600}
+                        value={formData[key] ?? ''}
+                        onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                        style={{
+                          width: '100%',
+                          padding: '0.75rem',
+                          border: '1px solid #d1d5db',
+                          borderRadius: '4px',
+                          fontSize: fontSizes.input,
+                          boxSizing: 'border-box'
+                        }}
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: fontSizes.small, color: '#6b7280' }}>
+                  1時間単位で、1日分は{hoursPerDay}時間です。時間単位で取得できるのは年{HOURLY_PAID_LEAVE_MAX_DAYS_PER_YEAR}日分（{hourlyCapStatus.capHours}時間）までで、残りは{hourlyCapStatus.remainingHours}時間です。
+                </p>
+              </div>
+            )}
+            {!formData.isHalfDay && !formData.isHourly && (
               <div style={{ marginBottom: '1rem' }}>
                 <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
                   終了日 *
@@ -656,7 +994,7 @@ export const LeaveRequest: React.FC = () => {
                     fontSize: fontSizes.input,
                     boxSizing: 'border-box'
                   }}
-                  required={!formData.isHalfDay}
+                  required={!formData.isHalfDay && !formData.isHourly}
                 />
               </div>
             )}
@@ -666,7 +1004,11 @@ export const LeaveRequest: React.FC = () => {
               </label>
               <input
                 type="text"
-                value={formData.days > 0 ? `${formData.days}日${formData.days === 0.5 ? '（半休）' : ''}` : ''}
+                value={
+                  formData.isHourly
+                    ? (formData.hours ? `${formData.hours}時間（${formData.days}日相当）` : '')
+                    : formData.days > 0 ? `${formData.days}日${formData.days === 0.5 ? '（半休）' : ''}` : ''
+                }
                 readOnly
                 style={{
                   width: '100%',
@@ -845,7 +1187,10 @@ export const LeaveRequest: React.FC = () => {
                       marginBottom: '0.5rem' 
                     }}>
                       {formatDate(request.startDate)} {request.startDate !== request.endDate ? `～ ${formatDate(request.endDate)}` : ''} 
-                      ({request.days}日{request.isHalfDay ? '（半休）' : ''})
+                      {request.isHourly
+                        ? `${request.startTime}〜${request.endTime}（${request.hours}時間）`
+                        : `(${request.days}日${request.isHalfDay ? '（半休）' : ''})`}
+                      {request.substituteWorkDate ? ` 振替元: ${formatDate(request.substituteWorkDate)}` : ''}
                     </div>
                     <div style={{ 
                       fontSize: fontSizes.medium,
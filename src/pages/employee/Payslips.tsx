@@ -0,0 +1,239 @@
+/**
+ * ファイル名: Payslips.tsx
+ * 画面名: 給与明細画面（従業員）
+ * 説明: 従業員が自分の給与明細・賞与明細を確認する画面
+ * 機能:
+ *   - 年度ごとの給与明細・賞与明細の一覧表示（管理者が公開した明細のみ。下書き・計算プレビューは表示しない）
+ *   - 明細書の表示（管理者の給与明細画面と同じレイアウト）
+ *   - PDF出力機能（明細書を文字と表で描画する）
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Snackbar } from '../../components/Snackbar';
+import { ProgressBar } from '../../components/ProgressBar';
+import { Button, ViewButton, PdfExportButton, BackButton } from '../../components/Button';
+import { PayslipView } from '../../components/PayslipView';
+import { getCurrentFiscalYear } from '../../utils/fiscalYear';
+import { fontSizes } from '../../config/fontSizes';
+import { formatCurrency } from '../../utils/formatters';
+import { getUserInfo } from '../../config/apiConfig';
+import { getPayrollList, getPayrollDetailById, formatPeriod, type PayrollListResponse } from '../../utils/payrollApi';
+import { getStatementTypeLabel } from '../../utils/codeTranslator';
+import { buildPayslipViewData, isPublishedToEmployee, EMPLOYEE_VISIBLE_PAYROLL_STATUSES, type PayslipViewData } from '../../utils/payslip';
+import { exportPayslipsPdf } from '../../utils/payslipPdf';
+import { getPdfExportErrorMessage } from '../../utils/pdfLayout';
+import { formatPayrollPeriodRangeJapanese } from '../../utils/payrollPeriod';
+import { usePayrollClosingRules } from '../../hooks/usePayrollClosingRules';
+import { error as logError } from '../../utils/logger';
+import { translateApiError } from '../../utils/apiErrorTranslator';
+
+/** 明細書に表示する会社名 */
+const COMPANY_NAME = '株式会社A・1インテリア';
+
+/**
+ * 給与明細画面コンポーネント（従業員）。
+ * 管理者が公開した自分の給与明細・賞与明細を確認し、PDFで保存できます。
+ *
+ * @returns {JSX.Element} 給与明細画面コンポーネント。
+ */
+export const Payslips: React.FC = () => {
+  const { userName } = useAuth();
+  const { closingRules } = usePayrollClosingRules();
+  const [statements, setStatements] = useState<PayrollListResponse[]>([]);
+  const [searchFiscalYear, setSearchFiscalYear] = useState<number>(getCurrentFiscalYear());
+  const [selectedPayslip, setSelectedPayslip] = useState<PayslipViewData | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setIsMobile(window.innerWidth <= 768);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // 年度の明細一覧を取得（公開済・ロックの明細のみAPIに要求し、念のため画面でも公開済の明細に絞り込む）
+  useEffect(() => {
+    const fetchStatements = async () => {
+      setIsLoading(true);
+      try {
+        const employeeId = getUserInfo().employeeId;
+        if (!employeeId) {
+          logError('Employee ID is not available. Please ensure you are logged in and authorized.');
+          setSnackbar({ message: '従業員IDが取得できませんでした。ログインし直してください。', type: 'error' });
+          setTimeout(() => setSnackbar(null), 5000);
+          return;
+        }
+        const records = await getPayrollList(employeeId, searchFiscalYear, EMPLOYEE_VISIBLE_PAYROLL_STATUSES);
+        setStatements(
+          records
+            .filter(record => isPublishedToEmployee(record))
+            .sort((a, b) => b.year - a.year || b.month - a.month || a.statementType.localeCompare(b.statementType))
+        );
+      } catch (error) {
+        logError('Failed to fetch payroll list:', error);
+        setSnackbar({ message: translateApiError(error), type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchStatements();
+  }, [searchFiscalYear]);
+
+  const handleView = async (statement: PayrollListResponse) => {
+    setIsLoading(true);
+    try {
+      const detail = await getPayrollDetailById(statement.payrollId);
+      // 一覧の取得後に公開が取り消された明細は表示しない
+      if (!isPublishedToEmployee({ status: detail.status ?? statement.status })) {
+        setSnackbar({ message: 'この明細は公開されていません', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+      setSelectedPayslip(
+        buildPayslipViewData(detail, {
+          employeeName: userName || getUserInfo().requestedBy || '',
+          companyName: COMPANY_NAME,
+          periodRange: formatPayrollPeriodRangeJapanese(detail.year, detail.month, closingRules)
+        })
+      );
+    } catch (error) {
+      logError('Failed to fetch payroll detail:', error);
+      setSnackbar({ message: '給与明細の取得に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExportPDF = async () => {
+    if (!selectedPayslip) return;
+
+    try {
+      setIsLoading(true);
+      await exportPayslipsPdf([{ data: selectedPayslip }]);
+    } catch (err) {
+      logError('PDF出力エラー:', err);
+      setSnackbar({ message: getPdfExportErrorMessage(err), type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      {isLoading && <ProgressBar isLoading={true} />}
+      {snackbar && (
+        <Snackbar
+          message={snackbar.message}
+          type={snackbar.type}
+          onClose={() => setSnackbar(null)}
+        />
+      )}
+      <h2 style={{ marginBottom: isMobile ? '1rem' : '1.4rem', fontSize: isMobile ? '1.25rem' : '1.05rem' }}>
+        給与明細
+      </h2>
+
+      {selectedPayslip ? (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+            <BackButton onClick={() => setSelectedPayslip(null)} />
+            <PdfExportButton onClick={handleExportPDF} iconSize={isMobile ? 20 : 24} />
+          </div>
+          <PayslipView data={selectedPayslip} isMobile={isMobile} />
+        </>
+      ) : (
+        <>
+          <div style={{ marginBottom: '1rem', display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 'bold', fontSize: fontSizes.label }}>
+              年度:
+              <input
+                type="number"
+                value={searchFiscalYear}
+                onChange={(e) => setSearchFiscalYear(parseInt(e.target.value) || getCurrentFiscalYear())}
+                style={{
+                  padding: '0.5rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  fontSize: fontSizes.input,
+                  width: '100px',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </label>
+            <span style={{ fontSize: fontSizes.medium, color: '#6b7280' }}>
+              ({searchFiscalYear}年4月 〜 {searchFiscalYear + 1}年3月)
+            </span>
+            {!isMobile && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => setSearchFiscalYear(getCurrentFiscalYear())}
+                style={{ padding: '0.5rem 1rem', fontSize: fontSizes.button }}
+              >
+                今年度に戻す
+              </Button>
+            )}
+          </div>
+          <div style={{
+            backgroundColor: '#f9fafb',
+            padding: isMobile ? '1rem' : '1.5rem',
+            borderRadius: '8px'
+          }}>
+            {statements.length === 0 ? (
+              <p style={{ color: '#6b7280', textAlign: 'center' }}>
+                {isLoading ? '読み込み中...' : '公開されている明細がありません'}
+              </p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                {statements.map(statement => (
+                  <div
+                    key={statement.payrollId}
+                    style={{
+                      backgroundColor: 'white',
+                      padding: '1rem',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      gap: '1rem'
+                    }}
+                  >
+                    <div>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                        <span style={{ fontWeight: 'bold', fontSize: fontSizes.large }}>
+                          {formatPeriod(statement.year, statement.month)}
+                        </span>
+                        <span style={{
+                          padding: '0.25rem 0.5rem',
+                          borderRadius: '4px',
+                          fontSize: fontSizes.badge,
+                          fontWeight: 'bold',
+                          backgroundColor: statement.statementType === 'bonus' ? '#fef3c7' : '#dbeafe',
+                          color: statement.statementType === 'bonus' ? '#92400e' : '#1e40af'
+                        }}>
+                          {getStatementTypeLabel(statement.statementType)}
+                        </span>
+                      </div>
+                      <div style={{ fontSize: fontSizes.medium, color: '#1f2937', fontWeight: 'bold' }}>
+                        差引支給額: {formatCurrency(statement.netPay)}
+                      </div>
+                    </div>
+                    <ViewButton onClick={() => handleView(statement)} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,574 @@
+/**
+ * ファイル名: KioskStamp.tsx
+ * 画面名: 打刻端末画面
+ * 説明: 工場の入口などに置いた共用の端末（タブレット）で、従業員が本人を確認して打刻する画面
+ * 機能:
+ *   - 管理者（勤怠の修正の権限）による打刻端末の登録・登録の解除（登録後は管理者をログアウトし、端末トークンで打刻する）
+ *   - 出勤・退勤・休憩開始・休憩終了の大きなボタン（タッチ操作向け）
+ *   - 社員コードとPIN（画面のテンキー）での本人確認
+ *   - 社員証のQRコードでの本人確認（カメラ、またはUSB・BluetoothのQRコードリーダー）
+ *   - 打刻に端末IDを記録し、打刻した従業員名と時刻を表示
+ *   - 操作が無いまま一定時間が過ぎたら入力途中の内容を消して最初の画面に戻す
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useInactivityReset } from '../../hooks/useInactivityReset';
+import { useQrScanner } from '../../hooks/useQrScanner';
+import { Button } from '../../components/Button';
+import { Snackbar } from '../../components/Snackbar';
+import { ConfirmModal } from '../../components/ConfirmModal';
+import { fontSizes } from '../../config/fontSizes';
+import {
+  buildKioskCredential,
+  clearKioskTerminal,
+  KIOSK_INACTIVITY_TIMEOUT_MS,
+  KIOSK_PIN_MAX_LENGTH,
+  KIOSK_RESULT_DISPLAY_MS,
+  KIOSK_STAMP_TYPE_LABELS,
+  loadKioskTerminal,
+  saveKioskTerminal,
+  validateKioskPinInput,
+  type KioskCredential,
+  type KioskStampType,
+  type KioskTerminal
+} from '../../utils/kiosk';
+import { kioskStamp, registerKioskTerminal, unregisterKioskTerminal, type KioskStampResult } from '../../utils/kioskApi';
+import { ApiRequestError } from '../../utils/apiErrorTranslator';
+import { error as logError } from '../../utils/logger';
+
+/** 打刻のボタン（表示順と色） */
+const STAMP_BUTTONS: Array<{ type: KioskStampType; color: string }> = [
+  { type: 'clockIn', color: '#10b981' },
+  { type: 'clockOut', color: '#ef4444' },
+  { type: 'startBreak', color: '#f59e0b' },
+  { type: 'endBreak', color: '#f97316' }
+];
+
+/** テンキーのキー */
+const KEYPAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+/** テンキーで入力する欄 */
+type KeypadField = 'employeeCode' | 'pin';
+
+/**
+ * 打刻端末画面コンポーネント。
+ * 登録した打刻端末で、従業員が社員コードとPIN、または社員証のQRコードで本人を確認して打刻します。
+ *
+ * @returns {JSX.Element} 打刻端末画面コンポーネント。
+ */
+export const KioskStamp: React.FC = () => {
+  const navigate = useNavigate();
+  const { isAuthenticated, userRole, adminPermissions, logout } = useAuth();
+  const canManageTerminal = isAuthenticated && userRole === 'admin' && adminPermissions.has('attendance.edit');
+
+  const [terminal, setTerminal] = useState<KioskTerminal | null>(loadKioskTerminal);
+  const [now, setNow] = useState<Date>(new Date());
+  const [step, setStep] = useState<'idle' | 'identify' | 'result'>('idle');
+  const [stampType, setStampType] = useState<KioskStampType>('clockIn');
+  const [method, setMethod] = useState<'pin' | 'qr'>('pin');
+  const [employeeCode, setEmployeeCode] = useState<string>('');
+  const [pin, setPin] = useState<string>('');
+  const [activeField, setActiveField] = useState<KeypadField>('employeeCode');
+  const [cardCode, setCardCode] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<KioskStampResult | null>(null);
+  const [terminalName, setTerminalName] = useState<string>('');
+  const [isRegistering, setIsRegistering] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<{ isOpen: boolean; title: string; message: string; onConfirm: () => void } | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  /**
+   * 入力途中の内容を消して最初の画面に戻す。
+   */
+  const resetToIdle = useCallback(() => {
+    setStep('idle');
+    setEmployeeCode('');
+    setPin('');
+    setCardCode('');
+    setActiveField('employeeCode');
+    setErrorMessage(null);
+    setResult(null);
+  }, []);
+
+  useInactivityReset(step === 'identify', KIOSK_INACTIVITY_TIMEOUT_MS, resetToIdle);
+
+  // 打刻の結果は一定時間表示したら次の人のために最初の画面に戻す
+  useEffect(() => {
+    if (step !== 'result') return;
+    const timer = window.setTimeout(resetToIdle, KIOSK_RESULT_DISPLAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [step, resetToIdle]);
+
+  const { videoRef, isSupported: isCameraSupported, isScanning, error: cameraError, start: startScanner, stop: stopScanner } =
+    useQrScanner((value) => submitStamp(buildKioskCredential({ cardCode: value })));
+
+  /**
+   * 本人確認情報を付けて打刻する。
+   * QRコードで読み取った場合、カメラは読み取った時点で閉じるため、打刻できなかった時は読み取りを再開する。
+   *
+   * @param {KioskCredential | null} credential - 本人確認情報。
+   */
+  const submitStamp = async (credential: KioskCredential | null) => {
+    if (!terminal || !credential || isSubmitting) return;
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const stampResult = await kioskStamp(terminal, stampType, credential);
+      setResult(stampResult);
+      setStep('result');
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status === 401) {
+        // 端末の登録が解除された（端末トークンが無効）
+        clearKioskTerminal();
+        setTerminal(null);
+        resetToIdle();
+        setSnackbar({ message: 'この端末の登録が無効になりました。管理者が登録し直してください', type: 'error' });
+        setTimeout(() => setSnackbar(null), 3000);
+        return;
+      }
+      setErrorMessage(error instanceof Error ? error.message : '打刻に失敗しました');
+      setPin('');
+      setCardCode('');
+      if (method === 'qr' && isCameraSupported) startScanner();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // QRコードの読み取り中だけカメラを起動する
+  useEffect(() => {
+    if (step === 'identify' && method === 'qr' && isCameraSupported) {
+      startScanner();
+      return () => stopScanner();
+    }
+  }, [step, method, isCameraSupported, startScanner, stopScanner]);
+
+  /**
+   * 打刻の種類を選んで本人確認の画面に進む。
+   *
+   * @param {KioskStampType} type - 打刻の種類。
+   */
+  const handleSelectStamp = (type: KioskStampType) => {
+    resetToIdle();
+    setStampType(type);
+    setStep('identify');
+  };
+
+  /**
+   * テンキーの入力を社員コード・PINの欄に反映する。
+   *
+   * @param {string} key - テンキーのキー（数字・clear・back）。
+   */
+  const handleKeypad = (key: string) => {
+    const update = activeField === 'employeeCode' ? setEmployeeCode : setPin;
+    if (key === 'clear') {
+      update('');
+    } else if (key === 'back') {
+      update(value => value.slice(0, -1));
+    } else {
+      update(value => (activeField === 'pin' && value.length >= KIOSK_PIN_MAX_LENGTH ? value : value + key));
+    }
+  };
+
+  /**
+   * 社員コードとPINで打刻する。
+   */
+  const handleSubmitPin = () => {
+    const validationError = validateKioskPinInput(employeeCode, pin);
+    if (validationError) {
+      setErrorMessage(validationError);
+      return;
+    }
+    submitStamp(buildKioskCredential({ employeeCode, pin }));
+  };
+
+  /**
+   * この端末を打刻端末として登録し、管理者をログアウトする（以降は端末トークンで打刻する）。
+   */
+  const handleRegister = async () => {
+    if (!terminalName.trim()) {
+      setSnackbar({ message: '端末名を入力してください', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+      return;
+    }
+    setIsRegistering(true);
+    try {
+      const registered = await registerKioskTerminal(terminalName.trim());
+      saveKioskTerminal(registered);
+      setTerminal(registered);
+      setTerminalName('');
+      // 共用の端末に管理者のログインを残さない
+      await logout();
+      setSnackbar({ message: `打刻端末「${registered.terminalName}」として登録しました`, type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to register kiosk terminal:', error);
+      setSnackbar({ message: error instanceof Error ? error.message : '打刻端末の登録に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  /**
+   * 打刻端末の登録を解除する（確認後に実行）。
+   *
+   * @param {KioskTerminal} target - 登録を解除する打刻端末。
+   */
+  const unregister = async (target: KioskTerminal) => {
+    try {
+      await unregisterKioskTerminal(target.terminalId);
+      clearKioskTerminal();
+      setTerminal(null);
+      setShowSettings(false);
+      setSnackbar({ message: '打刻端末の登録を解除しました', type: 'success' });
+      setTimeout(() => setSnackbar(null), 3000);
+    } catch (error) {
+      logError('Failed to unregister kiosk terminal:', error);
+      setSnackbar({ message: error instanceof Error ? error.message : '打刻端末の登録の解除に失敗しました', type: 'error' });
+      setTimeout(() => setSnackbar(null), 3000);
+    }
+  };
+
+  /**
+   * 打刻端末の登録の解除を確認する。
+   */
+  const handleUnregister = () => {
+    if (!terminal) return;
+    setConfirmModal({
+      isOpen: true,
+      title: '打刻端末の登録の解除',
+      message: `打刻端末「${terminal.terminalName}」の登録を解除しますか？この端末から打刻できなくなります。`,
+      onConfirm: () => {
+        setConfirmModal(null);
+        unregister(terminal);
+      }
+    });
+  };
+
+  const bigButtonStyle = (color: string): React.CSSProperties => ({
+    minHeight: '9rem',
+    padding: '1.5rem',
+    backgroundColor: color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '16px',
+    fontSize: '2rem',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    touchAction: 'manipulation'
+  });
+
+  const fieldStyle = (field: KeypadField): React.CSSProperties => ({
+    width: '100%',
+    padding: '1rem',
+    fontSize: '1.75rem',
+    letterSpacing: '0.2em',
+    textAlign: 'center',
+    border: `3px solid ${activeField === field ? '#2563eb' : '#d1d5db'}`,
+    borderRadius: '12px',
+    boxSizing: 'border-box'
+  });
+
+  const snackbarElement = snackbar && (
+    <Snackbar message={snackbar.message} type={snackbar.type} onClose={() => setSnackbar(null)} />
+  );
+
+  const confirmModalElement = confirmModal && (
+    <ConfirmModal
+      isOpen={confirmModal.isOpen}
+      title={confirmModal.title}
+      message={confirmModal.message}
+      confirmText="解除"
+      onConfirm={confirmModal.onConfirm}
+      onCancel={() => setConfirmModal(null)}
+    />
+  );
+
+  // 打刻端末として登録されていない端末
+  if (!terminal) {
+    return (
+      <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '1.5rem', backgroundColor: '#f3f4f6' }}>
+        {snackbarElement}
+        <div style={{ width: '100%', maxWidth: '520px', backgroundColor: 'white', borderRadius: '12px', padding: '2rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+          <h2 style={{ marginTop: 0, fontSize: fontSizes.h2.desktop }}>打刻端末の登録</h2>
+          {canManageTerminal ? (
+            <>
+              <p style={{ fontSize: fontSizes.medium, color: '#4b5563' }}>
+                この端末を共用の打刻端末として登録します。登録後は管理者をログアウトし、従業員は社員コードとPIN、または社員証のQRコードで打刻します。
+              </p>
+              <label style={{ display: 'block', fontSize: fontSizes.label, fontWeight: 'bold', marginBottom: '0.25rem' }}>
+                端末名
+              </label>
+              <input
+                type="text"
+                value={terminalName}
+                onChange={(e) => setTerminalName(e.target.value)}
+                placeholder="例: 本社工場 入口"
+                style={{ width: '100%', padding: '0.5rem', fontSize: fontSizes.input, boxSizing: 'border-box', marginBottom: '1rem' }}
+              />
+              <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                <Button variant="secondary" onClick={() => navigate('/admin/employees')}>
+                  管理者画面に戻る
+                </Button>
+                <Button variant="primary" onClick={handleRegister} disabled={isRegistering}>
+                  {isRegistering ? '登録中...' : 'この端末を登録'}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p style={{ fontSize: fontSizes.medium, color: '#4b5563' }}>
+                この端末は打刻端末として登録されていません。勤怠の修正の権限を持つ管理者がログインし、この画面（/kiosk）から登録してください。
+              </p>
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <Button variant="primary" onClick={() => navigate('/login')}>
+                  管理者ログイン
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', backgroundColor: '#f3f4f6', userSelect: 'none' }}>
+      {snackbarElement}
+      {confirmModalElement}
+      <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '1rem 1.5rem', backgroundColor: '#1f2937', color: 'white' }}>
+        <div>
+          <div style={{ fontSize: '1.25rem', fontWeight: 'bold' }}>{terminal.terminalName}</div>
+          <div style={{ fontSize: fontSizes.small, color: '#9ca3af' }}>端末ID: {terminal.terminalId}</div>
+        </div>
+        <div style={{ textAlign: 'right' }}>
+          <div style={{ fontSize: fontSizes.large }}>{now.toLocaleDateString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short' })}</div>
+          <div style={{ fontSize: '2.5rem', fontWeight: 'bold', letterSpacing: '0.1em' }}>
+            {now.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })}
+          </div>
+        </div>
+      </header>
+
+      <main style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '1.5rem' }}>
+        {step === 'idle' && (
+          <div style={{ width: '100%', maxWidth: '900px' }}>
+            <p style={{ textAlign: 'center', fontSize: '1.5rem', fontWeight: 'bold', color: '#1f2937', marginTop: 0 }}>
+              打刻の種類を選んでください
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '1.5rem' }}>
+              {STAMP_BUTTONS.map(({ type, color }) => (
+                <button key={type} onClick={() => handleSelectStamp(type)} style={bigButtonStyle(color)}>
+                  {KIOSK_STAMP_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'identify' && (
+          <div style={{ width: '100%', maxWidth: '560px', backgroundColor: 'white', borderRadius: '16px', padding: '1.5rem', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+            <div style={{ textAlign: 'center', fontSize: '1.75rem', fontWeight: 'bold', marginBottom: '1rem' }}>
+              {KIOSK_STAMP_TYPE_LABELS[stampType]}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem', marginBottom: '1rem' }}>
+              {(['pin', 'qr'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    setMethod(value);
+                    setErrorMessage(null);
+                  }}
+                  style={{
+                    padding: '1rem',
+                    fontSize: '1.125rem',
+                    fontWeight: 'bold',
+                    borderRadius: '12px',
+                    border: `2px solid ${method === value ? '#2563eb' : '#d1d5db'}`,
+                    backgroundColor: method === value ? '#eff6ff' : 'white',
+                    color: '#1f2937',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {value === 'pin' ? '社員コードとPIN' : '社員証のQRコード'}
+                </button>
+              ))}
+            </div>
+
+            {method === 'pin' ? (
+              <>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginBottom: '1rem' }}>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={employeeCode}
+                    placeholder="社員コード"
+                    onFocus={() => setActiveField('employeeCode')}
+                    onChange={(e) => setEmployeeCode(e.target.value)}
+                    style={fieldStyle('employeeCode')}
+                  />
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    placeholder="PIN"
+                    maxLength={KIOSK_PIN_MAX_LENGTH}
+                    onFocus={() => setActiveField('pin')}
+                    onChange={(e) => setPin(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSubmitPin();
+                    }}
+                    style={fieldStyle('pin')}
+                  />
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '0.5rem', marginBottom: '1rem' }}>
+                  {KEYPAD_KEYS.map(key => (
+                    <button
+                      key={key}
+                      onClick={() => handleKeypad(key)}
+                      style={{
+                        minHeight: '4.5rem',
+                        fontSize: key === 'clear' || key === 'back' ? '1.125rem' : '1.75rem',
+                        fontWeight: 'bold',
+                        borderRadius: '12px',
+                        border: '1px solid #d1d5db',
+                        backgroundColor: key === 'clear' || key === 'back' ? '#f3f4f6' : 'white',
+                        color: '#1f2937',
+                        cursor: 'pointer',
+                        touchAction: 'manipulation'
+                      }}
+                    >
+                      {key === 'clear' ? 'クリア' : key === 'back' ? '1字消す' : key}
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div style={{ marginBottom: '1rem', textAlign: 'center' }}>
+                {isCameraSupported && (
+                  <video
+                    ref={videoRef}
+                    muted
+                    playsInline
+                    style={{ width: '100%', maxHeight: '320px', borderRadius: '12px', backgroundColor: '#111827', display: isScanning ? 'block' : 'none', marginBottom: '0.75rem' }}
+                  />
+                )}
+                <p style={{ fontSize: fontSizes.large, color: '#4b5563' }}>
+                  {isSubmitting
+                    ? '打刻中...'
+                    : isCameraSupported && !cameraError
+                    ? '社員証のQRコードをカメラにかざしてください'
+                    : 'QRコードリーダーで社員証のQRコードを読み取ってください'}
+                </p>
+                {cameraError && <p style={{ fontSize: fontSizes.medium, color: '#b91c1c' }}>{cameraError}</p>}
+                {/* USB・BluetoothのQRコードリーダーはキーボードとして入力し、最後にEnterを送る */}
+                <input
+                  type="password"
+                  autoFocus
+                  autoComplete="off"
+                  value={cardCode}
+                  placeholder="QRコードリーダーの入力"
+                  onChange={(e) => setCardCode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') submitStamp(buildKioskCredential({ cardCode }));
+                  }}
+                  style={{ width: '100%', padding: '0.75rem', fontSize: fontSizes.large, textAlign: 'center', border: '1px solid #d1d5db', borderRadius: '8px', boxSizing: 'border-box' }}
+                />
+              </div>
+            )}
+
+            {errorMessage && (
+              <div style={{ padding: '0.75rem', marginBottom: '1rem', borderRadius: '8px', backgroundColor: '#fef2f2', color: '#b91c1c', fontSize: fontSizes.large, textAlign: 'center' }}>
+                {errorMessage}
+              </div>
+            )}
+
+            <div style={{ display: 'grid', gridTemplateColumns: method === 'pin' ? '1fr 2fr' : '1fr', gap: '0.75rem' }}>
+              <button
+                onClick={resetToIdle}
+                style={{ minHeight: '4.5rem', fontSize: '1.25rem', fontWeight: 'bold', borderRadius: '12px', border: '1px solid #d1d5db', backgroundColor: 'white', color: '#1f2937', cursor: 'pointer' }}
+              >
+                戻る
+              </button>
+              {method === 'pin' && (
+                <button
+                  onClick={handleSubmitPin}
+                  disabled={isSubmitting}
+                  style={{
+                    ...bigButtonStyle(STAMP_BUTTONS.find(button => button.type === stampType)?.color ?? '#2563eb'),
+                    minHeight: '4.5rem',
+                    fontSize: '1.5rem',
+                    opacity: isSubmitting ? 0.6 : 1
+                  }}
+                >
+                  {isSubmitting ? '打刻中...' : `${KIOSK_STAMP_TYPE_LABELS[stampType]}を打刻`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div style={{ width: '100%', maxWidth: '560px', backgroundColor: 'white', borderRadius: '16px', padding: '2.5rem 1.5rem', textAlign: 'center', boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }}>
+            <div style={{ fontSize: '2rem', fontWeight: 'bold', color: '#1f2937' }}>{result.employeeName} さん</div>
+            <div style={{ fontSize: '1.75rem', marginTop: '1rem', color: STAMP_BUTTONS.find(button => button.type === result.type)?.color }}>
+              {KIOSK_STAMP_TYPE_LABELS[result.type]} {result.stampedAt.slice(11, 16)}
+            </div>
+            <div style={{ fontSize: fontSizes.large, marginTop: '1rem', color: '#4b5563' }}>打刻しました</div>
+            <button
+              onClick={resetToIdle}
+              style={{ marginTop: '2rem', minHeight: '4rem', minWidth: '12rem', fontSize: '1.25rem', fontWeight: 'bold', borderRadius: '12px', border: '1px solid #d1d5db', backgroundColor: 'white', color: '#1f2937', cursor: 'pointer' }}
+            >
+              OK
+            </button>
+          </div>
+        )}
+      </main>
+
+      <footer style={{ padding: '0.75rem 1.5rem', textAlign: 'right' }}>
+        {showSettings ? (
+          <div style={{ display: 'inline-flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+            {canManageTerminal ? (
+              <>
+                <Button variant="secondary" onClick={() => logout()} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+                  管理者をログアウト
+                </Button>
+                <Button variant="primary" onClick={handleUnregister} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+                  登録を解除
+                </Button>
+              </>
+            ) : (
+              <>
+                <span style={{ fontSize: fontSizes.small, color: '#4b5563' }}>登録の解除は管理者がログインして行ってください</span>
+                <Button variant="secondary" onClick={() => navigate('/login')} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+                  管理者ログイン
+                </Button>
+              </>
+            )}
+            <Button variant="secondary" onClick={() => setShowSettings(false)} style={{ padding: '0.5rem 1rem', boxShadow: 'none', minHeight: 'auto', minWidth: 'auto' }}>
+              閉じる
+            </Button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowSettings(true)}
+            style={{ background: 'none', border: 'none', color: '#9ca3af', fontSize: fontSizes.small, cursor: 'pointer' }}
+          >
+            端末設定
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
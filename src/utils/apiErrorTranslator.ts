@@ -404,6 +404,14 @@ export const translateApiError = (error: unknown): string => {
       // 給与明細API固有
       case 'PAYROLL_RECORD_ALREADY_EXISTS':
         return '指定期間の給与明細は既に存在します';
+      case 'PAYROLL_RECORD_LOCKED':
+        return '振込済みでロックされた給与明細は編集できません。訂正する場合は調整明細を作成してください';
+      case 'INVALID_PAYROLL_STATUS_TRANSITION':
+        return 'この給与明細の状態は変更できません';
+
+      // 勤怠API固有
+      case 'ATTENDANCE_PERIOD_LOCKED_REASON_REQUIRED':
+        return '給与明細がロックされた期間の勤怠を修正するには、修正理由の入力が必要です';
 
       // 500 Internal Server Error - 共通
       case 'INTERNAL_SERVER_ERROR':
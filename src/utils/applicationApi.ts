@@ -6,6 +6,8 @@
 import { apiRequest } from '../config/apiConfig';
 import { error as logError } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { LeaveTypeCode } from './leaveRequestApi';
+import type { ApprovalHistoryEntry } from './approvalRoute';
 
 /**
  * 統合申請を表すインターフェース（APIレスポンス用）
@@ -19,14 +21,25 @@ export interface UnifiedApplication {
   employeeName: string;
   status: 'pending' | 'approved' | 'rejected' | 'deleted';
   requestedAt: string;
+  /** 申請時に適用した承認ルートのID。承認ルートが無い申請は null。 */
+  approvalRouteId?: string | null;
+  /** ステップごとの承認・却下の履歴（古い順） */
+  approvalHistory?: ApprovalHistoryEntry[];
   /** 休暇申請のフィールド（typeが'leave_request'の場合に存在） */
   leaveData?: {
     startDate: string;
     endDate: string;
     days: number;
-    leaveType: 'paid' | 'special' | 'sick' | 'absence' | 'other';
+    leaveType: LeaveTypeCode;
     reason: string;
     isHalfDay: boolean;
+    /** 時間単位の有給かどうか */
+    isHourly?: boolean;
+    startTime?: string | null;
+    endTime?: string | null;
+    hours?: number | null;
+    /** 振替休日の振替元の休日出勤日 */
+    substituteWorkDate?: string | null;
   };
   /** 打刻修正申請のフィールド（typeが'attendance_correction_request'の場合に存在） */
   attendanceData?: {
@@ -60,12 +73,19 @@ interface RawApplicationItem {
   employeeName: string;
   status: UnifiedApplication['status'];
   requestedAt: string;
+  approvalRouteId?: string | null;
+  approvalHistory?: ApprovalHistoryEntry[];
   startDate?: string;
   endDate?: string;
   days?: number;
   leaveType?: NonNullable<UnifiedApplication['leaveData']>['leaveType'];
   reason?: string;
   isHalfDay?: boolean;
+  isHourly?: boolean;
+  startTime?: string | null;
+  endTime?: string | null;
+  hours?: number | null;
+  substituteWorkDate?: string | null;
   attendanceData?: UnifiedApplication['attendanceData'];
 }
 
@@ -120,6 +140,8 @@ export const getApplicationList = async (
         const mappedReq: UnifiedApplication = {
           ...req,
           id: req.requestId || req.id || '', // requestIdを優先的に使用、なければidを使用
+          approvalRouteId: req.approvalRouteId ?? null,
+          approvalHistory: req.approvalHistory ?? [],
           type: req.type === 'leave' ? 'leave_request' : req.type === 'attendance' ? 'attendance_correction_request' : req.type // APIの'leave'/'attendance'を'leave_request'/'attendance_correction_request'に変換
         } as UnifiedApplication;
         
@@ -131,7 +153,12 @@ export const getApplicationList = async (
             days: req.days,
             leaveType: req.leaveType,
             reason: req.reason,
-            isHalfDay: req.isHalfDay || false
+            isHalfDay: req.isHalfDay || false,
+            isHourly: req.isHourly || false,
+            startTime: req.startTime ?? null,
+            endTime: req.endTime ?? null,
+            hours: req.hours ?? null,
+            substituteWorkDate: req.substituteWorkDate ?? null
           } as UnifiedApplication['leaveData'];
         }
         
@@ -159,6 +186,11 @@ export interface UpdateApplicationStatusRequest {
   type: 'leave' | 'attendance';
   action: 'approve' | 'reject';
   rejectionReason?: string;
+  /**
+   * 承認・却下する承認ステップの番号（0始まり）。承認ルートがある申請は必須。
+   * 最終ステップ以外の承認では申請は申請中のまま次のステップへ進み、最終ステップの承認で承認済みになる。
+   */
+  stepIndex?: number;
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * approvalRoute のユニットテスト。
+ *
+ * 対象: findApprovalRoute / resolveRequestApprovalRoute / getApprovalProgress / isAwaitingApprover
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（承認ルート）
+ *
+ * 申請種別と条件から最も条件の厳しい承認ルートを選び、ステップ順に割り当てられた承認者だけが承認できる。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  findApprovalRoute,
+  resolveRequestApprovalRoute,
+  getApprovalProgress,
+  isAwaitingApprover,
+  MISSING_APPROVAL_ROUTE,
+  type ApprovalRouteSetting,
+  type ApprovalHistoryEntry
+} from './approvalRoute';
+
+const route = (name: string, overrides: Partial<ApprovalRouteSetting> = {}): ApprovalRouteSetting => ({
+  name,
+  requestType: 'leave',
+  conditions: { leaveDaysOver: null, leaveTypes: [] },
+  steps: [{ name: 'チームリーダー', approverEmployeeIds: ['lead'] }],
+  isActive: true,
+  ...overrides
+});
+
+const leaveRoutes = [
+  route('休暇（通常）'),
+  route('休暇（3日超）', {
+    conditions: { leaveDaysOver: 3, leaveTypes: [] },
+    steps: [
+      { name: 'チームリーダー', approverEmployeeIds: ['lead'] },
+      { name: '人事', approverEmployeeIds: ['hr1', 'hr2'] }
+    ]
+  }),
+  route('打刻修正', {
+    requestType: 'attendance',
+    steps: [
+      { name: 'チームリーダー', approverEmployeeIds: ['lead'] },
+      { name: '給与担当', approverEmployeeIds: ['payroll'] }
+    ]
+  }),
+  route('休暇（無効）', { conditions: { leaveDaysOver: 10, leaveTypes: [] }, isActive: false })
+];
+
+const approved = (stepIndex: number, approverEmployeeId: string): ApprovalHistoryEntry => ({
+  stepIndex,
+  stepName: '',
+  approverEmployeeId,
+  approverName: approverEmployeeId,
+  action: 'approve',
+  actedAt: '2025-06-02T10:00:00+09:00'
+});
+
+describe('findApprovalRoute', () => {
+  it('申請種別と日数の条件が当てはまる最も条件の厳しい有効なルートを選ぶ', () => {
+    expect(findApprovalRoute(leaveRoutes, { requestType: 'leave', days: 3 })?.name).toBe('休暇（通常）');
+    expect(findApprovalRoute(leaveRoutes, { requestType: 'leave', days: 12 })?.name).toBe('休暇（3日超）');
+    expect(findApprovalRoute(leaveRoutes, { requestType: 'attendance' })?.name).toBe('打刻修正');
+  });
+
+  it('休暇種別を指定したルートを優先し、当てはまらなければ null', () => {
+    const routes = [...leaveRoutes, route('代休', { conditions: { leaveDaysOver: null, leaveTypes: ['compensatory'] } })];
+    expect(findApprovalRoute(routes, { requestType: 'leave', days: 5, leaveType: 'compensatory' })?.name).toBe('代休');
+    expect(findApprovalRoute([leaveRoutes[1]], { requestType: 'leave', days: 1 })).toBeNull();
+  });
+});
+
+describe('getApprovalProgress / isAwaitingApprover', () => {
+  const hrRoute = leaveRoutes[1];
+
+  it('承認済みのステップの次を承認待ちとし、そのステップの承認者だけが承認できる', () => {
+    expect(getApprovalProgress(hrRoute, [])).toMatchObject({ currentStepIndex: 0, approvedSteps: 0, totalSteps: 2, isFinalStep: false });
+    expect(isAwaitingApprover(hrRoute, [], 'lead')).toBe(true);
+    expect(isAwaitingApprover(hrRoute, [], 'hr1')).toBe(false);
+
+    const history = [approved(0, 'lead')];
+    expect(getApprovalProgress(hrRoute, history)).toMatchObject({ currentStepIndex: 1, currentStep: { name: '人事' }, isFinalStep: true });
+    expect(isAwaitingApprover(hrRoute, history, 'hr2')).toBe(true);
+    expect(isAwaitingApprover(hrRoute, history, 'lead')).toBe(false);
+  });
+
+  it('全ステップ承認済みなら承認待ちなし、ルートが無い申請は誰でも承認できる', () => {
+    const history = [approved(0, 'lead'), approved(1, 'hr1')];
+    expect(getApprovalProgress(hrRoute, history)).toMatchObject({ currentStepIndex: null, approvedSteps: 2 });
+    expect(isAwaitingApprover(hrRoute, history, 'hr1')).toBe(false);
+    expect(isAwaitingApprover(null, [], 'anyone')).toBe(true);
+  });
+});
+
+describe('resolveRequestApprovalRoute', () => {
+  const routesWithId = leaveRoutes.map((r, index) => ({ ...r, id: `route-${index}` }));
+
+  it('申請に記録されたルートを使い、記録が無い申請は条件で選ぶ', () => {
+    expect(resolveRequestApprovalRoute(routesWithId, 'route-0', { requestType: 'leave', days: 5 })).toMatchObject({ name: '休暇（通常）' });
+    expect(resolveRequestApprovalRoute(routesWithId, null, { requestType: 'leave', days: 5 })).toMatchObject({ name: '休暇（3日超）' });
+    expect(resolveRequestApprovalRoute([], null, { requestType: 'attendance' })).toBeNull();
+  });
+
+  it('記録されたルートが削除されている申請は、条件で選び直さず誰も承認できない', () => {
+    const resolved = resolveRequestApprovalRoute(routesWithId, 'deleted-route', { requestType: 'leave', days: 1 });
+    expect(resolved).toBe(MISSING_APPROVAL_ROUTE);
+    expect(isAwaitingApprover(resolved, [], 'lead')).toBe(false);
+    expect(getApprovalProgress(resolved, [])).toMatchObject({ currentStepIndex: null, currentStep: null, isFinalStep: false });
+  });
+});
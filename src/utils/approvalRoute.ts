@@ -0,0 +1,182 @@
+/**
+ * 申請の多段階承認（承認ルート）のユーティリティ。
+ *
+ * - 承認ルートは申請種別（休暇申請・打刻修正申請）と条件（休暇の日数・休暇種別）ごとに定義し、
+ *   ステップ（チームリーダー → 人事 など）ごとに承認者を割り当てる
+ * - 申請に当てはまる承認ルートが複数ある場合は、条件の厳しいもの（休暇種別の指定あり → 日数の下限が大きい順）を使う
+ * - 承認はステップ順に行い、最終ステップの承認で申請が承認済みになる
+ * - 当てはまる承認ルートが無い申請は、従来どおり管理者の誰でも1回で承認できる
+ * - 申請時に決まった承認ルートが削除された申請は、誰も承認できない（承認ルートが無い申請としては扱わない）
+ */
+
+/** 承認ルートの申請種別（leave: 休暇申請 / attendance: 打刻修正申請） */
+export type ApprovalRequestType = 'leave' | 'attendance';
+
+/** 申請種別の表示名 */
+export const APPROVAL_REQUEST_TYPE_LABELS: Record<ApprovalRequestType, string> = {
+  leave: '休暇申請',
+  attendance: '打刻修正申請'
+};
+
+/** 承認ステップ */
+export interface ApprovalStep {
+  /** ステップ名（チームリーダー・人事・給与担当 など） */
+  name: string;
+  /** 承認者の従業員ID（いずれか1人が承認すれば次のステップへ進む） */
+  approverEmployeeIds: string[];
+}
+
+/** 承認ルートの適用条件（休暇申請のみ。打刻修正申請は条件なし） */
+export interface ApprovalRouteConditions {
+  /** 休暇の日数がこの日数を超える場合に適用。null は日数を問わない */
+  leaveDaysOver: number | null;
+  /** 適用する休暇種別コード。空配列はすべての種別 */
+  leaveTypes: string[];
+}
+
+/** 承認ルート1件の設定 */
+export interface ApprovalRouteSetting {
+  name: string;
+  requestType: ApprovalRequestType;
+  conditions: ApprovalRouteConditions;
+  /** 承認ステップ（承認順） */
+  steps: ApprovalStep[];
+  /** 新しい申請に適用するかどうか */
+  isActive: boolean;
+}
+
+/** 承認履歴1件（ステップごとの承認・却下） */
+export interface ApprovalHistoryEntry {
+  /** ステップの番号（0始まり） */
+  stepIndex: number;
+  stepName: string;
+  approverEmployeeId: string;
+  approverName: string;
+  action: 'approve' | 'reject';
+  /** 承認・却下日時（ISO 8601） */
+  actedAt: string;
+  comment?: string | null;
+}
+
+/** 申請に記録された承認ルートが見つからない（削除された）ことを表す値 */
+export const MISSING_APPROVAL_ROUTE = 'missing';
+
+/** 申請の承認ルート（null は承認ルートなし、MISSING_APPROVAL_ROUTE は記録されたルートが削除済み） */
+export type RequestApprovalRoute<T extends ApprovalRouteSetting = ApprovalRouteSetting> = T | null | typeof MISSING_APPROVAL_ROUTE;
+
+/** 承認ルートを決めるための申請の項目 */
+export interface ApprovalTarget {
+  requestType: ApprovalRequestType;
+  /** 休暇の日数（休暇申請のみ） */
+  days?: number;
+  /** 休暇種別コード（休暇申請のみ） */
+  leaveType?: string;
+}
+
+/** 申請の承認の進み具合 */
+export interface ApprovalProgress {
+  /** 承認待ちのステップの番号。承認ルートが無い・全ステップ承認済みの場合は null */
+  currentStepIndex: number | null;
+  /** 承認待ちのステップ */
+  currentStep: ApprovalStep | null;
+  /** 承認済みのステップ数 */
+  approvedSteps: number;
+  /** 承認ルートのステップ数（承認ルートが無い場合は1） */
+  totalSteps: number;
+  /** 承認待ちのステップが最終ステップかどうか（承認ルートが無い場合は true） */
+  isFinalStep: boolean;
+}
+
+const matchesConditions = (route: ApprovalRouteSetting, target: ApprovalTarget): boolean => {
+  if (route.requestType !== target.requestType) return false;
+  if (target.requestType !== 'leave') return true;
+  const { leaveDaysOver, leaveTypes } = route.conditions;
+  if (leaveDaysOver !== null && (target.days ?? 0) <= leaveDaysOver) return false;
+  if (leaveTypes.length > 0 && (!target.leaveType || !leaveTypes.includes(target.leaveType))) return false;
+  return true;
+};
+
+/**
+ * 申請に適用する承認ルートを返す（有効なルートのうち条件が当てはまり、最も条件の厳しいもの）。
+ *
+ * @param {T[]} routes - 承認ルートの一覧。
+ * @param {ApprovalTarget} target - 申請の種別・日数・休暇種別。
+ * @returns {T | null} 承認ルート。当てはまるものが無ければ null（管理者の誰でも承認可）。
+ */
+export function findApprovalRoute<T extends ApprovalRouteSetting>(routes: T[], target: ApprovalTarget): T | null {
+  const candidates = routes
+    .filter(route => route.isActive && route.steps.length > 0 && matchesConditions(route, target))
+    .sort((a, b) =>
+      Number(b.conditions.leaveTypes.length > 0) - Number(a.conditions.leaveTypes.length > 0) ||
+      (b.conditions.leaveDaysOver ?? -1) - (a.conditions.leaveDaysOver ?? -1)
+    );
+  return candidates[0] ?? null;
+}
+
+/**
+ * 申請の承認ルートを返す。
+ * 申請時に決まったルートの記録があればそのルートを使い、記録が無い申請は現在のルート定義から条件で選ぶ。
+ * 記録されたルートが一覧に無い場合は、条件で選び直さず {@link MISSING_APPROVAL_ROUTE} を返す。
+ *
+ * @param {T[]} routes - 承認ルートの一覧。
+ * @param {string | null | undefined} approvalRouteId - 申請に記録された承認ルートのID。
+ * @param {ApprovalTarget} target - 申請の種別・日数・休暇種別。
+ * @returns {RequestApprovalRoute<T>} 承認ルート。
+ */
+export function resolveRequestApprovalRoute<T extends ApprovalRouteSetting & { id: string }>(
+  routes: T[],
+  approvalRouteId: string | null | undefined,
+  target: ApprovalTarget
+): RequestApprovalRoute<T> {
+  if (approvalRouteId) {
+    return routes.find(route => route.id === approvalRouteId) ?? MISSING_APPROVAL_ROUTE;
+  }
+  return findApprovalRoute(routes, target);
+}
+
+/**
+ * 承認履歴から承認の進み具合を返す。
+ * 承認済みのステップは履歴に approve があるステップとし、最初の未承認のステップを承認待ちとする。
+ * 承認ルートが削除済みの申請は承認待ちのステップなしとする。
+ *
+ * @param {RequestApprovalRoute} route - 申請の承認ルート。
+ * @param {ApprovalHistoryEntry[]} history - 申請の承認履歴。
+ * @returns {ApprovalProgress} 承認の進み具合。
+ */
+export function getApprovalProgress(route: RequestApprovalRoute, history: ApprovalHistoryEntry[]): ApprovalProgress {
+  if (route === MISSING_APPROVAL_ROUTE) {
+    return { currentStepIndex: null, currentStep: null, approvedSteps: 0, totalSteps: 0, isFinalStep: false };
+  }
+  if (!route) {
+    return { currentStepIndex: null, currentStep: null, approvedSteps: 0, totalSteps: 1, isFinalStep: true };
+  }
+  const approved = new Set(history.filter(entry => entry.action === 'approve').map(entry => entry.stepIndex));
+  const index = route.steps.findIndex((_, i) => !approved.has(i));
+  return {
+    currentStepIndex: index === -1 ? null : index,
+    currentStep: index === -1 ? null : route.steps[index],
+    approvedSteps: index === -1 ? route.steps.length : index,
+    totalSteps: route.steps.length,
+    isFinalStep: index === route.steps.length - 1
+  };
+}
+
+/**
+ * 従業員が申請の承認待ちのステップを承認できるかを返す。
+ * 承認ルートが無い申請は、管理者の誰でも承認できる。承認ルートが削除済みの申請は誰も承認できない。
+ *
+ * @param {RequestApprovalRoute} route - 申請の承認ルート。
+ * @param {ApprovalHistoryEntry[]} history - 申請の承認履歴。
+ * @param {string | null} employeeId - ログイン中の従業員ID。
+ * @returns {boolean} 承認できるなら true。
+ */
+export function isAwaitingApprover(
+  route: RequestApprovalRoute,
+  history: ApprovalHistoryEntry[],
+  employeeId: string | null
+): boolean {
+  if (route === MISSING_APPROVAL_ROUTE) return false;
+  if (!route) return true;
+  const { currentStep } = getApprovalProgress(route, history);
+  return !!currentStep && !!employeeId && currentStep.approverEmployeeIds.includes(employeeId);
+}
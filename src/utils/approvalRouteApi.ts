@@ -0,0 +1,128 @@
+/**
+ * 承認ルートAPI呼び出しユーティリティ
+ * 休暇申請・打刻修正申請の多段階承認のルート（申請種別・条件・ステップごとの承認者）を管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { ApprovalRouteSetting } from './approvalRoute';
+
+/**
+ * 承認ルート1件
+ */
+export interface ApprovalRoute extends ApprovalRouteSetting {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 承認ルート作成・更新リクエスト
+ */
+export type SaveApprovalRouteRequest = ApprovalRouteSetting;
+
+/**
+ * 承認ルート一覧取得
+ * @returns 承認ルート（無効なものを含む）
+ */
+export const getApprovalRoutes = async (): Promise<ApprovalRoute[]> => {
+  try {
+    const response = await apiRequest('/api/v1/approval-routes', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.routes || [];
+  } catch (error) {
+    logError('Failed to fetch approval routes:', error);
+    throw error;
+  }
+};
+
+/**
+ * 承認ルート作成
+ * @param payload 承認ルートの設定
+ * @returns 作成された承認ルート
+ */
+export const createApprovalRoute = async (
+  payload: SaveApprovalRouteRequest
+): Promise<ApprovalRoute> => {
+  try {
+    const response = await apiRequest('/api/v1/approval-routes', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create approval route:', error);
+    throw error;
+  }
+};
+
+/**
+ * 承認ルート更新
+ * 承認途中の申請は、申請時の承認ルート（更新後のステップ）で承認を続ける。
+ * @param routeId 承認ルートID
+ * @param payload 承認ルートの設定
+ * @returns 更新された承認ルート
+ */
+export const updateApprovalRoute = async (
+  routeId: string,
+  payload: SaveApprovalRouteRequest
+): Promise<ApprovalRoute> => {
+  try {
+    const response = await apiRequest(`/api/v1/approval-routes/${routeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to update approval route:', error);
+    throw error;
+  }
+};
+
+/**
+ * 承認ルート削除
+ * 承認途中の申請がある承認ルートは API側で 409 が返る（無効にして新しい申請に適用しない）。
+ * @param routeId 承認ルートID
+ */
+export const deleteApprovalRoute = async (routeId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/approval-routes/${routeId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete approval route:', error);
+    throw error;
+  }
+};
@@ -39,6 +39,14 @@ describe('isHolidayWorkLog', () => {
     expect(isHolidayWorkLog({ ...baseLog, workDate: MONDAY, isHolidayWork: undefined })).toBe(false);
   });
 
+  it('isHolidayWork が無い場合、平日の祝日・会社休日も休日として判定する', () => {
+    // 2024-05-06 は振替休日（月曜）
+    expect(isHolidayWorkLog({ ...baseLog, workDate: '2024-05-06', isHolidayWork: undefined })).toBe(true);
+    const companyHolidays = [{ name: '夏季休暇', startDate: '2024-08-13', endDate: '2024-08-15' }];
+    expect(isHolidayWorkLog({ ...baseLog, workDate: '2024-08-14', isHolidayWork: undefined }, companyHolidays)).toBe(true);
+    expect(isHolidayWorkLog({ ...baseLog, workDate: '2024-08-16', isHolidayWork: undefined }, companyHolidays)).toBe(false);
+  });
+
   it('複数ログの休日出勤日数を正しく数えられる（土曜の通常出勤は除外される）', () => {
     const logs = [
       { ...baseLog, workDate: SATURDAY, isHolidayWork: true },   // 休日出勤 → カウント
@@ -47,6 +55,6 @@ describe('isHolidayWorkLog', () => {
       { ...baseLog, workDate: MONDAY, isHolidayWork: true },     // 休日扱い → カウント
       { ...baseLog, clockOut: null, workDate: SATURDAY, isHolidayWork: true }, // 退勤なし → 除外
     ];
-    expect(logs.filter(isHolidayWorkLog).length).toBe(2);
+    expect(logs.filter(log => isHolidayWorkLog(log)).length).toBe(2);
   });
 });
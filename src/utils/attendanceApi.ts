@@ -5,6 +5,7 @@
 import { apiRequest } from '../config/apiConfig';
 import { error as logError } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import { isNonWorkingDay, type CompanyHolidayLike } from './holidayCalendar';
 
 /**
  * 休憩時間を表すインターフェース（APIレスポンス用）
@@ -136,6 +137,8 @@ export interface UpdateAttendanceRequest {
    * null=曜日で自動判定に戻す。省略時は変更しない。
    */
   dayTypeOverride?: DayTypeOverride | null;
+  /** 修正理由。給与明細がロックされた締め月の勤怠を修正する場合は必須（未指定はAPIが拒否する）。 */
+  reason?: string | null;
 }
 
 /**
@@ -154,18 +157,19 @@ export interface UpdateAttendanceMemoRequest {
  * 休日出勤日数の集計を単一箇所に集約するためのヘルパー（フロント側の曜日判定の二重実装を解消）。
  * 出退勤が揃っていない日はカウント対象外。バックエンドが返す `isHolidayWork`（`dayTypeOverride` 反映済みの
  * 確定判定）を優先し、これにより土曜の通常出勤（`dayTypeOverride='weekday'`）も正しく休日出勤から除外される。
- * 旧レスポンス互換で `isHolidayWork` が無い場合のみ、従来どおり曜日（土日）で判定する。
+ * 旧レスポンス互換で `isHolidayWork` が無い場合のみ、休日カレンダー（土日・祝日・会社休日）で判定する。
  *
  * @param {Pick<AttendanceLog, 'clockIn' | 'clockOut' | 'workDate' | 'isHolidayWork'>} log - 判定対象の勤怠ログ
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日（フォールバック判定用）
  * @returns {boolean} その日を休日出勤としてカウントするなら true
  */
 export const isHolidayWorkLog = (
-  log: Pick<AttendanceLog, 'clockIn' | 'clockOut' | 'workDate' | 'isHolidayWork'>
+  log: Pick<AttendanceLog, 'clockIn' | 'clockOut' | 'workDate' | 'isHolidayWork'>,
+  companyHolidays: CompanyHolidayLike[] = []
 ): boolean => {
   if (!log.clockIn || !log.clockOut) return false;
   if (typeof log.isHolidayWork === 'boolean') return log.isHolidayWork;
-  const day = new Date(log.workDate).getDay();
-  return day === 0 || day === 6; // 日曜=0, 土曜=6
+  return isNonWorkingDay(log.workDate, companyHolidays);
 };
 
 /**
@@ -291,23 +295,35 @@ export interface StampLocation {
   accuracy: number;
 }
 
+/**
+ * 打刻APIのリクエストボディを作る。
+ * @param location 位置情報（オプション）
+ * @param stampedAt 端末で打刻した日時（YYYY-MM-DD HH:MM:SS、JST。オフライン中に端末に保存した打刻の送信時のみ）
+ * @returns リクエストボディ（送る項目が無い場合は undefined）
+ */
+const buildStampBody = (location?: StampLocation, stampedAt?: string): string | undefined => {
+  if (!location && !stampedAt) return undefined;
+  return JSON.stringify({
+    ...(location
+      ? { latitude: location.latitude, longitude: location.longitude, accuracy: location.accuracy }
+      : {}),
+    ...(stampedAt ? { stampedAt } : {})
+  });
+};
+
 /**
  * 出勤打刻
  * 注意: リクエストボディは不要です（日付と時刻はサーバー側で自動的に取得されます）
  * 出勤日はサーバー側（API）で現在の日付を自動的に使用します
  * 出勤時刻はサーバー側（API）で現在時刻を自動的に使用します
+ * オフライン中に端末に保存した打刻は、端末で打刻した日時（stampedAt）を送信し、サーバー側で妥当性を検証します
  * @param location 位置情報（オプション）。取得した座標と精度を送信
+ * @param stampedAt 端末で打刻した日時（オプション、YYYY-MM-DD HH:MM:SS形式、JST）
  * @returns 勤怠記録
  */
-export const clockIn = async (location?: StampLocation): Promise<AttendanceLog> => {
+export const clockIn = async (location?: StampLocation, stampedAt?: string): Promise<AttendanceLog> => {
   try {
-    const body = location
-      ? JSON.stringify({
-          latitude: location.latitude,
-          longitude: location.longitude,
-          accuracy: location.accuracy
-        })
-      : undefined;
+    const body = buildStampBody(location, stampedAt);
 
     const response = await apiRequest('/api/v1/attendance/clock-in', {
       method: 'POST',
@@ -333,18 +349,14 @@ export const clockIn = async (location?: StampLocation): Promise<AttendanceLog>
  * 注意: リクエストボディは不要です（日付と時刻はサーバー側で自動的に取得されます）
  * 退勤日はサーバー側（API）で現在の日付を自動的に使用します
  * 退勤時刻はサーバー側（API）で現在時刻を自動的に使用します
+ * オフライン中に端末に保存した打刻は、端末で打刻した日時（stampedAt）を送信し、サーバー側で妥当性を検証します
  * @param location 位置情報（オプション）。取得した座標と精度を送信
+ * @param stampedAt 端末で打刻した日時（オプション、YYYY-MM-DD HH:MM:SS形式、JST）
  * @returns 勤怠記録
  */
-export const clockOut = async (location?: StampLocation): Promise<AttendanceLog> => {
+export const clockOut = async (location?: StampLocation, stampedAt?: string): Promise<AttendanceLog> => {
   try {
-    const body = location
-      ? JSON.stringify({
-          latitude: location.latitude,
-          longitude: location.longitude,
-          accuracy: location.accuracy
-        })
-      : undefined;
+    const body = buildStampBody(location, stampedAt);
 
     const response = await apiRequest('/api/v1/attendance/clock-out', {
       method: 'POST',
@@ -371,12 +383,15 @@ export const clockOut = async (location?: StampLocation): Promise<AttendanceLog>
  * リクエストボディは不要です（日付と時刻はサーバー側で自動的に取得されます）
  * 休憩開始日はサーバー側（API）で現在の日付を自動的に使用します
  * 休憩開始時刻はサーバー側（API）で現在時刻を自動的に使用します
+ * オフライン中に端末に保存した打刻は、端末で打刻した日時（stampedAt）を送信し、サーバー側で妥当性を検証します
+ * @param stampedAt 端末で打刻した日時（オプション、YYYY-MM-DD HH:MM:SS形式、JST）
  * @returns 勤怠記録
  */
-export const startBreak = async (): Promise<AttendanceLog> => {
+export const startBreak = async (stampedAt?: string): Promise<AttendanceLog> => {
   try {
     const response = await apiRequest('/api/v1/attendance/break/start', {
       method: 'POST',
+      body: buildStampBody(undefined, stampedAt),
     });
 
     if (!response.ok) {
@@ -400,12 +415,15 @@ export const startBreak = async (): Promise<AttendanceLog> => {
  * 休憩終了日はサーバー側（API）で現在の日付を自動的に使用します
  * 休憩終了時刻はサーバー側（API）で現在時刻を自動的に使用します
  * 指定された日付の勤怠記録に存在する最新の未終了の休憩記録を終了します
+ * オフライン中に端末に保存した打刻は、端末で打刻した日時（stampedAt）を送信し、サーバー側で妥当性を検証します
+ * @param stampedAt 端末で打刻した日時（オプション、YYYY-MM-DD HH:MM:SS形式、JST）
  * @returns 勤怠記録
  */
-export const endBreak = async (): Promise<AttendanceLog> => {
+export const endBreak = async (stampedAt?: string): Promise<AttendanceLog> => {
   try {
     const response = await apiRequest('/api/v1/attendance/break/end', {
       method: 'POST',
+      body: buildStampBody(undefined, stampedAt),
     });
 
     if (!response.ok) {
@@ -0,0 +1,184 @@
+/**
+ * attendanceImport のユニットテスト。
+ *
+ * 対象: normalizeAttendanceTime / buildAttendanceImportPlan / mergeAttendanceImportRecord / buildAttendanceImportRequest
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（過去勤怠のCSV取込）
+ *
+ * 他の勤怠システムの打刻を従業員ID・メールアドレスで照合し、日付をまたぐ時刻を翌日の日時にして取り込む。
+ * 勤怠が登録済みの日は競合として、残す・上書き・統合のいずれかで取り込む。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  ATTENDANCE_IMPORT_FIELDS,
+  buildAttendanceImportPlan,
+  buildAttendanceImportRequest,
+  describeAttendanceImportRecord,
+  mergeAttendanceImportRecord,
+  normalizeAttendanceTime,
+  type AttendanceImportContext
+} from './attendanceImport';
+import { autoMapCsvColumns } from './csvImport';
+import type { AttendanceLog } from './attendanceApi';
+
+const existingLog: AttendanceLog = {
+  attendanceId: 'AT1',
+  employeeId: 'E001',
+  workDate: '2025-04-02',
+  clockIn: '2025-04-02 09:00:00',
+  clockOut: null,
+  breaks: [{ id: 'B1', start: '2025-04-02 12:00:00', end: '2025-04-02 13:00:00' }],
+  status: 'working',
+  updatedAt: '2025-04-02 09:00:00'
+};
+
+const context: AttendanceImportContext = {
+  employees: [
+    { id: 'E001', firstName: '山田', lastName: '太郎', email: 'yamada@example.com' },
+    { id: 'E002', firstName: '鈴木', lastName: '花子', email: 'suzuki@example.com' }
+  ],
+  logs: [existingLog],
+  payrollLocks: [{ employeeId: 'E002', year: 2025, month: 4 }],
+  closingRules: []
+};
+
+const headers = ['社員番号', 'メール', '日付', '出勤', '退勤', '休憩開始', '休憩終了'];
+const mapping = autoMapCsvColumns(headers, ATTENDANCE_IMPORT_FIELDS);
+
+describe('normalizeAttendanceTime', () => {
+  it('「翌朝」「翌」・24時以降・出勤時刻より前の時刻を翌日の日時にする', () => {
+    expect(normalizeAttendanceTime('9:00', '2025-04-01')).toBe('2025-04-01 09:00:00');
+    expect(normalizeAttendanceTime('翌朝04:30', '2025-04-01')).toBe('2025-04-02 04:30:00');
+    expect(normalizeAttendanceTime('翌 1:15:30', '2025-04-30')).toBe('2025-05-01 01:15:30');
+    expect(normalizeAttendanceTime('28:30', '2025-12-31')).toBe('2026-01-01 04:30:00');
+    expect(normalizeAttendanceTime('０２：００', '2025-04-01', '2025-04-01 22:00:00')).toBe('2025-04-02 02:00:00');
+    expect(normalizeAttendanceTime('23:00', '2025-04-01', '2025-04-01 22:00:00')).toBe('2025-04-01 23:00:00');
+  });
+
+  it('日付付きの値はその日付の日時にし、形式が正しくない値は null にする', () => {
+    expect(normalizeAttendanceTime('2025/4/2 4:30', '2025-04-01', '2025-04-01 22:00:00')).toBe('2025-04-02 04:30:00');
+    expect(normalizeAttendanceTime('9時', '2025-04-01')).toBe(null);
+    expect(normalizeAttendanceTime('12:60', '2025-04-01')).toBe(null);
+    expect(normalizeAttendanceTime('翌25:00', '2025-04-01')).toBe(null);
+  });
+});
+
+describe('buildAttendanceImportPlan', () => {
+  it('従業員ID・メールアドレスで照合し、同じ日の出退勤の行と休憩の行を1日にまとめる', () => {
+    const days = buildAttendanceImportPlan(
+      [
+        ['', 'YAMADA@example.com', '2025/4/1', '22:00', '翌朝06:00', '', ''],
+        ['E001', '', '2025-04-01', '', '', '2:00', '3:00'],
+        ['E001', '', '2025-04-01', '', '', '0:00', '0:30']
+      ],
+      mapping,
+      context
+    );
+
+    expect(days).toHaveLength(1);
+    expect(days[0]).toMatchObject({
+      action: 'create',
+      employeeId: 'E001',
+      employeeName: '山田 太郎',
+      workDate: '2025-04-01',
+      rowNumbers: [2, 3, 4],
+      isLocked: false,
+      record: {
+        clockIn: '2025-04-01 22:00:00',
+        clockOut: '2025-04-02 06:00:00',
+        breaks: [
+          { start: '2025-04-02 00:00:00', end: '2025-04-02 00:30:00' },
+          { start: '2025-04-02 02:00:00', end: '2025-04-02 03:00:00' }
+        ]
+      }
+    });
+    expect(describeAttendanceImportRecord(days[0].record, days[0].workDate)).toBe('22:00〜翌朝06:00（休憩 翌朝00:00〜翌朝00:30、翌朝02:00〜翌朝03:00）');
+  });
+
+  it('登録済みの勤怠がある日は競合、同じ内容なら変更なしにし、ロックされた締め月の日を示す', () => {
+    const days = buildAttendanceImportPlan(
+      [
+        ['E001', '', '2025-04-02', '9:00', '18:00', '12:00', '13:00'],
+        ['E001', '', '2025-04-02', '', '', '15:00', '15:15'],
+        ['E002', '', '2025-04-10', '9:00', '18:00', '', '']
+      ],
+      mapping,
+      { ...context, logs: [existingLog, { ...existingLog, attendanceId: 'AT2', employeeId: 'E002', workDate: '2025-04-10', clockIn: '2025-04-10 09:00:00', clockOut: '2025-04-10 18:00:00', breaks: [] }] }
+    );
+
+    expect(days.map(day => day.action)).toEqual(['conflict', 'unchanged']);
+    expect(days[0].existing).toBe(existingLog);
+    expect(days[1].isLocked).toBe(true);
+  });
+
+  it('従業員・勤務日・時刻の誤りと出退勤・休憩の前後関係の誤りはエラーにする', () => {
+    const days = buildAttendanceImportPlan(
+      [
+        ['E999', '', '2025-04-01', '9:00', '18:00', '', ''],
+        ['', '', '2025-04-31', '9:00', '18:00', '', ''],
+        ['E001', '', '2025-04-03', '9:00', '18:00', '12:00', ''],
+        ['E001', '', '2025-04-04', '9:00', '18:00', '8:00', '9:30'],
+        ['E001', '', '2025-04-05', '9:00', '18:00', '12:00', '13:00'],
+        ['E001', '', '2025-04-05', '', '', '12:30', '13:30'],
+        ['E001', '', '2025-04-06', '9:00', '18:00', '', ''],
+        ['E001', '', '2025-04-06', '10:00', '', '', ''],
+        ['E002', '', '2025-04-07', '', '18:00', '', ''],
+        ['E002', '', '2025-04-08', '9:00', '', '', '']
+      ],
+      mapping,
+      context
+    );
+
+    expect(days.map(day => day.action)).toEqual(['error', 'error', 'error', 'error', 'error', 'error', 'error', 'create']);
+    expect(days[0].errors).toEqual(['2行目: 従業員ID「E999」の従業員が見つかりません']);
+    expect(days[1].errors).toEqual(['3行目: 従業員IDまたはメールアドレスを入力してください', '3行目: 勤務日の値「2025-04-31」が正しくありません']);
+    expect(days[2].errors).toEqual(['4行目: 休憩は開始時刻と終了時刻の両方を入力してください']);
+    expect(days[3].errors).toEqual(['休憩は出勤から退勤までの時間にしてください']);
+    expect(days[4].errors).toEqual(['休憩の時間が重なっています']);
+    expect(days[5].errors).toEqual(['出勤時刻が複数あります（9:00、10:00）']);
+    expect(days[6].errors).toEqual(['出勤時刻を入力してください']);
+    expect(days[7].warnings).toEqual(['退勤時刻が無いため、勤務中の記録として登録します']);
+  });
+});
+
+describe('mergeAttendanceImportRecord / buildAttendanceImportRequest', () => {
+  const [conflict] = buildAttendanceImportPlan(
+    [
+      ['E001', '', '2025-04-02', '8:30', '18:00', '12:30', '13:30'],
+      ['E001', '', '2025-04-02', '', '', '15:00', '15:15']
+    ],
+    mapping,
+    context
+  );
+
+  it('統合は登録済みの時刻を残して空欄の時刻を埋め、登録済みと重ならない休憩を加える', () => {
+    expect(mergeAttendanceImportRecord(existingLog, conflict.record)).toEqual({
+      clockIn: '2025-04-02 09:00:00',
+      clockOut: '2025-04-02 18:00:00',
+      breaks: [
+        { start: '2025-04-02 12:00:00', end: '2025-04-02 13:00:00' },
+        { start: '2025-04-02 15:00:00', end: '2025-04-02 15:15:00' }
+      ]
+    });
+  });
+
+  it('残すは登録せず、上書きはCSVの内容、統合は統合後の内容で更新する', () => {
+    expect(buildAttendanceImportRequest(conflict, 'keep')).toBe(null);
+    expect(buildAttendanceImportRequest(conflict, 'overwrite')).toEqual({
+      employeeId: 'E001',
+      workDate: '2025-04-02',
+      clockIn: '2025-04-02 08:30:00',
+      clockOut: '2025-04-02 18:00:00',
+      breaks: [
+        { start: '2025-04-02 12:30:00', end: '2025-04-02 13:30:00' },
+        { start: '2025-04-02 15:00:00', end: '2025-04-02 15:15:00' }
+      ]
+    });
+    expect(buildAttendanceImportRequest(conflict, 'merge')?.clockOut).toBe('2025-04-02 18:00:00');
+  });
+
+  it('統合しても登録済みの内容と変わらない日は登録しない', () => {
+    const [day] = buildAttendanceImportPlan([['E001', '', '2025-04-02', '8:30', '', '12:30', '13:30']], mapping, context);
+    expect(day.action).toBe('conflict');
+    expect(buildAttendanceImportRequest(day, 'merge')).toBe(null);
+  });
+});
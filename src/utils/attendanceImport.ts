@@ -0,0 +1,411 @@
+/**
+ * 他の勤怠システムから出力した過去の打刻（CSV）の取込ユーティリティ。
+ *
+ * - 従業員は従業員ID（従業員コード）またはメールアドレスで照合する
+ * - 同じ従業員・勤務日の行は1日分にまとめる（出退勤の行と休憩の行が分かれたCSVにも対応）
+ * - 日付をまたぐ時刻は勤務日の翌日の日時にする。「翌朝04:00」「翌04:00」（出勤簿の「翌朝」表記）と
+ *   24時以降の表記（「28:00」）、出勤時刻より前の時刻（退勤・休憩）を翌日として扱う
+ * - 勤怠が登録済みの日は競合として、残す（keep）・上書き（overwrite）・統合（merge）を選んで取り込む
+ */
+
+import type { AttendanceLog, BreakRequest, UpdateAttendanceRequest } from './attendanceApi';
+import type { EmployeeResponse } from './employeeApi';
+import type { PayrollPeriodLock } from './payrollApi';
+import type { PayrollClosingRuleLike } from './payrollPeriod';
+import type { CsvColumnMapping, CsvImportField } from './csvImport';
+import { parseCsvDate } from './csvImport';
+import { isWorkDateInLockedPayrollPeriod } from './payrollStatus';
+
+/** 取込項目 */
+export type AttendanceImportFieldKey = 'employeeId' | 'email' | 'workDate' | 'clockIn' | 'clockOut' | 'breakStart' | 'breakEnd';
+
+/** 取込項目の定義（CSVのひな形の列の並び順） */
+export const ATTENDANCE_IMPORT_FIELDS: CsvImportField<AttendanceImportFieldKey>[] = [
+  { key: 'employeeId', label: '従業員ID', aliases: ['従業員コード', '社員番号', '社員コード'] },
+  { key: 'email', label: 'メールアドレス', aliases: ['メール'] },
+  { key: 'workDate', label: '勤務日', aliases: ['日付', '出勤日'] },
+  { key: 'clockIn', label: '出勤時刻', aliases: ['出勤', '始業時刻', '出社時刻'] },
+  { key: 'clockOut', label: '退勤時刻', aliases: ['退勤', '終業時刻', '退社時刻'] },
+  { key: 'breakStart', label: '休憩開始時刻', aliases: ['休憩開始', '休憩入り'] },
+  { key: 'breakEnd', label: '休憩終了時刻', aliases: ['休憩終了', '休憩戻り'] }
+];
+
+/** 取込で参照する従業員・登録済みの勤怠・給与明細のロック */
+export interface AttendanceImportContext {
+  employees: Array<Pick<EmployeeResponse, 'id' | 'firstName' | 'lastName' | 'email'>>;
+  /** 取込期間の登録済みの勤怠 */
+  logs: AttendanceLog[];
+  payrollLocks: PayrollPeriodLock[];
+  closingRules: PayrollClosingRuleLike[];
+}
+
+/** 日ごとの取込内容（create: 新規登録 / conflict: 登録済みの勤怠と異なる / unchanged: 登録済みと同じ / error: エラーのため取り込まない） */
+export type AttendanceImportAction = 'create' | 'conflict' | 'unchanged' | 'error';
+
+/** 登録済みの勤怠がある日の対応（keep: 登録済みを残す / overwrite: CSVで上書き / merge: 登録済みの空欄をCSVで埋め、重ならない休憩を加える） */
+export type AttendanceImportResolution = 'keep' | 'overwrite' | 'merge';
+
+/** 1日分の出退勤・休憩（時刻は YYYY-MM-DD HH:MM:SS 形式） */
+export interface AttendanceImportRecord {
+  clockIn: string | null;
+  clockOut: string | null;
+  breaks: BreakRequest[];
+}
+
+/** 従業員・勤務日ごとの取込内容（登録前の確認用） */
+export interface AttendanceImportDay {
+  /** 従業員ID・勤務日（エラーで特定できない行は行番号）ごとの一意なキー */
+  key: string;
+  /** この日の元になったCSVの行番号（見出し行を1行目とする） */
+  rowNumbers: number[];
+  action: AttendanceImportAction;
+  employeeId: string | null;
+  employeeName: string;
+  workDate: string;
+  /** CSVの出退勤・休憩 */
+  record: AttendanceImportRecord;
+  /** 登録済みの勤怠（無い場合は null） */
+  existing: AttendanceLog | null;
+  /** 給与明細がロックされた締め月の勤務日か（取込には修正理由が必要） */
+  isLocked: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/** 1日の秒数 */
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** 翌日を表す接頭辞（「翌朝」は出勤簿の表記） */
+const NEXT_DAY_PREFIX = /^(翌朝|翌日|翌)\s*/;
+
+/**
+ * 日付に日数を足す。
+ *
+ * @param {string} date - 日付（YYYY-MM-DD）。
+ * @param {number} days - 足す日数。
+ * @returns {string} 日付（YYYY-MM-DD）。
+ */
+const addDays = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * 時刻（H:MM / H:MM:SS）を0時からの秒数にする。
+ *
+ * @param {string} value - 時刻。
+ * @returns {number | null} 秒数（24時以降の表記はそのまま24時間を超える秒数）。形式が正しくない場合は null。
+ */
+const parseClockSeconds = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+  if (minutes > 59 || seconds > 59 || hours > 47) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+/**
+ * 勤務日の0時からの秒数を YYYY-MM-DD HH:MM:SS 形式にする。
+ *
+ * @param {string} workDate - 勤務日（YYYY-MM-DD）。
+ * @param {number} seconds - 勤務日の0時からの秒数。
+ * @returns {string} 日時（YYYY-MM-DD HH:MM:SS、JST）。
+ */
+const toDateTime = (workDate: string, seconds: number): string => {
+  const days = Math.floor(seconds / SECONDS_PER_DAY);
+  const rest = seconds - days * SECONDS_PER_DAY;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${addDays(workDate, days)} ${pad(Math.floor(rest / 3600))}:${pad(Math.floor(rest / 60) % 60)}:${pad(rest % 60)}`;
+};
+
+/**
+ * CSVの時刻を勤務日の日時（YYYY-MM-DD HH:MM:SS）にする。
+ *
+ * 「翌朝」「翌」を付けた時刻と24時以降の表記は翌日、日付付きの値はその日付のまま扱う。
+ * それ以外の時刻は勤務日の時刻とし、基準の日時（出勤時刻など）より前なら翌日の時刻とする。
+ *
+ * @param {string} value - CSVの時刻（例: "9:00"、"翌朝04:30"、"28:30"、"2025/4/2 04:30"）。
+ * @param {string} workDate - 勤務日（YYYY-MM-DD）。
+ * @param {string | null} [after] - 基準の日時（YYYY-MM-DD HH:MM:SS）。これより前の時刻は翌日にする。
+ * @returns {string | null} 日時（YYYY-MM-DD HH:MM:SS、JST）。形式が正しくない場合は null。
+ */
+export function normalizeAttendanceTime(value: string, workDate: string, after?: string | null): string | null {
+  const text = value.normalize('NFKC').trim();
+  const withDate = text.match(/^(\d{4}[-/]\d{1,2}[-/]\d{1,2})[\sT]+(\S+)$/);
+  if (withDate) {
+    const date = parseCsvDate(withDate[1]);
+    const seconds = parseClockSeconds(withDate[2]);
+    return date && seconds !== null && seconds < SECONDS_PER_DAY ? toDateTime(date, seconds) : null;
+  }
+
+  const isNextDay = NEXT_DAY_PREFIX.test(text);
+  const seconds = parseClockSeconds(text.replace(NEXT_DAY_PREFIX, ''));
+  if (seconds === null) return null;
+  if (isNextDay) return seconds < SECONDS_PER_DAY ? toDateTime(workDate, seconds + SECONDS_PER_DAY) : null;
+  if (seconds >= SECONDS_PER_DAY) return toDateTime(workDate, seconds);
+
+  const dateTime = toDateTime(workDate, seconds);
+  return after && dateTime < after ? toDateTime(workDate, seconds + SECONDS_PER_DAY) : dateTime;
+}
+
+/**
+ * 日時を勤務日から見た表示用の時刻にする（翌日以降は出勤簿と同じく「翌朝」を付ける）。
+ *
+ * @param {string | null} dateTime - 日時（YYYY-MM-DD HH:MM:SS）。
+ * @param {string} workDate - 勤務日（YYYY-MM-DD）。
+ * @returns {string} 表示用の時刻（例: "09:00"、"翌朝04:30"）。日時が無い場合は "-"。
+ */
+export function formatAttendanceImportTime(dateTime: string | null, workDate: string): string {
+  if (!dateTime) return '-';
+  const time = dateTime.slice(11, 16);
+  return dateTime.slice(0, 10) > workDate ? `翌朝${time}` : time;
+}
+
+/**
+ * 1日分の出退勤・休憩を表示用の文字列にする。
+ *
+ * @param {AttendanceImportRecord} record - 出退勤・休憩。
+ * @param {string} workDate - 勤務日（YYYY-MM-DD）。
+ * @returns {string} 表示用の文字列（例: "09:00〜18:00（休憩 12:00〜13:00）"）。
+ */
+export function describeAttendanceImportRecord(record: AttendanceImportRecord, workDate: string): string {
+  const work = `${formatAttendanceImportTime(record.clockIn, workDate)}〜${formatAttendanceImportTime(record.clockOut, workDate)}`;
+  if (record.breaks.length === 0) return work;
+  const breaks = record.breaks
+    .map(b => `${formatAttendanceImportTime(b.start, workDate)}〜${formatAttendanceImportTime(b.end, workDate)}`)
+    .join('、');
+  return `${work}（休憩 ${breaks}）`;
+}
+
+/**
+ * 登録済みの勤怠を出退勤・休憩にする。
+ *
+ * @param {AttendanceLog} log - 登録済みの勤怠。
+ * @returns {AttendanceImportRecord} 出退勤・休憩（休憩は開始時刻順）。
+ */
+const toRecord = (log: AttendanceLog): AttendanceImportRecord => ({
+  clockIn: log.clockIn,
+  clockOut: log.clockOut,
+  breaks: log.breaks.map(b => ({ start: b.start, end: b.end })).sort((a, b) => a.start.localeCompare(b.start))
+});
+
+/**
+ * 出退勤・休憩が同じかを返す。
+ *
+ * @param {AttendanceImportRecord} a - 出退勤・休憩。
+ * @param {AttendanceImportRecord} b - 出退勤・休憩。
+ * @returns {boolean} 同じなら true。
+ */
+const isSameRecord = (a: AttendanceImportRecord, b: AttendanceImportRecord): boolean =>
+  a.clockIn === b.clockIn &&
+  a.clockOut === b.clockOut &&
+  a.breaks.length === b.breaks.length &&
+  a.breaks.every((item, i) => item.start === b.breaks[i].start && item.end === b.breaks[i].end);
+
+/**
+ * 休憩どうしが重なるかを返す（終了時刻の無い休憩は開始時刻以降ずっと続くものとする）。
+ *
+ * @param {BreakRequest} a - 休憩。
+ * @param {BreakRequest} b - 休憩。
+ * @returns {boolean} 重なるなら true。
+ */
+const overlaps = (a: BreakRequest, b: BreakRequest): boolean =>
+  (a.end === null || b.start < a.end) && (b.end === null || a.start < b.end);
+
+/**
+ * 登録済みの勤怠とCSVの出退勤・休憩を統合する。
+ *
+ * 登録済みの出勤・退勤時刻を優先し、空欄の時刻だけをCSVで埋める。休憩は登録済みの休憩と重ならないCSVの休憩を加える。
+ *
+ * @param {AttendanceLog} existing - 登録済みの勤怠。
+ * @param {AttendanceImportRecord} imported - CSVの出退勤・休憩。
+ * @returns {AttendanceImportRecord} 統合後の出退勤・休憩（休憩は開始時刻順）。
+ */
+export function mergeAttendanceImportRecord(existing: AttendanceLog, imported: AttendanceImportRecord): AttendanceImportRecord {
+  const current = toRecord(existing);
+  const addedBreaks = imported.breaks.filter(item => !current.breaks.some(b => overlaps(b, item)));
+  return {
+    clockIn: current.clockIn ?? imported.clockIn,
+    clockOut: current.clockOut ?? imported.clockOut,
+    breaks: [...current.breaks, ...addedBreaks].sort((a, b) => a.start.localeCompare(b.start))
+  };
+}
+
+/**
+ * 日ごとの取込内容と競合の対応から、勤怠記録更新APIのリクエストを作る。
+ *
+ * @param {AttendanceImportDay} day - 日ごとの取込内容。
+ * @param {AttendanceImportResolution} resolution - 登録済みの勤怠がある日の対応（新規登録の日は使わない）。
+ * @returns {UpdateAttendanceRequest | null} リクエスト。登録しない日（エラー・変更なし・登録済みを残す・統合しても変わらない）は null。
+ */
+export function buildAttendanceImportRequest(
+  day: AttendanceImportDay,
+  resolution: AttendanceImportResolution
+): UpdateAttendanceRequest | null {
+  if (!day.employeeId || day.action === 'error' || day.action === 'unchanged') return null;
+  let record = day.record;
+  if (day.action === 'conflict' && day.existing) {
+    if (resolution === 'keep') return null;
+    if (resolution === 'merge') {
+      record = mergeAttendanceImportRecord(day.existing, day.record);
+      if (isSameRecord(record, toRecord(day.existing))) return null;
+    }
+  }
+  return {
+    employeeId: day.employeeId,
+    workDate: day.workDate,
+    clockIn: record.clockIn,
+    clockOut: record.clockOut,
+    breaks: record.breaks
+  };
+}
+
+/**
+ * CSVの勤務日の範囲を返す（登録済みの勤怠・給与明細のロックを取得する期間）。
+ *
+ * @param {string[][]} rows - CSVの明細行（見出し行を除く）。
+ * @param {CsvColumnMapping<AttendanceImportFieldKey>} mapping - 取込項目ごとの列番号。
+ * @returns {{ startDate: string; endDate: string } | null} 最初と最後の勤務日（YYYY-MM-DD）。正しい勤務日が無い場合は null。
+ */
+export function getAttendanceImportDateRange(
+  rows: string[][],
+  mapping: CsvColumnMapping<AttendanceImportFieldKey>
+): { startDate: string; endDate: string } | null {
+  const column = mapping.workDate;
+  if (column === null || column === undefined) return null;
+  const dates = rows
+    .map(row => parseCsvDate((row[column] ?? '').trim()))
+    .filter((date): date is string => !!date)
+    .sort();
+  return dates.length > 0 ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null;
+}
+
+/**
+ * CSVの行から従業員・勤務日ごとの取込内容を作る（登録はしない）。
+ *
+ * @param {string[][]} rows - CSVの明細行（見出し行を除く）。
+ * @param {CsvColumnMapping<AttendanceImportFieldKey>} mapping - 取込項目ごとの列番号。
+ * @param {AttendanceImportContext} context - 従業員・登録済みの勤怠・給与明細のロック。
+ * @returns {AttendanceImportDay[]} 従業員・勤務日ごとの取込内容（CSVで最初に出てきた順）。
+ */
+export function buildAttendanceImportPlan(
+  rows: string[][],
+  mapping: CsvColumnMapping<AttendanceImportFieldKey>,
+  context: AttendanceImportContext
+): AttendanceImportDay[] {
+  const labelOf = (key: AttendanceImportFieldKey) => ATTENDANCE_IMPORT_FIELDS.find(field => field.key === key)?.label ?? key;
+  /** 従業員・勤務日ごとの行（キーは「従業員ID|勤務日」、特定できない行は「row:行番号」） */
+  const groups = new Map<string, { employee: AttendanceImportContext['employees'][number] | null; workDate: string; rows: Array<{ rowNumber: number; row: string[] }>; errors: string[] }>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (key: AttendanceImportFieldKey) => {
+      const column = mapping[key];
+      return column === null || column === undefined ? '' : (row[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    let employee: AttendanceImportContext['employees'][number] | undefined;
+    if (cell('employeeId')) {
+      employee = context.employees.find(e => e.id === cell('employeeId'));
+      if (!employee) errors.push(`${rowNumber}行目: 従業員ID「${cell('employeeId')}」の従業員が見つかりません`);
+    } else if (cell('email')) {
+      employee = context.employees.find(e => e.email.toLowerCase() === cell('email').toLowerCase());
+      if (!employee) errors.push(`${rowNumber}行目: メールアドレス「${cell('email')}」の従業員が見つかりません`);
+    } else {
+      errors.push(`${rowNumber}行目: 従業員IDまたはメールアドレスを入力してください`);
+    }
+    const workDate = parseCsvDate(cell('workDate'));
+    if (!workDate) {
+      errors.push(cell('workDate')
+        ? `${rowNumber}行目: ${labelOf('workDate')}の値「${cell('workDate')}」が正しくありません`
+        : `${rowNumber}行目: ${labelOf('workDate')}を入力してください`);
+    }
+
+    const key = employee && workDate ? `${employee.id}|${workDate}` : `row:${rowNumber}`;
+    const group = groups.get(key) ?? { employee: employee ?? null, workDate: workDate ?? cell('workDate'), rows: [], errors };
+    group.rows.push({ rowNumber, row });
+    groups.set(key, group);
+  });
+
+  return [...groups.entries()].map(([dayKey, group]) => {
+    const { employee, workDate } = group;
+    const errors = [...group.errors];
+    const warnings: string[] = [];
+    const cellsOf = (key: AttendanceImportFieldKey) => group.rows.map(({ rowNumber, row }) => {
+      const column = mapping[key];
+      return { rowNumber, value: column === null || column === undefined ? '' : (row[column] ?? '').trim() };
+    });
+    /** 出勤・退勤時刻（1日に1つ。複数の行にある場合は同じ値であること） */
+    const singleTime = (key: AttendanceImportFieldKey, after: string | null): string | null => {
+      const values = [...new Set(cellsOf(key).map(c => c.value).filter(Boolean))];
+      if (values.length > 1) {
+        errors.push(`${labelOf(key)}が複数あります（${values.join('、')}）`);
+        return null;
+      }
+      if (values.length === 0) return null;
+      const dateTime = normalizeAttendanceTime(values[0], workDate, after);
+      if (!dateTime) errors.push(`${labelOf(key)}の値「${values[0]}」が正しくありません`);
+      return dateTime;
+    };
+
+    const record: AttendanceImportRecord = { clockIn: null, clockOut: null, breaks: [] };
+    if (errors.length === 0) {
+      record.clockIn = singleTime('clockIn', null);
+      record.clockOut = singleTime('clockOut', record.clockIn);
+      const breakEnds = cellsOf('breakEnd');
+      cellsOf('breakStart').forEach(({ rowNumber, value: startValue }, i) => {
+        const endValue = breakEnds[i].value;
+        if (!startValue && !endValue) return;
+        if (!startValue || !endValue) {
+          errors.push(`${rowNumber}行目: 休憩は開始時刻と終了時刻の両方を入力してください`);
+          return;
+        }
+        const start = normalizeAttendanceTime(startValue, workDate, record.clockIn);
+        const end = start ? normalizeAttendanceTime(endValue, workDate, start) : null;
+        if (!start || !end) {
+          errors.push(`${rowNumber}行目: 休憩の値「${startValue}〜${endValue}」が正しくありません`);
+          return;
+        }
+        // 出退勤の行ごとに同じ休憩が書かれたCSVは1つの休憩として扱う
+        if (!record.breaks.some(b => b.start === start && b.end === end)) record.breaks.push({ start, end });
+      });
+      record.breaks.sort((a, b) => a.start.localeCompare(b.start));
+
+      if (errors.length === 0) {
+        if (!record.clockIn) errors.push(`${labelOf('clockIn')}を入力してください`);
+        if (record.clockIn && record.clockOut && record.clockOut <= record.clockIn) errors.push('退勤時刻は出勤時刻より後にしてください');
+        if (record.clockIn && record.breaks.some(b => b.start < record.clockIn! || (record.clockOut && b.end && b.end > record.clockOut))) {
+          errors.push('休憩は出勤から退勤までの時間にしてください');
+        }
+        if (record.breaks.some((b, i) => i > 0 && overlaps(record.breaks[i - 1], b))) errors.push('休憩の時間が重なっています');
+        if (record.clockIn && !record.clockOut) warnings.push('退勤時刻が無いため、勤務中の記録として登録します');
+      }
+    }
+
+    const existing = employee && errors.length === 0
+      ? context.logs.find(log =>
+          log.employeeId === employee.id &&
+          log.workDate === workDate &&
+          (!!log.clockIn || !!log.clockOut || log.breaks.length > 0)) ?? null
+      : null;
+    const action: AttendanceImportAction = errors.length > 0
+      ? 'error'
+      : !existing ? 'create' : isSameRecord(toRecord(existing), record) ? 'unchanged' : 'conflict';
+
+    return {
+      key: dayKey,
+      rowNumbers: group.rows.map(r => r.rowNumber),
+      action,
+      employeeId: employee?.id ?? null,
+      employeeName: employee ? `${employee.firstName} ${employee.lastName}` : '',
+      workDate,
+      record,
+      existing,
+      isLocked: !!employee && action !== 'error' &&
+        isWorkDateInLockedPayrollPeriod(context.payrollLocks, employee.id, workDate, context.closingRules),
+      errors: [...new Set(errors)],
+      warnings
+    };
+  });
+}
@@ -1,5 +1,5 @@
 /**
- * 出勤簿テーブル（給与期間：前月26〜当月25）の列小計用集計。
+ * 出勤簿テーブル（給与期間：会社の締め日設定に従う）の列小計用集計。
  * 各行の表示ロジック（dailyLabor 優先、なければログの totalWorkMinutes 等）と整合させる。
  */
 
@@ -55,6 +55,8 @@ function sumBreakMinutesFromLog(log: LogLikeForTableTotals): number {
 
 /**
  * 期間内の全日について、出勤簿テーブル各列の分合計を返す。
+ * `periodDates` は締め日設定を渡した `enumeratePayrollPeriodDates` の結果を使い、
+ * 期間外の日付の dailyLabor やログは集計に含めない。
  */
 export function sumAttendanceTableColumnTotals(
   periodDates: string[],
@@ -5,6 +5,7 @@
 import { apiRequest } from '../config/apiConfig';
 import { error as logError } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { AdminRole } from './permission';
 
 /**
  * 認可情報を表すインターフェース
@@ -16,6 +17,8 @@ export interface AuthorizationResponse {
   lastName: string;   // 名前（名）（必須）
   email: string;
   role: 'admin' | 'employee';
+  /** 管理者の権限ロール（role が admin の場合）。未設定はシステム管理者 */
+  adminRole?: AdminRole | null;
   isActive: boolean;
   joinDate: string;
   leaveDate: string | null;
@@ -64,9 +64,24 @@ export const getLeaveRequestStatusStyle = (code: string): { backgroundColor: str
   return styleMap[code] || { backgroundColor: '#e5e7eb', color: '#6b7280' };
 };
 
+/**
+ * 休暇種別マスタで登録された休暇種別（コード→名称）。
+ * useLeaveTypes がマスタ取得時に registerLeaveTypeLabels で登録する。
+ */
+const configuredLeaveTypeLabels = new Map<string, string>();
+
+/**
+ * 休暇種別マスタの種別を登録し、getLeaveTypeLabel / getLeaveTypeCodeFromLabel で変換できるようにする
+ * @param types 休暇種別（code: APIコード, name: 表示名）
+ */
+export const registerLeaveTypeLabels = (types: Array<{ code: string; name: string }>): void => {
+  configuredLeaveTypeLabels.clear();
+  types.forEach(type => configuredLeaveTypeLabels.set(type.code, type.name));
+};
+
 /**
  * 休暇種別コードを日本語に変換
- * @param code 休暇種別コード（paid, special, sick, absence, other）
+ * @param code 休暇種別コード（paid, special, sick, absence, other、または休暇種別マスタのコード）
  * @returns 日本語表示ラベル
  */
 export const getLeaveTypeLabel = (code: string): string => {
@@ -77,7 +92,7 @@ export const getLeaveTypeLabel = (code: string): string => {
     'absence': '欠勤',
     'other': 'その他'
   };
-  return typeMap[code] || code;
+  return typeMap[code] || configuredLeaveTypeLabels.get(code) || code;
 };
 
 /**
@@ -93,6 +108,21 @@ export const getStatementTypeLabel = (code: string): string => {
   return typeMap[code] || code;
 };
 
+/**
+ * 給与明細の状態コードを日本語に変換
+ * @param code 状態コード（draft, confirmed, published, locked）
+ * @returns 日本語表示ラベル
+ */
+export const getPayrollStatusLabel = (code: string): string => {
+  const typeMap: Record<string, string> = {
+    'draft': '下書き',
+    'confirmed': '確定',
+    'published': '公開済',
+    'locked': 'ロック'
+  };
+  return typeMap[code] || code;
+};
+
 /**
  * 雇用形態コードを日本語に変換
  * @param code 雇用形態コード（FULL_TIME, PART_TIME）
@@ -125,8 +155,8 @@ export const getErrorCodeLabel = (code: string): string => {
 
 /**
  * 休暇種別の日本語ラベルを英語コードに変換（APIリクエスト用）
- * @param label 日本語ラベル（有給, 特別休暇, 病気休暇, 欠勤, その他）
- * @returns 英語コード（paid, special, sick, absence, other）
+ * @param label 日本語ラベル（有給, 特別休暇, 病気休暇, 欠勤, その他、または休暇種別マスタの名称）
+ * @returns 英語コード（paid, special, sick, absence, other、または休暇種別マスタのコード）
  */
 export const getLeaveTypeCodeFromLabel = (label: string): string => {
   const labelMap: Record<string, string> = {
@@ -136,6 +166,10 @@ export const getLeaveTypeCodeFromLabel = (label: string): string => {
     '欠勤': 'absence',
     'その他': 'other'
   };
-  return labelMap[label] || label;
+  if (labelMap[label]) return labelMap[label];
+  for (const [code, name] of configuredLeaveTypeLabels) {
+    if (name === label) return code;
+  }
+  return label;
 };
 
@@ -0,0 +1,113 @@
+/**
+ * 会社休日API呼び出しユーティリティ
+ * 年末年始・お盆など、国民の祝日以外で会社全体が休業する日（期間）を管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+
+/**
+ * 会社休日1件（期間）を表すインターフェース
+ */
+export interface CompanyHoliday {
+  id: string;
+  /** 名称（例: 年末年始休暇、夏季休暇） */
+  name: string;
+  /** 開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 終了日（YYYY-MM-DD、1日だけの場合は開始日と同じ） */
+  endDate: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 会社休日一覧取得レスポンス
+ */
+export interface CompanyHolidayListResponse {
+  holidays: CompanyHoliday[];
+  total: number;
+}
+
+/**
+ * 会社休日作成リクエスト
+ */
+export interface CreateCompanyHolidayRequest {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * 会社休日一覧取得
+ * @returns 会社休日一覧（全期間）
+ */
+export const getCompanyHolidays = async (): Promise<CompanyHolidayListResponse> => {
+  try {
+    const response = await apiRequest('/api/v1/company-holidays', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data || { holidays: [], total: 0 };
+  } catch (error) {
+    logError('Failed to fetch company holidays:', error);
+    throw error;
+  }
+};
+
+/**
+ * 会社休日作成
+ * @param payload 名称と期間
+ * @returns 作成された会社休日
+ */
+export const createCompanyHoliday = async (
+  payload: CreateCompanyHolidayRequest
+): Promise<CompanyHoliday> => {
+  try {
+    const response = await apiRequest('/api/v1/company-holidays', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create company holiday:', error);
+    throw error;
+  }
+};
+
+/**
+ * 会社休日削除
+ * @param holidayId 会社休日ID
+ */
+export const deleteCompanyHoliday = async (holidayId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/company-holidays/${holidayId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete company holiday:', error);
+    throw error;
+  }
+};
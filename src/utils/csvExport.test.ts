@@ -0,0 +1,111 @@
+/**
+ * csvExport のユニットテスト。
+ *
+ * 対象: escapeCsvCell / expandCsvColumnSelection / buildCsv / encodeShiftJis / encodeCsv
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（CSV出力）
+ *
+ * 選択した列を並び順どおりに選択した見出しで出力する。Shift_JIS に変換できない文字は「?」にして呼び出し元に返す。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildCsv,
+  encodeCsv,
+  encodeShiftJis,
+  escapeCsvCell,
+  expandCsvColumnSelection,
+  type CsvColumn
+} from './csvExport';
+
+interface Row {
+  name: string;
+  amount: number | null;
+}
+
+const columns: CsvColumn<Row>[] = [
+  { key: 'name', label: '氏名', value: row => row.name },
+  { key: 'amount', label: '金額', value: row => row.amount }
+];
+
+describe('escapeCsvCell', () => {
+  it('カンマ・ダブルクォート・改行を含む値はダブルクォートで囲む', () => {
+    expect(escapeCsvCell('山田')).toBe('山田');
+    expect(escapeCsvCell('a,b')).toBe('"a,b"');
+    expect(escapeCsvCell('"至急"')).toBe('"""至急"""');
+    expect(escapeCsvCell('1行目\n2行目')).toBe('"1行目\n2行目"');
+    expect(escapeCsvCell(null)).toBe('');
+    expect(escapeCsvCell(0)).toBe('0');
+  });
+});
+
+describe('expandCsvColumnSelection', () => {
+  const itemColumns: CsvColumn<Row>[] = [
+    ...columns,
+    { key: 'allowance:通勤手当', label: '通勤手当', value: () => 0 },
+    { key: 'allowance:資格手当', label: '資格手当', value: () => 0 }
+  ];
+
+  it('「:*」の列を接頭辞を持つ列に展開し、個別に指定した列は個別の見出しで1回だけ出力する', () => {
+    expect(expandCsvColumnSelection(itemColumns, [
+      { key: 'name', header: '社員名' },
+      { key: 'allowance:*', header: '' },
+      { key: 'allowance:資格手当', header: '資格' }
+    ])).toEqual([
+      { key: 'name', header: '社員名' },
+      { key: 'allowance:通勤手当', header: '通勤手当' },
+      { key: 'allowance:資格手当', header: '資格' }
+    ]);
+  });
+
+  it('該当する列が無い場合は何も出力しない', () => {
+    expect(expandCsvColumnSelection(columns, [{ key: 'deduction:*', header: '' }])).toEqual([]);
+  });
+});
+
+describe('buildCsv', () => {
+  const rows: Row[] = [{ name: '山田太郎', amount: 1000 }, { name: '鈴木, 花子', amount: null }];
+
+  it('選択した列を並び順どおり・選択した見出しで出力する（改行は CRLF）', () => {
+    expect(buildCsv(rows, columns, [{ key: 'amount', header: '支給額' }, { key: 'name', header: '' }])).toBe(
+      '支給額,氏名\r\n1000,山田太郎\r\n,"鈴木, 花子"\r\n'
+    );
+  });
+
+  it('定義に無い列は出力しない', () => {
+    expect(buildCsv(rows.slice(0, 1), columns, [{ key: 'name', header: '氏名' }, { key: 'allowance:資格手当', header: '資格手当' }])).toBe(
+      '氏名\r\n山田太郎\r\n'
+    );
+  });
+});
+
+describe('encodeShiftJis', () => {
+  it('ASCII・全角・半角カナを Shift_JIS にする', () => {
+    expect(Array.from(encodeShiftJis('A,あ漢ｱ').bytes)).toEqual([0x41, 0x2c, 0x82, 0xa0, 0x8a, 0xbf, 0xb1]);
+  });
+
+  it('JIS の字形の「〜」「−」は Windows の字形の符号にする', () => {
+    expect(Array.from(encodeShiftJis('〜−').bytes)).toEqual([0x81, 0x60, 0x81, 0x7c]);
+    expect(Array.from(encodeShiftJis('～').bytes)).toEqual([0x81, 0x60]);
+  });
+
+  it('NEC選定IBM拡張と同じ文字は IBM拡張の符号にする', () => {
+    expect(Array.from(encodeShiftJis('ⅰ').bytes)).toEqual([0xfa, 0x40]);
+  });
+
+  it('変換できない文字は「?」にして返す', () => {
+    const result = encodeShiftJis('髙橋😀');
+    expect(result.unmappable).toEqual(['😀']);
+    expect(Array.from(result.bytes.slice(-1))).toEqual([0x3f]);
+  });
+});
+
+describe('encodeCsv', () => {
+  it('UTF-8 は BOM を付ける', () => {
+    const { bytes, unmappable } = encodeCsv('a\r\n', 'utf8');
+    expect(Array.from(bytes)).toEqual([0xef, 0xbb, 0xbf, 0x61, 0x0d, 0x0a]);
+    expect(unmappable).toEqual([]);
+  });
+
+  it('Shift_JIS は BOM を付けない', () => {
+    expect(Array.from(encodeCsv('a', 'shift_jis').bytes)).toEqual([0x61]);
+  });
+});
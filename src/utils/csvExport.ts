@@ -0,0 +1,201 @@
+/**
+ * CSV出力（勤怠・給与・休暇）のユーティリティ。
+ *
+ * - 列は出力対象ごとに定義し、出力する列・並び順・見出しを選んで出力する（取込先の会計ソフトの列の並びに合わせる）
+ * - 文字コードは UTF-8（BOM付き、Excel で文字化けしない）と Shift_JIS（会計ソフトの取込用）から選ぶ
+ * - Shift_JIS の変換表はブラウザの TextDecoder('shift_jis') から作る（ライブラリを追加しない）。変換できない文字は「?」にする
+ * - 列の選択・見出し・文字コードはテンプレートとして保存できる（API に保存し、会社全体で共有する。csvExportTemplateApi）
+ * - 「allowance:*」のように末尾が「:*」の列は、その接頭辞を持つ列（明細ごとに異なる手当・控除の列）すべてを表す
+ * - 改行は CRLF。カンマ・ダブルクォート・改行を含む値はダブルクォートで囲む
+ */
+
+/** 出力対象（attendance: 勤怠一覧 / payroll: 給与集計 / leave: 休暇履歴） */
+export type CsvExportTarget = 'attendance' | 'payroll' | 'leave';
+
+/** 文字コード（utf8: UTF-8 BOM付き / shift_jis: Shift_JIS） */
+export type CsvEncoding = 'utf8' | 'shift_jis';
+
+/** CSVの値 */
+export type CsvValue = string | number | null | undefined;
+
+/** CSVの列の定義 */
+export interface CsvColumn<T> {
+  key: string;
+  /** 既定の見出し */
+  label: string;
+  value: (row: T) => CsvValue;
+}
+
+/** 出力する列（並び順どおり）と見出し */
+export interface CsvColumnSelection {
+  key: string;
+  header: string;
+}
+
+/**
+ * CSVの値を1つのセルの文字列にする。
+ *
+ * @param {CsvValue} value - 値。
+ * @returns {string} セルの文字列（null・undefined は空）。カンマ・ダブルクォート・改行を含む場合はダブルクォートで囲む。
+ */
+export function escapeCsvCell(value: CsvValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 既定の列の選択（定義した全列を定義順に、既定の見出しで出力する）を返す。
+ *
+ * @param {CsvColumn<T>[]} columns - 列の定義。
+ * @returns {CsvColumnSelection[]} 列の選択。
+ */
+export function getDefaultCsvColumnSelection<T>(columns: CsvColumn<T>[]): CsvColumnSelection[] {
+  return columns.map(column => ({ key: column.key, header: column.label }));
+}
+
+/**
+ * 列の選択の「:*」で終わる列を、その接頭辞を持つ列の定義（定義順・既定の見出し）に展開する。
+ * 展開した列のうち、選択で個別に指定した列は個別の指定を優先する（重複して出力しない）。
+ *
+ * @param {CsvColumn<T>[]} columns - 列の定義。
+ * @param {CsvColumnSelection[]} selection - 出力する列（並び順どおり）と見出し。
+ * @returns {CsvColumnSelection[]} 展開した列の選択。
+ */
+export function expandCsvColumnSelection<T>(columns: CsvColumn<T>[], selection: CsvColumnSelection[]): CsvColumnSelection[] {
+  const explicitKeys = new Set(selection.filter(item => !item.key.endsWith(':*')).map(item => item.key));
+  return selection.flatMap(item => {
+    if (!item.key.endsWith(':*')) return [item];
+    const prefix = item.key.slice(0, -1);
+    return columns
+      .filter(column => column.key.startsWith(prefix) && !explicitKeys.has(column.key))
+      .map(column => ({ key: column.key, header: column.label }));
+  });
+}
+
+/**
+ * CSVを作る（見出し行と明細行。末尾も CRLF）。
+ * 選択した列のうち定義に無い列（テンプレートの保存後に無くなった手当など）は出力しない。
+ *
+ * @param {T[]} rows - 出力する行。
+ * @param {CsvColumn<T>[]} columns - 列の定義。
+ * @param {CsvColumnSelection[]} selection - 出力する列（並び順どおり）と見出し。
+ * @returns {string} CSV文字列（BOMは付けない）。
+ */
+export function buildCsv<T>(rows: T[], columns: CsvColumn<T>[], selection: CsvColumnSelection[]): string {
+  const selected = expandCsvColumnSelection(columns, selection).flatMap(item => {
+    const column = columns.find(c => c.key === item.key);
+    return column ? [{ column, header: item.header || column.label }] : [];
+  });
+  const lines = [
+    selected.map(item => escapeCsvCell(item.header)).join(','),
+    ...rows.map(row => selected.map(item => escapeCsvCell(item.column.value(row))).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/** JIS の字形の文字と、同じ符号に割り当てられた Windows の字形の文字 */
+const SHIFT_JIS_ALIASES: Record<string, string> = {
+  '\u301C': '\uFF5E',
+  '\u2212': '\uFF0D',
+  '\u2016': '\u2225',
+  '\u00A2': '\uFFE0',
+  '\u00A3': '\uFFE1',
+  '\u00AC': '\uFFE2'
+};
+
+/** Unicode 文字から Shift_JIS のバイト列への変換表（初回の変換時に作る） */
+let shiftJisTable: Map<string, number[]> | null = null;
+
+/**
+ * Shift_JIS の変換表を作る（2バイト文字を TextDecoder で1文字ずつ復号して逆引きにする）。
+ *
+ * @returns {Map<string, number[]>} 文字ごとのバイト列。
+ */
+const getShiftJisTable = (): Map<string, number[]> => {
+  if (shiftJisTable) return shiftJisTable;
+  const decoder = new TextDecoder('shift_jis');
+  const table = new Map<string, number[]>();
+  for (let code = 0xa1; code <= 0xdf; code++) {
+    table.set(decoder.decode(new Uint8Array([code])), [code]);
+  }
+  // NEC選定IBM拡張（0xED・0xEE）は IBM拡張（0xFA〜0xFC）と同じ文字のため、最後に読み込んで IBM拡張の符号を優先する
+  const leads = [
+    ...Array.from({ length: 0x1f }, (_, i) => 0x81 + i),
+    ...Array.from({ length: 0x1d }, (_, i) => 0xe0 + i).filter(lead => lead !== 0xed && lead !== 0xee),
+    0xed,
+    0xee
+  ];
+  leads.forEach(lead => {
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue;
+      const char = decoder.decode(new Uint8Array([lead, trail]));
+      // 未定義の符号は U+FFFD になる。同じ文字に複数の符号がある場合は先に読み込んだ符号を使う
+      if (char.length === 1 && char !== '\uFFFD' && !table.has(char)) {
+        table.set(char, [lead, trail]);
+      }
+    }
+  });
+  // Mac などで入力される JIS の字形の文字（〜 − ‖ ¢ £ ¬）は Windows の字形の符号に変換する
+  Object.entries(SHIFT_JIS_ALIASES).forEach(([char, windowsChar]) => {
+    const mapped = table.get(windowsChar);
+    if (mapped && !table.has(char)) table.set(char, mapped);
+  });
+  shiftJisTable = table;
+  return table;
+};
+
+/**
+ * 文字列を Shift_JIS のバイト列にする。
+ *
+ * @param {string} text - 文字列。
+ * @returns {{ bytes: Uint8Array<ArrayBuffer>; unmappable: string[] }} バイト列と、変換できず「?」にした文字（重複なし）。
+ */
+export function encodeShiftJis(text: string): { bytes: Uint8Array<ArrayBuffer>; unmappable: string[] } {
+  const table = getShiftJisTable();
+  const bytes: number[] = [];
+  const unmappable = new Set<string>();
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+      continue;
+    }
+    const mapped = table.get(char);
+    if (mapped) {
+      bytes.push(...mapped);
+    } else {
+      bytes.push(0x3f);
+      unmappable.add(char);
+    }
+  }
+  return { bytes: new Uint8Array(bytes), unmappable: [...unmappable] };
+}
+
+/**
+ * CSV文字列を指定の文字コードのバイト列にする。
+ *
+ * @param {string} csv - CSV文字列。
+ * @param {CsvEncoding} encoding - 文字コード。
+ * @returns {{ bytes: Uint8Array<ArrayBuffer>; unmappable: string[] }} バイト列と、Shift_JIS に変換できなかった文字。
+ */
+export function encodeCsv(csv: string, encoding: CsvEncoding): { bytes: Uint8Array<ArrayBuffer>; unmappable: string[] } {
+  if (encoding === 'shift_jis') return encodeShiftJis(csv);
+  return { bytes: new TextEncoder().encode(`\uFEFF${csv}`) as Uint8Array<ArrayBuffer>, unmappable: [] };
+}
+
+/**
+ * CSVファイルをダウンロードさせる。
+ *
+ * @param {Uint8Array<ArrayBuffer>} bytes - ファイルの内容。
+ * @param {string} fileName - ファイル名。
+ * @param {CsvEncoding} encoding - 文字コード（Content-Type の charset）。
+ */
+export const downloadCsv = (bytes: Uint8Array<ArrayBuffer>, fileName: string, encoding: CsvEncoding) => {
+  const blob = new Blob([bytes], { type: `text/csv;charset=${encoding === 'shift_jis' ? 'Shift_JIS' : 'UTF-8'}` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,136 @@
+/**
+ * csvExportColumns のユニットテスト。
+ *
+ * 対象: formatMinutesAsDecimalHours / buildPayrollCsvColumns / ATTENDANCE_CSV_COLUMNS / CSV_EXPORT_PRESETS
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（CSV出力）
+ *
+ * 給与集計の手当・控除は、出力する明細に含まれる項目名ごとに列を作る。組み込みのテンプレートは定義済みの列だけを参照する。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  ATTENDANCE_CSV_COLUMNS,
+  CSV_EXPORT_PRESETS,
+  LEAVE_CSV_COLUMNS,
+  buildPayrollCsvColumns,
+  formatMinutesAsDecimalHours,
+  getCsvExportPresets,
+  type PayrollCsvRow
+} from './csvExportColumns';
+import { buildCsv, getDefaultCsvColumnSelection } from './csvExport';
+import type { PayrollDetailResponse } from './payrollApi';
+
+const detail = (overrides: Partial<PayrollDetailResponse>): PayrollDetailResponse => ({
+  workingDays: 20,
+  holidayWork: 0,
+  paidLeave: 1,
+  paidLeaveRemaining: 9,
+  normalOvertime: 90,
+  lateNightOvertime: 0,
+  totalWorkMinutes: 9690,
+  baseSalary: 250000,
+  overtimeAllowance: 3000,
+  lateNightAllowance: 0,
+  allowances: [],
+  totalEarnings: 253000,
+  deductions: [],
+  totalDeductions: 0,
+  netPay: 253000,
+  ...overrides
+}) as PayrollDetailResponse;
+
+describe('formatMinutesAsDecimalHours', () => {
+  it('分を10進数の時間にする', () => {
+    expect(formatMinutesAsDecimalHours(510)).toBe('8.50');
+    expect(formatMinutesAsDecimalHours(20)).toBe('0.33');
+    expect(formatMinutesAsDecimalHours(null)).toBe('');
+  });
+});
+
+describe('buildPayrollCsvColumns', () => {
+  const rows: PayrollCsvRow[] = [
+    {
+      employeeId: 'E001', employeeName: '山田 太郎', departmentName: '営業部', year: 2025, month: 4,
+      statementType: 'salary', status: 'confirmed',
+      detail: detail({ allowances: [{ name: '通勤手当', amount: 10000 }], deductions: [{ name: '健康保険', amount: 12000 }] })
+    },
+    {
+      employeeId: 'E002', employeeName: '鈴木 花子', departmentName: '', year: 2025, month: 4,
+      statementType: 'salary', status: null,
+      detail: detail({ allowances: [{ name: '資格手当', amount: 5000 }] })
+    }
+  ];
+
+  it('明細に含まれる手当・控除の項目名ごとに列を作り、無い項目は0円にする', () => {
+    const columns = buildPayrollCsvColumns(rows);
+    const csv = buildCsv(rows, columns, [
+      { key: 'employeeId', header: '従業員コード' },
+      { key: 'status', header: '状態' },
+      { key: 'allowance:通勤手当', header: '通勤手当' },
+      { key: 'allowance:資格手当', header: '資格手当' },
+      { key: 'deduction:健康保険', header: '健康保険' }
+    ]);
+
+    expect(csv).toBe('従業員コード,状態,通勤手当,資格手当,健康保険\r\nE001,確定,10000,0,12000\r\nE002,未登録,0,5000,0\r\n');
+  });
+
+  it('手当の列は総支給額の前、控除の列は控除合計の前に並べる', () => {
+    const keys = buildPayrollCsvColumns(rows).map(column => column.key);
+    expect(keys.indexOf('allowance:資格手当')).toBeLessThan(keys.indexOf('totalEarnings'));
+    expect(keys.indexOf('deduction:健康保険')).toBeGreaterThan(keys.indexOf('totalEarnings'));
+    expect(keys.indexOf('deduction:健康保険')).toBeLessThan(keys.indexOf('totalDeductions'));
+  });
+});
+
+describe('ATTENDANCE_CSV_COLUMNS', () => {
+  it('時間を「時:分」と10進数の時間で出力し、未計算の日は空にする', () => {
+    const csv = buildCsv(
+      [
+        { date: '2025-04-01', employeeId: 'E001', employeeName: '山田 太郎', departmentName: '営業部', clockIn: '09:00', clockOut: '18:30', workMinutes: 510, overtimeMinutes: 30, lateNightMinutes: 0, breakMinutes: 60, isHolidayWork: false, memo: null },
+        { date: '2025-04-02', employeeId: 'E001', employeeName: '山田 太郎', departmentName: '営業部', clockIn: '09:00', clockOut: null, workMinutes: null, overtimeMinutes: null, lateNightMinutes: null, breakMinutes: 0, isHolidayWork: true, memo: '直行' }
+      ],
+      ATTENDANCE_CSV_COLUMNS,
+      getDefaultCsvColumnSelection(ATTENDANCE_CSV_COLUMNS).filter(item => ['date', 'clockOut', 'workTime', 'workHours', 'dayType', 'memo'].includes(item.key))
+    );
+
+    expect(csv).toBe(
+      '日付,退勤時刻,労働時間,労働時間（10進）,勤務区分,メモ\r\n' +
+      '2025/04/01,18:30,08:30,8.50,平日,\r\n' +
+      '2025/04/02,,,,休日出勤,直行\r\n'
+    );
+  });
+});
+
+describe('CSV_EXPORT_PRESETS', () => {
+  const payrollRows: PayrollCsvRow[] = [{
+    employeeId: 'E001', employeeName: '山田 太郎', departmentName: '営業部', year: 2025, month: 4,
+    statementType: 'salary', status: 'confirmed',
+    detail: detail({ allowances: [{ name: '通勤手当', amount: 10000 }], deductions: [{ name: '健康保険', amount: 12000 }], totalDeductions: 12000, netPay: 241000 })
+  }];
+
+  it('組み込みのテンプレートの列は、出力対象の列の定義にある（「:*」は手当・控除の列）', () => {
+    const keysOf = {
+      attendance: ATTENDANCE_CSV_COLUMNS.map(column => column.key),
+      payroll: [...buildPayrollCsvColumns([]).map(column => column.key), 'allowance:*', 'deduction:*'],
+      leave: LEAVE_CSV_COLUMNS.map(column => column.key)
+    };
+    CSV_EXPORT_PRESETS.forEach(preset => {
+      expect(preset.id.startsWith('preset:')).toBe(true);
+      preset.columns.forEach(item => expect(keysOf[preset.target]).toContain(item.key));
+    });
+  });
+
+  it('弥生給与のテンプレートは社員コードから始め、手当・控除を合計の前に並べて Shift_JIS で出力する', () => {
+    const preset = getCsvExportPresets('payroll').find(p => p.id === 'preset:yayoi-payroll');
+    expect(preset?.encoding).toBe('shift_jis');
+    const csv = buildCsv(payrollRows, buildPayrollCsvColumns(payrollRows), preset?.columns ?? []);
+    expect(csv.split('\r\n')[0]).toBe(
+      '社員コード,氏名,出勤日数,休日出勤日数,有休日数,出勤時間,普通残業時間,深夜残業時間,基本給,普通残業手当,深夜残業手当,通勤手当,総支給金額,健康保険,控除合計,差引支給合計'
+    );
+    expect(csv.split('\r\n')[1]).toBe('E001,山田 太郎,20,0,1,161:30,01:30,00:00,250000,3000,0,10000,253000,12000,12000,241000');
+  });
+
+  it('出力対象ごとに組み込みのテンプレートを返す', () => {
+    expect(getCsvExportPresets('attendance').map(p => p.id)).toEqual(['preset:freee-attendance']);
+    expect(getCsvExportPresets('leave')).toEqual([]);
+  });
+});
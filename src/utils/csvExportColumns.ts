@@ -0,0 +1,246 @@
+/**
+ * CSV出力の列の定義（勤怠一覧・給与集計・休暇履歴）。
+ *
+ * - 画面ごとの行を出力用の行（AttendanceCsvRow など）に変換してから出力する
+ * - 時間は「時:分」と10進数の時間（8:30 → 8.50）の両方の列を用意する（取込先の会計ソフトが求める形式を選ぶ）
+ * - 給与集計の手当・控除は明細に含まれる項目名ごとに列を作る（項目名は従業員・月によって異なるため、出力する行から集める）
+ * - 列の見出し・並び順は CSV出力画面で変更し、テンプレートとして保存できる
+ * - 弥生給与・freee人事労務の取込用の列の並び・見出しは組み込みのテンプレート（CSV_EXPORT_PRESETS）として用意する（変更・削除はできない）
+ */
+
+import { formatMinutesToTime } from './formatters';
+import type { CsvColumn, CsvColumnSelection, CsvEncoding, CsvExportTarget } from './csvExport';
+import type { PayrollDetailResponse, PayrollStatementStatus } from './payrollApi';
+import { getPayrollStatusLabel, getStatementTypeLabel } from './codeTranslator';
+
+/** 勤怠一覧のCSVの行（1日・1人分） */
+export interface AttendanceCsvRow {
+  /** 勤務日（YYYY-MM-DD） */
+  date: string;
+  employeeId: string;
+  employeeName: string;
+  departmentName: string;
+  /** 出勤時刻（HH:MM） */
+  clockIn: string | null;
+  /** 退勤時刻（HH:MM） */
+  clockOut: string | null;
+  workMinutes: number | null;
+  overtimeMinutes: number | null;
+  lateNightMinutes: number | null;
+  breakMinutes: number | null;
+  isHolidayWork: boolean;
+  memo: string | null;
+}
+
+/** 給与集計のCSVの行（1人・1か月分の明細） */
+export interface PayrollCsvRow {
+  employeeId: string;
+  employeeName: string;
+  departmentName: string;
+  year: number;
+  month: number;
+  statementType: 'salary' | 'bonus';
+  /** 明細の状態（未登録の計算プレビューは null） */
+  status: PayrollStatementStatus | null;
+  detail: PayrollDetailResponse;
+}
+
+/** 休暇履歴のCSVの行（1申請分） */
+export interface LeaveCsvRow {
+  employeeId: string;
+  employeeName: string;
+  /** 休暇種別（表示名） */
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  isHalfDay: boolean;
+  /** 時間単位の有給の時間帯（例: 09:00〜11:00（2時間））。時間単位以外は null */
+  hourlyLabel: string | null;
+  /** 申請の状態（表示名） */
+  status: string;
+  requestedAt: string;
+  reason: string;
+}
+
+/**
+ * 分を10進数の時間にする（小数第2位まで）。
+ *
+ * @param {number | null} minutes - 分。
+ * @returns {string} 時間（例: 510分 → 8.50）。null の場合は空。
+ */
+export function formatMinutesAsDecimalHours(minutes: number | null): string {
+  return minutes === null ? '' : (minutes / 60).toFixed(2);
+}
+
+/** 分を「時:分」にする（null の場合は空） */
+const formatMinutesCell = (minutes: number | null): string => (minutes === null ? '' : formatMinutesToTime(minutes));
+
+/** 勤怠一覧のCSVの列 */
+export const ATTENDANCE_CSV_COLUMNS: CsvColumn<AttendanceCsvRow>[] = [
+  { key: 'date', label: '日付', value: row => row.date.replace(/-/g, '/') },
+  { key: 'employeeId', label: '従業員コード', value: row => row.employeeId },
+  { key: 'employeeName', label: '氏名', value: row => row.employeeName },
+  { key: 'departmentName', label: '部署', value: row => row.departmentName },
+  { key: 'clockIn', label: '出勤時刻', value: row => row.clockIn },
+  { key: 'clockOut', label: '退勤時刻', value: row => row.clockOut },
+  { key: 'workTime', label: '労働時間', value: row => formatMinutesCell(row.workMinutes) },
+  { key: 'workHours', label: '労働時間（10進）', value: row => formatMinutesAsDecimalHours(row.workMinutes) },
+  { key: 'overtime', label: '残業時間', value: row => formatMinutesCell(row.overtimeMinutes) },
+  { key: 'overtimeHours', label: '残業時間（10進）', value: row => formatMinutesAsDecimalHours(row.overtimeMinutes) },
+  { key: 'lateNight', label: '深夜時間', value: row => formatMinutesCell(row.lateNightMinutes) },
+  { key: 'lateNightHours', label: '深夜時間（10進）', value: row => formatMinutesAsDecimalHours(row.lateNightMinutes) },
+  { key: 'breakTime', label: '休憩時間', value: row => formatMinutesCell(row.breakMinutes) },
+  { key: 'dayType', label: '勤務区分', value: row => (row.isHolidayWork ? '休日出勤' : '平日') },
+  { key: 'memo', label: 'メモ', value: row => row.memo }
+];
+
+/**
+ * 給与集計のCSVの列を作る（固定の列に、出力する明細に含まれる手当・控除の項目名ごとの列を加える）。
+ *
+ * @param {PayrollCsvRow[]} rows - 出力する明細。
+ * @returns {CsvColumn<PayrollCsvRow>[]} 列の定義。
+ */
+export function buildPayrollCsvColumns(rows: PayrollCsvRow[]): CsvColumn<PayrollCsvRow>[] {
+  const allowanceNames = [...new Set(rows.flatMap(row => row.detail.allowances.map(item => item.name)))];
+  const deductionNames = [...new Set(rows.flatMap(row => row.detail.deductions.map(item => item.name)))];
+  const amountOf = (items: Array<{ name: string; amount: number }>, name: string) =>
+    items.filter(item => item.name === name).reduce((sum, item) => sum + item.amount, 0);
+
+  return [
+    { key: 'employeeId', label: '従業員コード', value: row => row.employeeId },
+    { key: 'employeeName', label: '氏名', value: row => row.employeeName },
+    { key: 'departmentName', label: '部署', value: row => row.departmentName },
+    { key: 'yearMonth', label: '支給年月', value: row => `${row.year}/${String(row.month).padStart(2, '0')}` },
+    { key: 'statementType', label: '明細区分', value: row => getStatementTypeLabel(row.statementType) },
+    { key: 'status', label: '状態', value: row => (row.status ? getPayrollStatusLabel(row.status) : '未登録') },
+    { key: 'workingDays', label: '出勤日数', value: row => row.detail.workingDays },
+    { key: 'holidayWork', label: '休日出勤日数', value: row => row.detail.holidayWork },
+    { key: 'paidLeave', label: '有給取得日数', value: row => row.detail.paidLeave },
+    { key: 'totalWorkTime', label: '総労働時間', value: row => formatMinutesToTime(row.detail.totalWorkMinutes) },
+    { key: 'totalWorkHours', label: '総労働時間（10進）', value: row => formatMinutesAsDecimalHours(row.detail.totalWorkMinutes) },
+    { key: 'normalOvertime', label: '普通残業時間', value: row => formatMinutesToTime(row.detail.normalOvertime) },
+    { key: 'lateNightOvertime', label: '深夜残業時間', value: row => formatMinutesToTime(row.detail.lateNightOvertime) },
+    { key: 'baseSalary', label: '基本給', value: row => row.detail.baseSalary },
+    { key: 'overtimeAllowance', label: '時間外手当', value: row => row.detail.overtimeAllowance },
+    { key: 'lateNightAllowance', label: '深夜手当', value: row => row.detail.lateNightAllowance },
+    ...allowanceNames.map((name): CsvColumn<PayrollCsvRow> => ({
+      key: `allowance:${name}`,
+      label: name,
+      value: row => amountOf(row.detail.allowances, name)
+    })),
+    { key: 'totalEarnings', label: '総支給額', value: row => row.detail.totalEarnings },
+    ...deductionNames.map((name): CsvColumn<PayrollCsvRow> => ({
+      key: `deduction:${name}`,
+      label: name,
+      value: row => amountOf(row.detail.deductions, name)
+    })),
+    { key: 'totalDeductions', label: '控除合計', value: row => row.detail.totalDeductions },
+    { key: 'netPay', label: '差引支給額', value: row => row.detail.netPay }
+  ];
+}
+
+/** 休暇履歴のCSVの列 */
+export const LEAVE_CSV_COLUMNS: CsvColumn<LeaveCsvRow>[] = [
+  { key: 'employeeId', label: '従業員コード', value: row => row.employeeId },
+  { key: 'employeeName', label: '氏名', value: row => row.employeeName },
+  { key: 'leaveType', label: '休暇種別', value: row => row.leaveType },
+  { key: 'startDate', label: '開始日', value: row => row.startDate.replace(/-/g, '/') },
+  { key: 'endDate', label: '終了日', value: row => row.endDate.replace(/-/g, '/') },
+  { key: 'days', label: '日数', value: row => row.days },
+  { key: 'unit', label: '取得単位', value: row => (row.hourlyLabel ? '時間' : row.isHalfDay ? '半日' : '全日') },
+  { key: 'hourly', label: '時間帯', value: row => row.hourlyLabel },
+  { key: 'status', label: '状態', value: row => row.status },
+  { key: 'requestedAt', label: '申請日', value: row => row.requestedAt.slice(0, 10).replace(/-/g, '/') },
+  { key: 'reason', label: '理由', value: row => row.reason }
+];
+
+/** 組み込みのCSV出力テンプレート（取込先のソフトの列の並び・見出し） */
+export interface CsvExportPreset {
+  /** テンプレートID（保存したテンプレートと区別するため「preset:」で始める） */
+  id: string;
+  name: string;
+  target: CsvExportTarget;
+  /** 出力する列（並び順どおり）と見出し。「allowance:*」「deduction:*」は明細に含まれる手当・控除のすべての列 */
+  columns: CsvColumnSelection[];
+  encoding: CsvEncoding;
+}
+
+/** 組み込みのCSV出力テンプレート */
+export const CSV_EXPORT_PRESETS: CsvExportPreset[] = [
+  {
+    // 弥生給与の「勤怠・支給控除データの受入」（社員コードで突き合わせ、時間は「時:分」）
+    id: 'preset:yayoi-payroll',
+    name: '弥生給与（勤怠・支給控除の受入）',
+    target: 'payroll',
+    encoding: 'shift_jis',
+    columns: [
+      { key: 'employeeId', header: '社員コード' },
+      { key: 'employeeName', header: '氏名' },
+      { key: 'workingDays', header: '出勤日数' },
+      { key: 'holidayWork', header: '休日出勤日数' },
+      { key: 'paidLeave', header: '有休日数' },
+      { key: 'totalWorkTime', header: '出勤時間' },
+      { key: 'normalOvertime', header: '普通残業時間' },
+      { key: 'lateNightOvertime', header: '深夜残業時間' },
+      { key: 'baseSalary', header: '基本給' },
+      { key: 'overtimeAllowance', header: '普通残業手当' },
+      { key: 'lateNightAllowance', header: '深夜残業手当' },
+      { key: 'allowance:*', header: '' },
+      { key: 'totalEarnings', header: '総支給金額' },
+      { key: 'deduction:*', header: '' },
+      { key: 'totalDeductions', header: '控除合計' },
+      { key: 'netPay', header: '差引支給合計' }
+    ]
+  },
+  {
+    // freee人事労務の給与明細のインポート（従業員番号で突き合わせ、時間は10進数）
+    id: 'preset:freee-payroll',
+    name: 'freee人事労務（給与明細のインポート）',
+    target: 'payroll',
+    encoding: 'utf8',
+    columns: [
+      { key: 'employeeId', header: '従業員番号' },
+      { key: 'employeeName', header: '氏名' },
+      { key: 'yearMonth', header: '対象年月' },
+      { key: 'workingDays', header: '出勤日数' },
+      { key: 'holidayWork', header: '休日出勤日数' },
+      { key: 'paidLeave', header: '有給休暇取得日数' },
+      { key: 'totalWorkHours', header: '総勤務時間' },
+      { key: 'baseSalary', header: '基本給' },
+      { key: 'overtimeAllowance', header: '時間外労働手当' },
+      { key: 'lateNightAllowance', header: '深夜労働手当' },
+      { key: 'allowance:*', header: '' },
+      { key: 'totalEarnings', header: '総支給額' },
+      { key: 'deduction:*', header: '' },
+      { key: 'totalDeductions', header: '控除額合計' },
+      { key: 'netPay', header: '差引支給額' }
+    ]
+  },
+  {
+    // freee人事労務の勤怠のインポート（1日・1人1行）
+    id: 'preset:freee-attendance',
+    name: 'freee人事労務（勤怠のインポート）',
+    target: 'attendance',
+    encoding: 'utf8',
+    columns: [
+      { key: 'employeeId', header: '従業員番号' },
+      { key: 'date', header: '日付' },
+      { key: 'dayType', header: '勤務日種別' },
+      { key: 'clockIn', header: '出勤時刻' },
+      { key: 'clockOut', header: '退勤時刻' },
+      { key: 'breakTime', header: '休憩時間' },
+      { key: 'memo', header: '備考' }
+    ]
+  }
+];
+
+/**
+ * 出力対象の組み込みのCSV出力テンプレートを返す。
+ *
+ * @param {CsvExportTarget} target - 出力対象。
+ * @returns {CsvExportPreset[]} 組み込みのテンプレート（定義順）。
+ */
+export function getCsvExportPresets(target: CsvExportTarget): CsvExportPreset[] {
+  return CSV_EXPORT_PRESETS.filter(preset => preset.target === target);
+}
@@ -0,0 +1,56 @@
+/**
+ * csvExportTemplateApi のユニットテスト。
+ *
+ * 対象: getCsvExportTemplates / createCsvExportTemplate / updateCsvExportTemplate / deleteCsvExportTemplate
+ * 設計書: attendance-workspace/docs/api/ENDPOINTS.md（CSV出力テンプレート）
+ *
+ * apiRequest（config/apiConfig）をモックし、出力対象ごとのテンプレートを API で取得・保存・削除することを検証する。
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { apiRequest } from '../config/apiConfig';
+import {
+  createCsvExportTemplate,
+  deleteCsvExportTemplate,
+  getCsvExportTemplates,
+  updateCsvExportTemplate
+} from './csvExportTemplateApi';
+
+// apiConfig.apiRequest をモック化（実ネットワークを避ける）。
+vi.mock('../config/apiConfig', () => ({
+  apiRequest: vi.fn(),
+}));
+
+const mockedApiRequest = vi.mocked(apiRequest);
+
+/** fetch の Response 風モックを作る。 */
+const okResponse = (body: unknown) =>
+  ({ ok: true, json: async () => body } as unknown as Response);
+
+const payload = { name: '経理部用', target: 'payroll' as const, columns: [{ key: 'employeeId', header: '社員コード' }], encoding: 'shift_jis' as const };
+
+describe('csvExportTemplateApi', () => {
+  beforeEach(() => {
+    mockedApiRequest.mockReset();
+  });
+
+  it('出力対象を指定して GET /api/v1/csv-export-templates を叩き templates を返す', async () => {
+    mockedApiRequest.mockResolvedValue(okResponse({ statusCode: 200, message: 'success', data: { templates: [{ id: 'T1', ...payload }] } }));
+
+    const result = await getCsvExportTemplates('payroll');
+
+    expect(mockedApiRequest).toHaveBeenCalledWith('/api/v1/csv-export-templates?target=payroll', { method: 'GET' });
+    expect(result).toEqual([{ id: 'T1', ...payload }]);
+  });
+
+  it('テンプレートを POST で作成し、PUT で更新し、DELETE で削除する', async () => {
+    mockedApiRequest.mockResolvedValue(okResponse({ statusCode: 200, message: 'success', data: { id: 'T1', ...payload } }));
+
+    await createCsvExportTemplate(payload);
+    await updateCsvExportTemplate('T1', payload);
+    await deleteCsvExportTemplate('T1');
+
+    expect(mockedApiRequest).toHaveBeenNthCalledWith(1, '/api/v1/csv-export-templates', { method: 'POST', body: JSON.stringify(payload) });
+    expect(mockedApiRequest).toHaveBeenNthCalledWith(2, '/api/v1/csv-export-templates/T1', { method: 'PUT', body: JSON.stringify(payload) });
+    expect(mockedApiRequest).toHaveBeenNthCalledWith(3, '/api/v1/csv-export-templates/T1', { method: 'DELETE' });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * CSV出力テンプレートAPI呼び出しユーティリティ
+ * CSV出力画面で保存した列の選択・見出し・文字コードを、会社全体で共有するテンプレートとして管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { CsvColumnSelection, CsvEncoding, CsvExportTarget } from './csvExport';
+
+/**
+ * CSV出力テンプレート1件
+ */
+export interface CsvExportTemplate {
+  id: string;
+  name: string;
+  target: CsvExportTarget;
+  /** 出力する列（並び順どおり）と見出し */
+  columns: CsvColumnSelection[];
+  encoding: CsvEncoding;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * CSV出力テンプレート作成・更新リクエスト
+ */
+export interface SaveCsvExportTemplateRequest {
+  name: string;
+  target: CsvExportTarget;
+  columns: CsvColumnSelection[];
+  encoding: CsvEncoding;
+}
+
+/**
+ * CSV出力テンプレート一覧取得
+ * @param target 出力対象
+ * @returns 出力対象のテンプレート（保存順）
+ */
+export const getCsvExportTemplates = async (target: CsvExportTarget): Promise<CsvExportTemplate[]> => {
+  try {
+    const response = await apiRequest(`/api/v1/csv-export-templates?target=${target}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.templates || [];
+  } catch (error) {
+    logError('Failed to fetch CSV export templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * CSV出力テンプレート作成
+ * 同じ出力対象に同じ名前のテンプレートがある場合は API側で 409 が返る（更新する）。
+ * @param payload テンプレートの設定
+ * @returns 作成されたテンプレート
+ */
+export const createCsvExportTemplate = async (
+  payload: SaveCsvExportTemplateRequest
+): Promise<CsvExportTemplate> => {
+  try {
+    const response = await apiRequest('/api/v1/csv-export-templates', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create CSV export template:', error);
+    throw error;
+  }
+};
+
+/**
+ * CSV出力テンプレート更新
+ * @param templateId テンプレートID
+ * @param payload テンプレートの設定
+ * @returns 更新されたテンプレート
+ */
+export const updateCsvExportTemplate = async (
+  templateId: string,
+  payload: SaveCsvExportTemplateRequest
+): Promise<CsvExportTemplate> => {
+  try {
+    const response = await apiRequest(`/api/v1/csv-export-templates/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to update CSV export template:', error);
+    throw error;
+  }
+};
+
+/**
+ * CSV出力テンプレート削除
+ * @param templateId テンプレートID
+ */
+export const deleteCsvExportTemplate = async (templateId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/csv-export-templates/${templateId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete CSV export template:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * csvImport のユニットテスト。
+ *
+ * 対象: decodeCsvBytes / parseCsv / autoMapCsvColumns / parseCsvDate / parseCsvNumber / buildCsvImportErrorReport
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（CSV取込）
+ *
+ * UTF-8（BOM付き・無し）と Excel が保存する Shift_JIS のどちらのCSVも読み込む。
+ */
+import { describe, it, expect } from 'vitest';
+import { autoMapCsvColumns, buildCsvImportErrorReport, decodeCsvBytes, parseCsv, parseCsvDate, parseCsvNumber } from './csvImport';
+import { encodeShiftJis } from './csvExport';
+
+describe('decodeCsvBytes', () => {
+  it('UTF-8 は BOM を除いて読み込む', () => {
+    expect(decodeCsvBytes(new TextEncoder().encode('\uFEFF姓,名'))).toBe('姓,名');
+  });
+
+  it('UTF-8 として読めない場合は Shift_JIS として読み込む', () => {
+    expect(decodeCsvBytes(encodeShiftJis('姓,名\r\n山田,太郎').bytes)).toBe('姓,名\r\n山田,太郎');
+  });
+});
+
+describe('parseCsv', () => {
+  it('ダブルクォートで囲んだカンマ・改行・ダブルクォートを含む値を読み込む', () => {
+    expect(parseCsv('a,"b,c","d\r\ne","f""g"\r\n1,2,3,4')).toEqual([
+      ['a', 'b,c', 'd\r\ne', 'f"g'],
+      ['1', '2', '3', '4']
+    ]);
+  });
+
+  it('LF の改行・空行・末尾の改行を扱う', () => {
+    expect(parseCsv('a,b\n\n1,\n,,\n')).toEqual([['a', 'b'], ['1', '']]);
+  });
+});
+
+describe('autoMapCsvColumns', () => {
+  it('項目名・別名と一致する列を対応付ける（全角・半角の括弧や空白の違いは無視する）', () => {
+    const fields = [
+      { key: 'name', label: '氏名', aliases: ['名前'] },
+      { key: 'breakTime', label: '休憩時間（分）' },
+      { key: 'memo', label: 'メモ' }
+    ];
+    expect(autoMapCsvColumns(['名前', '休憩時間 (分)', '備考'], fields)).toEqual({ name: 0, breakTime: 1, memo: null });
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('YYYY-MM-DD・YYYY/M/D（全角を含む）を受け付け、存在しない日付は null にする', () => {
+    expect(parseCsvDate('2025/4/1')).toBe('2025-04-01');
+    expect(parseCsvDate('2025-04-01')).toBe('2025-04-01');
+    expect(parseCsvDate('２０２５－０４－０１')).toBe('2025-04-01');
+    expect(parseCsvDate('2025/2/30')).toBe(null);
+    expect(parseCsvDate('4月1日')).toBe(null);
+  });
+});
+
+describe('parseCsvNumber', () => {
+  it('全角数字・桁区切り・円記号を受け付ける', () => {
+    expect(parseCsvNumber('250,000')).toBe(250000);
+    expect(parseCsvNumber('￥１，２００')).toBe(1200);
+    expect(parseCsvNumber('7.5')).toBe(7.5);
+    expect(parseCsvNumber('1200円')).toBe(1200);
+    expect(parseCsvNumber('abc')).toBe(null);
+  });
+});
+
+describe('buildCsvImportErrorReport', () => {
+  it('元の列の後ろにエラー内容の列を加える', () => {
+    expect(buildCsvImportErrorReport(['姓', '名'], [{ cells: ['山田'], messages: ['必須項目を入力してください', '給与を入力してください'] }])).toBe(
+      '姓,名,エラー内容\r\n山田,,必須項目を入力してください / 給与を入力してください\r\n'
+    );
+  });
+});
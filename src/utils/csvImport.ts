@@ -0,0 +1,144 @@
+/**
+ * CSV取込（従業員・勤怠など）のユーティリティ。
+ *
+ * - 文字コードは UTF-8（BOMの有無は問わない）と Shift_JIS（Excel の「CSV（コンマ区切り）」で保存したファイル）を自動で判別する
+ * - ダブルクォートで囲んだ値（カンマ・改行・ダブルクォートを含む値）に対応する。改行は CRLF・LF のどちらでもよい
+ * - 取込項目と CSV の列の対応は、見出しが項目名または別名と一致する列を初期値にし、画面で変更できる
+ * - 取り込めなかった行は、元の列にエラー内容の列を加えたCSVとして出力できる（修正して再取込する）
+ */
+
+import { escapeCsvCell } from './csvExport';
+
+/** 取込項目の定義 */
+export interface CsvImportField<K extends string = string> {
+  key: K;
+  /** 項目名（CSVの見出しの初期値） */
+  label: string;
+  /** 見出しとして認識する別名 */
+  aliases?: string[];
+}
+
+/** 取込項目ごとの CSV の列番号（対応する列が無い項目は null） */
+export type CsvColumnMapping<K extends string = string> = Record<K, number | null>;
+
+/**
+ * CSVファイルの内容を文字列にする（UTF-8 として読めない場合は Shift_JIS として読む）。
+ *
+ * @param {Uint8Array} bytes - ファイルの内容。
+ * @returns {string} ファイルの文字列（BOMは除く）。
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+}
+
+/**
+ * CSV文字列を行・列に分ける（空行は除く）。
+ *
+ * @param {string} text - CSV文字列。
+ * @returns {string[][]} 行ごとの値。
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/** 見出しの比較用に空白・括弧の違いを除く */
+const normalizeHeader = (header: string): string =>
+  header.normalize('NFKC').replace(/[\s()（）]/g, '').toLowerCase();
+
+/**
+ * 見出しから取込項目と列の対応の初期値を作る（項目名・別名・項目キーのいずれかと一致する最初の列）。
+ *
+ * @param {string[]} headers - CSVの見出し行。
+ * @param {CsvImportField<K>[]} fields - 取込項目の定義。
+ * @returns {CsvColumnMapping<K>} 取込項目ごとの列番号。
+ */
+export function autoMapCsvColumns<K extends string>(headers: string[], fields: CsvImportField<K>[]): CsvColumnMapping<K> {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(fields.map(field => {
+    const names = [field.label, field.key, ...(field.aliases ?? [])].map(normalizeHeader);
+    const index = normalized.findIndex(header => names.includes(header));
+    return [field.key, index >= 0 ? index : null];
+  })) as CsvColumnMapping<K>;
+}
+
+/**
+ * 日付の値を YYYY-MM-DD にする（Excel が出力する YYYY/M/D も受け付ける）。
+ *
+ * @param {string} value - 値。
+ * @returns {string | null} YYYY-MM-DD。日付として正しくない場合は null。
+ */
+export function parseCsvDate(value: string): string | null {
+  const match = value.normalize('NFKC').trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * 数値の値を数値にする（全角数字・桁区切りのカンマ・円記号を受け付ける）。
+ *
+ * @param {string} value - 値。
+ * @returns {number | null} 数値。数値として正しくない場合は null。
+ */
+export function parseCsvNumber(value: string): number | null {
+  const text = value.normalize('NFKC').trim().replace(/[,¥￥\\]|円$/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+}
+
+/**
+ * 取り込めなかった行のCSVを作る（元の見出し・値の後ろにエラー内容の列を加える）。
+ *
+ * @param {string[]} headers - 取り込んだCSVの見出し行。
+ * @param {Array<{ cells: string[]; messages: string[] }>} rows - 取り込めなかった行の値とエラー内容。
+ * @returns {string} CSV文字列（BOMは付けない）。
+ */
+export function buildCsvImportErrorReport(headers: string[], rows: Array<{ cells: string[]; messages: string[] }>): string {
+  const lines = [
+    [...headers, 'エラー内容'].map(escapeCsvCell).join(','),
+    ...rows.map(row => [...headers.map((_, i) => row.cells[i] ?? ''), row.messages.join(' / ')].map(escapeCsvCell).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,110 @@
+/**
+ * department のユニットテスト。
+ *
+ * 対象: flattenDepartmentTree / createDepartmentFilter / groupRowsByDepartment / getSubordinateIds / getVisibleEmployeeIds
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（部署・上長）
+ *
+ * 部署は配下の部署を含めて絞り込み・集計し、閲覧範囲が「部下のみ」の管理者は上長をたどった部下だけを見る。
+ * 拠点管理者は自分と同じ勤務拠点の従業員だけを見る。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  flattenDepartmentTree,
+  createDepartmentFilter,
+  groupRowsByDepartment,
+  getSubordinateIds,
+  getVisibleEmployeeIds,
+  wouldCreateDepartmentCycle,
+  wouldCreateReportingCycle,
+  NO_DEPARTMENT_KEY
+} from './department';
+
+const dept = (id: string, name: string, parentId: string | null, displayOrder = 1) => ({
+  id,
+  name,
+  parentId,
+  displayOrder,
+  isActive: true
+});
+
+const departments = [
+  dept('sales2', '第二営業課', 'sales', 2),
+  dept('hq', '本社', null),
+  dept('sales', '営業部', 'hq', 2),
+  dept('sales1', '第一営業課', 'sales', 1),
+  dept('admin', '管理部', 'hq', 1)
+];
+
+describe('flattenDepartmentTree', () => {
+  it('親 → 子の順に表示順で並べ、階層の深さと最上位からの部署名を付ける', () => {
+    expect(flattenDepartmentTree(departments).map(item => [item.department.id, item.depth, item.path])).toEqual([
+      ['hq', 0, '本社'],
+      ['admin', 1, '本社 > 管理部'],
+      ['sales', 1, '本社 > 営業部'],
+      ['sales1', 2, '本社 > 営業部 > 第一営業課'],
+      ['sales2', 2, '本社 > 営業部 > 第二営業課']
+    ]);
+  });
+
+  it('自分や配下の部署を親部署にすると循環になる', () => {
+    expect(wouldCreateDepartmentCycle(departments, 'sales', 'sales1')).toBe(true);
+    expect(wouldCreateDepartmentCycle(departments, 'sales', 'sales')).toBe(true);
+    expect(wouldCreateDepartmentCycle(departments, 'sales1', 'admin')).toBe(false);
+  });
+});
+
+describe('createDepartmentFilter / groupRowsByDepartment', () => {
+  const rows = [
+    { name: 'A', departmentId: 'sales1' },
+    { name: 'B', departmentId: 'sales' },
+    { name: 'C', departmentId: 'admin' },
+    { name: 'D', departmentId: null }
+  ];
+
+  it('部署を選ぶと配下の部署を含め、部署未設定も絞り込める', () => {
+    const inSales = createDepartmentFilter(departments, 'sales');
+    expect(rows.filter(row => inSales(row.departmentId)).map(row => row.name)).toEqual(['A', 'B']);
+    const noDepartment = createDepartmentFilter(departments, NO_DEPARTMENT_KEY);
+    expect(rows.filter(row => noDepartment(row.departmentId)).map(row => row.name)).toEqual(['D']);
+    expect(rows.filter(row => createDepartmentFilter(departments, '')(row.departmentId))).toHaveLength(4);
+  });
+
+  it('行を部署のツリー順にまとめ、部署未設定は最後にする', () => {
+    expect(groupRowsByDepartment(rows, row => row.departmentId, departments).map(group => [group.label, group.rows.length])).toEqual([
+      ['本社 > 管理部', 1],
+      ['本社 > 営業部', 1],
+      ['本社 > 営業部 > 第一営業課', 1],
+      ['部署未設定', 1]
+    ]);
+  });
+});
+
+describe('getSubordinateIds / getVisibleEmployeeIds', () => {
+  const employees = [
+    { id: 'ceo', managerEmployeeId: null },
+    { id: 'manager', managerEmployeeId: 'ceo', viewScope: 'subordinates' as const },
+    { id: 'lead', managerEmployeeId: 'manager' },
+    { id: 'member', managerEmployeeId: 'lead' },
+    { id: 'other', managerEmployeeId: 'ceo' }
+  ];
+
+  it('上長をたどって間接の部下まで含め、自分や部下を上長にすると循環になる', () => {
+    expect([...getSubordinateIds(employees, 'manager')].sort()).toEqual(['lead', 'member']);
+    expect(wouldCreateReportingCycle(employees, 'manager', 'member')).toBe(true);
+    expect(wouldCreateReportingCycle(employees, 'member', 'other')).toBe(false);
+  });
+
+  it('閲覧範囲が部下のみの管理者は自分と部下だけ、全従業員の管理者は絞り込まない', () => {
+    expect([...(getVisibleEmployeeIds(employees, 'manager') ?? [])].sort()).toEqual(['lead', 'manager', 'member']);
+    expect(getVisibleEmployeeIds(employees, 'ceo')).toBeNull();
+  });
+
+  it('拠点管理者は自分と同じ勤務拠点の従業員だけを見る', () => {
+    const located = [
+      { id: 'tokyoManager', adminRole: 'locationManager' as const, workLocationId: 'tokyo' },
+      { id: 'tokyoStaff', managerEmployeeId: 'ceo', workLocationId: 'tokyo' },
+      { id: 'osakaStaff', managerEmployeeId: 'tokyoManager', workLocationId: 'osaka' }
+    ];
+    expect([...(getVisibleEmployeeIds(located, 'tokyoManager') ?? [])].sort()).toEqual(['tokyoManager', 'tokyoStaff']);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * 部署（組織階層）と上長（レポートライン）のユーティリティ。
+ *
+ * - 部署は親部署を持つツリー構造（親部署が無い部署が最上位）で、部署での絞り込み・小計は配下の部署を含める
+ * - 従業員は所属部署と上長（1人）を持ち、上長をたどって自分に行き着く従業員を部下とする（間接の部下を含む）
+ * - 閲覧範囲が「部下のみ」の管理者は、自分と部下のデータだけを一覧に表示する
+ * - 権限ロールが拠点管理者の管理者は、自分と同じ勤務拠点の従業員のデータだけを一覧に表示する
+ *   （API側でも同じ範囲に絞り込む。画面の絞り込みは表示を揃えるためのもの）
+ */
+
+import type { AdminRole } from './permission';
+
+/** 部署1件の設定 */
+export interface DepartmentSetting {
+  name: string;
+  /** 親部署のID。最上位の部署は null */
+  parentId: string | null;
+  /** 同じ親部署の中での表示順 */
+  displayOrder: number;
+  /** 所属部署として選択できるかどうか */
+  isActive: boolean;
+}
+
+type DepartmentLike = DepartmentSetting & { id: string };
+
+/** ツリー順に並べた部署 */
+export interface DepartmentTreeItem<T extends DepartmentLike> {
+  department: T;
+  /** 階層の深さ（最上位は0） */
+  depth: number;
+  /** 最上位からの部署名（例: 本社 > 営業部 > 第一課） */
+  path: string;
+}
+
+/** 部署での絞り込みで「部署未設定」を表す値 */
+export const NO_DEPARTMENT_KEY = '__none__';
+
+/** 管理者の閲覧範囲（all: 全従業員 / subordinates: 自分と部下のみ） */
+export type EmployeeViewScope = 'all' | 'subordinates';
+
+/** 閲覧範囲の表示名 */
+export const EMPLOYEE_VIEW_SCOPE_LABELS: Record<EmployeeViewScope, string> = {
+  all: '全従業員',
+  subordinates: '自分と部下のみ'
+};
+
+/** 上長の判定に使う従業員の項目 */
+export interface ReportingLineLike {
+  id: string;
+  /** 上長の従業員ID。未設定は null */
+  managerEmployeeId?: string | null;
+  /** 管理者の閲覧範囲。未設定は全従業員 */
+  viewScope?: EmployeeViewScope;
+  /** 管理者の権限ロール。拠点管理者は勤務拠点で絞り込む */
+  adminRole?: AdminRole | null;
+  /** 勤務拠点のID */
+  workLocationId?: string | null;
+}
+
+/**
+ * 部署をツリー順（親 → 子、同じ親の中は表示順 → 名前順）に並べる。
+ * 親部署が見つからない部署は最上位として扱う。
+ *
+ * @param {T[]} departments - 部署の一覧。
+ * @returns {DepartmentTreeItem<T>[]} ツリー順の部署。
+ */
+export function flattenDepartmentTree<T extends DepartmentLike>(departments: T[]): DepartmentTreeItem<T>[] {
+  const ids = new Set(departments.map(d => d.id));
+  const byOrder = (a: T, b: T) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name, 'ja');
+  const childrenOf = (parentId: string | null) =>
+    departments
+      .filter(d => (d.parentId && ids.has(d.parentId) ? d.parentId : null) === parentId)
+      .sort(byOrder);
+
+  const result: DepartmentTreeItem<T>[] = [];
+  const visited = new Set<string>();
+  const walk = (parentId: string | null, depth: number, parentPath: string) => {
+    for (const department of childrenOf(parentId)) {
+      if (visited.has(department.id)) continue;
+      visited.add(department.id);
+      const path = parentPath ? `${parentPath} > ${department.name}` : department.name;
+      result.push({ department, depth, path });
+      walk(department.id, depth + 1, path);
+    }
+  };
+  walk(null, 0, '');
+  return result;
+}
+
+/**
+ * 部署と配下のすべての部署のIDを返す。
+ *
+ * @param {DepartmentLike[]} departments - 部署の一覧。
+ * @param {string} departmentId - 部署ID。
+ * @returns {Set<string>} 部署自身と配下の部署のID。
+ */
+export function getDepartmentWithDescendantIds(departments: DepartmentLike[], departmentId: string): Set<string> {
+  const result = new Set<string>([departmentId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const department of departments) {
+      if (department.parentId && result.has(department.parentId) && !result.has(department.id)) {
+        result.add(department.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 部署の親部署を変更すると循環（自分や配下の部署を親にする）になるかを返す。
+ *
+ * @param {DepartmentLike[]} departments - 部署の一覧。
+ * @param {string} departmentId - 変更する部署のID。
+ * @param {string | null} parentId - 新しい親部署のID。
+ * @returns {boolean} 循環になるなら true。
+ */
+export function wouldCreateDepartmentCycle(
+  departments: DepartmentLike[],
+  departmentId: string,
+  parentId: string | null
+): boolean {
+  return parentId !== null && getDepartmentWithDescendantIds(departments, departmentId).has(parentId);
+}
+
+/**
+ * 部署での絞り込みの判定関数を返す。
+ * 部署を選んだ場合は配下の部署の従業員も含める。
+ *
+ * @param {DepartmentLike[]} departments - 部署の一覧。
+ * @param {string} filter - 部署ID。空文字はすべて、NO_DEPARTMENT_KEY は部署未設定。
+ * @returns {(departmentId: string | null | undefined) => boolean} 所属部署が条件に当てはまるなら true を返す関数。
+ */
+export function createDepartmentFilter(
+  departments: DepartmentLike[],
+  filter: string
+): (departmentId: string | null | undefined) => boolean {
+  if (!filter) return () => true;
+  if (filter === NO_DEPARTMENT_KEY) return departmentId => !departmentId;
+  const ids = getDepartmentWithDescendantIds(departments, filter);
+  return departmentId => !!departmentId && ids.has(departmentId);
+}
+
+/**
+ * 行を所属部署ごとにまとめる（部署のツリー順、部署未設定は最後）。
+ * 部署の小計の表示に使う。行が無い部署は含めない。
+ *
+ * @param {R[]} rows - 行。
+ * @param {(row: R) => string | null | undefined} getDepartmentId - 行の所属部署IDを返す関数。
+ * @param {DepartmentLike[]} departments - 部署の一覧。
+ * @returns {Array<{ departmentId: string | null; label: string; rows: R[] }>} 部署ごとの行。
+ */
+export function groupRowsByDepartment<R>(
+  rows: R[],
+  getDepartmentId: (row: R) => string | null | undefined,
+  departments: DepartmentLike[]
+): Array<{ departmentId: string | null; label: string; rows: R[] }> {
+  const tree = flattenDepartmentTree(departments);
+  const known = new Set(tree.map(item => item.department.id));
+  const groups: Array<{ departmentId: string | null; label: string; rows: R[] }> = tree.map(item => ({
+    departmentId: item.department.id,
+    label: item.path,
+    rows: rows.filter(row => getDepartmentId(row) === item.department.id)
+  }));
+  groups.push({
+    departmentId: null,
+    label: '部署未設定',
+    rows: rows.filter(row => {
+      const departmentId = getDepartmentId(row);
+      return !departmentId || !known.has(departmentId);
+    })
+  });
+  return groups.filter(group => group.rows.length > 0);
+}
+
+/**
+ * 上長をたどって従業員に行き着く部下（間接の部下を含む）のIDを返す。
+ *
+ * @param {ReportingLineLike[]} employees - 従業員の一覧。
+ * @param {string} managerId - 上長の従業員ID。
+ * @returns {Set<string>} 部下の従業員ID（上長自身は含めない）。
+ */
+export function getSubordinateIds(employees: ReportingLineLike[], managerId: string): Set<string> {
+  const result = new Set<string>();
+  const queue = [managerId];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const employee of employees) {
+      if (employee.managerEmployeeId === current && employee.id !== managerId && !result.has(employee.id)) {
+        result.add(employee.id);
+        queue.push(employee.id);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 従業員の上長を変更すると循環（自分や部下を上長にする）になるかを返す。
+ *
+ * @param {ReportingLineLike[]} employees - 従業員の一覧。
+ * @param {string} employeeId - 変更する従業員のID。
+ * @param {string | null} managerId - 新しい上長の従業員ID。
+ * @returns {boolean} 循環になるなら true。
+ */
+export function wouldCreateReportingCycle(
+  employees: ReportingLineLike[],
+  employeeId: string,
+  managerId: string | null
+): boolean {
+  return managerId !== null && (managerId === employeeId || getSubordinateIds(employees, employeeId).has(managerId));
+}
+
+/**
+ * ログイン中の管理者が一覧で見られる従業員のIDを返す。
+ *
+ * @param {ReportingLineLike[]} employees - 従業員の一覧。
+ * @param {string | null} viewerId - ログイン中の従業員ID。
+ * @returns {Set<string> | null} 見られる従業員のID（拠点管理者は自分と同じ勤務拠点の従業員、閲覧範囲が部下のみなら自分と部下）。
+ *   閲覧範囲が全従業員なら null（絞り込まない）。
+ */
+export function getVisibleEmployeeIds(employees: ReportingLineLike[], viewerId: string | null): Set<string> | null {
+  const viewer = employees.find(employee => employee.id === viewerId);
+  if (!viewer) return null;
+  if (viewer.adminRole === 'locationManager') {
+    return new Set(
+      employees
+        .filter(employee => employee.id === viewer.id || (!!viewer.workLocationId && employee.workLocationId === viewer.workLocationId))
+        .map(employee => employee.id)
+    );
+  }
+  if (viewer.viewScope !== 'subordinates') return null;
+  return new Set([viewer.id, ...getSubordinateIds(employees, viewer.id)]);
+}
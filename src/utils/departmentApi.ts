@@ -0,0 +1,128 @@
+/**
+ * 部署マスタAPI呼び出しユーティリティ
+ * 親部署を持つツリー構造の部署（本社 > 営業部 > 第一営業課 など）を管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { DepartmentSetting } from './department';
+
+/**
+ * 部署1件
+ */
+export interface Department extends DepartmentSetting {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 部署作成・更新リクエスト
+ */
+export type SaveDepartmentRequest = DepartmentSetting;
+
+/**
+ * 部署一覧取得
+ * @returns 部署（無効なものを含む）
+ */
+export const getDepartments = async (): Promise<Department[]> => {
+  try {
+    const response = await apiRequest('/api/v1/departments', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.departments || [];
+  } catch (error) {
+    logError('Failed to fetch departments:', error);
+    throw error;
+  }
+};
+
+/**
+ * 部署作成
+ * @param payload 部署の設定
+ * @returns 作成された部署
+ */
+export const createDepartment = async (
+  payload: SaveDepartmentRequest
+): Promise<Department> => {
+  try {
+    const response = await apiRequest('/api/v1/departments', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create department:', error);
+    throw error;
+  }
+};
+
+/**
+ * 部署更新
+ * 親部署を自分や配下の部署にする変更は API側で 400 が返る。
+ * @param departmentId 部署ID
+ * @param payload 部署の設定
+ * @returns 更新された部署
+ */
+export const updateDepartment = async (
+  departmentId: string,
+  payload: SaveDepartmentRequest
+): Promise<Department> => {
+  try {
+    const response = await apiRequest(`/api/v1/departments/${departmentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to update department:', error);
+    throw error;
+  }
+};
+
+/**
+ * 部署削除
+ * 配下の部署や所属する従業員がいる部署は API側で 409 が返る（無効にして選択肢から外す）。
+ * @param departmentId 部署ID
+ */
+export const deleteDepartment = async (departmentId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/departments/${departmentId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete department:', error);
+    throw error;
+  }
+};
@@ -6,6 +6,75 @@
 import { apiRequest } from '../config/apiConfig';
 import { error as logError, warn } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { WithholdingColumn } from './withholdingTax';
+import type { EmployeeViewScope } from './department';
+import type { AdminRole } from './permission';
+
+/**
+ * 所定労働時間の契約（適用開始日つきの履歴）
+ */
+export interface PrescribedWorkContract {
+  /** 適用開始日（YYYY-MM-DD） */
+  effectiveFrom: string;
+  /** 1日の所定労働時間（時間、例: 7.5） */
+  prescribedWorkHours: number;
+}
+
+/**
+ * 預金種目（普通・当座・貯蓄）
+ */
+export type BankAccountType = 'ORDINARY' | 'CHECKING' | 'SAVINGS';
+
+/**
+ * 振込先口座（全銀フォーマットの振込データ作成に使用）
+ */
+export interface BankAccount {
+  /** 金融機関コード（4桁） */
+  bankCode: string;
+  /** 金融機関名（半角カナ、任意） */
+  bankName?: string;
+  /** 支店コード（3桁） */
+  branchCode: string;
+  /** 支店名（半角カナ、任意） */
+  branchName?: string;
+  accountType: BankAccountType;
+  /** 口座番号（7桁以内） */
+  accountNumber: string;
+  /** 口座名義（カナ） */
+  accountHolder: string;
+}
+
+/**
+ * 標準報酬月額の決定理由（資格取得時決定・定時決定・随時改定）
+ */
+export type StandardRemunerationReason = 'ACQUISITION' | 'ANNUAL' | 'REVISION';
+
+/**
+ * 標準報酬月額の履歴（適用開始月つき）
+ */
+export interface StandardRemunerationRecord {
+  /** 適用開始月（YYYY-MM） */
+  effectiveFrom: string;
+  /** 決定の基礎となった報酬月額 */
+  remuneration: number;
+  /** 健康保険の等級（厚生年金の等級はここから求める） */
+  healthGrade: number;
+  reason: StandardRemunerationReason;
+}
+
+/**
+ * 社会保険の加入情報
+ */
+export interface SocialInsuranceSettings {
+  /** 健康保険・厚生年金の被保険者か */
+  healthInsuranceEnrolled: boolean;
+  /** 雇用保険の被保険者か */
+  employmentInsuranceEnrolled: boolean;
+  /** 健康保険料率の都道府県（事業所の所在地） */
+  prefecture: string;
+  /** 標準報酬月額の履歴 */
+  standardRemunerations: StandardRemunerationRecord[];
+}
 
 /**
  * 従業員データのレスポンス型
@@ -24,8 +93,35 @@ export interface EmployeeResponse {
   isAdmin: boolean;
   baseSalary: number;
   defaultBreakTime: number;
+  /** 1日の所定労働時間（時間）。契約履歴が無い従業員の既定値 */
   prescribedWorkHours?: number;
+  /** 所定労働時間の契約履歴。期間途中の変更は適用開始日で按分する */
+  workContracts?: PrescribedWorkContract[];
   workLocationId?: string | null;
+  /** 所属部署のID。未設定の場合は null */
+  departmentId?: string | null;
+  /** 上長の従業員ID。未設定の場合は null */
+  managerEmployeeId?: string | null;
+  /** 管理者の閲覧範囲（自分と部下のみ／全従業員）。未設定は全従業員 */
+  viewScope?: EmployeeViewScope;
+  /** 管理者の権限ロール。未設定はシステム管理者 */
+  adminRole?: AdminRole | null;
+  /** 給与振込先口座。未登録の場合は null */
+  bankAccount?: BankAccount | null;
+  /** 源泉徴収税額表の区分（扶養控除等申告書の提出ありは甲欄）。未設定は甲欄として扱う */
+  withholdingColumn?: WithholdingColumn;
+  /** 源泉控除対象の扶養親族等の数 */
+  dependents?: number;
+  /** 生年月日（YYYY-MM-DD、介護保険の対象判定に使用） */
+  birthDate?: string | null;
+  /** 社会保険の加入情報。未設定の場合は null */
+  socialInsurance?: SocialInsuranceSettings | null;
+  /** 社員コード（打刻端末のテンキーで入力する数字）。未設定の場合は null */
+  employeeCode?: string | null;
+  /** 打刻端末のPINを設定済みかどうか（PIN自体は返さない） */
+  hasKioskPin?: boolean;
+  /** 社員証のQRコードの内容。未設定の場合は null */
+  kioskCardCode?: string | null;
   paidLeaves: Array<{
     grantDate: string;
     days: number;
@@ -50,7 +146,21 @@ export interface CreateEmployeeRequest {
   baseSalary: number;
   defaultBreakTime: number;
   prescribedWorkHours?: number;
+  workContracts?: PrescribedWorkContract[];
   workLocationId?: string | null;
+  departmentId?: string | null;
+  managerEmployeeId?: string | null;
+  viewScope?: EmployeeViewScope;
+  adminRole?: AdminRole | null;
+  bankAccount?: BankAccount | null;
+  withholdingColumn?: WithholdingColumn;
+  dependents?: number;
+  birthDate?: string | null;
+  socialInsurance?: SocialInsuranceSettings | null;
+  employeeCode?: string | null;
+  /** 打刻端末のPIN（4〜8桁の数字）。未指定は変更しない、null は削除する */
+  kioskPin?: string | null;
+  kioskCardCode?: string | null;
   paidLeaves?: Array<{
     grantDate: string;
     days: number;
@@ -0,0 +1,133 @@
+/**
+ * employeeImport のユニットテスト。
+ *
+ * 対象: buildEmployeeImportPlan
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（従業員CSV一括取込）
+ *
+ * 従業員ID・メールアドレスで既存の従業員を探して更新し、見つからない行は新規登録にする。
+ * 全行を従業員登録画面と同じ入力チェックにかけ、エラーの行は取り込まない。
+ */
+import { describe, it, expect } from 'vitest';
+import { buildEmployeeImportPlan, EMPLOYEE_IMPORT_FIELDS, type EmployeeImportContext } from './employeeImport';
+import { autoMapCsvColumns } from './csvImport';
+import type { EmployeeResponse } from './employeeApi';
+
+const existing: EmployeeResponse = {
+  id: 'E001',
+  firstName: '山田',
+  lastName: '太郎',
+  employmentType: 'FULL_TIME',
+  email: 'yamada@example.com',
+  joinDate: '2020-04-01',
+  leaveDate: null,
+  allowances: ['A1'],
+  isAdmin: false,
+  baseSalary: 250000,
+  defaultBreakTime: 60,
+  departmentId: 'D1',
+  bankAccount: { bankCode: '0001', branchCode: '001', accountType: 'ORDINARY', accountNumber: '1234567', accountHolder: 'ﾔﾏﾀﾞ ﾀﾛｳ' },
+  paidLeaves: [{ grantDate: '2024-10-01', days: 11 }]
+};
+
+const context: EmployeeImportContext = {
+  employees: [existing],
+  allowances: [{ id: 'A1', name: '通勤手当' }, { id: 'A2', name: '資格手当' }],
+  workLocations: [{ id: 'W1', name: '本社' }],
+  departments: [{ id: 'D1', name: '営業部' }, { id: 'D2', name: '総務部' }]
+};
+
+const headers = ['従業員ID', '姓', '名', '雇用形態', 'メールアドレス', '入社日', '基本給', '手当', '勤務拠点', '部署', '口座名義', '所定労働時間', '有給付与日', '有給付与日数'];
+const mapping = autoMapCsvColumns(headers, EMPLOYEE_IMPORT_FIELDS);
+
+describe('buildEmployeeImportPlan', () => {
+  it('新規登録の行は名称から手当・勤務拠点・部署のIDを求め、所定労働時間と有給を初期値にする', () => {
+    const [row] = buildEmployeeImportPlan(
+      [['', '鈴木', '花子', 'パート', 'suzuki@example.com', '2025/4/1', '1,200', '通勤手当、資格手当', '本社', '総務部', '', '6', '2025/10/1', '10']],
+      mapping,
+      context
+    );
+
+    expect(row.action).toBe('create');
+    expect(row.rowNumber).toBe(2);
+    expect(row.request).toMatchObject({
+      firstName: '鈴木',
+      lastName: '花子',
+      employmentType: 'PART_TIME',
+      joinDate: '2025-04-01',
+      baseSalary: 1200,
+      allowances: ['A1', 'A2'],
+      workLocationId: 'W1',
+      departmentId: 'D2',
+      workContracts: [{ effectiveFrom: '2025-04-01', prescribedWorkHours: 6 }],
+      paidLeaves: [{ grantDate: '2025-10-01', days: 10 }],
+      adminRole: null
+    });
+    expect(row.changes.find(change => change.label === '手当')).toEqual({ label: '手当', before: '', after: '通勤手当、資格手当' });
+  });
+
+  it('メールアドレスが一致する行は更新にし、空欄の項目は登録済みの内容を残す', () => {
+    const [row] = buildEmployeeImportPlan(
+      [['', '', '', '', 'YAMADA@example.com', '', '260000', '', '', '総務部', '', '', '', '']],
+      mapping,
+      context
+    );
+
+    expect(row.action).toBe('update');
+    expect(row.employeeId).toBe('E001');
+    expect(row.request).toMatchObject({ firstName: '山田', baseSalary: 260000, departmentId: 'D2', allowances: ['A1'], paidLeaves: existing.paidLeaves });
+    expect(row.request?.bankAccount).toEqual(existing.bankAccount);
+    expect(row.changes).toEqual([
+      { label: '基本給', before: '250000', after: '260000' },
+      { label: '部署', before: '営業部', after: '総務部' }
+    ]);
+  });
+
+  it('変更が無い行は変更なし、更新の行の所定労働時間・有給は反映せず注意を出す', () => {
+    const [row] = buildEmployeeImportPlan(
+      [['E001', '山田', '太郎', '正社員', '', '', '', '', '', '', '', '8', '', '']],
+      mapping,
+      context
+    );
+
+    expect(row.action).toBe('unchanged');
+    expect(row.warnings).toHaveLength(1);
+  });
+
+  it('入力チェックのエラー・マスタに無い名称・CSV内の重複はエラーにして取り込まない', () => {
+    const rows = buildEmployeeImportPlan(
+      [
+        ['', '佐藤', '', '正社員', 'sato@example.com', '2025-04-31', '0', '住宅手当', '', '', '', '', '', ''],
+        ['E999', '田中', '一郎', '正社員', 'tanaka@example.com', '2025-04-01', '200000', '', '', '', '', '', '', ''],
+        ['', '高橋', '次郎', '', 'takahashi@example.com', '2025-04-01', '200000', '', '', '', '', '', '2025-10-01', ''],
+        ['', '伊藤', '三郎', '正社員', 'ito@example.com', '2025-04-01', '200000', '', '', '', '', '', '', ''],
+        ['', '伊藤', '三郎', '正社員', 'ito@example.com', '2025-04-01', '200000', '', '', '', '', '', '', '']
+      ],
+      mapping,
+      context
+    );
+
+    expect(rows.map(row => row.action)).toEqual(['error', 'error', 'error', 'create', 'error']);
+    expect(rows[0].errors).toEqual([
+      '入社日の値「2025-04-31」が正しくありません',
+      '手当「住宅手当」が手当マスタにありません',
+      '必須項目を入力してください',
+      '給与を入力してください'
+    ]);
+    expect(rows[1].errors).toContain('従業員ID「E999」の従業員が見つかりません');
+    expect(rows[2].errors).toEqual(['雇用形態を入力してください', '有給は付与日と付与日数（0より大きい日数）の両方を入力してください']);
+    expect(rows[4].errors).toEqual(['同じ従業員がCSVの5行目にもあります']);
+    expect(rows[0].request).toBeNull();
+  });
+
+  it('従業員IDで更新する行のメールアドレスが他の従業員のものならエラーにする', () => {
+    const other: EmployeeResponse = { ...existing, id: 'E002', email: 'other@example.com' };
+    const [row] = buildEmployeeImportPlan(
+      [['E002', '', '', '', 'yamada@example.com', '', '', '', '', '', '', '', '', '']],
+      mapping,
+      { ...context, employees: [existing, other] }
+    );
+
+    expect(row.action).toBe('error');
+    expect(row.errors).toEqual(['メールアドレス「yamada@example.com」は他の従業員（山田 太郎）が使用しています']);
+  });
+});
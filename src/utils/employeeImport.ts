@@ -0,0 +1,411 @@
+/**
+ * 従業員のCSV一括取込のユーティリティ。
+ *
+ * - CSVの1行を従業員登録リクエスト（CreateEmployeeRequest）にする。手当・勤務拠点・部署は名称で指定する
+ * - 従業員IDの列に値がある行、またはメールアドレスが既存の従業員と一致する行は更新、それ以外は新規登録にする
+ * - 更新では空欄の項目は変更しない（登録済みの内容を残す）。所定労働時間・有給の初期付与は新規登録のみ反映する
+ * - すべての行を従業員登録画面と同じ入力チェック（validateEmployeeRequest）にかけ、登録前に新規・更新の差分を確認する
+ */
+
+import type { BankAccount, BankAccountType, CreateEmployeeRequest, EmployeeResponse } from './employeeApi';
+import type { CsvColumnMapping, CsvImportField } from './csvImport';
+import { parseCsvDate, parseCsvNumber } from './csvImport';
+import { validateEmployeeRequest } from './employeeValidation';
+import { BANK_ACCOUNT_TYPE_LABELS, toZenginKana } from './zenginTransfer';
+import { WITHHOLDING_COLUMN_LABELS, type WithholdingColumn } from './withholdingTax';
+import { DEFAULT_ADMIN_ROLE } from './permission';
+import { getEmploymentTypes } from '../config/masterData';
+
+/** 取込項目 */
+export type EmployeeImportFieldKey =
+  | 'employeeId'
+  | 'firstName'
+  | 'lastName'
+  | 'employmentType'
+  | 'email'
+  | 'joinDate'
+  | 'leaveDate'
+  | 'baseSalary'
+  | 'defaultBreakTime'
+  | 'prescribedWorkHours'
+  | 'allowances'
+  | 'workLocation'
+  | 'department'
+  | 'isAdmin'
+  | 'birthDate'
+  | 'withholdingColumn'
+  | 'dependents'
+  | 'bankCode'
+  | 'branchCode'
+  | 'accountType'
+  | 'accountNumber'
+  | 'accountHolder'
+  | 'paidLeaveGrantDate'
+  | 'paidLeaveDays';
+
+/** 取込項目の定義（CSVのひな形の列の並び順） */
+export const EMPLOYEE_IMPORT_FIELDS: CsvImportField<EmployeeImportFieldKey>[] = [
+  { key: 'employeeId', label: '従業員ID', aliases: ['従業員コード', '社員番号'] },
+  { key: 'firstName', label: '姓', aliases: ['苗字'] },
+  { key: 'lastName', label: '名', aliases: ['名前'] },
+  { key: 'employmentType', label: '雇用形態' },
+  { key: 'email', label: 'メールアドレス', aliases: ['メール'] },
+  { key: 'joinDate', label: '入社日' },
+  { key: 'leaveDate', label: '退社日', aliases: ['退職日'] },
+  { key: 'baseSalary', label: '基本給', aliases: ['月給・時給', '給与'] },
+  { key: 'defaultBreakTime', label: '休憩時間（分）', aliases: ['休憩時間'] },
+  { key: 'prescribedWorkHours', label: '所定労働時間（時間）', aliases: ['所定労働時間'] },
+  { key: 'allowances', label: '手当' },
+  { key: 'workLocation', label: '勤務拠点' },
+  { key: 'department', label: '部署', aliases: ['所属部署'] },
+  { key: 'isAdmin', label: '管理者' },
+  { key: 'birthDate', label: '生年月日' },
+  { key: 'withholdingColumn', label: '税額表区分', aliases: ['源泉徴収税額表の区分'] },
+  { key: 'dependents', label: '扶養親族等の数', aliases: ['扶養人数'] },
+  { key: 'bankCode', label: '金融機関コード', aliases: ['銀行コード'] },
+  { key: 'branchCode', label: '支店コード' },
+  { key: 'accountType', label: '預金種目' },
+  { key: 'accountNumber', label: '口座番号' },
+  { key: 'accountHolder', label: '口座名義' },
+  { key: 'paidLeaveGrantDate', label: '有給付与日' },
+  { key: 'paidLeaveDays', label: '有給付与日数' }
+];
+
+/** 取込で参照するマスタと既存の従業員 */
+export interface EmployeeImportContext {
+  employees: EmployeeResponse[];
+  allowances: Array<{ id: string; name: string }>;
+  workLocations: Array<{ id: string; name: string }>;
+  departments: Array<{ id: string; name: string }>;
+}
+
+/** 行の取込内容（create: 新規登録 / update: 更新 / unchanged: 変更なし / error: エラーのため取り込まない） */
+export type EmployeeImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/** 項目の変更内容（新規登録は変更前が空） */
+export interface EmployeeImportChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** 行ごとの取込内容（登録前の確認用） */
+export interface EmployeeImportPlanRow {
+  /** CSVの行番号（見出し行を1行目とする） */
+  rowNumber: number;
+  action: EmployeeImportAction;
+  /** 更新する従業員のID（新規登録・エラーは null） */
+  employeeId: string | null;
+  employeeName: string;
+  /** 登録・更新内容（エラーは null） */
+  request: CreateEmployeeRequest | null;
+  changes: EmployeeImportChange[];
+  errors: string[];
+  warnings: string[];
+}
+
+/** 新規登録の既定値（従業員登録画面の初期値と同じ） */
+const EMPTY_REQUEST: CreateEmployeeRequest = {
+  firstName: '',
+  lastName: '',
+  employmentType: 'FULL_TIME',
+  email: '',
+  joinDate: '',
+  leaveDate: null,
+  allowances: [],
+  isAdmin: false,
+  baseSalary: 0,
+  defaultBreakTime: 60,
+  workLocationId: null,
+  departmentId: null,
+  managerEmployeeId: null,
+  viewScope: 'all',
+  adminRole: null,
+  workContracts: [],
+  bankAccount: null,
+  withholdingColumn: 'KOU',
+  dependents: 0,
+  birthDate: null,
+  socialInsurance: null,
+  paidLeaves: []
+};
+
+/** 手当の区切り文字（1つのセルに複数の手当を書く場合） */
+const ALLOWANCE_SEPARATOR = /[、,;；|／/]/;
+
+/** 管理者の列で「はい」として扱う値 */
+const TRUE_VALUES = ['はい', 'あり', '○', '〇', '1', 'true', 'yes', '管理者'];
+/** 管理者の列で「いいえ」として扱う値 */
+const FALSE_VALUES = ['いいえ', 'なし', '×', '0', 'false', 'no', '一般'];
+
+/**
+ * 登録済みの従業員を更新リクエストにする（従業員登録画面の編集時の読み込みと同じ）。
+ *
+ * @param {EmployeeResponse} employee - 従業員。
+ * @returns {CreateEmployeeRequest} 更新リクエスト。
+ */
+const toEmployeeRequest = (employee: EmployeeResponse): CreateEmployeeRequest => ({
+  firstName: employee.firstName,
+  lastName: employee.lastName,
+  employmentType: employee.employmentType,
+  email: employee.email,
+  joinDate: employee.joinDate,
+  leaveDate: employee.leaveDate,
+  allowances: employee.allowances,
+  isAdmin: employee.isAdmin,
+  baseSalary: employee.baseSalary,
+  defaultBreakTime: employee.defaultBreakTime,
+  prescribedWorkHours: employee.prescribedWorkHours,
+  workContracts: employee.workContracts && employee.workContracts.length > 0
+    ? employee.workContracts
+    : employee.prescribedWorkHours
+      ? [{ effectiveFrom: employee.joinDate, prescribedWorkHours: employee.prescribedWorkHours }]
+      : [],
+  workLocationId: employee.workLocationId ?? null,
+  departmentId: employee.departmentId ?? null,
+  managerEmployeeId: employee.managerEmployeeId ?? null,
+  viewScope: employee.viewScope ?? 'all',
+  adminRole: employee.isAdmin ? employee.adminRole ?? DEFAULT_ADMIN_ROLE : null,
+  bankAccount: employee.bankAccount ?? null,
+  withholdingColumn: employee.withholdingColumn ?? 'KOU',
+  dependents: employee.dependents ?? 0,
+  birthDate: employee.birthDate ?? null,
+  socialInsurance: employee.socialInsurance ?? null,
+  // 更新は全項目の置換のため、取込の列に無い打刻端末の設定も登録済みの内容を送る（PINは送らない＝変更しない）
+  employeeCode: employee.employeeCode ?? null,
+  kioskCardCode: employee.kioskCardCode ?? null,
+  paidLeaves: employee.paidLeaves
+});
+
+/**
+ * 登録内容を確認画面の項目ごとの表示にする。
+ *
+ * @param {CreateEmployeeRequest} request - 登録・更新内容。
+ * @param {EmployeeImportContext} context - 名称の表示に使うマスタ。
+ * @returns {Array<[string, string]>} 項目名と表示値。
+ */
+const describeRequest = (request: CreateEmployeeRequest, context: EmployeeImportContext): Array<[string, string]> => {
+  const nameOf = (items: Array<{ id: string; name: string }>, id: string | null | undefined) =>
+    id ? items.find(item => item.id === id)?.name ?? id : '';
+  const account = request.bankAccount;
+  const latestContract = [...(request.workContracts ?? [])].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  return [
+    ['姓', request.firstName],
+    ['名', request.lastName],
+    ['雇用形態', getEmploymentTypes().find(type => type.code === request.employmentType)?.label ?? request.employmentType],
+    ['メールアドレス', request.email],
+    ['入社日', request.joinDate],
+    ['退社日', request.leaveDate ?? ''],
+    ['基本給', String(request.baseSalary)],
+    ['休憩時間（分）', String(request.defaultBreakTime)],
+    ['所定労働時間（時間）', latestContract ? String(latestContract.prescribedWorkHours) : ''],
+    ['手当', (request.allowances ?? []).map(id => nameOf(context.allowances, id)).join('、')],
+    ['勤務拠点', nameOf(context.workLocations, request.workLocationId)],
+    ['部署', nameOf(context.departments, request.departmentId)],
+    ['管理者', request.isAdmin ? 'はい' : 'いいえ'],
+    ['生年月日', request.birthDate ?? ''],
+    ['税額表区分', WITHHOLDING_COLUMN_LABELS[request.withholdingColumn ?? 'KOU']],
+    ['扶養親族等の数', String(request.dependents ?? 0)],
+    ['振込先口座', account
+      ? `${account.bankCode}-${account.branchCode} ${BANK_ACCOUNT_TYPE_LABELS[account.accountType]} ${account.accountNumber} ${account.accountHolder}`
+      : ''],
+    ['有給の付与', (request.paidLeaves ?? []).map(leave => `${leave.grantDate} ${leave.days}日`).join('、')]
+  ];
+};
+
+/**
+ * 表示名またはコードからコードを求める。
+ *
+ * @param {string} value - CSVの値。
+ * @param {Record<T, string>} labels - コードごとの表示名。
+ * @param {Record<string, T>} aliases - 表示名以外に受け付ける値。
+ * @returns {T | null} コード。該当しない場合は null。
+ */
+const findCode = <T extends string>(value: string, labels: Record<T, string>, aliases: Record<string, T> = {}): T | null => {
+  const text = value.normalize('NFKC').trim();
+  const codes = Object.keys(labels) as T[];
+  return codes.find(code => code === text.toUpperCase() || labels[code] === text) ?? aliases[text] ?? null;
+};
+
+/**
+ * CSVの行から従業員の取込内容を作る（登録はしない）。
+ *
+ * @param {string[][]} rows - CSVの明細行（見出し行を除く）。
+ * @param {CsvColumnMapping<EmployeeImportFieldKey>} mapping - 取込項目ごとの列番号。
+ * @param {EmployeeImportContext} context - 既存の従業員とマスタ。
+ * @returns {EmployeeImportPlanRow[]} 行ごとの取込内容。
+ */
+export function buildEmployeeImportPlan(
+  rows: string[][],
+  mapping: CsvColumnMapping<EmployeeImportFieldKey>,
+  context: EmployeeImportContext
+): EmployeeImportPlanRow[] {
+  const employmentTypeLabels = Object.fromEntries(getEmploymentTypes().map(type => [type.code, type.label])) as Record<'FULL_TIME' | 'PART_TIME', string>;
+  const labelOf = (key: EmployeeImportFieldKey) => EMPLOYEE_IMPORT_FIELDS.find(field => field.key === key)?.label ?? key;
+  /** 取込済みの従業員（同じ従業員が複数行ある場合の検出用。キーは従業員IDまたはメールアドレス） */
+  const seen = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (key: EmployeeImportFieldKey) => {
+      const column = mapping[key];
+      return column === null || column === undefined ? '' : (row[column] ?? '').trim();
+    };
+    const invalid = (key: EmployeeImportFieldKey) => errors.push(`${labelOf(key)}の値「${cell(key)}」が正しくありません`);
+    const parseDate = (key: EmployeeImportFieldKey) => {
+      if (!cell(key)) return undefined;
+      const date = parseCsvDate(cell(key));
+      if (!date) invalid(key);
+      return date ?? undefined;
+    };
+    const parseNumber = (key: EmployeeImportFieldKey) => {
+      if (!cell(key)) return undefined;
+      const value = parseCsvNumber(cell(key));
+      if (value === null || value < 0) {
+        invalid(key);
+        return undefined;
+      }
+      return value;
+    };
+    const findByName = (key: EmployeeImportFieldKey, items: Array<{ id: string; name: string }>, master: string) => {
+      if (!cell(key)) return undefined;
+      const item = items.find(i => i.name === cell(key));
+      if (!item) errors.push(`${labelOf(key)}「${cell(key)}」が${master}にありません`);
+      return item?.id;
+    };
+
+    // 更新する従業員（従業員IDを優先し、無い場合はメールアドレスで探す）
+    const email = cell('email');
+    let existing: EmployeeResponse | undefined;
+    if (cell('employeeId')) {
+      existing = context.employees.find(employee => employee.id === cell('employeeId'));
+      if (!existing) errors.push(`従業員ID「${cell('employeeId')}」の従業員が見つかりません`);
+    } else if (email) {
+      existing = context.employees.find(employee => employee.email.toLowerCase() === email.toLowerCase());
+    }
+    if (existing && email) {
+      const owner = context.employees.find(employee => employee.email.toLowerCase() === email.toLowerCase());
+      if (owner && owner.id !== existing.id) errors.push(`メールアドレス「${email}」は他の従業員（${owner.firstName} ${owner.lastName}）が使用しています`);
+    }
+    const identity = existing?.id ?? email.toLowerCase();
+    if (identity) {
+      const duplicatedRow = seen.get(identity);
+      if (duplicatedRow !== undefined) errors.push(`同じ従業員がCSVの${duplicatedRow}行目にもあります`);
+      else seen.set(identity, rowNumber);
+    }
+
+    const base = existing ? toEmployeeRequest(existing) : EMPTY_REQUEST;
+    const request: CreateEmployeeRequest = { ...base };
+    if (cell('firstName')) request.firstName = cell('firstName');
+    if (cell('lastName')) request.lastName = cell('lastName');
+    // 大文字・小文字の違いだけのメールアドレスは変更しない
+    if (email && email.toLowerCase() !== request.email.toLowerCase()) request.email = email;
+    if (cell('employmentType')) {
+      const employmentType = findCode(cell('employmentType'), employmentTypeLabels, { 'パートタイム': 'PART_TIME', 'アルバイト': 'PART_TIME' });
+      if (employmentType) request.employmentType = employmentType;
+      else invalid('employmentType');
+    } else if (!existing) {
+      errors.push('雇用形態を入力してください');
+    }
+    request.joinDate = parseDate('joinDate') ?? request.joinDate;
+    request.leaveDate = parseDate('leaveDate') ?? request.leaveDate;
+    request.birthDate = parseDate('birthDate') ?? request.birthDate;
+    request.baseSalary = parseNumber('baseSalary') ?? request.baseSalary;
+    request.defaultBreakTime = parseNumber('defaultBreakTime') ?? request.defaultBreakTime;
+    request.workLocationId = findByName('workLocation', context.workLocations, '勤務拠点マスタ') ?? request.workLocationId;
+    request.departmentId = findByName('department', context.departments, '部署マスタ') ?? request.departmentId;
+
+    if (cell('allowances')) {
+      const names = cell('allowances').split(ALLOWANCE_SEPARATOR).map(name => name.trim()).filter(Boolean);
+      const unknown = names.filter(name => !context.allowances.some(allowance => allowance.name === name));
+      if (unknown.length > 0) errors.push(`手当「${unknown.join('、')}」が手当マスタにありません`);
+      request.allowances = context.allowances.filter(allowance => names.includes(allowance.name)).map(allowance => allowance.id);
+    }
+
+    if (cell('isAdmin')) {
+      const value = cell('isAdmin').normalize('NFKC').toLowerCase();
+      if (TRUE_VALUES.includes(value)) request.isAdmin = true;
+      else if (FALSE_VALUES.includes(value)) request.isAdmin = false;
+      else invalid('isAdmin');
+    }
+    // 管理者でない従業員は権限ロール・閲覧範囲を持たない（従業員登録画面と同じ）
+    request.adminRole = request.isAdmin ? request.adminRole ?? DEFAULT_ADMIN_ROLE : null;
+    request.viewScope = request.isAdmin ? request.viewScope : 'all';
+
+    if (cell('withholdingColumn')) {
+      const column = findCode<WithholdingColumn>(cell('withholdingColumn'), WITHHOLDING_COLUMN_LABELS, { '甲': 'KOU', '乙': 'OTSU' });
+      if (column) request.withholdingColumn = column;
+      else invalid('withholdingColumn');
+    }
+    request.dependents = parseNumber('dependents') ?? request.dependents;
+    if (request.withholdingColumn === 'OTSU') request.dependents = 0;
+
+    const bankKeys: EmployeeImportFieldKey[] = ['bankCode', 'branchCode', 'accountType', 'accountNumber', 'accountHolder'];
+    if (bankKeys.some(key => cell(key))) {
+      const account: BankAccount = {
+        bankCode: '',
+        branchCode: '',
+        accountType: 'ORDINARY',
+        accountNumber: '',
+        accountHolder: '',
+        ...request.bankAccount
+      };
+      // Excel で先頭の0が消えた金融機関コード・支店コードは0で埋める
+      if (cell('bankCode')) account.bankCode = cell('bankCode').normalize('NFKC').padStart(4, '0');
+      if (cell('branchCode')) account.branchCode = cell('branchCode').normalize('NFKC').padStart(3, '0');
+      if (cell('accountNumber')) account.accountNumber = cell('accountNumber').normalize('NFKC');
+      if (cell('accountHolder')) account.accountHolder = toZenginKana(cell('accountHolder')).trim();
+      if (cell('accountType')) {
+        const accountType = findCode<BankAccountType>(cell('accountType'), BANK_ACCOUNT_TYPE_LABELS);
+        if (accountType) account.accountType = accountType;
+        else invalid('accountType');
+      }
+      request.bankAccount = account;
+    }
+
+    const prescribedWorkHours = parseNumber('prescribedWorkHours');
+    const paidLeaveGrantDate = parseDate('paidLeaveGrantDate');
+    const paidLeaveDays = parseNumber('paidLeaveDays');
+    if (existing) {
+      if (prescribedWorkHours !== undefined || paidLeaveGrantDate !== undefined || paidLeaveDays !== undefined) {
+        warnings.push('所定労働時間・有給の付与は新規登録の従業員のみ反映します（登録済みの従業員は従業員登録画面で変更してください）');
+      }
+    } else {
+      if (prescribedWorkHours !== undefined) {
+        request.workContracts = [{ effectiveFrom: request.joinDate, prescribedWorkHours }];
+        request.prescribedWorkHours = prescribedWorkHours;
+      }
+      if (paidLeaveGrantDate !== undefined || paidLeaveDays !== undefined) {
+        if (paidLeaveGrantDate === undefined || paidLeaveDays === undefined || !(paidLeaveDays > 0)) {
+          errors.push('有給は付与日と付与日数（0より大きい日数）の両方を入力してください');
+        } else {
+          request.paidLeaves = [{ grantDate: paidLeaveGrantDate, days: paidLeaveDays }];
+        }
+      }
+    }
+
+    errors.push(...validateEmployeeRequest(request, { employees: context.employees, employeeId: existing?.id ?? null }));
+
+    const before = describeRequest(base, context);
+    const changes = describeRequest(request, context)
+      .map(([label, after], i) => ({ label, before: existing ? before[i][1] : '', after }))
+      .filter(change => change.before !== change.after);
+    const uniqueErrors = [...new Set(errors)];
+    const action: EmployeeImportAction = uniqueErrors.length > 0
+      ? 'error'
+      : !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+
+    return {
+      rowNumber,
+      action,
+      employeeId: action === 'error' ? null : existing?.id ?? null,
+      employeeName: [request.firstName, request.lastName].filter(Boolean).join(' ') || (existing ? `${existing.firstName} ${existing.lastName}` : ''),
+      request: action === 'error' ? null : request,
+      changes,
+      errors: uniqueErrors,
+      warnings
+    };
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * employeeValidation のユニットテスト。
+ *
+ * 対象: validateEmployeeRequest
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（従業員登録・打刻端末）
+ *
+ * 打刻端末の本人確認に使う社員コード・PIN・社員証のQRコードは、打刻端末で入力できる形式で、他の従業員と重複しない。
+ */
+import { describe, it, expect } from 'vitest';
+import { validateEmployeeRequest } from './employeeValidation';
+import type { CreateEmployeeRequest } from './employeeApi';
+
+const request: CreateEmployeeRequest = {
+  firstName: '山田',
+  lastName: '太郎',
+  employmentType: 'FULL_TIME',
+  email: 'yamada@example.com',
+  joinDate: '2025-04-01',
+  baseSalary: 250000,
+  defaultBreakTime: 60
+};
+
+const employees = [
+  { id: 'E001', employeeCode: '1001', kioskCardCode: 'CARD-1001' },
+  { id: 'E002', employeeCode: '1002', kioskCardCode: null }
+];
+
+describe('validateEmployeeRequest（打刻端末）', () => {
+  it('社員コード・PIN・社員証のQRコードが正しい場合はエラーなし（本人の設定とは重複しない）', () => {
+    expect(validateEmployeeRequest(
+      { ...request, employeeCode: '1001', kioskPin: '1234', kioskCardCode: 'CARD-1001' },
+      { employees, employeeId: 'E001' }
+    )).toEqual([]);
+  });
+
+  it('社員コードは数字のみで、他の従業員と重複しない', () => {
+    expect(validateEmployeeRequest({ ...request, employeeCode: 'A-10' }, { employees })).toEqual([
+      '社員コードは数字で入力してください（打刻端末のテンキーで入力します）'
+    ]);
+    expect(validateEmployeeRequest({ ...request, employeeCode: '1002' }, { employees, employeeId: 'E001' })).toEqual([
+      '社員コード「1002」は他の従業員に設定されています'
+    ]);
+  });
+
+  it('PINは4〜8桁の数字で、社員コードと一緒に設定する', () => {
+    expect(validateEmployeeRequest({ ...request, employeeCode: '1003', kioskPin: '123' }, { employees })).toEqual([
+      'PINは4〜8桁の数字で入力してください'
+    ]);
+    expect(validateEmployeeRequest({ ...request, kioskPin: '123456' }, { employees })).toEqual([
+      'PINを設定する場合は社員コードを入力してください'
+    ]);
+    expect(validateEmployeeRequest({ ...request, employeeCode: '1003', kioskPin: null }, { employees })).toEqual([]);
+  });
+
+  it('社員証のQRコードは他の従業員と重複しない', () => {
+    expect(validateEmployeeRequest({ ...request, kioskCardCode: 'CARD-1001' }, { employees })).toEqual([
+      '社員証のQRコードは他の従業員に設定されています'
+    ]);
+  });
+});
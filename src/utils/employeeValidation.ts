@@ -0,0 +1,85 @@
+/**
+ * 従業員の登録・更新内容の入力チェック（従業員登録画面とCSV一括取込で共通）。
+ *
+ * - 必須項目（姓・名・メールアドレス・入社日）と給与（0円より大きい）
+ * - 所定労働時間の契約（適用開始日と0〜24時間、適用開始日の重複なし）
+ * - 上長の循環（本人またはその部下を上長にしない）
+ * - 振込先口座（全銀フォーマットの桁数・預金種目・口座名義）
+ * - 標準報酬月額の履歴（適用開始月と報酬月額、適用開始月の重複なし）
+ * - 打刻端末の本人確認（社員コードは数字、PINは4〜8桁の数字。社員コード・社員証のQRコードは他の従業員と重複なし）
+ */
+
+import type { CreateEmployeeRequest } from './employeeApi';
+import { wouldCreateReportingCycle, type ReportingLineLike } from './department';
+import { validateBankAccount } from './zenginTransfer';
+import { KIOSK_PIN_MAX_LENGTH, KIOSK_PIN_MIN_LENGTH } from './kiosk';
+
+/** メールアドレスの形式 */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** 入力チェックに使う登録済みの従業員（上長の循環と、社員コード・社員証のQRコードの重複） */
+type ExistingEmployee = ReportingLineLike & { employeeCode?: string | null; kioskCardCode?: string | null };
+
+/**
+ * 従業員の登録・更新内容をチェックする。
+ *
+ * @param {CreateEmployeeRequest} request - 登録・更新内容（振込先口座の口座名義は全銀カナに変換済みのもの）。
+ * @param {{ employees: ExistingEmployee[]; employeeId?: string | null }} context - 上長の循環・重複のチェックに使う従業員一覧と、更新する従業員のID（新規登録は未指定）。
+ * @returns {string[]} エラーメッセージ（問題が無い場合は空配列）。
+ */
+export function validateEmployeeRequest(
+  request: CreateEmployeeRequest,
+  context: { employees: ExistingEmployee[]; employeeId?: string | null }
+): string[] {
+  const errors: string[] = [];
+  if (!request.firstName || !request.lastName || !request.email || !request.joinDate) {
+    errors.push('必須項目を入力してください');
+  }
+  if (request.email && !EMAIL_PATTERN.test(request.email)) {
+    errors.push('メールアドレスの形式が正しくありません');
+  }
+  if (!(request.baseSalary > 0)) {
+    errors.push('給与を入力してください');
+  }
+  const workContracts = request.workContracts ?? [];
+  if (workContracts.some(c => !c.effectiveFrom || !(c.prescribedWorkHours > 0 && c.prescribedWorkHours <= 24))) {
+    errors.push('所定労働時間は適用開始日と0〜24時間の時間数を入力してください');
+  }
+  if (new Set(workContracts.map(c => c.effectiveFrom)).size !== workContracts.length) {
+    errors.push('所定労働時間の適用開始日が重複しています');
+  }
+  if (context.employeeId && wouldCreateReportingCycle(context.employees, context.employeeId, request.managerEmployeeId ?? null)) {
+    errors.push('本人またはその部下は上長に設定できません');
+  }
+  if (request.bankAccount) {
+    errors.push(...validateBankAccount(request.bankAccount));
+  }
+  const standardRemunerations = request.socialInsurance?.standardRemunerations ?? [];
+  if (standardRemunerations.some(r => !r.effectiveFrom || !(r.remuneration > 0))) {
+    errors.push('標準報酬月額は適用開始月と報酬月額を入力してください');
+  }
+  if (new Set(standardRemunerations.map(r => r.effectiveFrom)).size !== standardRemunerations.length) {
+    errors.push('標準報酬月額の適用開始月が重複しています');
+  }
+  const others = context.employees.filter(employee => employee.id !== context.employeeId);
+  if (request.employeeCode) {
+    if (!/^\d+$/.test(request.employeeCode)) {
+      errors.push('社員コードは数字で入力してください（打刻端末のテンキーで入力します）');
+    } else if (others.some(employee => employee.employeeCode === request.employeeCode)) {
+      errors.push(`社員コード「${request.employeeCode}」は他の従業員に設定されています`);
+    }
+  }
+  if (request.kioskPin) {
+    const pinPattern = new RegExp(`^\\d{${KIOSK_PIN_MIN_LENGTH},${KIOSK_PIN_MAX_LENGTH}}$`);
+    if (!pinPattern.test(request.kioskPin)) {
+      errors.push(`PINは${KIOSK_PIN_MIN_LENGTH}〜${KIOSK_PIN_MAX_LENGTH}桁の数字で入力してください`);
+    }
+    if (!request.employeeCode) {
+      errors.push('PINを設定する場合は社員コードを入力してください');
+    }
+  }
+  if (request.kioskCardCode && others.some(employee => employee.kioskCardCode === request.kioskCardCode)) {
+    errors.push('社員証のQRコードは他の従業員に設定されています');
+  }
+  return errors;
+}
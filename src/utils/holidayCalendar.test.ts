@@ -0,0 +1,75 @@
+/**
+ * holidayCalendar のユニットテスト。
+ *
+ * 対象: getNationalHolidays / isNonWorkingDay / getHolidayName、
+ *       payrollPeriod の所定労働日数（countWeekdaysBetweenInclusive / computePayrollPeriodDayStats）
+ * 設計書: attendance-workspace/docs/backend/BUSINESS_LOGIC_GUIDE.md（休日/平日区分と残業計算）
+ *
+ * 背景: 以前は土日のみを休日として扱い、ゴールデンウィーク等の祝日が所定労働日に数えられていた。
+ * 祝日はオフラインで算出するため、振替休日・国民の休日・五輪特例の年を固定しておく。
+ */
+import { describe, it, expect } from 'vitest';
+import { getNationalHolidays, isNonWorkingDay, getHolidayName } from './holidayCalendar';
+import { countWeekdaysBetweenInclusive, computePayrollPeriodDayStats } from './payrollPeriod';
+
+describe('getNationalHolidays', () => {
+  it('2025年の祝日・振替休日が内閣府の公表どおり', () => {
+    expect(Array.from(getNationalHolidays(2025).keys())).toEqual([
+      '2025-01-01', '2025-01-13', '2025-02-11', '2025-02-23', '2025-02-24',
+      '2025-03-20', '2025-04-29', '2025-05-03', '2025-05-04', '2025-05-05',
+      '2025-05-06', '2025-07-21', '2025-08-11', '2025-09-15', '2025-09-23',
+      '2025-10-13', '2025-11-03', '2025-11-23', '2025-11-24'
+    ]);
+    expect(getNationalHolidays(2025).get('2025-05-06')).toBe('振替休日');
+  });
+
+  it('祝日に挟まれた平日は国民の休日になる', () => {
+    expect(getHolidayName('2026-09-22')).toBe('国民の休日');
+    expect(getHolidayName('2019-04-30')).toBe('国民の休日');
+  });
+
+  it('五輪特例の年は海の日・スポーツの日・山の日が移動する', () => {
+    const h2021 = getNationalHolidays(2021);
+    expect(h2021.get('2021-07-22')).toBe('海の日');
+    expect(h2021.get('2021-07-23')).toBe('スポーツの日');
+    expect(h2021.get('2021-08-09')).toBe('振替休日');
+    expect(h2021.has('2021-10-11')).toBe(false);
+  });
+});
+
+describe('isNonWorkingDay', () => {
+  const companyHolidays = [{ name: '年末年始休暇', startDate: '2025-12-29', endDate: '2026-01-03' }];
+
+  it('土日・祝日・会社休日を休日と判定する', () => {
+    expect(isNonWorkingDay('2025-05-10')).toBe(true); // 土曜
+    expect(isNonWorkingDay('2025-05-06')).toBe(true); // 振替休日
+    expect(isNonWorkingDay('2025-05-07')).toBe(false);
+    expect(isNonWorkingDay('2025-12-30')).toBe(false);
+    expect(isNonWorkingDay('2025-12-30', companyHolidays)).toBe(true);
+    expect(getHolidayName('2026-01-01', companyHolidays)).toBe('元日');
+    expect(getHolidayName('2026-01-02', companyHolidays)).toBe('年末年始休暇');
+  });
+});
+
+describe('所定労働日数', () => {
+  it('祝日・会社休日を所定労働日数から除く', () => {
+    // 2025-04-26〜2025-05-25: 平日20日のうち 4/29, 5/5, 5/6 が祝日
+    expect(countWeekdaysBetweenInclusive('2025-04-26', '2025-05-25')).toBe(17);
+    const companyHolidays = [{ name: '創立記念日', startDate: '2025-05-07', endDate: '2025-05-07' }];
+    expect(countWeekdaysBetweenInclusive('2025-04-26', '2025-05-25', companyHolidays)).toBe(16);
+  });
+
+  it('祝日の出勤は休日出勤として集計する', () => {
+    const logs = [
+      { date: '2025-05-05', clockIn: '09:00', clockOut: '18:00' }, // こどもの日
+      { date: '2025-05-07', clockIn: '09:00', clockOut: '18:00' },
+      { date: '2025-05-10', clockIn: '09:00', clockOut: '18:00' }  // 土曜
+    ];
+    expect(computePayrollPeriodDayStats(logs, '2025-04-26', '2025-05-25')).toEqual({
+      prescribedWorkingDays: 17,
+      workingDays: 3,
+      weekdayWorkDays: 1,
+      holidayWorkingDays: 2
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * 休日カレンダーユーティリティ。
+ * 国民の祝日・振替休日・国民の休日をオフラインで算出し、会社休日（年末年始・お盆 等）と合わせて
+ * 所定労働日数・休日出勤の判定やカレンダー表示に使う。
+ * 祝日は「国民の祝日に関する法律」の現行規定（2000年以降のハッピーマンデー・2020/2021年の五輪特例を含む）で算出する。
+ * 春分・秋分の日は天文計算による近似式のため、官報公示と一致するのは 1980〜2099 年の範囲。
+ */
+
+import type { CompanyHoliday } from './companyHolidayApi';
+
+/** 会社休日のうち、休日判定に必要な項目だけを持つ型 */
+export type CompanyHolidayLike = Pick<CompanyHoliday, 'name' | 'startDate' | 'endDate'>;
+
+/** 年ごとの祝日（YYYY-MM-DD → 名称）のキャッシュ */
+const nationalHolidayCache = new Map<number, Map<string, string>>();
+
+function toYmd(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseYmd(ymd: string): Date {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function formatYmd(d: Date): string {
+  return toYmd(d.getFullYear(), d.getMonth() + 1, d.getDate());
+}
+
+/** 指定月の第n月曜日（ハッピーマンデー）の日付 */
+function nthMonday(year: number, month: number, n: number): number {
+  const firstDow = new Date(year, month - 1, 1).getDay();
+  const firstMonday = 1 + ((8 - firstDow) % 7);
+  return firstMonday + (n - 1) * 7;
+}
+
+/** 春分日（3月の日付） */
+function vernalEquinoxDay(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+/** 秋分日（9月の日付） */
+function autumnalEquinoxDay(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+/** 法律で日付が定まる「国民の祝日」（振替休日・国民の休日を含まない） */
+function statutoryHolidays(year: number): Map<string, string> {
+  const h = new Map<string, string>();
+  const add = (month: number, day: number, name: string) => h.set(toYmd(year, month, day), name);
+
+  add(1, 1, '元日');
+  add(1, nthMonday(year, 1, 2), '成人の日');
+  add(2, 11, '建国記念の日');
+  if (year >= 2020) add(2, 23, '天皇誕生日');
+  add(3, vernalEquinoxDay(year), '春分の日');
+  add(4, 29, year >= 2007 ? '昭和の日' : 'みどりの日');
+  add(5, 3, '憲法記念日');
+  if (year >= 2007) add(5, 4, 'みどりの日');
+  add(5, 5, 'こどもの日');
+
+  if (year === 2020) add(7, 23, '海の日');
+  else if (year === 2021) add(7, 22, '海の日');
+  else add(7, year >= 2003 ? nthMonday(year, 7, 3) : 20, '海の日');
+
+  if (year === 2020) add(8, 10, '山の日');
+  else if (year === 2021) add(8, 8, '山の日');
+  else if (year >= 2016) add(8, 11, '山の日');
+
+  add(9, year >= 2003 ? nthMonday(year, 9, 3) : 15, '敬老の日');
+  add(9, autumnalEquinoxDay(year), '秋分の日');
+
+  if (year === 2020) add(7, 24, 'スポーツの日');
+  else if (year === 2021) add(7, 23, 'スポーツの日');
+  else add(10, nthMonday(year, 10, 2), year >= 2020 ? 'スポーツの日' : '体育の日');
+
+  add(11, 3, '文化の日');
+  add(11, 23, '勤労感謝の日');
+  if (year >= 1989 && year <= 2018) add(12, 23, '天皇誕生日');
+
+  if (year === 2019) {
+    add(5, 1, '休日（即位の日）');
+    add(10, 22, '休日（即位礼正殿の儀）');
+  }
+  return h;
+}
+
+/**
+ * 指定年の祝日一覧（国民の祝日・国民の休日・振替休日）を返す。
+ * - 国民の休日: 前日と翌日が国民の祝日である平日（例: 2026-09-22）
+ * - 振替休日: 国民の祝日が日曜日のとき、その後の最も近い祝日でない日（2007年以降）。2006年以前は翌月曜のみ。
+ *
+ * @param {number} year - 対象年。
+ * @returns {Map<string, string>} YYYY-MM-DD → 祝日名（日付の昇順）。
+ */
+export function getNationalHolidays(year: number): Map<string, string> {
+  const cached = nationalHolidayCache.get(year);
+  if (cached) return cached;
+
+  const statutory = statutoryHolidays(year);
+  const result = new Map(statutory);
+
+  // 国民の休日（祝日に挟まれた日）。振替休日より先に判定する
+  for (const ymd of statutory.keys()) {
+    const next = parseYmd(ymd);
+    next.setDate(next.getDate() + 1);
+    const afterNext = new Date(next);
+    afterNext.setDate(afterNext.getDate() + 1);
+    const nextYmd = formatYmd(next);
+    if (
+      !statutory.has(nextYmd) &&
+      statutory.has(formatYmd(afterNext)) &&
+      next.getDay() !== 0
+    ) {
+      result.set(nextYmd, '国民の休日');
+    }
+  }
+
+  // 振替休日
+  for (const ymd of statutory.keys()) {
+    const d = parseYmd(ymd);
+    if (d.getDay() !== 0) continue;
+    const sub = new Date(d);
+    sub.setDate(sub.getDate() + 1);
+    if (year >= 2007) {
+      while (result.has(formatYmd(sub))) sub.setDate(sub.getDate() + 1);
+    } else if (result.has(formatYmd(sub))) {
+      continue;
+    }
+    if (sub.getFullYear() === year) result.set(formatYmd(sub), '振替休日');
+  }
+
+  const sorted = new Map([...result.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  nationalHolidayCache.set(year, sorted);
+  return sorted;
+}
+
+/**
+ * 指定日の祝日名を返す（国民の祝日・国民の休日・振替休日）。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @returns {string | null} 祝日名。祝日でなければ null。
+ */
+export function getNationalHolidayName(ymd: string): string | null {
+  const year = Number(ymd.slice(0, 4));
+  if (!Number.isFinite(year)) return null;
+  return getNationalHolidays(year).get(ymd) ?? null;
+}
+
+/**
+ * 指定日が含まれる会社休日の名称を返す。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日（期間指定）。
+ * @returns {string | null} 会社休日名。該当しなければ null。
+ */
+export function getCompanyHolidayName(ymd: string, companyHolidays: CompanyHolidayLike[] = []): string | null {
+  const hit = companyHolidays.find(h => h.startDate <= ymd && ymd <= h.endDate);
+  return hit ? hit.name : null;
+}
+
+/**
+ * 指定日の休日名を返す。祝日を優先し、次に会社休日を見る（土日は名称を持たないため null）。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日。
+ * @returns {string | null} 祝日名または会社休日名。
+ */
+export function getHolidayName(ymd: string, companyHolidays: CompanyHolidayLike[] = []): string | null {
+  return getNationalHolidayName(ymd) ?? getCompanyHolidayName(ymd, companyHolidays);
+}
+
+/**
+ * 所定休日（土日・祝日・会社休日）かどうか。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日。
+ * @returns {boolean} 所定労働日でなければ true。
+ */
+export function isNonWorkingDay(ymd: string, companyHolidays: CompanyHolidayLike[] = []): boolean {
+  const dow = parseYmd(ymd).getDay();
+  if (dow === 0 || dow === 6) return true;
+  return getHolidayName(ymd, companyHolidays) !== null;
+}
@@ -0,0 +1,113 @@
+/**
+ * hourlyPaidLeave のユニットテスト。
+ *
+ * 対象: getHourlyLeaveHoursPerDay / calculateHourlyLeaveHours / formatPaidLeaveDaysAndHours /
+ *       allocatePaidLeaveHours / getHourlyLeaveCapStatus / mergeHourlyPaidLeaveIntoDailyLabor
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（時間単位年休）
+ *
+ * 1日分の時間数は所定労働時間の切り上げ、年5日分までを上限とし、打刻と重なる時間は有給に数えない。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getHourlyLeaveHoursPerDay,
+  calculateHourlyLeaveHours,
+  formatPaidLeaveDaysAndHours,
+  allocatePaidLeaveHours,
+  getHourlyLeaveCapStatus,
+  mergeHourlyPaidLeaveIntoDailyLabor,
+  type HourlyLeaveRequestLike
+} from './hourlyPaidLeave';
+
+const hourly = (startDate: string, startTime: string, endTime: string, overrides: Partial<HourlyLeaveRequestLike> = {}): HourlyLeaveRequestLike => ({
+  startDate,
+  leaveType: 'paid',
+  status: 'approved',
+  isHourly: true,
+  startTime,
+  endTime,
+  hours: calculateHourlyLeaveHours(startTime, endTime),
+  ...overrides
+});
+
+describe('時間数の換算', () => {
+  it('1日分の時間数は所定労働時間の1時間未満を切り上げる', () => {
+    expect(getHourlyLeaveHoursPerDay(450)).toBe(8);
+    expect(getHourlyLeaveHoursPerDay(360)).toBe(6);
+  });
+
+  it('1時間単位でない時間帯は取得時間数にしない', () => {
+    expect(calculateHourlyLeaveHours('09:00', '11:00')).toBe(2);
+    expect(calculateHourlyLeaveHours('09:00', '10:30')).toBeNull();
+    expect(calculateHourlyLeaveHours('13:00', '13:00')).toBeNull();
+  });
+
+  it('残日数を「N日とM時間」で表示する', () => {
+    expect(formatPaidLeaveDaysAndHours(3.375, 8)).toBe('3日と3時間');
+    expect(formatPaidLeaveDaysAndHours(0.25, 8)).toBe('2時間');
+    expect(formatPaidLeaveDaysAndHours(10, 8)).toBe('10日');
+  });
+});
+
+describe('allocatePaidLeaveHours', () => {
+  it('有効期限の近い付与から時間で差し引き、不足分を返す', () => {
+    const grants = [
+      { grantLedgerId: 'AUTO-1-2', grantDate: '2025-04-01', grantDays: 11, expirationDate: '2027-03-31', remainingDays: 11 },
+      { grantLedgerId: 'AUTO-1-1', grantDate: '2024-04-01', grantDays: 10, expirationDate: '2026-03-31', remainingDays: 0.25 }
+    ];
+    expect(allocatePaidLeaveHours(grants, 3, 8, '2025-06-02')).toEqual({
+      allocations: [
+        { grantLedgerId: 'AUTO-1-1', grantDate: '2024-04-01', hours: 2, remainingHours: 0 },
+        { grantLedgerId: 'AUTO-1-2', grantDate: '2025-04-01', hours: 1, remainingHours: 87 }
+      ],
+      shortageHours: 0
+    });
+    expect(allocatePaidLeaveHours(grants, 3, 8, '2026-04-01').allocations[0].grantLedgerId).toBe('AUTO-1-2');
+  });
+});
+
+describe('getHourlyLeaveCapStatus', () => {
+  it('直近の付与日から1年の申請中・承認済みの時間を年5日分の上限と比べる', () => {
+    const requests = [
+      hourly('2025-03-31', '09:00', '17:00'),
+      { ...hourly('2025-05-01', '09:00', '13:00'), id: 'a' },
+      hourly('2025-06-02', '15:00', '17:00', { status: 'pending' }),
+      hourly('2025-06-03', '15:00', '17:00', { status: 'rejected' })
+    ];
+    const status = getHourlyLeaveCapStatus(requests, [{ grantDate: '2025-04-01' }], '2025-07-01', 8);
+    expect(status).toEqual({ startDate: '2025-04-01', endDate: '2026-03-31', capHours: 40, usedHours: 6, remainingHours: 34 });
+    expect(getHourlyLeaveCapStatus(requests, [{ grantDate: '2025-04-01' }], '2025-07-01', 8, 'a').usedHours).toBe(2);
+  });
+
+  it('付与が無い場合は4月始まりの年度で数える', () => {
+    const status = getHourlyLeaveCapStatus([], [], '2026-02-10', 6);
+    expect(status).toMatchObject({ startDate: '2025-04-01', endDate: '2026-03-31', capHours: 30 });
+  });
+});
+
+describe('mergeHourlyPaidLeaveIntoDailyLabor', () => {
+  it('時間単位の有給を時間数で打刻に合算し、出勤＋有給の日にする', () => {
+    const result = mergeHourlyPaidLeaveIntoDailyLabor(
+      [
+        { workDate: '2025-06-02', timeRecordMinutes: 300, paidLeaveMinutes: 90, laborMinutes: 390, laborDayKind: 'ATTENDANCE_AND_PAID_LEAVE' },
+        { workDate: '2025-06-03', timeRecordMinutes: 480, paidLeaveMinutes: 0, laborMinutes: 480, laborDayKind: 'ATTENDANCE_ONLY' }
+      ],
+      [hourly('2025-06-02', '09:00', '12:00'), hourly('2025-06-04', '09:00', '11:00')],
+      { '2025-06-02': { clockIn: '2025-06-02 12:00:00', clockOut: '2025-06-02 18:00:00' } }
+    );
+    expect(result).toEqual([
+      { workDate: '2025-06-02', timeRecordMinutes: 300, paidLeaveMinutes: 180, laborMinutes: 480, laborDayKind: 'ATTENDANCE_AND_PAID_LEAVE' },
+      { workDate: '2025-06-03', timeRecordMinutes: 480, paidLeaveMinutes: 0, laborMinutes: 480, laborDayKind: 'ATTENDANCE_ONLY' },
+      { workDate: '2025-06-04', timeRecordMinutes: null, paidLeaveMinutes: 120, laborMinutes: 120, laborDayKind: 'PAID_LEAVE_ONLY' }
+    ]);
+  });
+
+  it('打刻と重なる時間は有給に数えない', () => {
+    const [row] = mergeHourlyPaidLeaveIntoDailyLabor(
+      [{ workDate: '2025-06-02', timeRecordMinutes: 420, paidLeaveMinutes: 0, laborMinutes: 420, laborDayKind: 'ATTENDANCE_ONLY' }],
+      [hourly('2025-06-02', '16:00', '18:00')],
+      { '2025-06-02': { clockIn: '2025-06-02 09:00:00', clockOut: '2025-06-02 17:00:00' } }
+    );
+    expect(row.paidLeaveMinutes).toBe(60);
+    expect(row.laborMinutes).toBe(480);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * 時間単位年休（労基法39条4項）のユーティリティ。
+ *
+ * - 1日分の時間数は1日の所定労働時間を時間単位に切り上げた数（7時間30分なら8時間）
+ * - 時間単位で取得できるのは年5日分まで（1年は直近の付与日から、付与が無ければ4月始まりの年度）
+ * - 残高は付与ごとの残日数を時間に換算し、有効期限の近い付与から差し引く
+ * - 出勤簿では、時間単位の有給を「有給の時間数」として打刻に合算する（出勤＋有給の日）
+ */
+
+import type { LeaveRequest } from './leaveRequestApi';
+import type { PaidLeaveBalanceGrant } from './paidLeaveApi';
+import type { DailyLaborRow, LaborDayKind } from './attendanceApi';
+
+/** 時間単位で取得できる年間の日数 */
+export const HOURLY_PAID_LEAVE_MAX_DAYS_PER_YEAR = 5;
+
+/** 時間単位の判定に必要な休暇申請の項目 */
+export type HourlyLeaveRequestLike = Pick<
+  LeaveRequest,
+  'startDate' | 'leaveType' | 'status' | 'isHourly' | 'startTime' | 'endTime' | 'hours'
+> & { id?: string };
+
+const hhmmToMinutes = (hhmm: string): number => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * 1日分の時間数（1日の所定労働時間の1時間未満を切り上げ）を返す。
+ *
+ * @param {number} prescribedMinutesPerDay - 1日の所定労働時間（分）。
+ * @returns {number} 1日分の時間数。
+ */
+export function getHourlyLeaveHoursPerDay(prescribedMinutesPerDay: number): number {
+  return Math.max(1, Math.ceil(prescribedMinutesPerDay / 60));
+}
+
+/**
+ * 開始・終了時刻から時間単位の取得時間数を返す。
+ * 終了が開始以前、または1時間単位でない場合は null。
+ *
+ * @param {string} startTime - 開始時刻（HH:MM）。
+ * @param {string} endTime - 終了時刻（HH:MM）。
+ * @returns {number | null} 取得時間数。
+ */
+export function calculateHourlyLeaveHours(startTime: string, endTime: string): number | null {
+  if (!startTime || !endTime) return null;
+  const minutes = hhmmToMinutes(endTime) - hhmmToMinutes(startTime);
+  if (minutes <= 0 || minutes % 60 !== 0) return null;
+  return minutes / 60;
+}
+
+/**
+ * 時間数を日数に換算する（申請の days 用、小数第3位まで）。
+ *
+ * @param {number} hours - 時間数。
+ * @param {number} hoursPerDay - 1日分の時間数。
+ * @returns {number} 日数。
+ */
+export function hourlyLeaveToDays(hours: number, hoursPerDay: number): number {
+  return Math.round((hours / hoursPerDay) * 1000) / 1000;
+}
+
+/**
+ * 日数を「N日とM時間」の形で表示する。
+ *
+ * @param {number} days - 日数（時間単位の取得で小数になることがある）。
+ * @param {number} hoursPerDay - 1日分の時間数。
+ * @returns {string} 表示文字列。
+ */
+export function formatPaidLeaveDaysAndHours(days: number, hoursPerDay: number): string {
+  const totalHours = Math.round(days * hoursPerDay);
+  const wholeDays = Math.floor(totalHours / hoursPerDay);
+  const hours = totalHours - wholeDays * hoursPerDay;
+  if (hours === 0) return `${wholeDays}日`;
+  return wholeDays > 0 ? `${wholeDays}日と${hours}時間` : `${hours}時間`;
+}
+
+/** 付与1件からの差し引き */
+export interface PaidLeaveHourAllocation {
+  grantLedgerId: string;
+  grantDate: string;
+  /** この付与から差し引く時間数 */
+  hours: number;
+  /** 差し引き後の残（時間） */
+  remainingHours: number;
+}
+
+/**
+ * 取得する時間数を、取得日に有効な付与へ有効期限の近い順に割り当てる。
+ *
+ * @param {PaidLeaveBalanceGrant[]} grants - 付与の一覧。
+ * @param {number} hours - 取得する時間数。
+ * @param {number} hoursPerDay - 1日分の時間数。
+ * @param {string} leaveDate - 取得日（YYYY-MM-DD）。
+ * @returns {{ allocations: PaidLeaveHourAllocation[]; shortageHours: number }} 割り当てと不足時間数。
+ */
+export function allocatePaidLeaveHours(
+  grants: PaidLeaveBalanceGrant[],
+  hours: number,
+  hoursPerDay: number,
+  leaveDate: string
+): { allocations: PaidLeaveHourAllocation[]; shortageHours: number } {
+  const usable = grants
+    .filter(grant => grant.grantDate <= leaveDate && (!grant.expirationDate || grant.expirationDate >= leaveDate) && grant.remainingDays > 0)
+    .sort((a, b) =>
+      (a.expirationDate ?? '9999-12-31').localeCompare(b.expirationDate ?? '9999-12-31') || a.grantDate.localeCompare(b.grantDate)
+    );
+  const allocations: PaidLeaveHourAllocation[] = [];
+  let rest = hours;
+  for (const grant of usable) {
+    if (rest <= 0) break;
+    const available = Math.round(grant.remainingDays * hoursPerDay);
+    const taken = Math.min(available, rest);
+    if (taken <= 0) continue;
+    allocations.push({ grantLedgerId: grant.grantLedgerId, grantDate: grant.grantDate, hours: taken, remainingHours: available - taken });
+    rest -= taken;
+  }
+  return { allocations, shortageHours: rest };
+}
+
+/**
+ * 時間単位の上限を数える1年（直近の付与日から1年、付与が無ければ4月始まりの年度）を返す。
+ *
+ * @param {Array<Pick<PaidLeaveBalanceGrant, 'grantDate'>>} grants - 付与の一覧。
+ * @param {string} leaveDate - 取得日（YYYY-MM-DD）。
+ * @returns {{ startDate: string; endDate: string }} 1年の初日と末日（YYYY-MM-DD）。
+ */
+export function getHourlyLeaveYear(
+  grants: Array<Pick<PaidLeaveBalanceGrant, 'grantDate'>>,
+  leaveDate: string
+): { startDate: string; endDate: string } {
+  const latest = grants
+    .map(grant => grant.grantDate)
+    .filter(date => date <= leaveDate)
+    .sort()
+    .pop();
+  const [y, m, d] = latest
+    ? latest.split('-').map(Number)
+    : (() => {
+        const [ly, lm] = leaveDate.split('-').map(Number);
+        return [lm >= 4 ? ly : ly - 1, 4, 1];
+      })();
+  const end = new Date(y + 1, m - 1, d - 1);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    startDate: `${y}-${pad(m)}-${pad(d)}`,
+    endDate: `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`
+  };
+}
+
+/** 時間単位の年間上限の状況 */
+export interface HourlyLeaveCapStatus {
+  startDate: string;
+  endDate: string;
+  /** 年間の上限（時間） */
+  capHours: number;
+  /** 申請中・承認済みの時間単位の取得（時間） */
+  usedHours: number;
+  /** 上限までの残り（時間） */
+  remainingHours: number;
+}
+
+/**
+ * 取得日を含む1年の、時間単位の有給の上限（年5日分）に対する状況を返す。
+ *
+ * @param {HourlyLeaveRequestLike[]} requests - 従業員の休暇申請。
+ * @param {Array<Pick<PaidLeaveBalanceGrant, 'grantDate'>>} grants - 付与の一覧。
+ * @param {string} leaveDate - 取得日（YYYY-MM-DD）。
+ * @param {number} hoursPerDay - 1日分の時間数。
+ * @param {string} [excludeRequestId] - 集計から除く申請（編集中の申請）。
+ * @returns {HourlyLeaveCapStatus} 上限の状況。
+ */
+export function getHourlyLeaveCapStatus(
+  requests: HourlyLeaveRequestLike[],
+  grants: Array<Pick<PaidLeaveBalanceGrant, 'grantDate'>>,
+  leaveDate: string,
+  hoursPerDay: number,
+  excludeRequestId?: string
+): HourlyLeaveCapStatus {
+  const { startDate, endDate } = getHourlyLeaveYear(grants, leaveDate);
+  const usedHours = requests
+    .filter(r =>
+      r.isHourly &&
+      r.leaveType === 'paid' &&
+      (r.status === 'pending' || r.status === 'approved') &&
+      r.startDate >= startDate &&
+      r.startDate <= endDate &&
+      (!excludeRequestId || r.id !== excludeRequestId)
+    )
+    .reduce((sum, r) => sum + (r.hours ?? 0), 0);
+  const capHours = HOURLY_PAID_LEAVE_MAX_DAYS_PER_YEAR * hoursPerDay;
+  return { startDate, endDate, capHours, usedHours, remainingHours: Math.max(0, capHours - usedHours) };
+}
+
+/** 打刻の出退勤（YYYY-MM-DD HH:MM:SS 形式の JST） */
+export interface StampWindow {
+  clockIn: string | null;
+  clockOut: string | null;
+}
+
+const laborDayKindOf = (stampMinutes: number, paidLeaveMinutes: number): LaborDayKind => {
+  if (stampMinutes > 0 && paidLeaveMinutes > 0) return 'ATTENDANCE_AND_PAID_LEAVE';
+  if (paidLeaveMinutes > 0) return 'PAID_LEAVE_ONLY';
+  if (stampMinutes > 0) return 'ATTENDANCE_ONLY';
+  return 'NONE';
+};
+
+/** 出退勤の時刻（勤務日0時からの分、翌日にまたがる退勤は24時以降）を返す */
+const stampRangeOf = (workDate: string, stamp: StampWindow | undefined): [number, number] | null => {
+  if (!stamp?.clockIn || !stamp.clockOut) return null;
+  const minutesOf = (value: string) => {
+    const [date, time] = value.split(' ');
+    const dayOffset = date > workDate ? 24 * 60 : 0;
+    return dayOffset + hhmmToMinutes(time.slice(0, 5));
+  };
+  return [minutesOf(stamp.clockIn), minutesOf(stamp.clockOut)];
+};
+
+/**
+ * 承認済みの時間単位の有給を日別の労働内訳に合算する。
+ * 有給の時間数は日数換算ではなく取得時間数とし、打刻と重なる時間は有給に数えない。
+ * 打刻と有給の両方がある日は「出勤＋有給」（ATTENDANCE_AND_PAID_LEAVE）とする。
+ *
+ * @param {DailyLaborRow[]} dailyLabor - API の日別労働内訳。
+ * @param {HourlyLeaveRequestLike[]} requests - 従業員の休暇申請。
+ * @param {Record<string, StampWindow>} [stamps] - 日付ごとの出退勤。
+ * @returns {DailyLaborRow[]} 合算後の日別労働内訳（日付の昇順）。
+ */
+export function mergeHourlyPaidLeaveIntoDailyLabor(
+  dailyLabor: DailyLaborRow[],
+  requests: HourlyLeaveRequestLike[],
+  stamps: Record<string, StampWindow> = {}
+): DailyLaborRow[] {
+  const leaveMinutesByDate = new Map<string, number>();
+  requests
+    .filter(r => r.isHourly && r.leaveType === 'paid' && r.status === 'approved' && r.startTime && r.endTime)
+    .forEach(r => {
+      const start = hhmmToMinutes(r.startTime as string);
+      const end = hhmmToMinutes(r.endTime as string);
+      const stampRange = stampRangeOf(r.startDate, stamps[r.startDate]);
+      const overlap = stampRange ? Math.max(0, Math.min(end, stampRange[1]) - Math.max(start, stampRange[0])) : 0;
+      leaveMinutesByDate.set(r.startDate, (leaveMinutesByDate.get(r.startDate) ?? 0) + Math.max(0, end - start - overlap));
+    });
+
+  const byDate = new Map(dailyLabor.map(row => [row.workDate, row]));
+  leaveMinutesByDate.forEach((paidLeaveMinutes, workDate) => {
+    const row = byDate.get(workDate);
+    const stampMinutes = row?.timeRecordMinutes ?? 0;
+    byDate.set(workDate, {
+      workDate,
+      timeRecordMinutes: row?.timeRecordMinutes ?? null,
+      paidLeaveMinutes,
+      laborMinutes: stampMinutes + paidLeaveMinutes,
+      laborDayKind: laborDayKindOf(stampMinutes, paidLeaveMinutes)
+    });
+  });
+  return [...byDate.values()].sort((a, b) => a.workDate.localeCompare(b.workDate));
+}
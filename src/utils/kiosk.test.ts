@@ -0,0 +1,59 @@
+/**
+ * kiosk のユニットテスト。
+ *
+ * 対象: loadKioskTerminal / saveKioskTerminal / clearKioskTerminal / normalizeKioskInput / validateKioskPinInput / buildKioskCredential
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（打刻端末画面）
+ *
+ * 管理者が登録した端末を打刻端末として保存し、従業員は社員コードとPIN、または社員証のQRコードで本人を確認して打刻する。
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildKioskCredential,
+  clearKioskTerminal,
+  loadKioskTerminal,
+  normalizeKioskInput,
+  saveKioskTerminal,
+  validateKioskPinInput
+} from './kiosk';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('loadKioskTerminal / saveKioskTerminal / clearKioskTerminal', () => {
+  it('登録した打刻端末を保存・読み込み・消去する（保存内容が壊れている場合は未登録とする）', () => {
+    const terminal = { terminalId: 'T001', terminalName: '本社工場 入口', terminalToken: 'token', registeredAt: '2025-04-01 09:00:00' };
+    expect(loadKioskTerminal()).toBe(null);
+
+    saveKioskTerminal(terminal);
+    expect(loadKioskTerminal()).toEqual(terminal);
+
+    clearKioskTerminal();
+    expect(loadKioskTerminal()).toBe(null);
+
+    localStorage.setItem('kintai_kiosk_terminal', '{"terminalName":"入口"}');
+    expect(loadKioskTerminal()).toBe(null);
+    localStorage.setItem('kintai_kiosk_terminal', '{');
+    expect(loadKioskTerminal()).toBe(null);
+  });
+});
+
+describe('normalizeKioskInput / validateKioskPinInput', () => {
+  it('全角英数字を半角にし、社員コードとPINの桁数・数字を確認する', () => {
+    expect(normalizeKioskInput(' Ｅ００１２ ')).toBe('E0012');
+    expect(validateKioskPinInput('E0012', '１２３４')).toBe(null);
+    expect(validateKioskPinInput(' ', '1234')).toBe('社員コードを入力してください');
+    expect(validateKioskPinInput('E0012', '12a4')).toBe('PINを数字で入力してください');
+    expect(validateKioskPinInput('E0012', '123')).toBe('PINは4〜8桁で入力してください');
+    expect(validateKioskPinInput('E0012', '123456789')).toBe('PINは4〜8桁で入力してください');
+  });
+});
+
+describe('buildKioskCredential', () => {
+  it('社員コードとPIN、またはQRコードの内容から本人確認情報を作り、空の入力は null にする', () => {
+    expect(buildKioskCredential({ employeeCode: 'ｅ００１', pin: '１２３４' })).toEqual({ method: 'pin', employeeCode: 'e001', pin: '1234' });
+    expect(buildKioskCredential({ cardCode: ' CARD-abc123 \n' })).toEqual({ method: 'qr', cardCode: 'CARD-abc123' });
+    expect(buildKioskCredential({ cardCode: '  ' })).toBe(null);
+    expect(buildKioskCredential({ employeeCode: 'E001', pin: '' })).toBe(null);
+  });
+});
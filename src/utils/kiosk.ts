@@ -0,0 +1,124 @@
+/**
+ * 共用の打刻端末（キオスク）のユーティリティ。
+ *
+ * - 管理者が登録した端末は、端末IDと端末トークンを localStorage に保存し、管理者がログアウトした後も打刻端末として使う
+ * - 従業員は社員コードとPIN、または社員証のQRコードで本人を確認して打刻する（打刻には端末IDを記録する）
+ * - 操作が無いまま一定時間が過ぎたら、入力途中の社員コード・PINを消して最初の画面に戻す
+ */
+
+/** 打刻の種類 */
+export type KioskStampType = 'clockIn' | 'clockOut' | 'startBreak' | 'endBreak';
+
+/** 打刻の種類の表示名 */
+export const KIOSK_STAMP_TYPE_LABELS: Record<KioskStampType, string> = {
+  clockIn: '出勤',
+  clockOut: '退勤',
+  startBreak: '休憩開始',
+  endBreak: '休憩終了'
+};
+
+/** 本人確認の方法（pin: 社員コードとPIN / qr: 社員証のQRコード） */
+export type KioskCredential =
+  | { method: 'pin'; employeeCode: string; pin: string }
+  | { method: 'qr'; cardCode: string };
+
+/** 登録した打刻端末 */
+export interface KioskTerminal {
+  terminalId: string;
+  /** 端末名（例: 本社工場 入口） */
+  terminalName: string;
+  /** 打刻APIの認証に使う端末トークン（管理者が登録した時に発行される） */
+  terminalToken: string;
+  /** 登録した日時（YYYY-MM-DD HH:MM:SS、JST） */
+  registeredAt: string;
+}
+
+/** 操作が無い場合に最初の画面に戻すまでの時間（ミリ秒） */
+export const KIOSK_INACTIVITY_TIMEOUT_MS = 30 * 1000;
+
+/** 打刻の結果を表示する時間（ミリ秒）。過ぎたら次の人のために最初の画面に戻す */
+export const KIOSK_RESULT_DISPLAY_MS = 5 * 1000;
+
+/** PINの最小桁数 */
+export const KIOSK_PIN_MIN_LENGTH = 4;
+
+/** PINの最大桁数 */
+export const KIOSK_PIN_MAX_LENGTH = 8;
+
+/** 登録した打刻端末を保存する localStorage のキー */
+const STORAGE_KEY = 'kintai_kiosk_terminal';
+
+/**
+ * 登録した打刻端末を読み込む。
+ *
+ * @returns {KioskTerminal | null} 打刻端末。登録していない（保存内容が壊れている）場合は null。
+ */
+export function loadKioskTerminal(): KioskTerminal | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return parsed && typeof parsed.terminalId === 'string' && typeof parsed.terminalToken === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 打刻端末を保存する。
+ *
+ * @param {KioskTerminal} terminal - 打刻端末。
+ */
+export function saveKioskTerminal(terminal: KioskTerminal): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(terminal));
+}
+
+/**
+ * 打刻端末の登録を消去する。
+ */
+export function clearKioskTerminal(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * 入力値の全角英数字を半角にして前後の空白を除く（日本語入力のまま入力した場合・QRコードリーダーの入力向け）。
+ *
+ * @param {string} value - 入力値。
+ * @returns {string} 正規化した入力値。
+ */
+export function normalizeKioskInput(value: string): string {
+  return value
+    .replace(/[０-９Ａ-Ｚａ-ｚ－]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .trim();
+}
+
+/**
+ * 社員コードとPINの入力を確認する。
+ *
+ * @param {string} employeeCode - 社員コード。
+ * @param {string} pin - PIN。
+ * @returns {string | null} 入力に誤りがある場合はメッセージ、正しい場合は null。
+ */
+export function validateKioskPinInput(employeeCode: string, pin: string): string | null {
+  if (!normalizeKioskInput(employeeCode)) return '社員コードを入力してください';
+  const normalizedPin = normalizeKioskInput(pin);
+  if (!/^\d+$/.test(normalizedPin)) return 'PINを数字で入力してください';
+  if (normalizedPin.length < KIOSK_PIN_MIN_LENGTH || normalizedPin.length > KIOSK_PIN_MAX_LENGTH) {
+    return `PINは${KIOSK_PIN_MIN_LENGTH}〜${KIOSK_PIN_MAX_LENGTH}桁で入力してください`;
+  }
+  return null;
+}
+
+/**
+ * 本人確認の入力から打刻APIに送る本人確認情報を作る。
+ *
+ * @param {{ employeeCode: string; pin: string } | { cardCode: string }} input - 社員コードとPIN、または社員証のQRコードの内容。
+ * @returns {KioskCredential | null} 本人確認情報。入力が空の場合は null。
+ */
+export function buildKioskCredential(input: { employeeCode: string; pin: string } | { cardCode: string }): KioskCredential | null {
+  if ('cardCode' in input) {
+    const cardCode = input.cardCode.trim();
+    return cardCode ? { method: 'qr', cardCode } : null;
+  }
+  const employeeCode = normalizeKioskInput(input.employeeCode);
+  const pin = normalizeKioskInput(input.pin);
+  return employeeCode && pin ? { method: 'pin', employeeCode, pin } : null;
+}
@@ -0,0 +1,120 @@
+/**
+ * 共用の打刻端末（キオスク）API呼び出しユーティリティ
+ * 端末の登録・登録の解除は管理者のログインで行い、打刻は端末トークンで行う（打刻する従業員はログインしない）。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { KioskCredential, KioskStampType, KioskTerminal } from './kiosk';
+
+/**
+ * 打刻端末の打刻結果
+ */
+export interface KioskStampResult {
+  employeeId: string;
+  employeeName: string;
+  type: KioskStampType;
+  /** 打刻した日時（YYYY-MM-DD HH:MM:SS、JST。サーバーの時刻） */
+  stampedAt: string;
+  /** 打刻した端末の端末ID（勤怠の打刻に記録される） */
+  terminalId: string;
+}
+
+/** 打刻APIのパス */
+const KIOSK_STAMP_PATHS: Record<KioskStampType, string> = {
+  clockIn: '/api/v1/kiosk/clock-in',
+  clockOut: '/api/v1/kiosk/clock-out',
+  startBreak: '/api/v1/kiosk/break/start',
+  endBreak: '/api/v1/kiosk/break/end'
+};
+
+/**
+ * 打刻端末の登録（管理者のみ）
+ * この端末を打刻端末として登録し、打刻に使う端末トークンを発行する
+ * @param terminalName 端末名（例: 本社工場 入口）
+ * @returns 登録された打刻端末（端末ID・端末トークン）
+ */
+export const registerKioskTerminal = async (terminalName: string): Promise<KioskTerminal> => {
+  try {
+    const response = await apiRequest('/api/v1/kiosk/terminals', {
+      method: 'POST',
+      body: JSON.stringify({ terminalName }),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to register kiosk terminal:', error);
+    throw error;
+  }
+};
+
+/**
+ * 打刻端末の登録の解除（管理者のみ）
+ * 端末トークンを無効にし、この端末から打刻できないようにする
+ * @param terminalId 端末ID
+ */
+export const unregisterKioskTerminal = async (terminalId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/kiosk/terminals/${encodeURIComponent(terminalId)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to unregister kiosk terminal:', error);
+    throw error;
+  }
+};
+
+/**
+ * 打刻端末からの打刻
+ * 注意: 管理者・従業員のログイン（Cognito）は使わず、端末トークンで認証する
+ * 打刻日時はサーバー側（API）で現在時刻を使用し、打刻には端末IDを記録する
+ * 社員コードとPIN・社員証のQRコードの照合はサーバー側で行う（照合できない場合は 4xx）
+ * 端末トークンが無効（登録が解除された等）の場合は 401 を返す
+ * @param terminal 打刻端末
+ * @param type 打刻の種類
+ * @param credential 本人確認情報（社員コードとPIN、または社員証のQRコードの内容）
+ * @returns 打刻結果（従業員名・打刻日時）
+ */
+export const kioskStamp = async (
+  terminal: KioskTerminal,
+  type: KioskStampType,
+  credential: KioskCredential
+): Promise<KioskStampResult> => {
+  try {
+    const response = await apiRequest(KIOSK_STAMP_PATHS[type], {
+      method: 'POST',
+      requiresAuth: false,
+      headers: {
+        'X-Kiosk-Terminal-Id': terminal.terminalId,
+        'X-Kiosk-Token': terminal.terminalToken,
+      },
+      body: JSON.stringify(credential),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to stamp from kiosk terminal:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * leaveBalance のユニットテスト。
+ *
+ * 対象: calculateCompensatoryLeaveBalance / validateLeaveRequestRule
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（休暇種別マスタ）
+ *
+ * 代休は休日出勤1日につき1日を有効期限の近い順に差し引き、振替休日は休日出勤日ごとに1回、慶弔休暇などは1回の日数に上限を設ける。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCompensatoryLeaveBalance,
+  validateLeaveRequestRule,
+  type LeaveTypeSetting,
+  type LeaveBalanceRequestLike
+} from './leaveBalance';
+
+const setting = (overrides: Partial<LeaveTypeSetting>): LeaveTypeSetting => ({
+  code: 'compensatory',
+  name: '代休',
+  isPaid: false,
+  balanceRule: 'holidayWork',
+  fixedDays: null,
+  expirationDays: 60,
+  isActive: true,
+  ...overrides
+});
+
+const request = (leaveType: string, startDate: string, days: number, overrides: Partial<LeaveBalanceRequestLike> = {}): LeaveBalanceRequestLike => ({
+  startDate,
+  endDate: startDate,
+  days,
+  leaveType,
+  status: 'approved',
+  ...overrides
+});
+
+describe('calculateCompensatoryLeaveBalance', () => {
+  it('休日出勤1日につき1日を付与し、申請中・承認済みを有効期限の近い付与から差し引く', () => {
+    const balance = calculateCompensatoryLeaveBalance(
+      setting({}),
+      ['2025-05-10', '2025-06-07', '2025-06-14'],
+      [
+        request('compensatory', '2025-06-09', 1),
+        request('compensatory', '2025-06-20', 0.5, { status: 'pending' }),
+        request('compensatory', '2025-06-23', 1, { status: 'rejected' }),
+        request('paid', '2025-06-24', 1)
+      ],
+      '2025-06-30'
+    );
+    expect(balance.credits.map(c => [c.workDate, c.expirationDate, c.remainingDays])).toEqual([
+      ['2025-05-10', '2025-07-09', 0],
+      ['2025-06-07', '2025-08-06', 0.5],
+      ['2025-06-14', '2025-08-13', 1]
+    ]);
+    expect(balance).toMatchObject({ earnedDays: 3, usedDays: 1.5, remainingDays: 1.5, expiredDays: 0, nextExpirationDate: '2025-08-06', shortageDays: 0 });
+  });
+
+  it('有効期限を過ぎた残日数は失効として数え、休日出勤より前の申請には使わない', () => {
+    const balance = calculateCompensatoryLeaveBalance(
+      setting({ expirationDays: 30 }),
+      ['2025-04-05', '2025-06-07'],
+      [request('compensatory', '2025-06-02', 1)],
+      '2025-06-30'
+    );
+    expect(balance).toMatchObject({ remainingDays: 1, expiredDays: 1, shortageDays: 1, nextExpirationDate: '2025-07-07' });
+  });
+});
+
+describe('validateLeaveRequestRule', () => {
+  it('代休は申請日に使える残日数が無ければエラー、編集中の申請は除いて数える', () => {
+    const compensatory = setting({});
+    const context = {
+      holidayWorkDates: ['2025-06-07'],
+      requests: [request('compensatory', '2025-06-09', 1, { id: 'a' })]
+    };
+    expect(validateLeaveRequestRule(compensatory, request('compensatory', '2025-06-16', 1), context))
+      .toBe('2025-06-16時点で使える代休の残日数が不足しています');
+    expect(validateLeaveRequestRule(compensatory, request('compensatory', '2025-06-16', 1, { id: 'a' }), context)).toBeNull();
+  });
+
+  it('振替休日は休日出勤日の前後の有効日数以内で、同じ休日出勤日を2回振り替えられない', () => {
+    const substitute = setting({ code: 'substitute', name: '振替休日', balanceRule: 'substitute', expirationDays: 28 });
+    const context = {
+      holidayWorkDates: [],
+      requests: [request('substitute', '2025-06-02', 1, { substituteWorkDate: '2025-06-07' })]
+    };
+    expect(validateLeaveRequestRule(substitute, request('substitute', '2025-06-10', 1), context))
+      .toBe('振り替える休日出勤日を入力してください');
+    expect(validateLeaveRequestRule(substitute, request('substitute', '2025-06-10', 1, { substituteWorkDate: '2025-06-07' }), context))
+      .toBe('2025-06-07の休日出勤は既に振り替えられています');
+    expect(validateLeaveRequestRule(substitute, request('substitute', '2025-07-20', 1, { substituteWorkDate: '2025-06-14' }), context))
+      .toBe('休日出勤日の前後28日以内の日を指定してください');
+    expect(validateLeaveRequestRule(substitute, request('substitute', '2025-06-09', 1, { substituteWorkDate: '2025-06-14' }), context)).toBeNull();
+  });
+
+  it('慶弔休暇などは1回の日数の上限を超えるとエラー', () => {
+    const bereavement = setting({ code: 'bereavement', name: '忌引休暇', isPaid: true, balanceRule: 'perEvent', fixedDays: 5, expirationDays: null });
+    const context = { holidayWorkDates: [], requests: [] };
+    expect(validateLeaveRequestRule(bereavement, request('bereavement', '2025-06-02', 6, { endDate: '2025-06-07' }), context))
+      .toBe('忌引休暇は1回につき5日までです');
+    expect(validateLeaveRequestRule(bereavement, request('bereavement', '2025-06-02', 5, { endDate: '2025-06-06' }), context)).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * 休暇種別マスタで登録した休暇（代休・振替休日・慶弔休暇など）の残高と申請ルールのユーティリティ。
+ *
+ * - holidayWork（代休）: 休日出勤1日につき1日を付与し、出勤日から有効日数を過ぎると失効する。
+ *   申請中・承認済みの申請を開始日の順に、有効期限の近い付与から差し引く
+ * - substitute（振替休日）: 事前に振り替える休日出勤日を1日ずつ指定する。休日出勤日から有効日数以内の日に限り、
+ *   同じ休日出勤日を2回振り替えることはできない
+ * - perEvent（慶弔休暇など）: 1回の申請で取得できる日数の上限を設ける
+ * - none: 残高を持たない
+ * 有給（年次有給休暇）の残高は paidLeaveApi / hourlyPaidLeave で扱う。
+ */
+
+import type { LeaveRequest } from './leaveRequestApi';
+
+/** 残高の規則（none: なし / holidayWork: 休日出勤で付与 / substitute: 休日出勤日と振替 / perEvent: 1回あたりの日数） */
+export type LeaveBalanceRule = 'none' | 'holidayWork' | 'substitute' | 'perEvent';
+
+/** 残高の規則の表示名 */
+export const LEAVE_BALANCE_RULE_LABELS: Record<LeaveBalanceRule, string> = {
+  none: '残高なし',
+  holidayWork: '休日出勤で付与（代休）',
+  substitute: '休日出勤日と振替（振替休日）',
+  perEvent: '1回あたりの日数上限（慶弔休暇など）'
+};
+
+/** 有効期限なしの代休を集計するときに遡る日数 */
+export const COMPENSATORY_LEAVE_LOOKBACK_DAYS = 730;
+
+/** 休暇種別1件の設定 */
+export interface LeaveTypeSetting {
+  /** APIに送信する休暇種別コード（英数字、組み込みの paid / special / sick / absence / other 以外） */
+  code: string;
+  /** 表示名 */
+  name: string;
+  /** 有給（賃金の支払いあり）かどうか */
+  isPaid: boolean;
+  balanceRule: LeaveBalanceRule;
+  /** perEvent の1回あたりの上限日数。それ以外は null */
+  fixedDays: number | null;
+  /** holidayWork・substitute の有効日数（休日出勤日から）。null は無期限 */
+  expirationDays: number | null;
+  /** 申請で選択できるかどうか */
+  isActive: boolean;
+}
+
+/** 残高の計算に必要な休暇申請の項目 */
+export type LeaveBalanceRequestLike = Pick<LeaveRequest, 'startDate' | 'endDate' | 'days' | 'leaveType' | 'status' | 'substituteWorkDate'> & {
+  id?: string;
+};
+
+/** 休日出勤1日分の代休 */
+export interface CompensatoryLeaveCredit {
+  /** 休日出勤日（YYYY-MM-DD） */
+  workDate: string;
+  /** 有効期限（YYYY-MM-DD）。無期限は null */
+  expirationDate: string | null;
+  /** 申請で差し引いた日数 */
+  usedDays: number;
+  /** 残日数 */
+  remainingDays: number;
+}
+
+/** 代休の残高 */
+export interface CompensatoryLeaveBalance {
+  credits: CompensatoryLeaveCredit[];
+  /** 付与日数の合計 */
+  earnedDays: number;
+  /** 申請中・承認済みで差し引いた日数 */
+  usedDays: number;
+  /** 基準日に使える残日数 */
+  remainingDays: number;
+  /** 使われずに失効した日数 */
+  expiredDays: number;
+  /** 残日数のうち最も近い有効期限。無ければ null */
+  nextExpirationDate: string | null;
+  /** 使える代休が無いまま申請された日数 */
+  shortageDays: number;
+}
+
+const parseYmd = (ymd: string): Date => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const toYmd = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseYmd(to).getTime() - parseYmd(from).getTime()) / 86400000);
+
+const isActiveRequest = (request: LeaveBalanceRequestLike): boolean =>
+  request.status === 'pending' || request.status === 'approved';
+
+/**
+ * 日付に日数を加える。
+ *
+ * @param {string} ymd - 日付（YYYY-MM-DD）。
+ * @param {number} days - 加える日数（負数で遡る）。
+ * @returns {string} 日付（YYYY-MM-DD）。
+ */
+export function addDaysToYmd(ymd: string, days: number): string {
+  const date = parseYmd(ymd);
+  return toYmd(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
+/**
+ * 代休の残高を計算する。
+ *
+ * @param {LeaveTypeSetting} setting - 代休（holidayWork）の休暇種別。
+ * @param {string[]} holidayWorkDates - 休日出勤日（YYYY-MM-DD）。
+ * @param {LeaveBalanceRequestLike[]} requests - 従業員の休暇申請（他の種別を含んでよい）。
+ * @param {string} today - 基準日（YYYY-MM-DD）。
+ * @returns {CompensatoryLeaveBalance} 代休の残高。
+ */
+export function calculateCompensatoryLeaveBalance(
+  setting: Pick<LeaveTypeSetting, 'code' | 'expirationDays'>,
+  holidayWorkDates: string[],
+  requests: LeaveBalanceRequestLike[],
+  today: string
+): CompensatoryLeaveBalance {
+  const credits: CompensatoryLeaveCredit[] = [...new Set(holidayWorkDates)].sort().map(workDate => ({
+    workDate,
+    expirationDate: setting.expirationDays === null ? null : addDaysToYmd(workDate, setting.expirationDays),
+    usedDays: 0,
+    remainingDays: 1
+  }));
+  const byExpiration = [...credits].sort((a, b) =>
+    (a.expirationDate ?? '9999-12-31').localeCompare(b.expirationDate ?? '9999-12-31') || a.workDate.localeCompare(b.workDate)
+  );
+
+  let shortageDays = 0;
+  requests
+    .filter(r => r.leaveType === setting.code && isActiveRequest(r))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .forEach(request => {
+      let rest = request.days;
+      for (const credit of byExpiration) {
+        if (rest <= 0) break;
+        const usable = credit.workDate <= request.startDate &&
+          (!credit.expirationDate || credit.expirationDate >= request.startDate);
+        if (!usable || credit.remainingDays <= 0) continue;
+        const taken = Math.min(credit.remainingDays, rest);
+        credit.usedDays += taken;
+        credit.remainingDays -= taken;
+        rest -= taken;
+      }
+      shortageDays += rest;
+    });
+
+  const isExpired = (credit: CompensatoryLeaveCredit) => credit.expirationDate !== null && credit.expirationDate < today;
+  const remaining = credits.filter(credit => !isExpired(credit) && credit.remainingDays > 0);
+  return {
+    credits,
+    earnedDays: credits.length,
+    usedDays: credits.reduce((sum, credit) => sum + credit.usedDays, 0),
+    remainingDays: remaining.reduce((sum, credit) => sum + credit.remainingDays, 0),
+    expiredDays: credits.filter(isExpired).reduce((sum, credit) => sum + credit.remainingDays, 0),
+    nextExpirationDate: remaining
+      .map(credit => credit.expirationDate)
+      .filter((date): date is string => date !== null)
+      .sort()[0] ?? null,
+    shortageDays
+  };
+}
+
+/**
+ * 休暇種別の規則に照らして申請を検証する。
+ *
+ * @param {LeaveTypeSetting} setting - 申請する休暇種別。
+ * @param {LeaveBalanceRequestLike} draft - 申請内容（編集の場合は id を指定し、既存の申請を集計から除く）。
+ * @param {{ holidayWorkDates: string[]; requests: LeaveBalanceRequestLike[] }} context - 休日出勤日と従業員の休暇申請。
+ * @returns {string | null} エラーメッセージ。問題が無ければ null。
+ */
+export function validateLeaveRequestRule(
+  setting: LeaveTypeSetting,
+  draft: LeaveBalanceRequestLike,
+  context: { holidayWorkDates: string[]; requests: LeaveBalanceRequestLike[] }
+): string | null {
+  const others = context.requests.filter(r => !draft.id || r.id !== draft.id);
+
+  switch (setting.balanceRule) {
+    case 'perEvent':
+      if (setting.fixedDays !== null && draft.days > setting.fixedDays) {
+        return `${setting.name}は1回につき${setting.fixedDays}日までです`;
+      }
+      return null;
+
+    case 'holidayWork': {
+      const before = calculateCompensatoryLeaveBalance(setting, context.holidayWorkDates, others, draft.startDate);
+      const after = calculateCompensatoryLeaveBalance(
+        setting,
+        context.holidayWorkDates,
+        [...others, { ...draft, leaveType: setting.code, status: 'pending' }],
+        draft.startDate
+      );
+      if (after.shortageDays > before.shortageDays) {
+        return `${draft.startDate}時点で使える${setting.name}の残日数が不足しています`;
+      }
+      return null;
+    }
+
+    case 'substitute': {
+      const workDate = draft.substituteWorkDate;
+      if (!workDate) return '振り替える休日出勤日を入力してください';
+      if (draft.startDate !== draft.endDate || draft.days !== 1) {
+        return `${setting.name}は休日出勤1日につき1日ずつ申請してください`;
+      }
+      if (workDate === draft.startDate) return '休日出勤日と同じ日は振り替えられません';
+      if (setting.expirationDays !== null && Math.abs(daysBetween(workDate, draft.startDate)) > setting.expirationDays) {
+        return `休日出勤日の前後${setting.expirationDays}日以内の日を指定してください`;
+      }
+      const duplicated = others.some(r => r.leaveType === setting.code && isActiveRequest(r) && r.substituteWorkDate === workDate);
+      if (duplicated) return `${workDate}の休日出勤は既に振り替えられています`;
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -6,10 +6,20 @@ import { apiRequest } from '../config/apiConfig';
 import { error as logError } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
 
+/**
+ * 組み込みの休暇種別コード（paid: 有給 / special: 特別休暇 / sick: 病気休暇 / absence: 欠勤 / other: その他）
+ */
+export type BuiltInLeaveTypeCode = 'paid' | 'special' | 'sick' | 'absence' | 'other';
+
+/**
+ * 休暇種別コード。組み込みの種別（{@link BuiltInLeaveTypeCode}）に加え、休暇種別マスタで登録したコード（代休・振替休日など）を取る。
+ */
+export type LeaveTypeCode = string;
+
 /**
  * 休暇申請を表すインターフェース（APIレスポンス用）
  * leaveTypeとstatusはAPIから返される英語コード
- * leaveType: paid, special, sick, absence, other
+ * leaveType: paid, special, sick, absence, other、または休暇種別マスタのコード
  * status: pending, approved, rejected, deleted
  */
 export interface LeaveRequest {
@@ -19,9 +29,19 @@ export interface LeaveRequest {
   startDate: string;
   endDate: string;
   days: number;
-  leaveType: 'paid' | 'special' | 'sick' | 'absence' | 'other';
+  leaveType: LeaveTypeCode;
   reason: string;
   isHalfDay: boolean;
+  /** 時間単位の有給（時間単位年休）かどうか。 */
+  isHourly?: boolean;
+  /** 時間単位の開始時刻（HH:MM）。時間単位以外は null。 */
+  startTime?: string | null;
+  /** 時間単位の終了時刻（HH:MM）。時間単位以外は null。 */
+  endTime?: string | null;
+  /** 時間単位の取得時間数（時間）。時間単位以外は null。 */
+  hours?: number | null;
+  /** 振替休日の振替元となる休日出勤日（YYYY-MM-DD）。振替休日以外は null。 */
+  substituteWorkDate?: string | null;
   status: 'pending' | 'approved' | 'rejected' | 'deleted';
   requestedAt: string;
   approvedAt: string | null;
@@ -41,16 +61,23 @@ export interface LeaveRequestListResponse {
 
 /**
  * 休暇申請作成リクエスト
- * leaveTypeはAPIに送信する英語コード（paid, special, sick, absence, other）
+ * leaveTypeはAPIに送信する英語コード（paid, special, sick, absence, other、または休暇種別マスタのコード）
  */
 export interface CreateLeaveRequestRequest {
   employeeId: string;
   startDate: string;
   endDate: string;
-  leaveType: 'paid' | 'special' | 'sick' | 'absence' | 'other';
+  leaveType: LeaveTypeCode;
   reason: string;
   days: number;
   isHalfDay?: boolean;
+  /** 時間単位の有給の場合に true。開始日＝終了日とし、startTime・endTime・hours を指定する。 */
+  isHourly?: boolean;
+  startTime?: string;
+  endTime?: string;
+  hours?: number;
+  /** 振替休日の場合の振替元の休日出勤日（YYYY-MM-DD）。 */
+  substituteWorkDate?: string;
 }
 
 /**
@@ -0,0 +1,134 @@
+/**
+ * 休暇種別マスタAPI呼び出しユーティリティ
+ * 組み込みの休暇種別（有給・特別休暇・病気休暇・欠勤・その他）に加えて会社が設ける休暇種別
+ * （代休・振替休日・慶弔休暇など）を、有給/無給と残高の規則つきで管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { LeaveTypeSetting } from './leaveBalance';
+
+/**
+ * 休暇種別マスタ1件
+ */
+export interface LeaveTypeMaster extends LeaveTypeSetting {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 休暇種別作成リクエスト
+ */
+export type CreateLeaveTypeMasterRequest = LeaveTypeSetting;
+
+/**
+ * 休暇種別更新リクエスト（コードは変更できない）
+ */
+export type UpdateLeaveTypeMasterRequest = Omit<LeaveTypeSetting, 'code'>;
+
+/**
+ * 休暇種別一覧取得
+ * @returns 休暇種別マスタ（無効なものを含む）
+ */
+export const getLeaveTypeMasters = async (): Promise<LeaveTypeMaster[]> => {
+  try {
+    const response = await apiRequest('/api/v1/leave-types', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.leaveTypes || [];
+  } catch (error) {
+    logError('Failed to fetch leave types:', error);
+    throw error;
+  }
+};
+
+/**
+ * 休暇種別作成
+ * 同じコードの休暇種別が既にある場合、API側で 409 が返る。
+ * @param payload 休暇種別の設定
+ * @returns 作成された休暇種別
+ */
+export const createLeaveTypeMaster = async (
+  payload: CreateLeaveTypeMasterRequest
+): Promise<LeaveTypeMaster> => {
+  try {
+    const response = await apiRequest('/api/v1/leave-types', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create leave type:', error);
+    throw error;
+  }
+};
+
+/**
+ * 休暇種別更新
+ * @param leaveTypeId 休暇種別ID
+ * @param payload 休暇種別の設定（コード以外）
+ * @returns 更新された休暇種別
+ */
+export const updateLeaveTypeMaster = async (
+  leaveTypeId: string,
+  payload: UpdateLeaveTypeMasterRequest
+): Promise<LeaveTypeMaster> => {
+  try {
+    const response = await apiRequest(`/api/v1/leave-types/${leaveTypeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to update leave type:', error);
+    throw error;
+  }
+};
+
+/**
+ * 休暇種別削除
+ * 申請で使われている休暇種別は API側で 409 が返る（無効にして選択肢から外す）。
+ * @param leaveTypeId 休暇種別ID
+ */
+export const deleteLeaveTypeMaster = async (leaveTypeId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/leave-types/${leaveTypeId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete leave type:', error);
+    throw error;
+  }
+};
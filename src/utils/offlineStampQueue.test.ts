@@ -0,0 +1,110 @@
+/**
+ * offlineStampQueue のユニットテスト。
+ *
+ * 対象: toJSTDateTimeString / enqueueOfflineStamp / loadOfflineStamps / getStatusAfterOfflineStamps / syncOfflineStamps / clearFinishedOfflineStamps
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（勤怠画面・オフライン打刻）
+ *
+ * 通信できない場所での打刻を端末に保存し、通信の回復後に打刻した順に送信する。
+ * 通信エラーは送信待ちのまま残し、サーバーが受け付けなかった打刻は却下にする。
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearFinishedOfflineStamps,
+  enqueueOfflineStamp,
+  getStatusAfterOfflineStamps,
+  loadOfflineStamps,
+  syncOfflineStamps,
+  toJSTDateTimeString,
+  type OfflineStamp
+} from './offlineStampQueue';
+import { ApiRequestError } from './apiErrorTranslator';
+
+const location = { latitude: 35.68, longitude: 139.76, accuracy: 20 };
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('toJSTDateTimeString', () => {
+  it('端末のタイムゾーンによらず JST の日時にする', () => {
+    expect(toJSTDateTimeString(new Date('2025-04-01T15:30:05Z'))).toBe('2025-04-02 00:30:05');
+  });
+});
+
+describe('enqueueOfflineStamp / loadOfflineStamps', () => {
+  it('打刻した日時・位置情報を付けて送信待ちで保存し、従業員ごとに打刻した順で読み込む', () => {
+    enqueueOfflineStamp('E001', 'clockOut', null, new Date('2025-04-01T09:00:00Z'));
+    enqueueOfflineStamp('E002', 'clockIn', null, new Date('2025-04-01T00:00:00Z'));
+    enqueueOfflineStamp('E001', 'clockIn', location, new Date('2025-04-01T00:00:00Z'));
+
+    const stamps = loadOfflineStamps('E001');
+    expect(stamps.map(stamp => [stamp.type, stamp.stampedAt])).toEqual([
+      ['clockIn', '2025-04-01 09:00:00'],
+      ['clockOut', '2025-04-01 18:00:00']
+    ]);
+    expect(stamps[0]).toMatchObject({ location, status: 'pending', message: null, syncedAt: null });
+  });
+});
+
+describe('getStatusAfterOfflineStamps', () => {
+  it('最後の送信待ちの打刻の後のステータスにする（送信済み・却下は反映しない）', () => {
+    enqueueOfflineStamp('E001', 'clockIn', null, new Date('2025-04-01T00:00:00Z'));
+    enqueueOfflineStamp('E001', 'startBreak', null, new Date('2025-04-01T03:00:00Z'));
+    const stamps = loadOfflineStamps('E001');
+
+    expect(getStatusAfterOfflineStamps('未出勤', stamps)).toBe('休憩中');
+    expect(getStatusAfterOfflineStamps('出勤中', stamps.map(stamp => ({ ...stamp, status: 'synced' as const })))).toBe('出勤中');
+  });
+});
+
+describe('syncOfflineStamps', () => {
+  it('打刻した順に送信し、受け付けられなかった打刻は却下にして続きを送信する', async () => {
+    enqueueOfflineStamp('E001', 'clockIn', location, new Date('2025-04-01T00:00:00Z'));
+    enqueueOfflineStamp('E001', 'startBreak', null, new Date('2025-04-01T03:00:00Z'));
+    enqueueOfflineStamp('E001', 'endBreak', null, new Date('2025-04-01T04:00:00Z'));
+    const sent: string[] = [];
+
+    const result = await syncOfflineStamps('E001', async (stamp: OfflineStamp) => {
+      sent.push(`${stamp.type} ${stamp.stampedAt}`);
+      if (stamp.type === 'startBreak') throw new ApiRequestError('既に休憩中です', { status: 400 });
+    });
+
+    expect(sent).toEqual(['clockIn 2025-04-01 09:00:00', 'startBreak 2025-04-01 12:00:00', 'endBreak 2025-04-01 13:00:00']);
+    expect(result).toEqual({ synced: 2, rejected: 1, pending: 0 });
+    expect(loadOfflineStamps('E001').map(stamp => [stamp.status, stamp.message])).toEqual([
+      ['synced', null],
+      ['rejected', '既に休憩中です'],
+      ['synced', null]
+    ]);
+  });
+
+  it('通信エラー・サーバーエラーの打刻で送信を止め、以降の打刻も送信待ちのまま残す', async () => {
+    enqueueOfflineStamp('E001', 'clockIn', null, new Date('2025-04-01T00:00:00Z'));
+    enqueueOfflineStamp('E001', 'clockOut', null, new Date('2025-04-01T09:00:00Z'));
+
+    const offline = await syncOfflineStamps('E001', async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    expect(offline).toEqual({ synced: 0, rejected: 0, pending: 2 });
+
+    const serverError = await syncOfflineStamps('E001', async () => {
+      throw new ApiRequestError('サーバーエラー', { status: 503 });
+    });
+    expect(serverError).toEqual({ synced: 0, rejected: 0, pending: 2 });
+    expect(loadOfflineStamps('E001').every(stamp => stamp.status === 'pending')).toBe(true);
+  });
+});
+
+describe('clearFinishedOfflineStamps', () => {
+  it('送信済み・却下の打刻を消去し、送信待ちと他の従業員の打刻は残す', async () => {
+    enqueueOfflineStamp('E001', 'clockIn', null, new Date('2025-04-01T00:00:00Z'));
+    enqueueOfflineStamp('E002', 'clockIn', null, new Date('2025-04-01T00:00:00Z'));
+    await syncOfflineStamps('E001', async () => undefined);
+    enqueueOfflineStamp('E001', 'clockOut', null, new Date('2025-04-01T09:00:00Z'));
+
+    clearFinishedOfflineStamps('E001');
+
+    expect(loadOfflineStamps('E001').map(stamp => stamp.type)).toEqual(['clockOut']);
+    expect(loadOfflineStamps('E002')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * 通信できない場所での打刻（出勤・退勤・休憩開始・休憩終了）を端末に保存し、通信の回復後に送信するユーティリティ。
+ *
+ * - 打刻は端末で打刻した日時（JST）と位置情報を付けて localStorage に保存する（従業員・端末ごと）
+ * - 送信は打刻した順に1件ずつ行い、端末で打刻した日時を送ってサーバー側で妥当性を検証する
+ * - 通信エラー・サーバーエラー・認証切れは送信待ちのまま残し、次の送信で再送する
+ * - サーバーが受け付けなかった打刻（4xx）は却下として残し、打刻修正で直してもらう
+ * - 送信待ちの打刻がある間の新しい打刻も保存し、打刻の順番が入れ替わらないようにする
+ */
+
+import { clockIn, clockOut, endBreak, startBreak, type StampLocation } from './attendanceApi';
+import { ApiRequestError } from './apiErrorTranslator';
+
+/** 打刻の種類 */
+export type OfflineStampType = 'clockIn' | 'clockOut' | 'startBreak' | 'endBreak';
+
+/** 保存した打刻の状態（pending: 送信待ち / synced: 送信済み / rejected: 却下） */
+export type OfflineStampStatus = 'pending' | 'synced' | 'rejected';
+
+/** 勤怠画面の勤怠ステータス */
+export type OfflineAttendanceStatus = '未出勤' | '出勤中' | '休憩中' | '退勤済み';
+
+/** 打刻の種類の表示名 */
+export const OFFLINE_STAMP_TYPE_LABELS: Record<OfflineStampType, string> = {
+  clockIn: '出勤',
+  clockOut: '退勤',
+  startBreak: '休憩開始',
+  endBreak: '休憩終了'
+};
+
+/** 端末に保存した打刻 */
+export interface OfflineStamp {
+  id: string;
+  employeeId: string;
+  type: OfflineStampType;
+  /** 端末で打刻した日時（YYYY-MM-DD HH:MM:SS、JST） */
+  stampedAt: string;
+  location: StampLocation | null;
+  status: OfflineStampStatus;
+  /** 却下の理由（送信待ち・送信済みは null） */
+  message: string | null;
+  /** 送信した日時（YYYY-MM-DD HH:MM:SS、JST）。送信前は null */
+  syncedAt: string | null;
+}
+
+/** 送信の結果 */
+export interface OfflineStampSyncResult {
+  synced: number;
+  rejected: number;
+  /** 送信できずに残った送信待ちの打刻の件数 */
+  pending: number;
+}
+
+/** 打刻を保存する localStorage のキー */
+const STORAGE_KEY = 'kintai_offline_stamps';
+
+/** 打刻後の勤怠ステータス */
+const STATUS_AFTER_STAMP: Record<OfflineStampType, OfflineAttendanceStatus> = {
+  clockIn: '出勤中',
+  clockOut: '退勤済み',
+  startBreak: '休憩中',
+  endBreak: '出勤中'
+};
+
+/** 送信中の処理（同時に送信して二重に打刻しないようにする） */
+let syncInProgress: Promise<OfflineStampSyncResult> | null = null;
+
+/**
+ * 日時を YYYY-MM-DD HH:MM:SS 形式（JST）にする。
+ *
+ * @param {Date} date - 日時。
+ * @returns {string} 日時（YYYY-MM-DD HH:MM:SS、JST）。端末のタイムゾーンによらない。
+ */
+export function toJSTDateTimeString(date: Date): string {
+  return new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * 保存したすべての打刻を読み込む。
+ *
+ * @returns {OfflineStamp[]} 打刻（保存順）。
+ */
+const loadAllStamps = (): OfflineStamp[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 従業員の保存した打刻を読み込む。
+ *
+ * @param {string} employeeId - 従業員ID。
+ * @returns {OfflineStamp[]} 打刻（打刻した順）。
+ */
+export function loadOfflineStamps(employeeId: string): OfflineStamp[] {
+  return loadAllStamps()
+    .filter(stamp => stamp.employeeId === employeeId)
+    .sort((a, b) => a.stampedAt.localeCompare(b.stampedAt));
+}
+
+/**
+ * 打刻を端末に保存する（送信待ち）。
+ *
+ * @param {string} employeeId - 従業員ID。
+ * @param {OfflineStampType} type - 打刻の種類。
+ * @param {StampLocation | null} location - 位置情報（取得できなかった場合は null）。
+ * @param {Date} [stampedAt] - 打刻した日時（省略時は現在日時）。
+ * @returns {OfflineStamp} 保存した打刻。
+ */
+export function enqueueOfflineStamp(
+  employeeId: string,
+  type: OfflineStampType,
+  location: StampLocation | null,
+  stampedAt: Date = new Date()
+): OfflineStamp {
+  const stamp: OfflineStamp = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    employeeId,
+    type,
+    stampedAt: toJSTDateTimeString(stampedAt),
+    location,
+    status: 'pending',
+    message: null,
+    syncedAt: null
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...loadAllStamps(), stamp]));
+  return stamp;
+}
+
+/**
+ * 送信済み・却下の打刻を消去する（送信待ちの打刻は残す）。
+ *
+ * @param {string} employeeId - 従業員ID。
+ */
+export function clearFinishedOfflineStamps(employeeId: string): void {
+  const remaining = loadAllStamps().filter(stamp => stamp.employeeId !== employeeId || stamp.status === 'pending');
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+}
+
+/**
+ * 通信できないことによるエラーかを返す（打刻を端末に保存するかの判定）。
+ *
+ * @param {unknown} error - 打刻APIのエラー。
+ * @returns {boolean} オフライン、またはサーバーに届かなかった（fetch の TypeError）なら true。
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return error instanceof TypeError;
+}
+
+/**
+ * サーバーが打刻を受け付けなかったエラーかを返す（再送しても受け付けられない）。
+ *
+ * @param {unknown} error - 打刻APIのエラー。
+ * @returns {boolean} 認証切れ以外の4xxなら true。
+ */
+const isRejection = (error: unknown): boolean =>
+  !isNetworkError(error) &&
+  error instanceof ApiRequestError &&
+  error.status !== undefined &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  error.status !== 401 &&
+  !error.isUnauthorized;
+
+/**
+ * 送信待ちの打刻を反映した勤怠ステータスを返す。
+ *
+ * @param {OfflineAttendanceStatus} status - サーバーに登録済みの勤怠ステータス。
+ * @param {OfflineStamp[]} stamps - 保存した打刻（打刻した順）。
+ * @returns {OfflineAttendanceStatus} 最後の送信待ちの打刻の後の勤怠ステータス（送信待ちが無ければ登録済みの勤怠ステータス）。
+ */
+export function getStatusAfterOfflineStamps(status: OfflineAttendanceStatus, stamps: OfflineStamp[]): OfflineAttendanceStatus {
+  const pending = stamps.filter(stamp => stamp.status === 'pending');
+  const last = pending[pending.length - 1];
+  return last ? STATUS_AFTER_STAMP[last.type] : status;
+}
+
+/**
+ * 保存した打刻を打刻APIに送信する（端末で打刻した日時を付ける）。
+ *
+ * @param {OfflineStamp} stamp - 打刻。
+ * @returns {Promise<unknown>} 打刻APIの結果。
+ */
+export async function sendOfflineStamp(stamp: OfflineStamp): Promise<unknown> {
+  const location = stamp.location ?? undefined;
+  switch (stamp.type) {
+    case 'clockIn':
+      return clockIn(location, stamp.stampedAt);
+    case 'clockOut':
+      return clockOut(location, stamp.stampedAt);
+    case 'startBreak':
+      return startBreak(stamp.stampedAt);
+    case 'endBreak':
+      return endBreak(stamp.stampedAt);
+  }
+}
+
+/**
+ * 従業員の送信待ちの打刻を打刻した順に送信する。
+ *
+ * 通信できない・サーバーエラーの打刻で送信を止め（以降の打刻も送信待ちのまま残す）、
+ * サーバーが受け付けなかった打刻は却下にして次の打刻の送信を続ける。
+ *
+ * @param {string} employeeId - 従業員ID。
+ * @param {(stamp: OfflineStamp) => Promise<unknown>} [send] - 送信処理（省略時は打刻API）。
+ * @returns {Promise<OfflineStampSyncResult>} 送信の結果。
+ */
+export function syncOfflineStamps(
+  employeeId: string,
+  send: (stamp: OfflineStamp) => Promise<unknown> = sendOfflineStamp
+): Promise<OfflineStampSyncResult> {
+  if (syncInProgress) return syncInProgress;
+
+  const run = async (): Promise<OfflineStampSyncResult> => {
+    const result: OfflineStampSyncResult = { synced: 0, rejected: 0, pending: 0 };
+    const update = (id: string, changes: Partial<OfflineStamp>) => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(loadAllStamps().map(s => (s.id === id ? { ...s, ...changes } : s))));
+    };
+
+    /** 送信を試みた打刻（送信中に保存された打刻も続けて送信する） */
+    const attempted = new Set<string>();
+    for (;;) {
+      const pending = loadOfflineStamps(employeeId).filter(stamp => stamp.status === 'pending' && !attempted.has(stamp.id));
+      const stamp = pending[0];
+      if (!stamp) break;
+      attempted.add(stamp.id);
+      try {
+        await send(stamp);
+        update(stamp.id, { status: 'synced', syncedAt: toJSTDateTimeString(new Date()) });
+        result.synced += 1;
+      } catch (error) {
+        if (!isRejection(error)) {
+          result.pending = pending.length;
+          break;
+        }
+        update(stamp.id, { status: 'rejected', message: error instanceof Error ? error.message : '打刻が受け付けられませんでした' });
+        result.rejected += 1;
+      }
+    }
+    return result;
+  };
+
+  syncInProgress = run().finally(() => {
+    syncInProgress = null;
+  });
+  return syncInProgress;
+}
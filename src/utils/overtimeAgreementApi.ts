@@ -0,0 +1,97 @@
+/**
+ * 36協定API呼び出しユーティリティ
+ * 会社が締結した時間外・休日労働に関する協定の上限時間を、起算月つきの履歴として管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { OvertimeAgreementLike } from './overtimeLimit';
+
+/**
+ * 36協定1件（起算月ごと）
+ */
+export interface OvertimeAgreement extends OvertimeAgreementLike {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 36協定作成リクエスト
+ */
+export type CreateOvertimeAgreementRequest = OvertimeAgreementLike;
+
+/**
+ * 36協定一覧取得
+ * @returns 36協定の履歴（起算月の昇順とは限らない）
+ */
+export const getOvertimeAgreements = async (): Promise<OvertimeAgreement[]> => {
+  try {
+    const response = await apiRequest('/api/v1/overtime-agreements', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.agreements || [];
+  } catch (error) {
+    logError('Failed to fetch overtime agreements:', error);
+    throw error;
+  }
+};
+
+/**
+ * 36協定作成
+ * 同じ起算月の協定が既にある場合、API側で 409 が返る。
+ * @param payload 起算月と上限時間
+ * @returns 作成された36協定
+ */
+export const createOvertimeAgreement = async (
+  payload: CreateOvertimeAgreementRequest
+): Promise<OvertimeAgreement> => {
+  try {
+    const response = await apiRequest('/api/v1/overtime-agreements', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create overtime agreement:', error);
+    throw error;
+  }
+};
+
+/**
+ * 36協定削除
+ * @param agreementId 36協定ID
+ */
+export const deleteOvertimeAgreement = async (agreementId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/overtime-agreements/${agreementId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete overtime agreement:', error);
+    throw error;
+  }
+};
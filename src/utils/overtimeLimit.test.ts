@@ -0,0 +1,104 @@
+/**
+ * overtimeLimit のユニットテスト。
+ *
+ * 対象: aggregateMonthlyOvertime / resolveOvertimeAgreement / getAgreementYearStart /
+ *       getOvertimeMonitorPeriod / evaluateOvertimeLimits
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（36協定の上限監視）
+ *
+ * 月は締め月で区切り、年は協定の起算月から数える。特別条項が無い協定では月45時間・年360時間の超過を違反とする。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateMonthlyOvertime,
+  resolveOvertimeAgreement,
+  getAgreementYearStart,
+  getOvertimeMonitorPeriod,
+  evaluateOvertimeLimits,
+  STATUTORY_OVERTIME_LIMITS,
+  type MonthlyOvertimeRecord
+} from './overtimeLimit';
+
+const hours = (h: number) => h * 60;
+const record = (yearMonth: string, overtimeHours: number, holidayWorkHours = 0): MonthlyOvertimeRecord => ({
+  yearMonth,
+  overtimeMinutes: hours(overtimeHours),
+  holidayWorkMinutes: hours(holidayWorkHours)
+});
+
+describe('aggregateMonthlyOvertime', () => {
+  it('締め日を過ぎた日は翌月の締め月に数え、深夜帯と法定休日労働を分けて集計する', () => {
+    const log = (workDate: string, overtimeMinutes: number, lateNightMinutes: number) => ({
+      workDate,
+      clockIn: `${workDate} 09:00:00`,
+      clockOut: `${workDate} 23:00:00`,
+      overtimeMinutes,
+      lateNightMinutes,
+      totalWorkMinutes: 600
+    });
+    const result = aggregateMonthlyOvertime([
+      log('2025-06-25', 60, 0),
+      log('2025-06-26', 120, 30),
+      log('2025-06-29', 0, 0)
+    ]);
+    expect(result).toEqual([
+      { yearMonth: '2025-06', overtimeMinutes: 60, holidayWorkMinutes: 0 },
+      { yearMonth: '2025-07', overtimeMinutes: 150, holidayWorkMinutes: 600 }
+    ]);
+  });
+});
+
+describe('resolveOvertimeAgreement / getAgreementYearStart', () => {
+  const agreement = { ...STATUTORY_OVERTIME_LIMITS, effectiveFrom: '2025-01', monthlyLimitHours: 30 };
+
+  it('協定が無い期間は法定の上限で、4月起算とする', () => {
+    const resolved = resolveOvertimeAgreement([agreement], '2024-12');
+    expect(resolved.monthlyLimitHours).toBe(45);
+    expect(getAgreementYearStart(resolved, '2024-12')).toBe('2024-04');
+  });
+
+  it('協定の起算月から12か月を1年とする', () => {
+    const resolved = resolveOvertimeAgreement([agreement], '2026-03');
+    expect(resolved.monthlyLimitHours).toBe(30);
+    expect(getAgreementYearStart(resolved, '2026-03')).toBe('2026-01');
+    expect(getAgreementYearStart(resolved, '2025-12')).toBe('2025-01');
+  });
+
+  it('取得期間は起算月と5か月前の早い方の給与期間から', () => {
+    expect(getOvertimeMonitorPeriod([], 2025, 6)).toEqual({ startDate: '2024-12-26', endDate: '2025-06-25' });
+    expect(getOvertimeMonitorPeriod([], 2025, 12)).toEqual({ startDate: '2025-03-26', endDate: '2025-12-25' });
+  });
+});
+
+describe('evaluateOvertimeLimits', () => {
+  it('上限の割合に達したら注意、月45時間超は特別条項として数える', () => {
+    const status = evaluateOvertimeLimits([record('2025-04', 37), record('2025-05', 50)], '2025-05');
+    expect(status.checks[0]).toMatchObject({ label: '月の時間外労働', value: hours(50), level: 'exceeded' });
+    expect(status.exceedanceCount).toBe(1);
+    expect(status.level).toBe('exceeded');
+    expect(evaluateOvertimeLimits([record('2025-04', 37)], '2025-04').level).toBe('warning');
+  });
+
+  it('休日労働を含めて月100時間以上、2〜6か月平均80時間超は違反', () => {
+    const monthly = evaluateOvertimeLimits([record('2025-04', 80, 20)], '2025-04');
+    expect(monthly.checks.find(c => c.label === '月の時間外・休日労働')?.level).toBe('violation');
+
+    const average = evaluateOvertimeLimits([record('2025-04', 70, 15), record('2025-05', 70, 10)], '2025-05');
+    const check = average.checks.find(c => c.label.includes('か月平均'));
+    expect(check).toMatchObject({ label: '時間外・休日労働の2か月平均', value: hours(82.5), level: 'violation' });
+  });
+
+  it('月の上限を超えた回数が年6回を超えると違反、起算月より前は数えない', () => {
+    const records = ['2025-03', '2025-04', '2025-05', '2025-06', '2025-07', '2025-08', '2025-09', '2025-10'].map(ym => record(ym, 46));
+    expect(evaluateOvertimeLimits(records, '2025-09').exceedanceCount).toBe(6);
+    const status = evaluateOvertimeLimits(records, '2025-10');
+    expect(status.exceedanceCount).toBe(7);
+    expect(status.checks.find(c => c.unit === 'times')?.level).toBe('violation');
+  });
+
+  it('特別条項が無い協定は原則の上限超過を違反とする', () => {
+    const agreements = [{ ...STATUTORY_OVERTIME_LIMITS, effectiveFrom: '2025-04', specialClauseEnabled: false }];
+    const status = evaluateOvertimeLimits([record('2025-04', 46)], '2025-04', agreements);
+    expect(status.checks).toHaveLength(2);
+    expect(status.level).toBe('violation');
+  });
+});
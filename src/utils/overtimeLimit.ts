@@ -0,0 +1,325 @@
+/**
+ * 36協定（時間外・休日労働に関する協定）の上限時間の監視ユーティリティ。
+ *
+ * - 原則: 時間外労働 月45時間・年360時間
+ * - 特別条項: 時間外労働 年720時間、時間外・休日労働 月100時間未満・2〜6か月平均80時間以内、
+ *   月45時間を超えられるのは年6回まで
+ * - 月は給与期間（締め月）で区切り、年は協定の起算月から12か月とする
+ * - 時間外労働は通常帯と深夜帯の合計、休日労働は法定休日労働（{@link aggregateOvertimeMinutes} の集計）
+ *
+ * 上限時間は会社ごとの協定の内容（{@link OvertimeAgreementLike}）で上書きできる。
+ */
+
+import { getPayrollClosingYearMonthFromDate, getPayrollPeriodBounds, type PayrollClosingRuleLike } from './payrollPeriod';
+import { aggregateOvertimeMinutes } from './overtimePremium';
+import type { AttendanceLog } from './attendanceApi';
+import type { CompanyHolidayLike } from './holidayCalendar';
+
+/** 協定で定める上限時間（時間単位）と警告の閾値 */
+export interface OvertimeAgreementLimits {
+  /** 時間外労働の月の上限（時間） */
+  monthlyLimitHours: number;
+  /** 時間外労働の年の上限（時間） */
+  annualLimitHours: number;
+  /** 特別条項の有無 */
+  specialClauseEnabled: boolean;
+  /** 特別条項: 時間外・休日労働の月の上限（この時間以上は違反、時間） */
+  specialMonthlyLimitHours: number;
+  /** 特別条項: 時間外・休日労働の2〜6か月平均の上限（時間） */
+  specialAverageLimitHours: number;
+  /** 特別条項: 時間外労働の年の上限（時間） */
+  specialAnnualLimitHours: number;
+  /** 特別条項: 月の上限を超えられる回数（年） */
+  specialMaxExceedances: number;
+  /** 上限に対してこの割合（%）に達したら警告する */
+  warningPercent: number;
+}
+
+/** 36協定1件（適用開始月つき） */
+export interface OvertimeAgreementLike extends OvertimeAgreementLimits {
+  /** 協定の起算月（YYYY-MM）。この月から12か月を1年として数える */
+  effectiveFrom: string;
+}
+
+/** 法定の上限（協定が登録されていない場合に使う） */
+export const STATUTORY_OVERTIME_LIMITS: OvertimeAgreementLimits = {
+  monthlyLimitHours: 45,
+  annualLimitHours: 360,
+  specialClauseEnabled: true,
+  specialMonthlyLimitHours: 100,
+  specialAverageLimitHours: 80,
+  specialAnnualLimitHours: 720,
+  specialMaxExceedances: 6,
+  warningPercent: 80
+};
+
+/** 協定が登録されていない場合の起算月（4月） */
+export const DEFAULT_AGREEMENT_START_MONTH = 4;
+
+/** 平均を確認する月数の範囲（2〜6か月） */
+const AVERAGE_WINDOW_MONTHS = [2, 3, 4, 5, 6];
+
+/** 締め月ごとの時間外・休日労働 */
+export interface MonthlyOvertimeRecord {
+  /** 締め月（YYYY-MM） */
+  yearMonth: string;
+  /** 時間外労働（分、深夜帯を含む） */
+  overtimeMinutes: number;
+  /** 法定休日労働（分） */
+  holidayWorkMinutes: number;
+}
+
+/** 判定結果（ok: 範囲内 / warning: 閾値到達 / exceeded: 原則の上限超え（特別条項の範囲内） / violation: 上限違反） */
+export type OvertimeLimitLevel = 'ok' | 'warning' | 'exceeded' | 'violation';
+
+/** 判定結果の表示名 */
+export const OVERTIME_LIMIT_LEVEL_LABELS: Record<OvertimeLimitLevel, string> = {
+  ok: '範囲内',
+  warning: '注意',
+  exceeded: '特別条項',
+  violation: '上限超過'
+};
+
+const LEVEL_ORDER: OvertimeLimitLevel[] = ['ok', 'warning', 'exceeded', 'violation'];
+
+/** 上限ごとの判定 */
+export interface OvertimeLimitCheck {
+  label: string;
+  /** 実績（unit が minutes のときは分、times のときは回数） */
+  value: number;
+  /** 上限（unit と同じ単位） */
+  limit: number;
+  unit: 'minutes' | 'times';
+  level: OvertimeLimitLevel;
+}
+
+/** 締め月時点の36協定の判定結果 */
+export interface OvertimeLimitStatus {
+  /** 判定した締め月（YYYY-MM） */
+  yearMonth: string;
+  /** 協定年度の起算月（YYYY-MM） */
+  agreementYearStart: string;
+  /** 当月の時間外労働（分） */
+  monthlyOvertimeMinutes: number;
+  /** 当月の時間外・休日労働（分） */
+  monthlyTotalMinutes: number;
+  /** 協定年度の時間外労働の累計（分） */
+  annualOvertimeMinutes: number;
+  /** 協定年度に月の上限を超えた回数 */
+  exceedanceCount: number;
+  checks: OvertimeLimitCheck[];
+  /** 最も重い判定 */
+  level: OvertimeLimitLevel;
+}
+
+const toYearMonth = (year: number, month: number): string => `${year}-${String(month).padStart(2, '0')}`;
+
+/** YYYY-MM を delta か月ずらす */
+const shiftYearMonth = (ym: string, delta: number): string => {
+  const [y, m] = ym.split('-').map(Number);
+  const index = y * 12 + (m - 1) + delta;
+  return toYearMonth(Math.floor(index / 12), (index % 12) + 1);
+};
+
+/**
+ * 勤怠ログを締め月ごとに集計する。
+ *
+ * @param {AttendanceLog[]} logs - 1人分の勤怠ログ。
+ * @param {PayrollClosingRuleLike[]} closingRules - 締め日設定の履歴。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日（休日出勤の判定用）。
+ * @returns {MonthlyOvertimeRecord[]} 締め月の昇順。
+ */
+export function aggregateMonthlyOvertime(
+  logs: Array<Pick<AttendanceLog, 'workDate' | 'clockIn' | 'clockOut' | 'isHolidayWork' | 'overtimeMinutes' | 'lateNightMinutes' | 'totalWorkMinutes'>>,
+  closingRules: PayrollClosingRuleLike[] = [],
+  companyHolidays: CompanyHolidayLike[] = []
+): MonthlyOvertimeRecord[] {
+  const byMonth = new Map<string, typeof logs>();
+  logs.forEach(log => {
+    const [y, m, d] = log.workDate.split('-').map(Number);
+    const closing = getPayrollClosingYearMonthFromDate(new Date(y, m - 1, d), closingRules);
+    const ym = toYearMonth(closing.year, closing.month);
+    byMonth.set(ym, [...(byMonth.get(ym) ?? []), log]);
+  });
+  return [...byMonth.entries()]
+    .map(([yearMonth, monthLogs]) => {
+      const minutes = aggregateOvertimeMinutes(monthLogs, companyHolidays);
+      return {
+        yearMonth,
+        overtimeMinutes: minutes.overtime + minutes.lateNightOvertime,
+        holidayWorkMinutes: minutes.legalHolidayWork
+      };
+    })
+    .sort((a, b) => a.yearMonth.localeCompare(b.yearMonth));
+}
+
+/**
+ * 締め月に適用される協定を返す（起算月が締め月以前で最も新しいもの）。
+ * 該当が無ければ法定の上限（起算月は空文字）を返す。
+ *
+ * @param {OvertimeAgreementLike[]} agreements - 協定の履歴（順不同）。
+ * @param {string} yearMonth - 締め月（YYYY-MM）。
+ * @returns {OvertimeAgreementLike} 適用される協定。
+ */
+export function resolveOvertimeAgreement(agreements: OvertimeAgreementLike[], yearMonth: string): OvertimeAgreementLike {
+  const resolved = [...agreements]
+    .filter(agreement => agreement.effectiveFrom <= yearMonth)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+  return resolved ?? { ...STATUTORY_OVERTIME_LIMITS, effectiveFrom: '' };
+}
+
+/**
+ * 締め月が属する協定年度の起算月を返す。
+ *
+ * @param {OvertimeAgreementLike} agreement - 適用される協定。
+ * @param {string} yearMonth - 締め月（YYYY-MM）。
+ * @returns {string} 起算月（YYYY-MM）。
+ */
+export function getAgreementYearStart(agreement: OvertimeAgreementLike, yearMonth: string): string {
+  const startMonth = agreement.effectiveFrom ? Number(agreement.effectiveFrom.split('-')[1]) : DEFAULT_AGREEMENT_START_MONTH;
+  const [y, m] = yearMonth.split('-').map(Number);
+  return toYearMonth(m >= startMonth ? y : y - 1, startMonth);
+}
+
+/**
+ * 判定に必要な勤怠の取得期間（協定年度の起算月、または2〜6か月平均の最古の月のうち早い方から、締め月の末日まで）。
+ *
+ * @param {OvertimeAgreementLike[]} agreements - 協定の履歴。
+ * @param {number} year - 締め月の年。
+ * @param {number} month - 締め月の月。
+ * @param {PayrollClosingRuleLike[]} closingRules - 締め日設定の履歴。
+ * @returns {{ startDate: string; endDate: string }} 取得期間（YYYY-MM-DD）。
+ */
+export function getOvertimeMonitorPeriod(
+  agreements: OvertimeAgreementLike[],
+  year: number,
+  month: number,
+  closingRules: PayrollClosingRuleLike[] = []
+): { startDate: string; endDate: string } {
+  const yearMonth = toYearMonth(year, month);
+  const yearStart = getAgreementYearStart(resolveOvertimeAgreement(agreements, yearMonth), yearMonth);
+  const averageStart = shiftYearMonth(yearMonth, -(Math.max(...AVERAGE_WINDOW_MONTHS) - 1));
+  const [sy, sm] = (yearStart < averageStart ? yearStart : averageStart).split('-').map(Number);
+  return {
+    startDate: getPayrollPeriodBounds(sy, sm, closingRules).startDate,
+    endDate: getPayrollPeriodBounds(year, month, closingRules).endDate
+  };
+}
+
+/**
+ * 上限に対する判定。
+ * atLimitIsOver が true の場合は上限ちょうどでも超過とする（「100時間未満」の上限）。
+ */
+const levelOf = (
+  value: number,
+  limit: number,
+  overLevel: OvertimeLimitLevel,
+  warningPercent: number,
+  atLimitIsOver = false
+): OvertimeLimitLevel => {
+  if (atLimitIsOver ? value >= limit : value > limit) return overLevel;
+  if (value > 0 && value * 100 >= limit * warningPercent) return 'warning';
+  return 'ok';
+};
+
+/**
+ * 締め月時点の36協定の上限に対する状況を判定する。
+ *
+ * @param {MonthlyOvertimeRecord[]} records - 締め月ごとの集計（{@link aggregateMonthlyOvertime}）。
+ * @param {string} yearMonth - 判定する締め月（YYYY-MM）。
+ * @param {OvertimeAgreementLike[]} agreements - 協定の履歴。
+ * @returns {OvertimeLimitStatus} 判定結果。
+ */
+export function evaluateOvertimeLimits(
+  records: MonthlyOvertimeRecord[],
+  yearMonth: string,
+  agreements: OvertimeAgreementLike[] = []
+): OvertimeLimitStatus {
+  const agreement = resolveOvertimeAgreement(agreements, yearMonth);
+  const agreementYearStart = getAgreementYearStart(agreement, yearMonth);
+  const recordOf = (ym: string) => records.find(r => r.yearMonth === ym);
+  const totalOf = (ym: string) => (recordOf(ym)?.overtimeMinutes ?? 0) + (recordOf(ym)?.holidayWorkMinutes ?? 0);
+
+  const monthlyLimit = agreement.monthlyLimitHours * 60;
+  const yearRecords = records.filter(r => r.yearMonth >= agreementYearStart && r.yearMonth <= yearMonth);
+  const monthlyOvertimeMinutes = recordOf(yearMonth)?.overtimeMinutes ?? 0;
+  const monthlyTotalMinutes = totalOf(yearMonth);
+  const annualOvertimeMinutes = yearRecords.reduce((sum, r) => sum + r.overtimeMinutes, 0);
+  const exceedanceCount = yearRecords.filter(r => r.overtimeMinutes > monthlyLimit).length;
+
+  const { warningPercent } = agreement;
+  const overPrinciple: OvertimeLimitLevel = agreement.specialClauseEnabled ? 'exceeded' : 'violation';
+  const checks: OvertimeLimitCheck[] = [
+    {
+      label: '月の時間外労働',
+      value: monthlyOvertimeMinutes,
+      limit: monthlyLimit,
+      unit: 'minutes',
+      level: levelOf(monthlyOvertimeMinutes, monthlyLimit, overPrinciple, warningPercent)
+    },
+    {
+      label: '年の時間外労働',
+      value: annualOvertimeMinutes,
+      limit: agreement.annualLimitHours * 60,
+      unit: 'minutes',
+      level: levelOf(annualOvertimeMinutes, agreement.annualLimitHours * 60, overPrinciple, warningPercent)
+    }
+  ];
+
+  if (agreement.specialClauseEnabled) {
+    const averageLimit = agreement.specialAverageLimitHours * 60;
+    const averages = AVERAGE_WINDOW_MONTHS.map(months => {
+      let sum = 0;
+      for (let i = 0; i < months; i++) sum += totalOf(shiftYearMonth(yearMonth, -i));
+      return { months, minutes: Math.round(sum / months) };
+    });
+    const worstAverage = averages.reduce((worst, current) => (current.minutes > worst.minutes ? current : worst));
+
+    checks.push(
+      {
+        label: '月の時間外・休日労働',
+        value: monthlyTotalMinutes,
+        limit: agreement.specialMonthlyLimitHours * 60,
+        unit: 'minutes',
+        level: levelOf(monthlyTotalMinutes, agreement.specialMonthlyLimitHours * 60, 'violation', warningPercent, true)
+      },
+      {
+        label: `時間外・休日労働の${worstAverage.months}か月平均`,
+        value: worstAverage.minutes,
+        limit: averageLimit,
+        unit: 'minutes',
+        level: levelOf(worstAverage.minutes, averageLimit, 'violation', warningPercent)
+      },
+      {
+        label: '年の時間外労働（特別条項）',
+        value: annualOvertimeMinutes,
+        limit: agreement.specialAnnualLimitHours * 60,
+        unit: 'minutes',
+        level: levelOf(annualOvertimeMinutes, agreement.specialAnnualLimitHours * 60, 'violation', warningPercent)
+      },
+      {
+        label: `月${agreement.monthlyLimitHours}時間超の回数`,
+        value: exceedanceCount,
+        limit: agreement.specialMaxExceedances,
+        unit: 'times',
+        level: levelOf(exceedanceCount, agreement.specialMaxExceedances, 'violation', warningPercent)
+      }
+    );
+  }
+
+  const level = checks.reduce<OvertimeLimitLevel>(
+    (worst, check) => (LEVEL_ORDER.indexOf(check.level) > LEVEL_ORDER.indexOf(worst) ? check.level : worst),
+    'ok'
+  );
+
+  return {
+    yearMonth,
+    agreementYearStart,
+    monthlyOvertimeMinutes,
+    monthlyTotalMinutes,
+    annualOvertimeMinutes,
+    exceedanceCount,
+    checks,
+    level
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * overtimePremium のユニットテスト。
+ *
+ * 対象: aggregateOvertimeMinutes / calculateOvertimeHourlyBase / calculateOvertimePremiums
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細の時間外手当・深夜手当）
+ *
+ * 時間外 25%・月60時間超 50%・法定休日 35%・深夜 25%（加算）で、月60時間の判定は通常帯 → 深夜帯の順に積み上げる。
+ */
+import { describe, it, expect } from 'vitest';
+import { aggregateOvertimeMinutes, calculateOvertimeHourlyBase, calculateOvertimePremiums } from './overtimePremium';
+
+const log = (workDate: string, overtimeMinutes: number, lateNightMinutes: number, totalWorkMinutes: number) => ({
+  workDate,
+  clockIn: `${workDate} 09:00:00`,
+  clockOut: `${workDate} 23:00:00`,
+  overtimeMinutes,
+  lateNightMinutes,
+  totalWorkMinutes
+});
+
+describe('aggregateOvertimeMinutes', () => {
+  it('日曜日の休日出勤は法定休日労働、土曜日は時間外労働として集計する', () => {
+    const result = aggregateOvertimeMinutes([
+      log('2025-06-02', 60, 30, 600),
+      log('2025-06-07', 120, 0, 480),
+      log('2025-06-01', 0, 60, 540)
+    ]);
+    expect(result).toEqual({ overtime: 180, lateNightOvertime: 30, legalHolidayWork: 540, legalHolidayLateNight: 60 });
+  });
+
+  it('平日扱いに上書きされた日曜日は法定休日労働にしない', () => {
+    const result = aggregateOvertimeMinutes([{ ...log('2025-06-01', 30, 0, 480), isHolidayWork: false }]);
+    expect(result.legalHolidayWork).toBe(0);
+    expect(result.overtime).toBe(30);
+  });
+});
+
+describe('calculateOvertimeHourlyBase', () => {
+  it('月平均所定労働時間で割り、1円未満を切り上げる', () => {
+    expect(calculateOvertimeHourlyBase(300000, 160 * 60)).toBe(1875);
+    expect(calculateOvertimeHourlyBase(250000, 9150)).toBe(1640);
+    expect(calculateOvertimeHourlyBase(250000, 0)).toBe(0);
+  });
+});
+
+describe('calculateOvertimePremiums', () => {
+  it('60時間以内は時間外 125%、深夜の時間外 150%', () => {
+    const result = calculateOvertimePremiums(1875, { overtime: 600, lateNightOvertime: 120, legalHolidayWork: 0, legalHolidayLateNight: 0 });
+    expect(result.lines.map(l => [l.label, l.minutes, l.percent, l.amount])).toEqual([
+      ['時間外労働', 600, 125, 23438],
+      ['深夜の時間外労働', 120, 150, 5625]
+    ]);
+    expect(result.overtimeAllowance).toBe(23438);
+    expect(result.lateNightAllowance).toBe(5625);
+  });
+
+  it('月60時間を超えた分は通常帯から順に 50% の割増にする', () => {
+    const result = calculateOvertimePremiums(1200, { overtime: 3540, lateNightOvertime: 120, legalHolidayWork: 0, legalHolidayLateNight: 0 });
+    expect(result.lines.map(l => [l.label, l.minutes, l.percent])).toEqual([
+      ['時間外労働', 3540, 125],
+      ['深夜の時間外労働', 60, 150],
+      ['深夜の時間外労働（月60時間超）', 60, 175]
+    ]);
+    expect(result.overtimeAllowance).toBe(88500);
+    expect(result.lateNightAllowance).toBe(1800 + 2100);
+  });
+
+  it('法定休日労働は 135% で60時間に含めず、深夜帯は深夜割増分だけを加える', () => {
+    const result = calculateOvertimePremiums(1000, { overtime: 3600, lateNightOvertime: 0, legalHolidayWork: 480, legalHolidayLateNight: 60 });
+    expect(result.lines.map(l => [l.label, l.amount])).toEqual([
+      ['時間外労働', 75000],
+      ['法定休日労働', 10800],
+      ['法定休日の深夜労働（深夜割増分）', 250]
+    ]);
+    expect(result.overtimeAllowance).toBe(85800);
+    expect(result.lateNightAllowance).toBe(250);
+  });
+});
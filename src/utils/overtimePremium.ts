@@ -0,0 +1,165 @@
+/**
+ * 時間外・休日・深夜の割増賃金の計算ユーティリティ。
+ *
+ * - 残業単価 = (基本給 + 残業代に含む手当) ÷ 月平均所定労働時間（1円未満切上げ）
+ * - 時間外労働 25%、月60時間を超える時間外労働 50%、法定休日労働 35%、深夜労働 25%（他の割増に加算）
+ * - 月60時間の判定には法定休日労働を含めず、通常帯 → 深夜帯の順に積み上げる
+ * - 法定休日は日曜日とする
+ */
+
+import { isHolidayWorkLog, type AttendanceLog } from './attendanceApi';
+import type { CompanyHolidayLike } from './holidayCalendar';
+
+/** 割増率（%） */
+export const OVERTIME_PREMIUM_RATES = {
+  /** 時間外労働 */
+  overtime: 25,
+  /** 月60時間を超える時間外労働 */
+  overtimeOver60Hours: 50,
+  /** 法定休日労働 */
+  legalHoliday: 35,
+  /** 深夜労働（22:00〜5:00） */
+  lateNight: 25
+} as const;
+
+/** 割増率が引き上げられる月の時間外労働の時間（分） */
+export const MONTHLY_OVERTIME_THRESHOLD_MINUTES = 60 * 60;
+
+/** 法定休日の曜日（0: 日曜日） */
+export const LEGAL_HOLIDAY_DAY_OF_WEEK = 0;
+
+/** 割増の対象となる時間（分） */
+export interface OvertimeMinutes {
+  /** 時間外労働（深夜帯を除く） */
+  overtime: number;
+  /** 時間外労働のうち深夜帯 */
+  lateNightOvertime: number;
+  /** 法定休日労働（深夜帯を含む） */
+  legalHolidayWork: number;
+  /** 法定休日労働のうち深夜帯 */
+  legalHolidayLateNight: number;
+}
+
+/** 内訳の計上先（overtime: 時間外手当 / lateNight: 深夜手当） */
+export type OvertimePremiumCategory = 'overtime' | 'lateNight';
+
+/** 割増賃金の内訳1行 */
+export interface OvertimePremiumLine {
+  label: string;
+  minutes: number;
+  /** 残業単価に対する支給率（%、例: 125） */
+  percent: number;
+  /** 金額（1円未満切上げ） */
+  amount: number;
+  category: OvertimePremiumCategory;
+}
+
+/** 割増賃金の計算結果 */
+export interface OvertimePremiumBreakdown {
+  /** 残業単価（円/時間） */
+  hourlyBase: number;
+  /** 時間が0の行は含まない */
+  lines: OvertimePremiumLine[];
+  overtimeAllowance: number;
+  lateNightAllowance: number;
+}
+
+/**
+ * 法定休日（日曜日）かどうか。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @returns {boolean} 法定休日なら true。
+ */
+export function isLegalHoliday(ymd: string): boolean {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d).getDay() === LEGAL_HOLIDAY_DAY_OF_WEEK;
+}
+
+/**
+ * 勤怠ログから割増の対象となる時間を集計する。
+ * 法定休日の休日出勤はその日の労働時間全体を法定休日労働とし、時間外労働には含めない。
+ *
+ * @param {AttendanceLog[]} logs - 集計対象の勤怠ログ（給与期間で絞り込み済み）。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日（休日出勤の判定用）。
+ * @returns {OvertimeMinutes} 割増の対象となる時間（分）。
+ */
+export function aggregateOvertimeMinutes(
+  logs: Array<Pick<AttendanceLog, 'workDate' | 'clockIn' | 'clockOut' | 'isHolidayWork' | 'overtimeMinutes' | 'lateNightMinutes' | 'totalWorkMinutes'>>,
+  companyHolidays: CompanyHolidayLike[] = []
+): OvertimeMinutes {
+  return logs.reduce<OvertimeMinutes>((sum, log) => {
+    const overtime = log.overtimeMinutes ?? 0;
+    const lateNight = log.lateNightMinutes ?? 0;
+    if (isHolidayWorkLog(log, companyHolidays) && isLegalHoliday(log.workDate)) {
+      return {
+        ...sum,
+        legalHolidayWork: sum.legalHolidayWork + (log.totalWorkMinutes ?? overtime + lateNight),
+        legalHolidayLateNight: sum.legalHolidayLateNight + lateNight
+      };
+    }
+    return {
+      ...sum,
+      overtime: sum.overtime + overtime,
+      lateNightOvertime: sum.lateNightOvertime + lateNight
+    };
+  }, { overtime: 0, lateNightOvertime: 0, legalHolidayWork: 0, legalHolidayLateNight: 0 });
+}
+
+/**
+ * 残業単価（円/時間）を求める。
+ *
+ * @param {number} baseAmount - 基本給 + 残業代に含む手当の金額合計。
+ * @param {number} monthlyPrescribedMinutes - 月平均所定労働時間（分）。
+ * @returns {number} 残業単価（1円未満切上げ）。所定労働時間が0以下の場合は0。
+ */
+export function calculateOvertimeHourlyBase(baseAmount: number, monthlyPrescribedMinutes: number): number {
+  if (monthlyPrescribedMinutes <= 0) return 0;
+  return Math.ceil(baseAmount * 60 / monthlyPrescribedMinutes);
+}
+
+/**
+ * 残業単価と割増の対象となる時間から、時間外手当・深夜手当とその内訳を求める。
+ *
+ * @param {number} hourlyBase - 残業単価（円/時間）。
+ * @param {OvertimeMinutes} minutes - 割増の対象となる時間（分）。
+ * @returns {OvertimePremiumBreakdown} 計算結果。
+ */
+export function calculateOvertimePremiums(hourlyBase: number, minutes: OvertimeMinutes): OvertimePremiumBreakdown {
+  const rates = OVERTIME_PREMIUM_RATES;
+  let remainingWithinThreshold = MONTHLY_OVERTIME_THRESHOLD_MINUTES;
+  const splitAtThreshold = (value: number): [number, number] => {
+    const within = Math.min(Math.max(0, value), remainingWithinThreshold);
+    remainingWithinThreshold -= within;
+    return [within, Math.max(0, value) - within];
+  };
+  const [overtimeWithin, overtimeOver] = splitAtThreshold(minutes.overtime);
+  const [lateNightWithin, lateNightOver] = splitAtThreshold(minutes.lateNightOvertime);
+
+  const line = (label: string, value: number, percent: number, category: OvertimePremiumCategory): OvertimePremiumLine => ({
+    label,
+    minutes: value,
+    percent,
+    // 整数同士で計算して浮動小数点の誤差による切上げを避ける
+    amount: Math.ceil(hourlyBase * percent * value / 6000),
+    category
+  });
+
+  const lines = [
+    line('時間外労働', overtimeWithin, 100 + rates.overtime, 'overtime'),
+    line('時間外労働（月60時間超）', overtimeOver, 100 + rates.overtimeOver60Hours, 'overtime'),
+    line('法定休日労働', Math.max(0, minutes.legalHolidayWork), 100 + rates.legalHoliday, 'overtime'),
+    line('深夜の時間外労働', lateNightWithin, 100 + rates.overtime + rates.lateNight, 'lateNight'),
+    line('深夜の時間外労働（月60時間超）', lateNightOver, 100 + rates.overtimeOver60Hours + rates.lateNight, 'lateNight'),
+    line('法定休日の深夜労働（深夜割増分）', Math.max(0, minutes.legalHolidayLateNight), rates.lateNight, 'lateNight')
+  ].filter(item => item.minutes > 0);
+
+  const sumOf = (category: OvertimePremiumCategory): number =>
+    lines.filter(item => item.category === category).reduce((sum, item) => sum + item.amount, 0);
+
+  return {
+    hourlyBase,
+    lines,
+    overtimeAllowance: sumOf('overtime'),
+    lateNightAllowance: sumOf('lateNight')
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * paidLeaveObligation のユニットテスト。
+ *
+ * 対象: getObligationDeadline / getDesignationNonWorkingReason / evaluatePaidLeaveObligation / buildPaidLeaveLedgerCsv
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（年5日の有給取得義務）
+ *
+ * 10日以上の付与の付与日を基準日とし、1年以内に承認済みの有給を5日取得しているかを判定する（時間単位の有給は含めない）。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getObligationDeadline,
+  getDesignationNonWorkingReason,
+  evaluatePaidLeaveObligation,
+  buildPaidLeaveLedgerCsv,
+  DESIGNATED_LEAVE_REASON,
+  type LeaveRequestLike
+} from './paidLeaveObligation';
+
+const leave = (startDate: string, days: number, overrides: Partial<LeaveRequestLike> = {}): LeaveRequestLike => ({
+  startDate,
+  endDate: startDate,
+  days,
+  leaveType: 'paid',
+  status: 'approved',
+  reason: '私用',
+  isHalfDay: false,
+  ...overrides
+});
+
+describe('getObligationDeadline', () => {
+  it('基準日から1年後の前日を期限とする', () => {
+    expect(getObligationDeadline('2025-04-01')).toBe('2026-03-31');
+    expect(getObligationDeadline('2024-03-01')).toBe('2025-02-28');
+  });
+});
+
+describe('getDesignationNonWorkingReason', () => {
+  it('土日・国民の祝日・会社休日は時季指定できない日としてその名称を返す', () => {
+    const companyHolidays = [{ name: '夏季休業', startDate: '2025-08-13', endDate: '2025-08-15' }];
+    expect(getDesignationNonWorkingReason('2025-06-10', companyHolidays)).toBeNull();
+    expect(getDesignationNonWorkingReason('2025-06-14', companyHolidays)).toBe('土曜日');
+    expect(getDesignationNonWorkingReason('2025-06-15', companyHolidays)).toBe('日曜日');
+    expect(getDesignationNonWorkingReason('2025-05-05', companyHolidays)).toBe('こどもの日');
+    expect(getDesignationNonWorkingReason('2025-08-14', companyHolidays)).toBe('夏季休業');
+  });
+});
+
+describe('evaluatePaidLeaveObligation', () => {
+  const grants = [
+    { grantDate: '2024-10-01', grantDays: 10 },
+    { grantDate: '2025-10-01', grantDays: 11 }
+  ];
+
+  it('直近の10日以上の付与を基準日とし、承認済みの日単位・半日単位の有給だけを数える', () => {
+    const status = evaluatePaidLeaveObligation(
+      grants,
+      [
+        leave('2025-09-30', 1),
+        leave('2025-10-10', 1),
+        leave('2025-11-04', 0.5, { isHalfDay: true }),
+        leave('2025-12-01', 1, { status: 'pending' }),
+        leave('2025-12-02', 1, { leaveType: 'special' }),
+        leave('2025-12-03', 0.25, { isHourly: true })
+      ],
+      '2026-01-15'
+    );
+    expect(status).toMatchObject({
+      baseDate: '2025-10-01',
+      deadline: '2026-09-30',
+      grantDays: 11,
+      takenDays: 1.5,
+      requiredDays: 3.5,
+      daysUntilDeadline: 258,
+      state: 'inProgress'
+    });
+  });
+
+  it('未達のまま期限が近づくと期限間近、5日取得で達成', () => {
+    expect(evaluatePaidLeaveObligation(grants, [leave('2026-01-05', 2)], '2026-08-15').state).toBe('urgent');
+    expect(evaluatePaidLeaveObligation(grants, [leave('2026-01-05', 5)], '2026-08-15').state).toBe('fulfilled');
+  });
+
+  it('10日未満の付与のみの場合は対象外', () => {
+    const status = evaluatePaidLeaveObligation([{ grantDate: '2025-10-01', grantDays: 7 }], [], '2026-01-15');
+    expect(status.state).toBe('notApplicable');
+    expect(status.baseDate).toBeNull();
+  });
+});
+
+describe('buildPaidLeaveLedgerCsv', () => {
+  it('取得ごとに1行で時季指定を区別し、取得なしの従業員も出力する', () => {
+    const grants = [{ grantDate: '2025-04-01', grantDays: 10 }];
+    const csv = buildPaidLeaveLedgerCsv([
+      {
+        employeeId: '1',
+        employeeName: '山田 太郎',
+        remainingDays: 8,
+        status: evaluatePaidLeaveObligation(grants, [
+          leave('2025-05-01', 1),
+          leave('2025-06-02', 1, { reason: DESIGNATED_LEAVE_REASON })
+        ], '2025-07-01')
+      },
+      { employeeId: '2', employeeName: '鈴木 花子', remainingDays: 10, status: evaluatePaidLeaveObligation(grants, [], '2025-07-01') },
+      { employeeId: '3', employeeName: '佐藤 次郎', remainingDays: null, status: evaluatePaidLeaveObligation([], [], '2025-07-01') }
+    ]);
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      '従業員ID,氏名,基準日,付与日数,取得期限,取得日（時季）,取得日数,取得区分,取得日数合計,残日数',
+      '1,山田 太郎,2025-04-01,10,2026-03-31,2025-05-01,1,本人申請,2,8',
+      '1,山田 太郎,2025-04-01,10,2026-03-31,2025-06-02,1,時季指定,2,8',
+      '2,鈴木 花子,2025-04-01,10,2026-03-31,,,,0,10',
+      ''
+    ]);
+  });
+});
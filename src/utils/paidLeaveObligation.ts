@@ -0,0 +1,222 @@
+/**
+ * 年5日の年次有給休暇の確実な取得（労基法39条7項）の管理ユーティリティ。
+ *
+ * - 対象: 1回の付与日数が10日以上の付与。付与日を基準日とし、基準日から1年以内に5日を取得させる
+ * - 取得日数: 基準日〜期限に開始する承認済みの有給申請の日数（半日は申請の日数どおり0.5日）。
+ *   時間単位の有給は年5日に含めない
+ * - 判定には直近の対象付与（基準日が判定日以前のもの）を使う
+ * - 年次有給休暇管理簿（時季・日数・基準日）をCSVで出力する
+ * - 時季指定は所定労働日のみとし、土日・国民の祝日・会社休日は指定できない
+ */
+
+import type { PaidLeaveBalanceGrant } from './paidLeaveApi';
+import type { LeaveRequest } from './leaveRequestApi';
+import { getHolidayName, type CompanyHolidayLike } from './holidayCalendar';
+import { escapeCsvCell } from './csvExport';
+
+/** 1年間に取得させる日数 */
+export const PAID_LEAVE_OBLIGATION_DAYS = 5;
+
+/** 取得義務の対象となる1回の付与日数 */
+export const PAID_LEAVE_OBLIGATION_MIN_GRANT_DAYS = 10;
+
+/** 期限までの残りがこの日数以下で未達の場合は「期限間近」とする */
+export const PAID_LEAVE_OBLIGATION_URGENT_DAYS = 60;
+
+/** 時季指定で登録する休暇申請の理由（管理簿で申請による取得と区別する） */
+export const DESIGNATED_LEAVE_REASON = '時季指定（年5日の取得義務）';
+
+/** 取得義務の状況（notApplicable: 対象外 / fulfilled: 達成 / inProgress: 取得中 / urgent: 期限間近 / overdue: 期限超過） */
+export type PaidLeaveObligationState = 'notApplicable' | 'fulfilled' | 'inProgress' | 'urgent' | 'overdue';
+
+/** 取得義務の状況の表示名 */
+export const PAID_LEAVE_OBLIGATION_STATE_LABELS: Record<PaidLeaveObligationState, string> = {
+  notApplicable: '対象外',
+  fulfilled: '達成',
+  inProgress: '取得中',
+  urgent: '期限間近',
+  overdue: '期限超過'
+};
+
+/** 判定に必要な休暇申請の項目 */
+export type LeaveRequestLike = Pick<LeaveRequest, 'startDate' | 'endDate' | 'days' | 'leaveType' | 'status' | 'reason' | 'isHalfDay' | 'isHourly'>;
+
+/** 1人分の取得義務の状況 */
+export interface PaidLeaveObligationStatus {
+  /** 基準日（対象付与の付与日、YYYY-MM-DD）。対象外は null */
+  baseDate: string | null;
+  /** 取得期限（基準日から1年後の前日、YYYY-MM-DD）。対象外は null */
+  deadline: string | null;
+  /** 対象付与の付与日数 */
+  grantDays: number;
+  /** 期間内の取得日数 */
+  takenDays: number;
+  /** 期限までに取得させる残りの日数 */
+  requiredDays: number;
+  /** 期限までの日数（期限当日は0、超過は負数） */
+  daysUntilDeadline: number | null;
+  /** 期間内に取得した休暇（開始日の昇順） */
+  takenLeaves: LeaveRequestLike[];
+  state: PaidLeaveObligationState;
+}
+
+const parseYmd = (ymd: string): Date => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const toYmd = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 基準日から1年以内の最終日（1年後の前日）を返す。
+ *
+ * @param {string} baseDate - 基準日（YYYY-MM-DD）。
+ * @returns {string} 取得期限（YYYY-MM-DD）。
+ */
+export function getObligationDeadline(baseDate: string): string {
+  const base = parseYmd(baseDate);
+  return toYmd(new Date(base.getFullYear() + 1, base.getMonth(), base.getDate() - 1));
+}
+
+/**
+ * 時季指定できない日（所定休日）の名称を返す。
+ * 有給休暇は労働義務のある日に取得させるため、土日・国民の祝日・会社休日には指定できない。
+ *
+ * @param {string} ymd - 指定日（YYYY-MM-DD）。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日。
+ * @returns {string | null} 祝日名・会社休日名・土曜日・日曜日。所定労働日は null。
+ */
+export function getDesignationNonWorkingReason(ymd: string, companyHolidays: CompanyHolidayLike[] = []): string | null {
+  const holidayName = getHolidayName(ymd, companyHolidays);
+  if (holidayName) return holidayName;
+  const dow = parseYmd(ymd).getDay();
+  if (dow === 0) return '日曜日';
+  if (dow === 6) return '土曜日';
+  return null;
+}
+
+/**
+ * 判定日時点で取得義務の対象となる付与（10日以上で基準日が判定日以前の最新のもの）を返す。
+ *
+ * @param {Array<Pick<PaidLeaveBalanceGrant, 'grantDate' | 'grantDays'>>} grants - 付与の一覧。
+ * @param {string} today - 判定日（YYYY-MM-DD）。
+ * @returns {Pick<PaidLeaveBalanceGrant, 'grantDate' | 'grantDays'> | null} 対象の付与。無ければ null。
+ */
+export function findObligationGrant<T extends Pick<PaidLeaveBalanceGrant, 'grantDate' | 'grantDays'>>(
+  grants: T[],
+  today: string
+): T | null {
+  const eligible = grants
+    .filter(grant => grant.grantDays >= PAID_LEAVE_OBLIGATION_MIN_GRANT_DAYS && grant.grantDate <= today)
+    .sort((a, b) => b.grantDate.localeCompare(a.grantDate));
+  return eligible[0] ?? null;
+}
+
+/**
+ * 判定日時点の年5日の取得義務の状況を返す。
+ *
+ * @param {Array<Pick<PaidLeaveBalanceGrant, 'grantDate' | 'grantDays'>>} grants - 付与の一覧（{@link PaidLeaveBalanceGrant}）。
+ * @param {LeaveRequestLike[]} requests - 従業員の休暇申請。
+ * @param {string} today - 判定日（YYYY-MM-DD）。
+ * @returns {PaidLeaveObligationStatus} 取得義務の状況。
+ */
+export function evaluatePaidLeaveObligation(
+  grants: Array<Pick<PaidLeaveBalanceGrant, 'grantDate' | 'grantDays'>>,
+  requests: LeaveRequestLike[],
+  today: string
+): PaidLeaveObligationStatus {
+  const grant = findObligationGrant(grants, today);
+  if (!grant) {
+    return {
+      baseDate: null,
+      deadline: null,
+      grantDays: 0,
+      takenDays: 0,
+      requiredDays: 0,
+      daysUntilDeadline: null,
+      takenLeaves: [],
+      state: 'notApplicable'
+    };
+  }
+
+  const deadline = getObligationDeadline(grant.grantDate);
+  const takenLeaves = requests
+    .filter(r =>
+      r.leaveType === 'paid' &&
+      r.status === 'approved' &&
+      !r.isHourly &&
+      r.startDate >= grant.grantDate &&
+      r.startDate <= deadline
+    )
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const takenDays = takenLeaves.reduce((sum, r) => sum + r.days, 0);
+  const requiredDays = Math.max(0, PAID_LEAVE_OBLIGATION_DAYS - takenDays);
+  const daysUntilDeadline = Math.round((parseYmd(deadline).getTime() - parseYmd(today).getTime()) / 86400000);
+
+  let state: PaidLeaveObligationState = 'inProgress';
+  if (requiredDays === 0) state = 'fulfilled';
+  else if (daysUntilDeadline < 0) state = 'overdue';
+  else if (daysUntilDeadline <= PAID_LEAVE_OBLIGATION_URGENT_DAYS) state = 'urgent';
+
+  return {
+    baseDate: grant.grantDate,
+    deadline,
+    grantDays: grant.grantDays,
+    takenDays,
+    requiredDays,
+    daysUntilDeadline,
+    takenLeaves,
+    state
+  };
+}
+
+/** 管理簿の1人分 */
+export interface PaidLeaveLedgerEntry {
+  employeeId: string;
+  employeeName: string;
+  status: PaidLeaveObligationStatus;
+  /** 対象付与の残日数 */
+  remainingDays: number | null;
+}
+
+/** 管理簿の見出し */
+export const PAID_LEAVE_LEDGER_HEADERS = [
+  '従業員ID',
+  '氏名',
+  '基準日',
+  '付与日数',
+  '取得期限',
+  '取得日（時季）',
+  '取得日数',
+  '取得区分',
+  '取得日数合計',
+  '残日数'
+];
+
+/**
+ * 年次有給休暇管理簿（時季・日数・基準日）をCSV（Excelで開けるようBOM付き、CRLF）で作成する。
+ * 取得した休暇ごとに1行とし、取得が無い従業員も1行出力する。対象外の従業員は出力しない。
+ *
+ * @param {PaidLeaveLedgerEntry[]} entries - 従業員ごとの取得義務の状況。
+ * @returns {string} CSV文字列。
+ */
+export function buildPaidLeaveLedgerCsv(entries: PaidLeaveLedgerEntry[]): string {
+  const rows: Array<Array<string | number | null>> = [PAID_LEAVE_LEDGER_HEADERS];
+  entries
+    .filter(entry => entry.status.state !== 'notApplicable')
+    .forEach(({ employeeId, employeeName, status, remainingDays }) => {
+      const common = [employeeId, employeeName, status.baseDate, status.grantDays, status.deadline];
+      const summary = [status.takenDays, remainingDays];
+      if (status.takenLeaves.length === 0) {
+        rows.push([...common, null, null, null, ...summary]);
+        return;
+      }
+      status.takenLeaves.forEach(leave => {
+        const period = leave.startDate === leave.endDate ? leave.startDate : `${leave.startDate}〜${leave.endDate}`;
+        const kind = leave.reason === DESIGNATED_LEAVE_REASON ? '時季指定' : '本人申請';
+        rows.push([...common, leave.isHalfDay ? `${period}（半日）` : period, leave.days, kind, ...summary]);
+      });
+    });
+  return `\uFEFF${rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')}\r\n`;
+}
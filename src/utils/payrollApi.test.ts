@@ -0,0 +1,43 @@
+/**
+ * payrollApi のユニットテスト。
+ *
+ * 対象: getPayrollList
+ * 設計書: attendance-workspace/docs/api/ENDPOINTS.md（給与明細）
+ *
+ * apiRequest（config/apiConfig）をモックし、従業員・年度・明細の状態をクエリパラメータで渡し、
+ * レスポンスの records を返すことを検証する。
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { apiRequest } from '../config/apiConfig';
+import { getPayrollList } from './payrollApi';
+
+// apiConfig.apiRequest をモック化（実ネットワークを避ける）。
+vi.mock('../config/apiConfig', () => ({
+  apiRequest: vi.fn(),
+}));
+
+const mockedApiRequest = vi.mocked(apiRequest);
+
+/** fetch の Response 風モックを作る。 */
+const okResponse = (body: unknown) =>
+  ({ ok: true, json: async () => body } as unknown as Response);
+
+describe('getPayrollList', () => {
+  beforeEach(() => {
+    mockedApiRequest.mockReset();
+    mockedApiRequest.mockResolvedValue(okResponse({ statusCode: 200, message: 'success', data: { records: [{ payrollId: 'P1' }] } }));
+  });
+
+  it('従業員・年度を指定して GET /api/v1/payroll を叩き records を返す', async () => {
+    const result = await getPayrollList('E001', 2025);
+
+    expect(mockedApiRequest).toHaveBeenCalledWith('/api/v1/payroll?employeeId=E001&fiscalYear=2025', { method: 'GET' });
+    expect(result).toEqual([{ payrollId: 'P1' }]);
+  });
+
+  it('明細の状態を指定した場合は status をカンマ区切りで渡す', async () => {
+    await getPayrollList('E001', 2025, ['published', 'locked']);
+
+    expect(mockedApiRequest).toHaveBeenCalledWith('/api/v1/payroll?employeeId=E001&fiscalYear=2025&status=published%2Clocked', { method: 'GET' });
+  });
+});
@@ -6,6 +6,16 @@ import { apiRequest } from '../config/apiConfig';
 import { error as logError } from './logger';
 import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
 
+/**
+ * 給与明細の状態
+ * - draft: 下書き（従業員には表示しない）
+ * - confirmed: 確定（内容を確認済み。従業員には表示しない）
+ * - published: 公開済（従業員の給与明細画面に表示する）
+ * - locked: ロック（振込データ作成後。編集できず、訂正は調整明細で行う）
+ * 状態が返らない明細は下書きとして扱う。
+ */
+export type PayrollStatementStatus = 'draft' | 'confirmed' | 'published' | 'locked';
+
 /**
  * 給与明細APIレスポンスの型定義
  */
@@ -15,6 +25,9 @@ export interface PayrollApiResponse {
   month: number;
   statementType: 'salary' | 'bonus';
   detail: PayrollDetailResponse;
+  status?: PayrollStatementStatus;
+  /** 調整明細の場合、訂正元（ロック済み）の給与明細ID */
+  adjustsPayrollId?: string | null;
   updatedBy?: string | null;
   updatedAt?: string;
 }
@@ -27,6 +40,10 @@ export interface PayrollDetailResponse {
   paidLeaveRemainingDate: string;
   normalOvertime: number;
   lateNightOvertime: number;
+  /** 法定休日労働（分・深夜帯を含む）— 任意 */
+  legalHolidayWork?: number;
+  /** 法定休日労働のうち深夜帯（分）— 任意 */
+  legalHolidayLateNight?: number;
   /** 総稼働（分） */
   totalWorkMinutes: number;
   /** 打刻のみの稼働（分・小数可）— 任意 */
@@ -60,6 +77,9 @@ export interface PayrollListResponse {
   totalDeductions: number;
   netPay: number;
   memo?: string | null;
+  status?: PayrollStatementStatus;
+  /** 調整明細の場合、訂正元（ロック済み）の給与明細ID */
+  adjustsPayrollId?: string | null;
   updatedBy?: string | null;
   updatedAt?: string;
 }
@@ -76,19 +96,32 @@ export interface PayrollDetailByPeriodResponse {
   month: number;
   statementType: 'salary' | 'bonus';
   detail: PayrollDetailResponse;
+  status?: PayrollStatementStatus;
   updatedBy?: string | null;
   updatedAt?: string | null;
 }
 
+/**
+ * 給与明細がロックされた給与期間（従業員・締め月ごと）
+ * 給与明細（賞与明細を除く）がロックされた締め月の勤怠は、修正に理由が必要になる。
+ */
+export interface PayrollPeriodLock {
+  employeeId: string;
+  year: number;
+  month: number;
+}
+
 /**
  * 給与明細一覧取得
  * @param employeeId 従業員ID
  * @param fiscalYear 年度（オプション）
+ * @param statuses 取得する明細の状態（オプション。従業員の明細一覧では公開済・ロックのみを取得する）
  * @returns 給与明細一覧
  */
 export const getPayrollList = async (
   employeeId: string,
-  fiscalYear?: number
+  fiscalYear?: number,
+  statuses?: PayrollStatementStatus[]
 ): Promise<PayrollListResponse[]> => {
   try {
     const params = new URLSearchParams();
@@ -96,6 +129,9 @@ export const getPayrollList = async (
     if (fiscalYear !== undefined) {
       params.append('fiscalYear', fiscalYear.toString());
     }
+    if (statuses && statuses.length > 0) {
+      params.append('status', statuses.join(','));
+    }
 
     const response = await apiRequest(`/api/v1/payroll?${params.toString()}`, {
       method: 'GET',
@@ -185,6 +221,8 @@ export const createPayroll = async (payload: {
   month: number;
   statementType: 'salary' | 'bonus';
   detail: PayrollDetailResponse;
+  /** 調整明細を作成する場合、訂正元（ロック済み）の給与明細ID */
+  adjustsPayrollId?: string;
 }): Promise<void> => {
   try {
     const response = await apiRequest('/api/v1/payroll', {
@@ -235,6 +273,63 @@ export const updatePayroll = async (
   }
 };
 
+/**
+ * 給与明細の状態更新
+ * 公開すると従業員の給与明細画面に表示される。ロックした明細は元に戻せない。
+ * @param payrollId 給与明細ID
+ * @param status 変更後の状態
+ */
+export const updatePayrollStatus = async (
+  payrollId: string,
+  status: PayrollStatementStatus
+): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/payroll/${payrollId}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to update payroll status:', error);
+    throw error;
+  }
+};
+
+/**
+ * 給与明細がロックされた給与期間の取得
+ * @param startDate 開始日（YYYY-MM-DD）
+ * @param endDate 終了日（YYYY-MM-DD）
+ * @returns 期間に掛かる締め月のうち、給与明細がロックされた従業員・締め月
+ */
+export const getPayrollLocks = async (
+  startDate: string,
+  endDate: string
+): Promise<PayrollPeriodLock[]> => {
+  try {
+    const params = new URLSearchParams({ startDate, endDate });
+    const response = await apiRequest(`/api/v1/payroll/locks?${params.toString()}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.locks ?? [];
+  } catch (error) {
+    logError('Failed to fetch payroll locks:', error);
+    throw error;
+  }
+};
+
 /**
  * yearとmonthからperiod文字列を生成（UI表示用）
  * @param year 年
@@ -277,6 +372,8 @@ export const convertPayrollListResponseToRecord = (
   companyName: string;
   period: string;
   memo?: string | null;
+  status: PayrollStatementStatus;
+  adjustsPayrollId?: string | null;
   updatedAt?: string;
   updatedBy?: string | null;
   totalEarnings: number;
@@ -293,6 +390,8 @@ export const convertPayrollListResponseToRecord = (
     companyName,
     period: formatPeriod(response.year, response.month),
     memo: response.memo,
+    status: response.status ?? 'draft',
+    adjustsPayrollId: response.adjustsPayrollId,
     updatedAt: response.updatedAt,
     updatedBy: response.updatedBy,
     totalEarnings: response.totalEarnings,
@@ -320,6 +419,8 @@ export const convertPayrollApiResponseToRecord = (
   period: string;
   memo?: string | null;
   detail: PayrollDetailResponse;
+  status?: PayrollStatementStatus;
+  adjustsPayrollId?: string | null;
   updatedAt?: string;
   updatedBy?: string | null;
   payrollSource?: 'snapshot' | 'computed';
@@ -335,6 +436,8 @@ export const convertPayrollApiResponseToRecord = (
     period: formatPeriod(response.year, response.month),
     memo: undefined, // 詳細レスポンスには含まれない場合がある
     detail: response.detail,
+    status: response.status,
+    adjustsPayrollId: response.adjustsPayrollId,
     updatedAt: response.updatedAt,
     updatedBy: response.updatedBy,
     payrollSource: 'snapshot' as const
@@ -360,6 +463,7 @@ export const convertPayrollDetailByPeriodToRecord = (
   period: string;
   memo?: string | null;
   detail: PayrollDetailResponse;
+  status?: PayrollStatementStatus;
   updatedAt?: string;
   updatedBy?: string | null;
   payrollSource: 'snapshot' | 'computed';
@@ -375,6 +479,7 @@ export const convertPayrollDetailByPeriodToRecord = (
     period: formatPeriod(response.year, response.month),
     memo: undefined,
     detail: response.detail,
+    status: response.status,
     updatedAt: response.updatedAt ?? undefined,
     updatedBy: response.updatedBy ?? undefined,
     payrollSource: response.source
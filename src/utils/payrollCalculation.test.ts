@@ -0,0 +1,217 @@
+/**
+ * payrollCalculation のユニットテスト。
+ *
+ * 対象: calculateBaseSalary / calculateSalaryOvertimeRate / recalculateSalaryDetail
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細・給与の一括計算）
+ *
+ * 給与の一括計算で登録する明細は、給与明細画面で作成する明細と同じ基本給・割増・社会保険料・所得税になる。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBaseSalary,
+  calculateSalaryIncomeTax,
+  calculateSalaryOvertimeRate,
+  calculateSalarySocialInsurance,
+  getMonthlyPrescribedMinutes,
+  overtimeMinutesOfDetail,
+  recalculateSalaryDetail,
+  type SalaryCalculationContext
+} from './payrollCalculation';
+import { calculateOvertimePremiums } from './overtimePremium';
+import { getWithholdingTaxTable } from '../config/withholdingTaxTables';
+import type { EmployeeResponse } from './employeeApi';
+import type { PayrollDetailResponse } from './payrollApi';
+
+const employee = {
+  id: 'E001',
+  employmentType: 'FULL_TIME',
+  baseSalary: 300000,
+  prescribedWorkHours: 7.5,
+  withholdingColumn: 'KOU',
+  dependents: 1,
+  birthDate: '1980-05-10',
+  socialInsurance: {
+    healthInsuranceEnrolled: true,
+    employmentInsuranceEnrolled: true,
+    prefecture: '東京都',
+    standardRemunerations: [{ effectiveFrom: '2025-09', remuneration: 310000, healthGrade: 23, reason: 'ANNUAL' }]
+  }
+} as unknown as EmployeeResponse;
+
+const context: SalaryCalculationContext = {
+  employee,
+  year: 2025,
+  month: 10,
+  allowanceMasters: [
+    { id: 'A1', name: '役職手当', includeInOvertime: true },
+    { id: 'A2', name: '通勤手当', includeInOvertime: false }
+  ],
+  deductionMasters: [
+    { id: 'D1', name: '健康保険' },
+    { id: 'D2', name: '介護保険' },
+    { id: 'D3', name: '厚生年金' },
+    { id: 'D4', name: '雇用保険' },
+    { id: 'D5', name: '所得税' },
+    { id: 'D6', name: '住民税' }
+  ],
+  companyHolidays: [],
+  insuranceRates: [{
+    effectiveFrom: '2025-03',
+    prefecture: '東京都',
+    healthInsuranceRate: 9.91,
+    nursingCareRate: 1.59,
+    pensionRate: 18.3,
+    employmentInsuranceRate: 0.55
+  }],
+  withholdingTable: getWithholdingTaxTable('2025-10-01')
+};
+
+/** 勤怠集計のプレビュー（時間外70時間。金額は API の計算のまま） */
+const computedDetail = {
+  workingDays: 21,
+  holidayWork: 0,
+  paidLeave: 0,
+  paidLeaveRemaining: 10,
+  paidLeaveRemainingDate: '',
+  normalOvertime: 70 * 60,
+  lateNightOvertime: 120,
+  legalHolidayWork: 0,
+  legalHolidayLateNight: 0,
+  totalWorkMinutes: 240 * 60,
+  baseSalary: 300000,
+  overtimeAllowance: 150000,
+  lateNightAllowance: 5000,
+  mealAllowance: 0,
+  commutingAllowance: 0,
+  housingAllowance: 0,
+  allowances: [{ name: '役職手当', amount: 20000 }, { name: '通勤手当', amount: 10000 }],
+  totalEarnings: 485000,
+  socialInsurance: 0,
+  employeePension: 0,
+  employmentInsurance: 0,
+  municipalTax: 0,
+  incomeTax: 0,
+  deductions: [{ name: '住民税', amount: 15000 }],
+  totalDeductions: 15000,
+  netPay: 470000
+} as PayrollDetailResponse;
+
+describe('calculateBaseSalary', () => {
+  it('パートタイムは時給 × 稼働時間、正社員は月額基本給', () => {
+    expect(calculateBaseSalary({ employmentType: 'PART_TIME', baseSalary: 1200 }, 90 * 60 + 30)).toBe(108600);
+    expect(calculateBaseSalary({ employmentType: 'FULL_TIME', baseSalary: 300000 }, 90 * 60)).toBe(300000);
+    expect(calculateBaseSalary(null, 90 * 60)).toBe(0);
+  });
+});
+
+describe('calculateSalaryOvertimeRate', () => {
+  it('残業代に含む手当のみを基本給に加えて残業単価を求める', () => {
+    expect(calculateSalaryOvertimeRate(employee, 300000, { A1: 20000, A2: 10000 }, context.allowanceMasters, 160 * 60)).toBe(2000);
+  });
+
+  it('パートタイムは時給に残業代に含む手当の時間換算を加える（稼働時間で計算した基本給は使わない）', () => {
+    const partTimer = { employmentType: 'PART_TIME' as const, baseSalary: 1200 };
+    // 手当 8,000円 ÷ 月平均所定労働時間 82時間（1日4時間の契約）= 97.56… → 98円
+    expect(calculateSalaryOvertimeRate(partTimer, 1200 * 100, { A1: 8000, A2: 10000 }, context.allowanceMasters, 82 * 60)).toBe(1298);
+    expect(calculateSalaryOvertimeRate(partTimer, 1200 * 100, {}, context.allowanceMasters, 82 * 60)).toBe(1200);
+  });
+});
+
+describe('recalculateSalaryDetail', () => {
+  it('時間外手当を月60時間超の割増で計算し直し、社会保険料・所得税を控除に設定する', () => {
+    const result = recalculateSalaryDetail(computedDetail, context);
+    const hourlyBase = calculateSalaryOvertimeRate(
+      employee,
+      300000,
+      { A1: 20000 },
+      context.allowanceMasters,
+      getMonthlyPrescribedMinutes(employee, 2025, [])
+    );
+    const premiums = calculateOvertimePremiums(hourlyBase, overtimeMinutesOfDetail(computedDetail));
+    expect(premiums.lines.map(line => line.label)).toContain('時間外労働（月60時間超）');
+    expect(result.overtimeAllowance).toBe(premiums.overtimeAllowance);
+    expect(result.lateNightAllowance).toBe(premiums.lateNightAllowance);
+    expect(result.totalEarnings).toBe(300000 + premiums.overtimeAllowance + premiums.lateNightAllowance + 30000);
+    expect(result.deductions.map(deduction => deduction.name)).toEqual(['住民税', '健康保険', '介護保険', '厚生年金', '雇用保険', '所得税']);
+    expect(result.deductions.find(deduction => deduction.name === '住民税')?.amount).toBe(15000);
+    expect(result.deductions.every(deduction => deduction.amount > 0)).toBe(true);
+    expect(result.totalDeductions).toBe(result.deductions.reduce((sum, deduction) => sum + deduction.amount, 0));
+    expect(result.netPay).toBe(result.totalEarnings - result.totalDeductions);
+  });
+
+  it('給与明細画面の計算（手当・控除を控除IDで持つフォーム）と同じ明細になる', () => {
+    // 給与明細画面: 基本給・割増 → 総支給額 → 社会保険料の自動入力 → 所得税の自動計算
+    const formAllowances: Record<string, number> = { A1: 20000, A2: 10000 };
+    const formDeductions: Record<string, number> = { D6: 15000 };
+    const baseSalary = calculateBaseSalary(employee, computedDetail.totalWorkMinutes);
+    const overtimeRate = calculateSalaryOvertimeRate(
+      employee,
+      baseSalary,
+      formAllowances,
+      context.allowanceMasters,
+      getMonthlyPrescribedMinutes(employee, context.year, context.companyHolidays)
+    );
+    const { overtimeAllowance, lateNightAllowance } = calculateOvertimePremiums(overtimeRate, overtimeMinutesOfDetail(computedDetail));
+    const totalEarnings = baseSalary + overtimeAllowance + lateNightAllowance +
+      Object.values(formAllowances).reduce((sum, amount) => sum + amount, 0);
+    const socialInsurance = calculateSalarySocialInsurance(
+      employee,
+      context.insuranceRates,
+      context.deductionMasters,
+      context.year,
+      context.month,
+      totalEarnings
+    );
+    Object.assign(formDeductions, socialInsurance?.values);
+    const incomeTax = calculateSalaryIncomeTax(
+      employee,
+      context.withholdingTable,
+      totalEarnings,
+      context.allowanceMasters.map(a => ({ name: a.name, amount: formAllowances[a.id] || 0 })),
+      context.deductionMasters.map(d => ({ name: d.name, amount: formDeductions[d.id] || 0 }))
+    );
+    formDeductions.D5 = incomeTax?.result.tax ?? 0;
+    const totalDeductions = Object.values(formDeductions).reduce((sum, amount) => sum + amount, 0);
+
+    const result = recalculateSalaryDetail(computedDetail, context);
+    expect(result).toMatchObject({
+      baseSalary,
+      overtimeAllowance,
+      lateNightAllowance,
+      totalEarnings,
+      totalDeductions,
+      netPay: totalEarnings - totalDeductions
+    });
+    context.deductionMasters.forEach(master => {
+      expect(result.deductions.find(deduction => deduction.name === master.name)?.amount ?? 0).toBe(formDeductions[master.id] ?? 0);
+    });
+  });
+
+  it('パートタイム（1日4時間の契約）の時間外手当は時給 × 125% で計算する', () => {
+    const partTimer = {
+      ...employee,
+      employmentType: 'PART_TIME',
+      baseSalary: 1200,
+      prescribedWorkHours: 4,
+      workContracts: [{ effectiveFrom: '2025-04-01', prescribedWorkHours: 4 }]
+    } as EmployeeResponse;
+    const detail = {
+      ...computedDetail,
+      totalWorkMinutes: 100 * 60,
+      normalOvertime: 10 * 60,
+      lateNightOvertime: 0,
+      allowances: [{ name: '通勤手当', amount: 10000 }]
+    } as PayrollDetailResponse;
+
+    const result = recalculateSalaryDetail(detail, { ...context, employee: partTimer });
+    expect(result.baseSalary).toBe(120000);
+    expect(result.overtimeAllowance).toBe(1200 * 10 * 1.25);
+    expect(result.lateNightAllowance).toBe(0);
+  });
+
+  it('保険料率・税額表が無い場合は控除の金額を変更しない', () => {
+    const result = recalculateSalaryDetail(computedDetail, { ...context, insuranceRates: [], withholdingTable: null });
+    expect(result.deductions).toEqual([{ name: '住民税', amount: 15000 }]);
+    expect(result.totalDeductions).toBe(15000);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * 給与明細（給与）の金額の計算ユーティリティ。
+ *
+ * - 給与明細画面と給与一括計算画面は、このユーティリティで同じ計算を行う
+ * - 基本給: パートタイムは時給 × 稼働時間、正社員は月額基本給
+ * - 時間外手当・深夜手当: 残業単価（基本給 + 残業代に含む手当 ÷ 月平均所定労働時間）に割増率を掛ける（overtimePremium）
+ *   パートタイム（時給制）の残業単価は時給 + 残業代に含む手当の時間換算（基本給は時間外の時間を含む稼働時間で計算済みのため）
+ * - 社会保険料: 標準報酬月額と都道府県の保険料率から計算し、控除マスタの項目に割り当てる
+ * - 所得税: 源泉徴収税額表の月額表で、社会保険料等控除後の金額から計算する
+ * - 計算できない項目（保険料率・標準報酬月額の未登録、税額表に該当する行が無い等）は元の金額のままにする
+ */
+
+import { formatCurrency } from './formatters';
+import { calculateOvertimeHourlyBase, calculateOvertimePremiums, type OvertimeMinutes } from './overtimePremium';
+import { monthlyAveragePrescribedWorkMinutes } from './payrollPeriod';
+import {
+  allocatePremiumsToDeductions,
+  calculateSocialInsurancePremiums,
+  gradeToDecision,
+  isNursingCareInsured,
+  resolveInsuranceRate,
+  resolveStandardRemuneration,
+  type InsuranceRateLike
+} from './socialInsurance';
+import {
+  calculateMonthlyWithholdingTax,
+  calculateTaxableAmount,
+  INCOME_TAX_DEDUCTION_NAME,
+  type WithholdingTaxResult,
+  type WithholdingTaxTable
+} from './withholdingTax';
+import type { CompanyHolidayLike } from './holidayCalendar';
+import type { EmployeeResponse } from './employeeApi';
+import type { PayrollDetailResponse } from './payrollApi';
+
+/** 手当マスタの項目（残業代に含む判定用） */
+export interface PayrollAllowanceMaster {
+  id: string;
+  name: string;
+  includeInOvertime?: boolean;
+}
+
+/** 控除マスタの項目 */
+export interface PayrollDeductionMaster {
+  id: string;
+  name: string;
+}
+
+/** 給与明細の計算に使う従業員・マスタ */
+export interface SalaryCalculationContext {
+  employee: EmployeeResponse;
+  /** 締め月の年 */
+  year: number;
+  /** 締め月の月 */
+  month: number;
+  allowanceMasters: PayrollAllowanceMaster[];
+  deductionMasters: PayrollDeductionMaster[];
+  companyHolidays: CompanyHolidayLike[];
+  insuranceRates: InsuranceRateLike[];
+  /** 支給月に有効な源泉徴収税額表。無い場合は所得税を計算しない */
+  withholdingTable: WithholdingTaxTable | null;
+}
+
+/**
+ * 基本給を求める。
+ *
+ * @param {Pick<EmployeeResponse, 'employmentType' | 'baseSalary'> | null} employee - 従業員。
+ * @param {number} totalWorkMinutes - 稼働時間（分、パートタイムの基本給の計算に使う）。
+ * @returns {number} 基本給（パートタイムは時給 × 稼働時間を四捨五入、正社員は月額基本給）。
+ */
+export function calculateBaseSalary(
+  employee: Pick<EmployeeResponse, 'employmentType' | 'baseSalary'> | null,
+  totalWorkMinutes: number
+): number {
+  if (employee?.employmentType === 'PART_TIME') {
+    return Math.round((employee.baseSalary || 0) * (totalWorkMinutes / 60));
+  }
+  return employee?.baseSalary || 0;
+}
+
+/**
+ * 従業員の月平均所定労働時間（分）を求める。
+ * 所定労働時間の契約履歴から、締め月の暦年の所定労働時間を合計して12で割る（年の途中の契約変更に対応）。
+ *
+ * @param {Pick<EmployeeResponse, 'workContracts' | 'prescribedWorkHours'> | null} employee - 従業員。
+ * @param {number} year - 締め月の年。
+ * @param {CompanyHolidayLike[]} companyHolidays - 会社休日。
+ * @returns {number} 月平均所定労働時間（分）。契約が無い場合は1日 7:30 で計算する。
+ */
+export function getMonthlyPrescribedMinutes(
+  employee: Pick<EmployeeResponse, 'workContracts' | 'prescribedWorkHours'> | null,
+  year: number,
+  companyHolidays: CompanyHolidayLike[]
+): number {
+  return monthlyAveragePrescribedWorkMinutes(
+    year,
+    employee?.workContracts ?? [],
+    companyHolidays,
+    employee?.prescribedWorkHours
+  );
+}
+
+/**
+ * 残業単価を求める。
+ * 月給制は (基本給 + 残業代に含む手当) ÷ 月平均所定労働時間、
+ * 時給制（パートタイム）は 時給 + 残業代に含む手当 ÷ 月平均所定労働時間。
+ *
+ * @param {Pick<EmployeeResponse, 'employmentType' | 'baseSalary'> | null} employee - 従業員（パートタイムの時給）。
+ * @param {number} baseSalary - 基本給（月給制の残業単価の計算に使う）。
+ * @param {Record<string, number>} allowanceAmounts - 手当IDごとの金額。
+ * @param {PayrollAllowanceMaster[]} allowanceMasters - 手当マスタ。
+ * @param {number} monthlyPrescribedMinutes - 月平均所定労働時間（分）。
+ * @returns {number} 残業単価（円/時間、1円未満切上げ）。
+ */
+export function calculateSalaryOvertimeRate(
+  employee: Pick<EmployeeResponse, 'employmentType' | 'baseSalary'> | null,
+  baseSalary: number,
+  allowanceAmounts: Record<string, number>,
+  allowanceMasters: PayrollAllowanceMaster[],
+  monthlyPrescribedMinutes: number
+): number {
+  const allowancesForOvertime = allowanceMasters
+    .filter(allowance => allowance.includeInOvertime)
+    .reduce((sum, allowance) => sum + (allowanceAmounts[allowance.id] || 0), 0);
+  if (employee?.employmentType === 'PART_TIME') {
+    return (employee.baseSalary || 0) + calculateOvertimeHourlyBase(allowancesForOvertime, monthlyPrescribedMinutes);
+  }
+  return calculateOvertimeHourlyBase(baseSalary + allowancesForOvertime, monthlyPrescribedMinutes);
+}
+
+/**
+ * 標準報酬月額・保険料率から社会保険料を計算し、控除マスタの項目に割り当てる。
+ * 健康保険・厚生年金は標準報酬月額が、雇用保険はその月の総支給額が計算の基礎となる。
+ *
+ * @param {Pick<EmployeeResponse, 'socialInsurance' | 'birthDate'> | null} employee - 従業員。
+ * @param {InsuranceRateLike[]} insuranceRates - 保険料率の一覧。
+ * @param {PayrollDeductionMaster[]} deductionMasters - 控除マスタ。
+ * @param {number} year - 年。
+ * @param {number} month - 月。
+ * @param {number} wage - 総支給額。
+ * @returns {{ values: Record<string, number>; note: string } | null} 控除IDごとの計算値と計算の根拠。社会保険の設定・保険料率が無い場合は null。
+ */
+export function calculateSalarySocialInsurance(
+  employee: Pick<EmployeeResponse, 'socialInsurance' | 'birthDate'> | null,
+  insuranceRates: InsuranceRateLike[],
+  deductionMasters: PayrollDeductionMaster[],
+  year: number,
+  month: number,
+  wage: number
+): { values: Record<string, number>; note: string } | null {
+  const settings = employee?.socialInsurance;
+  if (!settings) return null;
+  const rate = resolveInsuranceRate(insuranceRates, settings.prefecture, year, month);
+  if (!rate) return null;
+  const standard = settings.healthInsuranceEnrolled
+    ? resolveStandardRemuneration(settings.standardRemunerations, year, month)
+    : null;
+  const nursingCare = isNursingCareInsured(employee?.birthDate, year, month);
+  const premiums = calculateSocialInsurancePremiums({
+    healthGrade: standard?.healthGrade ?? 1,
+    rate,
+    nursingCare,
+    wage,
+    healthInsuranceEnrolled: !!standard,
+    employmentInsuranceEnrolled: settings.employmentInsuranceEnrolled
+  });
+  const values = allocatePremiumsToDeductions(premiums, deductionMasters, {
+    health: !!standard,
+    employment: settings.employmentInsuranceEnrolled
+  });
+  const notes: string[] = [];
+  if (standard) {
+    const decision = gradeToDecision(standard.healthGrade);
+    notes.push(`標準報酬月額 ${formatCurrency(decision.healthAmount)}（健保${decision.healthGrade}級・厚年${decision.pensionGrade}級）${nursingCare ? '・介護保険あり' : ''}`);
+  } else if (settings.healthInsuranceEnrolled) {
+    notes.push('標準報酬月額が未登録のため健康保険・厚生年金は手入力');
+  }
+  notes.push(`${rate.prefecture}の保険料率`);
+  return { values, note: notes.join(' / ') };
+}
+
+/**
+ * 給与の所得税（源泉徴収税額）を月額表で計算する。
+ *
+ * @param {Pick<EmployeeResponse, 'withholdingColumn' | 'dependents'> | null} employee - 従業員（甲欄・乙欄と扶養親族等の数）。
+ * @param {WithholdingTaxTable | null} table - 支給月に有効な源泉徴収税額表。
+ * @param {number} totalEarnings - 総支給額。
+ * @param {Array<{ name: string; amount: number }>} allowances - 手当の内訳。
+ * @param {Array<{ name: string; amount: number }>} deductions - 控除の内訳（社会保険料を含む）。
+ * @returns {{ result: WithholdingTaxResult; taxable: number } | null} 計算結果と課税対象額。税額表が無いか該当する行が無い場合は null。
+ */
+export function calculateSalaryIncomeTax(
+  employee: Pick<EmployeeResponse, 'withholdingColumn' | 'dependents'> | null,
+  table: WithholdingTaxTable | null,
+  totalEarnings: number,
+  allowances: Array<{ name: string; amount: number }>,
+  deductions: Array<{ name: string; amount: number }>
+): { result: WithholdingTaxResult; taxable: number } | null {
+  if (!table) return null;
+  const column = employee?.withholdingColumn ?? 'KOU';
+  const dependents = column === 'KOU' ? employee?.dependents ?? 0 : 0;
+  const taxable = calculateTaxableAmount(totalEarnings, allowances, deductions);
+  const result = calculateMonthlyWithholdingTax(table, taxable, column, dependents);
+  return result ? { result, taxable } : null;
+}
+
+/**
+ * 給与明細の勤務情報から割増の対象となる時間を取り出す。
+ *
+ * @param {Pick<PayrollDetailResponse, 'normalOvertime' | 'lateNightOvertime' | 'legalHolidayWork' | 'legalHolidayLateNight'>} detail - 給与明細の勤務情報（分）。
+ * @returns {OvertimeMinutes} 割増の対象となる時間（分）。
+ */
+export function overtimeMinutesOfDetail(
+  detail: Pick<PayrollDetailResponse, 'normalOvertime' | 'lateNightOvertime' | 'legalHolidayWork' | 'legalHolidayLateNight'>
+): OvertimeMinutes {
+  return {
+    overtime: detail.normalOvertime || 0,
+    lateNightOvertime: detail.lateNightOvertime || 0,
+    legalHolidayWork: detail.legalHolidayWork || 0,
+    legalHolidayLateNight: detail.legalHolidayLateNight || 0
+  };
+}
+
+/**
+ * 給与明細（API形式）の金額を、給与明細画面と同じ計算で求め直す。
+ * 勤務情報（稼働時間・時間外等の時間）と手当・控除の金額はそのまま使い、
+ * 基本給・時間外手当・深夜手当・社会保険料・所得税と合計を計算する。
+ *
+ * @param {PayrollDetailResponse} detail - 給与明細（勤怠集計のプレビュー等）。
+ * @param {SalaryCalculationContext} context - 従業員・マスタ。
+ * @returns {PayrollDetailResponse} 計算後の給与明細。
+ */
+export function recalculateSalaryDetail(
+  detail: PayrollDetailResponse,
+  context: SalaryCalculationContext
+): PayrollDetailResponse {
+  const { employee, year, month, allowanceMasters, deductionMasters } = context;
+  const allowances = detail.allowances ?? [];
+  const amountByName = (items: Array<{ name: string; amount: number }>, name: string): number =>
+    items.find(item => item.name === name)?.amount || 0;
+
+  const baseSalary = calculateBaseSalary(employee, detail.totalWorkMinutes || 0);
+  const allowanceAmounts = Object.fromEntries(
+    allowanceMasters.map(allowance => [allowance.id, amountByName(allowances, allowance.name)])
+  );
+  const hourlyBase = calculateSalaryOvertimeRate(
+    employee,
+    baseSalary,
+    allowanceAmounts,
+    allowanceMasters,
+    getMonthlyPrescribedMinutes(employee, year, context.companyHolidays)
+  );
+  const { overtimeAllowance, lateNightAllowance } = calculateOvertimePremiums(hourlyBase, overtimeMinutesOfDetail(detail));
+  const allowanceTotal = allowances.reduce((sum, allowance) => sum + (allowance.amount || 0), 0);
+  const totalEarnings = baseSalary + overtimeAllowance + lateNightAllowance + allowanceTotal;
+
+  // 控除は控除マスタの項目を名称で対応付けて、計算した社会保険料・所得税で置き換える
+  let deductions = detail.deductions ?? [];
+  const replaceDeduction = (deductionId: string, amount: number) => {
+    const master = deductionMasters.find(deduction => deduction.id === deductionId);
+    if (!master) return;
+    deductions = deductions.some(deduction => deduction.name === master.name)
+      ? deductions.map(deduction => (deduction.name === master.name ? { ...deduction, amount } : deduction))
+      : [...deductions, { name: master.name, amount }];
+  };
+  const socialInsurance = calculateSalarySocialInsurance(employee, context.insuranceRates, deductionMasters, year, month, totalEarnings);
+  Object.entries(socialInsurance?.values ?? {}).forEach(([deductionId, amount]) => replaceDeduction(deductionId, amount));
+
+  const incomeTaxDeduction = deductionMasters.find(deduction => deduction.name === INCOME_TAX_DEDUCTION_NAME);
+  if (incomeTaxDeduction) {
+    const incomeTax = calculateSalaryIncomeTax(employee, context.withholdingTable, totalEarnings, allowances, deductions);
+    if (incomeTax) replaceDeduction(incomeTaxDeduction.id, incomeTax.result.tax);
+  }
+
+  const totalDeductions = deductions.reduce((sum, deduction) => sum + (deduction.amount || 0), 0);
+  return {
+    ...detail,
+    baseSalary,
+    overtimeAllowance,
+    lateNightAllowance,
+    totalEarnings,
+    deductions,
+    totalDeductions,
+    netPay: totalEarnings - totalDeductions
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * 給与締め日設定API呼び出しユーティリティ
+ * 会社単位の締め日（15日締め・20日締め・末日締め 等）を適用開始月つきの履歴として管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+
+/**
+ * 締め日。1〜28 の日付、または末日締めを表す `'END_OF_MONTH'`。
+ * 29〜31日締めは月によって存在しないため受け付けない（末日締めを使う）。
+ */
+export type PayrollClosingDay = number | 'END_OF_MONTH';
+
+/**
+ * 給与締め日設定1件（履歴）を表すインターフェース
+ */
+export interface PayrollClosingRule {
+  id: string;
+  /** 締め日。 */
+  closingDay: PayrollClosingDay;
+  /** 適用開始の締め月（YYYY-MM）。この月以降を締め月とする給与期間に適用する。 */
+  effectiveFrom: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 給与締め日設定一覧取得レスポンス
+ */
+export interface PayrollClosingRuleListResponse {
+  rules: PayrollClosingRule[];
+  total: number;
+}
+
+/**
+ * 給与締め日設定作成リクエスト
+ */
+export interface CreatePayrollClosingRuleRequest {
+  closingDay: PayrollClosingDay;
+  effectiveFrom: string;
+}
+
+/**
+ * 給与締め日設定一覧取得
+ * @returns 締め日設定の履歴（適用開始月の昇順とは限らない）
+ */
+export const getPayrollClosingRules = async (): Promise<PayrollClosingRuleListResponse> => {
+  try {
+    const response = await apiRequest('/api/v1/payroll-closing-rules', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data || { rules: [], total: 0 };
+  } catch (error) {
+    logError('Failed to fetch payroll closing rules:', error);
+    throw error;
+  }
+};
+
+/**
+ * 給与締め日設定作成
+ * 同じ適用開始月の設定が既にある場合、API側で 409 が返る。
+ * @param payload 締め日と適用開始月
+ * @returns 作成された締め日設定
+ */
+export const createPayrollClosingRule = async (
+  payload: CreatePayrollClosingRuleRequest
+): Promise<PayrollClosingRule> => {
+  try {
+    const response = await apiRequest('/api/v1/payroll-closing-rules', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create payroll closing rule:', error);
+    throw error;
+  }
+};
+
+/**
+ * 給与締め日設定削除
+ * 適用開始前の予約設定を取り消す用途。過去の期間に適用済みの設定はAPI側で拒否される。
+ * @param ruleId 締め日設定ID
+ */
+export const deletePayrollClosingRule = async (ruleId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/payroll-closing-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete payroll closing rule:', error);
+    throw error;
+  }
+};
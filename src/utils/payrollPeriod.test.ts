@@ -0,0 +1,117 @@
+/**
+ * payrollPeriod の締め日設定対応のユニットテスト。
+ *
+ * 対象: getPayrollPeriodBounds / getPayrollClosingYearMonthFromDate / resolvePayrollClosingDay、
+ *       所定労働時間の契約（prescribedWorkingMinutesFromScheduledWeekdays / monthlyAveragePrescribedWorkMinutes）
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（出勤簿・給与明細の対象期間）
+ *
+ * 締め日は会社単位で適用開始月つきの履歴を持つ。適用開始より前の期間は元の締め日のまま、
+ * 切替月は前月の締め日の翌日から始まり、期間の重複・欠落が起きないことを固定する。
+ * 所定労働時間は従業員ごとの契約履歴で、期間途中の契約変更は所定労働日ごとに按分する。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getPayrollPeriodBounds,
+  getPayrollClosingYearMonthFromDate,
+  resolvePayrollClosingDay,
+  enumeratePayrollPeriodDates,
+  listScheduledWorkDates,
+  prescribedWorkingMinutesFromScheduledWeekdays,
+  monthlyAveragePrescribedWorkMinutes,
+  resolvePrescribedWorkMinutesPerDay
+} from './payrollPeriod';
+
+describe('getPayrollPeriodBounds', () => {
+  it('設定が無い場合は従来どおり前月26日〜当月25日', () => {
+    expect(getPayrollPeriodBounds(2025, 10)).toEqual({ startDate: '2025-09-26', endDate: '2025-10-25' });
+    expect(getPayrollPeriodBounds(2025, 1)).toEqual({ startDate: '2024-12-26', endDate: '2025-01-25' });
+  });
+
+  it('末日締めは当月1日〜当月末日（うるう年の2月を含む）', () => {
+    const rules = [{ closingDay: 'END_OF_MONTH' as const, effectiveFrom: '2000-01' }];
+    expect(getPayrollPeriodBounds(2024, 2, rules)).toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+    expect(getPayrollPeriodBounds(2025, 3, rules)).toEqual({ startDate: '2025-03-01', endDate: '2025-03-31' });
+  });
+
+  it('15日締めは前月16日〜当月15日', () => {
+    const rules = [{ closingDay: 15, effectiveFrom: '2000-01' }];
+    expect(getPayrollPeriodBounds(2025, 3, rules)).toEqual({ startDate: '2025-02-16', endDate: '2025-03-15' });
+  });
+
+  it('適用開始より前の期間は元の締め日のまま、切替月は前月締め日の翌日から始まる', () => {
+    const rules = [
+      { closingDay: 25, effectiveFrom: '2000-01' },
+      { closingDay: 'END_OF_MONTH' as const, effectiveFrom: '2025-11' }
+    ];
+    expect(getPayrollPeriodBounds(2025, 10, rules)).toEqual({ startDate: '2025-09-26', endDate: '2025-10-25' });
+    expect(getPayrollPeriodBounds(2025, 11, rules)).toEqual({ startDate: '2025-10-26', endDate: '2025-11-30' });
+    expect(getPayrollPeriodBounds(2025, 12, rules)).toEqual({ startDate: '2025-12-01', endDate: '2025-12-31' });
+    // 切替前後で日付の重複・欠落がない
+    const dates = [10, 11, 12].flatMap(m => enumeratePayrollPeriodDates(2025, m, rules));
+    expect(new Set(dates).size).toBe(dates.length);
+    expect(dates[0]).toBe('2025-09-26');
+    expect(dates[dates.length - 1]).toBe('2025-12-31');
+    expect(dates.length).toBe(97);
+  });
+});
+
+describe('resolvePayrollClosingDay', () => {
+  it('締め月以前で最も新しい適用開始月の設定を採用する（順不同）', () => {
+    const rules = [
+      { closingDay: 20, effectiveFrom: '2026-04' },
+      { closingDay: 15, effectiveFrom: '2025-01' }
+    ];
+    expect(resolvePayrollClosingDay(2024, 12, rules)).toBe(25);
+    expect(resolvePayrollClosingDay(2026, 3, rules)).toBe(15);
+    expect(resolvePayrollClosingDay(2026, 4, rules)).toBe(20);
+  });
+});
+
+describe('getPayrollClosingYearMonthFromDate', () => {
+  it('締め日を過ぎた日は翌月締めになる', () => {
+    const rules = [{ closingDay: 15, effectiveFrom: '2000-01' }];
+    expect(getPayrollClosingYearMonthFromDate(new Date(2025, 9, 15), rules)).toEqual({ year: 2025, month: 10 });
+    expect(getPayrollClosingYearMonthFromDate(new Date(2025, 9, 16), rules)).toEqual({ year: 2025, month: 11 });
+    expect(getPayrollClosingYearMonthFromDate(new Date(2025, 11, 20), rules)).toEqual({ year: 2026, month: 1 });
+  });
+
+  it('末日締めは常に当月', () => {
+    const rules = [{ closingDay: 'END_OF_MONTH' as const, effectiveFrom: '2000-01' }];
+    expect(getPayrollClosingYearMonthFromDate(new Date(2025, 9, 31), rules)).toEqual({ year: 2025, month: 10 });
+  });
+});
+
+describe('所定労働時間の契約', () => {
+  // 2025-06-26〜2025-07-25: 祝日（7/21 海の日）を除く所定労働日は 21 日、うち 7/1 以降は 18 日
+  const dates = listScheduledWorkDates('2025-06-26', '2025-07-25');
+
+  it('契約が無い場合は従業員の既定値、それも無ければ 7:30', () => {
+    expect(dates.length).toBe(21);
+    expect(prescribedWorkingMinutesFromScheduledWeekdays(dates)).toBe(21 * 450);
+    expect(prescribedWorkingMinutesFromScheduledWeekdays(dates, [], 4)).toBe(21 * 240);
+  });
+
+  it('期間途中の契約変更は適用開始日で按分する', () => {
+    const contracts = [
+      { effectiveFrom: '2024-04-01', prescribedWorkHours: 4 },
+      { effectiveFrom: '2025-07-01', prescribedWorkHours: 6 }
+    ];
+    expect(resolvePrescribedWorkMinutesPerDay('2025-06-30', contracts)).toBe(240);
+    expect(resolvePrescribedWorkMinutesPerDay('2025-07-01', contracts)).toBe(360);
+    expect(prescribedWorkingMinutesFromScheduledWeekdays(dates, contracts)).toBe(3 * 240 + 18 * 360);
+  });
+});
+
+describe('monthlyAveragePrescribedWorkMinutes', () => {
+  // 2025年: 土日・祝日を除く所定労働日は 246 日
+  it('年間の所定労働時間を 12 で割る', () => {
+    expect(listScheduledWorkDates('2025-01-01', '2025-12-31').length).toBe(246);
+    expect(monthlyAveragePrescribedWorkMinutes(2025)).toBeCloseTo(246 * 450 / 12);
+    expect(monthlyAveragePrescribedWorkMinutes(2025, [], [], 8)).toBeCloseTo(246 * 480 / 12);
+  });
+
+  it('会社休日は所定労働日から除く', () => {
+    const companyHolidays = [{ name: '年末休暇', startDate: '2025-12-29', endDate: '2025-12-30' }];
+    expect(monthlyAveragePrescribedWorkMinutes(2025, [], companyHolidays)).toBeCloseTo(244 * 450 / 12);
+  });
+});
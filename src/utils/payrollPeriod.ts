@@ -1,29 +1,89 @@
 /**
- * 給与・出勤簿で共通する「前月26日〜当月25日」の期間ユーティリティ。
- * 表示上の「○年○月」は締め日が当月25日となる月（給与計算の対象月）。
+ * 給与・出勤簿で共通する給与期間ユーティリティ。
+ * 表示上の「○年○月」は締め日が属する月（給与計算の対象月＝締め月）。
+ * 締め日は会社単位の設定（`payrollClosingApi`）で、適用開始月つきの履歴を持つ。
+ * 設定が無い場合は従来どおり「前月26日〜当月25日」（25日締め）とする。
  */
 
 import type { AttendanceLog, AttendanceSummary, DailyLaborRow } from './attendanceApi';
+import type { PayrollClosingDay, PayrollClosingRule } from './payrollClosingApi';
+import type { PrescribedWorkContract } from './employeeApi';
+import { isNonWorkingDay, type CompanyHolidayLike } from './holidayCalendar';
 
-/** 前月26日〜当月25日の開始・終了を YYYY-MM-DD で返す */
-export function getPayrollPeriodBounds(year: number, month: number): { startDate: string; endDate: string } {
+/** 締め日設定のうち、期間計算に必要な項目だけを持つ型 */
+export type PayrollClosingRuleLike = Pick<PayrollClosingRule, 'closingDay' | 'effectiveFrom'>;
+
+/** 締め日設定が1件も無い場合の締め日（25日締め） */
+export const DEFAULT_PAYROLL_CLOSING_DAY: PayrollClosingDay = 25;
+
+/**
+ * 指定の締め月に適用される締め日を返す。
+ * 適用開始月（effectiveFrom）が締め月以前の設定のうち、最も新しいものを採用する。
+ *
+ * @param {number} year - 締め月の年。
+ * @param {number} month - 締め月の月（1〜12）。
+ * @param {PayrollClosingRuleLike[]} rules - 締め日設定の履歴（順不同）。
+ * @returns {PayrollClosingDay} 適用される締め日。該当設定が無ければ25日。
+ */
+export function resolvePayrollClosingDay(
+  year: number,
+  month: number,
+  rules: PayrollClosingRuleLike[] = []
+): PayrollClosingDay {
+  const ym = `${year}-${String(month).padStart(2, '0')}`;
+  let resolved: PayrollClosingRuleLike | null = null;
+  for (const rule of rules) {
+    if (rule.effectiveFrom > ym) continue;
+    if (!resolved || rule.effectiveFrom > resolved.effectiveFrom) resolved = rule;
+  }
+  return resolved ? resolved.closingDay : DEFAULT_PAYROLL_CLOSING_DAY;
+}
+
+/** 締め月と締め日から締め日当日を YYYY-MM-DD で返す（29日以降の指定は月末に丸める） */
+function closingDateOf(year: number, month: number, closingDay: PayrollClosingDay): string {
+  const lastDay = new Date(year, month, 0).getDate();
+  const day = closingDay === 'END_OF_MONTH' ? lastDay : Math.min(closingDay, lastDay);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * 給与期間の開始・終了を YYYY-MM-DD で返す。
+ * 終了日は当月の締め日、開始日は前月の締め日（前月に適用される設定で算出）の翌日。
+ * 締め日変更の切替月は期間が伸び縮みするが、期間同士が重なったり抜けたりしない。
+ *
+ * @param {number} year - 締め月の年。
+ * @param {number} month - 締め月の月（1〜12）。
+ * @param {PayrollClosingRuleLike[]} rules - 締め日設定の履歴。省略時は25日締め。
+ * @returns {{ startDate: string; endDate: string }} 期間の開始日と終了日。
+ */
+export function getPayrollPeriodBounds(
+  year: number,
+  month: number,
+  rules: PayrollClosingRuleLike[] = []
+): { startDate: string; endDate: string } {
   const prevMonth = month === 1 ? 12 : month - 1;
   const prevYear = month === 1 ? year - 1 : year;
+  const prevClosing = parseYmd(
+    closingDateOf(prevYear, prevMonth, resolvePayrollClosingDay(prevYear, prevMonth, rules))
+  );
+  prevClosing.setDate(prevClosing.getDate() + 1);
   return {
-    startDate: `${prevYear}-${String(prevMonth).padStart(2, '0')}-26`,
-    endDate: `${year}-${String(month).padStart(2, '0')}-25`
+    startDate: formatYmd(prevClosing),
+    endDate: closingDateOf(year, month, resolvePayrollClosingDay(year, month, rules))
   };
 }
 
 /**
  * 指定日が属する給与期間の「締め月」（○年○月）を返す。
- * 26日以降は翌月締めの期間に入る。
+ * 当月の締め日を過ぎた日は翌月締めの期間に入る。
  */
-export function getPayrollClosingYearMonthFromDate(d: Date = new Date()): { year: number; month: number } {
+export function getPayrollClosingYearMonthFromDate(
+  d: Date = new Date(),
+  rules: PayrollClosingRuleLike[] = []
+): { year: number; month: number } {
   const y = d.getFullYear();
   const m = d.getMonth() + 1;
-  const day = d.getDate();
-  if (day >= 26) {
+  if (formatYmd(d) > getPayrollPeriodBounds(y, m, rules).endDate) {
     if (m === 12) return { year: y + 1, month: 1 };
     return { year: y, month: m + 1 };
   }
@@ -31,8 +91,12 @@ export function getPayrollClosingYearMonthFromDate(d: Date = new Date()): { year
 }
 
 /** 期間内の全日付を昇順で列挙 */
-export function enumeratePayrollPeriodDates(year: number, month: number): string[] {
-  const { startDate, endDate } = getPayrollPeriodBounds(year, month);
+export function enumeratePayrollPeriodDates(
+  year: number,
+  month: number,
+  rules: PayrollClosingRuleLike[] = []
+): string[] {
+  const { startDate, endDate } = getPayrollPeriodBounds(year, month, rules);
   const dates: string[] = [];
   const cur = parseYmd(startDate);
   const end = parseYmd(endDate);
@@ -52,21 +116,45 @@ function formatYmd(d: Date): string {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
 }
 
-/** 開始日〜終了日（含む）の平日（月〜金）の日数 */
-export function countWeekdaysBetweenInclusive(startDate: string, endDate: string): number {
+/**
+ * 開始日〜終了日（含む）の所定労働日を昇順で列挙する。
+ * 土日・国民の祝日（振替休日・国民の休日を含む）・会社休日を除く。
+ */
+export function listScheduledWorkDates(
+  startDate: string,
+  endDate: string,
+  companyHolidays: CompanyHolidayLike[] = []
+): string[] {
   const cur = parseYmd(startDate);
   const end = parseYmd(endDate);
-  let n = 0;
+  const dates: string[] = [];
   while (cur <= end) {
-    const w = cur.getDay();
-    if (w !== 0 && w !== 6) n += 1;
+    const ymd = formatYmd(cur);
+    if (!isNonWorkingDay(ymd, companyHolidays)) dates.push(ymd);
     cur.setDate(cur.getDate() + 1);
   }
-  return n;
+  return dates;
 }
 
-export function isDateInPayrollPeriod(ymd: string, year: number, month: number): boolean {
-  const { startDate, endDate } = getPayrollPeriodBounds(year, month);
+/**
+ * 開始日〜終了日（含む）の所定労働日数。
+ * 土日・国民の祝日（振替休日・国民の休日を含む）・会社休日を除いた日数を数える。
+ */
+export function countWeekdaysBetweenInclusive(
+  startDate: string,
+  endDate: string,
+  companyHolidays: CompanyHolidayLike[] = []
+): number {
+  return listScheduledWorkDates(startDate, endDate, companyHolidays).length;
+}
+
+export function isDateInPayrollPeriod(
+  ymd: string,
+  year: number,
+  month: number,
+  rules: PayrollClosingRuleLike[] = []
+): boolean {
+  const { startDate, endDate } = getPayrollPeriodBounds(year, month, rules);
   return ymd >= startDate && ymd <= endDate;
 }
 
@@ -78,24 +166,23 @@ export interface PayrollPeriodDayStats {
   holidayWorkingDays: number;
 }
 
+/**
+ * 休日（土日・祝日・会社休日）の判定は `holidayCalendar` に従う。
+ */
 export function computePayrollPeriodDayStats(
   logs: Array<{ date: string; clockIn?: string | null; clockOut?: string | null }>,
   startDate: string,
-  endDate: string
+  endDate: string,
+  companyHolidays: CompanyHolidayLike[] = []
 ): PayrollPeriodDayStats {
   const periodLogs = logs.filter(l => l.date >= startDate && l.date <= endDate);
   const workingDays = periodLogs.filter(log => log.clockIn && log.clockOut).length;
-  const weekdayWorkDays = periodLogs.filter(log => {
-    if (!log.clockIn || !log.clockOut) return false;
-    const dayOfWeek = new Date(log.date).getDay();
-    return dayOfWeek !== 0 && dayOfWeek !== 6;
-  }).length;
   const holidayWorkingDays = periodLogs.filter(log => {
     if (!log.clockIn || !log.clockOut) return false;
-    const dayOfWeek = new Date(log.date).getDay();
-    return dayOfWeek === 0 || dayOfWeek === 6;
+    return isNonWorkingDay(log.date, companyHolidays);
   }).length;
-  const prescribedWorkingDays = countWeekdaysBetweenInclusive(startDate, endDate);
+  const weekdayWorkDays = workingDays - holidayWorkingDays;
+  const prescribedWorkingDays = countWeekdaysBetweenInclusive(startDate, endDate, companyHolidays);
   return {
     prescribedWorkingDays,
     workingDays,
@@ -105,23 +192,93 @@ export function computePayrollPeriodDayStats(
 }
 
 /** 表示用: 「2025年9月26日 〜 2025年10月25日」 */
-export function formatPayrollPeriodRangeJapanese(year: number, month: number): string {
-  const { startDate, endDate } = getPayrollPeriodBounds(year, month);
+export function formatPayrollPeriodRangeJapanese(
+  year: number,
+  month: number,
+  rules: PayrollClosingRuleLike[] = []
+): string {
+  const { startDate, endDate } = getPayrollPeriodBounds(year, month, rules);
   const [sy, sm, sd] = startDate.split('-').map(Number);
   const [ey, em, ed] = endDate.split('-').map(Number);
   return `${sy}年${sm}月${sd}日 〜 ${ey}年${em}月${ed}日`;
 }
 
-/** 平日1日あたりの規定労働時間（7:30）を分で表した値 */
+/** 表示用: 締め日の呼称（「25日締め」「末日締め」） */
+export function formatPayrollClosingDayLabel(closingDay: PayrollClosingDay): string {
+  return closingDay === 'END_OF_MONTH' ? '末日締め' : `${closingDay}日締め`;
+}
+
+/** 表示用: 締め日に対応する期間の説明（「前月26日〜当月25日」「当月1日〜当月末日」） */
+export function describePayrollPeriodRule(closingDay: PayrollClosingDay): string {
+  if (closingDay === 'END_OF_MONTH') return '当月1日〜当月末日';
+  return `前月${closingDay + 1}日〜当月${closingDay}日`;
+}
+
+/** 所定労働時間の契約が登録されていない従業員の1日あたり規定労働時間（7:30）を分で表した値 */
 export const PRESCRIBED_WORK_MINUTES_PER_WEEKDAY = 7 * 60 + 30;
 
+/** 所定労働時間の契約のうち、期間計算に必要な項目だけを持つ型 */
+export type PrescribedWorkContractLike = Pick<PrescribedWorkContract, 'effectiveFrom' | 'prescribedWorkHours'>;
+
+/**
+ * 指定日に適用される1日の所定労働時間（分）を返す。
+ * 適用開始日が指定日以前の契約のうち最も新しいものを採用し、該当が無ければ
+ * 従業員の `prescribedWorkHours`、それも無ければ 7:30 とする。
+ *
+ * @param {string} ymd - YYYY-MM-DD。
+ * @param {PrescribedWorkContractLike[]} contracts - 所定労働時間の契約履歴（順不同）。
+ * @param {number | null} [fallbackHours] - 契約が無い場合の1日の所定労働時間（時間）。
+ * @returns {number} 1日の所定労働時間（分）。
+ */
+export function resolvePrescribedWorkMinutesPerDay(
+  ymd: string,
+  contracts: PrescribedWorkContractLike[] = [],
+  fallbackHours?: number | null
+): number {
+  let resolved: PrescribedWorkContractLike | null = null;
+  for (const contract of contracts) {
+    if (contract.effectiveFrom > ymd) continue;
+    if (!resolved || contract.effectiveFrom > resolved.effectiveFrom) resolved = contract;
+  }
+  const hours = resolved ? resolved.prescribedWorkHours : fallbackHours;
+  if (hours === undefined || hours === null || !Number.isFinite(hours) || hours <= 0) {
+    return PRESCRIBED_WORK_MINUTES_PER_WEEKDAY;
+  }
+  return Math.round(hours * 60);
+}
+
+/**
+ * 所定労働日ごとに、その日に適用される契約の所定労働時間を合計した規定稼働時間（分）。
+ * 期間途中で契約が変わった場合も、変更前後の日をそれぞれの契約で数える。
+ *
+ * @param {string[]} scheduledWorkDates - 所定労働日（`listScheduledWorkDates` の結果）。
+ * @param {PrescribedWorkContractLike[]} contracts - 所定労働時間の契約履歴。
+ * @param {number | null} [fallbackHours] - 契約が無い場合の1日の所定労働時間（時間）。
+ * @returns {number} 規定稼働時間（分）。
+ */
+export function prescribedWorkingMinutesFromScheduledWeekdays(
+  scheduledWorkDates: string[],
+  contracts: PrescribedWorkContractLike[] = [],
+  fallbackHours?: number | null
+): number {
+  return scheduledWorkDates.reduce(
+    (sum, ymd) => sum + resolvePrescribedWorkMinutesPerDay(ymd, contracts, fallbackHours),
+    0
+  );
+}
+
 /**
- * 所定労働日数（期間内の平日数）× 7:30 の規定稼働時間（分）
+ * 暦年（1月1日〜12月31日）の月平均所定労働時間（分）。残業単価の時間換算に使う。
+ * 年間の所定労働日ごとにその日の契約の所定労働時間を合計し、12 で割る。
  */
-export function prescribedWorkingMinutesFromScheduledWeekdays(scheduledWeekdays: number): number {
-  const n = Number(scheduledWeekdays);
-  if (!Number.isFinite(n) || n < 0) return 0;
-  return Math.floor(n) * PRESCRIBED_WORK_MINUTES_PER_WEEKDAY;
+export function monthlyAveragePrescribedWorkMinutes(
+  year: number,
+  contracts: PrescribedWorkContractLike[] = [],
+  companyHolidays: CompanyHolidayLike[] = [],
+  fallbackHours?: number | null
+): number {
+  const dates = listScheduledWorkDates(`${year}-01-01`, `${year}-12-31`, companyHolidays);
+  return prescribedWorkingMinutesFromScheduledWeekdays(dates, contracts, fallbackHours) / 12;
 }
 
 /**
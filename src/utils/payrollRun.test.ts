@@ -0,0 +1,47 @@
+/**
+ * payrollRun のユニットテスト。
+ *
+ * 対象: isEmployedInPayrollPeriod / getNetPaySwingRate / detectPayrollRunAnomalies
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与の一括計算）
+ *
+ * 一括計算の対象は給与期間に在籍している従業員で、登録前に出勤日数0日・差引支給額0円以下・
+ * 前月比20%を超える増減の明細を異常として示す。
+ */
+import { describe, it, expect } from 'vitest';
+import { isEmployedInPayrollPeriod, getNetPaySwingRate, detectPayrollRunAnomalies } from './payrollRun';
+
+describe('isEmployedInPayrollPeriod', () => {
+  it('期間中に1日でも在籍していれば対象にする', () => {
+    expect(isEmployedInPayrollPeriod({ joinDate: '2025-10-25', leaveDate: null }, '2025-09-26', '2025-10-25')).toBe(true);
+    expect(isEmployedInPayrollPeriod({ joinDate: '2020-04-01', leaveDate: '2025-09-26' }, '2025-09-26', '2025-10-25')).toBe(true);
+  });
+
+  it('期間後の入社・期間前の退職は対象外', () => {
+    expect(isEmployedInPayrollPeriod({ joinDate: '2025-10-26', leaveDate: null }, '2025-09-26', '2025-10-25')).toBe(false);
+    expect(isEmployedInPayrollPeriod({ joinDate: '2020-04-01', leaveDate: '2025-09-25' }, '2025-09-26', '2025-10-25')).toBe(false);
+  });
+});
+
+describe('getNetPaySwingRate', () => {
+  it('前月の明細が無い・前月が0円の場合は判定しない', () => {
+    expect(getNetPaySwingRate(200000, null)).toBeNull();
+    expect(getNetPaySwingRate(200000, 0)).toBeNull();
+    expect(getNetPaySwingRate(250000, 200000)).toBe(0.25);
+  });
+});
+
+describe('detectPayrollRunAnomalies', () => {
+  it('前月比は20%ちょうどまでは異常にしない', () => {
+    expect(detectPayrollRunAnomalies({ workingDays: 20, netPay: 240000 }, 200000)).toEqual([]);
+    expect(detectPayrollRunAnomalies({ workingDays: 20, netPay: 159000 }, 200000)).toEqual([
+      { type: 'netPaySwing', message: '差引支給額が前月比-20.5%' }
+    ]);
+  });
+
+  it('出勤日数0日・差引支給額0円以下を異常にする', () => {
+    expect(detectPayrollRunAnomalies({ workingDays: 0, netPay: 0 }, null).map(anomaly => anomaly.type)).toEqual([
+      'zeroWorkingDays',
+      'nonPositiveNetPay'
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 給与の一括計算（全従業員分の給与明細の一括登録）のユーティリティ。
+ *
+ * - 対象: 給与期間に在籍している従業員（入社日が期間末日以前で、退職日が無いか期間初日以降）
+ * - 各従業員の給与明細は勤怠集計のプレビュー（GET /api/v1/payroll/detail の computed）を、給与明細画面と同じ計算（payrollCalculation）で計算し直して登録する
+ * - 登録前に確認が必要な明細を異常として表示する（出勤日数0日・差引支給額0円以下・前月比20%を超える増減）
+ * - 前月比は前月に登録済みの給与明細（snapshot）がある場合のみ判定する
+ */
+
+import type { EmployeeResponse } from './employeeApi';
+import type { PayrollDetailResponse } from './payrollApi';
+
+/** 前月の差引支給額からの増減率がこの値を超える場合は異常とする */
+export const PAYROLL_RUN_NET_PAY_SWING_THRESHOLD = 0.2;
+
+/** 異常の種類（zeroWorkingDays: 出勤日数0日 / nonPositiveNetPay: 差引支給額0円以下 / netPaySwing: 前月比の大きな増減） */
+export type PayrollRunAnomalyType = 'zeroWorkingDays' | 'nonPositiveNetPay' | 'netPaySwing';
+
+/** 一括計算の確認画面に表示する異常 */
+export interface PayrollRunAnomaly {
+  type: PayrollRunAnomalyType;
+  /** 表示用の説明 */
+  message: string;
+}
+
+/**
+ * 給与期間に在籍しているかを返す。
+ *
+ * @param {Pick<EmployeeResponse, 'joinDate' | 'leaveDate'>} employee - 従業員。
+ * @param {string} startDate - 給与期間の初日（YYYY-MM-DD）。
+ * @param {string} endDate - 給与期間の末日（YYYY-MM-DD）。
+ * @returns {boolean} 期間中に1日でも在籍していれば true。
+ */
+export function isEmployedInPayrollPeriod(
+  employee: Pick<EmployeeResponse, 'joinDate' | 'leaveDate'>,
+  startDate: string,
+  endDate: string
+): boolean {
+  if (employee.joinDate && employee.joinDate > endDate) return false;
+  return !employee.leaveDate || employee.leaveDate >= startDate;
+}
+
+/**
+ * 前月の差引支給額からの増減率を返す。
+ *
+ * @param {number} netPay - 当月の差引支給額。
+ * @param {number | null} previousNetPay - 前月の差引支給額。前月の明細が無い場合は null。
+ * @returns {number | null} 増減率（0.25 = 25%増）。前月の明細が無いか前月が0円以下の場合は null。
+ */
+export function getNetPaySwingRate(netPay: number, previousNetPay: number | null): number | null {
+  if (previousNetPay === null || previousNetPay <= 0) return null;
+  return (netPay - previousNetPay) / previousNetPay;
+}
+
+/**
+ * 前月比の増減率を表示用の文字列にする。
+ *
+ * @param {number} rate - 増減率（0.25 = 25%増）。
+ * @returns {string} 小数第1位までの百分率（例: +25.0%、-20.5%）。
+ */
+export function formatNetPaySwingRate(rate: number): string {
+  return `${rate > 0 ? '+' : ''}${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * 一括計算した給与明細の異常を返す。
+ *
+ * @param {Pick<PayrollDetailResponse, 'workingDays' | 'netPay'>} detail - 当月の給与明細（計算結果）。
+ * @param {number | null} previousNetPay - 前月の差引支給額。前月の明細が無い場合は null。
+ * @returns {PayrollRunAnomaly[]} 異常の一覧（異常が無い場合は空配列）。
+ */
+export function detectPayrollRunAnomalies(
+  detail: Pick<PayrollDetailResponse, 'workingDays' | 'netPay'>,
+  previousNetPay: number | null
+): PayrollRunAnomaly[] {
+  const anomalies: PayrollRunAnomaly[] = [];
+  if (!detail.workingDays) {
+    anomalies.push({ type: 'zeroWorkingDays', message: '出勤日数が0日' });
+  }
+  if ((detail.netPay || 0) <= 0) {
+    anomalies.push({ type: 'nonPositiveNetPay', message: '差引支給額が0円以下' });
+  }
+  const swingRate = getNetPaySwingRate(detail.netPay || 0, previousNetPay);
+  if (swingRate !== null && Math.abs(swingRate) > PAYROLL_RUN_NET_PAY_SWING_THRESHOLD) {
+    anomalies.push({
+      type: 'netPaySwing',
+      message: `差引支給額が前月比${formatNetPaySwingRate(swingRate)}`
+    });
+  }
+  return anomalies;
+}
@@ -0,0 +1,65 @@
+/**
+ * payrollStatus のユニットテスト。
+ *
+ * 対象: canTransitionPayrollStatus / getPayrollStatusActions / getAdjustmentDifference / isWorkDateInLockedPayrollPeriod
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細）
+ *
+ * 明細は 下書き → 確定 → 公開 → ロック の順に進み、ロック後は状態を変更できない。
+ * ロックされた締め月の勤怠は、締め日設定に従って締め月を判定する。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionPayrollStatus,
+  getPayrollStatusActions,
+  getAdjustmentDifference,
+  isWorkDateInLockedPayrollPeriod
+} from './payrollStatus';
+
+describe('canTransitionPayrollStatus', () => {
+  it('下書きは確定のみ、ロックは公開済みからのみ、ロック後はどの状態にも変更できない', () => {
+    expect(canTransitionPayrollStatus('draft', 'confirmed')).toBe(true);
+    expect(canTransitionPayrollStatus('draft', 'published')).toBe(false);
+    expect(canTransitionPayrollStatus('published', 'locked')).toBe(true);
+    expect(canTransitionPayrollStatus('confirmed', 'locked')).toBe(false);
+    expect(canTransitionPayrollStatus('locked', 'confirmed')).toBe(false);
+    expect(canTransitionPayrollStatus('locked', 'draft')).toBe(false);
+  });
+});
+
+describe('getPayrollStatusActions', () => {
+  it('明細画面の操作にはロックを含めない（ロックは振込データ作成画面で行う）', () => {
+    expect(getPayrollStatusActions(undefined)).toEqual([{ status: 'confirmed', label: '確定する' }]);
+    expect(getPayrollStatusActions('confirmed').map(action => action.status)).toEqual(['draft', 'published']);
+    expect(getPayrollStatusActions('published')).toEqual([{ status: 'confirmed', label: '公開を取り消す' }]);
+    expect(getPayrollStatusActions('locked')).toEqual([]);
+  });
+});
+
+describe('getAdjustmentDifference', () => {
+  it('調整明細 − 訂正元 の差額を返す', () => {
+    expect(
+      getAdjustmentDifference(
+        { totalEarnings: 290000, totalDeductions: 21000, netPay: 269000 },
+        { totalEarnings: 280000, totalDeductions: 20000, netPay: 260000 }
+      )
+    ).toEqual({ totalEarnings: 10000, totalDeductions: 1000, netPay: 9000 });
+  });
+});
+
+describe('isWorkDateInLockedPayrollPeriod', () => {
+  const locks = [{ employeeId: 'E1', year: 2025, month: 10 }];
+
+  it('締め日の翌日からは翌月の締め月になる（25日締め）', () => {
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-09-26')).toBe(true);
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-10-25')).toBe(true);
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-10-26')).toBe(false);
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-09-25')).toBe(false);
+  });
+
+  it('他の従業員のロックは対象外で、締め日設定に従う', () => {
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E2', '2025-10-01')).toBe(false);
+    const rules = [{ closingDay: 15 as const, effectiveFrom: '2000-01' }];
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-10-15', rules)).toBe(true);
+    expect(isWorkDateInLockedPayrollPeriod(locks, 'E1', '2025-10-16', rules)).toBe(false);
+  });
+});
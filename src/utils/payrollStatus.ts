@@ -0,0 +1,102 @@
+/**
+ * 給与明細の状態（下書き → 確定 → 公開 → ロック）のユーティリティ。
+ *
+ * - 下書きを確定し、確定した明細を従業員に公開する（確定・公開は1つ前の状態に戻せる）
+ * - 振込データを作成した明細はロックし、以後は編集できない（API側でも拒否する）
+ * - ロックできるのは公開済みの明細のみ（ロックした明細は公開済みのまま従業員に表示される）
+ * - ロックした明細の訂正は、元の明細を変更せずに調整明細（訂正後の内容の明細）を作成して行う
+ * - 給与明細がロックされた締め月の勤怠は、修正に理由が必要になる
+ */
+
+import type { PayrollPeriodLock, PayrollStatementStatus } from './payrollApi';
+import { getPayrollClosingYearMonthFromDate, type PayrollClosingRuleLike } from './payrollPeriod';
+
+/** 状態ごとに変更できる状態 */
+export const PAYROLL_STATUS_TRANSITIONS: Record<PayrollStatementStatus, PayrollStatementStatus[]> = {
+  draft: ['confirmed'],
+  confirmed: ['draft', 'published'],
+  published: ['confirmed', 'locked'],
+  locked: []
+};
+
+/** 明細画面の状態変更ボタンの表示名（ロックは振込データ作成画面で行う） */
+const PAYROLL_STATUS_ACTION_LABELS: Partial<Record<PayrollStatementStatus, Partial<Record<PayrollStatementStatus, string>>>> = {
+  draft: { confirmed: '確定する' },
+  confirmed: { draft: '下書きに戻す', published: '公開する' },
+  published: { confirmed: '公開を取り消す' }
+};
+
+/**
+ * 明細の状態を変更できるかを返す。
+ *
+ * @param {PayrollStatementStatus} from - 現在の状態。
+ * @param {PayrollStatementStatus} to - 変更後の状態。
+ * @returns {boolean} 変更できるなら true。
+ */
+export function canTransitionPayrollStatus(from: PayrollStatementStatus, to: PayrollStatementStatus): boolean {
+  return PAYROLL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 明細画面に表示する状態変更の操作を返す。
+ *
+ * @param {PayrollStatementStatus | undefined} status - 現在の状態。未設定は下書き。
+ * @returns {Array<{ status: PayrollStatementStatus; label: string }>} 変更後の状態とボタンの表示名。
+ */
+export function getPayrollStatusActions(
+  status: PayrollStatementStatus | undefined
+): Array<{ status: PayrollStatementStatus; label: string }> {
+  const labels = PAYROLL_STATUS_ACTION_LABELS[status ?? 'draft'] ?? {};
+  return PAYROLL_STATUS_TRANSITIONS[status ?? 'draft']
+    .filter(next => labels[next])
+    .map(next => ({ status: next, label: labels[next] as string }));
+}
+
+/**
+ * 明細がロックされているか（編集できず、訂正は調整明細で行う）を返す。
+ *
+ * @param {PayrollStatementStatus | undefined} status - 明細の状態。
+ * @returns {boolean} ロックされているなら true。
+ */
+export function isPayrollStatementLocked(status: PayrollStatementStatus | undefined): boolean {
+  return status === 'locked';
+}
+
+/**
+ * 調整明細の訂正元の明細との差額を返す。
+ *
+ * @param {{ totalEarnings: number; totalDeductions: number; netPay: number }} adjustment - 調整明細。
+ * @param {{ totalEarnings: number; totalDeductions: number; netPay: number }} original - 訂正元の明細。
+ * @returns {{ totalEarnings: number; totalDeductions: number; netPay: number }} 調整明細 − 訂正元 の差額。
+ */
+export function getAdjustmentDifference(
+  adjustment: { totalEarnings: number; totalDeductions: number; netPay: number },
+  original: { totalEarnings: number; totalDeductions: number; netPay: number }
+): { totalEarnings: number; totalDeductions: number; netPay: number } {
+  return {
+    totalEarnings: adjustment.totalEarnings - original.totalEarnings,
+    totalDeductions: adjustment.totalDeductions - original.totalDeductions,
+    netPay: adjustment.netPay - original.netPay
+  };
+}
+
+/**
+ * 勤務日が給与明細のロックされた締め月に入るかを返す。
+ *
+ * @param {PayrollPeriodLock[]} locks - 給与明細がロックされた従業員・締め月。
+ * @param {string} employeeId - 従業員ID。
+ * @param {string} workDate - 勤務日（YYYY-MM-DD）。
+ * @param {PayrollClosingRuleLike[]} rules - 締め日設定の履歴。
+ * @returns {boolean} ロックされた締め月に入るなら true。
+ */
+export function isWorkDateInLockedPayrollPeriod(
+  locks: PayrollPeriodLock[],
+  employeeId: string,
+  workDate: string,
+  rules: PayrollClosingRuleLike[] = []
+): boolean {
+  const [y, m, d] = workDate.split('-').map(Number);
+  if (!y || !m || !d) return false;
+  const { year, month } = getPayrollClosingYearMonthFromDate(new Date(y, m - 1, d), rules);
+  return locks.some(lock => lock.employeeId === employeeId && lock.year === year && lock.month === month);
+}
@@ -0,0 +1,105 @@
+/**
+ * payslip のユニットテスト。
+ *
+ * 対象: isPublishedToEmployee / buildPayslipViewData
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細）
+ *
+ * 従業員には公開済・ロックの明細だけを表示し、明細書は管理者の給与明細画面と同じ項目の並びで作る。
+ */
+import { describe, it, expect } from 'vitest';
+import { isPublishedToEmployee, buildPayslipViewData } from './payslip';
+import type { PayrollApiResponse, PayrollDetailResponse } from './payrollApi';
+
+const detail: PayrollDetailResponse = {
+  workingDays: 20,
+  holidayWork: 1,
+  paidLeave: 2,
+  paidLeaveRemaining: 8,
+  paidLeaveRemainingDate: '2025-10-25',
+  normalOvertime: 600,
+  lateNightOvertime: 60,
+  totalWorkMinutes: 9600,
+  baseSalary: 250000,
+  overtimeAllowance: 20000,
+  lateNightAllowance: 0,
+  mealAllowance: 0,
+  commutingAllowance: 0,
+  housingAllowance: 0,
+  allowances: [
+    { name: '通勤手当', amount: 10000 },
+    { name: '資格手当', amount: 0 }
+  ],
+  totalEarnings: 280000,
+  socialInsurance: 0,
+  employeePension: 0,
+  employmentInsurance: 0,
+  municipalTax: 0,
+  incomeTax: 0,
+  deductions: [
+    { name: '健康保険', amount: 14000 },
+    { name: '所得税', amount: 6000 }
+  ],
+  totalDeductions: 20000,
+  netPay: 260000
+};
+
+const statement = (overrides: Partial<PayrollApiResponse> = {}): PayrollApiResponse => ({
+  payrollId: 'p1',
+  year: 2025,
+  month: 10,
+  statementType: 'salary',
+  detail,
+  status: 'published',
+  ...overrides
+});
+
+describe('isPublishedToEmployee', () => {
+  it('公開済・ロックの登録済明細だけを表示し、下書き・状態なし・計算プレビューは表示しない', () => {
+    expect(isPublishedToEmployee({ status: 'published' })).toBe(true);
+    expect(isPublishedToEmployee({ status: 'draft' })).toBe(false);
+    expect(isPublishedToEmployee({})).toBe(false);
+    expect(isPublishedToEmployee({ status: 'published', source: 'computed' })).toBe(false);
+    expect(isPublishedToEmployee({ status: 'locked' })).toBe(true);
+  });
+});
+
+describe('buildPayslipViewData', () => {
+  it('給与明細は勤務欄と基本給・時間外・深夜手当に続けて手当を並べる', () => {
+    const data = buildPayslipViewData(statement(), {
+      employeeName: '山田 太郎',
+      companyName: '株式会社サンプル',
+      periodRange: '2025年9月26日 〜 2025年10月25日'
+    });
+    expect(data.title).toBe('給与明細書');
+    expect(data.period).toBe('2025年 10月');
+    expect(data.periodRange).toBe('2025年9月26日 〜 2025年10月25日');
+    expect(data.attendance?.totalWorkMinutes).toBe(9600);
+    expect(data.earnings.map(line => line.label)).toEqual(['基本給', '時間外手当', '深夜手当', '通勤手当', '資格手当']);
+    expect(data.earnings.filter(line => line.alwaysShow).map(line => line.label)).toEqual(['基本給', '時間外手当', '深夜手当']);
+    expect(data.deductions).toEqual([
+      { label: '健康保険', amount: 14000 },
+      { label: '所得税', amount: 6000 }
+    ]);
+    expect([data.totalEarnings, data.totalDeductions, data.netPay]).toEqual([280000, 20000, 260000]);
+  });
+
+  it('賞与明細は勤務欄・給与計算期間を持たず、賞与額は baseSalary から取る', () => {
+    const data = buildPayslipViewData(statement({ statementType: 'bonus' }), {
+      employeeName: '山田 太郎',
+      companyName: '株式会社サンプル',
+      periodRange: '2025年9月26日 〜 2025年10月25日'
+    });
+    expect(data.title).toBe('賞与明細書');
+    expect(data.attendance).toBeNull();
+    expect(data.periodRange).toBeUndefined();
+    expect(data.earnings).toEqual([{ label: '賞与', amount: 250000, alwaysShow: true }]);
+  });
+
+  it('調整明細は見出しに「（調整）」を付ける', () => {
+    const data = buildPayslipViewData(statement({ status: 'locked', adjustsPayrollId: 'p0' }), {
+      employeeName: '山田 太郎',
+      companyName: '株式会社サンプル'
+    });
+    expect(data.title).toBe('給与明細書（調整）');
+  });
+});
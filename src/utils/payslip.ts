@@ -0,0 +1,128 @@
+/**
+ * 給与明細書・賞与明細書の表示データのユーティリティ。
+ *
+ * - 管理者の給与明細画面と従業員の給与明細画面は同じ表示データ（PayslipViewData）から明細書を描画する
+ * - 従業員には公開済・ロック（振込済み）の明細だけを表示する（下書き・確定・未登録の計算プレビュー（computed）は表示しない）
+ * - 調整明細は見出しに「（調整）」を付ける
+ * - 賞与明細は勤務欄を持たず、賞与額は detail.baseSalary（無い場合は手当の「賞与」）に入っている
+ */
+
+import type { PayrollApiResponse, PayrollStatementStatus } from './payrollApi';
+import { formatPeriod } from './payrollApi';
+import { getStatementTypeLabel } from './codeTranslator';
+
+/** 明細の1行（支給・控除の項目） */
+export interface PayslipLine {
+  /** 項目名 */
+  label: string;
+  /** 金額 */
+  amount: number;
+  /** 金額が0でも表示するかどうか（基本給など固定の項目） */
+  alwaysShow?: boolean;
+}
+
+/** 給与明細の勤務欄（時間は分） */
+export interface PayslipAttendance {
+  workingDays: number;
+  holidayWork: number;
+  paidLeave: number;
+  paidLeaveRemaining: number;
+  totalWorkMinutes: number;
+  normalOvertime: number;
+  lateNightOvertime: number;
+}
+
+/** 明細書に表示する内容 */
+export interface PayslipViewData {
+  /** 明細書の見出し（例: 給与明細書、賞与明細書） */
+  title: string;
+  companyName: string;
+  employeeName: string;
+  /** 給与期間（例: 2025年 10月） */
+  period: string;
+  /** 給与計算期間（例: 2025年9月26日 〜 2025年10月25日）。賞与明細では表示しない */
+  periodRange?: string;
+  /** 勤務欄。null の場合は賞与明細として支給・控除を縦に並べる */
+  attendance: PayslipAttendance | null;
+  /** 支給項目（金額が0の項目は alwaysShow でなければ表示しない） */
+  earnings: PayslipLine[];
+  totalEarnings: number;
+  /** 控除項目（金額が0の項目は表示しない） */
+  deductions: PayslipLine[];
+  totalDeductions: number;
+  netPay: number;
+}
+
+/** 従業員に表示する明細の状態（公開済・ロック。ロックは公開済みの明細のみに行う） */
+export const EMPLOYEE_VISIBLE_PAYROLL_STATUSES: PayrollStatementStatus[] = ['published', 'locked'];
+
+/**
+ * 明細を従業員に表示するかを返す。
+ *
+ * @param {{ status?: PayrollStatementStatus; source?: 'snapshot' | 'computed' }} statement - 明細。
+ * @returns {boolean} 公開済またはロックで、登録済の明細なら true。
+ */
+export function isPublishedToEmployee(statement: {
+  status?: PayrollStatementStatus;
+  source?: 'snapshot' | 'computed';
+}): boolean {
+  return statement.source !== 'computed' && !!statement.status && EMPLOYEE_VISIBLE_PAYROLL_STATUSES.includes(statement.status);
+}
+
+/**
+ * 明細書の見出しを返す。
+ *
+ * @param {'salary' | 'bonus'} statementType - 明細種別。
+ * @param {boolean} isAdjustment - 調整明細かどうか。
+ * @returns {string} 見出し（給与明細書・賞与明細書。調整明細は「（調整）」付き）。
+ */
+export function getPayslipTitle(statementType: 'salary' | 'bonus', isAdjustment = false): string {
+  return `${getStatementTypeLabel(statementType)}書${isAdjustment ? '（調整）' : ''}`;
+}
+
+/**
+ * 給与明細APIのレスポンスから明細書の表示データを作る。
+ *
+ * @param {PayrollApiResponse} statement - 給与明細。
+ * @param {{ employeeName: string; companyName: string; periodRange?: string }} options - 従業員名・会社名・給与計算期間。
+ * @returns {PayslipViewData} 明細書の表示データ。
+ */
+export function buildPayslipViewData(
+  statement: PayrollApiResponse,
+  options: { employeeName: string; companyName: string; periodRange?: string }
+): PayslipViewData {
+  const { detail } = statement;
+  const isBonus = statement.statementType === 'bonus';
+  const deductions = (detail.deductions ?? []).map(item => ({ label: item.name, amount: item.amount }));
+
+  return {
+    title: getPayslipTitle(statement.statementType, !!statement.adjustsPayrollId),
+    companyName: options.companyName,
+    employeeName: options.employeeName,
+    period: formatPeriod(statement.year, statement.month),
+    periodRange: isBonus ? undefined : options.periodRange,
+    attendance: isBonus
+      ? null
+      : {
+          workingDays: detail.workingDays,
+          holidayWork: detail.holidayWork,
+          paidLeave: detail.paidLeave,
+          paidLeaveRemaining: detail.paidLeaveRemaining,
+          totalWorkMinutes: detail.totalWorkMinutes,
+          normalOvertime: detail.normalOvertime,
+          lateNightOvertime: detail.lateNightOvertime
+        },
+    earnings: isBonus
+      ? [{ label: '賞与', amount: detail.baseSalary || detail.allowances?.find(item => item.name === '賞与')?.amount || 0, alwaysShow: true }]
+      : [
+          { label: '基本給', amount: detail.baseSalary, alwaysShow: true },
+          { label: '時間外手当', amount: detail.overtimeAllowance, alwaysShow: true },
+          { label: '深夜手当', amount: detail.lateNightAllowance, alwaysShow: true },
+          ...(detail.allowances ?? []).map(item => ({ label: item.name, amount: item.amount }))
+        ],
+    totalEarnings: detail.totalEarnings || 0,
+    deductions,
+    totalDeductions: detail.totalDeductions || 0,
+    netPay: detail.netPay || 0
+  };
+}
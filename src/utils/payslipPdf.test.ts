@@ -0,0 +1,47 @@
+/**
+ * payslipPdf のユニットテスト。
+ *
+ * 対象: buildPayslipAmountRows / getPayslipPdfFileName
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細書のPDF出力）
+ *
+ * PDFの支給・控除は1つの表に左右に並べ、金額が0円の項目は常に表示する項目のみ残す。
+ */
+import { describe, it, expect } from 'vitest';
+import { buildPayslipAmountRows, getPayslipPdfFileName } from './payslipPdf';
+import type { PayslipViewData } from './payslip';
+
+const data: PayslipViewData = {
+  title: '給与明細書',
+  companyName: '株式会社A・1インテリア',
+  employeeName: '山田太郎',
+  period: '2025年 10月',
+  periodRange: '2025年9月26日 〜 2025年10月25日',
+  attendance: null,
+  earnings: [
+    { label: '基本給', amount: 250000, alwaysShow: true },
+    { label: '時間外手当', amount: 0, alwaysShow: true },
+    { label: '資格手当', amount: 0 },
+    { label: '通勤手当', amount: 10000 }
+  ],
+  totalEarnings: 260000,
+  deductions: [{ label: '健康保険', amount: 14000 }],
+  totalDeductions: 14000,
+  netPay: 246000
+};
+
+describe('buildPayslipAmountRows', () => {
+  it('支給と控除を左右に並べ、最後に合計行を付ける', () => {
+    expect(buildPayslipAmountRows(data).map(row => row.cells)).toEqual([
+      ['基本給', '¥250,000', '健康保険', '¥14,000'],
+      ['時間外手当', '¥0', '', ''],
+      ['通勤手当', '¥10,000', '', ''],
+      ['総支給額', '¥260,000', '控除合計', '¥14,000']
+    ]);
+  });
+});
+
+describe('getPayslipPdfFileName', () => {
+  it('氏名・対象年月・明細書の種類をファイル名にする', () => {
+    expect(getPayslipPdfFileName(data)).toBe('山田太郎_2025年_10月_給与明細書.pdf');
+  });
+});
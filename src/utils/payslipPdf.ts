@@ -0,0 +1,168 @@
+/**
+ * 給与明細書・賞与明細書のPDF出力ユーティリティ。
+ *
+ * - 明細書の表示（PayslipView）と同じ項目を、pdfLayout で文字と表として描画する
+ * - 支給と控除は1つの表に左右に並べる（支給項目・金額・控除項目・金額）。金額が0円の項目は alwaysShow の項目のみ表示する
+ * - 時間外・深夜手当の内訳や調整明細の差額など、画面ごとの追加の表は sections で渡す
+ * - 複数人分は1つのPDF（1人ずつ改ページ、ページ番号は1人ごと）か、1人1ファイルのPDFをまとめたZIPで出力する
+ */
+
+import { formatCurrency, formatMinutesToHHHMM } from './formatters';
+import { createPdfLayout, loadPdfAssets, type PdfLayout, type PdfTableColumn, type PdfTableRow } from './pdfLayout';
+import type { PayslipLine, PayslipViewData } from './payslip';
+import { createZipArchive } from './zipArchive';
+
+/** 明細書に追加で描画する表 */
+export interface PayslipPdfSection {
+  title: string;
+  /** 表の上に表示する説明（残業単価など） */
+  note?: string;
+  columns: PdfTableColumn[];
+  rows: PdfTableRow[];
+}
+
+/** PDFに出力する明細書 */
+export interface PayslipPdfDocument {
+  data: PayslipViewData;
+  /** 支給・控除と差引支給額の間に描画する表 */
+  sections?: PayslipPdfSection[];
+}
+
+/** 支給・控除の表の列 */
+const AMOUNT_COLUMNS: PdfTableColumn[] = [
+  { header: '支給項目', width: 3 },
+  { header: '金額', width: 2, align: 'right' },
+  { header: '控除項目', width: 3 },
+  { header: '金額', width: 2, align: 'right' }
+];
+
+/**
+ * 支給・控除の表の行を作る（支給と控除を左右に並べ、最後に合計行を付ける）。
+ *
+ * @param {PayslipViewData} data - 明細書の表示内容。
+ * @returns {PdfTableRow[]} 表の行。
+ */
+export function buildPayslipAmountRows(data: PayslipViewData): PdfTableRow[] {
+  const visible = (lines: PayslipLine[]) => lines.filter(line => line.alwaysShow || line.amount !== 0);
+  const earnings = visible(data.earnings);
+  const deductions = visible(data.deductions);
+  const rows: PdfTableRow[] = Array.from({ length: Math.max(earnings.length, deductions.length) }, (_, index) => ({
+    cells: [
+      earnings[index]?.label ?? '',
+      earnings[index] ? formatCurrency(earnings[index].amount) : '',
+      deductions[index]?.label ?? '',
+      deductions[index] ? formatCurrency(deductions[index].amount) : ''
+    ]
+  }));
+  rows.push({
+    cells: ['総支給額', formatCurrency(data.totalEarnings), '控除合計', formatCurrency(data.totalDeductions)],
+    fillColor: '#f3f4f6',
+    bold: true
+  });
+  return rows;
+}
+
+/**
+ * 明細書のPDFのファイル名を返す。
+ *
+ * @param {PayslipViewData} data - 明細書の表示内容。
+ * @returns {string} ファイル名（例: 山田太郎_2025年_10月_給与明細書.pdf）。
+ */
+export function getPayslipPdfFileName(data: PayslipViewData): string {
+  return `${data.employeeName}_${data.period.replace(/\s/g, '_')}_${data.title}.pdf`;
+}
+
+/**
+ * 明細書を1人分描画する（新しいページから始める）。
+ *
+ * @param {PdfLayout} layout - PDFのレイアウト。
+ * @param {PayslipPdfDocument} payslip - 明細書。
+ */
+export function drawPayslip(layout: PdfLayout, { data, sections = [] }: PayslipPdfDocument): void {
+  const periodLines = [data.period];
+  if (data.attendance && data.periodRange) periodLines.push(`給与計算期間: ${data.periodRange}`);
+  layout.startSection({
+    title: data.title,
+    subtitle: `${data.companyName}\n氏名 ${data.employeeName}様`,
+    rightText: periodLines.join('\n')
+  });
+
+  if (data.attendance) {
+    layout.keyValueGrid([
+      { label: '出勤日数', value: String(data.attendance.workingDays) },
+      { label: '休日出勤', value: String(data.attendance.holidayWork) },
+      { label: '有給休暇', value: String(data.attendance.paidLeave) },
+      { label: '有給残日数', value: String(data.attendance.paidLeaveRemaining) },
+      { label: '稼働時間', value: formatMinutesToHHHMM(data.attendance.totalWorkMinutes) },
+      { label: '普通残業時間', value: formatMinutesToHHHMM(data.attendance.normalOvertime) },
+      { label: '深夜残業時間', value: formatMinutesToHHHMM(data.attendance.lateNightOvertime) }
+    ], 4);
+  }
+
+  layout.table(AMOUNT_COLUMNS, buildPayslipAmountRows(data), { fontSize: 10 });
+
+  sections.forEach(section => {
+    layout.text(section.title, { size: 11, bold: true });
+    if (section.note) layout.text(section.note, { size: 8, color: '#6b7280' });
+    layout.table(section.columns, section.rows);
+  });
+
+  layout.highlightBox('差引支給額', formatCurrency(data.netPay));
+}
+
+/**
+ * ファイルをダウンロードさせる。
+ *
+ * @param {Blob} blob - ファイルの内容。
+ * @param {string} fileName - ファイル名。
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 明細書を1つのPDFにまとめて保存する（1人ずつ改ページする）。
+ *
+ * @param {PayslipPdfDocument[]} payslips - 明細書（1件以上）。
+ * @param {string} fileName - ファイル名。省略時は先頭の明細書から決める。
+ * @returns {Promise<void>}
+ * @throws {PdfFontLoadError} 日本語フォントを読み込めない場合。
+ */
+export const exportPayslipsPdf = async (payslips: PayslipPdfDocument[], fileName?: string): Promise<void> => {
+  if (payslips.length === 0) return;
+  const layout = createPdfLayout(await loadPdfAssets());
+  payslips.forEach(payslip => drawPayslip(layout, payslip));
+  layout.finish().save(fileName ?? getPayslipPdfFileName(payslips[0].data));
+};
+
+/**
+ * 明細書を1人1ファイルのPDFにしてZIPにまとめて保存する。
+ *
+ * @param {PayslipPdfDocument[]} payslips - 明細書。
+ * @param {string} fileName - ZIPのファイル名。
+ * @returns {Promise<void>}
+ * @throws {PdfFontLoadError} 日本語フォントを読み込めない場合。
+ */
+export const exportPayslipsZip = async (payslips: PayslipPdfDocument[], fileName: string): Promise<void> => {
+  if (payslips.length === 0) return;
+  const assets = await loadPdfAssets();
+  // 同姓同名の従業員はファイル名に連番を付けて区別する
+  const nameCounts = new Map<string, number>();
+  const entries = payslips.map(payslip => {
+    const layout = createPdfLayout(assets);
+    drawPayslip(layout, payslip);
+    const name = getPayslipPdfFileName(payslip.data);
+    const count = (nameCounts.get(name) ?? 0) + 1;
+    nameCounts.set(name, count);
+    return {
+      name: count > 1 ? name.replace(/\.pdf$/, `(${count}).pdf`) : name,
+      data: new Uint8Array(layout.finish().output('arraybuffer'))
+    };
+  });
+  downloadBlob(new Blob([createZipArchive(entries)], { type: 'application/zip' }), fileName);
+};
@@ -0,0 +1,69 @@
+/**
+ * pdfLayout のユニットテスト。
+ *
+ * 対象: getColumnWidths / paginateRowHeights / arrayBufferToBase64 / isTrueTypeFont / getPdfExportErrorMessage
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細書・出勤簿のPDF出力）
+ *
+ * 表の列幅は比率で配分し、ページに収まらない行は次のページに送る（次のページでは列見出しを繰り返す）。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getColumnWidths,
+  paginateRowHeights,
+  arrayBufferToBase64,
+  isTrueTypeFont,
+  getPdfExportErrorMessage,
+  PdfFontLoadError
+} from './pdfLayout';
+
+describe('getColumnWidths', () => {
+  it('列幅の比率で表の幅を配分する', () => {
+    expect(getColumnWidths([1, 3], 100)).toEqual([25, 75]);
+    expect(getColumnWidths([0, 0], 100)).toEqual([50, 50]);
+  });
+});
+
+describe('paginateRowHeights', () => {
+  it('ページの残りに入らない行から次のページに送る', () => {
+    expect(paginateRowHeights([10, 10, 10, 10], 25, 20)).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it('現在のページに1行も入らない場合は先頭のグループが空になる', () => {
+    expect(paginateRowHeights([10, 10], 5, 30)).toEqual([[], [0, 1]]);
+  });
+
+  it('1ページに収まらない高さの行は単独で配置する', () => {
+    expect(paginateRowHeights([50, 10], 20, 30)).toEqual([[], [0], [1]]);
+  });
+});
+
+describe('arrayBufferToBase64', () => {
+  it('バイナリを Base64 にする', () => {
+    expect(arrayBufferToBase64(new TextEncoder().encode('kintai').buffer as ArrayBuffer)).toBe('a2ludGFp');
+  });
+});
+
+describe('isTrueTypeFont', () => {
+  const bufferOf = (bytes: number[]) => new Uint8Array(bytes).buffer as ArrayBuffer;
+
+  it('TrueType 形式の先頭のバイト列のみ true', () => {
+    expect(isTrueTypeFont(bufferOf([0x00, 0x01, 0x00, 0x00, 0x00, 0x13]))).toBe(true);
+    expect(isTrueTypeFont(new TextEncoder().encode('true....').buffer as ArrayBuffer)).toBe(true);
+  });
+
+  it('OpenType（CFF）・WOFF・フォントの代わりに返された HTML は false', () => {
+    expect(isTrueTypeFont(new TextEncoder().encode('OTTO....').buffer as ArrayBuffer)).toBe(false);
+    expect(isTrueTypeFont(new TextEncoder().encode('wOF2....').buffer as ArrayBuffer)).toBe(false);
+    expect(isTrueTypeFont(new TextEncoder().encode('<!doctype html>').buffer as ArrayBuffer)).toBe(false);
+    expect(isTrueTypeFont(bufferOf([0x00, 0x01]))).toBe(false);
+  });
+});
+
+describe('getPdfExportErrorMessage', () => {
+  it('日本語フォントを読み込めない場合はその理由を返す', () => {
+    const error = new PdfFontLoadError('PDF出力用の日本語フォントを読み込めませんでした（/fonts/a.ttf、HTTP 404）', '/fonts/a.ttf');
+    expect(getPdfExportErrorMessage(error)).toBe(error.message);
+    expect(getPdfExportErrorMessage(new Error('jsPDF error'))).toBe('PDF出力に失敗しました');
+    expect(getPdfExportErrorMessage(new Error('jsPDF error'), '照合表の出力に失敗しました')).toBe('照合表の出力に失敗しました');
+  });
+});
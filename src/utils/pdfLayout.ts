@@ -0,0 +1,466 @@
+/**
+ * PDF（給与明細書・出勤簿など）のレイアウトユーティリティ。
+ *
+ * - 画面のキャプチャ（画像）ではなく、jsPDF で文字と表を直接描画する（拡大しても粗くならず、文字を検索・コピーできる）
+ * - 日本語フォント（TrueType形式の .ttf）は実行時に読み込んで埋め込む。既定は npm パッケージ（@expo-google-fonts/noto-sans-jp）の
+ *   Noto Sans JP Regular をビルド時に同梱したもので、VITE_PDF_FONT_URL で差し替えられる
+ * - 読み込んだフォントは先頭のバイト列で TrueType 形式かを確認する（SPA のリライトで index.html が返った場合などを検出する）
+ * - 会社ロゴ（VITE_PDF_LOGO_URL、任意）とページ見出しは改ページのたびに描画し、表は改ページ後に列見出しを繰り返す
+ * - 1つのPDFに複数人分（セクション）を描画でき、ページ番号はセクションごとに振る
+ * - 太字は埋め込みフォントに太字が無いため、文字の輪郭を重ね描きして表現する
+ */
+
+import jsPDF from 'jspdf';
+import notoSansJpRegularUrl from '@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url';
+
+/** 埋め込む日本語フォントの jsPDF 上の名前 */
+export const PDF_FONT_NAME = 'JapaneseFont';
+
+/** 日本語フォントの既定のURL（Noto Sans JP Regular。ビルド時に dist/assets 配下に出力される） */
+export const DEFAULT_PDF_FONT_URL: string = notoSansJpRegularUrl;
+
+/**
+ * 日本語フォントを読み込めない場合にスローされるエラー。
+ * メッセージは画面にそのまま表示できる内容にする。
+ */
+export class PdfFontLoadError extends Error {
+  url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'PdfFontLoadError';
+    this.url = url;
+  }
+}
+
+/** 1ポイントのミリメートル換算 */
+const PT_TO_MM = 0.3528;
+
+/** 行の高さ（文字サイズに対する倍率） */
+const LINE_HEIGHT_RATIO = 1.35;
+
+/** 表のセルの内側の余白（mm） */
+const CELL_PADDING = 1.5;
+
+/** ページの見出し（改ページのたびに描画する） */
+export interface PdfPageHeader {
+  /** 見出し（例: 給与明細書、出勤簿） */
+  title: string;
+  /** 見出しの下・左側に表示する文字（会社名・氏名など。改行可） */
+  subtitle?: string;
+  /** 見出しの下・右側に表示する文字（対象年月など。改行可） */
+  rightText?: string;
+}
+
+/** 表の列 */
+export interface PdfTableColumn {
+  header: string;
+  /** 列幅の比率（表の幅を比率で配分する） */
+  width: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+/** 表の行 */
+export interface PdfTableRow {
+  cells: string[];
+  /** 行の背景色（#rrggbb） */
+  fillColor?: string;
+  /** 列ごとの文字色（#rrggbb）。未指定の列は黒 */
+  textColors?: Array<string | undefined>;
+  bold?: boolean;
+}
+
+/** PDFレイアウトの作成オプション */
+export interface PdfLayoutOptions {
+  orientation?: 'portrait' | 'landscape';
+  /** 日本語フォント（.ttf）の Base64 */
+  fontBase64: string;
+  /** 会社ロゴの Data URL（PNG/JPEG）。無い場合はロゴを描画しない */
+  logoDataUrl?: string | null;
+  /** 余白（mm）。既定は12mm */
+  margin?: number;
+}
+
+/** PDFのレイアウト（描画位置を持ち、上から順に描画する） */
+export interface PdfLayout {
+  doc: jsPDF;
+  /** 新しいセクション（1人分など）を新しいページから始め、ページ見出しを描画する */
+  startSection: (header: PdfPageHeader) => void;
+  /** 文字を描画する（表示幅で折り返す） */
+  text: (text: string, options?: { size?: number; bold?: boolean; align?: 'left' | 'center' | 'right'; color?: string }) => void;
+  /** 項目名と値の組を格子状に描画する */
+  keyValueGrid: (items: Array<{ label: string; value: string }>, columns?: number) => void;
+  /** 表を描画する（ページに収まらない行は次のページに送り、列見出しを繰り返す） */
+  table: (columns: PdfTableColumn[], rows: PdfTableRow[], options?: { title?: string; fontSize?: number }) => void;
+  /** 背景色付きの枠に項目名と値を中央揃えで描画する（差引支給額など） */
+  highlightBox: (label: string, value: string, options?: { fillColor?: string; color?: string }) => void;
+  /** 縦の余白を空ける */
+  space: (mm: number) => void;
+  /** ページ番号を描画して jsPDF を返す */
+  finish: () => jsPDF;
+}
+
+/**
+ * 列幅の比率から各列の幅を求める。
+ *
+ * @param {number[]} weights - 列幅の比率。
+ * @param {number} totalWidth - 表の幅。
+ * @returns {number[]} 各列の幅（合計は表の幅）。
+ */
+export function getColumnWidths(weights: number[], totalWidth: number): number[] {
+  const sum = weights.reduce((total, weight) => total + Math.max(0, weight), 0);
+  if (sum <= 0) return weights.map(() => totalWidth / Math.max(1, weights.length));
+  return weights.map(weight => (totalWidth * Math.max(0, weight)) / sum);
+}
+
+/**
+ * 表の行をページに振り分ける。
+ * 1ページ目に1行も入らない場合は先頭のグループが空になる（次のページから描画する）。
+ * 1ページに収まらない高さの行は、そのページに単独で配置する。
+ *
+ * @param {number[]} rowHeights - 行の高さ。
+ * @param {number} firstPageSpace - 現在のページの残りの高さ（列見出しを除く）。
+ * @param {number} pageSpace - 2ページ目以降の描画できる高さ（列見出しを除く）。
+ * @returns {number[][]} ページごとの行の添字。
+ */
+export function paginateRowHeights(rowHeights: number[], firstPageSpace: number, pageSpace: number): number[][] {
+  const pages: number[][] = [[]];
+  let remaining = firstPageSpace;
+  rowHeights.forEach((height, index) => {
+    const current = pages[pages.length - 1];
+    if (height > remaining && (current.length > 0 || pages.length === 1)) {
+      pages.push([]);
+      remaining = pageSpace;
+    }
+    pages[pages.length - 1].push(index);
+    remaining -= height;
+  });
+  return pages;
+}
+
+/**
+ * バイナリを Base64 文字列にする（フォントの埋め込み用）。
+ *
+ * @param {ArrayBuffer} buffer - バイナリ。
+ * @returns {string} Base64 文字列。
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * フォントのデータが TrueType 形式（jsPDF に埋め込める形式）かを先頭のバイト列で判定する。
+ * OpenType（CFF）・WOFF・WOFF2 と、フォントの代わりに返された HTML は false。
+ *
+ * @param {ArrayBuffer} buffer - フォントのデータ。
+ * @returns {boolean} TrueType 形式（0x00010000 または 'true'）なら true。
+ */
+export function isTrueTypeFont(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 4) return false;
+  const bytes = new Uint8Array(buffer, 0, 4);
+  const tag = String.fromCharCode(...bytes);
+  return (bytes[0] === 0x00 && bytes[1] === 0x01 && bytes[2] === 0x00 && bytes[3] === 0x00) || tag === 'true';
+}
+
+/**
+ * PDF出力の失敗時に画面に表示するメッセージを返す。
+ *
+ * @param {unknown} error - 発生したエラー。
+ * @param {string} fallback - 日本語フォント以外の原因の場合のメッセージ。
+ * @returns {string} 日本語フォントを読み込めない場合はその理由、それ以外は fallback。
+ */
+export function getPdfExportErrorMessage(error: unknown, fallback: string = 'PDF出力に失敗しました'): string {
+  return error instanceof PdfFontLoadError ? error.message : fallback;
+}
+
+/** 読み込み済みの日本語フォント（画面を移動しても再取得しない） */
+let fontCache: { url: string; base64: Promise<string> } | null = null;
+
+/**
+ * 日本語フォントを読み込む。
+ *
+ * @param {string} url - フォント（.ttf）のURL。既定は VITE_PDF_FONT_URL または DEFAULT_PDF_FONT_URL。
+ * @returns {Promise<string>} フォントの Base64。
+ * @throws {PdfFontLoadError} フォントを取得できない場合、または TrueType 形式でない場合。
+ */
+export const loadPdfFont = (url: string = import.meta.env.VITE_PDF_FONT_URL || DEFAULT_PDF_FONT_URL): Promise<string> => {
+  if (!fontCache || fontCache.url !== url) {
+    const base64 = fetch(url).then(async response => {
+      if (!response.ok) {
+        throw new PdfFontLoadError(`PDF出力用の日本語フォントを読み込めませんでした（${url}、HTTP ${response.status}）`, url);
+      }
+      const buffer = await response.arrayBuffer();
+      if (!isTrueTypeFont(buffer)) {
+        const contentType = response.headers.get('content-type') ?? '不明';
+        throw new PdfFontLoadError(
+          `PDF出力用の日本語フォントが TrueType 形式（.ttf）ではありません（${url}、Content-Type: ${contentType}）。VITE_PDF_FONT_URL の設定を確認してください`,
+          url
+        );
+      }
+      return arrayBufferToBase64(buffer);
+    }, (error: unknown) => {
+      throw new PdfFontLoadError(`PDF出力用の日本語フォントを読み込めませんでした（${url}）: ${error instanceof Error ? error.message : String(error)}`, url);
+    });
+    fontCache = { url, base64 };
+    // 失敗した場合は次回に再取得する
+    base64.catch(() => {
+      if (fontCache?.base64 === base64) fontCache = null;
+    });
+  }
+  return fontCache.base64;
+};
+
+/**
+ * 画像（会社ロゴなど）を Data URL として読み込む。
+ *
+ * @param {string | undefined} url - 画像のURL。既定は VITE_PDF_LOGO_URL。
+ * @returns {Promise<string | null>} 画像の Data URL。URL が未設定・取得失敗の場合は null（ロゴなしで出力する）。
+ */
+export const loadPdfImage = async (url: string | undefined = import.meta.env.VITE_PDF_LOGO_URL): Promise<string | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string | null>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * PDFの出力に必要なフォントとロゴを読み込む。
+ *
+ * @returns {Promise<{ fontBase64: string; logoDataUrl: string | null }>} フォントの Base64 とロゴの Data URL。
+ */
+export const loadPdfAssets = async (): Promise<{ fontBase64: string; logoDataUrl: string | null }> => {
+  const [fontBase64, logoDataUrl] = await Promise.all([loadPdfFont(), loadPdfImage()]);
+  return { fontBase64, logoDataUrl };
+};
+
+/**
+ * PDFのレイアウトを作成する。
+ *
+ * @param {PdfLayoutOptions} options - 用紙の向き・フォント・ロゴ・余白。
+ * @returns {PdfLayout} PDFのレイアウト。最初に startSection を呼んでから描画する。
+ */
+export function createPdfLayout(options: PdfLayoutOptions): PdfLayout {
+  const doc = new jsPDF(options.orientation === 'landscape' ? 'landscape' : 'portrait', 'mm', 'a4');
+  doc.addFileToVFS(`${PDF_FONT_NAME}.ttf`, options.fontBase64);
+  doc.addFont(`${PDF_FONT_NAME}.ttf`, PDF_FONT_NAME, 'normal');
+  doc.setFont(PDF_FONT_NAME, 'normal');
+
+  const margin = options.margin ?? 12;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  /** ページ番号を描画する下端の領域を除いた描画の下限 */
+  const pageBottom = pageHeight - margin - 6;
+
+  let y = margin;
+  /** ページ見出しを除いた描画の開始位置 */
+  let contentTop = margin;
+  let header: PdfPageHeader | null = null;
+  let isFirstPageBlank = true;
+  const sections: Array<{ startPage: number; endPage: number }> = [];
+
+  const lineHeight = (size: number) => size * PT_TO_MM * LINE_HEIGHT_RATIO;
+
+  const drawText = (
+    text: string | string[],
+    x: number,
+    top: number,
+    opts: { size: number; bold?: boolean; align?: 'left' | 'center' | 'right'; color?: string }
+  ) => {
+    const color = opts.color ?? '#1f2937';
+    doc.setFontSize(opts.size);
+    doc.setTextColor(color);
+    if (opts.bold) {
+      doc.setDrawColor(color);
+      doc.setLineWidth(opts.size * 0.012);
+    }
+    doc.text(text, x, top, {
+      align: opts.align ?? 'left',
+      baseline: 'top',
+      lineHeightFactor: LINE_HEIGHT_RATIO,
+      renderingMode: opts.bold ? 'fillThenStroke' : 'fill'
+    });
+  };
+
+  const splitLines = (text: string, width: number, size: number): string[] => {
+    doc.setFontSize(size);
+    return text.split('\n').flatMap(line => doc.splitTextToSize(line, width) as string[]);
+  };
+
+  const drawHeader = () => {
+    if (!header) return;
+    y = margin;
+    let titleTop = y;
+    if (options.logoDataUrl) {
+      try {
+        const logoHeight = 10;
+        const { width, height } = doc.getImageProperties(options.logoDataUrl);
+        const logoWidth = Math.min(40, (width / Math.max(1, height)) * logoHeight);
+        const format = options.logoDataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+        doc.addImage(options.logoDataUrl, format, margin, y, logoWidth, logoHeight);
+        titleTop = y + 1;
+      } catch {
+        // ロゴが読めない場合はロゴなしで出力する
+      }
+    }
+    drawText(header.title, pageWidth / 2, titleTop, { size: 16, bold: true, align: 'center' });
+    y = Math.max(titleTop + lineHeight(16), options.logoDataUrl ? margin + 10 : 0) + 3;
+
+    const leftLines = header.subtitle ? splitLines(header.subtitle, contentWidth / 2, 10) : [];
+    const rightLines = header.rightText ? splitLines(header.rightText, contentWidth / 2, 10) : [];
+    if (leftLines.length > 0) drawText(leftLines, margin, y, { size: 10 });
+    if (rightLines.length > 0) drawText(rightLines, pageWidth - margin, y, { size: 10, align: 'right' });
+    y += Math.max(leftLines.length, rightLines.length) * lineHeight(10) + 2;
+
+    doc.setDrawColor('#9ca3af');
+    doc.setLineWidth(0.3);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 4;
+    contentTop = y;
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    if (sections.length > 0) sections[sections.length - 1].endPage = doc.getNumberOfPages();
+    drawHeader();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageBottom) newPage();
+  };
+
+  const startSection = (nextHeader: PdfPageHeader) => {
+    header = nextHeader;
+    if (isFirstPageBlank) {
+      isFirstPageBlank = false;
+    } else {
+      doc.addPage();
+    }
+    const page = doc.getNumberOfPages();
+    sections.push({ startPage: page, endPage: page });
+    drawHeader();
+  };
+
+  const text: PdfLayout['text'] = (value, opts = {}) => {
+    const size = opts.size ?? 10;
+    const lines = splitLines(value, contentWidth, size);
+    const height = lines.length * lineHeight(size);
+    ensureSpace(height);
+    const x = opts.align === 'center' ? pageWidth / 2 : opts.align === 'right' ? pageWidth - margin : margin;
+    drawText(lines, x, y, { size, bold: opts.bold, align: opts.align, color: opts.color });
+    y += height + 1;
+  };
+
+  const keyValueGrid: PdfLayout['keyValueGrid'] = (items, columns = 4) => {
+    const cellWidth = contentWidth / columns;
+    const cellHeight = lineHeight(8) + lineHeight(11) + CELL_PADDING * 2;
+    for (let i = 0; i < items.length; i += columns) {
+      ensureSpace(cellHeight);
+      items.slice(i, i + columns).forEach((item, column) => {
+        const x = margin + cellWidth * column;
+        doc.setDrawColor('#d1d5db');
+        doc.setLineWidth(0.2);
+        doc.rect(x, y, cellWidth, cellHeight, 'S');
+        drawText(item.label, x + CELL_PADDING, y + CELL_PADDING, { size: 8, color: '#6b7280' });
+        drawText(item.value, x + CELL_PADDING, y + CELL_PADDING + lineHeight(8), { size: 11, bold: true });
+      });
+      y += cellHeight;
+    }
+    y += 3;
+  };
+
+  const table: PdfLayout['table'] = (columns, rows, opts = {}) => {
+    const size = opts.fontSize ?? 9;
+    const widths = getColumnWidths(columns.map(column => column.width), contentWidth);
+    const measure = (cells: string[]) =>
+      cells.map((cell, index) => splitLines(cell ?? '', widths[index] - CELL_PADDING * 2, size));
+    const rowHeight = (lines: string[][]) => Math.max(1, ...lines.map(cell => cell.length)) * lineHeight(size) + CELL_PADDING * 2;
+
+    const headerLines = measure(columns.map(column => column.header));
+    const headerHeight = rowHeight(headerLines);
+    const rowLines = rows.map(row => measure(row.cells));
+    const rowHeights = rowLines.map(rowHeight);
+    const titleHeight = opts.title ? lineHeight(11) + 1.5 : 0;
+
+    const drawRow = (lines: string[][], height: number, row: PdfTableRow | null) => {
+      let x = margin;
+      lines.forEach((cellLines, index) => {
+        const width = widths[index];
+        const fill = row ? row.fillColor : '#f3f4f6';
+        doc.setDrawColor('#d1d5db');
+        doc.setLineWidth(0.2);
+        if (fill) doc.setFillColor(fill);
+        doc.rect(x, y, width, height, fill ? 'FD' : 'S');
+        const align = columns[index].align ?? 'left';
+        const textX = align === 'center' ? x + width / 2 : align === 'right' ? x + width - CELL_PADDING : x + CELL_PADDING;
+        drawText(cellLines, textX, y + CELL_PADDING, {
+          size,
+          align,
+          bold: row ? row.bold : true,
+          color: row?.textColors?.[index]
+        });
+        x += width;
+      });
+      y += height;
+    };
+
+    // 表題と列見出し・先頭の行が同じページに入らない場合は次のページから描画する
+    if (y + titleHeight + headerHeight + (rowHeights[0] ?? 0) > pageBottom) newPage();
+    if (opts.title) {
+      drawText(opts.title, margin, y, { size: 11, bold: true });
+      y += titleHeight;
+    }
+    const pages = paginateRowHeights(rowHeights, pageBottom - y - headerHeight, pageBottom - contentTop - headerHeight);
+    pages.forEach((indices, pageIndex) => {
+      if (pageIndex > 0) newPage();
+      if (indices.length === 0 && pageIndex === 0 && rows.length > 0) return;
+      drawRow(headerLines, headerHeight, null);
+      indices.forEach(index => drawRow(rowLines[index], rowHeights[index], rows[index]));
+    });
+    y += 4;
+  };
+
+  const highlightBox: PdfLayout['highlightBox'] = (label, value, opts = {}) => {
+    const color = opts.color ?? '#065f46';
+    const height = lineHeight(10) + lineHeight(18) + CELL_PADDING * 4;
+    ensureSpace(height);
+    doc.setFillColor(opts.fillColor ?? '#d1fae5');
+    doc.rect(margin, y, contentWidth, height, 'F');
+    drawText(label, pageWidth / 2, y + CELL_PADDING * 2, { size: 10, align: 'center', color });
+    drawText(value, pageWidth / 2, y + CELL_PADDING * 2 + lineHeight(10), { size: 18, bold: true, align: 'center', color });
+    y += height + 4;
+  };
+
+  const space = (mm: number) => {
+    y += mm;
+  };
+
+  const finish = () => {
+    sections.forEach(section => {
+      const count = section.endPage - section.startPage + 1;
+      for (let page = section.startPage; page <= section.endPage; page++) {
+        doc.setPage(page);
+        drawText(`${page - section.startPage + 1} / ${count}`, pageWidth / 2, pageHeight - margin - 3, { size: 8, align: 'center', color: '#6b7280' });
+      }
+    });
+    return doc;
+  };
+
+  return { doc, startSection, text, keyValueGrid, table, highlightBox, space, finish };
+}
@@ -0,0 +1,51 @@
+/**
+ * permission のユニットテスト。
+ *
+ * 対象: getAdminPermissions / canAccessAdminPath / getAdminHomePath
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（権限ロール）
+ *
+ * 管理者は権限ロールごとの権限マトリクスで画面と操作が決まり、権限ロールが未設定の管理者はすべての権限を持つ。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getAdminPermissions,
+  canAccessAdminPath,
+  getAdminHomePath,
+  ADMIN_PERMISSION_LABELS
+} from './permission';
+
+describe('getAdminPermissions', () => {
+  it('権限ロールが未設定の管理者はシステム管理者としてすべての権限を持つ', () => {
+    expect(getAdminPermissions(null).size).toBe(Object.keys(ADMIN_PERMISSION_LABELS).length);
+    expect(getAdminPermissions(undefined)).toEqual(getAdminPermissions('administrator'));
+  });
+
+  it('勤怠管理者は給与を閲覧できず、給与担当は勤怠を閲覧のみ', () => {
+    const attendanceManager = getAdminPermissions('attendanceManager');
+    expect(attendanceManager.has('attendance.edit')).toBe(true);
+    expect(attendanceManager.has('salary.view')).toBe(false);
+
+    const payrollOfficer = getAdminPermissions('payrollOfficer');
+    expect(payrollOfficer.has('salary.edit')).toBe(true);
+    expect(payrollOfficer.has('attendance.view')).toBe(true);
+    expect(payrollOfficer.has('attendance.edit')).toBe(false);
+  });
+});
+
+describe('canAccessAdminPath / getAdminHomePath', () => {
+  it('画面のパスに必要な権限で判定し、配下のパスも同じ権限で判定する', () => {
+    const attendanceManager = getAdminPermissions('attendanceManager');
+    expect(canAccessAdminPath(attendanceManager, '/admin/attendance')).toBe(true);
+    expect(canAccessAdminPath(attendanceManager, '/admin/bank-transfer')).toBe(false);
+    expect(canAccessAdminPath(attendanceManager, '/admin/allowances')).toBe(false);
+    expect(canAccessAdminPath(attendanceManager, '/admin/leave-types')).toBe(true);
+    // /admin/employee-attendance は /admin/employees の配下ではない
+    expect(canAccessAdminPath(new Set(['attendance.view']), '/admin/employee-attendance')).toBe(true);
+  });
+
+  it('表示できる最初の画面を移動先にし、表示できる画面が無ければ null', () => {
+    expect(getAdminHomePath(getAdminPermissions('locationManager'))).toBe('/admin/employees');
+    expect(getAdminHomePath(new Set(['requests.approve']))).toBe('/admin/requests');
+    expect(getAdminHomePath(new Set())).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * 管理者の権限ロールと権限マトリクス。
+ *
+ * - 管理者（isAdmin）の従業員は権限ロールを1つ持ち、ロールごとに使える権限が決まる
+ * - 管理者画面のルート・ナビゲーション・操作ボタンは権限で出し分ける
+ *   （API側でも同じ権限で拒否する。画面の出し分けは操作できない項目を見せないためのもの）
+ * - 権限ロールが未設定の管理者は、従来どおりすべての権限を持つシステム管理者として扱う
+ */
+
+/** 管理者の権限ロール */
+export type AdminRole = 'administrator' | 'payrollOfficer' | 'attendanceManager' | 'locationManager';
+
+/** 管理者画面の権限 */
+export type AdminPermission =
+  | 'employees.view'
+  | 'employees.edit'
+  | 'attendance.view'
+  | 'attendance.edit'
+  | 'shifts.manage'
+  | 'requests.approve'
+  | 'salary.view'
+  | 'salary.edit'
+  | 'masters.attendance'
+  | 'masters.salary'
+  | 'masters.organization';
+
+/** 権限ロールが未設定の管理者に適用するロール */
+export const DEFAULT_ADMIN_ROLE: AdminRole = 'administrator';
+
+/** 権限ロールの表示名 */
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  administrator: 'システム管理者',
+  payrollOfficer: '給与担当',
+  attendanceManager: '勤怠管理者',
+  locationManager: '拠点管理者'
+};
+
+/** 権限ロールの説明（権限ロールの選択欄に表示） */
+export const ADMIN_ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  administrator: 'すべての画面と操作',
+  payrollOfficer: '給与・振込・社会保険と給与関連マスタ。勤怠は閲覧のみ',
+  attendanceManager: '勤怠・シフト・申請承認と勤怠関連マスタ。給与は閲覧できない',
+  locationManager: '自分の勤務拠点の従業員の勤怠・シフト・申請承認のみ'
+};
+
+/** 権限の表示名 */
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, string> = {
+  'employees.view': '従業員の閲覧',
+  'employees.edit': '従業員の登録・編集',
+  'attendance.view': '勤怠の閲覧',
+  'attendance.edit': '勤怠の修正',
+  'shifts.manage': 'シフトの作成',
+  'requests.approve': '申請の承認',
+  'salary.view': '給与の閲覧',
+  'salary.edit': '給与の計算・振込データ作成',
+  'masters.attendance': '勤怠関連マスタ（休日・36協定・休暇種別）',
+  'masters.salary': '給与関連マスタ（手当・控除・締め日・保険料率）',
+  'masters.organization': '組織マスタ（勤務拠点・部署・承認ルート）'
+};
+
+/** 権限マトリクス（ロールごとに使える権限） */
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  administrator: Object.keys(ADMIN_PERMISSION_LABELS) as AdminPermission[],
+  payrollOfficer: ['employees.view', 'attendance.view', 'salary.view', 'salary.edit', 'masters.salary'],
+  attendanceManager: [
+    'employees.view',
+    'attendance.view',
+    'attendance.edit',
+    'shifts.manage',
+    'requests.approve',
+    'masters.attendance'
+  ],
+  locationManager: ['employees.view', 'attendance.view', 'attendance.edit', 'shifts.manage', 'requests.approve']
+};
+
+/**
+ * 管理者画面のパスと必要な権限（ナビゲーションの表示順）。
+ * ルートの保護とナビゲーション・マスタメニューの出し分けに使う。
+ */
+export const ADMIN_PATH_PERMISSIONS: Array<{ path: string; permission: AdminPermission }> = [
+  { path: '/admin/employees', permission: 'employees.view' },
+  { path: '/admin/attendance', permission: 'attendance.view' },
+  { path: '/admin/employee-attendance', permission: 'attendance.view' },
+  { path: '/admin/shifts', permission: 'shifts.manage' },
+  { path: '/admin/payroll-run', permission: 'salary.edit' },
+  { path: '/admin/bank-transfer', permission: 'salary.edit' },
+  { path: '/admin/standard-remuneration', permission: 'salary.view' },
+  { path: '/admin/overtime-monitor', permission: 'attendance.view' },
+  { path: '/admin/paid-leave-compliance', permission: 'attendance.view' },
+  { path: '/admin/requests', permission: 'requests.approve' },
+  { path: '/admin/allowances', permission: 'masters.salary' },
+  { path: '/admin/deductions', permission: 'masters.salary' },
+  { path: '/admin/work-locations', permission: 'masters.organization' },
+  { path: '/admin/payroll-closing', permission: 'masters.salary' },
+  { path: '/admin/company-holidays', permission: 'masters.attendance' },
+  { path: '/admin/insurance-rates', permission: 'masters.salary' },
+  { path: '/admin/overtime-agreements', permission: 'masters.attendance' },
+  { path: '/admin/leave-types', permission: 'masters.attendance' },
+  { path: '/admin/approval-routes', permission: 'masters.organization' },
+  { path: '/admin/departments', permission: 'masters.organization' }
+];
+
+/**
+ * 権限ロールの権限を返す。
+ *
+ * @param {AdminRole | null | undefined} role - 権限ロール。未設定はシステム管理者。
+ * @returns {Set<AdminPermission>} ロールが持つ権限。
+ */
+export function getAdminPermissions(role: AdminRole | null | undefined): Set<AdminPermission> {
+  return new Set(ADMIN_ROLE_PERMISSIONS[role ?? DEFAULT_ADMIN_ROLE] ?? []);
+}
+
+/**
+ * 管理者画面のパスを表示できるかを返す。
+ * 一覧にないパス（従業員ごとの給与など）は、一致する最も長いパスの権限で判定する。
+ *
+ * @param {Set<AdminPermission>} permissions - 権限。
+ * @param {string} pathname - 画面のパス。
+ * @returns {boolean} 表示できるなら true。
+ */
+export function canAccessAdminPath(permissions: Set<AdminPermission>, pathname: string): boolean {
+  const matched = ADMIN_PATH_PERMISSIONS
+    .filter(({ path }) => pathname === path || pathname.startsWith(`${path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  return !matched || permissions.has(matched.permission);
+}
+
+/**
+ * 権限で表示できる最初の管理者画面のパスを返す（権限の無い画面からの移動先）。
+ *
+ * @param {Set<AdminPermission>} permissions - 権限。
+ * @returns {string | null} 画面のパス。表示できる画面が無い場合は null。
+ */
+export function getAdminHomePath(permissions: Set<AdminPermission>): string | null {
+  return ADMIN_PATH_PERMISSIONS.find(({ permission }) => permissions.has(permission))?.path ?? null;
+}
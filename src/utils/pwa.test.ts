@@ -0,0 +1,41 @@
+/**
+ * pwa のユニットテスト。
+ *
+ * 対象: isIosDevice / getPwaInstallMethod / isInstallGuideDismissed / dismissInstallGuide
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（勤怠画面・ホーム画面への追加）
+ *
+ * ホーム画面から起動した場合は案内を表示せず、ブラウザのインストールの案内がある場合はそれを使い、
+ * iPhone・iPad は共有メニューからの追加手順を案内する。
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { dismissInstallGuide, getPwaInstallMethod, isInstallGuideDismissed, isIosDevice } from './pwa';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('isIosDevice', () => {
+  it('iPhone と、Macと同じUser-AgentでタッチできるiPadを iOS とする', () => {
+    expect(isIosDevice('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15', 5)).toBe(true);
+    expect(isIosDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15', 5)).toBe(true);
+    expect(isIosDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15', 0)).toBe(false);
+    expect(isIosDevice('Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 Chrome/120.0', 5)).toBe(false);
+  });
+});
+
+describe('getPwaInstallMethod', () => {
+  it('ホーム画面から起動していれば追加済み、次にブラウザの案内、iOS の順で追加の方法を決める', () => {
+    expect(getPwaInstallMethod({ isStandalone: true, hasPrompt: true, isIos: false })).toBe('installed');
+    expect(getPwaInstallMethod({ isStandalone: false, hasPrompt: true, isIos: false })).toBe('prompt');
+    expect(getPwaInstallMethod({ isStandalone: false, hasPrompt: false, isIos: true })).toBe('ios');
+    expect(getPwaInstallMethod({ isStandalone: false, hasPrompt: false, isIos: false })).toBe('unsupported');
+  });
+});
+
+describe('isInstallGuideDismissed / dismissInstallGuide', () => {
+  it('案内を閉じたことを保存する', () => {
+    expect(isInstallGuideDismissed()).toBe(false);
+    dismissInstallGuide();
+    expect(isInstallGuideDismissed()).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * ホーム画面に追加できるアプリ（PWA）のユーティリティ。
+ *
+ * - サービスワーカー（public/sw.js）を本番ビルドでのみ登録し、アプリの画面をキャッシュする
+ * - ブラウザのインストールの案内（beforeinstallprompt）を起動直後に受け取って保持し、勤怠画面の「ホーム画面に追加」から表示する
+ * - iPhone・iPad の Safari はインストールの案内が無いため、共有メニューからの追加手順を表示する
+ * - ホーム画面から起動した場合（display-mode: standalone）は追加の案内を表示しない
+ */
+
+import { error as logError } from './logger';
+
+/**
+ * ブラウザのインストールの案内イベント（TypeScript の標準の型に無いため定義する）。
+ */
+export interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
+}
+
+/**
+ * ホーム画面への追加の方法（installed: 追加済み・ホーム画面から起動 / prompt: ブラウザの案内 / ios: 共有メニューから追加 / unsupported: 追加できない）
+ */
+export type PwaInstallMethod = 'installed' | 'prompt' | 'ios' | 'unsupported';
+
+/** ホーム画面への追加の案内を閉じたことを保存する localStorage のキー */
+const INSTALL_DISMISSED_KEY = 'kintai_pwa_install_dismissed';
+
+/** 起動直後に受け取ったインストールの案内（表示するまで保持する） */
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+
+/** インストールの案内の変化を通知する処理 */
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * サービスワーカーを登録し、インストールの案内の受け取りを開始する（main.tsx で起動時に1回呼ぶ）。
+ * 開発サーバーでは古いビルドのキャッシュで画面が更新されないのを避けるため登録しない。
+ */
+export function setupPwa(): void {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault();
+    deferredPrompt = event as BeforeInstallPromptEvent;
+    notify();
+  });
+  window.addEventListener('appinstalled', () => {
+    deferredPrompt = null;
+    notify();
+  });
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      logError('Failed to register service worker:', error);
+    });
+  });
+}
+
+/**
+ * インストールの案内の変化を受け取る。
+ *
+ * @param {() => void} listener - 変化した時に呼ぶ処理。
+ * @returns {() => void} 受け取りを止める関数。
+ */
+export function subscribeInstallPrompt(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 保持しているインストールの案内があるかを返す。
+ *
+ * @returns {boolean} ブラウザの案内を表示できる場合は true。
+ */
+export function hasInstallPrompt(): boolean {
+  return deferredPrompt !== null;
+}
+
+/**
+ * ブラウザのインストールの案内を表示する（案内は1回しか表示できないため、表示後は破棄する）。
+ *
+ * @returns {Promise<boolean>} ホーム画面に追加した場合は true。案内が無い・キャンセルした場合は false。
+ */
+export async function showInstallPrompt(): Promise<boolean> {
+  const prompt = deferredPrompt;
+  if (!prompt) return false;
+  deferredPrompt = null;
+  notify();
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  return outcome === 'accepted';
+}
+
+/**
+ * ホーム画面から起動しているかを返す。
+ *
+ * @returns {boolean} display-mode が standalone、または iOS のホーム画面から起動した場合は true。
+ */
+export function isStandaloneDisplay(): boolean {
+  const isStandaloneMedia = typeof window.matchMedia === 'function' && window.matchMedia('(display-mode: standalone)').matches;
+  return isStandaloneMedia || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+}
+
+/**
+ * iPhone・iPad かを返す（iPadOS のSafariはMacと同じUser-Agentのため、タッチ操作の有無で判定する）。
+ *
+ * @param {string} userAgent - User-Agent。
+ * @param {number} maxTouchPoints - 同時にタッチできる数（navigator.maxTouchPoints）。
+ * @returns {boolean} iPhone・iPad・iPod なら true。
+ */
+export function isIosDevice(userAgent: string, maxTouchPoints: number): boolean {
+  if (/iPhone|iPad|iPod/.test(userAgent)) return true;
+  return /Macintosh/.test(userAgent) && maxTouchPoints > 1;
+}
+
+/**
+ * ホーム画面への追加の方法を返す。
+ *
+ * @param {{ isStandalone: boolean; hasPrompt: boolean; isIos: boolean }} state - 起動方法・インストールの案内の有無・端末。
+ * @returns {PwaInstallMethod} ホーム画面への追加の方法。
+ */
+export function getPwaInstallMethod(state: { isStandalone: boolean; hasPrompt: boolean; isIos: boolean }): PwaInstallMethod {
+  if (state.isStandalone) return 'installed';
+  if (state.hasPrompt) return 'prompt';
+  if (state.isIos) return 'ios';
+  return 'unsupported';
+}
+
+/**
+ * ホーム画面への追加の案内を閉じたかを返す。
+ *
+ * @returns {boolean} 閉じた場合は true。
+ */
+export function isInstallGuideDismissed(): boolean {
+  return localStorage.getItem(INSTALL_DISMISSED_KEY) === 'true';
+}
+
+/**
+ * ホーム画面への追加の案内を閉じたことを保存する（次回以降は表示しない）。
+ */
+export function dismissInstallGuide(): void {
+  localStorage.setItem(INSTALL_DISMISSED_KEY, 'true');
+}
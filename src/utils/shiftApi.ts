@@ -0,0 +1,161 @@
+/**
+ * シフトAPI呼び出しユーティリティ
+ * 従業員ごとの勤務予定（シフト）を管理する。1従業員1日につき1件で、打刻実績と照合して遅刻・早退を判定する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+
+/**
+ * シフト1件を表すインターフェース
+ */
+export interface Shift {
+  id: string;
+  employeeId: string;
+  /** 勤務日（YYYY-MM-DD）。日付をまたぐシフトは開始日に属する */
+  workDate: string;
+  /** 開始時刻（HH:MM） */
+  startTime: string;
+  /** 終了時刻（HH:MM）。開始時刻以前の場合は翌日の時刻 */
+  endTime: string;
+  /** 予定休憩時間（分） */
+  breakMinutes: number;
+  /** 勤務拠点ID。nullの場合は未指定 */
+  workLocationId: string | null;
+  memo?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * シフト一覧取得レスポンス
+ */
+export interface ShiftListResponse {
+  shifts: Shift[];
+  total: number;
+}
+
+/**
+ * シフト一括登録・更新リクエストの1件
+ * 従業員ID＋勤務日が一致するシフトがあれば上書きする。
+ */
+export interface UpsertShiftRequest {
+  employeeId: string;
+  workDate: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  workLocationId: string | null;
+  memo?: string | null;
+}
+
+/**
+ * シフト一覧取得（管理者）
+ * @param startDate 開始日（YYYY-MM-DD）
+ * @param endDate 終了日（YYYY-MM-DD）
+ * @param employeeId 従業員ID（オプション、指定時はその従業員のみ）
+ * @returns シフト一覧
+ */
+export const getShifts = async (
+  startDate: string,
+  endDate: string,
+  employeeId?: string
+): Promise<ShiftListResponse> => {
+  try {
+    const params = new URLSearchParams({ startDate, endDate });
+    if (employeeId) {
+      params.append('employeeId', employeeId);
+    }
+    const response = await apiRequest(`/api/v1/shifts?${params.toString()}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data || { shifts: [], total: 0 };
+  } catch (error) {
+    logError('Failed to fetch shifts:', error);
+    throw error;
+  }
+};
+
+/**
+ * 自分のシフト一覧取得（従業員）
+ * @param startDate 開始日（YYYY-MM-DD）
+ * @param endDate 終了日（YYYY-MM-DD）
+ * @returns ログインユーザーのシフト一覧
+ */
+export const getMyShifts = async (startDate: string, endDate: string): Promise<ShiftListResponse> => {
+  try {
+    const params = new URLSearchParams({ startDate, endDate });
+    const response = await apiRequest(`/api/v1/shifts/my?${params.toString()}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data || { shifts: [], total: 0 };
+  } catch (error) {
+    logError('Failed to fetch my shifts:', error);
+    throw error;
+  }
+};
+
+/**
+ * シフト一括登録・更新
+ * 週のコピー等で複数件をまとめて保存する。
+ * @param shifts 登録・更新するシフト
+ * @returns 保存後のシフト
+ */
+export const upsertShifts = async (shifts: UpsertShiftRequest[]): Promise<Shift[]> => {
+  try {
+    const response = await apiRequest('/api/v1/shifts/bulk', {
+      method: 'PUT',
+      body: JSON.stringify({ shifts }),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.shifts || [];
+  } catch (error) {
+    logError('Failed to save shifts:', error);
+    throw error;
+  }
+};
+
+/**
+ * シフト削除
+ * @param shiftId シフトID
+ */
+export const deleteShift = async (shiftId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/shifts/${shiftId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete shift:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * shiftComparison のユニットテスト。
+ *
+ * 対象: compareShiftWithStamp（遅刻・早退・シフト外勤務の判定）/ formatShiftTimeRange
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（出勤簿の予定・実績照合）
+ *
+ * 打刻は YYYY-MM-DD HH:MM:SS（JST）、シフトは HH:MM で、日付をまたぐシフトは終了時刻を翌日として扱う。
+ */
+import { describe, it, expect } from 'vitest';
+import { compareShiftWithStamp, formatShiftTimeRange, getShiftWorkMinutes } from './shiftComparison';
+
+const dayShift = { workDate: '2025-06-02', startTime: '09:00', endTime: '18:00' };
+const nightShift = { workDate: '2025-06-02', startTime: '22:00', endTime: '05:00' };
+
+describe('compareShiftWithStamp', () => {
+  it('シフトどおりの打刻は逸脱なし', () => {
+    const result = compareShiftWithStamp(dayShift, { clockIn: '2025-06-02 08:55:00', clockOut: '2025-06-02 18:05:00' });
+    expect(result).toEqual({ isLate: false, lateMinutes: 0, isEarlyLeave: false, earlyLeaveMinutes: 0, isUnscheduled: false });
+  });
+
+  it('開始後の出勤は遅刻、終了前の退勤は早退（猶予内は除外）', () => {
+    const result = compareShiftWithStamp(dayShift, { clockIn: '2025-06-02 09:12:00', clockOut: '2025-06-02 17:30:00' });
+    expect(result.isLate).toBe(true);
+    expect(result.lateMinutes).toBe(12);
+    expect(result.isEarlyLeave).toBe(true);
+    expect(result.earlyLeaveMinutes).toBe(30);
+    expect(compareShiftWithStamp(dayShift, { clockIn: '2025-06-02 09:04:00', clockOut: null }, 5).isLate).toBe(false);
+  });
+
+  it('日付をまたぐシフトは翌日の退勤打刻と比較する', () => {
+    const onTime = compareShiftWithStamp(nightShift, { clockIn: '2025-06-02 21:50:00', clockOut: '2025-06-03 05:00:00' });
+    expect(onTime.isEarlyLeave).toBe(false);
+    const early = compareShiftWithStamp(nightShift, { clockIn: '2025-06-02 22:00:00', clockOut: '2025-06-03 04:00:00' });
+    expect(early.earlyLeaveMinutes).toBe(60);
+  });
+
+  it('シフトが無い日の出勤はシフト外勤務、打刻が無ければ判定しない', () => {
+    expect(compareShiftWithStamp(undefined, { clockIn: '2025-06-02 09:00:00', clockOut: null }).isUnscheduled).toBe(true);
+    expect(compareShiftWithStamp(dayShift, undefined).isLate).toBe(false);
+  });
+});
+
+describe('formatShiftTimeRange / getShiftWorkMinutes', () => {
+  it('日付をまたぐ終了時刻に「翌」を付ける', () => {
+    expect(formatShiftTimeRange(dayShift)).toBe('09:00〜18:00');
+    expect(formatShiftTimeRange(nightShift)).toBe('22:00〜翌05:00');
+    expect(getShiftWorkMinutes({ ...nightShift, breakMinutes: 60 })).toBe(360);
+  });
+});
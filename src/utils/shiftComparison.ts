@@ -0,0 +1,116 @@
+/**
+ * シフト（予定）と打刻（実績）の照合ユーティリティ。
+ * 遅刻・早退・シフト外勤務を判定する。時刻はすべて勤務日の0時からの経過分で比較し、
+ * 終了時刻が開始時刻以前のシフト（例: 22:00〜翌05:00）は翌日の時刻として扱う。
+ */
+
+import type { Shift } from './shiftApi';
+
+/** 照合に必要なシフトの項目 */
+export type ShiftLike = Pick<Shift, 'workDate' | 'startTime' | 'endTime'>;
+
+/** 照合に必要な打刻の項目（出退勤は YYYY-MM-DD HH:MM:SS 形式の JST） */
+export interface StampLike {
+  clockIn: string | null;
+  clockOut: string | null;
+}
+
+/** 予定と実績の照合結果 */
+export interface ShiftDeviation {
+  /** 遅刻（シフト開始より後に出勤） */
+  isLate: boolean;
+  /** 遅刻時間（分） */
+  lateMinutes: number;
+  /** 早退（シフト終了より前に退勤） */
+  isEarlyLeave: boolean;
+  /** 早退時間（分） */
+  earlyLeaveMinutes: number;
+  /** シフト外勤務（シフトが無い日の出勤） */
+  isUnscheduled: boolean;
+}
+
+const NO_DEVIATION: ShiftDeviation = {
+  isLate: false,
+  lateMinutes: 0,
+  isEarlyLeave: false,
+  earlyLeaveMinutes: 0,
+  isUnscheduled: false
+};
+
+function hhmmToMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * シフトの開始・終了を勤務日0時からの経過分で返す。終了が開始以前なら翌日とみなす。
+ *
+ * @param {Pick<Shift, 'startTime' | 'endTime'>} shift - シフト。
+ * @returns {{ start: number; end: number }} 開始・終了（分）。
+ */
+export function getShiftMinutesRange(shift: Pick<Shift, 'startTime' | 'endTime'>): { start: number; end: number } {
+  const start = hhmmToMinutes(shift.startTime);
+  let end = hhmmToMinutes(shift.endTime);
+  if (end <= start) end += 24 * 60;
+  return { start, end };
+}
+
+/** 打刻日時（YYYY-MM-DD HH:MM:SS）を勤務日0時からの経過分に変換 */
+function stampToMinutesFrom(workDate: string, dateTime: string): number | null {
+  const match = dateTime.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi] = match.map(Number);
+  const [wy, wm, wd] = workDate.split('-').map(Number);
+  const dayDiff = Math.round((Date.UTC(y, mo - 1, d) - Date.UTC(wy, wm - 1, wd)) / 86400000);
+  return dayDiff * 24 * 60 + h * 60 + mi;
+}
+
+/**
+ * シフトと打刻を照合する。
+ * - シフトがあり出勤打刻がシフト開始＋猶予より後 → 遅刻
+ * - シフトがあり退勤打刻がシフト終了−猶予より前 → 早退
+ * - シフトが無く出勤打刻がある → シフト外勤務
+ *
+ * @param {ShiftLike | undefined} shift - その日のシフト。無ければ undefined。
+ * @param {StampLike | undefined} stamp - その日の打刻。無ければ undefined。
+ * @param {number} graceMinutes - 遅刻・早退とみなさない猶予（分）。
+ * @returns {ShiftDeviation} 照合結果。
+ */
+export function compareShiftWithStamp(
+  shift: ShiftLike | undefined,
+  stamp: StampLike | undefined,
+  graceMinutes: number = 0
+): ShiftDeviation {
+  if (!stamp?.clockIn) return NO_DEVIATION;
+  if (!shift) return { ...NO_DEVIATION, isUnscheduled: true };
+
+  const { start, end } = getShiftMinutesRange(shift);
+  const clockIn = stampToMinutesFrom(shift.workDate, stamp.clockIn);
+  const clockOut = stamp.clockOut ? stampToMinutesFrom(shift.workDate, stamp.clockOut) : null;
+
+  const lateMinutes = clockIn !== null && clockIn > start + graceMinutes ? clockIn - start : 0;
+  const earlyLeaveMinutes = clockOut !== null && clockOut < end - graceMinutes ? end - clockOut : 0;
+  return {
+    isLate: lateMinutes > 0,
+    lateMinutes,
+    isEarlyLeave: earlyLeaveMinutes > 0,
+    earlyLeaveMinutes,
+    isUnscheduled: false
+  };
+}
+
+/**
+ * 表示用: 「09:00〜18:00」「22:00〜翌05:00」
+ */
+export function formatShiftTimeRange(shift: Pick<Shift, 'startTime' | 'endTime'>): string {
+  const { end } = getShiftMinutesRange(shift);
+  return `${shift.startTime}〜${end >= 24 * 60 ? '翌' : ''}${shift.endTime}`;
+}
+
+/**
+ * シフトの予定労働時間（分）。休憩時間を差し引く。
+ */
+export function getShiftWorkMinutes(shift: Pick<Shift, 'startTime' | 'endTime' | 'breakMinutes'>): number {
+  const { start, end } = getShiftMinutesRange(shift);
+  return Math.max(0, end - start - (shift.breakMinutes || 0));
+}
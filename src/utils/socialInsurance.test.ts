@@ -0,0 +1,147 @@
+/**
+ * socialInsurance のユニットテスト。
+ *
+ * 対象: findStandardRemunerationGrade / resolveStandardRemuneration / resolveInsuranceRate / isNursingCareInsured /
+ *       roundEmployeePremium / calculateSocialInsurancePremiums / calculateAnnualAverage / evaluateMonthlyRevision /
+ *       allocatePremiumsToDeductions
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  findStandardRemunerationGrade,
+  resolveStandardRemuneration,
+  resolveInsuranceRate,
+  isNursingCareInsured,
+  roundEmployeePremium,
+  calculateSocialInsurancePremiums,
+  calculateAnnualAverage,
+  evaluateMonthlyRevision,
+  allocatePremiumsToDeductions,
+  type InsuranceRateLike
+} from './socialInsurance';
+
+/** テスト用の保険料率 */
+const rate: InsuranceRateLike = {
+  effectiveFrom: '2025-03',
+  prefecture: '東京都',
+  healthInsuranceRate: 10,
+  nursingCareRate: 1.6,
+  pensionRate: 18.3,
+  employmentInsuranceRate: 0.55
+};
+
+describe('findStandardRemunerationGrade', () => {
+  it('報酬月額から健康保険・厚生年金の等級を決定する', () => {
+    expect(findStandardRemunerationGrade(300000)).toEqual({ healthGrade: 22, healthAmount: 300000, pensionGrade: 19, pensionAmount: 300000 });
+    expect(findStandardRemunerationGrade(289999).healthAmount).toBe(280000);
+  });
+
+  it('厚生年金は1級（88,000円）〜32級（650,000円）に収める', () => {
+    expect(findStandardRemunerationGrade(50000)).toEqual({ healthGrade: 1, healthAmount: 58000, pensionGrade: 1, pensionAmount: 88000 });
+    expect(findStandardRemunerationGrade(2000000)).toEqual({ healthGrade: 50, healthAmount: 1390000, pensionGrade: 32, pensionAmount: 650000 });
+  });
+});
+
+describe('resolveStandardRemuneration / resolveInsuranceRate', () => {
+  it('指定月以前で最も新しい履歴・料率を返す', () => {
+    const history = [
+      { effectiveFrom: '2024-09', healthGrade: 20 },
+      { effectiveFrom: '2025-09', healthGrade: 22 }
+    ];
+    expect(resolveStandardRemuneration(history, 2025, 8)?.healthGrade).toBe(20);
+    expect(resolveStandardRemuneration(history, 2025, 9)?.healthGrade).toBe(22);
+    expect(resolveStandardRemuneration(history, 2024, 8)).toBeNull();
+
+    const rates = [rate, { ...rate, effectiveFrom: '2024-03', healthInsuranceRate: 9.98 }, { ...rate, prefecture: '大阪府' }];
+    expect(resolveInsuranceRate(rates, '東京都', 2025, 2)?.healthInsuranceRate).toBe(9.98);
+    expect(resolveInsuranceRate(rates, '東京都', 2025, 3)?.healthInsuranceRate).toBe(10);
+    expect(resolveInsuranceRate(rates, '北海道', 2025, 3)).toBeNull();
+  });
+});
+
+describe('isNursingCareInsured', () => {
+  it('40歳に達した日の属する月から65歳に達した日の属する月の前月まで', () => {
+    // 1985-04-15 生まれ: 40歳に達した日 = 2025-04-14
+    expect(isNursingCareInsured('1985-04-15', 2025, 3)).toBe(false);
+    expect(isNursingCareInsured('1985-04-15', 2025, 4)).toBe(true);
+    // 1月1日生まれは前年12月31日に達する
+    expect(isNursingCareInsured('1985-01-01', 2024, 12)).toBe(true);
+    // 1960-06-10 生まれ: 65歳に達した日 = 2025-06-09 → 5月分まで
+    expect(isNursingCareInsured('1960-06-10', 2025, 5)).toBe(true);
+    expect(isNursingCareInsured('1960-06-10', 2025, 6)).toBe(false);
+    expect(isNursingCareInsured(undefined, 2025, 6)).toBe(false);
+  });
+});
+
+describe('roundEmployeePremium / calculateSocialInsurancePremiums', () => {
+  it('50銭以下は切捨て、50銭超は切上げ', () => {
+    expect(roundEmployeePremium(100.5)).toBe(100);
+    expect(roundEmployeePremium(100.51)).toBe(101);
+  });
+
+  it('標準報酬月額と賃金総額から被保険者負担分を計算する', () => {
+    expect(calculateSocialInsurancePremiums({
+      healthGrade: 22,
+      rate,
+      nursingCare: true,
+      wage: 310500,
+      healthInsuranceEnrolled: true,
+      employmentInsuranceEnrolled: true
+    })).toEqual({ healthInsurance: 15000, nursingCareInsurance: 2400, employeePension: 27450, employmentInsurance: 1708 });
+  });
+
+  it('未加入の保険は0円', () => {
+    const premiums = calculateSocialInsurancePremiums({
+      healthGrade: 22,
+      rate,
+      nursingCare: true,
+      wage: 310500,
+      healthInsuranceEnrolled: false,
+      employmentInsuranceEnrolled: true
+    });
+    expect(premiums.healthInsurance + premiums.nursingCareInsurance + premiums.employeePension).toBe(0);
+  });
+});
+
+describe('calculateAnnualAverage / evaluateMonthlyRevision', () => {
+  it('算定基礎届は支払基礎日数17日以上の月だけを平均する', () => {
+    expect(calculateAnnualAverage([
+      { year: 2025, month: 4, remuneration: 300000, baseDays: 20 },
+      { year: 2025, month: 5, remuneration: 100000, baseDays: 10 },
+      { year: 2025, month: 6, remuneration: 310001, baseDays: 21 }
+    ])).toBe(305000);
+    expect(calculateAnnualAverage([{ year: 2025, month: 4, remuneration: 300000, baseDays: 5 }])).toBeNull();
+  });
+
+  it('月額変更届は3か月平均が2等級以上変わる場合に4か月目から改定する', () => {
+    const months = [10, 11, 12].map(month => ({ year: 2025, month, remuneration: 345000, baseDays: 20 }));
+    const result = evaluateMonthlyRevision(22, months);
+    expect(result.decision?.healthGrade).toBe(24);
+    expect(result.required).toBe(true);
+    expect(result.effectiveFrom).toBe('2026-01');
+    expect(evaluateMonthlyRevision(23, months).required).toBe(false);
+    expect(evaluateMonthlyRevision(20, [...months.slice(0, 2), { ...months[2], baseDays: 16 }]).required).toBe(false);
+  });
+});
+
+describe('allocatePremiumsToDeductions', () => {
+  const premiums = { healthInsurance: 15000, nursingCareInsurance: 2400, employeePension: 27450, employmentInsurance: 1708 };
+
+  it('控除項目名で割り当て、「社会保険」には健康保険料と介護保険料の合計を設定する', () => {
+    const deductions = [
+      { id: 'd1', name: '社会保険' },
+      { id: 'd2', name: '厚生年金' },
+      { id: 'd3', name: '雇用保険' },
+      { id: 'd4', name: '所得税' }
+    ];
+    expect(allocatePremiumsToDeductions(premiums, deductions, { health: true, employment: true }))
+      .toEqual({ d1: 17400, d2: 27450, d3: 1708 });
+    expect(allocatePremiumsToDeductions(premiums, deductions, { health: false, employment: true }))
+      .toEqual({ d3: 1708 });
+  });
+
+  it('「健康保険」「介護保険」がある場合はそれぞれに設定する', () => {
+    const deductions = [{ id: 'h', name: '健康保険' }, { id: 'n', name: '介護保険' }, { id: 's', name: '社会保険' }];
+    expect(allocatePremiumsToDeductions(premiums, deductions, { health: true, employment: false }))
+      .toEqual({ h: 15000, n: 2400 });
+  });
+});
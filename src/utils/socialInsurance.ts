@@ -0,0 +1,333 @@
+/**
+ * 社会保険（健康保険・介護保険・厚生年金保険・雇用保険）の標準報酬月額と保険料の計算ユーティリティ。
+ *
+ * - 標準報酬月額: 報酬月額を等級表（健康保険 1〜50級、厚生年金 1〜32級）に当てはめて決定する。
+ * - 算定基礎届（定時決定）: 4〜6月の報酬の平均で決定し、9月分から適用する。
+ * - 月額変更届（随時改定）: 固定的賃金の変動月から3か月の平均が2等級以上変わった場合、4か月目から改定する。
+ * - 保険料: 都道府県・適用開始月ごとの保険料率（{@link InsuranceRateLike}）で被保険者負担分を求める。
+ */
+
+import type { StandardRemunerationReason } from './employeeApi';
+
+/** 標準報酬月額の決定理由の表示名 */
+export const STANDARD_REMUNERATION_REASON_LABELS: Record<StandardRemunerationReason, string> = {
+  ACQUISITION: '資格取得時決定',
+  ANNUAL: '定時決定（算定基礎届）',
+  REVISION: '随時改定（月額変更届）'
+};
+
+/** 標準報酬月額の等級（健康保険） */
+export interface StandardRemunerationGrade {
+  /** 健康保険の等級 */
+  grade: number;
+  /** 標準報酬月額 */
+  amount: number;
+  /** 報酬月額の下限（以上） */
+  min: number;
+  /** 報酬月額の上限（未満）。最上位等級は null */
+  max: number | null;
+}
+
+/** 健康保険の標準報酬月額等級表（厚生年金は健康保険の4級〜35級を1級〜32級として使用） */
+export const STANDARD_REMUNERATION_GRADES: StandardRemunerationGrade[] = [
+  [58000, 0, 63000], [68000, 63000, 73000], [78000, 73000, 83000], [88000, 83000, 93000],
+  [98000, 93000, 101000], [104000, 101000, 107000], [110000, 107000, 114000], [118000, 114000, 122000],
+  [126000, 122000, 130000], [134000, 130000, 138000], [142000, 138000, 146000], [150000, 146000, 155000],
+  [160000, 155000, 165000], [170000, 165000, 175000], [180000, 175000, 185000], [190000, 185000, 195000],
+  [200000, 195000, 210000], [220000, 210000, 230000], [240000, 230000, 250000], [260000, 250000, 270000],
+  [280000, 270000, 290000], [300000, 290000, 310000], [320000, 310000, 330000], [340000, 330000, 350000],
+  [360000, 350000, 370000], [380000, 370000, 395000], [410000, 395000, 425000], [440000, 425000, 455000],
+  [470000, 455000, 485000], [500000, 485000, 515000], [530000, 515000, 545000], [560000, 545000, 575000],
+  [590000, 575000, 605000], [620000, 605000, 635000], [650000, 635000, 665000], [680000, 665000, 695000],
+  [710000, 695000, 730000], [750000, 730000, 770000], [790000, 770000, 810000], [830000, 810000, 855000],
+  [880000, 855000, 905000], [930000, 905000, 955000], [980000, 955000, 1005000], [1030000, 1005000, 1055000],
+  [1090000, 1055000, 1115000], [1150000, 1115000, 1175000], [1210000, 1175000, 1235000], [1270000, 1235000, 1295000],
+  [1330000, 1295000, 1355000], [1390000, 1355000, null]
+].map(([amount, min, max], index) => ({ grade: index + 1, amount: amount as number, min: min as number, max }));
+
+/** 厚生年金の等級 = 健康保険の等級 − 3（1〜32級） */
+const PENSION_GRADE_OFFSET = 3;
+const MAX_PENSION_GRADE = 32;
+
+/** 算定基礎届・月額変更届で対象とする支払基礎日数の下限 */
+export const MIN_PAYMENT_BASE_DAYS = 17;
+
+/** 月額変更届が必要となる等級差 */
+export const REVISION_GRADE_DIFFERENCE = 2;
+
+/** 都道府県（協会けんぽの保険料率の区分） */
+export const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'
+];
+
+/** 標準報酬月額の決定（健康保険・厚生年金） */
+export interface StandardRemunerationDecision {
+  healthGrade: number;
+  healthAmount: number;
+  pensionGrade: number;
+  pensionAmount: number;
+}
+
+/** 標準報酬月額の履歴1件（適用開始月つき） */
+export interface StandardRemunerationLike {
+  /** 適用開始月（YYYY-MM） */
+  effectiveFrom: string;
+  /** 健康保険の等級 */
+  healthGrade: number;
+}
+
+/** 保険料率（都道府県・適用開始月ごと、いずれも%） */
+export interface InsuranceRateLike {
+  /** 適用開始月（YYYY-MM） */
+  effectiveFrom: string;
+  prefecture: string;
+  /** 健康保険料率（労使合計） */
+  healthInsuranceRate: number;
+  /** 介護保険料率（労使合計） */
+  nursingCareRate: number;
+  /** 厚生年金保険料率（労使合計） */
+  pensionRate: number;
+  /** 雇用保険料率（被保険者負担分） */
+  employmentInsuranceRate: number;
+}
+
+/** 1か月分の報酬（算定基礎届・月額変更届の計算用） */
+export interface MonthlyRemuneration {
+  year: number;
+  month: number;
+  /** 報酬額（通勤手当を含む総支給額） */
+  remuneration: number;
+  /** 支払基礎日数 */
+  baseDays: number;
+}
+
+/** 被保険者負担分の保険料 */
+export interface SocialInsurancePremiums {
+  healthInsurance: number;
+  nursingCareInsurance: number;
+  employeePension: number;
+  employmentInsurance: number;
+}
+
+const toYearMonth = (year: number, month: number): string => `${year}-${String(month).padStart(2, '0')}`;
+
+/**
+ * 報酬月額から標準報酬月額（健康保険・厚生年金の等級）を決定する。
+ *
+ * @param {number} remuneration - 報酬月額。
+ * @returns {StandardRemunerationDecision} 決定した等級と標準報酬月額。
+ */
+export function findStandardRemunerationGrade(remuneration: number): StandardRemunerationDecision {
+  const health = STANDARD_REMUNERATION_GRADES.find(g => g.max === null || remuneration < g.max)!;
+  return gradeToDecision(health.grade);
+}
+
+/**
+ * 健康保険の等級から標準報酬月額（健康保険・厚生年金）を求める。
+ *
+ * @param {number} healthGrade - 健康保険の等級（1〜50）。
+ * @returns {StandardRemunerationDecision} 等級と標準報酬月額。
+ */
+export function gradeToDecision(healthGrade: number): StandardRemunerationDecision {
+  const health = STANDARD_REMUNERATION_GRADES[Math.min(Math.max(healthGrade, 1), STANDARD_REMUNERATION_GRADES.length) - 1];
+  const pensionGrade = Math.min(Math.max(health.grade - PENSION_GRADE_OFFSET, 1), MAX_PENSION_GRADE);
+  return {
+    healthGrade: health.grade,
+    healthAmount: health.amount,
+    pensionGrade,
+    pensionAmount: STANDARD_REMUNERATION_GRADES[pensionGrade + PENSION_GRADE_OFFSET - 1].amount
+  };
+}
+
+/**
+ * 指定月に適用される標準報酬月額の履歴を返す（適用開始月が指定月以前で最も新しいもの）。
+ *
+ * @param {T[]} history - 標準報酬月額の履歴（順不同）。
+ * @param {number} year - 年。
+ * @param {number} month - 月。
+ * @returns {T | null} 該当する履歴。無ければ null。
+ */
+export function resolveStandardRemuneration<T extends StandardRemunerationLike>(
+  history: T[] | null | undefined,
+  year: number,
+  month: number
+): T | null {
+  const target = toYearMonth(year, month);
+  return [...(history ?? [])]
+    .filter(record => record.effectiveFrom <= target)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0] ?? null;
+}
+
+/**
+ * 指定月に適用される都道府県の保険料率を返す。
+ *
+ * @param {T[]} rates - 保険料率の一覧（順不同）。
+ * @param {string} prefecture - 都道府県。
+ * @param {number} year - 年。
+ * @param {number} month - 月。
+ * @returns {T | null} 該当する保険料率。無ければ null。
+ */
+export function resolveInsuranceRate<T extends InsuranceRateLike>(
+  rates: T[],
+  prefecture: string,
+  year: number,
+  month: number
+): T | null {
+  const target = toYearMonth(year, month);
+  return rates
+    .filter(rate => rate.prefecture === prefecture && rate.effectiveFrom <= target)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0] ?? null;
+}
+
+/**
+ * 介護保険の第2号被保険者（40歳以上65歳未満）に該当する月かどうか。
+ * 40歳に達した日（誕生日の前日）の属する月から、65歳に達した日の属する月の前月までが対象。
+ *
+ * @param {string | null | undefined} birthDate - 生年月日（YYYY-MM-DD）。
+ * @param {number} year - 年。
+ * @param {number} month - 月。
+ * @returns {boolean} 対象の場合は true。生年月日が未登録の場合は false。
+ */
+export function isNursingCareInsured(birthDate: string | null | undefined, year: number, month: number): boolean {
+  if (!birthDate) return false;
+  const [y, m, d] = birthDate.split('-').map(Number);
+  const reachedMonth = (age: number): string => {
+    const dayBefore = new Date(y + age, m - 1, d - 1);
+    return toYearMonth(dayBefore.getFullYear(), dayBefore.getMonth() + 1);
+  };
+  const target = toYearMonth(year, month);
+  return target >= reachedMonth(40) && target < reachedMonth(65);
+}
+
+/**
+ * 被保険者負担分の端数処理（50銭以下切捨て、50銭超切上げ）。
+ *
+ * @param {number} amount - 端数を含む保険料。
+ * @returns {number} 円単位の保険料。
+ */
+export function roundEmployeePremium(amount: number): number {
+  const yen = Math.floor(amount);
+  return amount - yen > 0.5 ? yen + 1 : yen;
+}
+
+/**
+ * 給与から控除する被保険者負担分の保険料を計算する。
+ * 健康保険・介護保険・厚生年金は標準報酬月額、雇用保険はその月の賃金総額にかける。
+ *
+ * @param {Object} params - 計算条件。
+ * @param {number} params.healthGrade - 健康保険の等級。
+ * @param {InsuranceRateLike} params.rate - 保険料率。
+ * @param {boolean} params.nursingCare - 介護保険の対象か。
+ * @param {number} params.wage - 雇用保険の対象となる賃金総額。
+ * @param {boolean} params.healthInsuranceEnrolled - 健康保険・厚生年金の被保険者か。
+ * @param {boolean} params.employmentInsuranceEnrolled - 雇用保険の被保険者か。
+ * @returns {SocialInsurancePremiums} 被保険者負担分の保険料。
+ */
+export function calculateSocialInsurancePremiums(params: {
+  healthGrade: number;
+  rate: InsuranceRateLike;
+  nursingCare: boolean;
+  wage: number;
+  healthInsuranceEnrolled: boolean;
+  employmentInsuranceEnrolled: boolean;
+}): SocialInsurancePremiums {
+  const { healthAmount, pensionAmount } = gradeToDecision(params.healthGrade);
+  const half = (standard: number, ratePercent: number): number =>
+    roundEmployeePremium((standard * ratePercent) / 100 / 2);
+  return {
+    healthInsurance: params.healthInsuranceEnrolled ? half(healthAmount, params.rate.healthInsuranceRate) : 0,
+    nursingCareInsurance: params.healthInsuranceEnrolled && params.nursingCare ? half(healthAmount, params.rate.nursingCareRate) : 0,
+    employeePension: params.healthInsuranceEnrolled ? half(pensionAmount, params.rate.pensionRate) : 0,
+    employmentInsurance: params.employmentInsuranceEnrolled
+      ? roundEmployeePremium((params.wage * params.rate.employmentInsuranceRate) / 100)
+      : 0
+  };
+}
+
+/**
+ * 算定基礎届（定時決定）の報酬月額を求める。
+ * 4〜6月のうち支払基礎日数が基準以上の月の報酬を平均する（1円未満切捨て）。
+ *
+ * @param {MonthlyRemuneration[]} months - 4〜6月の報酬。
+ * @param {number} [minBaseDays=MIN_PAYMENT_BASE_DAYS] - 支払基礎日数の下限。
+ * @returns {number | null} 報酬月額。対象となる月が無い場合は null（従前の標準報酬月額で決定）。
+ */
+export function calculateAnnualAverage(months: MonthlyRemuneration[], minBaseDays: number = MIN_PAYMENT_BASE_DAYS): number | null {
+  const targets = months.filter(m => m.baseDays >= minBaseDays);
+  if (targets.length === 0) return null;
+  return Math.floor(targets.reduce((sum, m) => sum + m.remuneration, 0) / targets.length);
+}
+
+/**
+ * 月額変更届（随時改定）の要否を判定する。
+ * 変動月から3か月とも支払基礎日数が基準以上で、平均の等級が現在の等級から2等級以上変わる場合に改定が必要。
+ *
+ * @param {number} currentHealthGrade - 現在の健康保険の等級。
+ * @param {MonthlyRemuneration[]} months - 固定的賃金の変動月から3か月分の報酬。
+ * @returns {{ average: number | null; decision: StandardRemunerationDecision | null; gradeDifference: number; required: boolean; effectiveFrom: string | null }} 判定結果。
+ */
+export function evaluateMonthlyRevision(
+  currentHealthGrade: number,
+  months: MonthlyRemuneration[]
+): { average: number | null; decision: StandardRemunerationDecision | null; gradeDifference: number; required: boolean; effectiveFrom: string | null } {
+  const sorted = [...months].sort((a, b) => toYearMonth(a.year, a.month).localeCompare(toYearMonth(b.year, b.month)));
+  if (sorted.length < 3 || sorted.some(m => m.baseDays < MIN_PAYMENT_BASE_DAYS)) {
+    return { average: null, decision: null, gradeDifference: 0, required: false, effectiveFrom: null };
+  }
+  const average = Math.floor(sorted.reduce((sum, m) => sum + m.remuneration, 0) / sorted.length);
+  const decision = findStandardRemunerationGrade(average);
+  const gradeDifference = decision.healthGrade - currentHealthGrade;
+  const last = sorted[sorted.length - 1];
+  const next = new Date(last.year, last.month, 1);
+  return {
+    average,
+    decision,
+    gradeDifference,
+    required: Math.abs(gradeDifference) >= REVISION_GRADE_DIFFERENCE,
+    effectiveFrom: toYearMonth(next.getFullYear(), next.getMonth() + 1)
+  };
+}
+
+/**
+ * 保険料を控除マスタの項目に割り当てる（控除項目名で判定）。
+ * 「健康保険」「介護保険」が無い場合は「社会保険」に健康保険料と介護保険料の合計を設定する。
+ *
+ * @param {SocialInsurancePremiums} premiums - 被保険者負担分の保険料。
+ * @param {Array<{ id: string; name: string }>} deductions - 控除マスタ。
+ * @param {{ health: boolean; employment: boolean }} targets - 計算できた保険（健康保険・厚生年金／雇用保険）。
+ * @returns {Record<string, number>} 控除IDをキーとした計算値。計算対象外の項目は含まない。
+ */
+export function allocatePremiumsToDeductions(
+  premiums: SocialInsurancePremiums,
+  deductions: Array<{ id: string; name: string }>,
+  targets: { health: boolean; employment: boolean }
+): Record<string, number> {
+  const names = new Set(deductions.map(d => d.name));
+  const result: Record<string, number> = {};
+  deductions.forEach(deduction => {
+    switch (deduction.name) {
+      case '健康保険':
+        if (targets.health) result[deduction.id] = premiums.healthInsurance + (names.has('介護保険') ? 0 : premiums.nursingCareInsurance);
+        break;
+      case '介護保険':
+        if (targets.health) result[deduction.id] = premiums.nursingCareInsurance;
+        break;
+      case '社会保険':
+        if (targets.health && !names.has('健康保険')) result[deduction.id] = premiums.healthInsurance + premiums.nursingCareInsurance;
+        break;
+      case '厚生年金':
+        if (targets.health) result[deduction.id] = premiums.employeePension;
+        break;
+      case '雇用保険':
+        if (targets.employment) result[deduction.id] = premiums.employmentInsurance;
+        break;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,128 @@
+/**
+ * 社会保険API呼び出しユーティリティ
+ * 都道府県ごとの保険料率（年度改定ごとに適用開始月を指定して登録）と、従業員の標準報酬月額の決定を管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { InsuranceRateLike } from './socialInsurance';
+import type { StandardRemunerationRecord } from './employeeApi';
+
+/**
+ * 保険料率1件（都道府県・適用開始月ごと）
+ */
+export interface InsuranceRate extends InsuranceRateLike {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 保険料率作成リクエスト
+ */
+export type CreateInsuranceRateRequest = InsuranceRateLike;
+
+/**
+ * 保険料率一覧取得
+ * @returns 保険料率一覧（全期間・全都道府県）
+ */
+export const getInsuranceRates = async (): Promise<InsuranceRate[]> => {
+  try {
+    const response = await apiRequest('/api/v1/insurance-rates', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.rates || [];
+  } catch (error) {
+    logError('Failed to fetch insurance rates:', error);
+    throw error;
+  }
+};
+
+/**
+ * 保険料率作成
+ * @param payload 適用開始月・都道府県・各保険料率
+ * @returns 作成された保険料率
+ */
+export const createInsuranceRate = async (
+  payload: CreateInsuranceRateRequest
+): Promise<InsuranceRate> => {
+  try {
+    const response = await apiRequest('/api/v1/insurance-rates', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to create insurance rate:', error);
+    throw error;
+  }
+};
+
+/**
+ * 保険料率削除
+ * @param rateId 保険料率ID
+ */
+export const deleteInsuranceRate = async (rateId: string): Promise<void> => {
+  try {
+    const response = await apiRequest(`/api/v1/insurance-rates/${rateId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+  } catch (error) {
+    logError('Failed to delete insurance rate:', error);
+    throw error;
+  }
+};
+
+/**
+ * 標準報酬月額の決定（算定基礎届・月額変更届の結果を履歴に追加）
+ * 同じ適用開始月の履歴がある場合は置き換える。
+ * @param employeeId 従業員ID
+ * @param record 決定した標準報酬月額
+ * @returns 更新後の標準報酬月額の履歴
+ */
+export const addStandardRemuneration = async (
+  employeeId: string,
+  record: StandardRemunerationRecord
+): Promise<StandardRemunerationRecord[]> => {
+  try {
+    const response = await apiRequest(`/api/v1/employees/${employeeId}/standard-remunerations`, {
+      method: 'POST',
+      body: JSON.stringify(record),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data?.standardRemunerations || [];
+  } catch (error) {
+    logError('Failed to add standard remuneration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * transferSheetPdf のユニットテスト。
+ *
+ * 対象: formatBankAccountLabel / buildTransferSummaryRows / buildTransferDetailRows / getTransferSheetPdfFileName
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（振込データ作成画面）
+ *
+ * 照合表の振込明細は振込対象の明細のみを載せ、件数・金額の照合結果は一致・不一致を色分けする。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildTransferDetailRows,
+  buildTransferSummaryRows,
+  formatBankAccountLabel,
+  getTransferSheetPdfFileName,
+  type TransferSheetData
+} from './transferSheetPdf';
+import type { BankAccount } from './employeeApi';
+
+const account: BankAccount = {
+  bankCode: '0001',
+  bankName: 'ﾐｽﾞﾎ',
+  branchCode: '001',
+  branchName: 'ﾄｳｷﾖｳ',
+  accountType: 'ORDINARY',
+  accountNumber: '1234567',
+  accountHolder: 'ﾔﾏﾀﾞ ﾀﾛｳ'
+};
+
+describe('formatBankAccountLabel', () => {
+  it('金融機関・支店・預金種目・口座番号を並べる', () => {
+    expect(formatBankAccountLabel(account)).toBe('0001 ﾐｽﾞﾎ / 001 ﾄｳｷﾖｳ / 普通 1234567');
+  });
+});
+
+describe('buildTransferSummaryRows', () => {
+  it('件数・金額の行と照合結果の行を作り、不一致は赤で表示する', () => {
+    const totals = {
+      statementCount: 3,
+      statementTotal: 600000,
+      transferCount: 2,
+      transferTotal: 450000,
+      excludedCount: 1,
+      excludedTotal: 100000,
+      isBalanced: false
+    };
+    const rows = buildTransferSummaryRows(totals);
+    expect(rows.map(row => row.cells[1])).toEqual(['3', '2', '1', '']);
+    expect(rows[3].cells[2]).toBe('不一致');
+    expect(rows[3].textColors?.[2]).toBe('#991b1b');
+    expect(buildTransferSummaryRows({ ...totals, isBalanced: true })[3]).toMatchObject({
+      cells: ['照合結果', '', '一致'],
+      textColors: [undefined, undefined, '#065f46']
+    });
+  });
+});
+
+describe('buildTransferDetailRows', () => {
+  it('振込対象の明細のみを載せ、最後に件数と金額の合計行を付ける', () => {
+    const rows = buildTransferDetailRows([
+      { employeeName: '山田 太郎', bankAccount: account, netPay: 250000, excludedReason: null },
+      { employeeName: '佐藤 花子', bankAccount: null, netPay: 200000, excludedReason: '口座が登録されていません' },
+      { employeeName: '鈴木 一郎', bankAccount: { ...account, accountHolder: 'ｽｽﾞｷ ｲﾁﾛｳ' }, netPay: 200000, excludedReason: null }
+    ]);
+    expect(rows).toHaveLength(3);
+    expect(rows[0].cells[0]).toBe('山田 太郎');
+    expect(rows[1].cells[2]).toBe('ｽｽﾞｷ ｲﾁﾛｳ');
+    expect(rows[2]).toMatchObject({ cells: ['合計', '2件', '', rows[2].cells[3]], bold: true });
+    expect(rows[2].cells[3]).toContain('450,000');
+  });
+});
+
+describe('getTransferSheetPdfFileName', () => {
+  it('明細種別と対象年月からファイル名を作る', () => {
+    const data = { year: 2025, month: 4, statementLabel: '賞与' } as TransferSheetData;
+    expect(getTransferSheetPdfFileName(data)).toBe('振込照合表_賞与_202504.pdf');
+  });
+});
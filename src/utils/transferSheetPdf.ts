@@ -0,0 +1,185 @@
+/**
+ * 振込合計照合表のPDF出力ユーティリティ。
+ *
+ * - 振込元口座・件数と金額の照合結果・金融機関別内訳・従業員別の振込明細・対象外明細を、pdfLayout で文字と表として描画する
+ * - 従業員が多い場合も表はページに収まらない行を次のページに送り、列見出しを繰り返す
+ */
+
+import { formatCurrency } from './formatters';
+import { createPdfLayout, loadPdfAssets, type PdfLayout, type PdfTableColumn, type PdfTableRow } from './pdfLayout';
+import { BANK_ACCOUNT_TYPE_LABELS, type ZenginRequester } from './zenginTransfer';
+import type { BankAccount } from './employeeApi';
+
+/** 照合表の件数・金額の合計 */
+export interface TransferSheetTotals {
+  statementCount: number;
+  statementTotal: number;
+  transferCount: number;
+  transferTotal: number;
+  excludedCount: number;
+  excludedTotal: number;
+  isBalanced: boolean;
+}
+
+/** 照合表の従業員1人分の明細 */
+export interface TransferSheetRow {
+  employeeName: string;
+  bankAccount: BankAccount | null | undefined;
+  netPay: number;
+  /** 除外理由。振込対象の場合は null */
+  excludedReason: string | null;
+}
+
+/** 照合表の内容 */
+export interface TransferSheetData {
+  year: number;
+  month: number;
+  /** 明細種別の表示名（給与／賞与） */
+  statementLabel: string;
+  /** 振込指定日（YYYY-MM-DD） */
+  transferDate: string;
+  source: ZenginRequester;
+  totals: TransferSheetTotals;
+  bankSummary: Array<{ bankCode: string; bankName: string; count: number; amount: number }>;
+  rows: TransferSheetRow[];
+}
+
+/** 件数・金額の表の列 */
+const SUMMARY_COLUMNS: PdfTableColumn[] = [
+  { header: '区分', width: 5 },
+  { header: '件数', width: 2, align: 'right' },
+  { header: '金額', width: 3, align: 'right' }
+];
+
+/** 金融機関別内訳の表の列 */
+const BANK_COLUMNS: PdfTableColumn[] = [
+  { header: '金融機関', width: 5 },
+  { header: '件数', width: 2, align: 'right' },
+  { header: '金額', width: 3, align: 'right' }
+];
+
+/** 振込明細の表の列 */
+const TRANSFER_COLUMNS: PdfTableColumn[] = [
+  { header: '従業員', width: 3 },
+  { header: '振込先', width: 6 },
+  { header: '口座名義', width: 3 },
+  { header: '差引支給額', width: 2.5, align: 'right' }
+];
+
+/** 対象外明細の表の列 */
+const EXCLUDED_COLUMNS: PdfTableColumn[] = [
+  { header: '従業員', width: 3 },
+  { header: '差引支給額', width: 2, align: 'right' },
+  { header: '理由', width: 5 }
+];
+
+/**
+ * 口座を「金融機関 / 支店 / 預金種目 口座番号」の表示にする。
+ *
+ * @param {BankAccount} account - 口座。
+ * @returns {string} 口座の表示。
+ */
+export function formatBankAccountLabel(account: BankAccount): string {
+  return `${account.bankCode} ${account.bankName ?? ''} / ${account.branchCode} ${account.branchName ?? ''} / ${BANK_ACCOUNT_TYPE_LABELS[account.accountType]} ${account.accountNumber}`;
+}
+
+/**
+ * 件数・金額の照合の表の行を作る（最後に照合結果の行を付ける）。
+ *
+ * @param {TransferSheetTotals} totals - 件数・金額の合計。
+ * @returns {PdfTableRow[]} 表の行。
+ */
+export function buildTransferSummaryRows(totals: TransferSheetTotals): PdfTableRow[] {
+  const resultColor = totals.isBalanced ? '#065f46' : '#991b1b';
+  return [
+    { cells: ['登録済み明細（差引支給額）', String(totals.statementCount), formatCurrency(totals.statementTotal)] },
+    { cells: ['振込データ（トレーラー合計）', String(totals.transferCount), formatCurrency(totals.transferTotal)] },
+    { cells: ['対象外（現金支給等）', String(totals.excludedCount), formatCurrency(totals.excludedTotal)] },
+    {
+      cells: ['照合結果', '', totals.isBalanced ? '一致' : '不一致'],
+      fillColor: '#f3f4f6',
+      textColors: [undefined, undefined, resultColor],
+      bold: true
+    }
+  ];
+}
+
+/**
+ * 振込明細の表の行を作る（振込対象の明細のみ、最後に合計行を付ける）。
+ *
+ * @param {TransferSheetRow[]} rows - 照合表の明細。
+ * @returns {PdfTableRow[]} 表の行。
+ */
+export function buildTransferDetailRows(rows: TransferSheetRow[]): PdfTableRow[] {
+  const transferRows = rows.filter(row => row.excludedReason === null && row.bankAccount);
+  const result: PdfTableRow[] = transferRows.map(row => ({
+    cells: [
+      row.employeeName,
+      formatBankAccountLabel(row.bankAccount as BankAccount),
+      row.bankAccount?.accountHolder ?? '',
+      formatCurrency(row.netPay)
+    ]
+  }));
+  result.push({
+    cells: ['合計', `${transferRows.length}件`, '', formatCurrency(transferRows.reduce((sum, row) => sum + row.netPay, 0))],
+    fillColor: '#f3f4f6',
+    bold: true
+  });
+  return result;
+}
+
+/**
+ * 照合表のPDFのファイル名を返す。
+ *
+ * @param {TransferSheetData} data - 照合表の内容。
+ * @returns {string} ファイル名（例: 振込照合表_給与_202510.pdf）。
+ */
+export function getTransferSheetPdfFileName(data: TransferSheetData): string {
+  return `振込照合表_${data.statementLabel}_${data.year}${String(data.month).padStart(2, '0')}.pdf`;
+}
+
+/**
+ * 照合表を描画する。
+ *
+ * @param {PdfLayout} layout - PDFのレイアウト。
+ * @param {TransferSheetData} data - 照合表の内容。
+ */
+export function drawTransferSheet(layout: PdfLayout, data: TransferSheetData): void {
+  const { source } = data;
+  layout.startSection({
+    title: '振込合計照合表',
+    subtitle: `振込依頼人 ${source.requesterCode} ${source.accountHolder}`,
+    rightText: `${data.year}年${data.month}月 ${data.statementLabel}\n振込指定日 ${data.transferDate}`
+  });
+  layout.keyValueGrid([{ label: '支払口座', value: formatBankAccountLabel(source) }], 1);
+
+  layout.table(SUMMARY_COLUMNS, buildTransferSummaryRows(data.totals), { title: '件数・金額の照合' });
+  layout.table(
+    BANK_COLUMNS,
+    data.bankSummary.map(bank => ({ cells: [`${bank.bankCode} ${bank.bankName}`, String(bank.count), formatCurrency(bank.amount)] })),
+    { title: '金融機関別内訳' }
+  );
+  layout.table(TRANSFER_COLUMNS, buildTransferDetailRows(data.rows), { title: '振込明細', fontSize: 8 });
+
+  const excludedRows = data.rows.filter(row => row.excludedReason !== null);
+  if (excludedRows.length > 0) {
+    layout.table(
+      EXCLUDED_COLUMNS,
+      excludedRows.map(row => ({ cells: [row.employeeName, formatCurrency(row.netPay), row.excludedReason ?? ''] })),
+      { title: '対象外明細' }
+    );
+  }
+}
+
+/**
+ * 照合表をPDFで保存する。
+ *
+ * @param {TransferSheetData} data - 照合表の内容。
+ * @returns {Promise<void>}
+ * @throws {PdfFontLoadError} 日本語フォントを読み込めない場合。
+ */
+export const exportTransferSheetPdf = async (data: TransferSheetData): Promise<void> => {
+  const layout = createPdfLayout(await loadPdfAssets());
+  drawTransferSheet(layout, data);
+  layout.finish().save(getTransferSheetPdfFileName(data));
+};
@@ -0,0 +1,69 @@
+/**
+ * 振込元口座設定API呼び出しユーティリティ
+ * 給与振込データ（全銀フォーマット）のヘッダーに設定する、会社の振込依頼人情報と支払口座を管理する。
+ */
+
+import { apiRequest } from '../config/apiConfig';
+import { error as logError } from './logger';
+import { extractApiError, translateApiError, ApiRequestError } from './apiErrorTranslator';
+import type { BankAccount } from './employeeApi';
+
+/**
+ * 振込元口座設定（会社で1件）
+ * 口座名義（accountHolder）は振込依頼人名として使用する。
+ */
+export interface TransferSource extends BankAccount {
+  /** 振込依頼人コード（銀行から付与される10桁） */
+  requesterCode: string;
+  updatedAt?: string;
+}
+
+/**
+ * 振込元口座設定取得
+ * @returns 振込元口座設定。未設定の場合は null
+ */
+export const getTransferSource = async (): Promise<TransferSource | null> => {
+  try {
+    const response = await apiRequest('/api/v1/transfer-source', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data || null;
+  } catch (error) {
+    logError('Failed to fetch transfer source:', error);
+    throw error;
+  }
+};
+
+/**
+ * 振込元口座設定の保存（登録・更新）
+ * @param payload 振込元口座設定
+ * @returns 保存後の振込元口座設定
+ */
+export const updateTransferSource = async (payload: TransferSource): Promise<TransferSource> => {
+  try {
+    const response = await apiRequest('/api/v1/transfer-source', {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const apiError = await extractApiError(response);
+      const errorMessage = translateApiError(apiError);
+      throw new ApiRequestError(errorMessage, { status: apiError.statusCode, apiError });
+    }
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    logError('Failed to update transfer source:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * withholdingTax のユニットテスト。
+ *
+ * 対象: resolveWithholdingTaxTable / calculateTaxableAmount / calculateMonthlyWithholdingTax / calculateBonusWithholdingTax
+ *
+ * 甲欄・乙欄（88,000円未満）・賞与算出率の乙欄は登録済みの税額表（令和2年分以降）の区切りの金額で、
+ * 令和8年分以降の甲欄は給与所得控除・基礎控除の金額区分の区切りの金額で、登録していない行の計算はテスト用の表で検証する。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  resolveWithholdingTaxTable,
+  calculateTaxableAmount,
+  calculateMonthlyWithholdingTax,
+  calculateBonusWithholdingTax,
+  type WithholdingTaxTable
+} from './withholdingTax';
+import table2020 from '../config/withholdingTaxTables/2020.json';
+import table2026 from '../config/withholdingTaxTables/2026.json';
+import { WITHHOLDING_TAX_TABLES } from '../config/withholdingTaxTables';
+
+const registered = table2020 as WithholdingTaxTable;
+const registered2026 = table2026 as WithholdingTaxTable;
+
+/** 乙欄・賞与算出率を持つテスト用の表 */
+const table: WithholdingTaxTable = {
+  ...registered,
+  monthly: {
+    ...registered.monthly,
+    otsu: [
+      { min: 0, max: 88000, base: 0, rate: 0.03063 },
+      { min: 88000, max: null, base: 3200, rate: 0.1 }
+    ]
+  },
+  bonus: {
+    rates: [
+      { rate: 0, kou: Array(8).fill({ min: 0, max: 68000 }), otsu: null },
+      { rate: 0.04084, kou: Array(8).fill({ min: 68000, max: 400000 }), otsu: null },
+      { rate: 0.1021, kou: Array(8).fill({ min: 400000, max: null }), otsu: { min: 0, max: null } }
+    ]
+  }
+};
+
+describe('resolveWithholdingTaxTable', () => {
+  it('適用日以前で最も新しい表を返し、無ければ null', () => {
+    const revised = { ...table, effectiveFrom: '2026-01-01', effectiveUntil: undefined, name: '改訂' };
+    expect(resolveWithholdingTaxTable([revised, table], '2025-12-25')?.name).toBe('令和2年分以降');
+    expect(resolveWithholdingTaxTable([revised, table], '2026-01-01')?.name).toBe('改訂');
+    expect(resolveWithholdingTaxTable([table], '2019-12-31')).toBeNull();
+  });
+
+  it('適用終了日を過ぎた表は使わない（令和2年分以降の表は令和7年12月31日支払分まで）', () => {
+    expect(resolveWithholdingTaxTable([registered], '2025-12-31')?.name).toBe('令和2年分以降');
+    expect(resolveWithholdingTaxTable([registered], '2026-01-01')).toBeNull();
+  });
+
+  it('登録済みの表は令和7年12月31日支払分まで令和2年分、令和8年1月1日支払分から令和8年分を使う', () => {
+    expect(resolveWithholdingTaxTable(WITHHOLDING_TAX_TABLES, '2025-12-31')?.name).toBe('令和2年分以降');
+    expect(resolveWithholdingTaxTable(WITHHOLDING_TAX_TABLES, '2026-01-01')?.name).toBe('令和8年分以降');
+    expect(resolveWithholdingTaxTable(WITHHOLDING_TAX_TABLES, '2026-10-25')?.name).toBe('令和8年分以降');
+  });
+});
+
+describe('calculateTaxableAmount', () => {
+  it('通勤手当と社会保険料等を差し引く', () => {
+    const taxable = calculateTaxableAmount(
+      330000,
+      [{ name: '通勤手当', amount: 15000 }, { name: '住宅手当', amount: 20000 }],
+      [{ name: '社会保険', amount: 9000 }, { name: '厚生年金', amount: 5000 }, { name: '市県民税', amount: 8000 }]
+    );
+    expect(taxable).toBe(301000);
+  });
+});
+
+describe('calculateMonthlyWithholdingTax', () => {
+  it('甲欄は扶養親族等の数に応じて電算機計算の特例で計算し、10円未満を四捨五入する', () => {
+    expect(calculateMonthlyWithholdingTax(table, 300000, 'KOU', 0)?.tax).toBe(8380);
+    expect(calculateMonthlyWithholdingTax(table, 300000, 'KOU', 2)?.tax).toBe(5100);
+    expect(calculateMonthlyWithholdingTax(table, 80000, 'KOU', 0)?.tax).toBe(0);
+  });
+
+  it('令和8年分の甲欄は給与所得控除の最低保障額（54,167円）・基礎控除（48,334円）で計算する', () => {
+    const taxOf = (taxable: number, dependents = 0) => calculateMonthlyWithholdingTax(registered2026, taxable, 'KOU', dependents)?.tax;
+    // 給与所得控除・基礎控除の合計（102,501円）以下は税額なし
+    expect(taxOf(102501)).toBe(0);
+    expect(taxOf(105000)).toBe(130);
+    expect(taxOf(110000)).toBe(380);
+    // 給与所得控除の最低保障額の区分（158,333円以下）と次の区分（30% + 6,667円）の区切り
+    expect(taxOf(158333)).toBe(2850);
+    expect(taxOf(158334)).toBe(2850);
+    expect(taxOf(300000)).toBe(7910);
+    expect(taxOf(300000, 2)).toBe(4680);
+    // 基礎控除が58万円（月額48,334円）から48万円（月額40,000円）になる区切り
+    expect(taxOf(2120833)).toBe(542150);
+    expect(taxOf(2120834)).toBe(545550);
+    expect(calculateMonthlyWithholdingTax(registered2026, 300000, 'KOU', 0)?.basis).toBe('令和8年分以降 月額表 甲欄・扶養0人');
+  });
+
+  it('令和8年分の乙欄・賞与の算出率の表は未登録のため計算しない（手入力）', () => {
+    expect(calculateMonthlyWithholdingTax(registered2026, 50000, 'OTSU', 0)).toBeNull();
+    expect(calculateBonusWithholdingTax(registered2026, 500000, 300000, 'KOU', 0)).toBeNull();
+    // 前月の給与が無い賞与は月額表 甲欄で計算できる: (300,000円の税額 7,910円 − 0円) × 6
+    expect(calculateBonusWithholdingTax(registered2026, 1800000, 0, 'KOU', 0)?.tax).toBe(47460);
+  });
+
+  it('乙欄は88,000円未満の場合、社会保険料等控除後の給与の3.063%（1円未満切捨て）', () => {
+    expect(calculateMonthlyWithholdingTax(registered, 50000, 'OTSU', 0)?.tax).toBe(1531);
+    expect(calculateMonthlyWithholdingTax(registered, 87999, 'OTSU', 0)?.tax).toBe(2695);
+  });
+
+  it('乙欄は税額表の行で計算し、行が無ければ null', () => {
+    expect(calculateMonthlyWithholdingTax(table, 100000, 'OTSU', 3)?.tax).toBe(4400);
+    expect(calculateMonthlyWithholdingTax({ ...table, monthly: { ...table.monthly, otsu: [] } }, 50000, 'OTSU', 0)).toBeNull();
+  });
+});
+
+describe('calculateBonusWithholdingTax', () => {
+  it('前月給与から算出率を求めて賞与に乗じる', () => {
+    const result = calculateBonusWithholdingTax(table, 500000, 300000, 'KOU', 0);
+    expect(result?.tax).toBe(20420);
+    expect(result?.basis).toContain('4.084%');
+  });
+
+  it('前月給与が無い場合・10倍を超える場合は月額表で計算する', () => {
+    expect(calculateBonusWithholdingTax(table, 1200000, 0, 'KOU', 0)?.tax).toBe(28560);
+    expect(calculateBonusWithholdingTax(table, 600000, 50000, 'KOU', 0)?.tax).toBe(17880);
+  });
+
+  it('乙欄は前月給与の区切り（222千円・293千円・524千円・1,118千円）ごとの算出率を乗じる', () => {
+    const taxOf = (previous: number) => calculateBonusWithholdingTax(registered, 500000, previous, 'OTSU', 0)?.tax;
+    expect(taxOf(221999)).toBe(51050);
+    expect(taxOf(222000)).toBe(102100);
+    expect(taxOf(292999)).toBe(102100);
+    expect(taxOf(293000)).toBe(153150);
+    expect(taxOf(523999)).toBe(153150);
+    expect(taxOf(524000)).toBe(193990);
+    expect(taxOf(1117999)).toBe(193990);
+    expect(taxOf(1118000)).toBe(229725);
+    expect(calculateBonusWithholdingTax(registered, 500000, 300000, 'OTSU', 0)?.basis).toContain('乙欄 30.630%');
+  });
+
+  it('算出率の表に該当する行が無ければ null', () => {
+    expect(calculateBonusWithholdingTax({ ...table, bonus: { rates: [] } }, 500000, 300000, 'KOU', 0)).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * 給与・賞与の源泉徴収税額（所得税）の計算ユーティリティ。
+ *
+ * - 月額表 甲欄: 月額表の甲欄に代えて使用できる「電算機計算の特例」の算式で求める。
+ * - 月額表 乙欄: 税額表の行（以上・未満の範囲ごとの税額・税率）で求める。
+ * - 賞与: 「賞与に対する源泉徴収税額の算出率の表」で前月給与から算出率を求める。
+ *   前月の給与が無い場合、または賞与が前月給与の10倍を超える場合は月額表を使って求める。
+ *
+ * 税額表の数値はコードに持たず、適用開始日ごとのデータ（{@link WithholdingTaxTable}）として渡す。
+ */
+
+/** 源泉徴収税額表の区分（甲欄: 扶養控除等申告書の提出あり / 乙欄: 提出なし） */
+export type WithholdingColumn = 'KOU' | 'OTSU';
+
+/** 区分の表示名 */
+export const WITHHOLDING_COLUMN_LABELS: Record<WithholdingColumn, string> = {
+  KOU: '甲欄',
+  OTSU: '乙欄'
+};
+
+/**
+ * 金額区分ごとの控除額（金額 × rate + amount）。
+ * upTo はその区分に含まれる上限額（以下）で、null は上限なし。
+ */
+export interface DeductionBracket {
+  upTo: number | null;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * 課税給与所得金額に対する税率区分（金額 × rate − deduction、復興特別所得税込み）。
+ */
+export interface TaxRateBracket {
+  upTo: number | null;
+  rate: number;
+  deduction: number;
+}
+
+/** 月額表 甲欄（電算機計算の特例）のパラメータ */
+export interface KouMonthlyFormula {
+  /** 給与所得控除の額（月額、1円未満切上げ） */
+  employmentIncomeDeduction: DeductionBracket[];
+  /** 基礎控除の額（月額） */
+  basicDeduction: DeductionBracket[];
+  /** 配偶者（特別）控除・扶養控除の額（扶養親族等1人あたりの月額） */
+  dependentDeduction: number;
+  /** 税率（10円未満四捨五入） */
+  taxRates: TaxRateBracket[];
+}
+
+/**
+ * 月額表 乙欄の1行（min 以上 max 未満）。
+ * 税額 = base + (社会保険料等控除後の給与 − min) × rate（1円未満切捨て）。
+ */
+export interface OtsuMonthlyRow {
+  min: number;
+  max: number | null;
+  base: number;
+  rate: number;
+}
+
+/** 前月給与の範囲（min 以上 max 未満、単位は円） */
+export interface AmountRange {
+  min: number;
+  max: number | null;
+}
+
+/**
+ * 賞与の算出率の表の1行。
+ * kou は扶養親族等の数（0〜7人）ごとの前月給与の範囲で、該当する範囲が無い人数は null。
+ */
+export interface BonusRateRow {
+  rate: number;
+  kou: Array<AmountRange | null>;
+  otsu: AmountRange | null;
+}
+
+/** 源泉徴収税額表（適用開始日ごとに1件） */
+export interface WithholdingTaxTable {
+  /** 適用開始日（YYYY-MM-DD、支給日で判定） */
+  effectiveFrom: string;
+  /** 適用終了日（YYYY-MM-DD）。改訂後の表が未登録の間に古い表で計算しないよう、改訂が分かっている表に設定する */
+  effectiveUntil?: string;
+  /** 表示名（例: 令和2年分以降） */
+  name: string;
+  monthly: {
+    kou: KouMonthlyFormula;
+    otsu: OtsuMonthlyRow[];
+  };
+  bonus: {
+    rates: BonusRateRow[];
+  };
+}
+
+/** 源泉徴収税額の計算結果 */
+export interface WithholdingTaxResult {
+  /** 税額（円） */
+  tax: number;
+  /** 計算根拠（画面表示用） */
+  basis: string;
+}
+
+/** 賞与の算出率の表の扶養親族等の数の上限（超える場合はこの人数の欄を使用） */
+const MAX_BONUS_DEPENDENTS_COLUMN = 7;
+
+/** 社会保険料等として課税対象から差し引く控除項目名 */
+export const SOCIAL_INSURANCE_DEDUCTION_NAMES = ['社会保険', '健康保険', '介護保険', '厚生年金', '雇用保険'];
+
+/** 源泉所得税の控除項目名 */
+export const INCOME_TAX_DEDUCTION_NAME = '所得税';
+
+/** 非課税の手当（通勤手当）の判定 */
+const isNonTaxableAllowance = (name: string): boolean => name.includes('通勤');
+
+const findBracket = <T extends { upTo: number | null }>(brackets: T[], amount: number): T | undefined =>
+  brackets.find(bracket => bracket.upTo === null || amount <= bracket.upTo);
+
+const inRange = (range: AmountRange | null | undefined, amount: number): boolean =>
+  !!range && amount >= range.min && (range.max === null || amount < range.max);
+
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(3)}%`;
+
+/**
+ * 適用日時点で有効な税額表を返す（適用開始日が適用日以前で最も新しいもの）。
+ * 適用終了日を過ぎた表は使わない。
+ *
+ * @param {WithholdingTaxTable[]} tables - 税額表の一覧（順不同）。
+ * @param {string} date - 適用日（YYYY-MM-DD）。
+ * @returns {WithholdingTaxTable | null} 該当する税額表。無ければ null。
+ */
+export function resolveWithholdingTaxTable(tables: WithholdingTaxTable[], date: string): WithholdingTaxTable | null {
+  return [...tables]
+    .filter(table => table.effectiveFrom <= date && (!table.effectiveUntil || date <= table.effectiveUntil))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0] ?? null;
+}
+
+/**
+ * 支給額・控除の内訳から、源泉徴収の対象となる社会保険料等控除後の金額を求める。
+ * 通勤手当（非課税限度額内の前提）と社会保険料・雇用保険料を差し引く。
+ *
+ * @param {number} totalEarnings - 総支給額。
+ * @param {Array<{ name: string; amount: number }>} allowances - 手当の内訳。
+ * @param {Array<{ name: string; amount: number }>} deductions - 控除の内訳。
+ * @returns {number} 社会保険料等控除後の金額（0円未満は0円）。
+ */
+export function calculateTaxableAmount(
+  totalEarnings: number,
+  allowances: Array<{ name: string; amount: number }>,
+  deductions: Array<{ name: string; amount: number }>
+): number {
+  const nonTaxable = allowances
+    .filter(allowance => isNonTaxableAllowance(allowance.name))
+    .reduce((sum, allowance) => sum + (allowance.amount || 0), 0);
+  const socialInsurance = deductions
+    .filter(deduction => SOCIAL_INSURANCE_DEDUCTION_NAMES.includes(deduction.name))
+    .reduce((sum, deduction) => sum + (deduction.amount || 0), 0);
+  return Math.max(0, totalEarnings - nonTaxable - socialInsurance);
+}
+
+/**
+ * 月額表 甲欄の税額（電算機計算の特例）。
+ */
+function calculateKouMonthlyTax(formula: KouMonthlyFormula, taxable: number, dependents: number): number {
+  const employment = findBracket(formula.employmentIncomeDeduction, taxable);
+  const basic = findBracket(formula.basicDeduction, taxable);
+  const employmentDeduction = employment ? Math.ceil(taxable * employment.rate + employment.amount) : 0;
+  const basicDeduction = basic ? Math.ceil(taxable * basic.rate + basic.amount) : 0;
+  const taxableIncome = taxable - employmentDeduction - basicDeduction - formula.dependentDeduction * dependents;
+  if (taxableIncome <= 0) return 0;
+  const bracket = findBracket(formula.taxRates, taxableIncome);
+  if (!bracket) return 0;
+  return Math.max(0, Math.round((taxableIncome * bracket.rate - bracket.deduction) / 10) * 10);
+}
+
+/**
+ * 月額表 乙欄の税額。該当する行が無い場合は null。
+ */
+function calculateOtsuMonthlyTax(rows: OtsuMonthlyRow[], taxable: number): number | null {
+  const row = rows.find(r => inRange(r, taxable));
+  if (!row) return null;
+  return row.base + Math.floor((taxable - row.min) * row.rate);
+}
+
+/**
+ * 給与（月額）の源泉徴収税額を月額表で計算する。
+ *
+ * @param {WithholdingTaxTable} table - 税額表。
+ * @param {number} taxable - 社会保険料等控除後の給与の金額。
+ * @param {WithholdingColumn} column - 甲欄・乙欄。
+ * @param {number} dependents - 扶養親族等の数（乙欄では使用しない）。
+ * @returns {WithholdingTaxResult | null} 計算結果。乙欄で税額表に該当する行が無い場合は null。
+ */
+export function calculateMonthlyWithholdingTax(
+  table: WithholdingTaxTable,
+  taxable: number,
+  column: WithholdingColumn,
+  dependents: number
+): WithholdingTaxResult | null {
+  const amount = Math.max(0, Math.floor(taxable));
+  if (column === 'KOU') {
+    return {
+      tax: calculateKouMonthlyTax(table.monthly.kou, amount, dependents),
+      basis: `${table.name} 月額表 甲欄・扶養${dependents}人`
+    };
+  }
+  const tax = calculateOtsuMonthlyTax(table.monthly.otsu, amount);
+  return tax === null ? null : { tax, basis: `${table.name} 月額表 乙欄` };
+}
+
+/**
+ * 賞与の源泉徴収税額を計算する。
+ * 前月の給与が無い場合、または賞与（社会保険料等控除後）が前月給与の10倍を超える場合は、
+ * 賞与の6分の1を前月給与に加えた金額の月額表の税額から前月給与の税額を差し引き、6倍して求める。
+ *
+ * @param {WithholdingTaxTable} table - 税額表。
+ * @param {number} bonusTaxable - 社会保険料等控除後の賞与の金額。
+ * @param {number} previousMonthTaxable - 前月の社会保険料等控除後の給与の金額（無い場合は0）。
+ * @param {WithholdingColumn} column - 甲欄・乙欄。
+ * @param {number} dependents - 扶養親族等の数。
+ * @returns {WithholdingTaxResult | null} 計算結果。税額表に該当する行が無い場合は null。
+ */
+export function calculateBonusWithholdingTax(
+  table: WithholdingTaxTable,
+  bonusTaxable: number,
+  previousMonthTaxable: number,
+  column: WithholdingColumn,
+  dependents: number
+): WithholdingTaxResult | null {
+  const bonus = Math.max(0, Math.floor(bonusTaxable));
+  const previous = Math.max(0, Math.floor(previousMonthTaxable));
+
+  if (previous === 0 || bonus > previous * 10) {
+    const withBonus = calculateMonthlyWithholdingTax(table, previous + Math.floor(bonus / 6), column, dependents);
+    const withoutBonus = calculateMonthlyWithholdingTax(table, previous, column, dependents);
+    if (!withBonus || !withoutBonus) return null;
+    return {
+      tax: Math.max(0, (withBonus.tax - withoutBonus.tax) * 6),
+      basis: `${withBonus.basis}（${previous === 0 ? '前月給与なし' : '前月給与の10倍超'}のため月額表で計算）`
+    };
+  }
+
+  const dependentsColumn = Math.min(Math.max(0, dependents), MAX_BONUS_DEPENDENTS_COLUMN);
+  const row = table.bonus.rates.find(r =>
+    column === 'KOU' ? inRange(r.kou[dependentsColumn], previous) : inRange(r.otsu, previous)
+  );
+  if (!row) return null;
+  return {
+    tax: Math.floor(bonus * row.rate),
+    basis: column === 'KOU'
+      ? `${table.name} 賞与算出率 甲欄・扶養${dependents}人 ${formatRate(row.rate)}`
+      : `${table.name} 賞与算出率 乙欄 ${formatRate(row.rate)}`
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * zenginTransfer のユニットテスト。
+ *
+ * 対象: toZenginKana / validateBankAccount / buildZenginRecords / encodeZenginFile / summarizeTransfersByBank
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与振込データ）
+ *
+ * 全銀協 総合振込フォーマット: 1レコード120バイト固定長、ヘッダー(1)・データ(2)・トレーラー(8)・エンド(9)。
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  toZenginKana,
+  validateBankAccount,
+  buildZenginRecords,
+  encodeZenginFile,
+  summarizeTransfersByBank,
+  ZENGIN_RECORD_LENGTH,
+  type ZenginRequester,
+  type ZenginTransferItem
+} from './zenginTransfer';
+
+const requester: ZenginRequester = {
+  requesterCode: '1234567890',
+  accountHolder: 'カ）サンプルショウジ',
+  bankCode: '0001',
+  bankName: 'ミズホ',
+  branchCode: '001',
+  branchName: 'ホンテン',
+  accountType: 'ORDINARY',
+  accountNumber: '1234567'
+};
+
+const items: ZenginTransferItem[] = [
+  {
+    bankCode: '0005',
+    bankName: 'ミツビシユーエフジエイ',
+    branchCode: '123',
+    branchName: 'シンジュク',
+    accountType: 'ORDINARY',
+    accountNumber: '7654321',
+    accountHolder: 'やまだ　たろう',
+    amount: 250000
+  },
+  {
+    bankCode: '0001',
+    branchCode: '010',
+    accountType: 'CHECKING',
+    accountNumber: '123',
+    accountHolder: 'ｻﾄｳ ﾊﾅｺ',
+    amount: 180500
+  }
+];
+
+describe('toZenginKana', () => {
+  it('ひらがな・全角カナ・全角英数を半角に変換し、濁点を分離する', () => {
+    expect(toZenginKana('やまだ　たろう')).toBe('ﾔﾏﾀﾞ ﾀﾛｳ');
+    expect(toZenginKana('ガッコウ')).toBe('ｶﾞﾂｺｳ');
+    expect(toZenginKana('ＡＢＣ１２３abc')).toBe('ABC123ABC');
+    expect(toZenginKana('パン')).toBe('ﾊﾟﾝ');
+  });
+});
+
+describe('validateBankAccount', () => {
+  it('正しい口座はエラーなし、桁数不正・漢字名義はエラー', () => {
+    expect(validateBankAccount(items[0])).toEqual([]);
+    expect(validateBankAccount(null)).toEqual(['口座が登録されていません']);
+    const errors = validateBankAccount({ ...items[0], bankCode: '12', accountHolder: '山田太郎' });
+    expect(errors).toHaveLength(2);
+    expect(errors[1]).toContain('山田太郎');
+  });
+});
+
+describe('buildZenginRecords', () => {
+  it('全レコードが120文字で、ヘッダー・データ・トレーラー・エンドの順になる', () => {
+    const records = buildZenginRecords(requester, '2025-07-25', items);
+    expect(records).toHaveLength(items.length + 3);
+    records.forEach(record => expect(record).toHaveLength(ZENGIN_RECORD_LENGTH));
+    expect(records.map(r => r[0])).toEqual(['1', '2', '2', '8', '9']);
+  });
+
+  it('ヘッダーに種別コード21・依頼人コード・振込指定日（MMDD）を設定する', () => {
+    const [header] = buildZenginRecords(requester, '2025-07-25', items);
+    expect(header.slice(1, 3)).toBe('21');
+    expect(header.slice(4, 14)).toBe('1234567890');
+    expect(header.slice(54, 58)).toBe('0725');
+  });
+
+  it('データは口座番号・金額を前ゼロ埋めし、トレーラーに件数と合計金額を設定する', () => {
+    const records = buildZenginRecords(requester, '2025-07-25', items);
+    const second = records[2];
+    expect(second.slice(1, 5)).toBe('0001');
+    expect(second.slice(42, 43)).toBe('2');
+    expect(second.slice(43, 50)).toBe('0000123');
+    expect(second.slice(50, 80)).toBe('ｻﾄｳ ﾊﾅｺ'.padEnd(30, ' '));
+    expect(second.slice(80, 90)).toBe('0000180500');
+    const trailer = records[3];
+    expect(trailer.slice(1, 7)).toBe('000002');
+    expect(trailer.slice(7, 19)).toBe('000000430500');
+  });
+});
+
+describe('encodeZenginFile', () => {
+  it('半角カナは1バイト（0xA1〜0xDF）で、各レコードを CRLF で区切る', () => {
+    const bytes = encodeZenginFile(buildZenginRecords(requester, '2025-07-25', items));
+    expect(bytes.length).toBe((ZENGIN_RECORD_LENGTH + 2) * (items.length + 3));
+    expect(bytes[120]).toBe(0x0d);
+    expect(bytes[121]).toBe(0x0a);
+    // ヘッダーの振込依頼人名の先頭「ｶ」= 0xB6
+    expect(bytes[14]).toBe(0xb6);
+  });
+
+  it('1バイトで表せない文字はエラー', () => {
+    expect(() => encodeZenginFile(['山田'])).toThrow();
+  });
+});
+
+describe('summarizeTransfersByBank', () => {
+  it('金融機関コードごとに件数・金額を集計する', () => {
+    expect(summarizeTransfersByBank(items)).toEqual([
+      { bankCode: '0001', bankName: '', count: 1, amount: 180500 },
+      { bankCode: '0005', bankName: 'ミツビシユーエフジエイ', count: 1, amount: 250000 }
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * 全銀協フォーマット（総合振込）の振込データ作成ユーティリティ。
+ * 1レコード120バイト固定長（ヘッダー・データ・トレーラー・エンドの4種）を CRLF 区切りで出力する。
+ * 使用できる文字は半角英数字・半角カナ・一部記号のみのため、Shift_JIS では全て1バイトで表現される。
+ */
+
+import type { BankAccount, BankAccountType } from './employeeApi';
+
+/** 1レコードのバイト長 */
+export const ZENGIN_RECORD_LENGTH = 120;
+
+/** 預金種目コード（1: 普通, 2: 当座, 4: 貯蓄） */
+export const BANK_ACCOUNT_TYPE_CODES: Record<BankAccountType, string> = {
+  ORDINARY: '1',
+  CHECKING: '2',
+  SAVINGS: '4'
+};
+
+/** 預金種目の表示名 */
+export const BANK_ACCOUNT_TYPE_LABELS: Record<BankAccountType, string> = {
+  ORDINARY: '普通',
+  CHECKING: '当座',
+  SAVINGS: '貯蓄'
+};
+
+/** 振込依頼人（会社）の情報 */
+export interface ZenginRequester extends BankAccount {
+  /** 振込依頼人コード（銀行から付与される10桁） */
+  requesterCode: string;
+}
+
+/** 振込1件（データレコード） */
+export interface ZenginTransferItem extends BankAccount {
+  /** 振込金額（円） */
+  amount: number;
+}
+
+/** 全角カナ → 半角カナ（U+FF66〜U+FF9D の並び順） */
+const FULL_WIDTH_KATAKANA = 'ヲァィゥェォャュョッーアイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワン';
+
+/** 全銀フォーマットで使えない小書き・旧字のカナの置き換え */
+const KANA_REPLACEMENTS: Record<string, string> = {
+  'ｧ': 'ｱ', 'ｨ': 'ｲ', 'ｩ': 'ｳ', 'ｪ': 'ｴ', 'ｫ': 'ｵ',
+  'ｬ': 'ﾔ', 'ｭ': 'ﾕ', 'ｮ': 'ﾖ', 'ｯ': 'ﾂ', 'ｰ': '-',
+  'ヮ': 'ﾜ', 'ヰ': 'ｲ', 'ヱ': 'ｴ', 'ヵ': 'ｶ', 'ヶ': 'ｹ'
+};
+
+/** 全銀フォーマットで使用できる文字 */
+const ZENGIN_ALLOWED = /^[0-9A-Z ()\-./,ｦ-ﾟ]*$/;
+
+/**
+ * 口座名義等を全銀フォーマットで使える文字（半角大文字英数・半角カナ）に変換する。
+ * ひらがな・全角カナ・全角英数は半角に、濁点・半濁点は分離し、小書きカナは大書きにする。
+ * 変換できない文字（漢字など）はそのまま残すため、{@link findInvalidZenginChars} で検出すること。
+ *
+ * @param {string} input - 変換元の文字列。
+ * @returns {string} 変換後の文字列。
+ */
+export function toZenginKana(input: string): string {
+  let result = '';
+  for (const ch of input.normalize('NFD')) {
+    const code = ch.charCodeAt(0);
+    let converted = ch;
+    if (ch === '\u3000') {
+      converted = ' ';
+    } else if (code >= 0xff01 && code <= 0xff5e) {
+      // 全角英数記号 → 半角
+      converted = String.fromCharCode(code - 0xfee0);
+    } else if (code >= 0x3041 && code <= 0x3096) {
+      // ひらがな → カタカナ
+      converted = String.fromCharCode(code + 0x60);
+    } else if (ch === '\u3099' || ch === '\u309b') {
+      converted = 'ﾞ';
+    } else if (ch === '\u309a' || ch === '\u309c') {
+      converted = 'ﾟ';
+    }
+    const index = FULL_WIDTH_KATAKANA.indexOf(converted);
+    if (index >= 0) {
+      converted = String.fromCharCode(0xff66 + index);
+    }
+    converted = KANA_REPLACEMENTS[converted] ?? converted;
+    result += converted.toUpperCase();
+  }
+  return result;
+}
+
+/**
+ * 全銀フォーマットで使用できない文字を返す（重複なし）。
+ *
+ * @param {string} value - 検査する文字列（{@link toZenginKana} で変換済みのもの）。
+ * @returns {string[]} 使用できない文字。
+ */
+export function findInvalidZenginChars(value: string): string[] {
+  return [...new Set([...value].filter(ch => !ZENGIN_ALLOWED.test(ch)))];
+}
+
+/**
+ * 口座情報の入力チェック。
+ *
+ * @param {Partial<BankAccount> | null | undefined} account - 口座情報。
+ * @returns {string[]} エラーメッセージ（問題が無ければ空配列）。
+ */
+export function validateBankAccount(account: Partial<BankAccount> | null | undefined): string[] {
+  if (!account) return ['口座が登録されていません'];
+  const errors: string[] = [];
+  if (!/^\d{4}$/.test(account.bankCode ?? '')) errors.push('金融機関コードは4桁の数字で入力してください');
+  if (!/^\d{3}$/.test(account.branchCode ?? '')) errors.push('支店コードは3桁の数字で入力してください');
+  if (!/^\d{1,7}$/.test(account.accountNumber ?? '')) errors.push('口座番号は7桁以内の数字で入力してください');
+  if (!account.accountType || !(account.accountType in BANK_ACCOUNT_TYPE_CODES)) errors.push('預金種目を選択してください');
+  const holder = toZenginKana(account.accountHolder ?? '').trim();
+  if (!holder) {
+    errors.push('口座名義（カナ）を入力してください');
+  } else {
+    const invalid = findInvalidZenginChars(holder);
+    if (invalid.length > 0) errors.push(`口座名義に使用できない文字があります: ${invalid.join('')}`);
+  }
+  return errors;
+}
+
+/** 英数カナ項目: 左詰め・右スペース埋め（超過分は切り捨て） */
+const alpha = (value: string | null | undefined, length: number): string =>
+  toZenginKana(value ?? '').slice(0, length).padEnd(length, ' ');
+
+/** 数字項目: 右詰め・前ゼロ埋め */
+const numeric = (value: string | number, length: number): string =>
+  String(value).replace(/\D/g, '').slice(-length).padStart(length, '0');
+
+const spaces = (length: number): string => ' '.repeat(length);
+
+/**
+ * 総合振込のレコード（ヘッダー・データ・トレーラー・エンド）を作成する。
+ *
+ * @param {ZenginRequester} requester - 振込依頼人（会社）の情報。
+ * @param {string} transferDate - 振込指定日（YYYY-MM-DD）。
+ * @param {ZenginTransferItem[]} items - 振込明細。
+ * @returns {string[]} 各120文字のレコード。
+ */
+export function buildZenginRecords(
+  requester: ZenginRequester,
+  transferDate: string,
+  items: ZenginTransferItem[]
+): string[] {
+  const [, month, day] = transferDate.split('-');
+  const header = [
+    '1',                                              // データ区分
+    '21',                                             // 種別コード（総合振込）
+    '0',                                              // コード区分（JIS）
+    numeric(requester.requesterCode, 10),             // 振込依頼人コード
+    alpha(requester.accountHolder, 40),               // 振込依頼人名
+    numeric(`${month}${day}`, 4),                     // 振込指定日（MMDD）
+    numeric(requester.bankCode, 4),                   // 仕向銀行番号
+    alpha(requester.bankName, 15),                    // 仕向銀行名
+    numeric(requester.branchCode, 3),                 // 仕向支店番号
+    alpha(requester.branchName, 15),                  // 仕向支店名
+    BANK_ACCOUNT_TYPE_CODES[requester.accountType],   // 預金種目（依頼人）
+    numeric(requester.accountNumber, 7),              // 口座番号（依頼人）
+    spaces(17)                                        // ダミー
+  ].join('');
+
+  const data = items.map(item => [
+    '2',                                              // データ区分
+    numeric(item.bankCode, 4),                        // 被仕向銀行番号
+    alpha(item.bankName, 15),                         // 被仕向銀行名
+    numeric(item.branchCode, 3),                      // 被仕向支店番号
+    alpha(item.branchName, 15),                       // 被仕向支店名
+    spaces(4),                                        // 手形交換所番号
+    BANK_ACCOUNT_TYPE_CODES[item.accountType],        // 預金種目
+    numeric(item.accountNumber, 7),                   // 口座番号
+    alpha(item.accountHolder, 30),                    // 受取人名
+    numeric(item.amount, 10),                         // 振込金額
+    '0',                                              // 新規コード
+    spaces(10),                                       // 顧客コード1
+    spaces(10),                                       // 顧客コード2
+    '7',                                              // 振込区分（電信）
+    spaces(1),                                        // 識別表示
+    spaces(7)                                         // ダミー
+  ].join(''));
+
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const trailer = [
+    '8',                                              // データ区分
+    numeric(items.length, 6),                         // 合計件数
+    numeric(totalAmount, 12),                         // 合計金額
+    spaces(101)                                       // ダミー
+  ].join('');
+
+  const end = '9' + spaces(119);
+
+  return [header, ...data, trailer, end];
+}
+
+/**
+ * レコードを Shift_JIS（JIS X 0201 の範囲）のバイト列に変換する。各レコードは CRLF で区切る。
+ *
+ * @param {string[]} records - {@link buildZenginRecords} で作成したレコード。
+ * @returns {Uint8Array} ファイル内容。
+ * @throws {Error} 1バイトで表現できない文字が含まれる場合。
+ */
+export function encodeZenginFile(records: string[]): Uint8Array<ArrayBuffer> {
+  const bytes: number[] = [];
+  records.forEach(record => {
+    for (const ch of record) {
+      const code = ch.charCodeAt(0);
+      if (code >= 0x20 && code <= 0x7e) {
+        bytes.push(code);
+      } else if (code >= 0xff61 && code <= 0xff9f) {
+        bytes.push(code - 0xfec0);
+      } else {
+        throw new Error(`振込データに使用できない文字が含まれています: ${ch}`);
+      }
+    }
+    bytes.push(0x0d, 0x0a);
+  });
+  return new Uint8Array(bytes);
+}
+
+/**
+ * 照合表用に、振込明細を金融機関ごとに集計する（金融機関コード順）。
+ *
+ * @param {ZenginTransferItem[]} items - 振込明細。
+ * @returns {{ bankCode: string; bankName: string; count: number; amount: number }[]} 金融機関別の件数・金額。
+ */
+export function summarizeTransfersByBank(
+  items: ZenginTransferItem[]
+): Array<{ bankCode: string; bankName: string; count: number; amount: number }> {
+  const map = new Map<string, { bankCode: string; bankName: string; count: number; amount: number }>();
+  items.forEach(item => {
+    const row = map.get(item.bankCode) ?? { bankCode: item.bankCode, bankName: item.bankName ?? '', count: 0, amount: 0 };
+    row.count += 1;
+    row.amount += item.amount;
+    map.set(item.bankCode, row);
+  });
+  return [...map.values()].sort((a, b) => a.bankCode.localeCompare(b.bankCode));
+}
@@ -0,0 +1,57 @@
+/**
+ * zipArchive のユニットテスト。
+ *
+ * 対象: crc32 / createZipArchive
+ * 設計書: attendance-workspace/docs/frontend/UI_SPECIFICATION.md（給与明細PDFの一括出力）
+ *
+ * 従業員ごとの給与明細PDFを無圧縮のZIPにまとめる。日本語のファイル名はUTF-8で格納する。
+ */
+import { describe, it, expect } from 'vitest';
+import { crc32, createZipArchive } from './zipArchive';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('CRC-32 の検査値と一致する', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZipArchive', () => {
+  it('ローカルヘッダー・ファイル名（UTF-8）・データ・終端レコードを格納する', () => {
+    const data = encoder.encode('%PDF-1.3');
+    const archive = createZipArchive([{ name: '給与明細_山田太郎.pdf', data }], new Date(2025, 9, 25, 10, 30, 0));
+    const view = new DataView(archive.buffer);
+    const name = encoder.encode('給与明細_山田太郎.pdf');
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+    expect(view.getUint32(22, true)).toBe(data.length);
+    expect(Array.from(archive.slice(30, 30 + name.length))).toEqual(Array.from(name));
+    expect(Array.from(archive.slice(30 + name.length, 30 + name.length + data.length))).toEqual(Array.from(data));
+
+    const endOffset = archive.length - 22;
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 10, true)).toBe(1);
+    expect(view.getUint32(endOffset + 16, true)).toBe(30 + name.length + data.length);
+  });
+
+  it('複数ファイルの中央ディレクトリはローカルヘッダーの位置を指す', () => {
+    const first = encoder.encode('a');
+    const second = encoder.encode('bc');
+    const archive = createZipArchive([
+      { name: 'a.pdf', data: first },
+      { name: 'b.pdf', data: second }
+    ]);
+    const view = new DataView(archive.buffer);
+    const endOffset = archive.length - 22;
+    const centralOffset = view.getUint32(endOffset + 16, true);
+    const secondCentral = centralOffset + 46 + 'a.pdf'.length;
+
+    expect(view.getUint16(endOffset + 10, true)).toBe(2);
+    expect(view.getUint32(secondCentral, true)).toBe(0x02014b50);
+    expect(view.getUint32(secondCentral + 42, true)).toBe(30 + 'a.pdf'.length + first.length);
+  });
+});
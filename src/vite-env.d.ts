@@ -2,6 +2,10 @@
 
 interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  /** PDF出力用の日本語フォント（TrueType形式の .ttf）のURL */
+  readonly VITE_PDF_FONT_URL?: string;
+  /** PDFの見出しに表示する会社ロゴ（PNG/JPEG）のURL */
+  readonly VITE_PDF_LOGO_URL?: string;
 }
 
 interface ImportMeta {